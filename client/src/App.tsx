@@ -9,12 +9,15 @@ import LeagueDetail from "./pages/LeagueDetail";
 import CreateLeague from "./pages/CreateLeague";
 import Draft from "./pages/Draft";
 import PreDraft from "./pages/PreDraft";
+import MockDraft from "./pages/MockDraft";
 import Matchups from "./pages/Matchups";
 import Standings from "./pages/Standings";
 import Playoffs from "./pages/Playoffs";
 import Lineup from "./pages/Lineup";
 import Scoring from "./pages/Scoring";
 import Waivers from "./pages/Waivers";
+import Keepers from "./pages/Keepers";
+import LeagueSettings from "./pages/LeagueSettings";
 import Trades from "./pages/Trades";
 import AcceptInvitation from "./pages/AcceptInvitation";
 import Login from "./pages/Login";
@@ -70,6 +73,8 @@ function AuthedRoutes() {
         <Route path={"/league/:id/lineup"} component={Lineup} />
         <Route path={"/league/:id/scoring"} component={Scoring} />
         <Route path={"/league/:id/waivers"} component={Waivers} />
+        <Route path={"/league/:id/keepers"} component={Keepers} />
+        <Route path={"/league/:id/settings"} component={LeagueSettings} />
         <Route path={"/league/:id/trades"} component={Trades} />
         <Route path={"/league/:id/players"} component={Players} />
         {/* Challenge routes (daily mode) */}
@@ -81,11 +86,13 @@ function AuthedRoutes() {
         <Route path={"/challenge/:id/playoffs"} component={Playoffs} />
         <Route path={"/challenge/:id/lineup"} component={Lineup} />
         <Route path={"/challenge/:id/scoring"} component={Scoring} />
+        <Route path={"/challenge/:id/settings"} component={LeagueSettings} />
         {/* Public Mode: Strain Fantasy League routes */}
         <Route path={"/public/:leagueId"} component={PublicChallenge} />
         <Route path={"/public/:leagueId/draft"} component={PublicChallenge} />
         <Route path={"/prediction-streak"} component={PredictionStreak} />
         <Route path={"/prediction-leaderboard"} component={PredictionLeaderboard} />
+        <Route path={"/mock-draft"} component={MockDraft} />
         <Route path={"/leaderboard"} component={Leaderboard} />
         <Route path={"/market"} component={StockMarket} />
         <Route path={"/market/strain/:id"} component={StrainDetail} />
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Gavel, Wallet } from "lucide-react";
+
+interface AuctionLot {
+  lotNumber: number;
+  nominatingTeamId: number;
+  assetType: string;
+  assetId: number;
+  assetName: string;
+  imageUrl: string | null;
+  highBid: number;
+  highBidderTeamId: number;
+}
+
+interface AuctionTeamBudget {
+  teamId: number;
+  teamName: string;
+  remaining: number;
+  rosterCount: number;
+  openSlots: number;
+  maxBid: number;
+}
+
+interface AuctionBlockProps {
+  lot: AuctionLot | null;
+  budgets: AuctionTeamBudget[];
+  myTeamId: number;
+  nominatingTeamName: string | null;
+  isMyNomination: boolean;
+  onBid: (amount: number) => void;
+  isBidding?: boolean;
+}
+
+/**
+ * AuctionBlock
+ *
+ * Shows the asset currently up for auction, the high bid and quick-bid
+ * buttons, plus every team's remaining budget and max bid.
+ */
+export function AuctionBlock({
+  lot,
+  budgets,
+  myTeamId,
+  nominatingTeamName,
+  isMyNomination,
+  onBid,
+  isBidding = false,
+}: AuctionBlockProps) {
+  const [customBid, setCustomBid] = useState("");
+
+  const myBudget = budgets.find((b) => b.teamId === myTeamId);
+  const highBidder = lot ? budgets.find((b) => b.teamId === lot.highBidderTeamId) : null;
+  const iAmHighBidder = lot?.highBidderTeamId === myTeamId;
+  const maxBid = myBudget?.maxBid ?? 0;
+
+  const canBid = (amount: number) =>
+    !!lot && !iAmHighBidder && !isBidding && amount > lot.highBid && amount <= maxBid;
+
+  const submitCustomBid = () => {
+    const amount = parseInt(customBid);
+    if (!Number.isNaN(amount) && canBid(amount)) {
+      onBid(amount);
+      setCustomBid("");
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 bg-[#232735] border-b border-white/10 flex flex-col gap-3">
+      {lot ? (
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-lg bg-[#2d3142] overflow-hidden flex items-center justify-center flex-shrink-0">
+            {lot.imageUrl ? (
+              <img src={lot.imageUrl} alt={lot.assetName} className="w-full h-full object-cover" />
+            ) : (
+              <Gavel className="w-6 h-6 text-white/40" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-semibold text-white truncate">{lot.assetName}</div>
+            <div className="text-xs text-white/50">
+              Höchstgebot{" "}
+              <span className="font-bold text-[#00d4aa]">${lot.highBid}</span>
+              {" · "}
+              {iAmHighBidder ? "Du" : highBidder?.teamName || "—"}
+            </div>
+          </div>
+          <div className="flex items-center gap-1.5">
+            {[1, 5].map((increment) => (
+              <button
+                key={increment}
+                onClick={() => onBid(lot.highBid + increment)}
+                disabled={!canBid(lot.highBid + increment)}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-xs font-bold transition-colors",
+                  canBid(lot.highBid + increment)
+                    ? "bg-[#00d4aa] text-black hover:bg-[#00e4b8]"
+                    : "bg-[#2d3142] text-white/30"
+                )}
+              >
+                ${lot.highBid + increment}
+              </button>
+            ))}
+            <input
+              type="number"
+              value={customBid}
+              onChange={(e) => setCustomBid(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submitCustomBid()}
+              placeholder={`max ${maxBid}`}
+              className="w-20 px-2 py-1.5 rounded-full bg-[#2d3142] text-xs text-white placeholder:text-white/30 outline-none"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-white/60">
+          {isMyNomination
+            ? "Du bist dran: Wähle unten einen Spieler zur Nominierung."
+            : `Warte auf Nominierung von ${nominatingTeamName || "..."}`}
+        </div>
+      )}
+
+      {/* Team budgets */}
+      <div className="flex gap-2 overflow-x-auto">
+        {budgets.map((budget) => (
+          <div
+            key={budget.teamId}
+            className={cn(
+              "flex-shrink-0 px-2.5 py-1.5 rounded-lg bg-[#2d3142] text-[10px] text-white/60",
+              budget.teamId === myTeamId && "ring-1 ring-[#00d4aa]",
+              lot?.highBidderTeamId === budget.teamId && "bg-[#00d4aa]/20"
+            )}
+          >
+            <div className="font-semibold text-white/80 truncate max-w-[7rem]">{budget.teamName}</div>
+            <div className="flex items-center gap-1">
+              <Wallet className="w-3 h-3" />${budget.remaining}
+              <span className="text-white/40">· max ${budget.maxBid}</span>
+            </div>
+            <div className="text-white/40">{budget.openSlots} Plätze frei</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Pause, Play, Undo2, UserCheck } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface CommissionerDraftControlsProps {
+  leagueId: number;
+  isPaused: boolean;
+  pickTimeLimit: number;
+  currentTeamName: string | null;
+  pickForTeam: boolean;
+  onPickForTeamChange: (enabled: boolean) => void;
+}
+
+const TIME_LIMIT_OPTIONS = [30, 60, 90, 120, 180, 300, 600, 3600];
+
+const formatTimeLimit = (seconds: number) =>
+  seconds >= 3600 ? `${seconds / 3600}h` : seconds >= 60 ? `${seconds / 60} min` : `${seconds}s`;
+
+/**
+ * CommissionerDraftControls
+ *
+ * Commissioner toolbar for live drafts: pause/resume, undo picks,
+ * pick for the team on the clock and change the pick clock.
+ */
+export function CommissionerDraftControls({
+  leagueId,
+  isPaused,
+  pickTimeLimit,
+  currentTeamName,
+  pickForTeam,
+  onPickForTeamChange,
+}: CommissionerDraftControlsProps) {
+  const utils = trpc.useUtils();
+  const [undoCount, setUndoCount] = useState(1);
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const pauseDraft = trpc.draft.pauseDraft.useMutation({
+    onSuccess: () => utils.draft.getDraftStatus.invalidate({ leagueId }),
+    onError,
+  });
+  const resumeDraft = trpc.draft.resumeDraft.useMutation({
+    onSuccess: () => utils.draft.getDraftStatus.invalidate({ leagueId }),
+    onError,
+  });
+  const undoPicks = trpc.draft.undoPicks.useMutation({
+    onSuccess: (result) => toast.success(`Undid ${result.undone} pick${result.undone === 1 ? "" : "s"}`),
+    onError,
+  });
+  const setPickTimeLimit = trpc.draft.setPickTimeLimit.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Pick clock set to ${formatTimeLimit(result.pickTimeLimit)} from the next pick`);
+      utils.draft.getDraftStatus.invalidate({ leagueId });
+    },
+    onError,
+  });
+
+  const handleUndo = () => {
+    if (!confirm(`Undo the last ${undoCount} pick${undoCount === 1 ? "" : "s"}? Drafted assets go back to the pool.`)) {
+      return;
+    }
+    undoPicks.mutate({ leagueId, count: undoCount });
+  };
+
+  const timeLimitOptions = TIME_LIMIT_OPTIONS.includes(pickTimeLimit)
+    ? TIME_LIMIT_OPTIONS
+    : [...TIME_LIMIT_OPTIONS, pickTimeLimit].sort((a, b) => a - b);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-[#2d3142]/60 border-y border-white/10 text-xs text-white/80">
+      <span className="font-semibold uppercase tracking-wider text-white/50">Commissioner</span>
+
+      <button
+        onClick={() => (isPaused ? resumeDraft.mutate({ leagueId }) : pauseDraft.mutate({ leagueId }))}
+        disabled={pauseDraft.isPending || resumeDraft.isPending}
+        className={cn(
+          "flex items-center gap-1.5 px-3 py-1 rounded-full font-semibold transition-colors disabled:opacity-50",
+          isPaused ? "bg-[#00d4aa] text-black hover:bg-[#00e4b8]" : "bg-white/10 hover:bg-white/20"
+        )}
+      >
+        {isPaused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+        {isPaused ? "Resume draft" : "Pause draft"}
+      </button>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={undoCount}
+          onChange={(e) => setUndoCount(parseInt(e.target.value))}
+          className="bg-white/10 rounded px-1.5 py-1 text-white"
+          aria-label="Picks to undo"
+        >
+          {[1, 2, 3, 4, 5, 10].map((n) => (
+            <option key={n} value={n} className="bg-[#1a1d29]">
+              {n}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleUndo}
+          disabled={undoPicks.isPending}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 font-semibold disabled:opacity-50"
+        >
+          <Undo2 className="w-3.5 h-3.5" />
+          Undo picks
+        </button>
+      </div>
+
+      <label className="flex items-center gap-1.5">
+        Pick clock
+        <select
+          value={pickTimeLimit}
+          onChange={(e) => setPickTimeLimit.mutate({ leagueId, seconds: parseInt(e.target.value) })}
+          disabled={setPickTimeLimit.isPending}
+          className="bg-white/10 rounded px-1.5 py-1 text-white"
+        >
+          {timeLimitOptions.map((seconds) => (
+            <option key={seconds} value={seconds} className="bg-[#1a1d29]">
+              {formatTimeLimit(seconds)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 ml-auto">
+        <UserCheck className="w-3.5 h-3.5" />
+        Pick for {currentTeamName || "team on the clock"}
+        <Switch checked={pickForTeam} onCheckedChange={onPickForTeamChange} />
+      </label>
+    </div>
+  );
+}
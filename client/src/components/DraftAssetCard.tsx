@@ -12,6 +12,7 @@ interface DraftAssetCardProps {
   assetName: string;
   imageUrl?: string | null;
   stats: Array<{ label: string; value: string | number }>;
+  adp?: { adp: number; minPick: number; maxPick: number; draftPercentage: number } | null;
   isMyTurn: boolean;
   isDrafted?: boolean;
   isInMyRoster?: boolean;
@@ -26,6 +27,7 @@ interface DraftAssetCardProps {
  * - Draft button states (enabled/disabled/drafted)
  * - Visual feedback for turn status
  * - Roster status indicators
+ * - Average draft position across leagues
  */
 export function DraftAssetCard({
   assetType,
@@ -33,6 +35,7 @@ export function DraftAssetCard({
   assetName,
   imageUrl,
   stats,
+  adp,
   isMyTurn,
   isDrafted = false,
   isInMyRoster = false,
@@ -184,6 +187,14 @@ export function DraftAssetCard({
             {stat.label}: {stat.value}
           </div>
         ))}
+        {adp && (
+          <div
+            className="rounded-full bg-[#cfff4d]/15 px-3 py-1 text-xs text-[#cfff4d]"
+            title={`Picks ${adp.minPick}–${adp.maxPick} · drafted in ${adp.draftPercentage}% of drafts`}
+          >
+            ADP: {adp.adp.toFixed(1)}
+          </div>
+        )}
       </div>
     </div>
   );
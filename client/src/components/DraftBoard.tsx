@@ -7,6 +7,7 @@ import { Search, TrendingUp, Leaf, Package, Building2, UserCircle, ArrowUpDown }
 import { toast } from "sonner";
 import { DraftAssetCard } from "@/components/DraftAssetCard";
 import { cn } from "@/lib/utils";
+import { useAssetAdp, type DraftFormat } from "@/hooks/useAssetAdp";
 
 export type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
 
@@ -50,6 +51,7 @@ interface DraftBoardProps {
   myRoster: Array<{ assetType: AssetType; assetId: number; name: string }>;
   onDraftPick: (assetType: AssetType, assetId: number) => void;
   draftedAssets?: Record<AssetType, Set<number>>;
+  draftFormat?: DraftFormat;
 }
 
 /**
@@ -70,6 +72,7 @@ export default function DraftBoard({
   myRoster,
   onDraftPick,
   draftedAssets,
+  draftFormat = "snake",
 }: DraftBoardProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<AssetType | "all" | "brand">("all");
@@ -109,6 +112,17 @@ export default function DraftBoard({
 
   const isLoading = loadingMfg || loadingStrains || loadingProducts || loadingPharmacies || loadingBrands;
 
+  const { getAdp } = useAssetAdp(
+    [
+      ...manufacturers.map((a) => ({ assetType: "manufacturer" as const, assetId: a.id })),
+      ...cannabisStrains.map((a) => ({ assetType: "cannabis_strain" as const, assetId: a.id })),
+      ...products.map((a) => ({ assetType: "product" as const, assetId: a.id })),
+      ...pharmacies.map((a) => ({ assetType: "pharmacy" as const, assetId: a.id })),
+      ...brands.map((a) => ({ assetType: "brand" as const, assetId: a.id })),
+    ],
+    draftFormat
+  );
+
   // Calculate roster needs
   const rosterCounts = {
     manufacturer: myRoster.filter((r) => r.assetType === "manufacturer").length,
@@ -370,6 +384,7 @@ export default function DraftBoard({
                           key={`mfg-${mfg.id}`}
                           assetType="manufacturer"
                           assetId={mfg.id}
+                          adp={getAdp("manufacturer", mfg.id)}
                           assetName={mfg.name}
                           imageUrl={mfg.logoUrl}
                           stats={[
@@ -401,6 +416,7 @@ export default function DraftBoard({
                           key={`strain-${strain.id}`}
                           assetType="cannabis_strain"
                           assetId={strain.id}
+                          adp={getAdp("cannabis_strain", strain.id)}
                           assetName={strain.name}
                           imageUrl={strain.imageUrl}
                           stats={[
@@ -433,6 +449,7 @@ export default function DraftBoard({
                           key={`product-${product.id}`}
                           assetType="product"
                           assetId={product.id}
+                          adp={getAdp("product", product.id)}
                           assetName={product.name}
                           imageUrl={product.imageUrl}
                           stats={[
@@ -466,6 +483,7 @@ export default function DraftBoard({
                           key={`brand-${brand.id}`}
                           assetType="brand"
                           assetId={brand.id}
+                          adp={getAdp("brand", brand.id)}
                           assetName={brand.name}
                           imageUrl={brand.logoUrl}
                           stats={[
@@ -498,6 +516,7 @@ export default function DraftBoard({
                           key={`pharmacy-${phm.id}`}
                           assetType="pharmacy"
                           assetId={phm.id}
+                          adp={getAdp("pharmacy", phm.id)}
                           assetName={phm.name}
                           imageUrl={phm.logoUrl}
                           stats={[
@@ -536,6 +555,7 @@ export default function DraftBoard({
                     key={mfg.id}
                     assetType="manufacturer"
                     assetId={mfg.id}
+                    adp={getAdp("manufacturer", mfg.id)}
                     assetName={mfg.name}
                     imageUrl={mfg.logoUrl}
                     stats={[
@@ -565,6 +585,7 @@ export default function DraftBoard({
                   key={strain.id}
                   assetType="cannabis_strain"
                   assetId={strain.id}
+                  adp={getAdp("cannabis_strain", strain.id)}
                   assetName={strain.name}
                   imageUrl={strain.imageUrl}
                   stats={[
@@ -595,6 +616,7 @@ export default function DraftBoard({
                     key={product.id}
                     assetType="product"
                     assetId={product.id}
+                    adp={getAdp("product", product.id)}
                     assetName={product.name}
                     imageUrl={product.imageUrl}
                     stats={[
@@ -626,6 +648,7 @@ export default function DraftBoard({
                     key={phm.id}
                     assetType="pharmacy"
                     assetId={phm.id}
+                    adp={getAdp("pharmacy", phm.id)}
                     assetName={phm.name}
                     imageUrl={phm.logoUrl}
                     stats={[
@@ -655,6 +678,7 @@ export default function DraftBoard({
                     key={brand.id}
                     assetType="brand"
                     assetId={brand.id}
+                    adp={getAdp("brand", brand.id)}
                     assetName={brand.name}
                     imageUrl={brand.logoUrl}
                     stats={[
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+interface DraftGradesDialogProps {
+  leagueId: number;
+  myTeamId?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const VERDICT_STYLES: Record<string, string> = {
+  steal: "bg-[#00d4aa]/15 text-[#00d4aa]",
+  reach: "bg-red-500/15 text-red-400",
+  fair: "bg-white/10 text-white/60",
+};
+
+const gradeColor = (grade: string) =>
+  grade.startsWith("A") ? "text-[#00d4aa]" : grade.startsWith("B") ? "text-blue-400" : grade.startsWith("C") ? "text-yellow-400" : "text-red-400";
+
+/**
+ * DraftGradesDialog
+ *
+ * Post-draft report card: each team's grade from projected points, and every
+ * pick compared to its average draft position across leagues.
+ */
+export function DraftGradesDialog({ leagueId, myTeamId, open, onOpenChange }: DraftGradesDialogProps) {
+  const [expandedTeamId, setExpandedTeamId] = useState<number | null>(myTeamId ?? null);
+  const { data, isLoading, error } = trpc.draft.getDraftGrades.useQuery({ leagueId }, { enabled: open });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto bg-[#1a1d29] border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Draft Grades</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Grades compare each roster's projected points for the next week to the league average.
+            Steals went 3+ picks after their ADP, reaches 3+ picks before.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-white/50" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-400">{error.message}</p>
+        ) : data ? (
+          <div className="space-y-2">
+            {data.teams.map((team) => {
+              const expanded = expandedTeamId === team.teamId;
+              return (
+                <div
+                  key={team.teamId}
+                  className={cn("rounded-xl bg-white/5", team.teamId === myTeamId && "ring-1 ring-[#00d4aa]/50")}
+                >
+                  <button
+                    onClick={() => setExpandedTeamId(expanded ? null : team.teamId)}
+                    className="w-full flex items-center gap-4 p-3 text-left"
+                  >
+                    <span className={cn("w-10 text-2xl font-bold", gradeColor(team.grade))}>{team.grade}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold truncate">{team.teamName}</div>
+                      <div className="text-xs text-white/50">
+                        {team.projectedPoints} proj. pts · {team.steals} steals · {team.reaches} reaches
+                      </div>
+                    </div>
+                    <span className="text-xs text-white/50">
+                      ADP value {team.adpValue > 0 ? "+" : ""}{team.adpValue}
+                    </span>
+                    {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+
+                  {expanded && (
+                    <div className="px-3 pb-3 space-y-1">
+                      {team.picks.map((pick) => (
+                        <div key={pick.pickNumber} className="flex items-center gap-3 text-sm">
+                          <span className="w-12 text-white/40">{pick.round}.{pick.pickNumber}</span>
+                          <span className="flex-1 truncate">{pick.name}</span>
+                          <span className="w-16 text-right text-white/60">{pick.projectedPoints} pts</span>
+                          <span className="w-16 text-right text-white/60">{pick.adp ? `ADP ${pick.adp}` : "–"}</span>
+                          <span className="w-14 text-right">
+                            {pick.verdict && (
+                              <span className={cn("rounded px-1.5 py-0.5 text-[10px] font-bold uppercase", VERDICT_STYLES[pick.verdict])}>
+                                {pick.verdict}
+                              </span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
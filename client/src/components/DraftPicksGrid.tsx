@@ -9,6 +9,8 @@ interface DraftPick {
   round: number;
   teamId: number;
   teamName: string;
+  originalTeamId?: number;
+  originalTeamName?: string;
   assetType: string;
   assetId: number;
   assetName: string;
@@ -164,6 +166,9 @@ export function DraftPicksGrid({ picks, currentPickNumber }: DraftPicksGridProps
                         <TeamAvatar avatarUrl={pick.userAvatarUrl} teamName={pick.teamName} userName={pick.userName} size="sm" />
                         <p className="text-xs text-muted-foreground truncate">
                           {pick.teamName}
+                          {pick.originalTeamId != null && pick.originalTeamId !== pick.teamId && (
+                            <span className="text-muted-foreground/70"> (via {pick.originalTeamName})</span>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import { useAuth } from '@/_core/hooks/useAuth';
 import { useLocation } from 'wouter';
 import { toast } from 'sonner';
-import { Trophy } from 'lucide-react';
+import { Trophy, ArrowRightLeft, ClipboardList, Wand2, Bell } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useWebSocket } from '@/hooks/useWebSocket';
 
@@ -17,6 +17,15 @@ import { useWebSocket } from '@/hooks/useWebSocket';
  * Key events handled:
  * - opponent_joined_your_challenge: When someone joins a challenge you created
  * - challenge_coin_flip_result: When the coin flip completes for your challenge
+ * - trade_offer / trade_counter_offer: When another manager sends you a trade
+ * - trade_expired: When one of your trade offers expired unanswered
+ * - trade_lopsided: (commissioners) When an agreed trade heavily favors one team
+ * - waiver_results: When the waiver run processed your claims
+ * - lineup_optimized: When auto-manage set your lineup for the coming week
+ * - price_alert: When one of your stock market price alerts triggered
+ * - short_buy_in: When a short position fell below maintenance and was bought in
+ * - order_update: When a resting stock market order filled or could not be filled
+ * - corporate_action: When a held asset paid a dividend, split or was delisted
  */
 export function GlobalNotifications() {
   const { user, isAuthenticated } = useAuth();
@@ -88,6 +97,206 @@ export function GlobalNotifications() {
           }
         );
       }
+    } else if (message.type === 'trade_offer' || message.type === 'trade_counter_offer') {
+      const isCounterOffer = message.type === 'trade_counter_offer';
+      toast.info(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>🤝</span>
+            <span>{isCounterOffer ? 'Counter-offer' : 'Trade offer'} from {message.fromTeamName}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">{message.leagueName}</div>
+          {!location.includes(`/league/${message.leagueId}/trades`) && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2 w-full"
+              onClick={() => {
+                setLocation(`/league/${message.leagueId}/trades`);
+                toast.dismiss(`trade-offer-${message.tradeId}`);
+              }}
+            >
+              <ArrowRightLeft className="w-4 h-4 mr-2" />
+              Review Trade
+            </Button>
+          )}
+        </div>,
+        {
+          duration: 20000,
+          id: `trade-offer-${message.tradeId}`,
+        }
+      );
+    } else if (message.type === 'trade_expired') {
+      toast.info('One of your trade offers expired without an answer.', {
+        id: `trade-expired-${message.tradeId}`,
+      });
+    } else if (message.type === 'trade_lopsided') {
+      toast.warning(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>⚖️</span>
+            <span>Lopsided trade in {message.leagueName}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Projected to favor {message.favoredTeamName} by {Number(message.netValue || 0).toFixed(1)} points.
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="mt-2 w-full"
+            onClick={() => {
+              setLocation(`/league/${message.leagueId}/trades`);
+              toast.dismiss(`trade-lopsided-${message.tradeId}`);
+            }}
+          >
+            <ArrowRightLeft className="w-4 h-4 mr-2" />
+            Review Trade
+          </Button>
+        </div>,
+        {
+          duration: 30000,
+          id: `trade-lopsided-${message.tradeId}`,
+        }
+      );
+    } else if (message.type === 'waiver_results') {
+      const results: any[] = message.results || [];
+      const won = results.filter((r) => r.status === 'success');
+      toast.info(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>📋</span>
+            <span>Waivers processed in {message.leagueName}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {won.length > 0
+              ? `You won ${won.map((r) => r.assetName).join(', ')}.`
+              : 'None of your claims went through.'}
+            {results.length > won.length && ` ${results.length - won.length} claim(s) failed.`}
+            {' '}Your waiver priority is now #{message.waiverPriority}.
+          </div>
+          {!location.includes(`/league/${message.leagueId}/waivers`) && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2 w-full"
+              onClick={() => {
+                setLocation(`/league/${message.leagueId}/waivers`);
+                toast.dismiss(`waiver-results-${message.leagueId}`);
+              }}
+            >
+              <ClipboardList className="w-4 h-4 mr-2" />
+              View Results
+            </Button>
+          )}
+        </div>,
+        {
+          duration: 20000,
+          id: `waiver-results-${message.leagueId}`,
+        }
+      );
+    } else if (message.type === 'lineup_optimized') {
+      toast.info(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>🪄</span>
+            <span>Lineup auto-managed in {message.leagueName}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Week {message.week}: {message.changedSlots?.length || 0} slot(s) changed, projected {message.projectedPoints} pts.
+          </div>
+          {!location.includes(`/league/${message.leagueId}/lineup`) && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2 w-full"
+              onClick={() => {
+                setLocation(`/league/${message.leagueId}/lineup`);
+                toast.dismiss(`lineup-optimized-${message.leagueId}`);
+              }}
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              View Lineup
+            </Button>
+          )}
+        </div>,
+        {
+          duration: 15000,
+          id: `lineup-optimized-${message.leagueId}`,
+        }
+      );
+    } else if (message.type === 'price_alert') {
+      toast.info(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>🔔</span>
+            <span>Price alert: {message.assetName || 'Market asset'}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {message.condition} (now {Math.round(Number(message.price || 0))} pts)
+          </div>
+          {!location.startsWith('/market') && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2 w-full"
+              onClick={() => {
+                setLocation('/market');
+                toast.dismiss(`price-alert-${message.alertId}`);
+              }}
+            >
+              <Bell className="w-4 h-4 mr-2" />
+              Open Market
+            </Button>
+          )}
+        </div>,
+        {
+          duration: 20000,
+          id: `price-alert-${message.alertId}`,
+        }
+      );
+    } else if (message.type === 'short_buy_in') {
+      toast.warning(
+        <div className="flex flex-col gap-2">
+          <div className="font-semibold flex items-center gap-2">
+            <span>📉</span>
+            <span>Short bought in: {message.assetName}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Your margin fell below maintenance. Covered {Number(message.shares || 0)} shares at{' '}
+            {Math.round(Number(message.price || 0))} pts ({Math.round(Number(message.profitLoss || 0))} pts).
+          </div>
+        </div>,
+        {
+          duration: 30000,
+          id: `short-buy-in-${message.assetType}-${message.assetId}`,
+        }
+      );
+    } else if (message.type === 'order_update') {
+      const label = String(message.orderType || 'order').replace('_', ' ');
+      const text = message.status === 'filled'
+        ? `Your ${label} order for ${message.assetName || 'an asset'} filled: ${message.shares} shares at ${Math.round(Number(message.price || 0))} pts.`
+        : `Your ${label} order for ${message.assetName || 'an asset'} triggered but was cancelled.`;
+      if (message.status === 'filled') {
+        toast.success(text, { id: `order-update-${message.orderId}` });
+      } else {
+        toast.warning(text, { id: `order-update-${message.orderId}` });
+      }
+    } else if (message.type === 'corporate_action') {
+      const id = `corporate-action-${message.action}-${message.assetType}-${message.assetId}`;
+      const assetName = message.assetName || 'an asset';
+      if (message.action === 'dividend') {
+        const amount = Number(message.amount || 0);
+        toast.info(amount >= 0
+          ? `${assetName} paid you a ${amount.toFixed(2)} pts dividend.`
+          : `Your ${assetName} short paid a ${Math.abs(amount).toFixed(2)} pts dividend.`, { id });
+      } else if (message.action === 'split') {
+        toast.info(`${assetName} split ${message.ratio}-for-1. It now trades at ${Math.round(Number(message.price || 0))} pts.`, { id });
+      } else if (message.action === 'delist') {
+        toast.warning(`${assetName} was delisted. Your position closed at ${Math.round(Number(message.price || 0))} pts (${Math.round(Number(message.profitLoss || 0))} pts).`, {
+          id,
+          duration: 30000,
+        });
+      }
     }
   }, [setLocation, location]);
 
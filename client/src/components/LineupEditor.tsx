@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { trpc } from "@/lib/trpc";
+import { useAssetProjections } from "@/hooks/useAssetProjections";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,7 +12,6 @@ import {
   Building,
   UserCircle,
   Lock,
-  Unlock,
   TrendingUp,
   Info,
   InfoIcon
@@ -33,6 +33,8 @@ interface LineupSlot {
   assetName: string | null;
   points?: number;
   locked: boolean;
+  /** First day of the week with synced stats for the slot's asset */
+  lockedAt?: string | null;
 }
 
 interface RosterPlayer {
@@ -49,7 +51,6 @@ interface LineupEditorProps {
   roster: RosterPlayer[];
   isLocked: boolean;
   onUpdateLineup: (updates: any) => void;
-  onLockLineup: () => void;
 }
 
 /**
@@ -62,6 +63,9 @@ interface LineupEditorProps {
  * - 2 Pharmacies (PHM1, PHM2)
  * - 1 Brand (BRD1)
  * - 1 Flex (FLEX - any category)
+ *
+ * Slots lock individually once their asset's first scored day of the week
+ * has been synced; unlocked slots stay editable.
  */
 export default function LineupEditor({
   teamId,
@@ -71,7 +75,6 @@ export default function LineupEditor({
   roster,
   isLocked,
   onUpdateLineup,
-  onLockLineup,
   enableBoosts = false,
 }: LineupEditorProps & { enableBoosts?: boolean }) {
   const [editMode, setEditMode] = useState(false);
@@ -92,6 +95,7 @@ export default function LineupEditor({
         assetName: slot.assetName,
         points: slot.points || 0,
         locked: slot.locked || false,
+        lockedAt: slot.lockedAt ?? null,
       }));
     }
     // Check if lineup is an object with lineup array property
@@ -104,6 +108,7 @@ export default function LineupEditor({
         assetName: slot.assetName,
         points: slot.points || 0,
         locked: slot.locked || false,
+        lockedAt: slot.lockedAt ?? null,
       }));
     }
     // Legacy format: flat object with position IDs
@@ -163,10 +168,6 @@ export default function LineupEditor({
     setEditMode(false);
   };
 
-  const handleToggleLock = () => {
-    onLockLineup();
-  };
-
   const getPositionIcon = (position: string) => {
     if (!position) return null;
     if (position.startsWith("MFG")) return <Building2 className="w-5 h-5" />;
@@ -223,8 +224,8 @@ export default function LineupEditor({
     console.log('[handleSlotClick] Clicked slot:', slot);
     console.log('[handleSlotClick] Current lineup before click:', currentLineup);
 
-    if (isLocked) {
-      toast.error("Lineup ist gesperrt!");
+    if (slot.locked) {
+      toast.error(`${getPositionLabel(slot.position)} ist gesperrt!`);
       return;
     }
 
@@ -272,8 +273,8 @@ export default function LineupEditor({
   };
 
   const handleRemovePlayer = (slot: LineupSlot) => {
-    if (isLocked) {
-      toast.error("Lineup ist gesperrt!");
+    if (slot.locked) {
+      toast.error(`${getPositionLabel(slot.position)} ist gesperrt!`);
       return;
     }
 
@@ -298,18 +299,14 @@ export default function LineupEditor({
     return "manufacturer"; // Default
   };
 
-  const handleLockLineup = () => {
-    if (!isLocked) {
-      // Check if all positions are filled
-      const emptySlots = currentLineup.filter((slot) => !slot.assetId);
-      if (emptySlots.length > 0) {
-        toast.error(`Bitte fülle alle Positionen aus! ${emptySlots.length} Position(en) leer.`);
-        return;
-      }
-    }
-
-    handleToggleLock();
-  };
+  const { getProjection } = useAssetProjections([
+    ...currentLineup,
+    ...roster.map((player) => ({ assetType: player.assetType, assetId: player.assetId })),
+  ]);
+  const projectedWeekPoints = currentLineup.reduce(
+    (sum, slot) => sum + (getProjection(slot.assetType, slot.assetId)?.nextWeekPoints ?? 0),
+    0
+  );
 
   // Calculate total projected points
   const totalPoints = currentLineup.reduce((sum, slot) => sum + (slot.points || 0), 0);
@@ -317,6 +314,8 @@ export default function LineupEditor({
   // Check if lineup is auto-populated (has values but user hasn't edited yet)
   const hasAutoPopulatedLineup = currentLineup.some(slot => slot.assetId !== null);
   const allSlotsFilled = currentLineup.every(slot => slot.assetId !== null);
+  const lockedSlotCount = currentLineup.filter(slot => slot.locked).length;
+  const allSlotsLocked = lockedSlotCount === currentLineup.length;
 
   return (
     <div className="space-y-6">
@@ -326,7 +325,7 @@ export default function LineupEditor({
           <InfoIcon className="h-4 w-4 text-blue-500" />
           <AlertDescription className="text-sm text-foreground">
             {allSlotsFilled
-              ? "Your starting lineup has been auto-populated with your first 10 draft picks. You can change players before locking."
+              ? "Your starting lineup has been auto-populated with your first 10 draft picks. Each slot stays editable until its first stats of the week are synced."
               : "Your lineup has been partially auto-populated. Add more players from your roster below."}
           </AlertDescription>
         </Alert>
@@ -338,17 +337,25 @@ export default function LineupEditor({
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               Lineup - Woche {week}
-              {isLocked && (
+              {isLocked ? (
                 <Badge variant="secondary" className="flex items-center gap-1">
                   <Lock className="w-3 h-3" />
                   Gesperrt
                 </Badge>
+              ) : lockedSlotCount > 0 && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Lock className="w-3 h-3" />
+                  {lockedSlotCount}/{currentLineup.length} gesperrt
+                </Badge>
               )}
             </CardTitle>
             <div className="flex items-center gap-4">
               <div className="text-right">
                 <p className="text-sm text-muted-foreground">Projizierte Punkte</p>
                 <p className="text-2xl font-bold text-foreground">{totalPoints}</p>
+                {projectedWeekPoints > 0 && (
+                  <p className="text-xs text-muted-foreground">Prognose Woche: {projectedWeekPoints}</p>
+                )}
               </div>
               {editMode && (
                 <Button
@@ -361,25 +368,6 @@ export default function LineupEditor({
                   Speichern
                 </Button>
               )}
-              <Button
-                variant={isLocked ? "outline" : "default"}
-                size="sm"
-                onClick={handleLockLineup}
-                disabled={false}
-                className="flex items-center gap-2"
-              >
-                {isLocked ? (
-                  <>
-                    <Unlock className="w-4 h-4" />
-                    Entsperren
-                  </>
-                ) : (
-                  <>
-                    <Lock className="w-4 h-4" />
-                    Sperren
-                  </>
-                )}
-              </Button>
             </div>
           </div>
         </CardHeader>
@@ -403,7 +391,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -439,7 +428,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -475,7 +465,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -501,7 +492,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -527,7 +519,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -563,7 +556,8 @@ export default function LineupEditor({
                   key={slot.position}
                   slot={slot}
                   onClick={() => handleSlotClick(slot)}
-                  isLocked={isLocked}
+                  isLocked={slot.locked}
+                  projectedPoints={getProjection(slot.assetType, slot.assetId)?.nextWeekPoints}
                   getPositionLabel={getPositionLabel}
                   getPositionColor={getPositionColor}
                   getPositionIcon={getPositionIcon}
@@ -575,7 +569,7 @@ export default function LineupEditor({
       </div>
 
       {/* Roster Display */}
-      {!isLocked && (
+      {!allSlotsLocked && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
@@ -627,6 +621,11 @@ export default function LineupEditor({
                           {player.points !== undefined && (
                             <p className="text-sm font-bold text-foreground mt-1">{player.points} Pkt</p>
                           )}
+                          {getProjection(player.assetType, player.assetId) && (
+                            <p className="text-xs text-muted-foreground">
+                              Prognose: {getProjection(player.assetType, player.assetId)!.nextWeekPoints} Pkt/Woche
+                            </p>
+                          )}
                         </div>
                       </div>
                     </button>
@@ -649,6 +648,7 @@ function LineupSlotCard({
   slot,
   onClick,
   isLocked,
+  projectedPoints,
   getPositionLabel,
   getPositionColor,
   getPositionIcon,
@@ -660,6 +660,8 @@ function LineupSlotCard({
   slot: LineupSlot;
   onClick: () => void;
   isLocked: boolean;
+  /** Projected points for the week from the projection service */
+  projectedPoints?: number;
   getPositionLabel: (position: string) => string;
   getPositionColor: (position: string) => string;
   getPositionIcon: (position: string) => React.ReactNode;
@@ -714,8 +716,13 @@ function LineupSlotCard({
               )}
             </div>
             <div className="text-left">
-              <p className="text-sm font-medium text-muted-foreground">
+              <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
                 {getPositionLabel(slot.position)}
+                {slot.locked && (
+                  <span title={slot.lockedAt ? `Gesperrt seit ${slot.lockedAt}` : "Gesperrt"}>
+                    <Lock className="w-3 h-3" />
+                  </span>
+                )}
               </p>
               {slot.assetId ? (
                 <>
@@ -741,6 +748,9 @@ function LineupSlotCard({
                 {slot.points}
                 {isCaptain && enableBoosts && <span className="text-yellow-500 text-xs ml-1">(x1.5)</span>}
               </p>
+              {projectedPoints !== undefined && slot.assetId && (
+                <p className="text-xs text-muted-foreground">Prognose {projectedPoints}</p>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,264 @@
+import React, { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Globe, Loader2, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type MarketAssetType = 'product' | 'strain' | 'manufacturer' | 'pharmacy';
+
+const ASSET_TYPE_OPTIONS: Array<{ value: MarketAssetType; label: string }> = [
+    { value: 'strain', label: 'Strains' },
+    { value: 'product', label: 'Products' },
+    { value: 'manufacturer', label: 'Manufacturers' },
+    { value: 'pharmacy', label: 'Pharmacies' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+    active: "border-emerald-500/50 text-emerald-400",
+    upcoming: "border-sky-500/50 text-sky-400",
+    ended: "border-zinc-600 text-zinc-500",
+};
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+interface MarketLeaguesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    selectedLeagueId?: number;
+    onSelect: (marketLeagueId: number | undefined) => void;
+}
+
+/**
+ * MarketLeaguesDialog
+ *
+ * Switch between the global market and private market leagues, create a
+ * league or join one with an invite code.
+ */
+export function MarketLeaguesDialog({ open, onOpenChange, selectedLeagueId, onSelect }: MarketLeaguesDialogProps) {
+    const utils = trpc.useUtils();
+    const { data: leagues = [], isLoading } = trpc.marketLeague.getMyLeagues.useQuery(undefined, { enabled: open });
+
+    const [inviteCode, setInviteCode] = useState("");
+    const [form, setForm] = useState(() => {
+        const start = new Date();
+        const end = new Date();
+        end.setDate(end.getDate() + 28);
+        return {
+            name: "",
+            startingBankroll: 100,
+            startDate: toIsoDate(start),
+            endDate: toIsoDate(end),
+            allowedAssetTypes: ['strain', 'manufacturer'] as MarketAssetType[],
+        };
+    });
+
+    const selectLeague = (marketLeagueId: number | undefined) => {
+        onSelect(marketLeagueId);
+        onOpenChange(false);
+    };
+
+    const createMutation = trpc.marketLeague.create.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            utils.marketLeague.getMyLeagues.invalidate();
+            selectLeague(data.marketLeagueId);
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    const joinMutation = trpc.marketLeague.join.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            utils.marketLeague.getMyLeagues.invalidate();
+            setInviteCode("");
+            selectLeague(data.marketLeagueId);
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    const toggleAssetType = (assetType: MarketAssetType, checked: boolean) => {
+        setForm(prev => ({
+            ...prev,
+            allowedAssetTypes: checked
+                ? [...prev.allowedAssetTypes, assetType]
+                : prev.allowedAssetTypes.filter(t => t !== assetType),
+        }));
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="bg-zinc-900 border-zinc-700 text-white max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Users className="w-5 h-5 text-emerald-400" />
+                        Market Leagues
+                    </DialogTitle>
+                    <DialogDescription className="text-zinc-400">
+                        Trade against friends with a separate portfolio, bankroll and leaderboard.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Tabs defaultValue="mine">
+                    <TabsList className="grid grid-cols-3 bg-zinc-800">
+                        <TabsTrigger value="mine">My Leagues</TabsTrigger>
+                        <TabsTrigger value="join">Join</TabsTrigger>
+                        <TabsTrigger value="create">Create</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="mine" className="space-y-2 pt-2">
+                        <button
+                            onClick={() => selectLeague(undefined)}
+                            className={cn(
+                                "w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-all",
+                                !selectedLeagueId ? "border-emerald-500 bg-emerald-500/10" : "border-zinc-700 hover:border-zinc-600"
+                            )}
+                        >
+                            <Globe className="w-4 h-4 text-zinc-400" />
+                            <span className="font-medium">Global market</span>
+                        </button>
+
+                        {isLoading ? (
+                            <div className="flex justify-center py-4">
+                                <Loader2 className="w-5 h-5 animate-spin text-emerald-500" />
+                            </div>
+                        ) : leagues.length === 0 ? (
+                            <p className="text-center py-4 text-sm text-zinc-500">
+                                You are not in any market league yet.
+                            </p>
+                        ) : leagues.map((league) => (
+                            <div
+                                key={league.id}
+                                className={cn(
+                                    "p-3 rounded-lg border transition-all",
+                                    selectedLeagueId === league.id ? "border-emerald-500 bg-emerald-500/10" : "border-zinc-700"
+                                )}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <button onClick={() => selectLeague(league.id)} className="font-medium text-left hover:text-emerald-400">
+                                        {league.name}
+                                    </button>
+                                    <Badge variant="outline" className={STATUS_STYLES[league.status]}>{league.status}</Badge>
+                                </div>
+                                <div className="mt-1 flex items-center justify-between text-xs text-zinc-500">
+                                    <span>
+                                        {league.startDate} – {league.endDate} · {league.memberCount} traders · {Math.round(league.startingBankroll)} pts
+                                    </span>
+                                    <button
+                                        onClick={() => {
+                                            navigator.clipboard.writeText(league.inviteCode);
+                                            toast.success(`Invite code ${league.inviteCode} copied`);
+                                        }}
+                                        className="flex items-center gap-1 font-mono text-zinc-400 hover:text-white"
+                                        title="Copy invite code"
+                                    >
+                                        <Copy className="w-3 h-3" />
+                                        {league.inviteCode}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </TabsContent>
+
+                    <TabsContent value="join" className="space-y-3 pt-2">
+                        <label className="text-sm text-zinc-400 block">Invite Code</label>
+                        <Input
+                            value={inviteCode}
+                            onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                            placeholder="ABC123"
+                            maxLength={10}
+                            className="bg-zinc-800 border-zinc-700 text-white font-mono text-lg tracking-widest"
+                        />
+                        <Button
+                            className="w-full bg-emerald-600 hover:bg-emerald-500"
+                            disabled={!inviteCode.trim() || joinMutation.isPending}
+                            onClick={() => joinMutation.mutate({ inviteCode })}
+                        >
+                            {joinMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Join League
+                        </Button>
+                    </TabsContent>
+
+                    <TabsContent value="create" className="space-y-3 pt-2">
+                        <div>
+                            <label className="text-sm text-zinc-400 mb-1 block">League Name</label>
+                            <Input
+                                value={form.name}
+                                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                                placeholder="Friday Traders"
+                                className="bg-zinc-800 border-zinc-700 text-white"
+                            />
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className="text-xs text-zinc-400 mb-1 block">Bankroll (pts)</label>
+                                <Input
+                                    type="number"
+                                    min="10"
+                                    value={form.startingBankroll}
+                                    onChange={(e) => setForm(prev => ({ ...prev, startingBankroll: parseInt(e.target.value) || 0 }))}
+                                    className="bg-zinc-800 border-zinc-700 text-white"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-zinc-400 mb-1 block">Starts</label>
+                                <Input
+                                    type="date"
+                                    value={form.startDate}
+                                    onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+                                    className="bg-zinc-800 border-zinc-700 text-white"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-zinc-400 mb-1 block">Ends</label>
+                                <Input
+                                    type="date"
+                                    value={form.endDate}
+                                    onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                                    className="bg-zinc-800 border-zinc-700 text-white"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-xs text-zinc-400 mb-1 block">Tradable Assets</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {ASSET_TYPE_OPTIONS.map((option) => (
+                                    <label key={option.value} className="flex items-center gap-2 text-sm text-zinc-300">
+                                        <Checkbox
+                                            checked={form.allowedAssetTypes.includes(option.value)}
+                                            onCheckedChange={(checked) => toggleAssetType(option.value, checked === true)}
+                                        />
+                                        {option.label}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <Button
+                            className="w-full bg-emerald-600 hover:bg-emerald-500"
+                            disabled={form.name.trim().length < 3 || form.allowedAssetTypes.length === 0 || createMutation.isPending}
+                            onClick={() => createMutation.mutate({ ...form, name: form.name.trim() })}
+                        >
+                            {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Create League
+                        </Button>
+                    </TabsContent>
+                </Tabs>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -18,12 +18,16 @@ interface TeamData {
   streak?: { type: "W" | "L" | "T"; count: number };
 }
 
+type MedianResult = "win" | "loss" | "tie";
+
 interface MatchupCardProps {
   team1: TeamData;
   team2: TeamData;
   week: number;
   status: "scheduled" | "in_progress" | "final";
   winnerId?: number;
+  /** Second game of each team against the league median score (play-the-median leagues) */
+  median?: { score: number; team1Result: MedianResult | null; team2Result: MedianResult | null } | null;
   onClick?: () => void;
   className?: string;
 }
@@ -34,6 +38,7 @@ export function MatchupCard({
   week,
   status,
   winnerId,
+  median,
   onClick,
   className,
 }: MatchupCardProps) {
@@ -160,6 +165,15 @@ export function MatchupCard({
         )}
       </div>
 
+      {/* Result against the league median */}
+      {median && (
+        <div className="flex items-center justify-between px-4 py-2 bg-black/30 text-[10px] text-white/60">
+          <MedianResultLabel result={median.team1Result} />
+          <span className="text-white/40">vs. Median {median.score.toFixed(1)}</span>
+          <MedianResultLabel result={median.team2Result} />
+        </div>
+      )}
+
       {/* Max PF Stats */}
       {(team1.maxPF !== undefined || team2.maxPF !== undefined) && (
         <div className="flex justify-between px-4 py-2 bg-black/30 text-[10px] text-white/40">
@@ -171,6 +185,23 @@ export function MatchupCard({
   );
 }
 
+const MEDIAN_RESULT_LABELS: Record<MedianResult, string> = { win: "W", loss: "L", tie: "T" };
+
+function MedianResultLabel({ result }: { result: MedianResult | null }) {
+  if (!result) return <span>-</span>;
+  return (
+    <span
+      className={cn(
+        "font-bold",
+        result === "win" && "text-primary",
+        result === "loss" && "text-red-400"
+      )}
+    >
+      {MEDIAN_RESULT_LABELS[result]}
+    </span>
+  );
+}
+
 interface TeamSideProps {
   team: TeamData;
   side: "left" | "right";
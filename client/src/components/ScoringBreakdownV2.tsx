@@ -9,6 +9,11 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { DraftFieldPlayer } from "./DraftFieldPlayer";
+import {
+  DEFAULT_SCORING_CONFIG,
+  type LeagueScoringConfig,
+  type TrendScoredEntity,
+} from "@shared/scoringConfig";
 
 interface ScoringComponent {
   category: string;
@@ -60,6 +65,8 @@ interface ScoringBreakdownProps {
   onNameClick?: (assetId: number, assetType: string, assetName: string, imageUrl?: string | null) => void;
   // Asset ID needed for the onNameClick callback
   assetId?: number;
+  // League scoring rules (defaults to the standard rules)
+  scoringRules?: LeagueScoringConfig;
 }
 
 type ComponentTooltipDetails = {
@@ -68,20 +75,11 @@ type ComponentTooltipDetails = {
   example?: string;
 };
 
-const ORDER_POINTS_PER_UNIT: Record<ScoringBreakdownData["assetType"], number> = {
-  manufacturer: 10,
-  cannabis_strain: 8,
-  product: 15,
-  pharmacy: 10,
-  brand: 10,
-};
-
-const TREND_BASE_POINTS: Record<ScoringBreakdownData["assetType"], number> = {
-  manufacturer: 100,
-  cannabis_strain: 80,
-  product: 120,
-  pharmacy: 100,
-  brand: 100,
+const SCORING_ENTITY: Partial<Record<ScoringBreakdownData["assetType"], TrendScoredEntity>> = {
+  manufacturer: "manufacturer",
+  cannabis_strain: "strain",
+  product: "product",
+  pharmacy: "pharmacy",
 };
 
 const WEEKDAY_LABELS_DE = ["So", "Mo", "Di", "Mi", "Do", "Fr", "Sa"];
@@ -237,12 +235,14 @@ const getSubtotalTooltipContent = (
 
 const getComponentTooltipContent = (
   component: ScoringComponent,
-  assetType: ScoringBreakdownData["assetType"]
+  assetType: ScoringBreakdownData["assetType"],
+  rules: LeagueScoringConfig
 ): ComponentTooltipDetails => {
+  const entity = SCORING_ENTITY[assetType];
   const assetDescriptor = formatAssetDescriptor(assetType);
 
   if (component.category === "Order Activity") {
-    const pointsPerOrder = ORDER_POINTS_PER_UNIT[assetType] ?? 10;
+    const pointsPerOrder = entity ? rules.orderPoints[entity] : 0;
     const derivedOrders =
       pointsPerOrder > 0 ? component.points / pointsPerOrder : undefined;
     const orderCount =
@@ -257,14 +257,14 @@ const getComponentTooltipContent = (
   }
 
   if (component.category === "Trend Bonus" || component.category === "Momentum Score") {
-    const basePoints = TREND_BASE_POINTS[assetType] ?? 100;
+    const basePoints = entity ? rules.trendPoints[entity] : 0;
     const multiplier = parseMultiplierValue(component.value);
 
     return {
       context:
         "Momentum boost comparing today's volume to the trailing 7-day average. Above 1× means the asset is surging; below 1× shows a cooldown.",
       calculation: `${multiplier.toFixed(2)}× momentum × ${basePoints} base pts = ${component.points} pts`,
-      example: `Example: 70 units today vs 10-unit avg ⇒ 7.0× × ${basePoints} = ${7 * basePoints
+      example: `Example: 70 units today vs 10-unit avg ⇒ 7.0× (capped at ${rules.trendMultiplierCap}×) × ${basePoints} = ${Math.floor(Math.min(7, rules.trendMultiplierCap) * basePoints)
         } pts`,
     };
   }
@@ -301,8 +301,10 @@ const parseValueFromCondition = (condition: string, pattern: RegExp): number | n
  */
 const getBonusTooltipContent = (
   bonus: ScoringBonus,
-  data: ScoringBreakdownData
+  data: ScoringBreakdownData,
+  rules: LeagueScoringConfig
 ): BonusTooltipDetails => {
+  const [tier1, tier2, tier3, tier4] = rules.rankTierBonuses;
   const bonusType = bonus.type.toLowerCase();
   const condition = bonus.condition || '';
   
@@ -351,15 +353,15 @@ const getBonusTooltipContent = (
                  rank <= 10 ? '#6-10' : `#${rank}`;
     } else {
       // Infer from bonus points
-      tierText = bonus.points === 30 ? '#1' :
-                 bonus.points === 20 ? '#2-3' :
-                 bonus.points === 15 ? '#4-5' :
-                 bonus.points === 10 ? '#6-10' : 'Top 10';
+      tierText = bonus.points === tier1 ? '#1' :
+                 bonus.points === tier2 ? '#2-3' :
+                 bonus.points === tier3 ? '#4-5' :
+                 bonus.points === tier4 ? '#6-10' : 'Top 10';
     }
     return {
       title: 'Rank Bonus',
       explanation: 'Points for current market position. Higher ranks earn more bonus points.',
-      formula: '#1 = 30 pts, #2-3 = 20 pts, #4-5 = 15 pts, #6-10 = 10 pts',
+      formula: `#1 = ${tier1} pts, #2-3 = ${tier2} pts, #4-5 = ${tier3} pts, #6-10 = ${tier4} pts`,
       calculation: `Rank ${tierText} → ${bonus.points} pts`,
     };
   }
@@ -417,24 +419,24 @@ const getBonusTooltipContent = (
     return {
       title: 'First Goal Bonus ⚽',
       explanation: 'Your Captain scored the highest on your team! Great pick!',
-      formula: 'Captain is #1 scorer → +15 pts',
+      formula: `Captain is #1 scorer → +${rules.captainBonus} pts`,
       calculation: `Top scorer bonus → +${bonus.points} pts`,
     };
   }
   
-  // Captain Boost (legacy) - 2.5x multiplier applied to Momentum Score
+  // Captain Boost - league captain multiplier applied to the captain's points
   if (bonusType.includes('captain')) {
     let multiplier = data.captainMultiplier;
     if (!multiplier || multiplier === 0) {
-      multiplier = parseValueFromCondition(condition, /(\d+(?:\.\d+)?)\s*[×x]/i) ?? 2.5;
+      multiplier = parseValueFromCondition(condition, /(\d+(?:\.\d+)?)\s*[×x]/i) ?? rules.captainMultiplier;
     }
-    // Calculate base momentum points from the bonus (bonus = momentum * (mult - 1))
-    const baseMomentumPoints = multiplier > 1 ? bonus.points / (multiplier - 1) : bonus.points;
+    // Calculate base points from the bonus (bonus = points * (mult - 1))
+    const basePoints = multiplier > 1 ? bonus.points / (multiplier - 1) : bonus.points;
     return {
       title: 'Captain Boost',
-      explanation: '2.5x multiplier applied to the captain\'s Momentum Score.',
-      formula: 'momentumScore × (2.5 - 1)',
-      calculation: `${baseMomentumPoints.toFixed(0)} momentum × (${multiplier}x - 1) = +${bonus.points} pts`,
+      explanation: `${multiplier}x multiplier applied to the captain\'s points.`,
+      formula: `points × (${multiplier} - 1)`,
+      calculation: `${basePoints.toFixed(0)} pts × (${multiplier}x - 1) = +${bonus.points} pts`,
     };
   }
   
@@ -453,7 +455,7 @@ const getBonusTooltipContent = (
     return {
       title: 'Full Synergy Bonus',
       explanation: 'This pharmacy sells products with this exact strain from this manufacturer! Massive combo bonus for drafting all three together.',
-      formula: '+50% bonus applied to all three assets',
+      formula: `+${rules.fullSynergyPercent}% bonus applied to all three assets`,
       calculation: `Pharmacy + Strain + Product combo → +${bonus.points} pts`,
     };
   }
@@ -463,7 +465,7 @@ const getBonusTooltipContent = (
     return {
       title: 'Synergy Bonus',
       explanation: 'This pharmacy sells products with this strain! Bonus for drafting both in your lineup.',
-      formula: '+25% bonus applied to both assets',
+      formula: `+${rules.partialSynergyPercent}% bonus applied to both assets`,
       calculation: `Pharmacy + Strain/Product combo → +${bonus.points} pts`,
     };
   }
@@ -492,6 +494,7 @@ export default function ScoringBreakdownV2({
   weekContext,
   onNameClick,
   assetId,
+  scoringRules = DEFAULT_SCORING_CONFIG,
 }: ScoringBreakdownProps) {
   const getAssetTypeColor = (type: string) => {
     switch (type) {
@@ -819,7 +822,7 @@ export default function ScoringBreakdownV2({
             </div>
             <div className="space-y-2">
               {data.bonuses.map((bonus, idx) => {
-                const tooltipContent = getBonusTooltipContent(bonus, data);
+                const tooltipContent = getBonusTooltipContent(bonus, data, scoringRules);
                 // Normalize display name: "Hot Streak Streak" -> "Hot Streak"
                 const displayName = bonus.type.replace(/Hot Streak Streak/i, 'Hot Streak');
                 return (
@@ -1033,7 +1036,8 @@ export default function ScoringBreakdownV2({
             {visibleComponents.map((component, idx) => {
               const tooltipContent = getComponentTooltipContent(
                 component,
-                data.assetType
+                data.assetType,
+                scoringRules
               );
 
               const orderActivityIndex =
@@ -1125,7 +1129,7 @@ export default function ScoringBreakdownV2({
             </h4>
             <div className="space-y-1">
               {data.bonuses.map((bonus, idx) => {
-                const tooltipContent = getBonusTooltipContent(bonus, data);
+                const tooltipContent = getBonusTooltipContent(bonus, data, scoringRules);
                 // Normalize display name: "Hot Streak Streak" -> "Hot Streak"
                 const displayName = bonus.type.replace(/Hot Streak Streak/i, 'Hot Streak');
                 return (
@@ -0,0 +1,244 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_SCORING_CONFIG,
+  type LeagueScoringConfig,
+  type TrendScoredEntity,
+} from "@shared/scoringConfig";
+
+const ENTITY_LABELS: Record<TrendScoredEntity, string> = {
+  manufacturer: "Hersteller",
+  strain: "Strain",
+  product: "Produkt",
+  pharmacy: "Apotheke",
+};
+
+const RANK_TIER_LABELS = ["#1", "#2-3", "#4-5", "#6-10"];
+
+interface ScoringRulesEditorProps {
+  value: LeagueScoringConfig;
+  onChange: (value: LeagueScoringConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * ScoringRulesEditor
+ *
+ * Form for a league's custom scoring rules. Every field shows the standard
+ * value as placeholder so commissioners can see what they deviate from.
+ */
+export function ScoringRulesEditor({ value, onChange, disabled = false }: ScoringRulesEditorProps) {
+  const toNumber = (raw: string, fallback: number) => {
+    const parsed = parseFloat(raw);
+    return Number.isNaN(parsed) ? fallback : parsed;
+  };
+
+  const setEntityPoints = (
+    field: "orderPoints" | "trendPoints",
+    entity: TrendScoredEntity,
+    raw: string
+  ) =>
+    onChange({
+      ...value,
+      [field]: { ...value[field], [entity]: toNumber(raw, DEFAULT_SCORING_CONFIG[field][entity]) },
+    });
+
+  const setRankTier = (index: number, raw: string) => {
+    const tiers = [...value.rankTierBonuses] as LeagueScoringConfig["rankTierBonuses"];
+    tiers[index] = toNumber(raw, DEFAULT_SCORING_CONFIG.rankTierBonuses[index]);
+    onChange({ ...value, rankTierBonuses: tiers });
+  };
+
+  const entities = Object.keys(ENTITY_LABELS) as TrendScoredEntity[];
+
+  return (
+    <div className="space-y-6">
+      {/* Per-position points */}
+      <div className="space-y-2">
+        <Label>Punkte pro Position</Label>
+        <div className="grid grid-cols-[1fr_auto_auto] gap-2 items-center text-sm">
+          <span />
+          <span className="text-xs text-muted-foreground w-24">pro Bestellung</span>
+          <span className="text-xs text-muted-foreground w-24">pro 1.0x Trend</span>
+          {entities.map((entity) => (
+            <div key={entity} className="contents">
+              <span>{ENTITY_LABELS[entity]}</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                className="w-24"
+                disabled={disabled}
+                placeholder={DEFAULT_SCORING_CONFIG.orderPoints[entity].toString()}
+                value={value.orderPoints[entity]}
+                onChange={(e) => setEntityPoints("orderPoints", entity, e.target.value)}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                className="w-24"
+                disabled={disabled}
+                placeholder={DEFAULT_SCORING_CONFIG.trendPoints[entity].toString()}
+                value={value.trendPoints[entity]}
+                onChange={(e) => setEntityPoints("trendPoints", entity, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="trendMultiplierCap">Maximaler Trend-Multiplikator</Label>
+        <Input
+          id="trendMultiplierCap"
+          type="number"
+          min={1}
+          max={10}
+          step={0.5}
+          disabled={disabled}
+          value={value.trendMultiplierCap}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              trendMultiplierCap: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.trendMultiplierCap),
+            })
+          }
+        />
+      </div>
+
+      {/* Rank tiers */}
+      <div className="space-y-2">
+        <Label>Rang-Bonus</Label>
+        <div className="grid grid-cols-4 gap-2">
+          {RANK_TIER_LABELS.map((label, index) => (
+            <div key={label} className="space-y-1">
+              <span className="text-xs text-muted-foreground">{label}</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                disabled={disabled}
+                value={value.rankTierBonuses[index]}
+                onChange={(e) => setRankTier(index, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Captain */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="captainMultiplier">Kapitän-Multiplikator</Label>
+          <Input
+            id="captainMultiplier"
+            type="number"
+            min={1}
+            max={3}
+            step={0.25}
+            disabled={disabled}
+            value={value.captainMultiplier}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                captainMultiplier: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.captainMultiplier),
+              })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="captainBonus">First Goal Bonus</Label>
+          <Input
+            id="captainBonus"
+            type="number"
+            min={0}
+            max={100}
+            disabled={disabled}
+            value={value.captainBonus}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                captainBonus: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.captainBonus),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      {/* Synergy */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="synergyEnabled">Synergie-Boni</Label>
+            <p className="text-[10px] text-muted-foreground">
+              Apotheke + Strain/Produkt im selben Lineup
+            </p>
+          </div>
+          <Switch
+            id="synergyEnabled"
+            checked={value.synergyEnabled}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ ...value, synergyEnabled: checked })}
+          />
+        </div>
+        {value.synergyEnabled && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Volle Synergie (%)</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                disabled={disabled}
+                value={value.fullSynergyPercent}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    fullSynergyPercent: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.fullSynergyPercent),
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Teil-Synergie (%)</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                disabled={disabled}
+                value={value.partialSynergyPercent}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    partialSynergyPercent: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.partialSynergyPercent),
+                  })
+                }
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="teamBonusCap">Team-Boni (max. Punkte pro Spieltag)</Label>
+        <Input
+          id="teamBonusCap"
+          type="number"
+          min={0}
+          max={200}
+          disabled={disabled}
+          value={value.teamBonusCap}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              teamBonusCap: toNumber(e.target.value, DEFAULT_SCORING_CONFIG.teamBonusCap),
+            })
+          }
+        />
+        <p className="text-[10px] text-muted-foreground">0 schaltet Team-Boni ab</p>
+      </div>
+    </div>
+  );
+}
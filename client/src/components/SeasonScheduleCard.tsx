@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, Loader2, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+
+interface SeasonScheduleCardProps {
+  leagueId: number;
+}
+
+/**
+ * Commissioner preview of the regular season schedule, with reshuffling
+ * and regeneration until the first matchup has been scored
+ */
+export function SeasonScheduleCard({ leagueId }: SeasonScheduleCardProps) {
+  const utils = trpc.useUtils();
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [showAllWeeks, setShowAllWeeks] = useState(false);
+
+  const { data: preview, isLoading, isFetching } = trpc.matchup.previewSeasonSchedule.useQuery(
+    { leagueId, seed },
+    { placeholderData: (previous) => previous }
+  );
+
+  const regenerate = trpc.matchup.regenerateSeasonSchedule.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Spielplan neu erstellt (${result.totalMatchups} Matchups)`);
+      utils.matchup.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleRegenerate = () => {
+    if (!confirm("Der bestehende Spielplan der regulären Saison wird ersetzt. Fortfahren?")) return;
+    regenerate.mutate({ leagueId, seed });
+  };
+
+  const visibleWeeks = showAllWeeks ? preview?.weeks : preview?.weeks.slice(0, 3);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Spielplan
+        </CardTitle>
+        <CardDescription>
+          Reguläre Saison bis Woche {preview?.endWeek ?? "…"}, danach beginnen die Playoffs. Bei ungerader
+          Teamanzahl hat jede Woche ein Team spielfrei, auf Wunsch spielt es gegen den Median der Woche. Heim- und
+          Auswärtsspiele werden ausgeglichen verteilt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !preview ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : preview.weeks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Mindestens zwei Teams werden für einen Spielplan benötigt.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="py-1 font-normal">Team</th>
+                    <th className="py-1 font-normal text-right">Heim</th>
+                    <th className="py-1 font-normal text-right">Auswärts</th>
+                    <th className="py-1 font-normal text-right">Spielfrei</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.teams.map((team) => (
+                    <tr key={team.teamId} className="border-t">
+                      <td className="py-1">{team.teamName}</td>
+                      <td className="py-1 text-right">{team.homeGames}</td>
+                      <td className="py-1 text-right">{team.awayGames}</td>
+                      <td className="py-1 text-right">{team.byes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-3">
+              {visibleWeeks?.map((week) => (
+                <div key={week.week} className="rounded-md border px-3 py-2 text-sm">
+                  <div className="mb-1 text-xs font-medium text-muted-foreground">Woche {week.week}</div>
+                  {week.matchups.map((matchup) => (
+                    <div key={`${matchup.homeTeamId}-${matchup.awayTeamId}`}>
+                      {matchup.homeTeamName} <span className="text-muted-foreground">vs.</span> {matchup.awayTeamName}
+                    </div>
+                  ))}
+                  {week.byes.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      Spielfrei: {week.byes.map((bye) => bye.teamName).join(", ")}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {preview.weeks.length > 3 && (
+                <Button variant="ghost" size="sm" onClick={() => setShowAllWeeks(!showAllWeeks)}>
+                  {showAllWeeks ? "Weniger anzeigen" : `Alle ${preview.weeks.length} Wochen anzeigen`}
+                </Button>
+              )}
+            </div>
+
+            {preview.canRegenerate ? (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  disabled={isFetching}
+                  onClick={() => setSeed(Math.floor(Math.random() * 1_000_000_000))}
+                >
+                  {isFetching ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Shuffle className="w-4 h-4 mr-2" />}
+                  Neu mischen
+                </Button>
+                <Button onClick={handleRegenerate} disabled={regenerate.isPending || isFetching}>
+                  {regenerate.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Spielplan übernehmen
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Die Saison hat begonnen, der Spielplan kann nicht mehr geändert werden.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
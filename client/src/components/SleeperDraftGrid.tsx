@@ -9,6 +9,7 @@ interface DraftPick {
   round: number;
   teamId: number;
   teamName: string;
+  originalTeamId?: number; // Team whose slot the pick is in, when it was traded
   userName: string | null;
   userAvatarUrl: string | null;
   assetType: string; // Will be cast to AssetType when needed
@@ -17,6 +18,7 @@ interface DraftPick {
   imageUrl: string | null;
   lastWeekPoints: number | null;
   trendPercent: number | null;
+  price?: number | null; // Winning bid (auction drafts)
   pickTime?: string;
 }
 
@@ -27,6 +29,13 @@ interface Team {
   userAvatarUrl: string | null;
 }
 
+interface TradedPick {
+  round: number;
+  originalTeamId: number;
+  ownerTeamId: number;
+  ownerTeamName: string;
+}
+
 interface SleeperDraftGridProps {
   teams: Team[];
   picks: DraftPick[];
@@ -35,6 +44,8 @@ interface SleeperDraftGridProps {
   currentTeamId: number | null;
   totalRounds: number;
   myTeamId?: number;
+  draftType?: string;
+  tradedPicks?: TradedPick[];
 }
 
 // Team colors for visual differentiation
@@ -74,6 +85,8 @@ export function SleeperDraftGrid({
   currentTeamId,
   totalRounds,
   myTeamId,
+  draftType = "snake",
+  tradedPicks = [],
 }: SleeperDraftGridProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const onTheClockRef = useRef<HTMLDivElement>(null);
@@ -82,13 +95,26 @@ export function SleeperDraftGrid({
   const picksByRoundAndTeam = useMemo(() => {
     const map = new Map<string, DraftPick>();
     picks.forEach((pick) => {
-      map.set(`${pick.round}-${pick.teamId}`, pick);
+      map.set(`${pick.round}-${pick.originalTeamId ?? pick.teamId}`, pick);
     });
     return map;
   }, [picks]);
 
+  // Traded picks stay in the original team's column, marked with the team that owns them
+  const tradedPickOwners = useMemo(() => {
+    const map = new Map<string, TradedPick>();
+    tradedPicks.forEach((traded) => {
+      map.set(`${traded.round}-${traded.originalTeamId}`, traded);
+    });
+    return map;
+  }, [tradedPicks]);
+
   // Calculate which team is at which position for each round (snake draft)
   const getTeamOrderForRound = (round: number): Team[] => {
+    // Linear and auction boards keep the same column order every round
+    if (draftType !== "snake") {
+      return teams;
+    }
     // Odd rounds: normal order (1, 2, 3, ...)
     // Even rounds: reverse order (..., 3, 2, 1)
     if (round % 2 === 1) {
@@ -175,7 +201,11 @@ export function SleeperDraftGrid({
               {teamOrder.map((team, posIdx) => {
                 const pickNum = getPickNumberForPosition(round, posIdx);
                 const pick = picksByRoundAndTeam.get(`${round}-${team.id}`);
-                const isOnTheClock = round === currentRound && team.id === currentTeamId && !pick;
+                const tradedTo = tradedPickOwners.get(`${round}-${team.id}`);
+                // Auction rows aren't tied to pick numbers; round drafts follow the slot even when traded
+                const isOnTheClock = round === currentRound && !pick && (
+                  draftType === "auction" ? team.id === currentTeamId : pickNum === currentPickNumber
+                );
                 const teamColor = TEAM_COLORS[teams.findIndex(t => t.id === team.id) % TEAM_COLORS.length];
 
                 return (
@@ -214,6 +244,12 @@ export function SleeperDraftGrid({
                         <div className="text-xs font-semibold text-white leading-tight line-clamp-2">
                           {pick.assetName}
                         </div>
+                        {pick.price != null && (
+                          <div className="text-[10px] font-bold text-[#00d4aa]">${pick.price}</div>
+                        )}
+                        {pick.originalTeamId != null && pick.originalTeamId !== pick.teamId && (
+                          <div className="text-[10px] text-white/50 truncate w-full">→ {pick.teamName}</div>
+                        )}
                       </div>
                     ) : isOnTheClock ? (
                       /* On The Clock Cell */
@@ -224,11 +260,21 @@ export function SleeperDraftGrid({
                         <span className="text-xs font-bold text-pink-300 uppercase">
                           Clock
                         </span>
+                        {tradedTo && (
+                          <span className="text-[10px] text-pink-200 truncate max-w-full px-1">
+                            {tradedTo.ownerTeamName}
+                          </span>
+                        )}
                       </div>
                     ) : (
                       /* Empty Cell */
-                      <div className="h-full rounded-lg border border-white/10 border-dashed flex items-center justify-center">
+                      <div className="h-full rounded-lg border border-white/10 border-dashed flex flex-col items-center justify-center">
                         <span className="text-xs text-white/20">{pickNum}</span>
+                        {tradedTo && (
+                          <span className="text-[10px] text-[#00d4aa]/70 truncate max-w-full px-1">
+                            → {tradedTo.ownerTeamName}
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
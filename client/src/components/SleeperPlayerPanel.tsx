@@ -4,6 +4,8 @@ import { cn } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { LeagueChat } from "@/components/LeagueChat";
+import { useAssetProjections } from "@/hooks/useAssetProjections";
+import { useAssetAdp, type DraftFormat } from "@/hooks/useAssetAdp";
 
 type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
 
@@ -40,6 +42,8 @@ interface QueuedPlayer {
 
 interface SleeperPlayerPanelProps {
   leagueId?: number;
+  // Draft format whose ADP is shown next to each player
+  draftFormat?: DraftFormat;
   rosterCounts: {
     manufacturer: number;
     cannabis_strain: number;
@@ -117,6 +121,7 @@ type SortOrder = "asc" | "desc";
  */
 export function SleeperPlayerPanel({
   leagueId,
+  draftFormat = "snake",
   rosterCounts,
   manufacturers,
   cannabisStrains,
@@ -278,6 +283,14 @@ export function SleeperPlayerPanel({
     sortOrder,
   ]);
 
+  const { getProjection } = useAssetProjections(
+    filteredPlayers.map((p) => ({ assetType: p.assetType, assetId: p.id }))
+  );
+  const { getAdp } = useAssetAdp(
+    filteredPlayers.map((p) => ({ assetType: p.assetType, assetId: p.id })),
+    draftFormat
+  );
+
   // Calculate total roster slots
   const totalRoster = totalRosterCount;
   const maxRoster = TOTAL_ROSTER_SLOTS;
@@ -489,6 +502,8 @@ export function SleeperPlayerPanel({
                     const isFull = isPositionFull(player.assetType);
                     const inQueue = isInQueue(player.assetType, player.id);
                     const points = player.yesterdayPoints ?? player.todayPoints ?? 0;
+                    const projection = getProjection(player.assetType, player.id);
+                    const adp = getAdp(player.assetType, player.id);
                     const imageUrl = player.imageUrl || player.logoUrl;
                     const isValidImage = imageUrl && imageUrl.length > 5 && !imageUrl.includes("undefined");
 
@@ -600,6 +615,30 @@ export function SleeperPlayerPanel({
                             {points.toFixed(1)}
                           </div>
                         </div>
+
+                        {/* Projection */}
+                        {projection && (
+                          <div
+                            className="text-right shrink-0 min-w-[48px]"
+                            title={`Next 7 days: ${projection.nextWeekPoints} pts`}
+                          >
+                            <div className="text-[10px] text-white/40 uppercase">Proj</div>
+                            <div className="text-sm font-semibold text-white/80">
+                              {projection.nextDayPoints}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* ADP */}
+                        {adp && (
+                          <div
+                            className="text-right shrink-0 min-w-[48px]"
+                            title={`Picks ${adp.minPick}–${adp.maxPick} · drafted in ${adp.draftPercentage}% of drafts`}
+                          >
+                            <div className="text-[10px] text-white/40 uppercase">ADP</div>
+                            <div className="text-sm font-semibold text-white/80">{adp.adp.toFixed(1)}</div>
+                          </div>
+                        )}
                       </div>
                     );
                   })
@@ -0,0 +1,76 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, TrendingDown, TrendingUp } from "lucide-react";
+
+interface TradeAnalysisPanelProps {
+  /** Result of trade.analyzeTrade / trade.previewTradeAnalysis */
+  analysis: any;
+  currentTeamId?: number;
+}
+
+function formatPoints(value: number) {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+/**
+ * Projected rest-of-season value per team and the effect on each starting lineup
+ */
+export function TradeAnalysisPanel({ analysis, currentTeamId }: TradeAnalysisPanelProps) {
+  const favored = analysis.teams.find((t: any) => t.teamId === analysis.favoredTeamId);
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-bold text-muted-foreground uppercase">Trade Analyzer</p>
+        {analysis.isLopsided ? (
+          <Badge variant="destructive" className="gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            Lopsided{favored ? ` toward ${favored.teamId === currentTeamId ? "you" : favored.teamName}` : ""}
+          </Badge>
+        ) : (
+          <Badge variant="outline">Balanced</Badge>
+        )}
+      </div>
+
+      <div className={`grid gap-3 ${analysis.teams.length > 2 ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+        {analysis.teams.map((team: any) => (
+          <div key={team.teamId} className="space-y-1 text-sm">
+            <p className="font-medium">{team.teamId === currentTeamId ? "You" : team.teamName}</p>
+            <p className="flex items-center gap-1">
+              {team.netValue >= 0
+                ? <TrendingUp className="w-4 h-4 text-green-500" />
+                : <TrendingDown className="w-4 h-4 text-red-500" />}
+              <span className={team.netValue >= 0 ? "text-green-600" : "text-red-600"}>
+                {formatPoints(team.netValue)} pts
+              </span>
+              <span className="text-muted-foreground">rest of season</span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Gets {team.valueReceived.toFixed(1)} • gives {team.valueSent.toFixed(1)} • {team.remainingWeeks} weeks left
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Lineup {team.lineup.projectedBefore.toFixed(1)} → {team.lineup.projectedAfter.toFixed(1)} pts/week
+              {" "}({formatPoints(team.lineup.weeklyChange)})
+            </p>
+            {team.lineup.startersLost.length > 0 && (
+              <p className="text-xs text-red-600">Loses starters: {team.lineup.startersLost.join(", ")}</p>
+            )}
+            {team.lineup.newStarters.length > 0 && (
+              <p className="text-xs text-green-600">New starters: {team.lineup.newStarters.join(", ")}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ul className="space-y-1 text-xs text-muted-foreground border-t pt-2">
+        {analysis.teams.flatMap((team: any) => team.receives).map((asset: any) => (
+          <li key={`${asset.assetType}-${asset.assetId}`}>
+            <span className="font-medium text-foreground">{asset.assetName}</span>
+            {" "}{asset.weeklyProjection.toFixed(1)} pts/week
+            {asset.trendMultiplier !== 1 && ` • trend ×${asset.trendMultiplier}`}
+            {" "}• {asset.restOfSeasonPoints.toFixed(1)} projected
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
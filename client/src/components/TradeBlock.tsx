@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, ArrowRightLeft } from "lucide-react";
+import { toast } from "sonner";
+
+type BlockKind = "shopping" | "wanted";
+
+interface TradeBlockProps {
+  leagueId: number;
+  myTeamId: number;
+  /** Other teams of the league */
+  otherTeams: Array<{ id: number; name: string }>;
+  myRoster: any[];
+  /** Open the trade builder for an entry of another team */
+  onMakeOffer: (entry: any) => void;
+}
+
+/**
+ * Trade block: assets managers are shopping and assets they are looking for
+ */
+export function TradeBlock({ leagueId, myTeamId, otherTeams, myRoster, onMakeOffer }: TradeBlockProps) {
+  const utils = trpc.useUtils();
+  const [kind, setKind] = useState<BlockKind>("shopping");
+  const [teamId, setTeamId] = useState<number | null>(null);
+  const [assetKey, setAssetKey] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: entries = [], isLoading } = trpc.trade.getTradeBlock.useQuery({ leagueId });
+  const { data: teamRoster = [] } = trpc.roster.getTeamRoster.useQuery(
+    { teamId: teamId ?? 0 },
+    { enabled: kind === "wanted" && teamId !== null }
+  );
+
+  const addEntry = trpc.trade.addToTradeBlock.useMutation({
+    onSuccess: () => {
+      toast.success(kind === "shopping" ? "Added to your trade block." : "Added to your wish list.");
+      setAssetKey("");
+      setNote("");
+      utils.trade.getTradeBlock.invalidate({ leagueId });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const removeEntry = trpc.trade.removeFromTradeBlock.useMutation({
+    onSuccess: () => utils.trade.getTradeBlock.invalidate({ leagueId }),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const pickableAssets = kind === "shopping" ? myRoster : teamRoster;
+
+  const handleAdd = () => {
+    const asset = pickableAssets.find((a: any) => `${a.assetType}:${a.assetId}` === assetKey);
+    if (!asset) {
+      toast.error("Please choose an asset.");
+      return;
+    }
+    addEntry.mutate({ leagueId, kind, type: asset.assetType, id: asset.assetId, note: note || undefined });
+  };
+
+  const renderEntries = (list: any[], emptyText: string) => {
+    if (list.length === 0) {
+      return <p className="text-sm text-muted-foreground italic">{emptyText}</p>;
+    }
+    return (
+      <div className="space-y-2">
+        {list.map((entry) => {
+          const isMine = entry.teamId === myTeamId;
+          // Shopping entries can be bought from the lister, wanted entries sold to them if I own the asset
+          const canOffer = !isMine && (entry.kind === "shopping" || entry.ownerTeamId === myTeamId);
+          return (
+            <div key={entry.id} className="flex items-center justify-between gap-3 rounded border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{entry.assetName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.assetLabel} • {isMine ? "You" : entry.teamName}
+                  {entry.kind === "wanted" && entry.ownerTeamName && ` • owned by ${entry.ownerTeamName}`}
+                </p>
+                {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {isMine && <Badge variant="outline">Yours</Badge>}
+                {isMine && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeEntry.mutate({ entryId: entry.id })}
+                    disabled={removeEntry.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+                {canOffer && (
+                  <Button size="sm" variant="outline" onClick={() => onMakeOffer(entry)}>
+                    <ArrowRightLeft className="w-4 h-4 mr-2" />
+                    Make Offer
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return <Loader2 className="w-6 h-6 animate-spin mx-auto" />;
+  }
+
+  return (
+    <div className="grid gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Update Your Block</CardTitle>
+          <CardDescription>Shop assets from your roster or tell the league what you are looking for.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row gap-3">
+          <Select
+            value={kind}
+            onValueChange={(v) => {
+              setKind(v as BlockKind);
+              setAssetKey("");
+            }}
+          >
+            <SelectTrigger className="md:w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="shopping">Shopping</SelectItem>
+              <SelectItem value="wanted">Looking for</SelectItem>
+            </SelectContent>
+          </Select>
+          {kind === "wanted" && (
+            <Select
+              value={teamId?.toString() ?? ""}
+              onValueChange={(v) => {
+                setTeamId(parseInt(v));
+                setAssetKey("");
+              }}
+            >
+              <SelectTrigger className="md:w-[180px]">
+                <SelectValue placeholder="Team" />
+              </SelectTrigger>
+              <SelectContent>
+                {otherTeams.map((team) => (
+                  <SelectItem key={team.id} value={team.id.toString()}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={assetKey} onValueChange={setAssetKey}>
+            <SelectTrigger className="md:w-[220px]">
+              <SelectValue placeholder="Asset" />
+            </SelectTrigger>
+            <SelectContent>
+              {pickableAssets.map((asset: any) => (
+                <SelectItem key={`${asset.assetType}:${asset.assetId}`} value={`${asset.assetType}:${asset.assetId}`}>
+                  {asset.name || asset.assetName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            maxLength={200}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button onClick={handleAdd} disabled={addEntry.isPending}>
+            {addEntry.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">On the Block</CardTitle>
+            <CardDescription>Assets managers are willing to move</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderEntries(entries.filter((e) => e.kind === "shopping"), "Nobody is shopping assets right now.")}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Looking For</CardTitle>
+            <CardDescription>Assets managers want to acquire</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderEntries(entries.filter((e) => e.kind === "wanted"), "No wanted assets listed.")}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -14,8 +14,13 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-export function WeeklyCompetition() {
-    const { data: competition, isLoading } = trpc.stockMarket.getWeeklyStandings.useQuery({ limit: 5 });
+interface WeeklyCompetitionProps {
+    /** Rank a market league's portfolios instead of the global market */
+    marketLeagueId?: number;
+}
+
+export function WeeklyCompetition({ marketLeagueId }: WeeklyCompetitionProps = {}) {
+    const { data: competition, isLoading } = trpc.stockMarket.getWeeklyStandings.useQuery({ limit: 5, marketLeagueId });
 
     if (isLoading) {
         return (
@@ -47,18 +52,20 @@ export function WeeklyCompetition() {
             </CardHeader>
 
             <CardContent className="space-y-4">
-                {/* Prizes */}
-                <div className="flex justify-around p-3 bg-black/30 rounded-lg">
-                    {competition.prizes.map((prize, i) => (
-                        <div key={i} className="text-center">
-                            <div className="text-2xl mb-1">{prize.emoji}</div>
-                            <div className="text-xs text-violet-300 font-medium">
-                                {prize.points.toLocaleString()}
+                {/* Prizes (global market only) */}
+                {competition.prizes.length > 0 && (
+                    <div className="flex justify-around p-3 bg-black/30 rounded-lg">
+                        {competition.prizes.map((prize, i) => (
+                            <div key={i} className="text-center">
+                                <div className="text-2xl mb-1">{prize.emoji}</div>
+                                <div className="text-xs text-violet-300 font-medium">
+                                    {prize.points.toLocaleString()}
+                                </div>
+                                <div className="text-[10px] text-zinc-500">BudsRewards</div>
                             </div>
-                            <div className="text-[10px] text-zinc-500">BudsRewards</div>
-                        </div>
-                    ))}
-                </div>
+                        ))}
+                    </div>
+                )}
 
                 {/* Standings */}
                 <div className="space-y-2">
@@ -113,10 +120,12 @@ export function WeeklyCompetition() {
                 </div>
 
                 {/* CTA */}
-                <div className="text-center text-xs text-zinc-500 pt-2 border-t border-zinc-800">
-                    <Gift className="w-4 h-4 inline mr-1" />
-                    Top 3 win BudsRewards points every Sunday!
-                </div>
+                {competition.prizes.length > 0 && (
+                    <div className="text-center text-xs text-zinc-500 pt-2 border-t border-zinc-800">
+                        <Gift className="w-4 h-4 inline mr-1" />
+                        Top 3 win BudsRewards points every Sunday!
+                    </div>
+                )}
             </CardContent>
         </Card>
     );
@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+
+type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
+export type DraftFormat = "snake" | "linear" | "auction" | "challenge";
+
+/** The ADP endpoint accepts at most this many assets per request */
+const MAX_ASSETS = 500;
+
+/**
+ * Draft format a league's ADP comes from
+ */
+export function getDraftFormat(league?: { leagueType?: string | null; draftType?: string | null } | null): DraftFormat {
+  if (league?.leagueType === "challenge") return "challenge";
+  return league?.draftType === "linear" || league?.draftType === "auction" ? league.draftType : "snake";
+}
+
+/**
+ * useAssetAdp Hook
+ *
+ * Fetches average draft position, pick range and draft percentage for a list of
+ * assets in one draft format and returns a lookup by asset type and id.
+ *
+ * @param assets - Assets to look up (entries without an id are ignored)
+ * @param draftFormat - Draft format whose ADP to use
+ * @param enabled - Set to false to skip fetching
+ */
+export function useAssetAdp(
+  assets: Array<{ assetType: AssetType; assetId: number | null | undefined }>,
+  draftFormat: DraftFormat,
+  enabled: boolean = true
+) {
+  const requested = assets
+    .filter((a): a is { assetType: AssetType; assetId: number } => typeof a.assetId === "number")
+    .slice(0, MAX_ASSETS);
+
+  const { data } = trpc.stats.getAdp.useQuery(
+    { draftFormat, assets: requested },
+    { enabled: enabled && requested.length > 0, staleTime: 30 * 60 * 1000 }
+  );
+
+  const byAsset = useMemo(
+    () => new Map((data ?? []).map((stat) => [`${stat.assetType}:${stat.assetId}`, stat])),
+    [data]
+  );
+
+  return {
+    getAdp: (assetType: AssetType, assetId: number | null | undefined) =>
+      assetId ? byAsset.get(`${assetType}:${assetId}`) : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+
+type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
+
+/** The projection endpoint accepts at most this many assets per request */
+const MAX_ASSETS = 500;
+
+/**
+ * useAssetProjections Hook
+ *
+ * Fetches the latest next-day / next-week point projections for a list of assets
+ * and returns a lookup by asset type and id.
+ *
+ * @param assets - Assets to project (entries without an id are ignored)
+ * @param enabled - Set to false to skip fetching
+ */
+export function useAssetProjections(
+  assets: Array<{ assetType: AssetType; assetId: number | null | undefined }>,
+  enabled: boolean = true
+) {
+  const requested = assets
+    .filter((a): a is { assetType: AssetType; assetId: number } => typeof a.assetId === "number")
+    .slice(0, MAX_ASSETS);
+
+  const { data } = trpc.projection.getProjections.useQuery(
+    { assets: requested },
+    { enabled: enabled && requested.length > 0, staleTime: 5 * 60 * 1000 }
+  );
+
+  const byAsset = useMemo(
+    () => new Map((data?.projections ?? []).map((p) => [`${p.assetType}:${p.assetId}`, p])),
+    [data]
+  );
+
+  return {
+    projectionDate: data?.projectionDate ?? null,
+    getProjection: (assetType: AssetType, assetId: number | null | undefined) =>
+      assetId ? byAsset.get(`${assetType}:${assetId}`) : undefined,
+  };
+}
@@ -30,11 +30,14 @@ import {
   Clock,
   Zap,
   Timer,
+  Calculator,
 } from "lucide-react";
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
 import { getLoginUrl } from "@/const";
+import { ScoringRulesEditor } from "@/components/ScoringRulesEditor";
+import { DEFAULT_SCORING_CONFIG } from "@shared/scoringConfig";
 
 export default function CreateLeague() {
   const [, setLocation] = useLocation();
@@ -47,9 +50,14 @@ export default function CreateLeague() {
     maxTeams: 10,
     draftDate: "",
     scoringSystem: "standard" as "standard" | "ppr" | "custom",
+    scoringConfig: DEFAULT_SCORING_CONFIG,
     waiverType: "faab" as "faab" | "rolling",
     faabBudget: 100,
     tradeDeadlineWeek: 13,
+    draftType: "snake" as "snake" | "linear" | "auction",
+    auctionBudget: 200,
+    keeperMode: "none" as "none" | "keeper" | "dynasty",
+    maxKeepers: 3,
     playoffTeams: 6,
     seasonLength: 18,
     isPublic: false,
@@ -503,6 +511,45 @@ export default function CreateLeague() {
             </CardContent>
           </Card>
 
+          {/* Scoring Rules */}
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-card-foreground flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Punktesystem
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                Standard-Regeln oder eigene Punktwerte für deine Liga
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="scoringSystem">Regeln</Label>
+                <Select
+                  value={formData.scoringSystem === "custom" ? "custom" : "standard"}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, scoringSystem: value as "standard" | "custom" })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    <SelectItem value="custom">Eigene Regeln</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.scoringSystem === "custom" && (
+                <ScoringRulesEditor
+                  value={formData.scoringConfig}
+                  onChange={(scoringConfig) => setFormData({ ...formData, scoringConfig })}
+                />
+              )}
+            </CardContent>
+          </Card>
+
           {/* Draft Settings - Season Only */}
           {formData.leagueType === "season" && (
             <Card className="bg-card border-border">
@@ -528,6 +575,99 @@ export default function CreateLeague() {
                     Leer lassen, um später festzulegen
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="draftType">Draft-Typ</Label>
+                  <Select
+                    value={formData.draftType}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, draftType: value as "snake" | "linear" | "auction" })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="snake">Snake</SelectItem>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="auction">Auktion</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-[10px] text-muted-foreground">
+                    Bei einer Auktion nominieren Teams reihum Spieler und bieten mit einem festen Budget
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="keeperMode">Keeper / Dynasty</Label>
+                  <Select
+                    value={formData.keeperMode}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, keeperMode: value as "none" | "keeper" | "dynasty" })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Redraft (jede Saison neu)</SelectItem>
+                      <SelectItem value="keeper">Keeper</SelectItem>
+                      <SelectItem value="dynasty">Dynasty (ganzer Kader bleibt)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.keeperMode === "keeper" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="maxKeepers">Keeper pro Team</Label>
+                    <Select
+                      value={formData.maxKeepers.toString()}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, maxKeepers: parseInt(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5].map((num) => (
+                          <SelectItem key={num} value={num.toString()}>
+                            {num}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-[10px] text-muted-foreground">
+                      Keeper kosten den Pick der Runde, in der sie gedraftet wurden
+                    </p>
+                  </div>
+                )}
+
+                {formData.draftType === "auction" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="auctionBudget">Auktionsbudget</Label>
+                    <Select
+                      value={formData.auctionBudget.toString()}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, auctionBudget: parseInt(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[100, 200, 300, 500, 1000].map((amount) => (
+                          <SelectItem key={amount} value={amount.toString()}>
+                            ${amount}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-[10px] text-muted-foreground">
+                      Budget pro Team für den gesamten Draft
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
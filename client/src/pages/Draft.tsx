@@ -11,8 +11,12 @@ import { DraftClock } from "@/components/DraftClock";
 import { SleeperDraftHeader } from "@/components/SleeperDraftHeader";
 import { SleeperDraftGrid } from "@/components/SleeperDraftGrid";
 import { SleeperPlayerPanel } from "@/components/SleeperPlayerPanel";
+import { AuctionBlock } from "@/components/AuctionBlock";
 import { SleeperDraftSettings } from "@/components/SleeperDraftSettings";
+import { CommissionerDraftControls } from "@/components/CommissionerDraftControls";
 import { ChallengeDraftBoard } from "@/components/ChallengeDraftBoard";
+import { DraftGradesDialog } from "@/components/DraftGradesDialog";
+import { getDraftFormat } from "@/hooks/useAssetAdp";
 import { toast } from "sonner";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { useEffect, useState, useMemo, useCallback, useRef } from "react";
@@ -38,6 +42,9 @@ export default function Draft() {
   const [timerSeconds, setTimerSeconds] = useState<number | null>(null);
   const [timeLimit, setTimeLimit] = useState<number>(90);
   const [isPaused, setIsPaused] = useState(false);
+  // Paused by the commissioner (isPaused only tracks the clock)
+  const [draftPaused, setDraftPaused] = useState(false);
+  const [commissionerPickForTeam, setCommissionerPickForTeam] = useState(false);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Local timer countdown (server syncs every 5s, we interpolate locally for smooth UI)
@@ -70,6 +77,7 @@ export default function Draft() {
   const [currentPickNumber, setCurrentPickNumber] = useState<number>(1);
   const [currentRound, setCurrentRound] = useState<number>(1);
   const [showDraftCompleteDialog, setShowDraftCompleteDialog] = useState(false);
+  const [showDraftGrades, setShowDraftGrades] = useState(false);
   const [autoDraftEnabled, setAutoDraftEnabled] = useState(false);
   const autoDraftInProgressRef = useRef(false);
 
@@ -209,6 +217,7 @@ export default function Draft() {
   // Determine if this is a season league (for Sleeper-style) or challenge (existing style)
   const isSeasonLeague = league?.leagueType === "season";
   const isChallengeLeague = league?.leagueType === "challenge";
+  const isAuctionDraft = isSeasonLeague && league?.draftType === "auction";
 
   // Fetch available players (enabled for challenge leagues, auto-draft, or season leagues)
   const { data: availableManufacturers = [] } = trpc.draft.getAvailableManufacturers.useQuery(
@@ -245,6 +254,16 @@ export default function Draft() {
     { enabled: !!id && isAuthenticated && isSeasonLeague }
   );
 
+  const { data: tradedPicks = [] } = trpc.draft.getTradedPicks.useQuery(
+    { leagueId },
+    { enabled: !!id && isAuthenticated && isSeasonLeague && !isAuctionDraft }
+  );
+
+  const { data: auctionState } = trpc.draft.getAuctionState.useQuery(
+    { leagueId },
+    { enabled: !!id && isAuthenticated && isAuctionDraft }
+  );
+
   // For challenge leagues: derive opponent team from league teams
   const opponentTeam = useMemo(() => {
     if (!isChallengeLeague || !league?.teams || !myTeam) return null;
@@ -314,6 +333,9 @@ export default function Draft() {
 
   // Initialize current turn from draft status
   useEffect(() => {
+    if (draftStatus) {
+      setDraftPaused(draftStatus.draftPaused);
+    }
     if (draftStatus?.nextPick) {
       setCurrentTurnTeamId(draftStatus.nextPick.teamId);
       setCurrentTurnTeamName(draftStatus.nextPick.teamName);
@@ -337,8 +359,17 @@ export default function Draft() {
         });
       }
 
-      if (message.type === 'player_picked') {
+      if (message.type === 'auction_nomination') {
+        utils.draft.getAuctionState.invalidate({ leagueId });
+        toast.info(`${message.nominatingTeamName} nominiert ${message.assetName} für $${message.openingBid}`);
+      } else if (message.type === 'auction_bid') {
+        utils.draft.getAuctionState.invalidate({ leagueId });
+      } else if (message.type === 'player_picked') {
         const assetType = message.assetType as AssetType;
+        if (isAuctionDraft) {
+          utils.draft.getAuctionState.invalidate({ leagueId });
+          utils.draft.getAllDraftPicks.invalidate();
+        }
         markAssetDrafted(assetType, message.assetId);
 
         // Add to recent picks
@@ -353,7 +384,11 @@ export default function Draft() {
         ]);
 
         // Show toast notification
-        toast.success(`${message.teamName} drafted ${message.assetName}`);
+        toast.success(
+          message.price != null
+            ? `${message.teamName} won ${message.assetName} for $${message.price}`
+            : `${message.teamName} drafted ${message.assetName}`
+        );
 
         if (message.teamId === myTeam?.id) {
           // Optimistically add to my roster
@@ -415,6 +450,37 @@ export default function Draft() {
       } else if (message.type === 'timer_resume') {
         setIsPaused(false);
         setTimerSeconds(message.remaining);
+      } else if (message.type === 'draft_paused') {
+        setDraftPaused(true);
+        setIsPaused(true);
+        toast.info("The commissioner paused the draft");
+      } else if (message.type === 'draft_resumed') {
+        setDraftPaused(false);
+        setIsPaused(false);
+        setTimerSeconds(message.remaining);
+        toast.info("The draft continues");
+      } else if (message.type === 'picks_undone') {
+        const undone = message.picks as Array<{ teamId: number; assetType: AssetType; assetId: number }>;
+        setDraftedAssets((prev) => {
+          const next = createDraftedAssetState();
+          (Object.keys(next) as AssetType[]).forEach((type) => {
+            prev[type].forEach((assetId) => {
+              if (!undone.some((pick) => pick.assetType === type && pick.assetId === assetId)) {
+                next[type].add(assetId);
+              }
+            });
+          });
+          return next;
+        });
+        setMyDraftedAssets((prev) =>
+          prev.filter((asset) => !undone.some((pick) => pick.assetType === asset.assetType && pick.assetId === asset.assetId))
+        );
+        utils.draft.invalidate();
+        utils.roster.getMyRoster.invalidate({ leagueId });
+        toast.warning(`The commissioner undid ${undone.length} pick${undone.length === 1 ? "" : "s"}`);
+      } else if (message.type === 'pick_time_limit_changed') {
+        utils.draft.getDraftStatus.invalidate({ leagueId });
+        toast.info(`Pick clock changed to ${message.pickTimeLimit}s from the next pick`);
       } else if (message.type === 'auto_pick') {
         toast.warning(`Auto-picked ${message.assetName} for ${message.teamName}`);
         if (message.teamId === myTeam?.id) {
@@ -537,6 +603,36 @@ export default function Draft() {
     },
   });
 
+  const commissionerMakePickMutation = trpc.draft.commissionerMakePick.useMutation({
+    onSuccess: (data, variables) => {
+      toast.success(`Drafted ${data.assetName} for ${data.teamName}`);
+      markAssetDrafted(variables.assetType as AssetType, variables.assetId);
+      invalidateAvailableByType(variables.assetType as AssetType);
+      utils.draft.getAllDraftPicks.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Draft Pick fehlgeschlagen: ${error.message}`);
+    },
+  });
+
+  const nominateAssetMutation = trpc.draft.nominateAsset.useMutation({
+    onSuccess: () => {
+      utils.draft.getAuctionState.invalidate({ leagueId });
+    },
+    onError: (error) => {
+      toast.error(`Nominierung fehlgeschlagen: ${error.message}`);
+    },
+  });
+
+  const placeBidMutation = trpc.draft.placeBid.useMutation({
+    onSuccess: () => {
+      utils.draft.getAuctionState.invalidate({ leagueId });
+    },
+    onError: (error) => {
+      toast.error(`Gebot fehlgeschlagen: ${error.message}`);
+    },
+  });
+
   // Captain Selection Mutation
   const setCaptainMutation = trpc.lineup.setCaptain.useMutation({
     onSuccess: () => {
@@ -604,6 +700,10 @@ export default function Draft() {
 
     // Guard against multiple simultaneous auto-draft attempts
     // Check: enabled, is my turn, have team info, not already in progress, mutation not pending
+    // Auction drafts nominate and bid for auto-pick teams on the server
+    if (isAuctionDraft) {
+      return;
+    }
     if (!shouldAutoDraft || !isMyTurn || !myTeam || autoDraftInProgressRef.current || makeDraftPickMutation.isPending) {
       return;
     }
@@ -829,6 +929,7 @@ export default function Draft() {
     };
   }, [
     autoDraftEnabled,
+    isAuctionDraft,
     autoPickFromQueue,
     draftQueue,
     isMyTurn,
@@ -861,7 +962,8 @@ export default function Draft() {
   // Build teams array for the grid from league teams (must be before early returns to maintain hook order)
   const teamsForGrid = useMemo(() => {
     if (!league?.teams || !Array.isArray(league.teams)) return [];
-    return league.teams.map((t: any) => ({
+    // Columns follow the draft order
+    return [...league.teams].sort((a: any, b: any) => (a.draftPosition ?? 0) - (b.draftPosition ?? 0)).map((t: any) => ({
       id: t.id,
       name: t.name,
       userName: t.userName || null,
@@ -911,7 +1013,23 @@ export default function Draft() {
   // Use current pick from draft status (WebSocket state)
   const currentPick = currentPickNumber || 1;
 
+  const showCommissionerControls =
+    !!league.isCommissioner && !isAuctionDraft && !!draftStatus?.draftStarted && !draftStatus?.draftCompleted;
+  const canPickForTeam = showCommissionerControls && commissionerPickForTeam && !isMyTurn;
+
   const handleDraftPick = async (assetType: AssetType, assetId: number) => {
+    // In auction drafts, picking from the player panel nominates the asset
+    if (isAuctionDraft) {
+      nominateAssetMutation.mutate({ leagueId, teamId: myTeam.id, assetType, assetId });
+      return;
+    }
+
+    // Commissioner drafting for the team on the clock
+    if (canPickForTeam) {
+      commissionerMakePickMutation.mutate({ leagueId, assetType, assetId });
+      return;
+    }
+
     try {
       const clickTime = Date.now();
       if (import.meta.env.MODE !== "production") {
@@ -959,6 +1077,19 @@ export default function Draft() {
   // Total rounds = 10 picks per team (2+2+2+2+1+1 = 10 roster slots)
   const totalRounds = 10;
 
+  // Auction picks don't follow a round order: place each pick in the team's next open row
+  const gridPicks = isAuctionDraft
+    ? (() => {
+      const teamPickCounts = new Map<number, number>();
+      return allDraftPicks.map((pick) => {
+        const row = (teamPickCounts.get(pick.teamId) ?? 0) + 1;
+        teamPickCounts.set(pick.teamId, row);
+        return { ...pick, round: row };
+      });
+    })()
+    : allDraftPicks;
+  const isMyNomination = isAuctionDraft && isMyTurn && !auctionState?.lot;
+
   // ============================================
   // SEASON LEAGUE - SLEEPER STYLE DRAFT
   // ============================================
@@ -985,10 +1116,27 @@ export default function Draft() {
               >
                 Go to Lineup Editor
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setShowDraftCompleteDialog(false);
+                  setShowDraftGrades(true);
+                }}
+                className="w-full sm:w-auto border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                View Draft Grades
+              </Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
 
+        <DraftGradesDialog
+          leagueId={leagueId}
+          myTeamId={myTeam.id}
+          open={showDraftGrades}
+          onOpenChange={setShowDraftGrades}
+        />
+
         {/* Settings Modal */}
         <SleeperDraftSettings
           isOpen={showSettings}
@@ -1000,27 +1148,66 @@ export default function Draft() {
         {/* Header */}
         <SleeperDraftHeader
           isYourTurn={isMyTurn}
-          currentTeamName={currentTurnTeamName || "Waiting..."}
+          currentTeamName={draftPaused ? "Draft paused" : currentTurnTeamName || "Waiting..."}
           timerSeconds={timerSeconds}
           onClose={() => window.history.back()}
           onSettingsClick={() => setShowSettings(true)}
           autoDraftEnabled={autoDraftEnabled}
         />
 
+        {!!draftStatus?.draftCompleted && (
+          <div className="flex items-center justify-between px-4 py-2 bg-[#2d3142]/60 border-y border-white/10 text-xs text-white/80">
+            <span className="font-semibold uppercase tracking-wider text-white/50">Draft complete</span>
+            <button
+              onClick={() => setShowDraftGrades(true)}
+              className="px-3 py-1 rounded-full bg-[#00d4aa] text-black font-semibold hover:bg-[#00e4b8]"
+            >
+              Draft grades
+            </button>
+          </div>
+        )}
+
+        {showCommissionerControls && (
+          <CommissionerDraftControls
+            leagueId={leagueId}
+            isPaused={draftPaused}
+            pickTimeLimit={draftStatus?.pickTimeLimit ?? timeLimit}
+            currentTeamName={currentTurnTeamName}
+            pickForTeam={commissionerPickForTeam}
+            onPickForTeamChange={setCommissionerPickForTeam}
+          />
+        )}
+
+        {/* Auction Block */}
+        {isAuctionDraft && (
+          <AuctionBlock
+            lot={auctionState?.lot ?? null}
+            budgets={auctionState?.budgets ?? []}
+            myTeamId={myTeam.id}
+            nominatingTeamName={currentTurnTeamName}
+            isMyNomination={isMyNomination}
+            onBid={(amount) => placeBidMutation.mutate({ leagueId, teamId: myTeam.id, amount })}
+            isBidding={placeBidMutation.isPending}
+          />
+        )}
+
         {/* Draft Grid */}
         <SleeperDraftGrid
           teams={teamsForGrid}
-          picks={allDraftPicks}
+          picks={gridPicks}
           currentPickNumber={currentPickNumber}
           currentRound={currentRound}
           currentTeamId={currentTurnTeamId}
           totalRounds={totalRounds}
           myTeamId={myTeam.id}
+          draftType={league.draftType}
+          tradedPicks={tradedPicks}
         />
 
         {/* Player Panel */}
         <SleeperPlayerPanel
           leagueId={leagueId}
+          draftFormat={getDraftFormat(league)}
           rosterCounts={rosterCounts}
           manufacturers={availableManufacturers}
           cannabisStrains={availableCannabisStrains}
@@ -1030,7 +1217,7 @@ export default function Draft() {
           onDraftPick={handleDraftPick}
           onSearchChange={setSearchQuery}
           searchQuery={searchQuery}
-          isMyTurn={isMyTurn}
+          isMyTurn={isAuctionDraft ? isMyNomination : isMyTurn || canPickForTeam}
           isLoading={false}
           draftedAssets={draftedAssets}
           myRoster={mergedRoster}
@@ -1045,7 +1232,7 @@ export default function Draft() {
           onReorderQueue={setDraftQueue}
           autoPickFromQueue={autoPickFromQueue}
           onAutoPickFromQueueChange={setAutoPickFromQueue}
-          draftPending={makeDraftPickMutation.isPending}
+          draftPending={makeDraftPickMutation.isPending || commissionerMakePickMutation.isPending}
         />
       </div>
     );
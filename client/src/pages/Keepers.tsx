@@ -0,0 +1,165 @@
+import { useMemo } from "react";
+import { useParams } from "wouter";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { LeagueNav } from "@/components/LeagueNav";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Lock } from "lucide-react";
+import { toast } from "sonner";
+
+type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
+
+const ASSET_TYPE_LABELS: Record<string, string> = {
+  manufacturer: "Manufacturer",
+  cannabis_strain: "Strain",
+  product: "Product",
+  pharmacy: "Dispensary",
+  brand: "Brand",
+};
+
+export default function Keepers() {
+  const { id } = useParams();
+  const leagueId = parseInt(id!);
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+
+  const { data: league } = trpc.league.getById.useQuery({ leagueId });
+  const { data: roster = [] } = trpc.roster.getMyRoster.useQuery({ leagueId });
+  const { data: keeperData, isLoading } = trpc.keeper.getKeeperOptions.useQuery(
+    { leagueId },
+    { enabled: !!leagueId }
+  );
+
+  const onChange = {
+    onSuccess: () => utils.keeper.getKeeperOptions.invalidate({ leagueId }),
+    onError: (error: { message: string }) => toast.error(error.message),
+  };
+  const designateKeeper = trpc.keeper.designateKeeper.useMutation(onChange);
+  const removeKeeper = trpc.keeper.removeKeeper.useMutation(onChange);
+
+  const rows = useMemo(() => {
+    if (!keeperData) return [];
+    return keeperData.options
+      .map((option) => ({
+        ...option,
+        name:
+          roster.find((r) => r.assetType === option.assetType && r.assetId === option.assetId)?.name ||
+          `#${option.assetId}`,
+      }))
+      .sort((a, b) => a.roundCost - b.roundCost);
+  }, [keeperData, roster]);
+
+  if (!league || isLoading || !keeperData) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const isCommissioner = league.commissionerUserId === user?.id;
+  const limitReached = keeperData.keeperCount >= keeperData.maxKeepers;
+  const isPending = designateKeeper.isPending || removeKeeper.isPending;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <LeagueNav
+        leagueId={leagueId}
+        leagueName={league.name}
+        teamCount={league.teams?.length || 0}
+        maxTeams={league.teamCount}
+        leagueType={league.leagueType}
+        isCommissioner={isCommissioner}
+        hasTeam={true}
+      />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="grid gap-6">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Keeper</h2>
+            <p className="text-muted-foreground">
+              Wähle bis zu {keeperData.maxKeepers} Spieler, die du in die nächste Saison mitnimmst.
+              Ein Keeper kostet deinen Pick in der Runde, in der er gedraftet wurde – jedes weitere Jahr eine Runde früher.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="w-5 h-5" />
+                Keeper ({keeperData.keeperCount}/{keeperData.maxKeepers})
+              </CardTitle>
+              <CardDescription>
+                {keeperData.keeperMode === "keeper"
+                  ? "Keeper werden beim Erneuern der Liga übernommen."
+                  : "Diese Liga nutzt keine Keeper."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Spieler</TableHead>
+                    <TableHead>Typ</TableHead>
+                    <TableHead>Draft-Runde</TableHead>
+                    <TableHead>Jahre gehalten</TableHead>
+                    <TableHead>Kosten</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={`${row.assetType}-${row.assetId}`}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>{ASSET_TYPE_LABELS[row.assetType] || row.assetType}</TableCell>
+                      <TableCell>{row.originalRound}</TableCell>
+                      <TableCell>{row.yearsKept}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">Runde {row.roundCost}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.isKeeper ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isPending}
+                            onClick={() =>
+                              removeKeeper.mutate({
+                                leagueId,
+                                assetType: row.assetType as AssetType,
+                                assetId: row.assetId,
+                              })
+                            }
+                          >
+                            Entfernen
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            disabled={isPending || limitReached || keeperData.keeperMode !== "keeper"}
+                            onClick={() =>
+                              designateKeeper.mutate({
+                                leagueId,
+                                assetType: row.assetType as AssetType,
+                                assetId: row.assetId,
+                              })
+                            }
+                          >
+                            Behalten
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -54,6 +54,16 @@ export default function LeagueDetail() {
     },
   });
 
+  const renewLeagueMutation = trpc.league.renewLeague.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Liga erneuert! ${result.keptAssets} Spieler übernommen.`);
+      setLocation(`/league/${result.leagueId}`);
+    },
+    onError: (error) => {
+      toast.error(`Fehler beim Erneuern der Liga: ${error.message}`);
+    },
+  });
+
   // Safe derived state for hooks (handled safely even if league is undefined)
   const isCommissioner = league?.commissionerUserId === user?.id;
   const userTeam = league?.teams?.find((team: any) => team.userId === user?.id);
@@ -460,6 +470,17 @@ export default function LeagueDetail() {
                         <p className="text-xs text-muted-foreground text-center">
                           League is now active
                         </p>
+                        {league.leagueType === "season" && league.status === "complete" && (
+                          <Button
+                            variant="outline"
+                            className="w-full"
+                            onClick={() => renewLeagueMutation.mutate({ leagueId })}
+                            disabled={renewLeagueMutation.isPending}
+                          >
+                            <Trophy className="w-4 h-4 mr-2" />
+                            Liga für {league.seasonYear + 1} erneuern
+                          </Button>
+                        )}
                       </>
                     )}
                     <Button variant="outline" className="w-full" asChild>
@@ -502,6 +523,13 @@ export default function LeagueDetail() {
                           Waivers & Claims
                         </Link>
                       </Button>
+                      {league.keeperMode === "keeper" && (
+                        <Button variant="outline" className="w-full" asChild>
+                          <Link href={`${basePath}/keepers`}>
+                            Keeper festlegen
+                          </Link>
+                        </Button>
+                      )}
                       <Button variant="outline" className="w-full" asChild>
                         <Link href={`/team/${userTeam.id}`}>
                           Team verwalten
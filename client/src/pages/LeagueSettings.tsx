@@ -0,0 +1,774 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { LeagueNav } from "@/components/LeagueNav";
+import { ScoringRulesEditor } from "@/components/ScoringRulesEditor";
+import { SeasonScheduleCard } from "@/components/SeasonScheduleCard";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowRightLeft, ArrowUp, Calculator, ClipboardList, ListOrdered, Loader2, Network, Plus, Trophy, X } from "lucide-react";
+import { toast } from "sonner";
+import { DEFAULT_SCORING_CONFIG, type LeagueScoringConfig } from "@shared/scoringConfig";
+import {
+  DEFAULT_TIEBREAKERS,
+  TIEBREAKER_LABELS,
+  type StandingsTiebreaker,
+} from "@shared/tiebreakers";
+
+const WEEKDAY_LABELS = ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"];
+
+export default function LeagueSettings() {
+  const { id } = useParams();
+  const leagueId = parseInt(id!);
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+
+  const { data: league, isLoading } = trpc.league.getById.useQuery({ leagueId });
+
+  const [scoringType, setScoringType] = useState<"standard" | "custom">("standard");
+  const [scoringConfig, setScoringConfig] = useState<LeagueScoringConfig>(DEFAULT_SCORING_CONFIG);
+
+  const [tradeReviewHours, setTradeReviewHours] = useState(0);
+  const [playoffSettings, setPlayoffSettings] = useState({
+    playoffChampionshipWeeks: 1 as 1 | 2,
+    playoffConsolation: "none" as "none" | "consolation" | "toilet_bowl",
+    playMedian: false,
+    byeMedianGame: false,
+  });
+  const [waiverSettings, setWaiverSettings] = useState({
+    waiverType: "rolling" as "rolling" | "reverse_standings",
+    waiverPeriodDays: 2,
+    waiverProcessDay: 3,
+    waiverProcessHour: 10,
+    faabEnabled: true,
+    faabBudget: 100,
+    faabMinBid: 1,
+    faabAllowZeroBids: true,
+    faabTiebreaker: "priority" as "priority" | "earliest",
+  });
+  const [tiebreakers, setTiebreakers] = useState<StandingsTiebreaker[]>(DEFAULT_TIEBREAKERS);
+
+  const { data: divisions } = trpc.division.getDivisions.useQuery({ leagueId });
+  const [divisionNames, setDivisionNames] = useState<string[]>([]);
+  const [teamDivisions, setTeamDivisions] = useState<Record<number, number>>({});
+
+  useEffect(() => {
+    if (!league) return;
+    setScoringType(league.scoringType === "custom" ? "custom" : "standard");
+    setScoringConfig(league.scoringRules);
+    setTiebreakers(league.tiebreakerOrder);
+    setTradeReviewHours(league.tradeReviewHours);
+    setPlayoffSettings({
+      playoffChampionshipWeeks: league.playoffChampionshipWeeks === 2 ? 2 : 1,
+      playoffConsolation:
+        league.playoffConsolation === "consolation" || league.playoffConsolation === "toilet_bowl"
+          ? league.playoffConsolation
+          : "none",
+      playMedian: league.playMedian,
+      byeMedianGame: league.byeMedianGame,
+    });
+    setWaiverSettings({
+      waiverType: league.waiverType === "reverse_standings" ? "reverse_standings" : "rolling",
+      waiverPeriodDays: league.waiverPeriodDays,
+      waiverProcessDay: league.waiverProcessDay,
+      waiverProcessHour: league.waiverProcessHour,
+      faabEnabled: league.faabEnabled,
+      faabBudget: league.faabBudget,
+      faabMinBid: league.faabMinBid,
+      faabAllowZeroBids: league.faabAllowZeroBids,
+      faabTiebreaker: league.faabTiebreaker === "earliest" ? "earliest" : "priority",
+    });
+  }, [
+    league?.id,
+    league?.scoringType,
+    league?.tiebreakerOrder.join(),
+    league?.tradeReviewHours,
+    league?.playoffChampionshipWeeks,
+    league?.playoffConsolation,
+    league?.playMedian,
+    league?.byeMedianGame,
+    league?.waiverType,
+    league?.waiverPeriodDays,
+    league?.waiverProcessDay,
+    league?.waiverProcessHour,
+    league?.faabEnabled,
+    league?.faabBudget,
+    league?.faabMinBid,
+    league?.faabAllowZeroBids,
+    league?.faabTiebreaker,
+  ]);
+
+  useEffect(() => {
+    if (!divisions) return;
+    setDivisionNames(divisions.map((division) => division.name));
+    const assignments: Record<number, number> = {};
+    divisions.forEach((division, index) => {
+      division.teams.forEach((team) => {
+        assignments[team.id] = index;
+      });
+    });
+    setTeamDivisions(assignments);
+  }, [divisions]);
+
+  const updateSettings = trpc.league.updateSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Einstellungen gespeichert");
+      utils.league.getById.invalidate({ leagueId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setDivisions = trpc.division.setDivisions.useMutation({
+    onSuccess: () => {
+      toast.success("Divisionen gespeichert");
+      utils.division.getDivisions.invalidate({ leagueId });
+      utils.league.getById.invalidate({ leagueId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !league) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const isCommissioner = league.commissionerUserId === user?.id;
+
+  const handleSave = () => {
+    updateSettings.mutate({
+      leagueId,
+      scoringType,
+      ...(scoringType === "custom" ? { scoringConfig } : {}),
+    });
+  };
+
+  const moveTiebreaker = (index: number, offset: number) => {
+    const next = [...tiebreakers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setTiebreakers(next);
+  };
+
+  const unusedTiebreakers = (Object.keys(TIEBREAKER_LABELS) as StandingsTiebreaker[]).filter(
+    (rule) => !tiebreakers.includes(rule)
+  );
+
+  const handleDivisionCount = (value: string) => {
+    const count = parseInt(value);
+    setDivisionNames((names) =>
+      Array.from({ length: count }, (_, index) => names[index] ?? `Division ${index + 1}`)
+    );
+    // Spread teams evenly over the new divisions
+    setTeamDivisions(
+      Object.fromEntries((league.teams ?? []).map((team, index) => [team.id, count > 0 ? index % count : 0]))
+    );
+  };
+
+  const handleSaveDivisions = () => {
+    setDivisions.mutate({
+      leagueId,
+      divisions: divisionNames.map((name, index) => ({
+        name,
+        teamIds: (league.teams ?? [])
+          .filter((team) => teamDivisions[team.id] === index)
+          .map((team) => team.id),
+      })),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <LeagueNav
+        leagueId={leagueId}
+        leagueName={league.name}
+        teamCount={league.teams?.length || 0}
+        maxTeams={league.teamCount}
+        leagueType={league.leagueType}
+        isCommissioner={isCommissioner}
+        hasTeam={league.isMember}
+      />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="grid gap-6">
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Einstellungen</h2>
+            <p className="text-muted-foreground">
+              {isCommissioner
+                ? "Nur der Commissioner kann die Liga-Einstellungen ändern."
+                : "Die Regeln dieser Liga. Änderungen kann nur der Commissioner vornehmen."}
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Punktesystem
+              </CardTitle>
+              <CardDescription>
+                Änderungen gelten ab der nächsten Punkteberechnung.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="scoringType">Regeln</Label>
+                <Select
+                  value={scoringType}
+                  disabled={!isCommissioner}
+                  onValueChange={(value) => setScoringType(value as "standard" | "custom")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    <SelectItem value="custom">Eigene Regeln</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <ScoringRulesEditor
+                value={scoringType === "custom" ? scoringConfig : DEFAULT_SCORING_CONFIG}
+                onChange={setScoringConfig}
+                disabled={!isCommissioner || scoringType !== "custom"}
+              />
+
+              {isCommissioner && (
+                <Button onClick={handleSave} disabled={updateSettings.isPending}>
+                  {updateSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Speichern
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {league.leagueType !== "challenge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ArrowRightLeft className="w-5 h-5" />
+                  Trades
+                </CardTitle>
+                <CardDescription>
+                  Angenommene Trades werden erst nach der Prüfphase ausgeführt. In dieser Zeit können die
+                  übrigen Manager per Mehrheit ein Veto einlegen, der Commissioner jederzeit.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tradeReviewHours">Prüfphase (Stunden)</Label>
+                  <Input
+                    id="tradeReviewHours"
+                    type="number"
+                    min={0}
+                    max={72}
+                    disabled={!isCommissioner}
+                    value={tradeReviewHours}
+                    onChange={(e) => setTradeReviewHours(Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                  <p className="text-[10px] text-muted-foreground">0 führt Trades sofort aus</p>
+                </div>
+
+                {isCommissioner && (
+                  <Button
+                    onClick={() => updateSettings.mutate({ leagueId, tradeReviewHours })}
+                    disabled={updateSettings.isPending}
+                  >
+                    {updateSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Trade-Regeln speichern
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {league.leagueType !== "challenge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="w-5 h-5" />
+                  Waiver
+                </CardTitle>
+                <CardDescription>
+                  Waiver-Claims werden automatisch am gewählten Tag verarbeitet (Uhrzeit MEZ). Abgegebene Assets
+                  bleiben für die Waiver-Periode gesperrt, danach kann sie jeder sofort als Free Agent holen.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Waiver-Reihenfolge</Label>
+                    <Select
+                      value={waiverSettings.waiverType}
+                      disabled={!isCommissioner}
+                      onValueChange={(value) =>
+                        setWaiverSettings({ ...waiverSettings, waiverType: value as "rolling" | "reverse_standings" })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rolling">Rollierend</SelectItem>
+                        <SelectItem value="reverse_standings">Umgekehrte Tabelle</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-[10px] text-muted-foreground">
+                      Nach jedem erfolgreichen Claim rutscht das Team ans Ende
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="waiverPeriodDays">Waiver-Periode (Tage)</Label>
+                    <Input
+                      id="waiverPeriodDays"
+                      type="number"
+                      min={0}
+                      max={7}
+                      disabled={!isCommissioner}
+                      value={waiverSettings.waiverPeriodDays}
+                      onChange={(e) =>
+                        setWaiverSettings({
+                          ...waiverSettings,
+                          waiverPeriodDays: Math.min(7, Math.max(0, parseInt(e.target.value) || 0)),
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Verarbeitungstag</Label>
+                    <Select
+                      value={waiverSettings.waiverProcessDay.toString()}
+                      disabled={!isCommissioner}
+                      onValueChange={(value) =>
+                        setWaiverSettings({ ...waiverSettings, waiverProcessDay: parseInt(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <SelectItem key={day} value={day.toString()}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="waiverProcessHour">Uhrzeit (Stunde)</Label>
+                    <Input
+                      id="waiverProcessHour"
+                      type="number"
+                      min={0}
+                      max={23}
+                      disabled={!isCommissioner}
+                      value={waiverSettings.waiverProcessHour}
+                      onChange={(e) =>
+                        setWaiverSettings({
+                          ...waiverSettings,
+                          waiverProcessHour: Math.min(23, Math.max(0, parseInt(e.target.value) || 0)),
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-4 rounded-md border p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="faabEnabled">FAAB-Gebote</Label>
+                      <p className="text-[10px] text-muted-foreground">
+                        Verdeckte Gebote aus dem Saisonbudget. Ohne FAAB entscheidet nur die Waiver-Reihenfolge.
+                      </p>
+                    </div>
+                    <Switch
+                      id="faabEnabled"
+                      checked={waiverSettings.faabEnabled}
+                      disabled={!isCommissioner}
+                      onCheckedChange={(checked) => setWaiverSettings({ ...waiverSettings, faabEnabled: checked })}
+                    />
+                  </div>
+
+                  {waiverSettings.faabEnabled && (
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="faabBudget">Saisonbudget</Label>
+                        <Input
+                          id="faabBudget"
+                          type="number"
+                          min={0}
+                          max={1000}
+                          disabled={!isCommissioner}
+                          value={waiverSettings.faabBudget}
+                          onChange={(e) =>
+                            setWaiverSettings({
+                              ...waiverSettings,
+                              faabBudget: Math.min(1000, Math.max(0, parseInt(e.target.value) || 0)),
+                            })
+                          }
+                        />
+                        <p className="text-[10px] text-muted-foreground">
+                          Vor Saisonstart erhalten alle Teams sofort das neue Budget, sonst gilt es ab der nächsten Saison
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="faabMinBid">Mindestgebot</Label>
+                        <Input
+                          id="faabMinBid"
+                          type="number"
+                          min={1}
+                          max={100}
+                          disabled={!isCommissioner}
+                          value={waiverSettings.faabMinBid}
+                          onChange={(e) =>
+                            setWaiverSettings({
+                              ...waiverSettings,
+                              faabMinBid: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)),
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Gleichstand bei Geboten</Label>
+                        <Select
+                          value={waiverSettings.faabTiebreaker}
+                          disabled={!isCommissioner}
+                          onValueChange={(value) =>
+                            setWaiverSettings({ ...waiverSettings, faabTiebreaker: value as "priority" | "earliest" })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="priority">Waiver-Reihenfolge</SelectItem>
+                            <SelectItem value="earliest">Frühestes Gebot</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center justify-between gap-4 pt-6">
+                        <Label htmlFor="faabAllowZeroBids">$0-Gebote erlauben</Label>
+                        <Switch
+                          id="faabAllowZeroBids"
+                          checked={waiverSettings.faabAllowZeroBids}
+                          disabled={!isCommissioner}
+                          onCheckedChange={(checked) =>
+                            setWaiverSettings({ ...waiverSettings, faabAllowZeroBids: checked })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {isCommissioner && (
+                  <Button
+                    onClick={() => updateSettings.mutate({ leagueId, ...waiverSettings })}
+                    disabled={updateSettings.isPending}
+                  >
+                    {updateSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Waiver-Regeln speichern
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {league.leagueType !== "challenge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="w-5 h-5" />
+                  Playoffs
+                </CardTitle>
+                <CardDescription>
+                  Nach der regulären Saison wird der Baum automatisch gesetzt und jede Runde angesetzt, sobald die
+                  vorige entschieden ist. Ist die Playoff-Anzahl keine Zweierpotenz, erhalten die besten Seeds ein Freilos.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Finale</Label>
+                    <Select
+                      value={playoffSettings.playoffChampionshipWeeks.toString()}
+                      disabled={!isCommissioner}
+                      onValueChange={(value) =>
+                        setPlayoffSettings({ ...playoffSettings, playoffChampionshipWeeks: value === "2" ? 2 : 1 })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">Eine Woche</SelectItem>
+                        <SelectItem value="2">Zwei Wochen (Punkte addiert)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Ausgeschiedene Teams</Label>
+                    <Select
+                      value={playoffSettings.playoffConsolation}
+                      disabled={!isCommissioner}
+                      onValueChange={(value) =>
+                        setPlayoffSettings({
+                          ...playoffSettings,
+                          playoffConsolation: value as "none" | "consolation" | "toilet_bowl",
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Saison beendet</SelectItem>
+                        <SelectItem value="consolation">Trostrunde (Sieger kommen weiter)</SelectItem>
+                        <SelectItem value="toilet_bowl">Toilet Bowl (Verlierer kommen weiter)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-[10px] text-muted-foreground">
+                      Gilt für Teams, die die Playoffs verpassen
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="playMedian">Gegen den Median spielen</Label>
+                    <p className="text-[10px] text-muted-foreground">
+                      Jedes Team spielt in der regulären Saison zusätzlich gegen den Median-Score der Woche und erhält
+                      einen zweiten Sieg oder eine zweite Niederlage
+                    </p>
+                  </div>
+                  <Switch
+                    id="playMedian"
+                    checked={playoffSettings.playMedian}
+                    disabled={!isCommissioner}
+                    onCheckedChange={(checked) => setPlayoffSettings({ ...playoffSettings, playMedian: checked })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="byeMedianGame">Spielfrei gegen den Median</Label>
+                    <p className="text-[10px] text-muted-foreground">
+                      Bei ungerader Teamanzahl spielt das spielfreie Team gegen den Median-Score der Woche statt
+                      auszusetzen
+                    </p>
+                  </div>
+                  <Switch
+                    id="byeMedianGame"
+                    checked={playoffSettings.byeMedianGame}
+                    disabled={!isCommissioner || playoffSettings.playMedian}
+                    onCheckedChange={(checked) => setPlayoffSettings({ ...playoffSettings, byeMedianGame: checked })}
+                  />
+                </div>
+
+                {isCommissioner && (
+                  <Button
+                    onClick={() => updateSettings.mutate({ leagueId, ...playoffSettings })}
+                    disabled={updateSettings.isPending}
+                  >
+                    {updateSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Playoff-Regeln speichern
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {league.leagueType !== "challenge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ListOrdered className="w-5 h-5" />
+                  Tiebreaker
+                </CardTitle>
+                <CardDescription>
+                  Entscheidet bei gleicher Bilanz über Tabellenplatz und Playoff-Seeding, von oben nach unten.
+                  Ein Münzwurf entscheidet immer als Letztes. Siege gegen den Median zählen nur, wenn die Liga
+                  gegen den Median spielt.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {tiebreakers.map((rule, index) => (
+                    <div key={rule} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                      <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                      <span className="flex-1">{TIEBREAKER_LABELS[rule]}</span>
+                      {isCommissioner && (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={index === 0}
+                            onClick={() => moveTiebreaker(index, -1)}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={index === tiebreakers.length - 1}
+                            onClick={() => moveTiebreaker(index, 1)}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={tiebreakers.length === 1}
+                            onClick={() => setTiebreakers(tiebreakers.filter((r) => r !== rule))}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {isCommissioner && unusedTiebreakers.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {unusedTiebreakers.map((rule) => (
+                      <Button
+                        key={rule}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTiebreakers([...tiebreakers, rule])}
+                      >
+                        <Plus className="w-3 h-3 mr-1" />
+                        {TIEBREAKER_LABELS[rule]}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {isCommissioner && (
+                  <Button
+                    onClick={() => updateSettings.mutate({ leagueId, tiebreakers })}
+                    disabled={updateSettings.isPending}
+                  >
+                    {updateSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Tiebreaker speichern
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {league.leagueType !== "challenge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="w-5 h-5" />
+                  Divisionen
+                </CardTitle>
+                <CardDescription>
+                  Teams spielen zweimal gegen ihre Division. Divisionssieger sind sicher in den Playoffs.
+                  Divisionen sind fest, sobald der Spielplan erstellt wurde.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="divisionCount">Anzahl</Label>
+                  <Select
+                    value={divisionNames.length.toString()}
+                    disabled={!isCommissioner}
+                    onValueChange={handleDivisionCount}
+                  >
+                    <SelectTrigger id="divisionCount">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Keine Divisionen</SelectItem>
+                      <SelectItem value="2">2 Divisionen</SelectItem>
+                      <SelectItem value="3">3 Divisionen</SelectItem>
+                      <SelectItem value="4">4 Divisionen</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {divisionNames.length > 0 && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      {divisionNames.map((name, index) => (
+                        <div key={index} className="space-y-1">
+                          <span className="text-xs text-muted-foreground">Name Division {index + 1}</span>
+                          <Input
+                            value={name}
+                            maxLength={100}
+                            disabled={!isCommissioner}
+                            onChange={(e) =>
+                              setDivisionNames((names) =>
+                                names.map((current, i) => (i === index ? e.target.value : current))
+                              )
+                            }
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Teams</Label>
+                      {(league.teams ?? []).map((team) => (
+                        <div key={team.id} className="flex items-center justify-between gap-4 text-sm">
+                          <span>{team.name}</span>
+                          <Select
+                            value={(teamDivisions[team.id] ?? 0).toString()}
+                            disabled={!isCommissioner}
+                            onValueChange={(value) =>
+                              setTeamDivisions((current) => ({ ...current, [team.id]: parseInt(value) }))
+                            }
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {divisionNames.map((name, index) => (
+                                <SelectItem key={index} value={index.toString()}>
+                                  {name || `Division ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {isCommissioner && (
+                  <Button onClick={handleSaveDivisions} disabled={setDivisions.isPending}>
+                    {setDivisions.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Divisionen speichern
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {league.leagueType === "season" && isCommissioner && <SeasonScheduleCard leagueId={leagueId} />}
+        </div>
+      </main>
+    </div>
+  );
+}
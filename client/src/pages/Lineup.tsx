@@ -1,9 +1,10 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { useParams, useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
-import { Loader2, ArrowLeft, Lock, Activity } from "lucide-react";
+import { Loader2, ArrowLeft, Lock, Activity, Wand2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
 import { getLoginUrl } from "@/const";
 import LineupEditor from "@/components/LineupEditor";
 import ScoringCard, { adaptLegacyData } from "@/components/ScoringCard";
@@ -23,7 +24,7 @@ export default function Lineup() {
     { enabled: !!id && isAuthenticated }
   );
 
-  const { data: myTeam, isLoading: teamLoading } = trpc.league.getMyTeam.useQuery(
+  const { data: myTeam, isLoading: teamLoading, refetch: refetchTeam } = trpc.league.getMyTeam.useQuery(
     { leagueId },
     { enabled: !!id && isAuthenticated }
   );
@@ -33,7 +34,12 @@ export default function Lineup() {
   const currentWeek = league?.currentWeek || 1;
 
   // Fetch weekly lineup
-  const { data: weeklyLineup, isLoading: lineupLoading, refetch: refetchLineup } = trpc.lineup.getWeeklyLineup.useQuery(
+  const {
+    data: weeklyLineup,
+    dataUpdatedAt: lineupUpdatedAt,
+    isLoading: lineupLoading,
+    refetch: refetchLineup,
+  } = trpc.lineup.getWeeklyLineup.useQuery(
     { teamId: myTeam?.id || 0, year: currentYear, week: currentWeek },
     { enabled: !!myTeam && !!league }
   );
@@ -63,9 +69,13 @@ export default function Lineup() {
     },
   });
 
-  const toggleLockMutation = trpc.lineup.toggleLock.useMutation({
-    onSuccess: () => {
-      toast.success("Lineup-Status geändert!");
+  const optimizeLineupMutation = trpc.lineup.optimizeLineup.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.changedSlots.length > 0
+          ? `Lineup optimiert: ${result.changedSlots.length} Position(en) geändert, ${result.projectedPoints} projizierte Punkte`
+          : "Lineup ist bereits optimal!"
+      );
       refetchLineup();
     },
     onError: (error) => {
@@ -73,6 +83,16 @@ export default function Lineup() {
     },
   });
 
+  const setAutoManageMutation = trpc.lineup.setAutoManage.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.autoManageLineup ? "Auto-Manage aktiviert!" : "Auto-Manage deaktiviert!");
+      refetchTeam();
+    },
+    onError: (error) => {
+      toast.error("Fehler: " + error.message);
+    },
+  });
+
   useEffect(() => {
     if (league?.leagueType === "challenge") {
       setLocation(`/challenge/${leagueId}`);
@@ -163,7 +183,40 @@ export default function Lineup() {
           </TabsList>
           
           <TabsContent value="lineup">
+            <Card className="mb-6">
+              <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-4 py-4">
+                <div>
+                  <p className="font-semibold text-foreground">Lineup Optimizer</p>
+                  <p className="text-sm text-muted-foreground">
+                    Starts the players with the best projected points from recent daily stats and trends. Locked slots stay as they are.
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <Switch
+                      checked={myTeam.autoManageLineup}
+                      disabled={setAutoManageMutation.isPending}
+                      onCheckedChange={(enabled) => setAutoManageMutation.mutate({ teamId: myTeam.id, enabled })}
+                    />
+                    Auto-manage weekly
+                  </label>
+                  <Button
+                    size="sm"
+                    onClick={() => optimizeLineupMutation.mutate({ teamId: myTeam.id, year: currentYear, week: currentWeek })}
+                    disabled={optimizeLineupMutation.isPending}
+                  >
+                    {optimizeLineupMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Wand2 className="w-4 h-4 mr-2" />
+                    )}
+                    Optimize Lineup
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
             <LineupEditor
+              key={lineupUpdatedAt}
               teamId={myTeam.id}
               year={currentYear}
               week={currentWeek}
@@ -178,13 +231,6 @@ export default function Lineup() {
                   lineup: updates,
                 });
               }}
-              onLockLineup={() => {
-                toggleLockMutation.mutate({
-                  teamId: myTeam.id,
-                  year: currentYear,
-                  week: currentWeek,
-                });
-              }}
             />
           </TabsContent>
           
@@ -295,6 +295,7 @@ export default function Matchups() {
                     }
                     week={week}
                     winnerId={matchup.winnerId || undefined}
+                    median={matchup.median}
                     onClick={() => {
                       toast.info("Matchup details coming soon!");
                     }}
@@ -0,0 +1,424 @@
+import { useEffect, useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Bot, Clock, Loader2, Play, RotateCcw, Search, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type AssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
+
+const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  manufacturer: "Manufacturer",
+  cannabis_strain: "Strain",
+  product: "Product",
+  pharmacy: "Pharmacy",
+  brand: "Brand",
+};
+
+const STRATEGY_LABELS: Record<string, string> = {
+  best_available: "Best available",
+  position_need: "Position need",
+  trend_chaser: "Trend chaser",
+};
+
+const VERDICT_STYLES: Record<string, string> = {
+  steal: "bg-green-500/15 text-green-500",
+  reach: "bg-red-500/15 text-red-500",
+  fair: "bg-muted text-muted-foreground",
+};
+
+/**
+ * MockDraft Component
+ *
+ * Offline practice draft against CPU teams with an accelerated pick clock.
+ * Nothing is saved to any league; a report grades the roster when the mock ends.
+ */
+export default function MockDraft() {
+  const initialTeams = parseInt(new URLSearchParams(window.location.search).get("teams") || "10");
+  const [teamCount, setTeamCount] = useState(Math.min(Math.max(initialTeams, 4), 16));
+  const [draftPosition, setDraftPosition] = useState(1);
+  const [draftType, setDraftType] = useState<"snake" | "linear">("snake");
+  const [pickSeconds, setPickSeconds] = useState(20);
+  const [mockId, setMockId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<AssetType | "all">("all");
+  const [now, setNow] = useState(Date.now());
+
+  const utils = trpc.useUtils();
+  const { data: state } = trpc.mockDraft.getState.useQuery(
+    { mockId: mockId! },
+    { enabled: !!mockId, refetchOnWindowFocus: false }
+  );
+  const { data: report, isLoading: reportLoading } = trpc.mockDraft.getReport.useQuery(
+    { mockId: mockId! },
+    { enabled: !!mockId && !!state?.completed }
+  );
+
+  const startMutation = trpc.mockDraft.start.useMutation({
+    onSuccess: (result) => {
+      utils.mockDraft.getState.setData({ mockId: result.id }, result);
+      setMockId(result.id);
+      setNow(Date.now());
+    },
+    onError: (error) => toast.error(error.message || "Failed to start the mock draft"),
+  });
+  const pickMutation = trpc.mockDraft.makePick.useMutation({
+    onSuccess: (result) => {
+      utils.mockDraft.getState.setData({ mockId: result.id }, result);
+      setNow(Date.now());
+    },
+    onError: (error) => toast.error(error.message || "Failed to make the pick"),
+  });
+
+  // Local countdown between server reads; when it runs out the server makes the pick
+  const [clockSetAt, setClockSetAt] = useState(Date.now());
+  useEffect(() => {
+    setClockSetAt(Date.now());
+  }, [state?.currentPickNumber, state?.secondsLeft]);
+  useEffect(() => {
+    if (!state?.isUserTurn) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [state?.isUserTurn]);
+
+  const secondsLeft = state?.isUserTurn && state.secondsLeft !== null
+    ? Math.max(0, state.secondsLeft - Math.floor((now - clockSetAt) / 1000))
+    : null;
+
+  useEffect(() => {
+    if (secondsLeft === 0 && mockId) {
+      const timeout = setTimeout(() => utils.mockDraft.getState.invalidate({ mockId }), 1000);
+      return () => clearTimeout(timeout);
+    }
+  }, [secondsLeft, mockId]);
+
+  const available = useMemo(() => {
+    if (!state) return [];
+    const term = search.trim().toLowerCase();
+    return state.available.filter(
+      (player) =>
+        (typeFilter === "all" || player.assetType === typeFilter) &&
+        (!term || player.name.toLowerCase().includes(term))
+    );
+  }, [state, search, typeFilter]);
+
+  const handleStart = () => {
+    startMutation.mutate({
+      teamCount,
+      draftPosition: Math.min(draftPosition, teamCount),
+      draftType,
+      pickSeconds,
+    });
+  };
+
+  const handleReset = () => {
+    setMockId(null);
+    setSearch("");
+    setTypeFilter("all");
+  };
+
+  if (!mockId || !state) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => window.history.back()} className="mb-4">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="w-5 h-5" />
+              Mock Draft
+            </CardTitle>
+            <CardDescription>
+              Practice against CPU drafters using the latest projections. Nothing is saved to your leagues.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Teams</span>
+                <select
+                  value={teamCount}
+                  onChange={(e) => setTeamCount(parseInt(e.target.value))}
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                >
+                  {Array.from({ length: 13 }, (_, i) => i + 4).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Your draft position</span>
+                <select
+                  value={Math.min(draftPosition, teamCount)}
+                  onChange={(e) => setDraftPosition(parseInt(e.target.value))}
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                >
+                  {Array.from({ length: teamCount }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Draft type</span>
+                <select
+                  value={draftType}
+                  onChange={(e) => setDraftType(e.target.value as "snake" | "linear")}
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                >
+                  <option value="snake">Snake</option>
+                  <option value="linear">Linear</option>
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Pick clock</span>
+                <select
+                  value={pickSeconds}
+                  onChange={(e) => setPickSeconds(parseInt(e.target.value))}
+                  className="w-full rounded-md border bg-background px-3 py-2"
+                >
+                  {[10, 20, 30, 60, 90].map((n) => (
+                    <option key={n} value={n}>{n}s</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <Button onClick={handleStart} disabled={startMutation.isPending} className="w-full" size="lg">
+              {startMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              Start mock draft
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const teamName = (slot: number) => state.teams.find((team) => team.slot === slot)?.name ?? `Team ${slot}`;
+  const userPicks = state.picks.filter((pick) => pick.slot === state.userSlot);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold headline-primary flex items-center gap-3">
+            <Bot className="w-8 h-8" />
+            Mock Draft
+          </h1>
+          <p className="text-muted-foreground">
+            {state.teams.length} teams · {state.draftType === "snake" ? "Snake" : "Linear"} · pick {state.userSlot}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {state.completed ? (
+            <Badge variant="default">Complete</Badge>
+          ) : state.isUserTurn ? (
+            <Badge className={cn("text-base px-3 py-1", secondsLeft !== null && secondsLeft <= 5 && "bg-red-500")}>
+              <Clock className="w-4 h-4 mr-1.5" />
+              Your pick · {secondsLeft ?? 0}s
+            </Badge>
+          ) : (
+            <Badge variant="secondary">{teamName(state.onTheClockSlot ?? 0)} is picking…</Badge>
+          )}
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            New mock
+          </Button>
+        </div>
+      </div>
+
+      {state.completed && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-yellow-500" />
+              Mock Draft Report
+            </CardTitle>
+            {report && (
+              <CardDescription>
+                Grade {report.grade} · {report.totalPoints} projected points · rank {report.rank} of {report.teams.length}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {reportLoading || !report ? (
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="grid gap-6 lg:grid-cols-2">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pick</TableHead>
+                      <TableHead>Player</TableHead>
+                      <TableHead className="text-right">Proj.</TableHead>
+                      <TableHead className="text-right">ADP</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.picks.map((pick) => (
+                      <TableRow key={pick.pickNumber}>
+                        <TableCell>{pick.round}.{pick.pickNumber}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{pick.name}</div>
+                          <div className="text-xs text-muted-foreground">{ASSET_TYPE_LABELS[pick.assetType]}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{pick.points}</TableCell>
+                        <TableCell className="text-right">{pick.adp ?? "–"}</TableCell>
+                        <TableCell>
+                          {pick.verdict && (
+                            <span className={cn("rounded px-2 py-0.5 text-xs font-semibold capitalize", VERDICT_STYLES[pick.verdict])}>
+                              {pick.verdict}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Strategy</TableHead>
+                      <TableHead className="text-right">Proj.</TableHead>
+                      <TableHead className="text-right">Grade</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.teams.map((team) => (
+                      <TableRow key={team.slot} className={cn(team.isUser && "bg-primary/10 font-semibold")}>
+                        <TableCell>{team.name}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {team.strategy ? STRATEGY_LABELS[team.strategy] : "–"}
+                        </TableCell>
+                        <TableCell className="text-right">{team.totalPoints}</TableCell>
+                        <TableCell className="text-right">{team.grade}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {!state.completed && (
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Available</CardTitle>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <div className="relative flex-1 min-w-[180px]">
+                  <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search players"
+                    className="pl-8"
+                  />
+                </div>
+                {(["all", ...Object.keys(ASSET_TYPE_LABELS)] as Array<AssetType | "all">).map((type) => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    variant={typeFilter === type ? "default" : "outline"}
+                    onClick={() => setTypeFilter(type)}
+                  >
+                    {type === "all" ? "All" : `${ASSET_TYPE_LABELS[type]} ${state.userPositionCounts[type]}/2`}
+                  </Button>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent className="max-h-[560px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Player</TableHead>
+                    <TableHead className="text-right">Proj.</TableHead>
+                    <TableHead className="text-right">Trend</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {available.map((player) => {
+                    const slotFull = state.userPositionCounts[player.assetType] >= 2;
+                    return (
+                      <TableRow key={`${player.assetType}-${player.id}`} className={cn(slotFull && "opacity-50")}>
+                        <TableCell>
+                          <div className="font-medium">{player.name}</div>
+                          <div className="text-xs text-muted-foreground">{ASSET_TYPE_LABELS[player.assetType]}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{player.points ?? 0}</TableCell>
+                        <TableCell className="text-right">×{player.trend.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            disabled={!state.isUserTurn || slotFull || pickMutation.isPending}
+                            onClick={() =>
+                              pickMutation.mutate({ mockId, assetType: player.assetType, assetId: player.id })
+                            }
+                          >
+                            Draft
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Your roster</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {userPicks.length === 0 && <p className="text-sm text-muted-foreground">No picks yet</p>}
+            {userPicks.map((pick) => (
+              <div key={pick.pickNumber} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="text-muted-foreground mr-2">{pick.round}.{pick.pickNumber}</span>
+                  {pick.name}
+                  {pick.autoPicked && <Badge variant="outline" className="ml-2 text-[10px]">auto</Badge>}
+                </div>
+                <span className="text-muted-foreground">{ASSET_TYPE_LABELS[pick.assetType]}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className={cn(state.completed && "lg:col-span-2")}>
+          <CardHeader>
+            <CardTitle className="text-lg">Draft board</CardTitle>
+          </CardHeader>
+          <CardContent className="max-h-[560px] overflow-y-auto space-y-1.5">
+            {[...state.picks].reverse().map((pick) => (
+              <div
+                key={pick.pickNumber}
+                className={cn("flex items-center justify-between text-sm", pick.slot === state.userSlot && "font-semibold")}
+              >
+                <div className="truncate">
+                  <span className="text-muted-foreground mr-2">{pick.pickNumber}.</span>
+                  {pick.name}
+                </div>
+                <span className="text-xs text-muted-foreground truncate ml-2">{teamName(pick.slot)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Search, Building2, Leaf, Package, UserCircle, ArrowUpDown, Gavel, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { LeagueNav } from "@/components/LeagueNav";
+import { useAssetProjections } from "@/hooks/useAssetProjections";
 import { useAuth } from "@/_core/hooks/useAuth";
 import {
   Dialog,
@@ -33,6 +34,7 @@ export default function Players() {
   const { id } = useParams();
   const leagueId = parseInt(id!);
   const { user } = useAuth();
+  const utils = trpc.useUtils();
   
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<AssetType | "all">("all");
@@ -43,6 +45,7 @@ export default function Players() {
   const [claimAsset, setClaimAsset] = useState<{type: AssetType, id: number, name: string} | null>(null);
   const [bidAmount, setBidAmount] = useState<string>("0");
   const [dropAssetId, setDropAssetId] = useState<string>("none");
+  const [claimGroup, setClaimGroup] = useState<string>("none");
 
   // Fetch League Data
   const { data: league } = trpc.league.getById.useQuery({ leagueId });
@@ -55,6 +58,16 @@ export default function Players() {
     { enabled: !!leagueId }
   );
 
+  // Assets still on waivers can only be claimed, everything else is a free agent
+  const { data: waiverStatus } = trpc.waiver.getWaiverStatus.useQuery(
+    { leagueId },
+    { enabled: !!leagueId }
+  );
+  const claimOnWaivers = !!claimAsset && !!waiverStatus?.onWaivers.some(
+    (hold) => hold.assetId === claimAsset.id
+      && (hold.assetType === claimAsset.type || (hold.assetType === "strain" && claimAsset.type === "cannabis_strain"))
+  );
+
   // Fetch Available Assets
   const limit = 50;
   const { data: manufacturers = [], isLoading: loadingMfg } = trpc.draft.getAvailableManufacturers.useQuery({
@@ -79,6 +92,14 @@ export default function Players() {
 
   const isLoading = loadingMfg || loadingStrains || loadingProducts || loadingPharmacies || loadingBrands;
 
+  const { getProjection } = useAssetProjections([
+    ...manufacturers.map((a) => ({ assetType: "manufacturer" as const, assetId: a.id })),
+    ...cannabisStrains.map((a) => ({ assetType: "cannabis_strain" as const, assetId: a.id })),
+    ...products.map((a) => ({ assetType: "product" as const, assetId: a.id })),
+    ...pharmacies.map((a) => ({ assetType: "pharmacy" as const, assetId: a.id })),
+    ...brands.map((a) => ({ assetType: "brand" as const, assetId: a.id })),
+  ]);
+
   // Mutations
   const createClaim = trpc.waiver.createClaim.useMutation({
     onSuccess: () => {
@@ -86,6 +107,20 @@ export default function Players() {
       setClaimAsset(null);
       setBidAmount("0");
       setDropAssetId("none");
+      setClaimGroup("none");
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    }
+  });
+
+  const addFreeAgent = trpc.waiver.addFreeAgent.useMutation({
+    onSuccess: () => {
+      toast.success(`${claimAsset?.name} added to your roster!`);
+      setClaimAsset(null);
+      setBidAmount("0");
+      setDropAssetId("none");
+      utils.roster.getMyRoster.invalidate({ leagueId });
     },
     onError: (error) => {
       toast.error(error.message);
@@ -97,6 +132,17 @@ export default function Players() {
 
     const dropId = dropAssetId === "none" ? undefined : parseInt(dropAssetId);
     const dropAsset = myRoster.find(a => a.assetId === dropId);
+
+    if (!claimOnWaivers) {
+      addFreeAgent.mutate({
+        leagueId,
+        addAssetType: claimAsset.type,
+        addAssetId: claimAsset.id,
+        dropAssetType: dropAsset ? dropAsset.assetType as AssetType : "none",
+        dropAssetId: dropAsset ? dropAsset.assetId : 0,
+      });
+      return;
+    }
     
     // Construct input
     const input: any = {
@@ -104,7 +150,8 @@ export default function Players() {
       teamId: userTeam.id,
       addAssetType: claimAsset.type,
       addAssetId: claimAsset.id,
-      bidAmount: parseInt(bidAmount) || 0,
+      bidAmount: waiverStatus?.faabEnabled === false ? 0 : parseInt(bidAmount) || 0,
+      claimGroup: claimGroup === "none" ? null : parseInt(claimGroup),
       dropAssetType: dropAsset ? dropAsset.assetType : "none",
       dropAssetId: dropAsset ? dropAsset.assetId : 0,
     };
@@ -224,19 +271,19 @@ export default function Players() {
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                   {(type === "all" || type === "manufacturer") && sortAssets(manufacturers).map(asset => (
-                    <AssetCard key={`mfg-${asset.id}`} asset={asset} type="manufacturer" onClaim={() => setClaimAsset({type: "manufacturer", id: asset.id, name: asset.name})} />
+                    <AssetCard key={`mfg-${asset.id}`} asset={asset} type="manufacturer" projection={getProjection("manufacturer", asset.id)} onClaim={() => setClaimAsset({type: "manufacturer", id: asset.id, name: asset.name})} />
                   ))}
                   {(type === "all" || type === "cannabis_strain") && sortAssets(cannabisStrains).map(asset => (
-                    <AssetCard key={`strain-${asset.id}`} asset={asset} type="cannabis_strain" onClaim={() => setClaimAsset({type: "cannabis_strain", id: asset.id, name: asset.name})} />
+                    <AssetCard key={`strain-${asset.id}`} asset={asset} type="cannabis_strain" projection={getProjection("cannabis_strain", asset.id)} onClaim={() => setClaimAsset({type: "cannabis_strain", id: asset.id, name: asset.name})} />
                   ))}
                   {(type === "all" || type === "product") && sortAssets(products).map(asset => (
-                    <AssetCard key={`prod-${asset.id}`} asset={asset} type="product" onClaim={() => setClaimAsset({type: "product", id: asset.id, name: asset.name})} />
+                    <AssetCard key={`prod-${asset.id}`} asset={asset} type="product" projection={getProjection("product", asset.id)} onClaim={() => setClaimAsset({type: "product", id: asset.id, name: asset.name})} />
                   ))}
                   {(type === "all" || type === "pharmacy") && sortAssets(pharmacies).map(asset => (
-                    <AssetCard key={`phm-${asset.id}`} asset={asset} type="pharmacy" onClaim={() => setClaimAsset({type: "pharmacy", id: asset.id, name: asset.name})} />
+                    <AssetCard key={`phm-${asset.id}`} asset={asset} type="pharmacy" projection={getProjection("pharmacy", asset.id)} onClaim={() => setClaimAsset({type: "pharmacy", id: asset.id, name: asset.name})} />
                   ))}
                   {(type === "all" || type === "brand") && sortAssets(brands).map(asset => (
-                    <AssetCard key={`brd-${asset.id}`} asset={asset} type="brand" onClaim={() => setClaimAsset({type: "brand", id: asset.id, name: asset.name})} />
+                    <AssetCard key={`brd-${asset.id}`} asset={asset} type="brand" projection={getProjection("brand", asset.id)} onClaim={() => setClaimAsset({type: "brand", id: asset.id, name: asset.name})} />
                   ))}
                 </div>
               )}
@@ -248,23 +295,54 @@ export default function Players() {
       <Dialog open={!!claimAsset} onOpenChange={(open) => !open && setClaimAsset(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Claim {claimAsset?.name}</DialogTitle>
+            <DialogTitle>{claimOnWaivers ? "Claim" : "Add"} {claimAsset?.name}</DialogTitle>
             <DialogDescription>
-              Submit a waiver claim for this asset. Highest bid wins.
+              {claimOnWaivers
+                ? "This asset is on waivers. Submit a waiver claim, highest bid wins."
+                : "This asset is a free agent. It joins your roster right away."}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-               <Label>FAAB Bid Amount (Remaining: ${userTeam?.faabBudget})</Label>
-               <Input 
-                 type="number" 
-                 value={bidAmount} 
-                 onChange={(e) => setBidAmount(e.target.value)}
-                 min="0"
-                 max={userTeam?.faabBudget || 0}
-               />
-            </div>
+            {claimOnWaivers && waiverStatus?.faabEnabled && (
+              <div className="space-y-2">
+                 <Label>FAAB Bid Amount (Remaining: ${userTeam?.faabBudget})</Label>
+                 <Input 
+                   type="number" 
+                   value={bidAmount} 
+                   onChange={(e) => setBidAmount(e.target.value)}
+                   min={waiverStatus.faabAllowZeroBids ? 0 : waiverStatus.faabMinBid}
+                   max={userTeam?.faabBudget || 0}
+                 />
+                 <p className="text-xs text-muted-foreground">
+                   Bids are blind. Minimum ${waiverStatus.faabMinBid}
+                   {waiverStatus.faabAllowZeroBids ? ", $0 bids allowed" : ""}. Ties go to{" "}
+                   {waiverStatus.faabTiebreaker === "earliest" ? "the earliest bid" : "the better waiver priority"}.
+                 </p>
+              </div>
+            )}
+
+            {claimOnWaivers && (
+              <div className="space-y-2">
+                <Label>Conditional Group (optional)</Label>
+                <Select value={claimGroup} onValueChange={setClaimGroup}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No group</SelectItem>
+                    {[1, 2, 3, 4, 5].map((group) => (
+                      <SelectItem key={group} value={group.toString()}>
+                        Group {group}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Only one claim per group can succeed. Later claims in a group only run if the earlier ones fail.
+                </p>
+              </div>
+            )}
 
             <div className="space-y-2">
               <Label>Drop Player (Required if roster full)</Label>
@@ -285,14 +363,20 @@ export default function Players() {
             
             <div className="bg-muted p-3 rounded-lg flex gap-2 text-sm text-muted-foreground">
                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
-               <p>Claims are processed automatically. If you win, the dropped player will be removed from your roster.</p>
+               <p>
+                 {claimOnWaivers
+                   ? `Claims are processed automatically${waiverStatus ? ` (next run ${new Date(waiverStatus.nextRunAt).toLocaleString()})` : ""}. If you win, the dropped player will be removed from your roster.`
+                   : "The dropped player goes on waivers and can only be claimed by other teams until the waiver period ends."}
+               </p>
             </div>
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setClaimAsset(null)}>Cancel</Button>
-            <Button onClick={handleClaimSubmit} disabled={createClaim.isPending}>
-              {createClaim.isPending ? "Submitting..." : "Submit Claim"}
+            <Button onClick={handleClaimSubmit} disabled={createClaim.isPending || addFreeAgent.isPending}>
+              {createClaim.isPending || addFreeAgent.isPending
+                ? "Submitting..."
+                : claimOnWaivers ? "Submit Claim" : "Add to Roster"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -301,7 +385,17 @@ export default function Players() {
   );
 }
 
-function AssetCard({ asset, type, onClaim }: { asset: any, type: AssetType, onClaim: () => void }) {
+function AssetCard({
+  asset,
+  type,
+  projection,
+  onClaim,
+}: {
+  asset: any;
+  type: AssetType;
+  projection?: { nextDayPoints: number; nextWeekPoints: number };
+  onClaim: () => void;
+}) {
   const getImageUrl = () => {
     switch (type) {
       case "manufacturer":
@@ -358,7 +452,7 @@ function AssetCard({ asset, type, onClaim }: { asset: any, type: AssetType, onCl
           </Button>
         </div>
         
-        <div className="grid grid-cols-2 gap-2 mt-4 text-sm">
+        <div className="grid grid-cols-3 gap-2 mt-4 text-sm">
           <div className="bg-muted/50 p-2 rounded">
             <p className="text-xs text-muted-foreground">Yesterday</p>
             <p className="font-bold">{asset.yesterdayPoints ?? asset.todayPoints ?? 0} pts</p>
@@ -367,6 +461,10 @@ function AssetCard({ asset, type, onClaim }: { asset: any, type: AssetType, onCl
             <p className="text-xs text-muted-foreground">Avg</p>
             <p className="font-bold">{asset.avgPoints?.toFixed(1) ?? "-"} pts</p>
           </div>
+          <div className="bg-muted/50 p-2 rounded" title={projection ? `Tomorrow: ${projection.nextDayPoints} pts` : undefined}>
+            <p className="text-xs text-muted-foreground">Proj. Week</p>
+            <p className="font-bold">{projection ? `${projection.nextWeekPoints} pts` : "-"}</p>
+          </div>
         </div>
       </CardContent>
     </Card>
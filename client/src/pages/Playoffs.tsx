@@ -5,42 +5,71 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Trophy, Crown, Award } from "lucide-react";
 import { toast } from "sonner";
 
 /**
  * Playoffs Page
  * 
- * Displays playoff bracket with matchups
+ * Displays the playoff bracket plus consolation / toilet bowl brackets
  * Shows championship results
  */
 
+type BracketSlot = {
+  slot: number;
+  team1?: { teamId: number; seed: number };
+  team2?: { teamId: number; seed: number };
+  team1Name: string | null;
+  team2Name: string | null;
+  team1Score: number;
+  team2Score: number;
+  isBye: boolean;
+  winnerId?: number;
+  advancingTeamId?: number;
+  status: string;
+};
+
 export default function Playoffs() {
   // Route is defined as `/league/:id/playoffs` and `/challenge/:id/playoffs`
   // so we need to read the `id` param and convert it to a number.
   const { id } = useParams<{ id: string }>();
   const leagueId = Number(id);
-  const [year, setYear] = useState(2025);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
 
   const { data: league } = trpc.league.getById.useQuery({ leagueId });
+  const year = selectedYear ?? league?.seasonYear ?? new Date().getFullYear();
 
-  const { data: bracket, isLoading, refetch } = trpc.playoff.getPlayoffBracket.useQuery({
+  const { data: brackets, isLoading, refetch } = trpc.playoff.getPlayoffBracket.useQuery({
     leagueId: Number(leagueId),
     year,
-    playoffStartWeek: league?.playoffStartWeek || 19,
   }, {
     enabled: !!league,
   });
 
-  const { data: summary } = trpc.playoff.getPlayoffSummary.useQuery({
+  const { data: summary, refetch: refetchSummary } = trpc.playoff.getPlayoffSummary.useQuery({
     leagueId: Number(leagueId),
     year,
+  }, {
+    enabled: !!league,
   });
 
   const generateBracket = trpc.playoff.generatePlayoffBracket.useMutation({
     onSuccess: () => {
       toast.success("Playoff bracket generated!");
       refetch();
+      refetchSummary();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const advanceRound = trpc.playoff.advancePlayoffRound.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      refetch();
+      refetchSummary();
     },
     onError: (error) => {
       toast.error(error.message);
@@ -49,12 +78,7 @@ export default function Playoffs() {
 
   const handleGenerateBracket = () => {
     if (!league) return;
-    generateBracket.mutate({
-      leagueId: Number(leagueId),
-      year,
-      playoffStartWeek: league.playoffStartWeek,
-      playoffTeams: league.playoffTeams,
-    });
+    generateBracket.mutate({ leagueId: Number(leagueId) });
   };
 
   const getStatusBadge = (status: string) => {
@@ -72,6 +96,42 @@ export default function Playoffs() {
     }
   };
 
+  const renderTeamRow = (
+    matchup: BracketSlot,
+    team: BracketSlot["team1"],
+    teamName: string | null,
+    score: number,
+    isToiletBowl: boolean
+  ) => {
+    const advances = !!team && matchup.advancingTeamId === team.teamId;
+    return (
+      <div className={`flex items-center justify-between p-3 rounded ${
+        advances && !matchup.isBye
+          ? isToiletBowl ? 'bg-red-50 dark:bg-red-950' : 'bg-green-50 dark:bg-green-950'
+          : 'bg-gray-50 dark:bg-gray-900'
+      }`}>
+        <div className="flex items-center gap-2">
+          {team && (
+            <Badge variant="outline" className="w-8 h-8 flex items-center justify-center">
+              {team.seed}
+            </Badge>
+          )}
+          <span className="font-semibold">
+            {teamName || (matchup.isBye ? 'BYE' : 'TBD')}
+          </span>
+          {team && matchup.winnerId === team.teamId && (
+            <Trophy className="h-4 w-4 text-yellow-500" />
+          )}
+        </div>
+        <span className="text-2xl font-bold">
+          {matchup.status !== 'pending' && !matchup.isBye ? score : '-'}
+        </span>
+      </div>
+    );
+  };
+
+  const yearOptions = league ? [league.seasonYear - 1, league.seasonYear] : [year];
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -102,16 +162,17 @@ export default function Playoffs() {
           <CardTitle>Playoff Controls</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center gap-4">
             <div className="flex items-center gap-2">
               <label className="text-sm font-medium">Year:</label>
-              <Select value={year.toString()} onValueChange={(v) => setYear(Number(v))}>
+              <Select value={year.toString()} onValueChange={(v) => setSelectedYear(Number(v))}>
                 <SelectTrigger className="w-[120px]">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="2024">2024</SelectItem>
-                  <SelectItem value="2025">2025</SelectItem>
+                  {yearOptions.map((option) => (
+                    <SelectItem key={option} value={option.toString()}>{option}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -120,16 +181,31 @@ export default function Playoffs() {
               Refresh
             </Button>
 
-            {league?.isCommissioner && !bracket?.length && (
+            {league?.isCommissioner && !brackets?.length && (
               <Button 
                 onClick={handleGenerateBracket}
-                disabled={generateBracket.isLoading}
+                disabled={generateBracket.isPending}
               >
-                {generateBracket.isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {generateBracket.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Generate Playoff Bracket
               </Button>
             )}
+
+            {league?.isCommissioner && !!brackets?.length && !summary?.isComplete && (
+              <Button
+                variant="outline"
+                onClick={() => advanceRound.mutate({ leagueId: Number(leagueId) })}
+                disabled={advanceRound.isPending}
+              >
+                {advanceRound.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Advance Now
+              </Button>
+            )}
           </div>
+          <p className="text-sm text-muted-foreground mt-3">
+            The bracket is seeded automatically when the regular season is final, and each round is scheduled
+            as soon as the previous one is decided.
+          </p>
         </CardContent>
       </Card>
 
@@ -147,7 +223,12 @@ export default function Playoffs() {
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">Rounds</div>
-                <div className="text-2xl font-bold">{summary.rounds}</div>
+                <div className="text-2xl font-bold">
+                  {summary.rounds}
+                  {summary.championshipWeeks === 2 && (
+                    <span className="text-sm font-normal text-muted-foreground"> (2-week final)</span>
+                  )}
+                </div>
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">Matchups</div>
@@ -183,105 +264,104 @@ export default function Playoffs() {
                 </div>
               </div>
             )}
+
+            {(summary.consolationWinner || summary.toiletBowlLoser) && (
+              <div className="mt-4 grid grid-cols-2 gap-4 text-center">
+                {summary.consolationWinner && (
+                  <div className="p-3 border rounded-lg">
+                    <div className="text-sm text-muted-foreground">Consolation Winner</div>
+                    <div className="font-bold">{summary.consolationWinner.name}</div>
+                  </div>
+                )}
+                {summary.toiletBowlLoser && (
+                  <div className="p-3 border rounded-lg">
+                    <div className="text-sm text-muted-foreground">Toilet Bowl (Last Place)</div>
+                    <div className="font-bold">{summary.toiletBowlLoser.name}</div>
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
 
-      {/* Playoff Bracket */}
+      {/* Playoff Brackets */}
       {isLoading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
         </div>
-      ) : bracket && bracket.length > 0 ? (
-        <div className="space-y-6">
-          {bracket.map((round) => (
-            <Card key={round.round}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  {round.round === bracket.length && <Trophy className="h-5 w-5 text-yellow-500" />}
-                  {round.roundName}
-                  <Badge variant="outline" className="ml-2">Round {round.round}</Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid gap-4">
-                  {round.matchups.map((matchup, idx) => (
-                    <div 
-                      key={idx}
-                      className={`p-4 border rounded-lg ${
-                        matchup.status === 'pending' ? 'opacity-50' : ''
-                      }`}
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm text-muted-foreground">
-                          Matchup {idx + 1}
-                        </span>
-                        {getStatusBadge(matchup.status)}
-                      </div>
+      ) : brackets && brackets.length > 0 ? (
+        <Tabs defaultValue="winners">
+          <TabsList>
+            {brackets.map((bracket) => (
+              <TabsTrigger key={bracket.bracket} value={bracket.bracket}>
+                {bracket.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
 
-                      <div className="space-y-2">
-                        {/* Team 1 */}
-                        <div className={`flex items-center justify-between p-3 rounded ${
-                          matchup.winnerId === matchup.team1Id ? 'bg-green-50 dark:bg-green-950' : 'bg-gray-50 dark:bg-gray-900'
-                        }`}>
-                          <div className="flex items-center gap-2">
-                            {matchup.seed1 > 0 && (
-                              <Badge variant="outline" className="w-8 h-8 flex items-center justify-center">
-                                {matchup.seed1}
-                              </Badge>
-                            )}
-                            <span className="font-semibold">
-                              {matchup.team1Name || 'TBD'}
+          {brackets.map((bracket) => (
+            <TabsContent key={bracket.bracket} value={bracket.bracket} className="space-y-6">
+              {bracket.bracket === 'toilet_bowl' && (
+                <p className="text-sm text-muted-foreground">
+                  Losers advance: the team that loses the final finishes last.
+                </p>
+              )}
+              {bracket.rounds.map((round) => (
+                <Card key={round.round}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      {bracket.bracket === 'winners' && round.round === bracket.rounds.length && (
+                        <Trophy className="h-5 w-5 text-yellow-500" />
+                      )}
+                      {round.roundName}
+                      <Badge variant="outline" className="ml-2">
+                        {round.weeks.length > 1
+                          ? `Weeks ${round.weeks[0]}-${round.weeks[round.weeks.length - 1]}`
+                          : `Week ${round.weeks[0]}`}
+                      </Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-4">
+                      {round.slots.map((matchup, idx) => (
+                        <div 
+                          key={idx}
+                          className={`p-4 border rounded-lg ${
+                            matchup.status === 'pending' || matchup.isBye ? 'opacity-50' : ''
+                          }`}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm text-muted-foreground">
+                              Matchup {idx + 1}
                             </span>
-                            {matchup.winnerId === matchup.team1Id && (
-                              <Trophy className="h-4 w-4 text-yellow-500" />
-                            )}
+                            {matchup.isBye ? <Badge variant="outline">Bye</Badge> : getStatusBadge(matchup.status)}
                           </div>
-                          <span className="text-2xl font-bold">
-                            {matchup.status !== 'pending' ? matchup.team1Score : '-'}
-                          </span>
-                        </div>
 
-                        {/* Team 2 */}
-                        <div className={`flex items-center justify-between p-3 rounded ${
-                          matchup.winnerId === matchup.team2Id ? 'bg-green-50 dark:bg-green-950' : 'bg-gray-50 dark:bg-gray-900'
-                        }`}>
-                          <div className="flex items-center gap-2">
-                            {matchup.seed2 > 0 && (
-                              <Badge variant="outline" className="w-8 h-8 flex items-center justify-center">
-                                {matchup.seed2}
-                              </Badge>
-                            )}
-                            <span className="font-semibold">
-                              {matchup.team2Name || 'TBD'}
-                            </span>
-                            {matchup.winnerId === matchup.team2Id && (
-                              <Trophy className="h-4 w-4 text-yellow-500" />
-                            )}
+                          <div className="space-y-2">
+                            {renderTeamRow(matchup, matchup.team1, matchup.team1Name, matchup.team1Score, bracket.bracket === 'toilet_bowl')}
+                            {renderTeamRow(matchup, matchup.team2, matchup.team2Name, matchup.team2Score, bracket.bracket === 'toilet_bowl')}
                           </div>
-                          <span className="text-2xl font-bold">
-                            {matchup.status !== 'pending' ? matchup.team2Score : '-'}
-                          </span>
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
           ))}
-        </div>
+        </Tabs>
       ) : (
         <Card>
           <CardContent className="py-12 text-center">
             <Trophy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">No Playoff Bracket</h3>
             <p className="text-muted-foreground mb-4">
-              The playoff bracket hasn't been generated yet.
+              The playoff bracket is generated automatically once the regular season is final.
             </p>
             {league?.isCommissioner && (
-              <Button onClick={handleGenerateBracket}>
-                Generate Playoff Bracket
+              <Button onClick={handleGenerateBracket} disabled={generateBracket.isPending}>
+                Generate Playoff Bracket Now
               </Button>
             )}
           </CardContent>
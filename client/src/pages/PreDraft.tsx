@@ -3,7 +3,7 @@ import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Shuffle, Play, ArrowLeft, UserCircle, Trophy, Calendar } from "lucide-react";
+import { Loader2, Shuffle, Play, ArrowLeft, UserCircle, Trophy, Calendar, Bot } from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
 
@@ -329,6 +329,25 @@ export default function PreDraft() {
               </CardHeader>
             </Card>
           )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium">Practice first</CardTitle>
+              <CardDescription className="text-xs">
+                Run a mock draft against CPU teams. Nothing is saved to this league.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setLocation(`/mock-draft?teams=${draftOrder?.length || 10}`)}
+              >
+                <Bot className="w-4 h-4 mr-2" />
+                Mock Draft
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -126,8 +126,6 @@ export default function RosterTest() {
     },
   ]);
 
-  const [isLineupLocked, setIsLineupLocked] = useState(false);
-
   // Redirect to login if not authenticated
   if (!loading && !isAuthenticated) {
     const loginUrl = getLoginUrl(); if (loginUrl) window.location.href = loginUrl; else window.location.href = "/login";
@@ -151,10 +149,6 @@ export default function RosterTest() {
     setMockLineup(lineup);
   };
 
-  const handleLockLineup = () => {
-    setIsLineupLocked(!isLineupLocked);
-  };
-
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -189,9 +183,8 @@ export default function RosterTest() {
               year={2025}
               week={1}
               lineup={mockLineup}
-              isLocked={isLineupLocked}
+              isLocked={false}
               onUpdateLineup={handleUpdateLineup}
-              onLockLineup={handleLockLineup}
             />
           </TabsContent>
 
@@ -1,10 +1,12 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Trophy, TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { Crown, Info, Loader2, Trophy, TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { TIEBREAKER_LABELS } from "@shared/tiebreakers";
 import {
   Table,
   TableBody,
@@ -18,7 +20,7 @@ import {
  * Standings Page
  * 
  * Displays league standings with win/loss records
- * Shows playoff seeding and power rankings
+ * Shows playoff seeding, division standings and power rankings
  */
 
 export default function Standings() {
@@ -27,7 +29,7 @@ export default function Standings() {
   const { id } = useParams<{ id: string }>();
   const leagueId = Number(id);
   const [year, setYear] = useState(2025);
-  const [view, setView] = useState<'standings' | 'power'>('standings');
+  const [view, setView] = useState<'standings' | 'divisions' | 'power'>('standings');
 
   const { data: standings, isLoading } = trpc.standings.getLeagueStandings.useQuery({
     leagueId,
@@ -42,6 +44,19 @@ export default function Standings() {
   const { data: league } = trpc.league.getById.useQuery({ leagueId });
   const [, setLocation] = useLocation();
 
+  // Division tables keep the league order, so the first team of each group leads it
+  const divisionGroups = useMemo(() => {
+    const groups = new Map<number, { name: string; teams: NonNullable<typeof standings> }>();
+    for (const standing of standings ?? []) {
+      if (standing.divisionId === null) continue;
+      const group = groups.get(standing.divisionId) ?? { name: standing.divisionName ?? '', teams: [] };
+      group.teams.push(standing);
+      groups.set(standing.divisionId, group);
+    }
+    return Array.from(groups.values());
+  }, [standings]);
+  const hasDivisions = divisionGroups.length > 0;
+
   useEffect(() => {
     if (league?.leagueType === "challenge" && leagueId) {
       setLocation(`/challenge/${leagueId}`);
@@ -69,6 +84,25 @@ export default function Standings() {
     return pct.toFixed(3);
   };
 
+  // Explains which tiebreaker put a team where it is among equal records
+  const renderTiebreaker = (team: NonNullable<typeof standings>[number]) => {
+    if (!team.tiebreaker) return null;
+    const { label, detail, tiedWith } = team.tiebreaker;
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="text-xs">Gleichstand mit {tiedWith.join(", ")}</p>
+          <p className="text-xs font-semibold">
+            Entschieden durch {label}{detail ? ` (${detail})` : ""}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   const displayData = view === 'power' ? powerRankings : standings;
 
   return (
@@ -120,6 +154,7 @@ export default function Standings() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="standings">Standings</SelectItem>
+                    {hasDivisions && <SelectItem value="divisions">Divisions</SelectItem>}
                     <SelectItem value="power">Power Rankings</SelectItem>
                   </SelectContent>
                 </Select>
@@ -136,6 +171,61 @@ export default function Standings() {
               <p className="text-muted-foreground">Loading standings...</p>
             </div>
           </div>
+        ) : view === 'divisions' && hasDivisions ? (
+          <div className="grid gap-6 md:grid-cols-2">
+            {divisionGroups.map((group) => (
+              <Card key={group.name} className="gradient-card border-border/50 overflow-hidden">
+                <CardHeader>
+                  <CardTitle className="text-foreground text-xl">{group.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-border/50 bg-muted/30">
+                        <TableHead className="w-[60px] text-foreground font-bold">RK</TableHead>
+                        <TableHead className="text-foreground font-bold">TEAM</TableHead>
+                        <TableHead className="text-center text-foreground font-bold">W-L-T</TableHead>
+                        <TableHead className="text-center text-foreground font-bold">WIN%</TableHead>
+                        <TableHead className="text-right text-foreground font-bold">PF</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.teams.map((team) => (
+                        <TableRow key={team.teamId} className="border-border/30 hover:bg-muted/20 transition-colors">
+                          <TableCell className="font-bold">
+                            <div className="flex items-center gap-1">
+                              {team.divisionRank}
+                              {renderTiebreaker(team)}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-semibold">
+                            <div className="flex items-center gap-2">
+                              {team.teamName}
+                              {team.isDivisionLeader && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Crown className="h-3 w-3 text-yellow-500" />
+                                  Leader
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center font-medium">
+                            {team.wins}-{team.losses}-{team.ties}
+                          </TableCell>
+                          <TableCell className="text-center font-mono">
+                            {formatWinPct(team.winPercentage)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {team.pointsFor.toFixed(1)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         ) : displayData && displayData.length > 0 ? (
           <Card className="gradient-card border-border/50 overflow-hidden">
             <CardHeader>
@@ -172,10 +262,20 @@ export default function Standings() {
                     <TableCell className="font-bold">
                       <div className="flex items-center gap-2">
                         <span>{team.rank}</span>
+                        {view === 'standings' && renderTiebreaker(team)}
                         {getRankBadge(team.rank, league?.playoffTeams || 6)}
                       </div>
                     </TableCell>
-                    <TableCell className="font-semibold">{team.teamName}</TableCell>
+                    <TableCell className="font-semibold">
+                      <div className="flex items-center gap-2">
+                        {team.teamName}
+                        {team.isDivisionLeader && (
+                          <span title={`${team.divisionName} Leader`}>
+                            <Crown className="h-4 w-4 text-yellow-500" />
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-center text-green-600 font-medium">
                       {team.wins}
                     </TableCell>
@@ -251,7 +351,9 @@ export default function Standings() {
               <div className="flex items-center gap-2">
                 <Trophy className="h-4 w-4 text-muted-foreground" />
                 <span className="text-muted-foreground">
-                  Top {league?.playoffTeams || 6} teams make playoffs
+                  {hasDivisions
+                    ? `Division leaders + best records make playoffs (${league?.playoffTeams || 6} teams)`
+                    : `Top ${league?.playoffTeams || 6} teams make playoffs`}
                 </span>
               </div>
               <div className="flex items-center gap-4">
@@ -265,6 +367,11 @@ export default function Standings() {
                 </div>
               </div>
             </div>
+            {league?.tiebreakerOrder && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Tiebreaker: {league.tiebreakerOrder.map((rule) => TIEBREAKER_LABELS[rule]).join(" → ")}
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
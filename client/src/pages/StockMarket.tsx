@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -34,16 +35,64 @@ import {
     Star,
     Bell,
     Store,
+    ListOrdered,
+    X,
+    Users,
+    Globe,
+    Coins,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { WeeklyCompetition } from "@/components/WeeklyCompetition";
+import { MarketLeaguesDialog } from "@/components/MarketLeaguesDialog";
 import { LiveTicker, MarketOverview, StockHeatMap, HistoricalMarketOverview } from "@/components/LiveTrading";
 import { FlipScore } from "@/components/FlipScore";
 
 // Placeholder image for stocks without thumbnails
 const PLACEHOLDER_IMG = "https://images.unsplash.com/photo-1603909223429-69bb7101f420?w=100&h=100&fit=crop";
 
+// Margin taken from cash when opening a short (mirrors server/shortSellingService)
+const SHORT_INITIAL_MARGIN = 0.5;
+
+type TradeAction = 'buy' | 'sell' | 'short' | 'cover';
+
+const TRADE_ACTION_LABELS: Record<TradeAction, string> = {
+    buy: 'Buy',
+    sell: 'Sell',
+    short: 'Short',
+    cover: 'Cover',
+};
+
+// Dividends, splits and delistings recorded in the trade history
+const CORPORATE_ACTION_LABELS: Record<string, string> = {
+    dividend: 'Dividend',
+    split: 'Split',
+    delist: 'Delisted',
+};
+
+// Market trades execute instantly, the rest rest in the order book until a price update fills them
+type OrderMode = 'market' | 'limit' | 'stop_loss' | 'take_profit';
+
+const ORDER_MODES: Record<'buy' | 'sell', Array<{ value: OrderMode; label: string }>> = {
+    buy: [
+        { value: 'market', label: 'Market' },
+        { value: 'limit', label: 'Limit' },
+    ],
+    sell: [
+        { value: 'market', label: 'Market' },
+        { value: 'limit', label: 'Limit' },
+        { value: 'stop_loss', label: 'Stop-loss' },
+        { value: 'take_profit', label: 'Take-profit' },
+    ],
+};
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+    limit_buy: 'Limit Buy',
+    limit_sell: 'Limit Sell',
+    stop_loss: 'Stop-loss',
+    take_profit: 'Take-profit',
+};
+
 interface StockCardProps {
     assetType: string;
     assetId: number;
@@ -54,7 +103,7 @@ interface StockCardProps {
     volume: number;
     imageUrl?: string;
     isOnWatchlist?: boolean;
-    onTrade: (action: 'buy' | 'sell') => void;
+    onTrade: (action: TradeAction) => void;
     onToggleWatchlist?: () => void;
     onCreateAlert?: () => void;
 }
@@ -126,15 +175,26 @@ function StockCard({
                     {assetName}
                 </h3>
 
-                {/* Buy Button */}
-                <Button
-                    size="sm"
-                    className="w-full bg-emerald-600 hover:bg-emerald-500 text-white h-9"
-                    onClick={() => onTrade('buy')}
-                >
-                    <TrendingUp className="w-4 h-4 mr-1.5" />
-                    Buy
-                </Button>
+                {/* Trade Buttons */}
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white h-9"
+                        onClick={() => onTrade('buy')}
+                    >
+                        <TrendingUp className="w-4 h-4 mr-1.5" />
+                        Buy
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="border-red-500/50 text-red-400 hover:bg-red-500/10 h-9"
+                        onClick={() => onTrade('short')}
+                    >
+                        <TrendingDown className="w-4 h-4 mr-1.5" />
+                        Short
+                    </Button>
+                </div>
             </CardContent>
         </Card>
     );
@@ -152,11 +212,13 @@ interface HoldingCardProps {
         currentValue: number;
         profitLoss: number;
         profitLossPercent: number;
+        isShort: boolean;
+        margin: { marginHeld: number; equity: number; maintenanceRequirement: number; buyInPrice: number } | null;
     };
-    onSell: () => void;
+    onClose: () => void;
 }
 
-function HoldingCard({ holding, onSell }: HoldingCardProps) {
+function HoldingCard({ holding, onClose }: HoldingCardProps) {
     const isPositive = holding.profitLoss >= 0;
 
     // Truncate name
@@ -167,7 +229,12 @@ function HoldingCard({ holding, onSell }: HoldingCardProps) {
     return (
         <div className="p-2 bg-zinc-900/50 rounded-lg border border-zinc-800">
             <div className="flex items-center justify-between mb-1">
-                <span className="font-medium text-white text-xs truncate max-w-[100px]">{shortName}</span>
+                <span className="flex items-center gap-1 font-medium text-white text-xs truncate max-w-[120px]">
+                    {holding.isShort && (
+                        <Badge variant="outline" className="px-1 py-0 text-[9px] border-red-500/50 text-red-400">SHORT</Badge>
+                    )}
+                    {shortName}
+                </span>
                 <span className={cn(
                     "text-xs font-bold",
                     isPositive ? "text-emerald-400" : "text-red-400"
@@ -181,11 +248,19 @@ function HoldingCard({ holding, onSell }: HoldingCardProps) {
                     size="sm"
                     variant="ghost"
                     className="h-5 px-2 text-[10px] text-zinc-400 hover:text-red-400"
-                    onClick={onSell}
+                    onClick={onClose}
                 >
-                    SELL
+                    {holding.isShort ? 'COVER' : 'SELL'}
                 </Button>
             </div>
+            {holding.margin && (
+                <div className="flex items-center justify-between text-[10px] text-zinc-500">
+                    <span>Margin {Math.round(holding.margin.marginHeld)} · equity {Math.round(holding.margin.equity)} pts</span>
+                    <span className="text-amber-400" title="Forced buy-in at this score">
+                        buy-in @ {Math.round(holding.margin.buyInPrice)}
+                    </span>
+                </div>
+            )}
         </div>
     );
 }
@@ -199,14 +274,25 @@ export default function StockMarket() {
     const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
     const [tradeModal, setTradeModal] = useState<{
         open: boolean;
-        action: 'buy' | 'sell';
+        action: TradeAction;
         asset?: any;
         shares: number;
-    }>({ open: false, action: 'buy', shares: 1 });
+        orderMode: OrderMode;
+        triggerPrice: number;
+        timeInForce: 'gtc' | 'day';
+    }>({ open: false, action: 'buy', shares: 1, orderMode: 'market', triggerPrice: 0, timeInForce: 'gtc' });
+
+    // Market league being traded (undefined = global market)
+    const [marketLeagueId, setMarketLeagueId] = useState<number | undefined>();
+    const [leaguesOpen, setLeaguesOpen] = useState(false);
+
+    const { data: marketLeagues = [] } =
+        trpc.marketLeague.getMyLeagues.useQuery(undefined, { enabled: !!user });
+    const activeLeague = marketLeagues.find(l => l.id === marketLeagueId);
 
     // Fetch portfolio
     const { data: portfolio, isLoading: portfolioLoading, refetch: refetchPortfolio } =
-        trpc.stockMarket.getPortfolio.useQuery(undefined, { enabled: !!user });
+        trpc.stockMarket.getPortfolio.useQuery({ marketLeagueId }, { enabled: !!user });
 
     // Fetch stocks based on selected asset type
     const { data: stocks = [], isLoading: stocksLoading, refetch: refetchStocks } =
@@ -220,14 +306,14 @@ export default function StockMarket() {
 
     // Fetch leaderboard
     const { data: leaderboard = [] } =
-        trpc.stockMarket.getLeaderboard.useQuery({ period: 'alltime', limit: 10 });
+        trpc.stockMarket.getLeaderboard.useQuery({ period: 'alltime', limit: 10, marketLeagueId });
 
     // Buy mutation
     const buyMutation = trpc.stockMarket.buy.useMutation({
         onSuccess: (data) => {
             toast.success(data.message);
             refetchPortfolio();
-            setTradeModal({ open: false, action: 'buy', shares: 1 });
+            setTradeModal(prev => ({ ...prev, open: false }));
         },
         onError: (error) => {
             toast.error(error.message);
@@ -239,13 +325,69 @@ export default function StockMarket() {
         onSuccess: (data) => {
             toast.success(data.message);
             refetchPortfolio();
-            setTradeModal({ open: false, action: 'sell', shares: 1 });
+            setTradeModal(prev => ({ ...prev, open: false }));
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    // Short mutation
+    const shortMutation = trpc.stockMarket.short.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            refetchPortfolio();
+            setTradeModal(prev => ({ ...prev, open: false }));
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    // Cover mutation
+    const coverMutation = trpc.stockMarket.cover.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            refetchPortfolio();
+            setTradeModal(prev => ({ ...prev, open: false }));
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    // ============ ORDERS ============
+    const { data: orders = [], refetch: refetchOrders } =
+        trpc.stockMarket.getOrders.useQuery({ limit: 20, marketLeagueId }, { enabled: !!user });
+
+    const openOrders = orders.filter(o => o.status === 'open');
+
+    const placeOrderMutation = trpc.stockMarket.placeOrder.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            refetchOrders();
+            refetchPortfolio();
+            setTradeModal(prev => ({ ...prev, open: false }));
+        },
+        onError: (error) => {
+            toast.error(error.message);
+        },
+    });
+
+    const cancelOrderMutation = trpc.stockMarket.cancelOrder.useMutation({
+        onSuccess: (data) => {
+            toast.success(data.message);
+            refetchOrders();
+            refetchPortfolio();
         },
         onError: (error) => {
             toast.error(error.message);
         },
     });
 
+    const tradePending = buyMutation.isPending || sellMutation.isPending
+        || shortMutation.isPending || coverMutation.isPending || placeOrderMutation.isPending;
+
     const handleTrade = () => {
         if (!tradeModal.asset) return;
 
@@ -253,17 +395,39 @@ export default function StockMarket() {
             assetType: tradeModal.asset.assetType,
             assetId: tradeModal.asset.assetId,
             shares: tradeModal.shares,
+            marketLeagueId,
         };
 
-        if (tradeModal.action === 'buy') {
+        if (tradeModal.orderMode !== 'market') {
+            placeOrderMutation.mutate({
+                ...params,
+                orderType: tradeModal.orderMode === 'limit'
+                    ? (tradeModal.action === 'buy' ? 'limit_buy' : 'limit_sell')
+                    : tradeModal.orderMode,
+                triggerPrice: tradeModal.triggerPrice,
+                timeInForce: tradeModal.timeInForce,
+            });
+        } else if (tradeModal.action === 'buy') {
             buyMutation.mutate(params);
-        } else {
+        } else if (tradeModal.action === 'sell') {
             sellMutation.mutate(params);
+        } else if (tradeModal.action === 'short') {
+            shortMutation.mutate(params);
+        } else {
+            coverMutation.mutate(params);
         }
     };
 
-    const openTradeModal = (action: 'buy' | 'sell', asset: any) => {
-        setTradeModal({ open: true, action, asset, shares: 1 });
+    const openTradeModal = (action: TradeAction, asset: any) => {
+        setTradeModal({
+            open: true,
+            action,
+            asset,
+            shares: 1,
+            orderMode: 'market',
+            triggerPrice: Math.round(asset.closePrice || 0),
+            timeInForce: 'gtc',
+        });
     };
 
     // ============ WATCHLIST ============
@@ -298,12 +462,33 @@ export default function StockMarket() {
     };
 
     // ============ ALERTS ============
+    type AlertCondition = 'above' | 'below' | 'percent_change' | 'new_high';
+    const ALERT_CONDITIONS: Array<{ value: AlertCondition; label: string; active: string }> = [
+        { value: 'above', label: '▲ Above', active: 'border-emerald-500 bg-emerald-500/20 text-emerald-400' },
+        { value: 'below', label: '▼ Below', active: 'border-red-500 bg-red-500/20 text-red-400' },
+        { value: 'percent_change', label: '± Moves %', active: 'border-sky-500 bg-sky-500/20 text-sky-400' },
+        { value: 'new_high', label: '★ 52-wk high', active: 'border-amber-500 bg-amber-500/20 text-amber-400' },
+    ];
+    const closedAlertModal = { open: false, targetScore: 0, direction: 'above' as AlertCondition, notifyEmail: false };
+
     const [alertModal, setAlertModal] = useState<{
         open: boolean;
         asset?: { assetType: string; assetId: number; assetName: string; currentScore: number };
         targetScore: number;
-        direction: 'above' | 'below';
-    }>({ open: false, targetScore: 0, direction: 'above' });
+        direction: AlertCondition;
+        notifyEmail: boolean;
+    }>(closedAlertModal);
+
+    // Switching conditions resets the target to a sensible default for that condition
+    const setAlertCondition = (direction: AlertCondition) => {
+        setAlertModal(prev => {
+            const current = prev.asset?.currentScore ?? 0;
+            const targetScore = direction === 'percent_change' ? 10
+                : direction === 'new_high' ? 0
+                : Math.round(current * (direction === 'above' ? 1.1 : 0.9));
+            return { ...prev, direction, targetScore };
+        });
+    };
 
     const { data: alerts = [], refetch: refetchAlerts } =
         trpc.stockMarket.getAlerts.useQuery(undefined, { enabled: !!user });
@@ -312,7 +497,7 @@ export default function StockMarket() {
         onSuccess: (data) => {
             toast.success(data.message);
             refetchAlerts();
-            setAlertModal({ open: false, targetScore: 0, direction: 'above' });
+            setAlertModal(closedAlertModal);
         },
         onError: (err) => toast.error(err.message),
     });
@@ -336,6 +521,7 @@ export default function StockMarket() {
             },
             targetScore: Math.round(stock.closePrice * 1.1), // Default 10% above
             direction: 'above',
+            notifyEmail: false,
         });
     };
 
@@ -400,6 +586,22 @@ export default function StockMarket() {
                                 <h1 className="text-2xl font-bold text-white">Cannabis Stock Market</h1>
                                 <p className="text-zinc-400 text-sm">Trade strains like stocks</p>
                             </div>
+                            {user && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setLeaguesOpen(true)}
+                                    className="ml-2 border-zinc-700 text-zinc-300 hover:text-white"
+                                >
+                                    {activeLeague ? <Users className="w-4 h-4 mr-1" /> : <Globe className="w-4 h-4 mr-1" />}
+                                    {activeLeague ? activeLeague.name : 'Global market'}
+                                </Button>
+                            )}
+                            {activeLeague && (
+                                <span className="text-xs text-zinc-500">
+                                    {activeLeague.startDate} – {activeLeague.endDate}
+                                </span>
+                            )}
                         </div>
 
                         {/* Portfolio Summary */}
@@ -407,12 +609,22 @@ export default function StockMarket() {
                             <div className="flex items-center gap-6">
                                 <div className="text-right">
                                     <p className="text-zinc-400 text-xs uppercase tracking-wide">Available Pts</p>
-                                    <p className="text-lg font-bold text-white">{Math.round(portfolio.cashBalance)} pts</p>
+                                    <p className="text-lg font-bold text-white">{Math.round(portfolio.cashBalance - portfolio.reservedCash)} pts</p>
+                                    {portfolio.reservedCash > 0 && (
+                                        <p className="text-xs text-zinc-500">{Math.round(portfolio.reservedCash)} pts in orders</p>
+                                    )}
                                 </div>
                                 <div className="text-right">
                                     <p className="text-zinc-400 text-xs uppercase tracking-wide">Holdings Value</p>
                                     <p className="text-lg font-bold text-white">{Math.round(portfolio.holdingsValue)} pts</p>
                                 </div>
+                                {portfolio.marginHeld > 0 && (
+                                    <div className="text-right">
+                                        <p className="text-zinc-400 text-xs uppercase tracking-wide">Margin Held</p>
+                                        <p className="text-lg font-bold text-amber-400">{Math.round(portfolio.marginHeld)} pts</p>
+                                        <p className="text-xs text-zinc-500">{Math.round(portfolio.shortExposure)} pts short</p>
+                                    </div>
+                                )}
                                 <div className="text-right px-4 py-2 rounded-lg bg-zinc-800/50">
                                     <p className="text-zinc-400 text-xs uppercase tracking-wide">Total Score</p>
                                     <p className="text-xl font-bold text-emerald-400">{Math.round(portfolio.totalValue)} pts</p>
@@ -464,7 +676,7 @@ export default function StockMarket() {
                                             <HoldingCard
                                                 key={i}
                                                 holding={h}
-                                                onSell={() => openTradeModal('sell', {
+                                                onClose={() => openTradeModal(h.isShort ? 'cover' : 'sell', {
                                                     assetType: h.assetType,
                                                     assetId: h.assetId,
                                                     assetName: h.assetName,
@@ -477,6 +689,110 @@ export default function StockMarket() {
                             </CardContent>
                         </Card>
 
+                        {/* My Orders */}
+                        <Card className="bg-zinc-900/50 border-zinc-800 mb-6">
+                            <CardHeader className="pb-3">
+                                <CardTitle className="text-lg flex items-center gap-2 text-white">
+                                    <ListOrdered className="w-5 h-5 text-sky-500" />
+                                    My Orders
+                                    {openOrders.length > 0 && (
+                                        <Badge variant="outline" className="ml-auto border-sky-500/50 text-sky-400">
+                                            {openOrders.length} open
+                                        </Badge>
+                                    )}
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {orders.length === 0 ? (
+                                    <p className="text-center py-4 text-sm text-zinc-500">
+                                        No orders yet. Choose Limit or Stop in the trade dialog to place one.
+                                    </p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {orders.map((order) => (
+                                            <div key={order.id} className="p-2 bg-zinc-900/50 rounded-lg border border-zinc-800">
+                                                <div className="flex items-center justify-between mb-1">
+                                                    <span className="font-medium text-white text-xs truncate max-w-[120px]">
+                                                        {order.assetName || `#${order.assetId}`}
+                                                    </span>
+                                                    {order.status === 'open' ? (
+                                                        <button
+                                                            onClick={() => cancelOrderMutation.mutate({ orderId: order.id })}
+                                                            disabled={cancelOrderMutation.isPending}
+                                                            className="p-0.5 rounded text-zinc-500 hover:text-red-400"
+                                                            title="Cancel order"
+                                                        >
+                                                            <X className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    ) : (
+                                                        <span className={cn(
+                                                            "text-[10px] uppercase font-bold",
+                                                            order.status === 'filled' ? "text-emerald-400" : "text-zinc-500"
+                                                        )} title={order.statusReason || undefined}>
+                                                            {order.status}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <div className="text-[10px] text-zinc-500">
+                                                    {ORDER_TYPE_LABELS[order.orderType] || order.orderType} · {order.shares} @ {order.triggerPrice} pts
+                                                    {' · '}{order.timeInForce === 'day' ? 'Day' : 'GTC'}
+                                                    {order.filledPrice !== null && ` · filled ${Math.round(order.filledPrice)} pts`}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {/* Corporate Actions */}
+                        {portfolio && portfolio.corporateActions.length > 0 && (
+                            <Card className="bg-zinc-900/50 border-zinc-800 mb-6">
+                                <CardHeader className="pb-3">
+                                    <CardTitle className="text-lg flex items-center gap-2 text-white">
+                                        <Coins className="w-5 h-5 text-amber-500" />
+                                        Corporate Actions
+                                    </CardTitle>
+                                    <p className="text-xs text-zinc-500">
+                                        Dividend income: <span className={portfolio.dividendIncome >= 0 ? "text-emerald-400" : "text-red-400"}>
+                                            {portfolio.dividendIncome >= 0 ? "+" : ""}{portfolio.dividendIncome.toFixed(2)} pts
+                                        </span>
+                                    </p>
+                                </CardHeader>
+                                <CardContent>
+                                    <div className="space-y-2">
+                                        {portfolio.corporateActions.map((event) => (
+                                            <div key={event.id} className="p-2 bg-zinc-900/50 rounded-lg border border-zinc-800">
+                                                <div className="flex items-center justify-between mb-1">
+                                                    <span className="font-medium text-white text-xs truncate max-w-[120px]">
+                                                        {event.assetName || `#${event.assetId}`}
+                                                    </span>
+                                                    <span className={cn(
+                                                        "text-[10px] uppercase font-bold",
+                                                        event.action === 'delist' ? "text-red-400" : "text-amber-400"
+                                                    )}>
+                                                        {CORPORATE_ACTION_LABELS[event.action] || event.action}
+                                                    </span>
+                                                </div>
+                                                <div className="text-[10px] text-zinc-500">
+                                                    {event.action === 'dividend' && (
+                                                        <>{event.pricePerShare} pts/share × {event.shares} · {(event.profitLoss ?? 0) >= 0 ? "+" : ""}{(event.profitLoss ?? 0).toFixed(2)} pts</>
+                                                    )}
+                                                    {event.action === 'split' && (
+                                                        <>+{event.shares} shares · now {Math.round(event.pricePerShare)} pts</>
+                                                    )}
+                                                    {event.action === 'delist' && (
+                                                        <>{event.shares} shares closed at {Math.round(event.pricePerShare)} pts · {Math.round(event.profitLoss ?? 0)} pts</>
+                                                    )}
+                                                    {' · '}{new Date(event.executedAt).toLocaleDateString()}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {/* Leaderboard */}
                         <Card className="bg-zinc-900/50 border-zinc-800">
                             <CardHeader className="pb-3">
@@ -522,7 +838,7 @@ export default function StockMarket() {
                         </Card>
 
                         {/* Weekly Competition */}
-                        <WeeklyCompetition />
+                        <WeeklyCompetition marketLeagueId={marketLeagueId} />
                     </div>
 
                     {/* Right: Stock Browser */}
@@ -702,6 +1018,15 @@ export default function StockMarket() {
                                                         <TrendingUp className="w-3 h-3 mr-1" />
                                                         Buy
                                                     </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        className="border-red-500/50 text-red-400 hover:bg-red-500/10 h-8 px-3"
+                                                        onClick={() => openTradeModal('short', stock)}
+                                                    >
+                                                        <TrendingDown className="w-3 h-3 mr-1" />
+                                                        Short
+                                                    </Button>
                                                 </div>
                                             </div>
                                         );
@@ -718,12 +1043,12 @@ export default function StockMarket() {
                 <DialogContent className="bg-zinc-900 border-zinc-800 text-white">
                     <DialogHeader>
                         <DialogTitle className="flex items-center gap-2">
-                            {tradeModal.action === 'buy' ? (
+                            {tradeModal.action === 'buy' || tradeModal.action === 'cover' ? (
                                 <TrendingUp className="w-5 h-5 text-emerald-500" />
                             ) : (
                                 <TrendingDown className="w-5 h-5 text-red-500" />
                             )}
-                            {tradeModal.action === 'buy' ? 'Buy' : 'Sell'} {tradeModal.asset?.assetName}
+                            {TRADE_ACTION_LABELS[tradeModal.action]} {tradeModal.asset?.assetName}
                         </DialogTitle>
                     </DialogHeader>
 
@@ -745,12 +1070,85 @@ export default function StockMarket() {
                             />
                         </div>
 
+                        {(tradeModal.action === 'buy' || tradeModal.action === 'sell') && (
+                            <div className="space-y-2">
+                                <label className="text-sm text-zinc-400 block">Order Type</label>
+                                <div className="flex gap-2">
+                                    {ORDER_MODES[tradeModal.action].map((mode) => (
+                                        <button
+                                            key={mode.value}
+                                            onClick={() => setTradeModal(prev => ({ ...prev, orderMode: mode.value }))}
+                                            className={cn(
+                                                "flex-1 p-2 rounded-lg border text-sm transition-all",
+                                                tradeModal.orderMode === mode.value
+                                                    ? "border-sky-500 bg-sky-500/20 text-sky-400"
+                                                    : "border-zinc-700 text-zinc-400 hover:border-zinc-600"
+                                            )}
+                                        >
+                                            {mode.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {tradeModal.orderMode !== 'market' && (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div>
+                                            <label className="text-xs text-zinc-400 mb-1 block">
+                                                {tradeModal.orderMode === 'stop_loss' ? 'Stop Price' : 'Limit Price'}
+                                            </label>
+                                            <Input
+                                                type="number"
+                                                min="1"
+                                                step="1"
+                                                value={tradeModal.triggerPrice}
+                                                onChange={(e) => setTradeModal(prev => ({ ...prev, triggerPrice: parseFloat(e.target.value) || 0 }))}
+                                                className="bg-zinc-800 border-zinc-700 text-white"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="text-xs text-zinc-400 mb-1 block">Valid</label>
+                                            <div className="flex gap-1">
+                                                {(['gtc', 'day'] as const).map((tif) => (
+                                                    <button
+                                                        key={tif}
+                                                        onClick={() => setTradeModal(prev => ({ ...prev, timeInForce: tif }))}
+                                                        className={cn(
+                                                            "flex-1 h-9 rounded-md border text-xs transition-all",
+                                                            tradeModal.timeInForce === tif
+                                                                ? "border-sky-500 bg-sky-500/20 text-sky-400"
+                                                                : "border-zinc-700 text-zinc-400 hover:border-zinc-600"
+                                                        )}
+                                                        title={tif === 'gtc' ? 'Good till cancelled' : 'Expires after the next price update'}
+                                                    >
+                                                        {tif === 'gtc' ? 'GTC' : 'Day'}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="flex justify-between items-center p-3 bg-zinc-800/50 rounded-lg">
                             <span className="text-zinc-400">Total Score Cost</span>
                             <span className="text-xl font-bold text-emerald-400">
-                                {Math.round((tradeModal.asset?.closePrice || 0) * tradeModal.shares)} pts
+                                {Math.round((tradeModal.orderMode === 'market' ? tradeModal.asset?.closePrice || 0 : tradeModal.triggerPrice) * tradeModal.shares)} pts
                             </span>
                         </div>
+
+                        {tradeModal.action === 'short' && (
+                            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm space-y-1">
+                                <div className="flex justify-between">
+                                    <span className="text-zinc-400">Margin Required</span>
+                                    <span className="font-bold text-red-400">
+                                        {Math.round((tradeModal.asset?.closePrice || 0) * tradeModal.shares * SHORT_INITIAL_MARGIN)} pts
+                                    </span>
+                                </div>
+                                <p className="text-xs text-zinc-500">
+                                    You profit if the score falls. If it rises too far, the position is bought in automatically.
+                                </p>
+                            </div>
+                        )}
                     </div>
 
                     <DialogFooter>
@@ -763,17 +1161,17 @@ export default function StockMarket() {
                         </Button>
                         <Button
                             onClick={handleTrade}
-                            disabled={buyMutation.isPending || sellMutation.isPending}
+                            disabled={tradePending}
                             className={cn(
-                                tradeModal.action === 'buy'
+                                tradeModal.action === 'buy' || tradeModal.action === 'cover'
                                     ? "bg-emerald-600 hover:bg-emerald-500"
                                     : "bg-red-600 hover:bg-red-500"
                             )}
                         >
-                            {(buyMutation.isPending || sellMutation.isPending) && (
+                            {tradePending && (
                                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             )}
-                            {tradeModal.action === 'buy' ? 'Buy' : 'Sell'} Shares
+                            {tradeModal.orderMode === 'market' ? `${TRADE_ACTION_LABELS[tradeModal.action]} Shares` : 'Place Order'}
                         </Button>
                     </DialogFooter>
                 </DialogContent>
@@ -802,51 +1200,59 @@ export default function StockMarket() {
                             </div>
 
                             <div className="space-y-2">
-                                <label className="text-sm text-zinc-400">Alert me when score goes</label>
-                                <div className="flex gap-2">
-                                    <button
-                                        onClick={() => setAlertModal(prev => ({ ...prev, direction: 'above' }))}
-                                        className={cn(
-                                            "flex-1 p-2 rounded-lg border transition-all",
-                                            alertModal.direction === 'above'
-                                                ? "border-emerald-500 bg-emerald-500/20 text-emerald-400"
-                                                : "border-zinc-700 text-zinc-400 hover:border-zinc-600"
-                                        )}
-                                    >
-                                        ▲ Above
-                                    </button>
-                                    <button
-                                        onClick={() => setAlertModal(prev => ({ ...prev, direction: 'below' }))}
-                                        className={cn(
-                                            "flex-1 p-2 rounded-lg border transition-all",
-                                            alertModal.direction === 'below'
-                                                ? "border-red-500 bg-red-500/20 text-red-400"
-                                                : "border-zinc-700 text-zinc-400 hover:border-zinc-600"
-                                        )}
-                                    >
-                                        ▼ Below
-                                    </button>
+                                <label className="text-sm text-zinc-400">Alert me when the score</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {ALERT_CONDITIONS.map((condition) => (
+                                        <button
+                                            key={condition.value}
+                                            onClick={() => setAlertCondition(condition.value)}
+                                            className={cn(
+                                                "p-2 rounded-lg border transition-all",
+                                                alertModal.direction === condition.value
+                                                    ? condition.active
+                                                    : "border-zinc-700 text-zinc-400 hover:border-zinc-600"
+                                            )}
+                                        >
+                                            {condition.label}
+                                        </button>
+                                    ))}
                                 </div>
                             </div>
 
-                            <div>
-                                <label className="text-sm text-zinc-400 mb-1 block">Target Score</label>
-                                <Input
-                                    type="number"
-                                    min="1"
-                                    step="1"
-                                    value={alertModal.targetScore}
-                                    onChange={(e) => setAlertModal(prev => ({ ...prev, targetScore: parseInt(e.target.value) || 0 }))}
-                                    className="bg-zinc-800 border-zinc-700 text-white text-lg"
+                            {alertModal.direction === 'new_high' ? (
+                                <p className="text-sm text-zinc-400">
+                                    Triggers when the score beats its highest price of the past 52 weeks.
+                                </p>
+                            ) : (
+                                <div>
+                                    <label className="text-sm text-zinc-400 mb-1 block">
+                                        {alertModal.direction === 'percent_change' ? 'Change from current score (%)' : 'Target Score'}
+                                    </label>
+                                    <Input
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        value={alertModal.targetScore}
+                                        onChange={(e) => setAlertModal(prev => ({ ...prev, targetScore: parseInt(e.target.value) || 0 }))}
+                                        className="bg-zinc-800 border-zinc-700 text-white text-lg"
+                                    />
+                                </div>
+                            )}
+
+                            <label className="flex items-center justify-between p-3 bg-zinc-800 rounded-lg">
+                                <span className="text-sm text-zinc-300">Also send me an email</span>
+                                <Switch
+                                    checked={alertModal.notifyEmail}
+                                    onCheckedChange={(notifyEmail) => setAlertModal(prev => ({ ...prev, notifyEmail }))}
                                 />
-                            </div>
+                            </label>
                         </div>
                     )}
 
                     <DialogFooter>
                         <Button
                             variant="outline"
-                            onClick={() => setAlertModal({ open: false, targetScore: 0, direction: 'above' })}
+                            onClick={() => setAlertModal(closedAlertModal)}
                             className="border-zinc-700"
                         >
                             Cancel
@@ -860,6 +1266,7 @@ export default function StockMarket() {
                                         assetName: alertModal.asset.assetName,
                                         targetScore: alertModal.targetScore,
                                         direction: alertModal.direction,
+                                        notifyEmail: alertModal.notifyEmail,
                                     });
                                 }
                             }}
@@ -872,6 +1279,13 @@ export default function StockMarket() {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            <MarketLeaguesDialog
+                open={leaguesOpen}
+                onOpenChange={setLeaguesOpen}
+                selectedLeagueId={marketLeagueId}
+                onSelect={setMarketLeagueId}
+            />
         </div>
     );
 }
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
 import { useParams, Link } from "wouter";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
@@ -11,7 +11,10 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, RefreshCw, ArrowRightLeft, Check, X, Eye, ArrowRight, ChevronRight } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { TradeBlock } from "@/components/TradeBlock";
+import { TradeAnalysisPanel } from "@/components/TradeAnalysis";
+import { Loader2, RefreshCw, ArrowRightLeft, Check, ArrowRight, ChevronRight, Gavel, Clock, Reply, MessageSquare, BarChart3 } from "lucide-react";
 import { toast } from "sonner";
 
 export default function Trades() {
@@ -23,20 +26,24 @@ export default function Trades() {
   // Modal State
   const [isTradeModalOpen, setIsTradeModalOpen] = useState(false);
   const [tradeStep, setTradeStep] = useState(1);
-  const [targetTeamId, setTargetTeamId] = useState<string>("");
-  const [selectedMyAssets, setSelectedMyAssets] = useState<any[]>([]);
-  const [selectedTargetAssets, setSelectedTargetAssets] = useState<any[]>([]);
+  const [partnerIds, setPartnerIds] = useState<number[]>([]);
+  const [selectedAssets, setSelectedAssets] = useState<TradeAssetSelection[]>([]);
+  const [counterTradeId, setCounterTradeId] = useState<number | null>(null);
+  const [expiresInHours, setExpiresInHours] = useState("none");
+  const [offerMessage, setOfferMessage] = useState("");
 
   // Fetch Data
   const { data: league } = trpc.league.getById.useQuery({ leagueId });
   const { data: myTeam } = trpc.league.getMyTeam.useQuery({ leagueId });
   const { data: trades = [], refetch: refetchTrades } = trpc.trade.getTrades.useQuery({ leagueId });
   const { data: myRoster = [] } = trpc.roster.getMyRoster.useQuery({ leagueId });
-  
-  // Fetch target roster only when step > 1 and team selected
-  const { data: targetRoster = [] } = trpc.roster.getTeamRoster.useQuery(
-    { leagueId, teamId: parseInt(targetTeamId) },
-    { enabled: !!targetTeamId && tradeStep > 1 }
+  const { data: draftPicks = [] } = trpc.trade.getDraftPicks.useQuery({ leagueId }, { enabled: isTradeModalOpen });
+  const { data: previewAnalysis, isLoading: isAnalyzing } = trpc.trade.previewTradeAnalysis.useQuery(
+    {
+      leagueId,
+      assets: selectedAssets.map(a => ({ type: a.type, id: a.id, fromTeamId: a.fromTeamId, toTeamId: a.toTeamId })),
+    },
+    { enabled: isTradeModalOpen && tradeStep === 4 && selectedAssets.length > 0 }
   );
 
   // Mutations
@@ -50,9 +57,22 @@ export default function Trades() {
     onError: (err) => toast.error(err.message)
   });
 
-  const acceptTrade = trpc.trade.acceptTrade.useMutation({
+  const counterTrade = trpc.trade.counterTrade.useMutation({
     onSuccess: () => {
-      toast.success("Trade accepted!");
+      toast.success("Counter-offer sent!");
+      setIsTradeModalOpen(false);
+      resetTradeBuilder();
+      refetchTrades();
+    },
+    onError: (err) => toast.error(err.message)
+  });
+
+  const acceptTrade = trpc.trade.acceptTrade.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.status === "in_review" ? "Trade accepted! It will process after the review period." :
+        result.status === "accepted" ? "Trade accepted and processed!" : "Trade accepted!"
+      );
       refetchTrades();
     },
     onError: (err) => toast.error(err.message)
@@ -66,16 +86,66 @@ export default function Trades() {
     onError: (err) => toast.error(err.message)
   });
 
+  const voteVeto = trpc.trade.voteVeto.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.vetoed ? "Trade vetoed." : `Veto vote counted (${result.votes}/${result.threshold}).`);
+      refetchTrades();
+    },
+    onError: (err) => toast.error(err.message)
+  });
+
+  const commissionerVeto = trpc.trade.commissionerVeto.useMutation({
+    onSuccess: () => {
+      toast.success("Trade vetoed.");
+      refetchTrades();
+    },
+    onError: (err) => toast.error(err.message)
+  });
+
   const resetTradeBuilder = () => {
     setTradeStep(1);
-    setTargetTeamId("");
-    setSelectedMyAssets([]);
-    setSelectedTargetAssets([]);
+    setPartnerIds([]);
+    setSelectedAssets([]);
+    setCounterTradeId(null);
+    setExpiresInHours("none");
+    setOfferMessage("");
+  };
+
+  // Counter-offers start from the original assets with the same teams
+  const startCounterOffer = (trade: any) => {
+    setCounterTradeId(trade.id);
+    setPartnerIds(trade.participants.map((p: any) => p.teamId).filter((teamId: number) => teamId !== myTeam?.id));
+    setSelectedAssets(trade.assets.map((a: any) => ({
+      type: a.assetType,
+      id: a.assetId,
+      name: a.assetName,
+      fromTeamId: a.fromTeamId,
+      toTeamId: a.toTeamId,
+    })));
+    setTradeStep(2);
+    setIsTradeModalOpen(true);
+  };
+
+  // Offers from the trade block start with the listed asset selected
+  const startOfferFromBlock = (entry: any) => {
+    if (!myTeam) return;
+    const buying = entry.kind === "shopping";
+    resetTradeBuilder();
+    setPartnerIds([entry.teamId]);
+    setSelectedAssets([{
+      type: entry.assetType,
+      id: entry.assetId,
+      name: entry.assetName,
+      fromTeamId: buying ? entry.teamId : myTeam.id,
+      toTeamId: buying ? myTeam.id : entry.teamId,
+    }]);
+    setTradeStep(2);
+    setIsTradeModalOpen(true);
   };
 
   const handleNextStep = () => {
-    if (tradeStep === 1 && !targetTeamId) {
-      toast.error("Please select a team to trade with.");
+    if (tradeStep === 1 && partnerIds.length === 0) {
+      toast.error("Please select at least one team to trade with.");
       return;
     }
     setTradeStep(prev => prev + 1);
@@ -85,34 +155,66 @@ export default function Trades() {
     setTradeStep(prev => prev - 1);
   };
 
-  const toggleAssetSelection = (asset: any, isMyAsset: boolean) => {
-    const setter = isMyAsset ? setSelectedMyAssets : setSelectedTargetAssets;
-    const current = isMyAsset ? selectedMyAssets : selectedTargetAssets;
-    
-    // Store minimal asset info: { type, id, name }
-    // Backend needs { type, id }
+  const togglePartner = (teamId: number) => {
+    if (partnerIds.includes(teamId)) {
+      setPartnerIds(partnerIds.filter(id => id !== teamId));
+      setSelectedAssets(selectedAssets.filter(a => a.fromTeamId !== teamId && a.toTeamId !== teamId));
+    } else if (partnerIds.length < MAX_TRADE_PARTNERS) {
+      setPartnerIds([...partnerIds, teamId]);
+    } else {
+      toast.error(`Trades can include at most ${MAX_TRADE_PARTNERS + 1} teams.`);
+    }
+  };
+
+  const toggleAssetSelection = (asset: any, fromTeamId: number, defaultToTeamId: number) => {
+    // Backend needs { type, id, fromTeamId, toTeamId }
     const assetKey = `${asset.assetType}:${asset.assetId}`;
-    const exists = current.find(a => `${a.type}:${a.id}` === assetKey);
+    const exists = selectedAssets.find(a => `${a.type}:${a.id}` === assetKey);
 
     if (exists) {
-      setter(current.filter(a => `${a.type}:${a.id}` !== assetKey));
+      setSelectedAssets(selectedAssets.filter(a => `${a.type}:${a.id}` !== assetKey));
     } else {
-      setter([...current, { type: asset.assetType, id: asset.assetId, name: asset.name }]);
+      setSelectedAssets([
+        ...selectedAssets,
+        { type: asset.assetType, id: asset.assetId, name: asset.name, fromTeamId, toTeamId: defaultToTeamId },
+      ]);
     }
   };
 
+  const setAssetRecipient = (asset: TradeAssetSelection, toTeamId: number) => {
+    setSelectedAssets(selectedAssets.map(a => (a.type === asset.type && a.id === asset.id ? { ...a, toTeamId } : a)));
+  };
+
   const handleSubmitTrade = () => {
-    if (selectedMyAssets.length === 0 && selectedTargetAssets.length === 0) {
+    if (selectedAssets.length === 0) {
       toast.error("Trade must include at least one asset.");
       return;
     }
     
-    proposeTrade.mutate({
-      leagueId,
-      targetTeamId: parseInt(targetTeamId),
-      myAssets: selectedMyAssets.map(a => ({ type: a.type, id: a.id })),
-      targetAssets: selectedTargetAssets.map(a => ({ type: a.type, id: a.id })),
-    });
+    const offer = {
+      teamIds: partnerIds,
+      assets: selectedAssets.map(a => ({ type: a.type, id: a.id, fromTeamId: a.fromTeamId, toTeamId: a.toTeamId })),
+      expiresInHours: expiresInHours === "none" ? undefined : parseInt(expiresInHours),
+      message: offerMessage.trim() || undefined,
+    };
+    if (counterTradeId) {
+      counterTrade.mutate({ tradeId: counterTradeId, ...offer });
+    } else {
+      proposeTrade.mutate({ leagueId, ...offer });
+    }
+  };
+
+  // Earlier offers of a negotiation, oldest first
+  const getNegotiationThread = (trade: any) => {
+    const thread: any[] = [];
+    let parentId = trade.parentTradeId;
+    while (parentId) {
+      const parent = trades.find((t) => t.id === parentId);
+      if (!parent) break;
+      thread.unshift(parent);
+      parentId = parent.parentTradeId;
+    }
+    return thread;
   };
 
   if (!league || !myTeam) {
@@ -125,7 +227,68 @@ export default function Trades() {
   
   const isCommissioner = league.commissionerUserId === user?.id;
   const potentialPartners = league.teams?.filter((t: any) => t.id !== myTeam.id) || [];
-  const targetTeamName = potentialPartners.find(t => t.id.toString() === targetTeamId)?.teamName;
+  const tradeTeams = [
+    { id: myTeam.id, name: "You" },
+    ...potentialPartners.filter((t: any) => partnerIds.includes(t.id)).map((t: any) => ({ id: t.id, name: t.name })),
+  ];
+  const partnerNames = tradeTeams.slice(1).map(t => t.name).join(", ");
+  const isActive = (t: any) => t.status === 'proposed' || t.status === 'in_review';
+  const isSubmitting = proposeTrade.isPending || counterTrade.isPending;
+
+  // Draft picks a team holds are offered next to its roster
+  const withDraftPicks = (roster: any[], teamId: number) => [
+    ...roster,
+    ...draftPicks
+      .filter((pick) => pick.ownerTeamId === teamId)
+      .map((pick) => ({ assetType: "draft_pick", assetId: pick.id, name: pick.label })),
+  ];
+
+  const renderAssetPicker = (teamRoster: any[], fromTeamId: number, emptyText: string) => {
+    const roster = withDraftPicks(teamRoster, fromTeamId);
+    if (roster.length === 0) {
+      return <p className="text-center text-muted-foreground">{emptyText}</p>;
+    }
+    const defaultToTeamId = fromTeamId === myTeam.id ? partnerIds[0] : myTeam.id;
+    const recipients = tradeTeams.filter(t => t.id !== fromTeamId);
+
+    return (
+      <div className="space-y-2">
+        {roster.map((player: any) => {
+          const selected = selectedAssets.find(a => a.type === player.assetType && a.id === player.assetId);
+          return (
+            <div key={`${player.assetType}-${player.assetId}`} 
+                 className={`flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer ${selected ? 'bg-accent' : ''}`}
+                 onClick={() => toggleAssetSelection(player, fromTeamId, defaultToTeamId)}
+            >
+              <Checkbox checked={!!selected} onCheckedChange={() => toggleAssetSelection(player, fromTeamId, defaultToTeamId)} />
+              <div className="flex-1">
+                <p className="font-medium">{player.name}</p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {player.assetType === "draft_pick" ? "Draft Pick" : player.assetType}
+                </p>
+              </div>
+              {selected && recipients.length > 1 && (
+                <div onClick={(e) => e.stopPropagation()}>
+                  <Select value={selected.toTeamId.toString()} onValueChange={(v) => setAssetRecipient(selected, parseInt(v))}>
+                    <SelectTrigger className="w-[160px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recipients.map(team => (
+                        <SelectItem key={team.id} value={team.id.toString()}>
+                          to {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -147,6 +310,7 @@ export default function Trades() {
               <h2 className="text-3xl font-bold tracking-tight">Trade Center</h2>
               <p className="text-muted-foreground">
                 Propose and manage player trades
+                {league.tradeReviewHours > 0 && ` • ${league.tradeReviewHours}h review period after acceptance`}
               </p>
             </div>
             <Dialog open={isTradeModalOpen} onOpenChange={(open) => {
@@ -161,10 +325,12 @@ export default function Trades() {
               </DialogTrigger>
               <DialogContent className="max-w-2xl">
                 <DialogHeader>
-                  <DialogTitle>Propose Trade {tradeStep > 1 && targetTeamName ? `with ${targetTeamName}` : ""}</DialogTitle>
+                  <DialogTitle>
+                    {counterTradeId ? "Counter-Offer" : "Propose Trade"} {tradeStep > 1 && partnerNames ? `with ${partnerNames}` : ""}
+                  </DialogTitle>
                   <DialogDescription>
                     Step {tradeStep} of 4: {
-                      tradeStep === 1 ? "Select Partner" :
+                      tradeStep === 1 ? "Select Partners" :
                       tradeStep === 2 ? "Choose Your Assets to Offer" :
                       tradeStep === 3 ? "Choose Their Assets to Request" : "Review & Confirm"
                     }
@@ -172,107 +338,109 @@ export default function Trades() {
                 </DialogHeader>
 
                 <div className="py-4">
-                  {/* Step 1: Select Partner */}
+                  {/* Step 1: Select Partners */}
                   {tradeStep === 1 && (
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Select Trading Partner</label>
-                        <Select value={targetTeamId} onValueChange={setTargetTeamId}>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Choose a team..." />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {potentialPartners.map((team: any) => (
-                              <SelectItem key={team.id} value={team.id.toString()}>
-                                {team.teamName}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">
+                        Select Trading Partners (up to {MAX_TRADE_PARTNERS})
+                      </label>
+                      <ScrollArea className="h-[300px] rounded-md border p-4">
+                        <div className="space-y-2">
+                          {potentialPartners.map((team: any) => (
+                            <div key={team.id}
+                                 className={`flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer ${partnerIds.includes(team.id) ? 'bg-accent' : ''}`}
+                                 onClick={() => togglePartner(team.id)}
+                            >
+                              <Checkbox checked={partnerIds.includes(team.id)} onCheckedChange={() => togglePartner(team.id)} />
+                              <span className="font-medium">{team.name}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </ScrollArea>
                     </div>
                   )}
 
                   {/* Step 2: Select My Assets */}
                   {tradeStep === 2 && (
                     <ScrollArea className="h-[300px] rounded-md border p-4">
-                      {myRoster.length === 0 ? (
-                        <p className="text-center text-muted-foreground">Your roster is empty.</p>
-                      ) : (
-                        <div className="space-y-2">
-                          {myRoster.map((player: any) => {
-                             const isSelected = selectedMyAssets.some(a => a.type === player.assetType && a.id === player.assetId);
-                             return (
-                               <div key={`${player.assetType}-${player.assetId}`} 
-                                    className={`flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer ${isSelected ? 'bg-accent' : ''}`}
-                                    onClick={() => toggleAssetSelection(player, true)}
-                               >
-                                 <Checkbox checked={isSelected} onCheckedChange={() => toggleAssetSelection(player, true)} />
-                                 <div className="flex-1">
-                                   <p className="font-medium">{player.name}</p>
-                                   <p className="text-xs text-muted-foreground capitalize">{player.assetType}</p>
-                                 </div>
-                               </div>
-                             );
-                          })}
-                        </div>
-                      )}
+                      {renderAssetPicker(myRoster, myTeam.id, "Your roster is empty.")}
                     </ScrollArea>
                   )}
 
                   {/* Step 3: Select Their Assets */}
                   {tradeStep === 3 && (
                     <ScrollArea className="h-[300px] rounded-md border p-4">
-                       {targetRoster.length === 0 ? (
-                        <p className="text-center text-muted-foreground">Their roster is empty.</p>
-                      ) : (
-                        <div className="space-y-2">
-                          {targetRoster.map((player: any) => {
-                             const isSelected = selectedTargetAssets.some(a => a.type === player.assetType && a.id === player.assetId);
-                             return (
-                               <div key={`${player.assetType}-${player.assetId}`} 
-                                    className={`flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer ${isSelected ? 'bg-accent' : ''}`}
-                                    onClick={() => toggleAssetSelection(player, false)}
-                               >
-                                 <Checkbox checked={isSelected} onCheckedChange={() => toggleAssetSelection(player, false)} />
-                                 <div className="flex-1">
-                                   <p className="font-medium">{player.name}</p>
-                                   <p className="text-xs text-muted-foreground capitalize">{player.assetType}</p>
-                                 </div>
-                               </div>
-                             );
-                          })}
-                        </div>
-                      )}
+                      <div className="space-y-4">
+                        {tradeTeams.slice(1).map(team => (
+                          <PartnerRoster key={team.id} teamId={team.id}>
+                            {(roster) => (
+                              <div>
+                                <h4 className="font-bold mb-2 text-sm text-muted-foreground uppercase">{team.name}</h4>
+                                {renderAssetPicker(roster, team.id, "Their roster is empty.")}
+                              </div>
+                            )}
+                          </PartnerRoster>
+                        ))}
+                      </div>
                     </ScrollArea>
                   )}
 
                   {/* Step 4: Review */}
                   {tradeStep === 4 && (
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="border rounded-lg p-4">
-                        <h4 className="font-bold mb-2 text-sm text-muted-foreground uppercase">You Give</h4>
-                        {selectedMyAssets.length > 0 ? (
-                          <ul className="space-y-1 text-sm">
-                            {selectedMyAssets.map((a, i) => (
-                              <li key={i} className="flex items-center gap-2">
-                                <ArrowRight className="w-3 h-3 text-red-500" /> {a.name}
-                              </li>
-                            ))}
-                          </ul>
-                        ) : <p className="text-sm text-muted-foreground italic">Nothing</p>}
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        {tradeTeams.map(team => {
+                          const received = selectedAssets.filter(a => a.toTeamId === team.id);
+                          return (
+                            <div key={team.id} className="border rounded-lg p-4">
+                              <h4 className="font-bold mb-2 text-sm text-muted-foreground uppercase">
+                                {team.id === myTeam.id ? "You Get" : `${team.name} Gets`}
+                              </h4>
+                              {received.length > 0 ? (
+                                <ul className="space-y-1 text-sm">
+                                  {received.map((a, i) => (
+                                    <li key={i} className="flex items-center gap-2">
+                                      {team.id === myTeam.id
+                                        ? <ArrowRightLeft className="w-3 h-3 text-green-500" />
+                                        : <ArrowRight className="w-3 h-3 text-red-500" />}
+                                      {a.name}
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : <p className="text-sm text-muted-foreground italic">Nothing</p>}
+                            </div>
+                          );
+                        })}
                       </div>
-                      <div className="border rounded-lg p-4">
-                        <h4 className="font-bold mb-2 text-sm text-muted-foreground uppercase">You Get</h4>
-                        {selectedTargetAssets.length > 0 ? (
-                          <ul className="space-y-1 text-sm">
-                            {selectedTargetAssets.map((a, i) => (
-                              <li key={i} className="flex items-center gap-2">
-                                <ArrowRightLeft className="w-3 h-3 text-green-500" /> {a.name}
-                              </li>
-                            ))}
-                          </ul>
-                        ) : <p className="text-sm text-muted-foreground italic">Nothing</p>}
+                      {isAnalyzing ? (
+                        <Loader2 className="w-4 h-4 animate-spin mx-auto" />
+                      ) : previewAnalysis && (
+                        <TradeAnalysisPanel analysis={previewAnalysis} currentTeamId={myTeam.id} />
+                      )}
+                      <div className="grid md:grid-cols-[180px_1fr] gap-4">
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Offer expires</label>
+                          <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {EXPIRATION_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Message (optional)</label>
+                          <Textarea
+                            value={offerMessage}
+                            maxLength={500}
+                            rows={2}
+                            placeholder="Pitch your offer..."
+                            onChange={(e) => setOfferMessage(e.target.value)}
+                          />
+                        </div>
                       </div>
                     </div>
                   )}
@@ -285,9 +453,9 @@ export default function Trades() {
                   {tradeStep < 4 ? (
                     <Button onClick={handleNextStep}>Next <ChevronRight className="w-4 h-4 ml-1" /></Button>
                   ) : (
-                    <Button onClick={handleSubmitTrade} disabled={proposeTrade.isPending}>
-                      {proposeTrade.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Check className="w-4 h-4 mr-2" />}
-                      Confirm Proposal
+                    <Button onClick={handleSubmitTrade} disabled={isSubmitting}>
+                      {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Check className="w-4 h-4 mr-2" />}
+                      {counterTradeId ? "Send Counter-Offer" : "Confirm Proposal"}
                     </Button>
                   )}
                 </DialogFooter>
@@ -299,19 +467,27 @@ export default function Trades() {
             <TabsList>
               <TabsTrigger value="active">Active Trades</TabsTrigger>
               <TabsTrigger value="history">Trade History</TabsTrigger>
+              <TabsTrigger value="block">Trade Block</TabsTrigger>
             </TabsList>
 
             <TabsContent value="active" className="space-y-4">
-               {trades.filter((t: any) => t.status === 'proposed').length > 0 ? (
+               {trades.filter(isActive).length > 0 ? (
                  <div className="grid gap-4">
-                   {trades.filter((t: any) => t.status === 'proposed').map((trade: any) => (
+                   {trades.filter(isActive).map((trade) => (
                      <TradeCard 
                         key={trade.id} 
                         trade={trade} 
+                        thread={getNegotiationThread(trade)}
                         currentTeamId={myTeam.id} 
+                        isCommissioner={isCommissioner}
                         onAccept={(id) => acceptTrade.mutate({ tradeId: id })}
+                        onCounter={startCounterOffer}
                         onReject={(id) => rejectTrade.mutate({ tradeId: id })}
-                        isActionPending={acceptTrade.isPending || rejectTrade.isPending}
+                        onVoteVeto={(id) => voteVeto.mutate({ tradeId: id })}
+                        onCommissionerVeto={(id) => commissionerVeto.mutate({ tradeId: id })}
+                        isActionPending={
+                          acceptTrade.isPending || rejectTrade.isPending || voteVeto.isPending || commissionerVeto.isPending
+                        }
                      />
                    ))}
                  </div>
@@ -325,12 +501,13 @@ export default function Trades() {
             </TabsContent>
 
             <TabsContent value="history" className="space-y-4">
-               {trades.filter((t: any) => t.status !== 'proposed').length > 0 ? (
+               {trades.filter(t => !isActive(t)).length > 0 ? (
                  <div className="grid gap-4">
-                   {trades.filter((t: any) => t.status !== 'proposed').map((trade: any) => (
+                   {trades.filter(t => !isActive(t)).map((trade) => (
                      <TradeCard 
                         key={trade.id} 
                         trade={trade} 
+                        thread={getNegotiationThread(trade)}
                         currentTeamId={myTeam.id} 
                         readonly
                      />
@@ -344,6 +521,16 @@ export default function Trades() {
                  </Card>
                )}
             </TabsContent>
+
+            <TabsContent value="block" className="space-y-4">
+              <TradeBlock
+                leagueId={leagueId}
+                myTeamId={myTeam.id}
+                otherTeams={potentialPartners.map((t: any) => ({ id: t.id, name: t.name }))}
+                myRoster={myRoster}
+                onMakeOffer={startOfferFromBlock}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       </main>
@@ -351,14 +538,93 @@ export default function Trades() {
   );
 }
 
-function TradeCard({ trade, currentTeamId, onAccept, onReject, isActionPending, readonly }: any) {
-  const isIncoming = trade.team2Id === currentTeamId;
-  const isOutgoing = trade.team1Id === currentTeamId;
-  
-  // Parse JSON assets safely if needed, though TRPC usually handles it if defined in router output schema?
-  // The schema says json(), so it comes as object/array.
-  const assetsGiven = Array.isArray(trade.team1Assets) ? trade.team1Assets : [];
-  const assetsReceived = Array.isArray(trade.team2Assets) ? trade.team2Assets : [];
+const MAX_TRADE_PARTNERS = 3;
+
+const EXPIRATION_OPTIONS = [
+  { value: "none", label: "Never" },
+  { value: "6", label: "In 6 hours" },
+  { value: "24", label: "In 1 day" },
+  { value: "72", label: "In 3 days" },
+  { value: "168", label: "In 1 week" },
+];
+
+type TradeAssetSelection = {
+  type: "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand" | "draft_pick";
+  id: number;
+  name: string;
+  fromTeamId: number;
+  toTeamId: number;
+};
+
+function PartnerRoster({ teamId, children }: { teamId: number; children: (roster: any[]) => ReactNode }) {
+  const { data: roster = [], isLoading } = trpc.roster.getTeamRoster.useQuery({ teamId });
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin mx-auto" />;
+  }
+  // getTeamRoster names assets "assetName", the picker expects "name"
+  return <>{children(roster.map((entry: any) => ({ ...entry, name: entry.assetName })))}</>;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  proposed: "secondary",
+  in_review: "outline",
+  accepted: "default",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  proposed: "PROPOSED",
+  in_review: "IN REVIEW",
+  accepted: "COMPLETED",
+  rejected: "REJECTED",
+  vetoed: "VETOED",
+  failed: "FAILED",
+  countered: "COUNTERED",
+  expired: "EXPIRED",
+};
+
+function TradeAnalysisSection({ tradeId, currentTeamId }: { tradeId: number; currentTeamId: number }) {
+  const { data: analysis, isLoading } = trpc.trade.analyzeTrade.useQuery({ tradeId });
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin mx-auto" />;
+  }
+  return analysis ? <TradeAnalysisPanel analysis={analysis} currentTeamId={currentTeamId} /> : null;
+}
+
+interface TradeCardProps {
+  trade: any;
+  /** Earlier offers this trade counters, oldest first */
+  thread?: any[];
+  currentTeamId: number;
+  isCommissioner?: boolean;
+  onAccept?: (tradeId: number) => void;
+  onCounter?: (trade: any) => void;
+  onReject?: (tradeId: number) => void;
+  onVoteVeto?: (tradeId: number) => void;
+  onCommissionerVeto?: (tradeId: number) => void;
+  isActionPending?: boolean;
+  readonly?: boolean;
+}
+
+function TradeCard({
+  trade,
+  thread = [],
+  currentTeamId,
+  isCommissioner,
+  onAccept,
+  onCounter,
+  onReject,
+  onVoteVeto,
+  onCommissionerVeto,
+  isActionPending,
+  readonly,
+}: TradeCardProps) {
+  const me = trade.participants.find((p: any) => p.teamId === currentTeamId);
+  const isOutgoing = me?.status === "proposer";
+  const isIncoming = !!me && !isOutgoing;
+  const canRespond = trade.status === "proposed" && me?.status === "pending";
+  const canVote = trade.status === "in_review" && !me && !trade.vetoVoterTeamIds.includes(currentTeamId);
+  // Commissioners see the analysis of trades under review right away to spot lopsided deals
+  const [showAnalysis, setShowAnalysis] = useState(!!isCommissioner && trade.status === "in_review");
 
   return (
     <Card>
@@ -366,62 +632,130 @@ function TradeCard({ trade, currentTeamId, onAccept, onReject, isActionPending,
         <div className="flex justify-between items-start">
           <div>
             <CardTitle className="text-lg">
-               {isIncoming ? "Trade Offer Received" : isOutgoing ? "Trade Offer Sent" : "Trade Offer"}
+               {trade.parentTradeId
+                 ? (isIncoming ? "Counter-Offer Received" : isOutgoing ? "Counter-Offer Sent" : "League Trade")
+                 : (isIncoming ? "Trade Offer Received" : isOutgoing ? "Trade Offer Sent" : "League Trade")}
+               {trade.participants.length > 2 && ` (${trade.participants.length} teams)`}
             </CardTitle>
             <CardDescription>
               {new Date(trade.createdAt).toLocaleDateString()}
+              {" • "}
+              {trade.participants.map((p: any) => `${p.teamName} (${p.status})`).join(", ")}
             </CardDescription>
           </div>
-          <Badge variant={trade.status === 'proposed' ? 'secondary' : trade.status === 'accepted' ? 'default' : 'destructive'}>
-            {trade.status.toUpperCase()}
+          <Badge variant={STATUS_VARIANTS[trade.status] || 'destructive'}>
+            {STATUS_LABELS[trade.status] || trade.status.toUpperCase()}
           </Badge>
         </div>
       </CardHeader>
-      <CardContent>
-        <div className="grid grid-cols-2 gap-8">
-           <div>
-             <p className="text-xs font-bold text-muted-foreground uppercase mb-2">
-               {isOutgoing ? "You Offer" : "They Offer"}
-             </p>
-             {assetsGiven.length > 0 ? (
-               <ul className="space-y-1 text-sm">
-                 {assetsGiven.map((a: any, i: number) => (
-                   <li key={i} className="flex items-center gap-2">
-                     <span className="font-medium">Asset #{a.id}</span> <span className="text-xs text-muted-foreground">({a.type})</span>
-                   </li>
-                 ))}
-               </ul>
-             ) : <span className="text-sm text-muted-foreground italic">Nothing</span>}
-           </div>
-           <div>
-             <p className="text-xs font-bold text-muted-foreground uppercase mb-2">
-               {isOutgoing ? "You Receive" : "They Receive"}
-             </p>
-             {assetsReceived.length > 0 ? (
-               <ul className="space-y-1 text-sm">
-                 {assetsReceived.map((a: any, i: number) => (
-                   <li key={i} className="flex items-center gap-2">
-                     <span className="font-medium">Asset #{a.id}</span> <span className="text-xs text-muted-foreground">({a.type})</span>
-                   </li>
-                 ))}
-               </ul>
-             ) : <span className="text-sm text-muted-foreground italic">Nothing</span>}
-           </div>
+      <CardContent className="space-y-4">
+        {thread.length > 0 && (
+          <div className="rounded-md border bg-muted/40 p-3 space-y-2">
+            <p className="text-xs font-bold text-muted-foreground uppercase">Negotiation</p>
+            {thread.map((offer: any) => (
+              <div key={offer.id} className="text-sm">
+                <span className="font-medium">
+                  {offer.participants.find((p: any) => p.status === "proposer")?.teamName || "Unknown Team"}
+                </span>
+                <span className="text-muted-foreground">
+                  {" "}offered {new Date(offer.createdAt).toLocaleDateString()}:{" "}
+                  {offer.assets.map((a: any) => `${a.assetName} → ${a.toTeamName}`).join(", ")}
+                </span>
+                {offer.message && <p className="text-xs italic text-muted-foreground">"{offer.message}"</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {trade.message && (
+          <div className="flex items-start gap-2 text-sm">
+            <MessageSquare className="w-4 h-4 mt-0.5 text-muted-foreground" />
+            <span className="italic">"{trade.message}"</span>
+          </div>
+        )}
+
+        <div className={`grid gap-8 ${trade.participants.length > 2 ? 'md:grid-cols-3' : 'grid-cols-2'}`}>
+          {trade.participants.map((participant: any) => {
+            const received = trade.assets.filter((a: any) => a.toTeamId === participant.teamId);
+            return (
+              <div key={participant.teamId}>
+                <p className="text-xs font-bold text-muted-foreground uppercase mb-2">
+                  {participant.teamId === currentTeamId ? "You Receive" : `${participant.teamName} Receives`}
+                </p>
+                {received.length > 0 ? (
+                  <ul className="space-y-1 text-sm">
+                    {received.map((a: any) => (
+                      <li key={a.id} className="flex flex-col">
+                        <span className="font-medium">{a.assetName}</span>
+                        <span className="text-xs text-muted-foreground">{a.assetLabel} from {a.fromTeamName}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : <span className="text-sm text-muted-foreground italic">Nothing</span>}
+              </div>
+            );
+          })}
         </div>
+
+        {trade.status === "in_review" && trade.reviewEndsAt && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            Processes {new Date(trade.reviewEndsAt).toLocaleString()} • Veto votes {trade.vetoVotes}/{trade.vetoThreshold}
+          </div>
+        )}
+        {trade.status === "proposed" && trade.expiresAt && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            Offer expires {new Date(trade.expiresAt).toLocaleString()}
+          </div>
+        )}
+        {showAnalysis ? (
+          <TradeAnalysisSection tradeId={trade.id} currentTeamId={currentTeamId} />
+        ) : (
+          <Button variant="ghost" size="sm" className="px-0" onClick={() => setShowAnalysis(true)}>
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Analyze Trade
+          </Button>
+        )}
+        {trade.status === "failed" && trade.failureReason && (
+          <p className="text-sm text-destructive">{trade.failureReason}</p>
+        )}
       </CardContent>
-      {!readonly && isIncoming && (
+      {!readonly && (canRespond || isOutgoing || canVote || isCommissioner) && (
         <CardFooter className="flex justify-end gap-3 border-t pt-4">
-          <Button variant="outline" onClick={() => onReject?.(trade.id)} disabled={isActionPending}>
-             Reject
-          </Button>
-          <Button onClick={() => onAccept?.(trade.id)} disabled={isActionPending}>
-             Accept Trade
-          </Button>
-        </CardFooter>
-      )}
-      {!readonly && isOutgoing && (
-        <CardFooter className="flex justify-end border-t pt-4">
-           <Button variant="ghost" disabled>Waiting for response...</Button>
+          {isCommissioner && (
+            <Button variant="ghost" onClick={() => onCommissionerVeto?.(trade.id)} disabled={isActionPending}>
+              <Gavel className="w-4 h-4 mr-2" />
+              Commissioner Veto
+            </Button>
+          )}
+          {canVote && (
+            <Button variant="outline" onClick={() => onVoteVeto?.(trade.id)} disabled={isActionPending}>
+              Vote to Veto
+            </Button>
+          )}
+          {canRespond && (
+            <>
+              <Button variant="outline" onClick={() => onReject?.(trade.id)} disabled={isActionPending}>
+                 Reject
+              </Button>
+              <Button variant="outline" onClick={() => onCounter?.(trade)} disabled={isActionPending}>
+                 <Reply className="w-4 h-4 mr-2" />
+                 Counter
+              </Button>
+              <Button onClick={() => onAccept?.(trade.id)} disabled={isActionPending}>
+                 Accept Trade
+              </Button>
+            </>
+          )}
+          {isOutgoing && trade.status === "proposed" && (
+            <Button variant="outline" onClick={() => onReject?.(trade.id)} disabled={isActionPending}>
+              Withdraw
+            </Button>
+          )}
+          {isIncoming && !canRespond && trade.status === "proposed" && (
+            <Button variant="ghost" disabled>Waiting for other teams...</Button>
+          )}
         </CardFooter>
       )}
     </Card>
@@ -8,17 +8,21 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Loader2, Gavel } from "lucide-react";
+import { Loader2, Gavel, Clock, ArrowUp, ArrowDown } from "lucide-react";
 import { toast } from "sonner";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const statusVariants: Record<string, "default" | "destructive" | "secondary"> = {
   pending: "secondary",
   success: "default",
   failed: "destructive",
+  skipped: "secondary",
   error: "destructive",
 };
 
+const CLAIM_GROUPS = [1, 2, 3, 4, 5];
+
 function formatCurrency(value: number) {
   return `$${value.toLocaleString("en-US")}`;
 }
@@ -36,6 +40,7 @@ export default function Waivers() {
   const leagueId = parseInt(id!);
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("claims");
+  const [ledgerTeamId, setLedgerTeamId] = useState<number | null>(null);
 
   // Fetch league details
   const { data: league } = trpc.league.getById.useQuery({ leagueId });
@@ -55,6 +60,34 @@ export default function Waivers() {
     refetch: refetchLog,
   } = trpc.waiver.getTransactionLog.useQuery({ leagueId }, { enabled: !!leagueId });
 
+  const { data: waiverStatus, refetch: refetchStatus } = trpc.waiver.getWaiverStatus.useQuery(
+    { leagueId },
+    { enabled: !!leagueId }
+  );
+
+  const { data: ledger } = trpc.waiver.getFaabLedger.useQuery(
+    { leagueId },
+    { enabled: !!leagueId && activeTab === "ledger" }
+  );
+
+  const updateClaim = trpc.waiver.updateClaim.useMutation({
+    onSuccess: () => refetchClaims(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const reorderClaims = trpc.waiver.reorderClaims.useMutation({
+    onSuccess: () => refetchClaims(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const moveClaim = (index: number, direction: -1 | 1) => {
+    const ids = claims.map((claim: any) => claim.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderClaims.mutate({ leagueId, claimIds: ids });
+  };
+
   const cancelClaim = trpc.waiver.cancelClaim.useMutation({
     onSuccess: () => {
       toast.success("Waiver claim cancelled");
@@ -70,6 +103,7 @@ export default function Waivers() {
       });
       refetchClaims();
       refetchLog();
+      refetchStatus();
     },
     onError: (error) => toast.error(error.message),
   });
@@ -83,7 +117,10 @@ export default function Waivers() {
   }
 
   const isCommissioner = league.commissionerUserId === user?.id;
-  const lastProcessedAt = transactionLog?.[0]?.processedAt;
+  const faabEnabled = waiverStatus?.faabEnabled ?? true;
+  const ledgerTeam = ledger?.teams.find((t) => t.teamId === (ledgerTeamId ?? myTeam.id));
+  const lastProcessedAt =
+    waiverStatus?.lastRunAt ?? transactionLog?.find((entry: any) => entry.kind === "waiver")?.processedAt;
 
   return (
     <div className="min-h-screen bg-background">
@@ -110,11 +147,15 @@ export default function Waivers() {
             <div className="flex items-center gap-4">
               <Card className="w-full md:w-auto">
                 <CardContent className="p-4 flex items-center gap-4">
-                  <div>
-                    <p className="text-sm font-medium text-muted-foreground">Your FAAB</p>
-                    <p className="text-2xl font-bold">{formatCurrency(myTeam.faabBudget)}</p>
-                  </div>
-                  <div className="h-10 w-px bg-border" />
+                  {faabEnabled && (
+                    <>
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Your FAAB</p>
+                        <p className="text-2xl font-bold">{formatCurrency(myTeam.faabBudget)}</p>
+                      </div>
+                      <div className="h-10 w-px bg-border" />
+                    </>
+                  )}
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Waiver Priority</p>
                     <p className="text-2xl font-bold">#{myTeam.waiverPriority}</p>
@@ -124,12 +165,30 @@ export default function Waivers() {
             </div>
           </div>
 
+          {waiverStatus && (
+            <Alert>
+              <Clock className="h-4 w-4" />
+              <AlertTitle>Next Waiver Run: {formatTimestamp(waiverStatus.nextRunAt)}</AlertTitle>
+              <AlertDescription>
+                {waiverStatus.waiverType === "reverse_standings"
+                  ? "Priority follows reverse standings"
+                  : "Rolling priority: a successful claim moves your team to the back of the line"}
+                {waiverStatus.faabEnabled &&
+                  ` • blind FAAB bids, minimum $${waiverStatus.faabMinBid}${waiverStatus.faabAllowZeroBids ? " ($0 allowed)" : ""}, ties go to ${waiverStatus.faabTiebreaker === "earliest" ? "the earliest bid" : "waiver priority"}`}
+                {waiverStatus.waiverPeriodDays > 0
+                  ? ` • dropped assets stay on waivers for ${waiverStatus.waiverPeriodDays} day${waiverStatus.waiverPeriodDays === 1 ? "" : "s"}.`
+                  : " • dropped assets become free agents right away."}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {isCommissioner && (
             <Alert>
               <Gavel className="h-4 w-4" />
               <AlertTitle>Commissioner Tools</AlertTitle>
               <AlertDescription className="flex flex-col gap-2 mt-2 md:flex-row md:items-center md:justify-between">
                 <span>
+                  Claims are processed automatically.{" "}
                   {lastProcessedAt
                     ? `Last processed ${formatTimestamp(lastProcessedAt)}`
                     : "Waivers have not been processed yet."}
@@ -149,7 +208,9 @@ export default function Waivers() {
           <Tabs defaultValue="claims" value={activeTab} onValueChange={setActiveTab}>
             <TabsList>
               <TabsTrigger value="claims">My Claims</TabsTrigger>
+              <TabsTrigger value="wire">On Waivers</TabsTrigger>
               <TabsTrigger value="log">Transaction Log</TabsTrigger>
+              {faabEnabled && <TabsTrigger value="ledger">FAAB Ledger</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="claims" className="space-y-4">
@@ -157,7 +218,8 @@ export default function Waivers() {
                 <CardHeader>
                   <CardTitle>Pending Claims</CardTitle>
                   <CardDescription>
-                    Active bids awaiting the next processing window.
+                    Active bids awaiting the next processing window, in order of preference. Claims in the same
+                    group are conditional: a claim only runs if the ones ranked above it in its group failed.
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -169,16 +231,41 @@ export default function Waivers() {
                     <Table>
                       <TableHeader>
                         <TableRow>
+                          <TableHead>Rank</TableHead>
                           <TableHead>Player to Add</TableHead>
                           <TableHead>Player to Drop</TableHead>
-                          <TableHead>Bid</TableHead>
+                          {faabEnabled && <TableHead>Bid</TableHead>}
+                          <TableHead>Group</TableHead>
                           <TableHead>Submitted</TableHead>
                           <TableHead className="text-right">Action</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {claims.map((claim: any) => (
+                        {claims.map((claim: any, index: number) => (
                           <TableRow key={claim.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <span className="w-5 font-medium">{index + 1}</span>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => moveClaim(index, -1)}
+                                  disabled={index === 0 || reorderClaims.isPending}
+                                >
+                                  <ArrowUp className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => moveClaim(index, 1)}
+                                  disabled={index === claims.length - 1 || reorderClaims.isPending}
+                                >
+                                  <ArrowDown className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </TableCell>
                             <TableCell>
                               <div className="flex flex-col">
                                 <span className="font-medium">{claim.addAssetName}</span>
@@ -199,7 +286,30 @@ export default function Waivers() {
                                 <span className="text-sm text-muted-foreground">None</span>
                               )}
                             </TableCell>
-                            <TableCell>{formatCurrency(claim.bidAmount)}</TableCell>
+                            {faabEnabled && <TableCell>{formatCurrency(claim.bidAmount)}</TableCell>}
+                            <TableCell>
+                              <Select
+                                value={claim.claimGroup?.toString() ?? "none"}
+                                onValueChange={(value) =>
+                                  updateClaim.mutate({
+                                    claimId: claim.id,
+                                    claimGroup: value === "none" ? null : parseInt(value),
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="w-[110px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">None</SelectItem>
+                                  {CLAIM_GROUPS.map((group) => (
+                                    <SelectItem key={group} value={group.toString()}>
+                                      Group {group}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
                             <TableCell>{formatTimestamp(claim.createdAt)}</TableCell>
                             <TableCell className="text-right">
                               <Button
@@ -224,12 +334,54 @@ export default function Waivers() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="wire" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>On Waivers</CardTitle>
+                  <CardDescription>
+                    Recently dropped assets. They can only be claimed until they clear, then anyone can add them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {waiverStatus && waiverStatus.onWaivers.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Asset</TableHead>
+                          <TableHead>Dropped</TableHead>
+                          <TableHead>Clears</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {waiverStatus.onWaivers.map((hold) => (
+                          <TableRow key={hold.id}>
+                            <TableCell>
+                              <div className="flex flex-col">
+                                <span className="font-medium">{hold.assetName}</span>
+                                <span className="text-xs text-muted-foreground">{hold.assetLabel}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatTimestamp(hold.createdAt)}</TableCell>
+                            <TableCell>{formatTimestamp(hold.clearsWithRunAt)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-12 text-muted-foreground">
+                      No assets are on waivers right now.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="log" className="space-y-4">
               <Card>
                 <CardHeader>
                   <CardTitle>Transaction Log</CardTitle>
                   <CardDescription>
-                    Recent waiver outcomes for everyone in the league.
+                    Recent waiver outcomes and completed trades for everyone in the league.
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -250,8 +402,28 @@ export default function Waivers() {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {transactionLog.map((entry: any) => (
-                          <TableRow key={entry.id}>
+                        {transactionLog.map((entry: any) => entry.kind === "trade" ? (
+                          <TableRow key={`trade-${entry.id}`}>
+                            <TableCell>{formatTimestamp(entry.processedAt)}</TableCell>
+                            <TableCell>{entry.teamName}</TableCell>
+                            <TableCell colSpan={3}>
+                              <div className="flex flex-col gap-1">
+                                {entry.moves.map((move: any, index: number) => (
+                                  <span key={index} className="text-sm">
+                                    <span className="font-medium">{move.assetName}</span>{" "}
+                                    <span className="text-xs text-muted-foreground">
+                                      ({move.assetLabel}) {move.fromTeamName} → {move.toTeamName}
+                                    </span>
+                                  </span>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">trade</Badge>
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          <TableRow key={`waiver-${entry.id}`}>
                             <TableCell>{formatTimestamp(entry.processedAt)}</TableCell>
                             <TableCell>{entry.teamName}</TableCell>
                             <TableCell>
@@ -276,9 +448,18 @@ export default function Waivers() {
                             </TableCell>
                             <TableCell>{formatCurrency(entry.bidAmount)}</TableCell>
                             <TableCell>
-                              <Badge variant={statusVariants[entry.status] || "secondary"}>
-                                {entry.status}
-                              </Badge>
+                              {entry.claimType === "free_agent" ? (
+                                <Badge variant="outline">free agent</Badge>
+                              ) : (
+                                <div className="flex flex-col items-start gap-1">
+                                  <Badge variant={statusVariants[entry.status] || "secondary"}>
+                                    {entry.status}
+                                  </Badge>
+                                  {entry.statusReason && (
+                                    <span className="text-xs text-muted-foreground">{entry.statusReason}</span>
+                                  )}
+                                </div>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -286,8 +467,89 @@ export default function Waivers() {
                     </Table>
                   ) : (
                     <div className="text-center py-12 text-muted-foreground">
-                      No waiver activity has been processed yet.
+                      No waivers or trades have been processed yet.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="ledger" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>FAAB Ledger</CardTitle>
+                  <CardDescription>
+                    Every team starts with {formatCurrency(ledger?.startingBudget ?? 0)}. Winning bids are
+                    deducted when waivers run.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {!ledger ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="h-6 w-6 animate-spin" />
                     </div>
+                  ) : (
+                    <>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Team</TableHead>
+                            <TableHead>Claims Won</TableHead>
+                            <TableHead>Spent</TableHead>
+                            <TableHead className="text-right">Remaining</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {ledger.teams.map((team) => (
+                            <TableRow
+                              key={team.teamId}
+                              className={`cursor-pointer ${team.teamId === ledgerTeam?.teamId ? "bg-muted/50" : ""}`}
+                              onClick={() => setLedgerTeamId(team.teamId)}
+                            >
+                              <TableCell className="font-medium">
+                                {team.teamName}
+                                {team.teamId === myTeam.id && " (You)"}
+                              </TableCell>
+                              <TableCell>{team.claimsWon}</TableCell>
+                              <TableCell>{formatCurrency(team.spent)}</TableCell>
+                              <TableCell className="text-right font-bold">{formatCurrency(team.faabBudget)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+
+                      {ledgerTeam && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">{ledgerTeam.teamName}: budget history</p>
+                          {ledgerTeam.entries.length > 0 ? (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Date</TableHead>
+                                  <TableHead>Entry</TableHead>
+                                  <TableHead>Amount</TableHead>
+                                  <TableHead className="text-right">Balance</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {ledgerTeam.entries.map((entry) => (
+                                  <TableRow key={entry.id}>
+                                    <TableCell>{formatTimestamp(entry.createdAt)}</TableCell>
+                                    <TableCell>{entry.note || entry.kind}</TableCell>
+                                    <TableCell className={entry.amount < 0 ? "text-red-600" : "text-green-600"}>
+                                      {entry.amount < 0 ? "-" : "+"}{formatCurrency(Math.abs(entry.amount))}
+                                    </TableCell>
+                                    <TableCell className="text-right">{formatCurrency(entry.balanceAfter)}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">No FAAB spent yet.</p>
+                          )}
+                        </div>
+                      )}
+                    </>
                   )}
                 </CardContent>
               </Card>
@@ -0,0 +1,17 @@
+-- Nightly ADP and draft analytics per asset and draft format
+CREATE TABLE IF NOT EXISTS "assetDraftStats" (
+  "id" SERIAL PRIMARY KEY,
+  "draftFormat" VARCHAR(20) NOT NULL,
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "adp" DECIMAL(6, 2) NOT NULL,
+  "minPick" INTEGER NOT NULL,
+  "maxPick" INTEGER NOT NULL,
+  "timesDrafted" INTEGER NOT NULL,
+  "draftPercentage" DECIMAL(5, 1) NOT NULL,
+  "averagePrice" DECIMAL(8, 2),
+  "computedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT "asset_draft_stats_format_asset_unique" UNIQUE ("draftFormat", "assetType", "assetId")
+);
+
+CREATE INDEX IF NOT EXISTS "asset_draft_stats_format_idx" ON "assetDraftStats" ("draftFormat");
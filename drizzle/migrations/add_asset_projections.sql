@@ -0,0 +1,16 @@
+-- Next-day / next-week point projections per asset, one row per projected day
+CREATE TABLE IF NOT EXISTS "assetProjections" (
+  "id" SERIAL PRIMARY KEY,
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "projectionDate" DATE NOT NULL,
+  "basedOnDate" DATE NOT NULL,
+  "nextDayPoints" INTEGER DEFAULT 0 NOT NULL,
+  "nextWeekPoints" INTEGER DEFAULT 0 NOT NULL,
+  "signals" JSON NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT "asset_projections_asset_date_unique" UNIQUE ("assetType", "assetId", "projectionDate")
+);
+
+CREATE INDEX IF NOT EXISTS "asset_projections_date_idx" ON "assetProjections" ("projectionDate");
@@ -0,0 +1,7 @@
+-- Auction (salary-cap) draft support
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "auctionBudget" INT DEFAULT 200 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "auctionMinBid" INT DEFAULT 1 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "auctionBidTimeLimit" INT DEFAULT 30 NOT NULL; -- seconds, reset on every bid
+
+-- Winning bid for each auction pick (NULL for snake/linear drafts)
+ALTER TABLE "draftPicks" ADD COLUMN IF NOT EXISTS "price" INT;
@@ -0,0 +1,2 @@
+-- Odd team counts: the team on a bye can play the weekly league median instead of sitting out
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "byeMedianGame" BOOLEAN DEFAULT false NOT NULL;
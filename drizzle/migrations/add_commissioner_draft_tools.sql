@@ -0,0 +1,14 @@
+-- Commissioner draft tools: pausing the draft and an audit log of commissioner actions
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "draftPaused" INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "draftPausedRemaining" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "commissionerAuditLog" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "userId" INTEGER NOT NULL,
+  "action" VARCHAR(50) NOT NULL,
+  "details" JSON,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "commissioner_audit_league_idx" ON "commissionerAuditLog" ("leagueId");
@@ -0,0 +1,11 @@
+-- League divisions
+CREATE TABLE IF NOT EXISTS "divisions" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "name" VARCHAR(100) NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "division_league_idx" ON "divisions" ("leagueId");
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS "divisionId" INT;
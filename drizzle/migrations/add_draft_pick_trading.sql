@@ -0,0 +1,12 @@
+-- Tradable draft picks (current draft and next season's) and who holds them
+CREATE TABLE IF NOT EXISTS "draftPickOwnership" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "seasonYear" INTEGER NOT NULL,
+  "round" INTEGER NOT NULL,
+  "originalTeamId" INTEGER NOT NULL,
+  "ownerTeamId" INTEGER NOT NULL,
+  "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "draft_pick_ownership_unique" ON "draftPickOwnership" ("leagueId", "seasonYear", "round", "originalTeamId");
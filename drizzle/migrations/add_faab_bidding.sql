@@ -0,0 +1,25 @@
+-- FAAB blind bidding settings, ranked/conditional claims and the FAAB ledger
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "faabEnabled" BOOLEAN DEFAULT true NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "faabBudget" INT DEFAULT 100 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "faabMinBid" INT DEFAULT 1 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "faabAllowZeroBids" BOOLEAN DEFAULT true NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "faabTiebreaker" VARCHAR(20) DEFAULT 'priority' NOT NULL;
+
+ALTER TABLE "waiverClaims" ADD COLUMN IF NOT EXISTS "claimRank" INT DEFAULT 1 NOT NULL;
+ALTER TABLE "waiverClaims" ADD COLUMN IF NOT EXISTS "claimGroup" INT;
+ALTER TABLE "waiverClaims" ADD COLUMN IF NOT EXISTS "statusReason" VARCHAR(255);
+
+CREATE TABLE IF NOT EXISTS "faabTransactions" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "amount" INTEGER NOT NULL,
+  "balanceAfter" INTEGER NOT NULL,
+  "kind" VARCHAR(30) NOT NULL,
+  "waiverClaimId" INTEGER,
+  "note" VARCHAR(255),
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "faab_tx_team_idx" ON "faabTransactions" ("teamId");
+CREATE INDEX IF NOT EXISTS "faab_tx_league_idx" ON "faabTransactions" ("leagueId");
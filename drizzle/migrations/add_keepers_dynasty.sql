@@ -0,0 +1,19 @@
+-- Keeper and dynasty league support
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "keeperMode" VARCHAR(20) DEFAULT 'none' NOT NULL; -- 'none' | 'keeper' | 'dynasty'
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "maxKeepers" INT DEFAULT 0 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "previousLeagueId" INT;
+
+CREATE TABLE IF NOT EXISTS "keepers" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "originalRound" INTEGER NOT NULL,
+  "yearsKept" INTEGER DEFAULT 0 NOT NULL,
+  "roundCost" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "keeper_league_idx" ON "keepers" ("leagueId");
+CREATE UNIQUE INDEX IF NOT EXISTS "keeper_team_asset_unique" ON "keepers" ("teamId", "assetType", "assetId");
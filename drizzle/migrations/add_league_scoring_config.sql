@@ -0,0 +1,2 @@
+-- Per-league custom scoring rules (read when scoringType = 'custom')
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "scoringConfig" JSON;
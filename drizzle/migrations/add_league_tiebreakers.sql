@@ -0,0 +1,2 @@
+-- Ordered standings tiebreaker chain per league (NULL = default chain)
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "tiebreakers" JSON;
@@ -0,0 +1,2 @@
+-- Opt-in lineup optimization before each week for absentee managers
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS "autoManageLineup" BOOLEAN DEFAULT false NOT NULL;
@@ -0,0 +1,33 @@
+-- Private market leagues with league-scoped portfolios (marketLeagueId 0 = global market)
+CREATE TABLE IF NOT EXISTS "marketLeagues" (
+  "id" SERIAL PRIMARY KEY,
+  "name" VARCHAR(100) NOT NULL,
+  "ownerId" INTEGER NOT NULL,
+  "inviteCode" VARCHAR(10) NOT NULL,
+  "startingBankroll" DECIMAL(12, 2) DEFAULT '100' NOT NULL,
+  "startDate" DATE NOT NULL,
+  "endDate" DATE NOT NULL,
+  "allowedAssetTypes" JSON NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT "market_league_invite_unique" UNIQUE ("inviteCode")
+);
+
+CREATE TABLE IF NOT EXISTS "marketLeagueMembers" (
+  "id" SERIAL PRIMARY KEY,
+  "marketLeagueId" INTEGER NOT NULL,
+  "userId" INTEGER NOT NULL,
+  "joinedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT "market_league_member_unique" UNIQUE ("marketLeagueId", "userId")
+);
+
+CREATE INDEX IF NOT EXISTS "market_league_member_user_idx" ON "marketLeagueMembers" ("userId");
+
+ALTER TABLE "userPortfolios" ADD COLUMN IF NOT EXISTS "marketLeagueId" INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE "stockHoldings" ADD COLUMN IF NOT EXISTS "marketLeagueId" INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE "tradeHistory" ADD COLUMN IF NOT EXISTS "marketLeagueId" INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE "stockOrders" ADD COLUMN IF NOT EXISTS "marketLeagueId" INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE "userPortfolios" DROP CONSTRAINT IF EXISTS "user_portfolio_unique";
+ALTER TABLE "userPortfolios" ADD CONSTRAINT "user_portfolio_unique" UNIQUE ("userId", "marketLeagueId");
+ALTER TABLE "stockHoldings" DROP CONSTRAINT IF EXISTS "holdings_unique";
+ALTER TABLE "stockHoldings" ADD CONSTRAINT "holdings_unique" UNIQUE ("userId", "marketLeagueId", "assetType", "assetId", "isShort");
@@ -0,0 +1,58 @@
+-- Multi-team trades with review period and veto voting
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "tradeReviewHours" INT DEFAULT 0 NOT NULL;
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "reviewEndsAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "executedAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "failureReason" TEXT;
+
+CREATE TABLE IF NOT EXISTS "tradeParticipants" (
+  "id" SERIAL PRIMARY KEY,
+  "tradeId" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "status" VARCHAR(20) DEFAULT 'pending' NOT NULL, -- 'proposer' | 'pending' | 'accepted' | 'rejected'
+  "respondedAt" TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS "trade_participant_trade_idx" ON "tradeParticipants" ("tradeId");
+CREATE UNIQUE INDEX IF NOT EXISTS "trade_participant_unique" ON "tradeParticipants" ("tradeId", "teamId");
+
+CREATE TABLE IF NOT EXISTS "tradeAssets" (
+  "id" SERIAL PRIMARY KEY,
+  "tradeId" INTEGER NOT NULL,
+  "fromTeamId" INTEGER NOT NULL,
+  "toTeamId" INTEGER NOT NULL,
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "trade_asset_trade_idx" ON "tradeAssets" ("tradeId");
+
+CREATE TABLE IF NOT EXISTS "tradeVetoVotes" (
+  "id" SERIAL PRIMARY KEY,
+  "tradeId" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "trade_veto_vote_unique" ON "tradeVetoVotes" ("tradeId", "teamId");
+
+-- Backfill participants and assets for existing two-team trades
+INSERT INTO "tradeParticipants" ("tradeId", "teamId", "status")
+SELECT t."id", t."team1Id", 'proposer' FROM trades t
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "tradeParticipants" ("tradeId", "teamId", "status")
+SELECT t."id", t."team2Id",
+  CASE t."status" WHEN 'accepted' THEN 'accepted' WHEN 'rejected' THEN 'rejected' ELSE 'pending' END
+FROM trades t
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "tradeAssets" ("tradeId", "fromTeamId", "toTeamId", "assetType", "assetId")
+SELECT t."id", t."team1Id", t."team2Id", a->>'type', (a->>'id')::int
+FROM trades t, json_array_elements(t."team1Assets") a
+WHERE NOT EXISTS (SELECT 1 FROM "tradeAssets" ta WHERE ta."tradeId" = t."id");
+
+INSERT INTO "tradeAssets" ("tradeId", "fromTeamId", "toTeamId", "assetType", "assetId")
+SELECT t."id", t."team2Id", t."team1Id", a->>'type', (a->>'id')::int
+FROM trades t, json_array_elements(t."team2Assets") a
+WHERE NOT EXISTS (SELECT 1 FROM "tradeAssets" ta WHERE ta."tradeId" = t."id" AND ta."fromTeamId" = t."team2Id");
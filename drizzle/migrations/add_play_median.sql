@@ -0,0 +1,16 @@
+-- Optional "play the median" game: an extra weekly win/loss against the league median score
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "playMedian" BOOLEAN DEFAULT false NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "medianResults" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "year" INTEGER NOT NULL,
+  "week" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "teamScore" INTEGER NOT NULL,
+  "medianScore" NUMERIC(10, 1) NOT NULL,
+  "result" VARCHAR(10) NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "median_result_unique" ON "medianResults" ("leagueId", "year", "week", "teamId");
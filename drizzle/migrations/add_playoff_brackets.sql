@@ -0,0 +1,23 @@
+-- Automatic playoff progression: byes, two-week championship, consolation / toilet bowl brackets
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "playoffChampionshipWeeks" INT DEFAULT 1 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "playoffConsolation" VARCHAR(20) DEFAULT 'none' NOT NULL;
+
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS "playoffBracket" VARCHAR(20);
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS "playoffRound" INT;
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS "bracketSlot" INT;
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS "playoffLeg" INT;
+
+-- One matchup per bracket slot and leg, so concurrent advances can't schedule a round twice
+CREATE UNIQUE INDEX IF NOT EXISTS "matchup_playoff_slot_unique" ON "matchups" ("leagueId", "year", "playoffBracket", "playoffRound", "bracketSlot", "playoffLeg");
+
+CREATE TABLE IF NOT EXISTS "playoffSeeds" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "year" INTEGER NOT NULL,
+  "bracket" VARCHAR(20) NOT NULL,
+  "seed" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "playoff_seed_unique" ON "playoffSeeds" ("leagueId", "year", "bracket", "seed");
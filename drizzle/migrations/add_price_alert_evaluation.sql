@@ -0,0 +1,7 @@
+-- Price alert conditions beyond above/below, trigger price and opt-in email delivery
+ALTER TABLE "priceAlerts" ALTER COLUMN "direction" TYPE VARCHAR(20);
+ALTER TABLE "priceAlerts" ADD COLUMN IF NOT EXISTS "referencePrice" DECIMAL(10, 2);
+ALTER TABLE "priceAlerts" ADD COLUMN IF NOT EXISTS "notifyEmail" BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE "priceAlerts" ADD COLUMN IF NOT EXISTS "triggeredPrice" DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS "alert_active_idx" ON "priceAlerts" ("isTriggered");
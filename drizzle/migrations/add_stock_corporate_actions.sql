@@ -0,0 +1,15 @@
+-- Dividends, splits and delistings for stock market assets
+CREATE TABLE IF NOT EXISTS "stockCorporateActions" (
+  "id" SERIAL PRIMARY KEY,
+  "assetType" VARCHAR(20) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "assetName" VARCHAR(255),
+  "actionType" VARCHAR(20) NOT NULL,
+  "effectiveDate" DATE NOT NULL,
+  "amount" DECIMAL(12, 4) NOT NULL,
+  "note" VARCHAR(255),
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT "corporate_action_unique" UNIQUE ("assetType", "assetId", "actionType", "effectiveDate")
+);
+
+CREATE INDEX IF NOT EXISTS "corporate_action_asset_idx" ON "stockCorporateActions" ("assetType", "assetId");
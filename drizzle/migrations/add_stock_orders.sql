@@ -0,0 +1,21 @@
+-- Resting limit, stop-loss and take-profit orders for the stock market
+CREATE TABLE IF NOT EXISTS "stockOrders" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "assetType" VARCHAR(20) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "assetName" VARCHAR(255),
+  "orderType" VARCHAR(20) NOT NULL,
+  "shares" DECIMAL(10, 4) NOT NULL,
+  "triggerPrice" DECIMAL(10, 2) NOT NULL,
+  "timeInForce" VARCHAR(10) DEFAULT 'gtc' NOT NULL,
+  "reservedCash" DECIMAL(12, 2) DEFAULT '0' NOT NULL,
+  "status" VARCHAR(20) DEFAULT 'open' NOT NULL,
+  "statusReason" VARCHAR(255),
+  "filledPrice" DECIMAL(10, 2),
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  "closedAt" TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS "order_user_idx" ON "stockOrders" ("userId");
+CREATE INDEX IF NOT EXISTS "order_status_asset_idx" ON "stockOrders" ("status", "assetType", "assetId");
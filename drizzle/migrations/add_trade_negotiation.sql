@@ -0,0 +1,20 @@
+-- Trade counter-offers, expiration and trade block
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "parentTradeId" INTEGER;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "expiresAt" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS "message" TEXT;
+
+CREATE INDEX IF NOT EXISTS "trade_parent_idx" ON trades ("parentTradeId");
+
+CREATE TABLE IF NOT EXISTS "tradeBlockEntries" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "teamId" INTEGER NOT NULL,
+  "kind" VARCHAR(20) NOT NULL, -- 'shopping' | 'wanted'
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "note" TEXT,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "trade_block_league_idx" ON "tradeBlockEntries" ("leagueId");
+CREATE UNIQUE INDEX IF NOT EXISTS "trade_block_unique" ON "tradeBlockEntries" ("teamId", "kind", "assetType", "assetId");
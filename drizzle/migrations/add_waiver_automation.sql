@@ -0,0 +1,20 @@
+-- Scheduled waiver runs, waiver periods and free agent adds
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "waiverType" VARCHAR(30) DEFAULT 'rolling' NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "waiverPeriodDays" INT DEFAULT 2 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "waiverProcessDay" INT DEFAULT 3 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "waiverProcessHour" INT DEFAULT 10 NOT NULL;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS "lastWaiverRunAt" TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE "waiverClaims" ADD COLUMN IF NOT EXISTS "claimType" VARCHAR(20) DEFAULT 'waiver' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "waiverHolds" (
+  "id" SERIAL PRIMARY KEY,
+  "leagueId" INTEGER NOT NULL,
+  "assetType" VARCHAR(50) NOT NULL,
+  "assetId" INTEGER NOT NULL,
+  "droppedByTeamId" INTEGER NOT NULL,
+  "clearsAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "waiver_hold_unique" ON "waiverHolds" ("leagueId", "assetType", "assetId");
@@ -13,6 +13,42 @@ export const achievements = pgTable("achievements", {
 	(table) => [
 	]);
 
+// Nightly draft analytics per asset and draft format, across all completed drafts
+export const assetDraftStats = pgTable("assetDraftStats", {
+	id: serial().primaryKey(),
+	draftFormat: varchar({ length: 20 }).notNull(), // snake, linear, auction or challenge
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+	adp: decimal({ precision: 6, scale: 2 }).notNull(), // Average overall pick number
+	minPick: integer().notNull(),
+	maxPick: integer().notNull(),
+	timesDrafted: integer().notNull(),
+	draftPercentage: decimal({ precision: 5, scale: 1 }).notNull(), // Share of completed drafts that took the asset
+	averagePrice: decimal({ precision: 8, scale: 2 }), // Auction drafts only
+	computedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("asset_draft_stats_format_idx").on(table.draftFormat),
+		unique("asset_draft_stats_format_asset_unique").on(table.draftFormat, table.assetType, table.assetId),
+	]);
+
+export const assetProjections = pgTable("assetProjections", {
+	id: serial().primaryKey(),
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+	projectionDate: date({ mode: 'string' }).notNull(), // day the projection is for
+	basedOnDate: date({ mode: 'string' }).notNull(), // last stat day that went into it
+	nextDayPoints: integer().default(0).notNull(),
+	nextWeekPoints: integer().default(0).notNull(),
+	signals: json().notNull(), // trend, consistency, velocity and streak inputs
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("asset_projections_date_idx").on(table.projectionDate),
+		unique("asset_projections_asset_date_unique").on(table.assetType, table.assetId, table.projectionDate),
+	]);
+
 export const autoDraftBoards = pgTable("autoDraftBoards", {
 	id: serial().primaryKey(),
 	teamId: integer().notNull(),
@@ -229,12 +265,66 @@ export const draftPicks = pgTable("draftPicks", {
 	pickNumber: integer().notNull(),
 	assetType: varchar({ length: 50 }).notNull(),
 	assetId: integer().notNull(),
+	price: integer(), // Winning bid for auction drafts (null for snake/linear picks)
 	pickTime: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 },
 	(table) => [
 		unique("league_pick_idx").on(table.leagueId, table.pickNumber),
 	]);
 
+// Who holds each tradable draft pick. A pick is the draft season, round and the team whose slot it is
+export const draftPickOwnership = pgTable("draftPickOwnership", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(), // League the pick was created in; next season's picks move to the renewed league
+	seasonYear: integer().notNull(), // Draft the pick is used in
+	round: integer().notNull(),
+	originalTeamId: integer().notNull(),
+	ownerTeamId: integer().notNull(),
+	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		unique("draft_pick_ownership_unique").on(table.leagueId, table.seasonYear, table.round, table.originalTeamId),
+	]);
+
+// Commissioner interventions in a league (draft undo, pause, picks on behalf of a team, ...)
+export const commissionerAuditLog = pgTable("commissionerAuditLog", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	userId: integer().notNull(),
+	action: varchar({ length: 50 }).notNull(),
+	details: json(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("commissioner_audit_league_idx").on(table.leagueId),
+	]);
+
+export const keepers = pgTable("keepers", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(), // Season the keeper was designated in (carried into the renewed league)
+	teamId: integer().notNull(),
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+	originalRound: integer().notNull(), // Round the asset was originally drafted in
+	yearsKept: integer().default(0).notNull(), // Prior seasons this owner already kept the asset
+	roundCost: integer().notNull(), // Draft round forfeited in the next season
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("keeper_league_idx").on(table.leagueId),
+		unique("keeper_team_asset_unique").on(table.teamId, table.assetType, table.assetId),
+	]);
+
+export const divisions = pgTable("divisions", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	name: varchar({ length: 100 }).notNull(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("division_league_idx").on(table.leagueId),
+	]);
+
 export const leagueMessages = pgTable("leagueMessages", {
 	id: serial().primaryKey(),
 	leagueId: integer().notNull(),
@@ -254,7 +344,9 @@ export const leagues = pgTable("leagues", {
 	teamCount: integer().default(10).notNull(),
 	draftType: varchar({ length: 50 }).default('snake').notNull(),
 	scoringType: varchar({ length: 50 }).default('standard').notNull(),
+	scoringConfig: json(), // Custom scoring rules, only read when scoringType = 'custom'
 	playoffTeams: integer().default(6).notNull(),
+	tiebreakers: json(), // Ordered standings tiebreakers, null = default chain
 	seasonYear: integer().notNull(),
 	currentWeek: integer().default(1).notNull(),
 	status: varchar({ length: 50 }).default('draft').notNull(),
@@ -263,6 +355,10 @@ export const leagues = pgTable("leagues", {
 	draftDate: timestamp({ mode: 'string', withTimezone: true }),
 	seasonStartDate: timestamp({ mode: 'string', withTimezone: true }),
 	playoffStartWeek: integer().default(19).notNull(),
+	playoffChampionshipWeeks: integer().default(1).notNull(), // 1 or 2, a two-week final is decided on combined points
+	playoffConsolation: varchar({ length: 20 }).default('none').notNull(), // 'none' | 'consolation' | 'toilet_bowl'
+	playMedian: boolean("playMedian").default(false).notNull(), // Every team also plays the weekly league median
+	byeMedianGame: boolean("byeMedianGame").default(false).notNull(), // Odd team counts: the team on a bye plays the weekly league median instead
 	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 	draftStarted: integer().default(0),
@@ -270,6 +366,30 @@ export const leagues = pgTable("leagues", {
 	currentDraftPick: integer().default(1),
 	currentDraftRound: integer().default(1),
 	draftPickTimeLimit: integer().default(120),
+	draftPaused: integer().default(0).notNull(), // Commissioner paused the draft clock
+	draftPausedRemaining: integer(), // Seconds left on the pick clock when the draft was paused
+	// Auction draft settings (only used when draftType = 'auction')
+	auctionBudget: integer().default(200).notNull(),
+	auctionMinBid: integer().default(1).notNull(),
+	auctionBidTimeLimit: integer().default(30).notNull(),
+	// Keeper / dynasty settings
+	keeperMode: varchar({ length: 20 }).default('none').notNull(), // 'none' | 'keeper' | 'dynasty'
+	maxKeepers: integer().default(0).notNull(),
+	previousLeagueId: integer(), // Prior season this league was renewed from
+	// Trade settings
+	tradeReviewHours: integer().default(0).notNull(), // Veto window after acceptance, 0 = execute immediately
+	// Waiver settings
+	waiverType: varchar({ length: 30 }).default('rolling').notNull(), // 'rolling' | 'reverse_standings'
+	waiverPeriodDays: integer().default(2).notNull(), // Days dropped assets stay on waivers
+	waiverProcessDay: integer().default(3).notNull(), // 0 = Sunday ... 6 = Saturday (Europe/Berlin)
+	waiverProcessHour: integer().default(10).notNull(), // 0-23 (Europe/Berlin)
+	lastWaiverRunAt: timestamp({ mode: 'string', withTimezone: true }),
+	// FAAB blind bidding (when disabled, claims are decided by waiver priority alone)
+	faabEnabled: boolean("faabEnabled").default(true).notNull(),
+	faabBudget: integer().default(100).notNull(), // Season budget every team starts with
+	faabMinBid: integer().default(1).notNull(), // Smallest non-zero bid
+	faabAllowZeroBids: boolean("faabAllowZeroBids").default(true).notNull(),
+	faabTiebreaker: varchar({ length: 20 }).default('priority').notNull(), // 'priority' | 'earliest'
 	// Challenge timing fields for halftime & configurable duration
 	durationHours: integer().default(24),
 	challengeStartTime: timestamp("challengeStartTime", { mode: 'string', withTimezone: true }),
@@ -351,11 +471,48 @@ export const matchups = pgTable("matchups", {
 	team2Score: integer().default(0).notNull(),
 	winnerId: integer(),
 	status: varchar({ length: 50 }).default('scheduled').notNull(),
+	// Postseason only (null for regular season matchups)
+	playoffBracket: varchar({ length: 20 }), // 'winners' | 'consolation' | 'toilet_bowl'
+	playoffRound: integer(),
+	bracketSlot: integer(), // Position within the round, feeds slot floor(slot / 2) of the next round
+	playoffLeg: integer(), // 1 or 2 for a two-week championship
 	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 },
 	(table) => [
 		index("league_week_idx").on(table.leagueId, table.year, table.week),
+		// Regular season rows have null playoff columns and never conflict
+		unique("matchup_playoff_slot_unique").on(table.leagueId, table.year, table.playoffBracket, table.playoffRound, table.bracketSlot, table.playoffLeg),
+	]);
+
+// Seeds of every postseason bracket, fixed when the regular season ends
+export const playoffSeeds = pgTable("playoffSeeds", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	year: integer().notNull(),
+	bracket: varchar({ length: 20 }).notNull(), // 'winners' | 'consolation' | 'toilet_bowl'
+	seed: integer().notNull(),
+	teamId: integer().notNull(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		unique("playoff_seed_unique").on(table.leagueId, table.year, table.bracket, table.seed),
+	]);
+
+// Extra regular season game of every team against the league median score of the week
+export const medianResults = pgTable("medianResults", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	year: integer().notNull(),
+	week: integer().notNull(),
+	teamId: integer().notNull(),
+	teamScore: integer().notNull(),
+	medianScore: decimal({ precision: 10, scale: 1 }).notNull(), // Mean of the two middle scores for even team counts
+	result: varchar({ length: 10 }).notNull(), // 'win' | 'loss' | 'tie'
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		unique("median_result_unique").on(table.leagueId, table.year, table.week, table.teamId),
 	]);
 
 export const pharmacies = pgTable("pharmacies", {
@@ -570,6 +727,7 @@ export const teams = pgTable("teams", {
 	userId: integer().notNull(),
 	name: varchar({ length: 255 }).notNull(),
 	draftPosition: integer(),
+	divisionId: integer(), // null when the league has no divisions
 	waiverPriority: integer().default(1).notNull(),
 	faabBudget: integer().default(100).notNull(),
 	wins: integer().default(0).notNull(),
@@ -583,6 +741,7 @@ export const teams = pgTable("teams", {
 	battlefieldBackground: varchar({ length: 100 }),
 	autoPickEnabled: integer().default(0).notNull(), // 0 = disabled, 1 = enabled (auto-enabled when timer expires)
 	autoDraftEnabled: boolean("autoDraftEnabled").default(false).notNull(),
+	autoManageLineup: boolean("autoManageLineup").default(false).notNull(), // optimize the lineup before each week starts
 	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 },
@@ -618,10 +777,68 @@ export const trades = pgTable("trades", {
 	status: varchar({ length: 50 }).default('proposed').notNull(),
 	proposedBy: integer().notNull(),
 	processedWeek: integer(),
+	reviewEndsAt: timestamp({ mode: 'string', withTimezone: true }), // Set when all parties accepted and the veto window opens
+	executedAt: timestamp({ mode: 'string', withTimezone: true }),
+	failureReason: text(),
+	parentTradeId: integer(), // Trade this one counters
+	expiresAt: timestamp({ mode: 'string', withTimezone: true }), // Offer lapses if not answered by then
+	message: text(),
 	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 	updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 },
 	(table) => [
+		index("trade_parent_idx").on(table.parentTradeId),
+	]);
+
+// Every team in a trade (team1Id/team2Id only cover the first two)
+export const tradeParticipants = pgTable("tradeParticipants", {
+	id: serial().primaryKey(),
+	tradeId: integer().notNull(),
+	teamId: integer().notNull(),
+	status: varchar({ length: 20 }).default('pending').notNull(), // 'proposer' | 'pending' | 'accepted' | 'rejected' | 'countered'
+	respondedAt: timestamp({ mode: 'string', withTimezone: true }),
+},
+	(table) => [
+		index("trade_participant_trade_idx").on(table.tradeId),
+		unique("trade_participant_unique").on(table.tradeId, table.teamId),
+	]);
+
+export const tradeAssets = pgTable("tradeAssets", {
+	id: serial().primaryKey(),
+	tradeId: integer().notNull(),
+	fromTeamId: integer().notNull(),
+	toTeamId: integer().notNull(),
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+},
+	(table) => [
+		index("trade_asset_trade_idx").on(table.tradeId),
+	]);
+
+export const tradeVetoVotes = pgTable("tradeVetoVotes", {
+	id: serial().primaryKey(),
+	tradeId: integer().notNull(),
+	teamId: integer().notNull(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		unique("trade_veto_vote_unique").on(table.tradeId, table.teamId),
+	]);
+
+// Trade block: assets a team is shopping and assets it is looking for
+export const tradeBlockEntries = pgTable("tradeBlockEntries", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	teamId: integer().notNull(),
+	kind: varchar({ length: 20 }).notNull(), // 'shopping' | 'wanted'
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+	note: text(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("trade_block_league_idx").on(table.leagueId),
+		unique("trade_block_unique").on(table.teamId, table.kind, table.assetType, table.assetId),
 	]);
 
 export const users = pgTable("users", {
@@ -660,13 +877,48 @@ export const waiverClaims = pgTable("waiverClaims", {
 	dropAssetId: integer().notNull(),
 	bidAmount: integer().notNull(),
 	priority: integer().notNull(),
-	status: varchar({ length: 50 }).default('pending').notNull(),
+	claimType: varchar({ length: 20 }).default('waiver').notNull(), // 'waiver' | 'free_agent'
+	claimRank: integer().default(1).notNull(), // Team's preference order, 1 = first choice
+	claimGroup: integer(), // Conditional group: a claim only runs if the earlier claims of its group failed
+	status: varchar({ length: 50 }).default('pending').notNull(), // 'pending' | 'success' | 'failed' | 'skipped' | 'error'
+	statusReason: varchar({ length: 255 }),
 	processedAt: timestamp({ mode: 'string', withTimezone: true }),
 	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 },
 	(table) => [
 	]);
 
+// FAAB ledger: every change to a team's waiver budget
+export const faabTransactions = pgTable("faabTransactions", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	teamId: integer().notNull(),
+	amount: integer().notNull(), // Negative for spending
+	balanceAfter: integer().notNull(),
+	kind: varchar({ length: 30 }).notNull(), // 'waiver_claim' | 'budget_reset'
+	waiverClaimId: integer(),
+	note: varchar({ length: 255 }),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		index("faab_tx_team_idx").on(table.teamId),
+		index("faab_tx_league_idx").on(table.leagueId),
+	]);
+
+// Dropped assets that can only be claimed through waivers until they clear
+export const waiverHolds = pgTable("waiverHolds", {
+	id: serial().primaryKey(),
+	leagueId: integer().notNull(),
+	assetType: varchar({ length: 50 }).notNull(),
+	assetId: integer().notNull(),
+	droppedByTeamId: integer().notNull(),
+	clearsAt: timestamp({ mode: 'string', withTimezone: true }).notNull(),
+	createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+},
+	(table) => [
+		unique("waiver_hold_unique").on(table.leagueId, table.assetType, table.assetId),
+	]);
+
 export const weeklyLineups = pgTable("weeklyLineups", {
 	id: serial().primaryKey(),
 	teamId: integer().notNull(),
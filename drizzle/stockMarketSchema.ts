@@ -4,14 +4,18 @@
  * Products = Individual Stocks
  * Strains = Mutual Funds
  * Manufacturers = Hedge Funds
+ *
+ * Portfolios, holdings, trades and orders are scoped by marketLeagueId:
+ * 0 is the global market, anything else a private market league.
  */
 
-import { pgTable, serial, integer, varchar, decimal, timestamp, date, index, unique, boolean } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, varchar, decimal, timestamp, date, index, unique, boolean, json } from "drizzle-orm/pg-core";
 
 // User Portfolios - tracks cash balance and total value
 export const userPortfolios = pgTable("userPortfolios", {
     id: serial().primaryKey(),
     userId: integer().notNull(),
+    marketLeagueId: integer().default(0).notNull(), // 0 = global market
     cashBalance: decimal({ precision: 12, scale: 2 }).default('100000').notNull(), // Starting €100k
     totalValue: decimal({ precision: 12, scale: 2 }).default('100000').notNull(),
     totalProfitLoss: decimal({ precision: 12, scale: 2 }).default('0').notNull(),
@@ -20,13 +24,14 @@ export const userPortfolios = pgTable("userPortfolios", {
     createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
-    unique("user_portfolio_unique").on(table.userId),
+    unique("user_portfolio_unique").on(table.userId, table.marketLeagueId),
 ]);
 
 // Stock Holdings - what users own
 export const stockHoldings = pgTable("stockHoldings", {
     id: serial().primaryKey(),
     userId: integer().notNull(),
+    marketLeagueId: integer().default(0).notNull(),
     assetType: varchar({ length: 20 }).notNull(), // 'product', 'strain', 'manufacturer'
     assetId: integer().notNull(),
     shares: decimal({ precision: 10, scale: 4 }).notNull(),
@@ -37,17 +42,18 @@ export const stockHoldings = pgTable("stockHoldings", {
 }, (table) => [
     index("holdings_user_idx").on(table.userId),
     index("holdings_asset_idx").on(table.assetType, table.assetId),
-    unique("holdings_unique").on(table.userId, table.assetType, table.assetId, table.isShort),
+    unique("holdings_unique").on(table.userId, table.marketLeagueId, table.assetType, table.assetId, table.isShort),
 ]);
 
 // Trade History - all buy/sell transactions
 export const tradeHistory = pgTable("tradeHistory", {
     id: serial().primaryKey(),
     userId: integer().notNull(),
+    marketLeagueId: integer().default(0).notNull(),
     assetType: varchar({ length: 20 }).notNull(),
     assetId: integer().notNull(),
     assetName: varchar({ length: 255 }), // Cached for display
-    action: varchar({ length: 10 }).notNull(), // 'buy', 'sell', 'short', 'cover'
+    action: varchar({ length: 10 }).notNull(), // 'buy', 'sell', 'short', 'cover', 'dividend', 'split', 'delist'
     shares: decimal({ precision: 10, scale: 4 }).notNull(),
     pricePerShare: decimal({ precision: 10, scale: 2 }).notNull(),
     totalValue: decimal({ precision: 12, scale: 2 }).notNull(),
@@ -126,12 +132,81 @@ export const priceAlerts = pgTable("priceAlerts", {
     assetType: varchar({ length: 20 }).notNull(),
     assetId: integer().notNull(),
     assetName: varchar({ length: 255 }),
-    targetScore: decimal({ precision: 10, scale: 2 }).notNull(),
-    direction: varchar({ length: 10 }).notNull(), // 'above' | 'below'
+    targetScore: decimal({ precision: 10, scale: 2 }).notNull(), // Score, or percent for 'percent_change'
+    direction: varchar({ length: 20 }).notNull(), // 'above' | 'below' | 'percent_change' | 'new_high'
+    referencePrice: decimal({ precision: 10, scale: 2 }), // Score when created, base for 'percent_change'
+    notifyEmail: boolean().default(false).notNull(),
     isTriggered: boolean().default(false).notNull(),
+    triggeredPrice: decimal({ precision: 10, scale: 2 }),
     createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
     triggeredAt: timestamp({ mode: 'string', withTimezone: true }),
 }, (table) => [
     index("alert_user_idx").on(table.userId),
     index("alert_asset_idx").on(table.assetType, table.assetId),
+    index("alert_active_idx").on(table.isTriggered),
+]);
+
+// Stock Orders - resting limit/stop orders, matched after each price update
+export const stockOrders = pgTable("stockOrders", {
+    id: serial().primaryKey(),
+    userId: integer().notNull(),
+    marketLeagueId: integer().default(0).notNull(),
+    assetType: varchar({ length: 20 }).notNull(),
+    assetId: integer().notNull(),
+    assetName: varchar({ length: 255 }), // Cached for display
+    orderType: varchar({ length: 20 }).notNull(), // 'limit_buy' | 'limit_sell' | 'stop_loss' | 'take_profit'
+    shares: decimal({ precision: 10, scale: 4 }).notNull(),
+    triggerPrice: decimal({ precision: 10, scale: 2 }).notNull(), // Limit or stop price
+    timeInForce: varchar({ length: 10 }).default('gtc').notNull(), // 'gtc' | 'day'
+    reservedCash: decimal({ precision: 12, scale: 2 }).default('0').notNull(), // Held back for limit buys
+    status: varchar({ length: 20 }).default('open').notNull(), // 'open' | 'filled' | 'cancelled' | 'expired'
+    statusReason: varchar({ length: 255 }),
+    filledPrice: decimal({ precision: 10, scale: 2 }),
+    createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+    closedAt: timestamp({ mode: 'string', withTimezone: true }),
+}, (table) => [
+    index("order_user_idx").on(table.userId),
+    index("order_status_asset_idx").on(table.status, table.assetType, table.assetId),
+]);
+
+// Market Leagues - private trading competitions with their own bankroll and season
+export const marketLeagues = pgTable("marketLeagues", {
+    id: serial().primaryKey(),
+    name: varchar({ length: 100 }).notNull(),
+    ownerId: integer().notNull(),
+    inviteCode: varchar({ length: 10 }).notNull(),
+    startingBankroll: decimal({ precision: 12, scale: 2 }).default('100').notNull(),
+    startDate: date({ mode: 'string' }).notNull(),
+    endDate: date({ mode: 'string' }).notNull(),
+    allowedAssetTypes: json().$type<string[]>().notNull(), // 'product' | 'strain' | 'manufacturer' | 'pharmacy'
+    createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    unique("market_league_invite_unique").on(table.inviteCode),
+]);
+
+// Market League Members - each member trades a portfolio scoped to the league
+export const marketLeagueMembers = pgTable("marketLeagueMembers", {
+    id: serial().primaryKey(),
+    marketLeagueId: integer().notNull(),
+    userId: integer().notNull(),
+    joinedAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    index("market_league_member_user_idx").on(table.userId),
+    unique("market_league_member_unique").on(table.marketLeagueId, table.userId),
+]);
+
+// Corporate Actions - dividends, splits and delistings applied to every holder of an asset
+export const stockCorporateActions = pgTable("stockCorporateActions", {
+    id: serial().primaryKey(),
+    assetType: varchar({ length: 20 }).notNull(),
+    assetId: integer().notNull(),
+    assetName: varchar({ length: 255 }), // Cached for display
+    actionType: varchar({ length: 20 }).notNull(), // 'dividend' | 'split' | 'delisting'
+    effectiveDate: date({ mode: 'string' }).notNull(), // Dividends: first day of the paid week
+    amount: decimal({ precision: 12, scale: 4 }).notNull(), // Dividend per share, split ratio or final price
+    note: varchar({ length: 255 }),
+    createdAt: timestamp({ mode: 'string', withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    index("corporate_action_asset_idx").on(table.assetType, table.assetId),
+    unique("corporate_action_unique").on(table.assetType, table.assetId, table.actionType, table.effectiveDate),
 ]);
@@ -14,6 +14,10 @@ import { scoringScheduler } from "../scoringScheduler";
 import { seasonScoringScheduler } from "../seasonScoringScheduler";
 import { initDailyChallengeScheduler } from "../dailyChallengeScheduler";
 import { initPredictionScheduler } from "../predictionScheduler";
+import { initTradeScheduler } from "../tradeScheduler";
+import { initWaiverScheduler } from "../waiverScheduler";
+import { initLineupOptimizerScheduler } from "../lineupOptimizerScheduler";
+import { initDraftAnalyticsScheduler } from "../draftAnalyticsScheduler";
 import { getDailyStatsScheduler } from "../dailyStatsScheduler";
 import { wsManager } from "../websocket";
 import { getDailySummaryService } from "../services/dailySummaryService";
@@ -105,6 +109,22 @@ async function startServer() {
     initPredictionScheduler();
     console.log('[Prediction] Scheduler started');
 
+    // Start trade review scheduler
+    initTradeScheduler();
+    console.log('[Trade] Scheduler started');
+
+    // Start scheduled waiver runs
+    initWaiverScheduler();
+    console.log('[Waiver] Scheduler started');
+
+    // Start weekly lineup optimization for auto-managed teams
+    initLineupOptimizerScheduler();
+    console.log('[LineupOptimizer] Scheduler started');
+
+    // Start nightly ADP computation
+    initDraftAnalyticsScheduler();
+    console.log('[DraftAnalytics] Scheduler started');
+
     // Startup: Check if daily summary exists for yesterday, if not, generate it.
     (async () => {
       try {
@@ -0,0 +1,82 @@
+import { eq } from "drizzle-orm";
+import { getDb } from "./db";
+import { manufacturers, cannabisStrains, strains, pharmacies, brands, draftPickOwnership, teams } from "../drizzle/schema";
+
+export type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+/**
+ * The database or an open transaction on it
+ */
+export type DatabaseExecutor = Omit<Database, "$client">;
+
+export const ASSET_TYPE_LABELS: Record<string, string> = {
+  manufacturer: "Manufacturer",
+  strain: "Strain",
+  cannabis_strain: "Strain",
+  product: "Product",
+  pharmacy: "Dispensary",
+  brand: "Brand",
+  draft_pick: "Draft Pick",
+};
+
+/**
+ * Display name of a rostered asset, falling back to "<Type> #id"
+ */
+export async function getAssetName(db: Database, assetType: string, assetId: number) {
+  switch (assetType) {
+    case "manufacturer": {
+      const [row] = await db
+        .select({ name: manufacturers.name })
+        .from(manufacturers)
+        .where(eq(manufacturers.id, assetId))
+        .limit(1);
+      return row?.name || `Manufacturer #${assetId}`;
+    }
+    case "cannabis_strain":
+    case "strain": {
+      const [row] = await db
+        .select({ name: cannabisStrains.name })
+        .from(cannabisStrains)
+        .where(eq(cannabisStrains.id, assetId))
+        .limit(1);
+      return row?.name || `Strain #${assetId}`;
+    }
+    case "product": {
+      const [row] = await db
+        .select({ name: strains.name })
+        .from(strains)
+        .where(eq(strains.id, assetId))
+        .limit(1);
+      return row?.name || `Product #${assetId}`;
+    }
+    case "pharmacy": {
+      const [row] = await db
+        .select({ name: pharmacies.name })
+        .from(pharmacies)
+        .where(eq(pharmacies.id, assetId))
+        .limit(1);
+      return row?.name || `Dispensary #${assetId}`;
+    }
+    case "brand": {
+      const [row] = await db
+        .select({ name: brands.name })
+        .from(brands)
+        .where(eq(brands.id, assetId))
+        .limit(1);
+      return row?.name || `Brand #${assetId}`;
+    }
+    case "draft_pick": {
+      const [row] = await db
+        .select({ seasonYear: draftPickOwnership.seasonYear, round: draftPickOwnership.round, teamName: teams.name })
+        .from(draftPickOwnership)
+        .leftJoin(teams, eq(teams.id, draftPickOwnership.originalTeamId))
+        .where(eq(draftPickOwnership.id, assetId))
+        .limit(1);
+      return row ? `${row.seasonYear} Round ${row.round} pick (${row.teamName ?? "Unknown Team"})` : `Draft Pick #${assetId}`;
+    }
+    case "none":
+      return null;
+    default:
+      return `Asset #${assetId}`;
+  }
+}
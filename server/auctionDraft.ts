@@ -0,0 +1,758 @@
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+import { getDb } from "./db";
+import {
+  leagues,
+  teams,
+  rosters,
+  draftPicks,
+  autoDraftBoards,
+  manufacturers,
+  cannabisStrains,
+  strains,
+  pharmacies,
+  brands,
+} from "../drizzle/schema";
+import { wsManager } from "./websocket";
+import { advanceDraftPick, calculateNextPick, checkRosterRoom, validateDraftPick } from "./draftLogic";
+import { autoPickService, type AssetType } from "./autoPick";
+
+/**
+ * Auction Draft Manager
+ *
+ * Runs nomination/bidding auctions for leagues with draftType = 'auction':
+ * - Teams nominate an asset in draft order (teams with full rosters are skipped)
+ * - Every team can bid up to its max bid (remaining budget minus the minimum
+ *   bid for each other open roster slot)
+ * - The bid clock resets on every bid; when it expires the high bidder wins the lot
+ * - Teams that are offline or on auto-pick nominate and bid from their
+ *   autoDraftBoards rankings
+ *
+ * Lot state is kept in memory like DraftTimerManager; won lots are persisted to
+ * draftPicks (with price) and rosters exactly like snake picks. A commissioner
+ * pause stops whichever clock is running and keeps the lot or nomination open.
+ */
+
+type LeagueRow = typeof leagues.$inferSelect;
+type TeamRow = typeof teams.$inferSelect;
+
+const CHALLENGE_TOTAL_SLOTS = 9;
+const SEASON_TOTAL_SLOTS = 10;
+const BID_INCREMENT = 1;
+
+interface AuctionLot {
+  leagueId: number;
+  lotNumber: number;
+  nominatingTeamId: number;
+  assetType: AssetType;
+  assetId: number;
+  assetName: string;
+  imageUrl: string | null;
+  highBid: number;
+  highBidderTeamId: number;
+  startTime: number;
+  timeLimit: number; // seconds
+  interval: NodeJS.Timeout;
+  timeout: NodeJS.Timeout;
+}
+
+interface NominationWindow {
+  leagueId: number;
+  lotNumber: number;
+  teamId: number;
+  teamName: string;
+  startTime: number;
+  timeLimit: number; // seconds
+  interval: NodeJS.Timeout;
+  timeout: NodeJS.Timeout;
+}
+
+export interface AuctionTeamBudget {
+  teamId: number;
+  teamName: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  rosterCount: number;
+  openSlots: number;
+  maxBid: number;
+}
+
+function logAuction(message: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  if (data) {
+    console.log(`[AuctionDraft ${timestamp}] ${message}`, JSON.stringify(data));
+  } else {
+    console.log(`[AuctionDraft ${timestamp}] ${message}`);
+  }
+}
+
+function getRosterSlots(league: LeagueRow): number {
+  return league.leagueType === "challenge" ? CHALLENGE_TOTAL_SLOTS : SEASON_TOTAL_SLOTS;
+}
+
+async function getAssetInfo(assetType: AssetType, assetId: number): Promise<{ name: string; imageUrl: string | null }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (assetType === "manufacturer") {
+    const [mfg] = await db.select().from(manufacturers).where(eq(manufacturers.id, assetId)).limit(1);
+    return { name: mfg?.name || "Unknown", imageUrl: mfg?.logoUrl || null };
+  } else if (assetType === "cannabis_strain") {
+    const [strain] = await db.select().from(cannabisStrains).where(eq(cannabisStrains.id, assetId)).limit(1);
+    return { name: strain?.name || "Unknown", imageUrl: strain?.imageUrl || null };
+  } else if (assetType === "product") {
+    const [product] = await db.select().from(strains).where(eq(strains.id, assetId)).limit(1);
+    return { name: product?.name || "Unknown", imageUrl: null };
+  } else if (assetType === "pharmacy") {
+    const [pharmacy] = await db.select().from(pharmacies).where(eq(pharmacies.id, assetId)).limit(1);
+    return { name: pharmacy?.name || "Unknown", imageUrl: pharmacy?.logoUrl || null };
+  }
+  const [brand] = await db.select().from(brands).where(eq(brands.id, assetId)).limit(1);
+  return { name: brand?.name || "Unknown", imageUrl: brand?.logoUrl || null };
+}
+
+/**
+ * Calculate budget, spend and max bid for every team in an auction league
+ */
+export async function getAuctionBudgets(league: LeagueRow): Promise<AuctionTeamBudget[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const leagueTeams = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.leagueId, league.id))
+    .orderBy(teams.draftPosition);
+
+  if (leagueTeams.length === 0) return [];
+
+  const teamIds = leagueTeams.map((t) => t.id);
+  const [spendRows, rosterRows] = await Promise.all([
+    db
+      .select({ teamId: draftPicks.teamId, spent: sql<number>`coalesce(sum(${draftPicks.price}), 0)::int` })
+      .from(draftPicks)
+      .where(eq(draftPicks.leagueId, league.id))
+      .groupBy(draftPicks.teamId),
+    db
+      .select({ teamId: rosters.teamId, count: sql<number>`count(*)::int` })
+      .from(rosters)
+      .where(inArray(rosters.teamId, teamIds))
+      .groupBy(rosters.teamId),
+  ]);
+
+  const spendMap = new Map(spendRows.map((r) => [r.teamId, Number(r.spent)]));
+  const rosterMap = new Map(rosterRows.map((r) => [r.teamId, Number(r.count)]));
+  const rosterSlots = getRosterSlots(league);
+  const minBid = league.auctionMinBid;
+
+  return leagueTeams.map((team) => {
+    const spent = spendMap.get(team.id) ?? 0;
+    const remaining = Math.max(0, league.auctionBudget - spent);
+    const rosterCount = rosterMap.get(team.id) ?? 0;
+    const openSlots = Math.max(0, rosterSlots - rosterCount);
+    // Keep enough budget to fill every other open slot at the minimum bid
+    const maxBid = openSlots > 0 ? Math.max(0, remaining - (openSlots - 1) * minBid) : 0;
+
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      budget: league.auctionBudget,
+      spent,
+      remaining,
+      rosterCount,
+      openSlots,
+      maxBid,
+    };
+  });
+}
+
+class AuctionDraftManager {
+  private lots: Map<number, AuctionLot> = new Map();
+  private nominations: Map<number, NominationWindow> = new Map();
+  // Seconds left on the stopped clock of leagues paused by the commissioner
+  private paused: Map<number, number> = new Map();
+  // Serialize nominations, bids and lot closing per league
+  private locks: Map<number, Promise<unknown>> = new Map();
+
+  private async withLock<T>(leagueId: number, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(leagueId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(fn);
+    this.locks.set(leagueId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(leagueId) === run) {
+        this.locks.delete(leagueId);
+      }
+    }
+  }
+
+  private async loadLeague(leagueId: number): Promise<LeagueRow> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [league] = await db
+      .select()
+      .from(leagues)
+      .where(eq(leagues.id, leagueId))
+      .limit(1);
+
+    if (!league) throw new Error("League not found");
+    if (league.draftType !== "auction") throw new Error("League does not use an auction draft");
+    return league;
+  }
+
+  /**
+   * Teams that bid/nominate automatically: auto-pick enabled or not connected to the draft room
+   */
+  private isAutoTeam(team: TeamRow, connectedUserIds: Set<number>): boolean {
+    return team.autoPickEnabled === 1 || !connectedUserIds.has(team.userId);
+  }
+
+  /**
+   * Open the nomination window for the next team in order
+   */
+  async startNomination(leagueId: number): Promise<void> {
+    this.clearNomination(leagueId);
+
+    const league = await this.loadLeague(leagueId);
+    if (league.draftCompleted === 1) {
+      logAuction("Draft already completed, not opening nomination", { leagueId });
+      return;
+    }
+    if (league.draftPaused === 1 || this.paused.has(leagueId)) {
+      logAuction("Draft is paused, not opening nomination", { leagueId });
+      return;
+    }
+
+    let nextPick;
+    try {
+      nextPick = await calculateNextPick(leagueId);
+    } catch (error) {
+      logAuction("Failed to calculate next nominator", { leagueId, error: String(error) });
+      return;
+    }
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [team] = await db
+      .select()
+      .from(teams)
+      .where(eq(teams.id, nextPick.teamId))
+      .limit(1);
+
+    if (team && team.autoPickEnabled === 1) {
+      logAuction("Nominating team is on auto-pick, nominating immediately", { leagueId, teamId: team.id });
+      await this.autoNominate(leagueId, team.id);
+      return;
+    }
+
+    this.openNominationWindow(leagueId, nextPick, league.draftPickTimeLimit || 90);
+  }
+
+  /**
+   * Run the nomination clock of the team on the clock; when it expires the team goes on auto-pick
+   */
+  private openNominationWindow(
+    leagueId: number,
+    nextPick: { pickNumber: number; teamId: number; teamName: string },
+    timeLimit: number
+  ): void {
+    const startTime = Date.now();
+
+    wsManager.notifyTimerStart(leagueId, {
+      pickNumber: nextPick.pickNumber,
+      teamId: nextPick.teamId,
+      timeLimit,
+      startTime,
+    });
+
+    const interval = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - startTime) / 1000);
+      const remaining = Math.max(0, timeLimit - elapsed);
+      wsManager.notifyTimerTick(leagueId, { pickNumber: nextPick.pickNumber, remaining });
+      if (remaining === 0) clearInterval(interval);
+    }, 5000);
+
+    const timeout = setTimeout(async () => {
+      if (this.paused.has(leagueId)) return;
+      logAuction("Nomination window expired", { leagueId, teamId: nextPick.teamId });
+      this.clearNomination(leagueId);
+
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      // Mirror snake drafts: an expired clock puts the team on auto-pick
+      await db
+        .update(teams)
+        .set({ autoPickEnabled: 1, updatedAt: new Date().toISOString() })
+        .where(eq(teams.id, nextPick.teamId));
+      wsManager.notifyAutoPickEnabled(leagueId, {
+        teamId: nextPick.teamId,
+        teamName: nextPick.teamName,
+        reason: "timer_expired",
+      });
+
+      await this.autoNominate(leagueId, nextPick.teamId).catch((error) => {
+        logAuction("Auto-nomination failed", { leagueId, error: String(error) });
+      });
+    }, timeLimit * 1000);
+
+    this.nominations.set(leagueId, {
+      leagueId,
+      lotNumber: nextPick.pickNumber,
+      teamId: nextPick.teamId,
+      teamName: nextPick.teamName,
+      startTime,
+      timeLimit,
+      interval,
+      timeout,
+    });
+  }
+
+  /**
+   * Nominate an asset for the team's top-ranked autoDraftBoards entry,
+   * falling back to the auto-pick service's best available player
+   */
+  private async autoNominate(leagueId: number, teamId: number): Promise<void> {
+    const league = await this.loadLeague(leagueId);
+    const boardEntries = await this.getAutoDraftBoard(teamId);
+
+    for (const entry of boardEntries) {
+      const assetType = entry.assetType as AssetType;
+      const validation = await validateDraftPick(leagueId, teamId, assetType, entry.assetId);
+      if (validation.valid) {
+        await this.nominate(leagueId, teamId, assetType, entry.assetId, league.auctionMinBid);
+        return;
+      }
+    }
+
+    const player = await autoPickService.selectPlayerForTeam(leagueId, teamId);
+    if (!player) {
+      throw new Error("No available players to nominate");
+    }
+    await this.nominate(leagueId, teamId, player.assetType, player.id, league.auctionMinBid);
+  }
+
+  private async getAutoDraftBoard(teamId: number): Promise<Array<typeof autoDraftBoards.$inferSelect>> {
+    const db = await getDb();
+    if (!db) return [];
+
+    try {
+      return await db
+        .select()
+        .from(autoDraftBoards)
+        .where(eq(autoDraftBoards.teamId, teamId))
+        .orderBy(asc(autoDraftBoards.priority));
+    } catch (error) {
+      console.warn("[AuctionDraft] autoDraftBoards table may not exist yet:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Put an asset up for auction. The nominating team opens with its bid.
+   */
+  async nominate(
+    leagueId: number,
+    teamId: number,
+    assetType: AssetType,
+    assetId: number,
+    openingBid?: number
+  ): Promise<void> {
+    await this.withLock(leagueId, async () => {
+      if (this.lots.has(leagueId)) {
+        throw new Error("An asset is already up for auction");
+      }
+
+      const league = await this.loadLeague(leagueId);
+      if (!league.draftStarted) throw new Error("Draft has not started");
+      if (league.draftCompleted === 1) throw new Error("Draft is complete");
+      this.assertNotPaused(league);
+
+      const validation = await validateDraftPick(leagueId, teamId, assetType, assetId);
+      if (!validation.valid) {
+        throw new Error(validation.error === "It's not your turn to pick"
+          ? "It's not your turn to nominate"
+          : validation.error || "Invalid nomination");
+      }
+
+      const budgets = await getAuctionBudgets(league);
+      const budget = budgets.find((b) => b.teamId === teamId);
+      const bid = openingBid ?? league.auctionMinBid;
+      if (!budget) throw new Error("Team not found");
+      if (bid < league.auctionMinBid) throw new Error(`Minimum bid is ${league.auctionMinBid}`);
+      if (bid > budget.maxBid) throw new Error(`Bid exceeds your max bid of ${budget.maxBid}`);
+
+      this.clearNomination(leagueId);
+
+      const asset = await getAssetInfo(assetType, assetId);
+      const lotNumber = league.currentDraftPick ?? 1;
+
+      this.openLot(league, {
+        lotNumber,
+        nominatingTeamId: teamId,
+        assetType,
+        assetId,
+        assetName: asset.name,
+        imageUrl: asset.imageUrl,
+        highBid: bid,
+        highBidderTeamId: teamId,
+      });
+
+      wsManager.notifyAuctionNomination(leagueId, {
+        lotNumber,
+        nominatingTeamId: teamId,
+        nominatingTeamName: budget.teamName,
+        assetType,
+        assetId,
+        assetName: asset.name,
+        imageUrl: asset.imageUrl,
+        openingBid: bid,
+        timeLimit: league.auctionBidTimeLimit,
+      });
+
+      logAuction("Asset nominated", { leagueId, teamId, assetType, assetId, bid });
+
+      await this.runAutoBids(league);
+    });
+  }
+
+  /**
+   * Place a bid on the current lot
+   */
+  async placeBid(leagueId: number, teamId: number, amount: number): Promise<{ highBid: number; highBidderTeamId: number }> {
+    return this.withLock(leagueId, async () => {
+      const league = await this.loadLeague(leagueId);
+      this.assertNotPaused(league);
+      await this.applyBid(league, teamId, amount, false);
+      await this.runAutoBids(league);
+
+      const lot = this.lots.get(leagueId)!;
+      return { highBid: lot.highBid, highBidderTeamId: lot.highBidderTeamId };
+    });
+  }
+
+  private assertNotPaused(league: LeagueRow): void {
+    if (league.draftPaused === 1 || this.paused.has(league.id)) {
+      throw new Error("The draft is paused by the commissioner");
+    }
+  }
+
+  private async applyBid(league: LeagueRow, teamId: number, amount: number, isAutoBid: boolean): Promise<void> {
+    const lot = this.lots.get(league.id);
+    if (!lot) throw new Error("No asset is up for auction");
+    if (lot.highBidderTeamId === teamId) throw new Error("You already have the high bid");
+    if (amount < lot.highBid + BID_INCREMENT) {
+      throw new Error(`Bid must be at least ${lot.highBid + BID_INCREMENT}`);
+    }
+
+    const budgets = await getAuctionBudgets(league);
+    const budget = budgets.find((b) => b.teamId === teamId);
+    if (!budget) throw new Error("Team not found");
+    if (amount > budget.maxBid) throw new Error(`Bid exceeds your max bid of ${budget.maxBid}`);
+
+    const room = await checkRosterRoom(league, teamId, lot.assetType);
+    if (!room.valid) throw new Error(room.error || "No roster room for this asset");
+
+    lot.highBid = amount;
+    lot.highBidderTeamId = teamId;
+    this.resetBidClock(league, lot);
+
+    wsManager.notifyAuctionBid(league.id, {
+      lotNumber: lot.lotNumber,
+      teamId,
+      teamName: budget.teamName,
+      amount,
+      isAutoBid,
+      timeLimit: league.auctionBidTimeLimit,
+    });
+
+    logAuction("Bid placed", { leagueId: league.id, teamId, amount, isAutoBid });
+  }
+
+  /**
+   * Proxy bidding for offline/auto-pick teams, valued from their autoDraftBoards rank
+   */
+  private async runAutoBids(league: LeagueRow): Promise<void> {
+    const lot = this.lots.get(league.id);
+    if (!lot) return;
+
+    const db = await getDb();
+    if (!db) return;
+
+    const leagueTeams = await db.select().from(teams).where(eq(teams.leagueId, league.id));
+    const connectedUserIds = wsManager.getDraftRoomUserIds(league.id);
+    const budgets = await getAuctionBudgets(league);
+    const rosterSlots = getRosterSlots(league);
+    const fairShare = league.auctionBudget / rosterSlots;
+
+    const caps = new Map<number, number>();
+    for (const team of leagueTeams) {
+      if (!this.isAutoTeam(team, connectedUserIds)) continue;
+
+      const board = await this.getAutoDraftBoard(team.id);
+      const rank = board.findIndex((e) => e.assetType === lot.assetType && e.assetId === lot.assetId);
+      if (rank === -1) continue;
+
+      const room = await checkRosterRoom(league, team.id, lot.assetType);
+      if (!room.valid) continue;
+
+      // Top-ranked targets are worth up to 2x a fair share of the budget, tapering to 0.5x
+      const valuation = Math.floor(fairShare * Math.max(0.5, 2 - rank * 0.1));
+      const maxBid = budgets.find((b) => b.teamId === team.id)?.maxBid ?? 0;
+      caps.set(team.id, Math.min(valuation, maxBid));
+    }
+
+    while (true) {
+      let bestTeamId: number | null = null;
+      let bestCap = lot.highBid;
+      caps.forEach((cap, teamId) => {
+        if (teamId !== lot.highBidderTeamId && cap >= lot.highBid + BID_INCREMENT && cap > bestCap) {
+          bestTeamId = teamId;
+          bestCap = cap;
+        }
+      });
+      if (bestTeamId === null) break;
+
+      try {
+        await this.applyBid(league, bestTeamId, lot.highBid + BID_INCREMENT, true);
+      } catch (error) {
+        logAuction("Auto-bid failed", { leagueId: league.id, teamId: bestTeamId, error: String(error) });
+        caps.delete(bestTeamId);
+      }
+    }
+  }
+
+  private openLot(
+    league: LeagueRow,
+    data: Omit<AuctionLot, "leagueId" | "startTime" | "timeLimit" | "interval" | "timeout">
+  ): void {
+    const lot = {
+      ...data,
+      leagueId: league.id,
+    } as AuctionLot;
+    this.lots.set(league.id, lot);
+    this.resetBidClock(league, lot);
+  }
+
+  private resetBidClock(league: LeagueRow, lot: AuctionLot, timeLimit = league.auctionBidTimeLimit || 30): void {
+    if (lot.interval) clearInterval(lot.interval);
+    if (lot.timeout) clearTimeout(lot.timeout);
+
+    const startTime = Date.now();
+    lot.startTime = startTime;
+    lot.timeLimit = timeLimit;
+
+    wsManager.notifyTimerStart(league.id, {
+      pickNumber: lot.lotNumber,
+      teamId: lot.highBidderTeamId,
+      timeLimit,
+      startTime,
+    });
+
+    lot.interval = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - startTime) / 1000);
+      const remaining = Math.max(0, timeLimit - elapsed);
+      wsManager.notifyTimerTick(league.id, { pickNumber: lot.lotNumber, remaining });
+      if (remaining === 0) clearInterval(lot.interval);
+    }, 5000);
+
+    lot.timeout = setTimeout(() => {
+      this.withLock(league.id, () => this.closeLot(league.id)).catch((error) => {
+        logAuction("Failed to close lot", { leagueId: league.id, error: String(error) });
+      });
+    }, timeLimit * 1000);
+  }
+
+  /**
+   * Award the current lot to the high bidder and move on to the next nomination
+   */
+  private async closeLot(leagueId: number): Promise<void> {
+    const lot = this.lots.get(leagueId);
+    if (!lot || this.paused.has(leagueId)) return;
+
+    clearInterval(lot.interval);
+    clearTimeout(lot.timeout);
+    this.lots.delete(leagueId);
+    wsManager.notifyTimerStop(leagueId);
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const league = await this.loadLeague(leagueId);
+    const [winner] = await db.select().from(teams).where(eq(teams.id, lot.highBidderTeamId)).limit(1);
+
+    await db.insert(rosters).values({
+      teamId: lot.highBidderTeamId,
+      assetType: lot.assetType,
+      assetId: lot.assetId,
+      acquiredWeek: 0,
+      acquiredVia: "draft",
+    });
+
+    await db.insert(draftPicks).values({
+      leagueId,
+      teamId: lot.highBidderTeamId,
+      round: league.currentDraftRound ?? 1,
+      pickNumber: lot.lotNumber,
+      assetType: lot.assetType,
+      assetId: lot.assetId,
+      price: lot.highBid,
+    });
+
+    wsManager.notifyPlayerPicked(leagueId, {
+      teamId: lot.highBidderTeamId,
+      teamName: winner?.name || "Unknown Team",
+      assetType: lot.assetType,
+      assetId: lot.assetId,
+      assetName: lot.assetName,
+      pickNumber: lot.lotNumber,
+      imageUrl: lot.imageUrl,
+      price: lot.highBid,
+    });
+
+    logAuction("Lot won", { leagueId, teamId: lot.highBidderTeamId, asset: lot.assetName, price: lot.highBid });
+
+    const draftCompleted = await advanceDraftPick(leagueId);
+    if (draftCompleted) {
+      this.stopAuction(leagueId);
+      wsManager.notifyDraftComplete(leagueId);
+      return;
+    }
+
+    const nextPick = await calculateNextPick(leagueId).catch(() => null);
+    if (nextPick) {
+      wsManager.notifyNextPick(leagueId, {
+        teamId: nextPick.teamId,
+        teamName: nextPick.teamName,
+        pickNumber: nextPick.pickNumber,
+        round: nextPick.round,
+      });
+    }
+
+    // Start the next nomination outside of the current lock
+    setTimeout(() => {
+      this.startNomination(leagueId).catch((error) => {
+        logAuction("Failed to start next nomination", { leagueId, error: String(error) });
+      });
+    }, 100);
+  }
+
+  private clearNomination(leagueId: number): void {
+    const window = this.nominations.get(leagueId);
+    if (window) {
+      clearInterval(window.interval);
+      clearTimeout(window.timeout);
+      this.nominations.delete(leagueId);
+    }
+  }
+
+  /**
+   * Stop the running bid or nomination clock and keep the lot or nomination open.
+   * Returns the seconds that were left, or null when no clock was running.
+   */
+  async pauseAuction(leagueId: number): Promise<number | null> {
+    // Reject bids, nominations and lot closings queued behind the lock from now on
+    this.paused.set(leagueId, 0);
+
+    return this.withLock(leagueId, async () => {
+      const clock = this.lots.get(leagueId) ?? this.nominations.get(leagueId);
+      if (!clock) {
+        wsManager.notifyTimerStop(leagueId);
+        return null;
+      }
+
+      clearInterval(clock.interval);
+      clearTimeout(clock.timeout);
+      const remaining = Math.max(0, clock.timeLimit - Math.floor((Date.now() - clock.startTime) / 1000));
+      this.paused.set(leagueId, remaining);
+
+      wsManager.notifyTimerPause(leagueId, { remaining });
+      logAuction("Auction paused", { leagueId, remaining });
+      return remaining;
+    });
+  }
+
+  /**
+   * Restart the clock of the open lot or nomination with `remaining` seconds (its full
+   * clock when null), or open the next nomination. Returns the seconds on the clock.
+   */
+  async resumeAuction(leagueId: number, remaining: number | null): Promise<number> {
+    this.paused.delete(leagueId);
+
+    const resumed = await this.withLock(leagueId, async () => {
+      const league = await this.loadLeague(leagueId);
+      const lot = this.lots.get(leagueId);
+      if (lot) {
+        this.resetBidClock(league, lot, remaining ?? (league.auctionBidTimeLimit || 30));
+        return lot.timeLimit;
+      }
+
+      const nomination = this.nominations.get(leagueId);
+      if (nomination) {
+        const timeLimit = remaining ?? (league.draftPickTimeLimit || 90);
+        this.openNominationWindow(
+          leagueId,
+          { pickNumber: nomination.lotNumber, teamId: nomination.teamId, teamName: nomination.teamName },
+          timeLimit
+        );
+        return timeLimit;
+      }
+      return null;
+    });
+    if (resumed !== null) {
+      logAuction("Auction resumed", { leagueId, remaining: resumed });
+      return resumed;
+    }
+
+    // Paused between lots: the next nomination starts with a full clock
+    const league = await this.loadLeague(leagueId);
+    await this.startNomination(leagueId);
+    return league.draftPickTimeLimit || 90;
+  }
+
+  /**
+   * Stop all auction timers for a league
+   */
+  stopAuction(leagueId: number): void {
+    this.paused.delete(leagueId);
+    this.clearNomination(leagueId);
+    const lot = this.lots.get(leagueId);
+    if (lot) {
+      clearInterval(lot.interval);
+      clearTimeout(lot.timeout);
+      this.lots.delete(leagueId);
+    }
+    wsManager.notifyTimerStop(leagueId);
+  }
+
+  /**
+   * Current lot / nomination state for clients joining mid-auction
+   */
+  getState(leagueId: number) {
+    const lot = this.lots.get(leagueId);
+    const nomination = this.nominations.get(leagueId);
+    const pausedRemaining = this.paused.get(leagueId);
+
+    return {
+      lot: lot
+        ? {
+          lotNumber: lot.lotNumber,
+          nominatingTeamId: lot.nominatingTeamId,
+          assetType: lot.assetType,
+          assetId: lot.assetId,
+          assetName: lot.assetName,
+          imageUrl: lot.imageUrl,
+          highBid: lot.highBid,
+          highBidderTeamId: lot.highBidderTeamId,
+          remaining: pausedRemaining ?? Math.max(0, lot.timeLimit - Math.floor((Date.now() - lot.startTime) / 1000)),
+        }
+        : null,
+      nominatingTeamId: nomination?.teamId ?? null,
+    };
+  }
+}
+
+export const auctionDraftManager = new AuctionDraftManager();
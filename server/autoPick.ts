@@ -44,7 +44,22 @@ export interface AutoPickResult {
   retryCount: number;
 }
 
-interface PositionCounts {
+/**
+ * How a CPU drafter weighs the board:
+ * - best_available: highest projected points at any open position
+ * - position_need: best player at the position the roster needs most (the live auto-pick order)
+ * - trend_chaser: projected points boosted by momentum
+ */
+export type AutoPickStrategy = "best_available" | "position_need" | "trend_chaser";
+
+export const AUTO_PICK_STRATEGIES: AutoPickStrategy[] = ["best_available", "position_need", "trend_chaser"];
+
+export interface PoolPlayer extends PlayerSelection {
+  /** Trend multiplier of the player's projection, 1 = flat */
+  trend: number;
+}
+
+export interface PositionCounts {
   manufacturer: number;
   cannabis_strain: number;
   product: number;
@@ -62,7 +77,7 @@ const CHALLENGE_ROSTER_LIMITS: PositionCounts = {
 };
 
 // Season league roster limits (10 total slots with FLEX)
-const SEASON_ROSTER_LIMITS: PositionCounts = {
+export const SEASON_ROSTER_LIMITS: PositionCounts = {
   manufacturer: 2,
   cannabis_strain: 2,
   product: 2,
@@ -165,6 +180,59 @@ class AutoPickService {
     }
   }
 
+  /**
+   * Choose a player from an in-memory pool without touching the database (mock drafts).
+   * With a random source the pick varies among the top three candidates so mocks don't repeat.
+   */
+  pickFromPool(
+    pool: PoolPlayer[],
+    positionCounts: PositionCounts,
+    strategy: AutoPickStrategy,
+    random?: () => number,
+    rosterLimits: PositionCounts = SEASON_ROSTER_LIMITS
+  ): PoolPlayer | null {
+    const open = pool.filter((player) => positionCounts[player.assetType] < rosterLimits[player.assetType]);
+    if (open.length === 0) return null;
+
+    let candidates: PoolPlayer[];
+    if (strategy === "position_need") {
+      const need = (player: PoolPlayer) => rosterLimits[player.assetType] - positionCounts[player.assetType];
+      const maxNeed = Math.max(...open.map(need));
+      candidates = open
+        .filter((player) => need(player) === maxNeed)
+        .sort((a, b) => (b.points ?? 0) - (a.points ?? 0));
+    } else {
+      const score = (player: PoolPlayer) =>
+        strategy === "trend_chaser" ? (player.points ?? 0) * player.trend * player.trend : player.points ?? 0;
+      candidates = [...open].sort((a, b) => score(b) - score(a));
+    }
+
+    if (!random) return candidates[0];
+    const roll = random();
+    const index = roll < 0.6 ? 0 : roll < 0.85 ? 1 : 2;
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  /**
+   * Pick the best available player for a team without drafting it.
+   * Used by the auction draft to auto-nominate for absent teams.
+   */
+  async selectPlayerForTeam(leagueId: number, teamId: number): Promise<PlayerSelection | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    const [league] = await db
+      .select()
+      .from(leagues)
+      .where(eq(leagues.id, leagueId))
+      .limit(1);
+
+    if (!league) return null;
+
+    const rosterLimits = league.leagueType === "challenge" ? CHALLENGE_ROSTER_LIMITS : SEASON_ROSTER_LIMITS;
+    return this.selectBestAvailablePlayer(db, leagueId, teamId, rosterLimits, new Set());
+  }
+
   /**
    * Execute pick with retry logic
    */
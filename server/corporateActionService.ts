@@ -0,0 +1,545 @@
+/**
+ * Corporate Actions
+ *
+ * Events applied to every holder of a market asset after a price update:
+ * - dividends, paid once per ISO week from the previous week's fantasy
+ *   performance: a strain's or pharmacy's weekly totalPoints, a manufacturer's
+ *   market-share rank. Longs receive them, shorts pay them.
+ * - splits, once an asset's score climbs above SPLIT_PRICE_THRESHOLD. Holdings
+ *   get ratio × the shares at 1/ratio of the cost, and open orders and alerts
+ *   are rescaled. Scores and stockPrices bars stay unadjusted: getCurrentPrice
+ *   and every reader of past prices divide them by the cumulative ratio.
+ * - delistings, once an asset's entity is gone from the sync or has had no
+ *   daily stats for DELIST_AFTER_DAYS. Positions are closed at the last synced
+ *   price and the asset can no longer be traded.
+ *
+ * Every action is logged once in stockCorporateActions, and each cash or share
+ * adjustment is recorded in the holder's tradeHistory.
+ */
+
+import { getDb } from "./db";
+import {
+    marketLeagues,
+    priceAlerts,
+    stockCorporateActions,
+    stockHoldings,
+    stockOrders,
+    tradeHistory,
+    userPortfolios,
+} from "../drizzle/stockMarketSchema";
+import {
+    cannabisStrains,
+    cannabisStrainWeeklyStats,
+    manufacturers,
+    manufacturerWeeklyStats,
+    pharmacies,
+    pharmacyWeeklyStats,
+} from "../drizzle/schema";
+import {
+    manufacturerDailyChallengeStats,
+    pharmacyDailyChallengeStats,
+    strainDailyChallengeStats,
+} from "../drizzle/dailyChallengeSchema";
+import { and, eq, gte, inArray, lt, max, sql } from "drizzle-orm";
+import { getCurrentPrice, getLastPrice, getSplitFactor } from "./stockPricingEngine";
+import { coverShortPosition, getMarketAssetName } from "./shortSellingService";
+import type { Database } from "./assetNames";
+import { getIsoYearWeek, getWeekDateRange } from "./utils/isoWeek";
+import { wsManager } from "./websocket";
+
+/** Dividend per share for each fantasy point a strain or pharmacy scored last week */
+export const DIVIDEND_PER_FANTASY_POINT = 0.002;
+/** Dividend per share by manufacturer market-share rank, best tier first */
+export const MANUFACTURER_DIVIDEND_TIERS = [
+    { maxRank: 1, amount: 0.5 },
+    { maxRank: 3, amount: 0.25 },
+    { maxRank: 10, amount: 0.1 },
+];
+/** Score above which an asset splits */
+export const SPLIT_PRICE_THRESHOLD = 1000;
+/** Days without daily stats after which an asset is delisted */
+export const DELIST_AFTER_DAYS = 14;
+
+type HoldingRow = typeof stockHoldings.$inferSelect;
+
+const assetKey = (assetType: string, assetId: number) => `${assetType}-${assetId}`;
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Keys ("assetType-assetId") of every delisted asset
+ */
+export async function getDelistedAssets(db: Database) {
+    const rows = await db
+        .select({ assetType: stockCorporateActions.assetType, assetId: stockCorporateActions.assetId })
+        .from(stockCorporateActions)
+        .where(eq(stockCorporateActions.actionType, 'delisting'));
+    return new Set(rows.map(r => assetKey(r.assetType, r.assetId)));
+}
+
+export async function isAssetDelisted(db: Database, assetType: string, assetId: number) {
+    const [row] = await db
+        .select({ id: stockCorporateActions.id })
+        .from(stockCorporateActions)
+        .where(and(
+            eq(stockCorporateActions.assetType, assetType),
+            eq(stockCorporateActions.assetId, assetId),
+            eq(stockCorporateActions.actionType, 'delisting')
+        ))
+        .limit(1);
+    return !!row;
+}
+
+/**
+ * Dividend per share (before splits) an asset earned in a week, 0 when none
+ */
+async function getWeeklyDividend(db: Database, assetType: string, assetId: number, year: number, week: number) {
+    switch (assetType) {
+        case 'product':
+        case 'strain': {
+            const [row] = await db
+                .select({ totalPoints: cannabisStrainWeeklyStats.totalPoints })
+                .from(cannabisStrainWeeklyStats)
+                .where(and(
+                    eq(cannabisStrainWeeklyStats.cannabisStrainId, assetId),
+                    eq(cannabisStrainWeeklyStats.year, year),
+                    eq(cannabisStrainWeeklyStats.week, week)
+                ))
+                .limit(1);
+            return Math.max(0, row?.totalPoints ?? 0) * DIVIDEND_PER_FANTASY_POINT;
+        }
+        case 'manufacturer': {
+            const [row] = await db
+                .select({ marketShareRank: manufacturerWeeklyStats.marketShareRank })
+                .from(manufacturerWeeklyStats)
+                .where(and(
+                    eq(manufacturerWeeklyStats.manufacturerId, assetId),
+                    eq(manufacturerWeeklyStats.year, year),
+                    eq(manufacturerWeeklyStats.week, week)
+                ))
+                .limit(1);
+            if (!row) return 0;
+            return MANUFACTURER_DIVIDEND_TIERS.find(t => row.marketShareRank <= t.maxRank)?.amount ?? 0;
+        }
+        case 'pharmacy': {
+            const [row] = await db
+                .select({ totalPoints: pharmacyWeeklyStats.totalPoints })
+                .from(pharmacyWeeklyStats)
+                .where(and(
+                    eq(pharmacyWeeklyStats.pharmacyId, assetId),
+                    eq(pharmacyWeeklyStats.year, year),
+                    eq(pharmacyWeeklyStats.week, week)
+                ))
+                .limit(1);
+            return Math.max(0, row?.totalPoints ?? 0) * DIVIDEND_PER_FANTASY_POINT;
+        }
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Pay last week's dividends to every holding outside ended market leagues
+ */
+async function payWeeklyDividends(db: Database, priceDate: string, holdings: HoldingRow[], endedLeagueIds: Set<number>) {
+    const lastWeek = new Date(`${priceDate}T00:00:00Z`);
+    lastWeek.setUTCDate(lastWeek.getUTCDate() - 7);
+    const { year, week } = getIsoYearWeek(lastWeek);
+    const { startDate } = getWeekDateRange(year, week);
+
+    const eligible = holdings.filter(h => !endedLeagueIds.has(h.marketLeagueId));
+    const assetKeys = Array.from(new Set(eligible.map(h => assetKey(h.assetType, h.assetId))));
+
+    let paid = 0;
+    for (const key of assetKeys) {
+        const assetHoldings = eligible.filter(h => assetKey(h.assetType, h.assetId) === key);
+        const { assetType, assetId } = assetHoldings[0];
+
+        const dividend = await getWeeklyDividend(db, assetType, assetId, year, week);
+        const perShare = Math.round((dividend / await getSplitFactor(assetType, assetId)) * 10000) / 10000;
+        if (perShare <= 0) continue;
+
+        const assetName = await getMarketAssetName(db, assetType, assetId);
+        const payments = await db.transaction(async (tx) => {
+            // Logged first so a rerun in the same week pays nothing
+            const [action] = await tx
+                .insert(stockCorporateActions)
+                .values({
+                    assetType,
+                    assetId,
+                    assetName,
+                    actionType: 'dividend',
+                    effectiveDate: startDate,
+                    amount: String(perShare),
+                    note: `Week ${week} ${year}`,
+                })
+                .onConflictDoNothing()
+                .returning({ id: stockCorporateActions.id });
+            if (!action) return [];
+
+            const results: Array<{ holding: HoldingRow; total: number }> = [];
+            for (const holding of assetHoldings) {
+                // Longs receive the dividend, shorts owe it to the lender
+                const total = Math.round(Number(holding.shares) * perShare * 100) / 100 * (holding.isShort ? -1 : 1);
+                if (total === 0) continue;
+
+                await tx
+                    .update(userPortfolios)
+                    .set({
+                        cashBalance: sql`${userPortfolios.cashBalance} + ${String(total)}`,
+                        totalProfitLoss: sql`${userPortfolios.totalProfitLoss} + ${String(total)}`,
+                        updatedAt: new Date().toISOString(),
+                    })
+                    .where(and(
+                        eq(userPortfolios.userId, holding.userId),
+                        eq(userPortfolios.marketLeagueId, holding.marketLeagueId)
+                    ));
+
+                await tx
+                    .insert(tradeHistory)
+                    .values({
+                        userId: holding.userId,
+                        marketLeagueId: holding.marketLeagueId,
+                        assetType,
+                        assetId,
+                        assetName,
+                        action: 'dividend',
+                        shares: holding.shares,
+                        pricePerShare: String(perShare),
+                        totalValue: String(Math.abs(total)),
+                        profitLoss: String(total),
+                    });
+                results.push({ holding, total });
+            }
+            return results;
+        });
+
+        for (const { holding, total } of payments) {
+            wsManager.notifyUser(holding.userId, {
+                type: 'corporate_action',
+                action: 'dividend',
+                assetType,
+                assetId,
+                assetName,
+                amount: total,
+            });
+        }
+        paid += payments.length;
+    }
+    return paid;
+}
+
+/**
+ * Split every held or ordered asset whose score is above the threshold
+ */
+async function applySplits(db: Database, priceDate: string, assetKeys: string[]) {
+    let split = 0;
+    for (const key of assetKeys) {
+        const [assetType, id] = key.split('-');
+        const assetId = Number(id);
+
+        const price = await getCurrentPrice(assetType, assetId);
+        if (price <= SPLIT_PRICE_THRESHOLD) continue;
+
+        const ratio = Math.ceil(price / SPLIT_PRICE_THRESHOLD);
+        const splitPrice = Math.round((price / ratio) * 100) / 100;
+        const assetName = await getMarketAssetName(db, assetType, assetId);
+
+        const assetHoldings = await db.transaction(async (tx) => {
+            const [action] = await tx
+                .insert(stockCorporateActions)
+                .values({
+                    assetType,
+                    assetId,
+                    assetName,
+                    actionType: 'split',
+                    effectiveDate: priceDate,
+                    amount: String(ratio),
+                    note: `${ratio}-for-1 at ${price} pts`,
+                })
+                .onConflictDoNothing()
+                .returning({ id: stockCorporateActions.id });
+            if (!action) return null;
+
+            const splitHoldings = await tx
+                .select()
+                .from(stockHoldings)
+                .where(and(eq(stockHoldings.assetType, assetType), eq(stockHoldings.assetId, assetId)));
+            for (const holding of splitHoldings) {
+                const shares = Number(holding.shares);
+                await tx
+                    .update(stockHoldings)
+                    .set({
+                        shares: String(shares * ratio),
+                        avgBuyPrice: String(Math.round((Number(holding.avgBuyPrice) / ratio) * 100) / 100),
+                        updatedAt: new Date().toISOString(),
+                    })
+                    .where(eq(stockHoldings.id, holding.id));
+
+                // No cash moves: the row records the shares received
+                await tx
+                    .insert(tradeHistory)
+                    .values({
+                        userId: holding.userId,
+                        marketLeagueId: holding.marketLeagueId,
+                        assetType,
+                        assetId,
+                        assetName,
+                        action: 'split',
+                        shares: String(shares * (ratio - 1)),
+                        pricePerShare: String(splitPrice),
+                        totalValue: '0',
+                    });
+            }
+
+            // Reserved cash of limit buys stays the same: shares × limit is unchanged
+            await tx
+                .update(stockOrders)
+                .set({
+                    shares: sql`${stockOrders.shares} * ${String(ratio)}`,
+                    triggerPrice: sql`round(${stockOrders.triggerPrice} / ${String(ratio)}, 2)`,
+                })
+                .where(and(
+                    eq(stockOrders.assetType, assetType),
+                    eq(stockOrders.assetId, assetId),
+                    eq(stockOrders.status, 'open')
+                ));
+
+            await tx
+                .update(priceAlerts)
+                .set({ referencePrice: sql`round(${priceAlerts.referencePrice} / ${String(ratio)}, 2)` })
+                .where(and(
+                    eq(priceAlerts.assetType, assetType),
+                    eq(priceAlerts.assetId, assetId),
+                    eq(priceAlerts.isTriggered, false)
+                ));
+            await tx
+                .update(priceAlerts)
+                .set({ targetScore: sql`round(${priceAlerts.targetScore} / ${String(ratio)}, 2)` })
+                .where(and(
+                    eq(priceAlerts.assetType, assetType),
+                    eq(priceAlerts.assetId, assetId),
+                    eq(priceAlerts.isTriggered, false),
+                    inArray(priceAlerts.direction, ['above', 'below'])
+                ));
+            return splitHoldings;
+        });
+        if (!assetHoldings) continue;
+        split++;
+
+        for (const holding of assetHoldings) {
+            wsManager.notifyUser(holding.userId, {
+                type: 'corporate_action',
+                action: 'split',
+                assetType,
+                assetId,
+                assetName,
+                ratio,
+                price: splitPrice,
+            });
+        }
+    }
+    return split;
+}
+
+/**
+ * Whether an asset's entity is gone from the sync or has had no daily stats
+ * since the cutoff. Returns false for asset types whose stats stopped
+ * altogether, so a stalled sync does not delist the whole market.
+ */
+async function isMissingFromSync(db: Database, assetType: string, assetId: number, cutoff: string) {
+    switch (assetType) {
+        case 'product':
+        case 'strain': {
+            const [latest] = await db.select({ date: max(strainDailyChallengeStats.statDate) }).from(strainDailyChallengeStats);
+            if (!latest?.date || latest.date < cutoff) return false;
+            const [entity] = await db.select({ id: cannabisStrains.id }).from(cannabisStrains).where(eq(cannabisStrains.id, assetId)).limit(1);
+            if (!entity) return true;
+            const [recent] = await db
+                .select({ id: strainDailyChallengeStats.id })
+                .from(strainDailyChallengeStats)
+                .where(and(eq(strainDailyChallengeStats.strainId, assetId), gte(strainDailyChallengeStats.statDate, cutoff)))
+                .limit(1);
+            return !recent;
+        }
+        case 'manufacturer': {
+            const [latest] = await db.select({ date: max(manufacturerDailyChallengeStats.statDate) }).from(manufacturerDailyChallengeStats);
+            if (!latest?.date || latest.date < cutoff) return false;
+            const [entity] = await db.select({ id: manufacturers.id }).from(manufacturers).where(eq(manufacturers.id, assetId)).limit(1);
+            if (!entity) return true;
+            const [recent] = await db
+                .select({ id: manufacturerDailyChallengeStats.id })
+                .from(manufacturerDailyChallengeStats)
+                .where(and(eq(manufacturerDailyChallengeStats.manufacturerId, assetId), gte(manufacturerDailyChallengeStats.statDate, cutoff)))
+                .limit(1);
+            return !recent;
+        }
+        case 'pharmacy': {
+            const [latest] = await db.select({ date: max(pharmacyDailyChallengeStats.statDate) }).from(pharmacyDailyChallengeStats);
+            if (!latest?.date || latest.date < cutoff) return false;
+            const [entity] = await db.select({ id: pharmacies.id }).from(pharmacies).where(eq(pharmacies.id, assetId)).limit(1);
+            if (!entity) return true;
+            const [recent] = await db
+                .select({ id: pharmacyDailyChallengeStats.id })
+                .from(pharmacyDailyChallengeStats)
+                .where(and(eq(pharmacyDailyChallengeStats.pharmacyId, assetId), gte(pharmacyDailyChallengeStats.statDate, cutoff)))
+                .limit(1);
+            return !recent;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Price positions of a delisted asset close at: its last synced price before
+ * the data stopped, on the same scale as getCurrentPrice
+ */
+async function getDelistingPrice(assetType: string, assetId: number, priceDate: string) {
+    return (await getLastPrice(assetType, assetId, priceDate)) ?? getCurrentPrice(assetType, assetId);
+}
+
+/**
+ * Sell a long holding of a delisted asset at its final price
+ */
+async function settleDelistedLong(db: Database, holding: HoldingRow, price: number, assetName: string) {
+    const shares = Number(holding.shares);
+    const totalValue = shares * price;
+    const profitLoss = (price - Number(holding.avgBuyPrice)) * shares;
+
+    await db.transaction(async (tx) => {
+        await tx
+            .update(userPortfolios)
+            .set({
+                cashBalance: sql`${userPortfolios.cashBalance} + ${String(totalValue)}`,
+                totalProfitLoss: sql`${userPortfolios.totalProfitLoss} + ${String(profitLoss)}`,
+                winCount: profitLoss > 0 ? sql`${userPortfolios.winCount} + 1` : userPortfolios.winCount,
+                lossCount: profitLoss < 0 ? sql`${userPortfolios.lossCount} + 1` : userPortfolios.lossCount,
+                updatedAt: new Date().toISOString(),
+            })
+            .where(and(
+                eq(userPortfolios.userId, holding.userId),
+                eq(userPortfolios.marketLeagueId, holding.marketLeagueId)
+            ));
+
+        await tx.delete(stockHoldings).where(eq(stockHoldings.id, holding.id));
+
+        await tx
+            .insert(tradeHistory)
+            .values({
+                userId: holding.userId,
+                marketLeagueId: holding.marketLeagueId,
+                assetType: holding.assetType,
+                assetId: holding.assetId,
+                assetName,
+                action: 'delist',
+                shares: holding.shares,
+                pricePerShare: String(price),
+                totalValue: String(totalValue),
+                profitLoss: String(profitLoss),
+            });
+    });
+    return profitLoss;
+}
+
+/**
+ * Delist held or ordered assets that disappeared from the sync. Holdings of
+ * ended market leagues stay as the season closed.
+ */
+async function delistMissingAssets(db: Database, priceDate: string, assetKeys: string[], endedLeagueIds: Set<number>) {
+    const cutoffDate = new Date(`${priceDate}T00:00:00Z`);
+    cutoffDate.setUTCDate(cutoffDate.getUTCDate() - DELIST_AFTER_DAYS);
+    const cutoff = toIsoDate(cutoffDate);
+
+    let delisted = 0;
+    for (const key of assetKeys) {
+        const [assetType, id] = key.split('-');
+        const assetId = Number(id);
+        if (!await isMissingFromSync(db, assetType, assetId, cutoff)) continue;
+
+        // Re-read: splits may have changed the holdings since the scan
+        const assetHoldings = (await db
+            .select()
+            .from(stockHoldings)
+            .where(and(eq(stockHoldings.assetType, assetType), eq(stockHoldings.assetId, assetId))))
+            .filter(h => !endedLeagueIds.has(h.marketLeagueId));
+        const price = await getDelistingPrice(assetType, assetId, priceDate);
+        const assetName = await getMarketAssetName(db, assetType, assetId);
+
+        const [action] = await db
+            .insert(stockCorporateActions)
+            .values({
+                assetType,
+                assetId,
+                assetName,
+                actionType: 'delisting',
+                effectiveDate: priceDate,
+                amount: String(price),
+                note: `No data since ${cutoff}`,
+            })
+            .onConflictDoNothing()
+            .returning({ id: stockCorporateActions.id });
+        if (!action) continue;
+        delisted++;
+
+        await db
+            .update(stockOrders)
+            .set({ status: 'cancelled', statusReason: 'Asset delisted', closedAt: new Date().toISOString() })
+            .where(and(
+                eq(stockOrders.assetType, assetType),
+                eq(stockOrders.assetId, assetId),
+                eq(stockOrders.status, 'open')
+            ));
+
+        for (const holding of assetHoldings) {
+            const profitLoss = holding.isShort
+                ? (await coverShortPosition(db, holding, Number(holding.shares), price, assetName, 'delist')).profitLoss
+                : await settleDelistedLong(db, holding, price, assetName);
+
+            wsManager.notifyUser(holding.userId, {
+                type: 'corporate_action',
+                action: 'delist',
+                assetType,
+                assetId,
+                assetName,
+                price,
+                profitLoss,
+            });
+        }
+    }
+    return delisted;
+}
+
+/**
+ * Apply dividends, splits and delistings. Runs after every price update,
+ * before open orders are matched.
+ */
+export async function processCorporateActions(priceDate: string) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const delistedAssets = await getDelistedAssets(db);
+    const holdings = (await db.select().from(stockHoldings))
+        .filter(h => !delistedAssets.has(assetKey(h.assetType, h.assetId)));
+    const openOrders = await db
+        .select({ assetType: stockOrders.assetType, assetId: stockOrders.assetId })
+        .from(stockOrders)
+        .where(eq(stockOrders.status, 'open'));
+    const assetKeys = Array.from(new Set([
+        ...holdings.map(h => assetKey(h.assetType, h.assetId)),
+        ...openOrders.map(o => assetKey(o.assetType, o.assetId)),
+    ])).filter(key => !delistedAssets.has(key));
+
+    const endedLeagues = await db
+        .select({ id: marketLeagues.id })
+        .from(marketLeagues)
+        .where(lt(marketLeagues.endDate, priceDate));
+    const endedLeagueIds = new Set(endedLeagues.map(l => l.id));
+
+    const dividends = await payWeeklyDividends(db, priceDate, holdings, endedLeagueIds);
+    const splits = await applySplits(db, priceDate, assetKeys);
+    const delistings = await delistMissingAssets(db, priceDate, assetKeys, endedLeagueIds);
+
+    console.log(`[CorporateActions] ${priceDate}: ${dividends} dividend payments, ${splits} splits, ${delistings} delistings`);
+    return { dividends, splits, delistings };
+}
@@ -30,7 +30,7 @@ export class DailyStatsScheduler {
       }
     );
 
-    // Schedule Daily Summary Generation (e.g., at 6:00 AM for previous day)
+    // Schedule Daily Summary and projection generation (e.g., at 6:00 AM for previous day)
     cron.schedule(
       '0 6 * * *', // Every day at 6:00 AM
       async () => {
@@ -43,6 +43,7 @@ export class DailyStatsScheduler {
         await this.aggregateForDate(yesterdayStr);
 
         await this.generateDailySummary(yesterdayStr);
+        await this.generateProjections(yesterdayStr);
       },
       {
         scheduled: true,
@@ -91,6 +92,18 @@ export class DailyStatsScheduler {
     }
   }
 
+  /**
+   * Project next-day and next-week points from the stats up to the given date
+   */
+  async generateProjections(date: string) {
+    try {
+      const { generateProjections } = await import('./projectionService');
+      await generateProjections(date);
+    } catch (error) {
+      console.error(`[DailyStatsScheduler] Failed to generate projections from ${date}:`, error);
+    }
+  }
+
   stop() {
     if (this.cronJob) {
       this.cronJob.stop();
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { router, protectedProcedure } from "./_core/trpc";
+import { getDb } from "./db";
+import { divisions, leagues, matchups, teams } from "../drizzle/schema";
+import { eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+
+const MIN_DIVISIONS = 2;
+const MAX_DIVISIONS = 4;
+
+export const divisionRouter = router({
+  /**
+   * Divisions of a league with their teams
+   */
+  getDivisions: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const [leagueDivisions, leagueTeams] = await Promise.all([
+        db
+          .select()
+          .from(divisions)
+          .where(eq(divisions.leagueId, input.leagueId))
+          .orderBy(divisions.id),
+        db
+          .select({ id: teams.id, name: teams.name, divisionId: teams.divisionId })
+          .from(teams)
+          .where(eq(teams.leagueId, input.leagueId))
+          .orderBy(teams.id),
+      ]);
+
+      return leagueDivisions.map((division) => ({
+        id: division.id,
+        name: division.name,
+        teams: leagueTeams.filter((team) => team.divisionId === division.id),
+      }));
+    }),
+
+  /**
+   * Replace the league's divisions (commissioner only).
+   * Pass an empty list to turn divisions off. Every team must be placed in exactly one division.
+   */
+  setDivisions: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        divisions: z
+          .array(
+            z.object({
+              name: z.string().trim().min(1).max(100),
+              teamIds: z.array(z.number()),
+            })
+          )
+          .max(MAX_DIVISIONS),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+
+      if (!league) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+      }
+
+      if (league.commissionerUserId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only the commissioner can change divisions" });
+      }
+
+      if (input.divisions.length > 0 && input.divisions.length < MIN_DIVISIONS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `A league needs between ${MIN_DIVISIONS} and ${MAX_DIVISIONS} divisions`,
+        });
+      }
+
+      // The schedule is built from the divisions, so they are fixed once it exists
+      const [scheduled] = await db
+        .select({ id: matchups.id })
+        .from(matchups)
+        .where(eq(matchups.leagueId, league.id))
+        .limit(1);
+
+      if (scheduled) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Divisions cannot change after the schedule has been generated",
+        });
+      }
+
+      const leagueTeams = await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(eq(teams.leagueId, league.id));
+
+      if (input.divisions.length > 0) {
+        const assigned = input.divisions.flatMap((division) => division.teamIds);
+        const leagueTeamIds = new Set(leagueTeams.map((team) => team.id));
+
+        if (
+          new Set(assigned).size !== assigned.length ||
+          assigned.length !== leagueTeamIds.size ||
+          assigned.some((teamId) => !leagueTeamIds.has(teamId))
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Every team must belong to exactly one division",
+          });
+        }
+
+        if (input.divisions.some((division) => division.teamIds.length < 2)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Each division needs at least 2 teams" });
+        }
+      }
+
+      await db.update(teams).set({ divisionId: null }).where(eq(teams.leagueId, league.id));
+      await db.delete(divisions).where(eq(divisions.leagueId, league.id));
+
+      for (const division of input.divisions) {
+        const [created] = await db
+          .insert(divisions)
+          .values({ leagueId: league.id, name: division.name })
+          .returning({ id: divisions.id });
+
+        for (const teamId of division.teamIds) {
+          await db.update(teams).set({ divisionId: created.id }).where(eq(teams.id, teamId));
+        }
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,33 @@
+import { CronJob } from 'cron';
+import { computeAssetDraftStats } from './draftAnalyticsService';
+
+/**
+ * Draft Analytics Scheduler
+ *
+ * Recomputes ADP and draft percentages from all completed drafts every night (Europe/Berlin).
+ */
+
+const DEFAULT_CRON = '0 30 3 * * *';
+
+async function schedulerRun() {
+  const result = await computeAssetDraftStats();
+  console.log(`[DraftAnalyticsScheduler] Computed ADP for ${result.assets} assets`);
+}
+
+export function initDraftAnalyticsScheduler() {
+  const cronExpression = process.env.DRAFT_ANALYTICS_CRON || DEFAULT_CRON;
+
+  new CronJob(
+    cronExpression,
+    () => {
+      schedulerRun().catch(err => {
+        console.error('[DraftAnalyticsScheduler] Error during scheduled run:', err);
+      });
+    },
+    null,
+    true,
+    'Europe/Berlin'
+  );
+
+  console.log(`[DraftAnalyticsScheduler] Started (cron: ${cronExpression})`);
+}
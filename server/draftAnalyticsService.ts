@@ -0,0 +1,241 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { assetDraftStats, draftPicks, leagues, teams } from "../drizzle/schema";
+import { getDb } from "./db";
+import { getAssetName, type Database } from "./assetNames";
+import { compareToAdp, getLetterGrade } from "./draftGrading";
+import { getProjectionsForAssets } from "./projectionService";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+/**
+ * Draft Analytics Service
+ *
+ * Average draft position (ADP), pick range and draft percentage per asset, computed
+ * nightly from the completed drafts of all leagues, and post-draft grades that compare
+ * a league's picks to ADP and projected points.
+ */
+
+export const DRAFT_FORMATS = ["snake", "linear", "auction", "challenge"] as const;
+export type DraftFormat = (typeof DRAFT_FORMATS)[number];
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Format whose ADP a league's draft counts towards. Challenge drafts are head-to-head
+ * and fill a different roster, so they are kept apart from season drafts.
+ */
+export function getDraftFormat(league: Pick<LeagueRow, "leagueType" | "draftType">): DraftFormat {
+  if (league.leagueType === "challenge") return "challenge";
+  return league.draftType === "linear" || league.draftType === "auction" ? league.draftType : "snake";
+}
+
+interface AssetTotals {
+  draftFormat: DraftFormat;
+  assetType: string;
+  assetId: number;
+  pickSum: number;
+  picks: number;
+  minPick: number;
+  maxPick: number;
+  priceSum: number;
+  pricedPicks: number;
+}
+
+/**
+ * Recompute ADP for every draft format from all completed drafts, replacing the previous run
+ */
+export async function computeAssetDraftStats() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [pickRows, draftRows] = await Promise.all([
+    db
+      .select({
+        leagueType: leagues.leagueType,
+        draftType: leagues.draftType,
+        assetType: draftPicks.assetType,
+        assetId: draftPicks.assetId,
+        pickSum: sql<number>`sum(${draftPicks.pickNumber})::int`,
+        picks: sql<number>`count(*)::int`,
+        minPick: sql<number>`min(${draftPicks.pickNumber})`,
+        maxPick: sql<number>`max(${draftPicks.pickNumber})`,
+        priceSum: sql<number>`coalesce(sum(${draftPicks.price}), 0)::int`,
+        pricedPicks: sql<number>`count(${draftPicks.price})::int`,
+      })
+      .from(draftPicks)
+      .innerJoin(leagues, eq(leagues.id, draftPicks.leagueId))
+      .where(eq(leagues.draftCompleted, 1))
+      .groupBy(leagues.leagueType, leagues.draftType, draftPicks.assetType, draftPicks.assetId),
+    db
+      .select({ leagueType: leagues.leagueType, draftType: leagues.draftType, drafts: sql<number>`count(*)::int` })
+      .from(leagues)
+      .where(eq(leagues.draftCompleted, 1))
+      .groupBy(leagues.leagueType, leagues.draftType),
+  ]);
+
+  const draftsPerFormat: Record<string, number> = {};
+  for (const row of draftRows) {
+    const format = getDraftFormat(row);
+    draftsPerFormat[format] = (draftsPerFormat[format] ?? 0) + Number(row.drafts);
+  }
+
+  // Leagues whose draftType maps to the same format are merged here
+  const totals = new Map<string, AssetTotals>();
+  for (const row of pickRows) {
+    const draftFormat = getDraftFormat(row);
+    const key = `${draftFormat}:${row.assetType}:${row.assetId}`;
+    const entry = totals.get(key) ?? {
+      draftFormat,
+      assetType: row.assetType,
+      assetId: row.assetId,
+      pickSum: 0,
+      picks: 0,
+      minPick: Number(row.minPick),
+      maxPick: Number(row.maxPick),
+      priceSum: 0,
+      pricedPicks: 0,
+    };
+    entry.pickSum += Number(row.pickSum);
+    entry.picks += Number(row.picks);
+    entry.minPick = Math.min(entry.minPick, Number(row.minPick));
+    entry.maxPick = Math.max(entry.maxPick, Number(row.maxPick));
+    entry.priceSum += Number(row.priceSum);
+    entry.pricedPicks += Number(row.pricedPicks);
+    totals.set(key, entry);
+  }
+
+  const computedAt = new Date().toISOString();
+  const values = Array.from(totals.values()).map((entry) => ({
+    draftFormat: entry.draftFormat,
+    assetType: entry.assetType,
+    assetId: entry.assetId,
+    adp: (entry.pickSum / entry.picks).toFixed(2),
+    minPick: entry.minPick,
+    maxPick: entry.maxPick,
+    timesDrafted: entry.picks,
+    draftPercentage: Math.min(100, (entry.picks / (draftsPerFormat[entry.draftFormat] || 1)) * 100).toFixed(1),
+    averagePrice: entry.pricedPicks > 0 ? (entry.priceSum / entry.pricedPicks).toFixed(2) : null,
+    computedAt,
+  }));
+
+  await db.transaction(async (tx) => {
+    await tx.delete(assetDraftStats);
+    for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(assetDraftStats).values(values.slice(i, i + INSERT_BATCH_SIZE));
+    }
+  });
+
+  console.log(`[DraftAnalytics] Stored ADP for ${values.length} assets:`, draftsPerFormat);
+  return { assets: values.length, drafts: draftsPerFormat, computedAt };
+}
+
+/**
+ * ADP rows of a draft format, optionally limited to some assets
+ */
+export async function getAssetDraftStats(
+  db: Database,
+  draftFormat: DraftFormat,
+  assets?: Array<{ assetType: string; assetId: number }>
+) {
+  const conditions = [eq(assetDraftStats.draftFormat, draftFormat)];
+  if (assets) {
+    if (assets.length === 0) return [];
+    conditions.push(inArray(assetDraftStats.assetId, Array.from(new Set(assets.map((a) => a.assetId)))));
+  }
+
+  const rows = await db
+    .select()
+    .from(assetDraftStats)
+    .where(and(...conditions))
+    .orderBy(assetDraftStats.adp);
+
+  const requested = assets ? new Set(assets.map((a) => `${a.assetType}-${a.assetId}`)) : null;
+  return rows
+    .filter((row) => !requested || requested.has(`${row.assetType}-${row.assetId}`))
+    .map((row) => ({
+      assetType: row.assetType,
+      assetId: row.assetId,
+      adp: Number(row.adp),
+      minPick: row.minPick,
+      maxPick: row.maxPick,
+      timesDrafted: row.timesDrafted,
+      draftPercentage: Number(row.draftPercentage),
+      averagePrice: row.averagePrice === null ? null : Number(row.averagePrice),
+      computedAt: row.computedAt,
+    }));
+}
+
+/**
+ * ADP of every asset drafted in a format, keyed by `${assetType}-${assetId}`
+ */
+export async function getAdpMap(db: Database, draftFormat: DraftFormat): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ assetType: assetDraftStats.assetType, assetId: assetDraftStats.assetId, adp: assetDraftStats.adp })
+    .from(assetDraftStats)
+    .where(eq(assetDraftStats.draftFormat, draftFormat));
+  return new Map(rows.map((row) => [`${row.assetType}-${row.assetId}`, Number(row.adp)]));
+}
+
+/**
+ * Post-draft report card: every team's picks against ADP and their projected points,
+ * graded relative to the league average
+ */
+export async function getDraftGrades(db: Database, league: LeagueRow) {
+  if (league.draftCompleted !== 1) throw new Error("Draft grades are available once the draft is complete");
+
+  const [leagueTeams, picks] = await Promise.all([
+    db.select({ id: teams.id, name: teams.name }).from(teams).where(eq(teams.leagueId, league.id)),
+    db.select().from(draftPicks).where(eq(draftPicks.leagueId, league.id)).orderBy(draftPicks.pickNumber),
+  ]);
+
+  const [adp, { projectionDate, projections }, names] = await Promise.all([
+    getAdpMap(db, getDraftFormat(league)),
+    getProjectionsForAssets(db, picks),
+    Promise.all(picks.map((pick) => getAssetName(db, pick.assetType, pick.assetId))),
+  ]);
+  const projected = new Map(projections.map((p) => [`${p.assetType}-${p.assetId}`, p.nextWeekPoints]));
+
+  const gradedPicks = picks.map((pick, index) => {
+    const key = `${pick.assetType}-${pick.assetId}`;
+    return {
+      pickNumber: pick.pickNumber,
+      round: pick.round,
+      teamId: pick.teamId,
+      assetType: pick.assetType,
+      assetId: pick.assetId,
+      name: names[index],
+      price: pick.price,
+      projectedPoints: projected.get(key) ?? 0,
+      adp: adp.get(key) ?? null,
+      ...compareToAdp(pick.pickNumber, adp.get(key) ?? null),
+    };
+  });
+
+  const teamReports = leagueTeams.map((team) => {
+    const teamPicks = gradedPicks.filter((pick) => pick.teamId === team.id);
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      projectedPoints: teamPicks.reduce((total, pick) => total + pick.projectedPoints, 0),
+      adpValue: Math.round(teamPicks.reduce((total, pick) => total + (pick.value ?? 0), 0) * 10) / 10,
+      steals: teamPicks.filter((pick) => pick.verdict === "steal").length,
+      reaches: teamPicks.filter((pick) => pick.verdict === "reach").length,
+      picks: teamPicks,
+    };
+  });
+
+  const averagePoints =
+    teamReports.reduce((total, team) => total + team.projectedPoints, 0) / Math.max(teamReports.length, 1);
+
+  return {
+    projectionDate,
+    draftFormat: getDraftFormat(league),
+    averagePoints: Math.round(averagePoints),
+    teams: teamReports
+      .map((team) => ({
+        ...team,
+        grade: getLetterGrade(averagePoints > 0 ? team.projectedPoints / averagePoints : 1),
+      }))
+      .sort((a, b) => b.projectedPoints - a.projectedPoints),
+  };
+}
@@ -0,0 +1,193 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
+import { commissionerAuditLog, draftPicks, leagues, rosters, teams } from "../drizzle/schema";
+import type { Database } from "./assetNames";
+import { auctionDraftManager } from "./auctionDraft";
+import { draftTimerManager } from "./draftTimer";
+import { wsManager } from "./websocket";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+export type CommissionerAction =
+  | "draft_undo"
+  | "draft_pause"
+  | "draft_resume"
+  | "draft_pick_on_behalf"
+  | "draft_time_limit";
+
+/**
+ * Seconds a resumed pick gets at least, so a draft paused at 0:00 doesn't auto-pick right away
+ */
+const MIN_RESUME_SECONDS = 10;
+
+/**
+ * Append an entry to the league's commissioner audit log
+ */
+export async function logCommissionerAction(
+  db: Database,
+  leagueId: number,
+  userId: number,
+  action: CommissionerAction,
+  details: Record<string, unknown>
+) {
+  await db.insert(commissionerAuditLog).values({ leagueId, userId, action, details });
+}
+
+/**
+ * Revert the last `count` picks (won lots in an auction) of a running draft: the draftPicks rows,
+ * the roster entries they created and the pick pointer. Keeper picks are never undone.
+ */
+export async function undoDraftPicks(db: Database, league: LeagueRow, count: number) {
+  if (league.draftStarted !== 1)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The draft has not started" });
+  if (league.draftCompleted === 1)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The draft is complete, picks can no longer be undone" });
+
+  const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, league.id));
+  const [keptEntries, madePicks] = await Promise.all([
+    db
+      .select({ teamId: rosters.teamId, assetType: rosters.assetType, assetId: rosters.assetId })
+      .from(rosters)
+      .where(and(inArray(rosters.teamId, leagueTeams.map((t) => t.id)), eq(rosters.acquiredVia, "keeper"))),
+    db
+      .select()
+      .from(draftPicks)
+      .where(and(eq(draftPicks.leagueId, league.id), lt(draftPicks.pickNumber, league.currentDraftPick ?? 1)))
+      .orderBy(desc(draftPicks.pickNumber)),
+  ]);
+  const keptKeys = new Set(keptEntries.map((e) => `${e.teamId}-${e.assetType}-${e.assetId}`));
+
+  const undone = madePicks
+    .filter((pick) => !keptKeys.has(`${pick.teamId}-${pick.assetType}-${pick.assetId}`))
+    .slice(0, count);
+  if (undone.length === 0)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "There are no picks to undo" });
+
+  const pickNumber = undone[undone.length - 1].pickNumber;
+  const round = Math.ceil(pickNumber / leagueTeams.length);
+
+  // Only hold the clock once the undo is going ahead; restart it if the revert fails
+  const isAuction = league.draftType === "auction";
+  let auctionRemaining: number | null = null;
+  if (!isAuction) draftTimerManager.stopTimer(league.id);
+  else if (league.draftPaused !== 1) auctionRemaining = await auctionDraftManager.pauseAuction(league.id);
+  try {
+    await db.transaction(async (tx) => {
+      await tx.delete(draftPicks).where(inArray(draftPicks.id, undone.map((pick) => pick.id)));
+      for (const pick of undone) {
+        await tx
+          .delete(rosters)
+          .where(
+            and(
+              eq(rosters.teamId, pick.teamId),
+              eq(rosters.assetType, pick.assetType),
+              eq(rosters.assetId, pick.assetId),
+              eq(rosters.acquiredVia, "draft")
+            )
+          );
+      }
+      // A paused draft resumes with a fresh clock for the reopened pick
+      await tx
+        .update(leagues)
+        .set({ currentDraftPick: pickNumber, currentDraftRound: round, draftPausedRemaining: null })
+        .where(eq(leagues.id, league.id));
+    });
+  } catch (error) {
+    if (!isAuction) await draftTimerManager.startTimer(league.id);
+    else if (league.draftPaused !== 1) await auctionDraftManager.resumeAuction(league.id, auctionRemaining);
+    throw error;
+  }
+  // The open lot or nomination belongs to the old pick; the caller opens the reopened one
+  if (isAuction) auctionDraftManager.stopAuction(league.id);
+
+  return {
+    pickNumber,
+    round,
+    picks: undone.map((pick) => ({
+      pickNumber: pick.pickNumber,
+      teamId: pick.teamId,
+      assetType: pick.assetType,
+      assetId: pick.assetId,
+    })),
+  };
+}
+
+/**
+ * Stop the pick clock (or the auction's bid or nomination clock) until the commissioner
+ * resumes the draft. Picks, nominations and bids are rejected meanwhile.
+ */
+export async function pauseDraft(db: Database, league: LeagueRow) {
+  if (league.draftStarted !== 1 || league.draftCompleted === 1)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The draft is not running" });
+  if (league.draftPaused === 1)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The draft is already paused" });
+
+  const remaining =
+    league.draftType === "auction"
+      ? await auctionDraftManager.pauseAuction(league.id)
+      : draftTimerManager.pauseTimer(league.id);
+  await db
+    .update(leagues)
+    .set({ draftPaused: 1, draftPausedRemaining: remaining })
+    .where(eq(leagues.id, league.id));
+
+  wsManager.notifyDraftPaused(league.id, { remaining });
+  return { remaining };
+}
+
+/**
+ * Restart the pick clock with the time that was left when the draft was paused
+ */
+export async function resumeDraft(db: Database, league: LeagueRow) {
+  if (league.draftPaused !== 1)
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The draft is not paused" });
+
+  await db
+    .update(leagues)
+    .set({ draftPaused: 0, draftPausedRemaining: null })
+    .where(eq(leagues.id, league.id));
+
+  if (league.draftType === "auction") {
+    const remaining = await auctionDraftManager.resumeAuction(
+      league.id,
+      league.draftPausedRemaining === null ? null : Math.max(league.draftPausedRemaining, MIN_RESUME_SECONDS)
+    );
+    wsManager.notifyDraftResumed(league.id, { remaining });
+    return { remaining };
+  }
+
+  // Without a stopped clock (e.g. right after an undo) the pick starts over, auto-pick included
+  if (league.draftPausedRemaining === null) {
+    await draftTimerManager.startTimer(league.id);
+    const remaining = league.draftPickTimeLimit ?? 90;
+    wsManager.notifyDraftResumed(league.id, { remaining });
+    return { remaining };
+  }
+
+  const remaining = Math.max(league.draftPausedRemaining, MIN_RESUME_SECONDS);
+  await draftTimerManager.resumeTimer(league.id, remaining);
+
+  wsManager.notifyDraftResumed(league.id, { remaining });
+  return { remaining };
+}
+
+/**
+ * Change the pick clock; the running pick keeps its clock, the next pick uses the new limit
+ */
+export async function setDraftPickTimeLimit(db: Database, league: LeagueRow, pickTimeLimit: number) {
+  await db.update(leagues).set({ draftPickTimeLimit: pickTimeLimit }).where(eq(leagues.id, league.id));
+  wsManager.notifyPickTimeLimitChanged(league.id, { pickTimeLimit });
+  return { previous: league.draftPickTimeLimit, pickTimeLimit };
+}
+
+/**
+ * Most recent commissioner actions of a league
+ */
+export async function getCommissionerAuditLog(db: Database, leagueId: number, limit: number) {
+  return db
+    .select()
+    .from(commissionerAuditLog)
+    .where(eq(commissionerAuditLog.leagueId, leagueId))
+    .orderBy(desc(commissionerAuditLog.createdAt))
+    .limit(limit);
+}
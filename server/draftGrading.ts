@@ -0,0 +1,43 @@
+/**
+ * Letter grades for drafted rosters, from a team's projected points relative to the field
+ */
+const GRADE_THRESHOLDS: Array<[number, string]> = [
+  [1.1, "A+"],
+  [1.05, "A"],
+  [1.02, "A-"],
+  [1.0, "B+"],
+  [0.97, "B"],
+  [0.94, "B-"],
+  [0.9, "C+"],
+  [0.86, "C"],
+  [0.82, "C-"],
+  [0.78, "D"],
+];
+
+/**
+ * Grade for a team scoring `ratio` times the average team's projected points
+ */
+export function getLetterGrade(ratio: number): string {
+  for (const [threshold, grade] of GRADE_THRESHOLDS) {
+    if (ratio >= threshold) return grade;
+  }
+  return "F";
+}
+
+/**
+ * Picks taken this many spots or more before/after ADP count as a reach/steal
+ */
+const ADP_VALUE_MARGIN = 3;
+
+export type AdpVerdict = "steal" | "reach" | "fair";
+
+/**
+ * How a pick compares to the asset's average draft position.
+ * Positive value means the asset was taken later than usual.
+ */
+export function compareToAdp(pickNumber: number, adp: number | null): { value: number | null; verdict: AdpVerdict | null } {
+  if (adp === null) return { value: null, verdict: null };
+  const value = Math.round((adp - pickNumber) * 10) / 10;
+  const verdict = value >= ADP_VALUE_MARGIN ? "steal" : value <= -ADP_VALUE_MARGIN ? "reach" : "fair";
+  return { value, verdict };
+}
@@ -1,9 +1,10 @@
 import { getDb } from "./db";
 import { leagues, teams, draftPicks, rosters } from "../drizzle/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, sql, inArray, gte } from "drizzle-orm";
 import { autoFillLeagueRosters } from "./autoFillRoster";
 import { autoPopulateLeagueLineups } from "./lineupAutoPopulate";
-import { generateSeasonMatchupsForLeague } from "./matchupService";
+import { generateSeasonMatchupsForLeague, getRegularSeasonEndWeek } from "./matchupService";
+import { canTradeDraftPicks, getDraftPickOwner } from "./draftPickService";
 
 const DRAFT_TIMING_ENABLED = process.env.DRAFT_TIMING_LOGS === "1";
 type LeagueRow = typeof leagues.$inferSelect;
@@ -58,7 +59,25 @@ export async function calculateNextPick(leagueId: number): Promise<{
   
   const isSnakeDraft = league.draftType === "snake" && teamCount > 2;
 
-  if (isSnakeDraft) {
+  if (league.draftType === "auction") {
+    // Auction draft: nomination rotates in draft order, skipping teams whose roster is full
+    const rosterSlots = league.leagueType === "challenge" ? CHALLENGE_TOTAL_SLOTS : SEASON_TOTAL_SLOTS;
+    const rosterCounts = await db
+      .select({ teamId: rosters.teamId, count: sql<number>`count(*)::int` })
+      .from(rosters)
+      .where(inArray(rosters.teamId, allTeams.map((t) => t.id)))
+      .groupBy(rosters.teamId);
+    const countMap = new Map(rosterCounts.map((r) => [r.teamId, Number(r.count)]));
+
+    teamIndex = ((currentPick ?? 1) - 1) % teamCount;
+    for (let offset = 0; offset < teamCount; offset++) {
+      const candidate = (teamIndex + offset) % teamCount;
+      if ((countMap.get(allTeams[candidate].id) ?? 0) < rosterSlots) {
+        teamIndex = candidate;
+        break;
+      }
+    }
+  } else if (isSnakeDraft) {
     // Snake draft: odd rounds go forward, even rounds go backward
     if (currentRound % 2 === 1) {
       // Odd round: 1, 2, 3, 4...
@@ -72,9 +91,15 @@ export async function calculateNextPick(leagueId: number): Promise<{
     teamIndex = ((currentPick - 1) % teamCount);
   }
 
-  const team = allTeams[teamIndex];
+  let team = allTeams[teamIndex];
   if (!team) throw new Error("Team not found for calculated index");
 
+  // A traded pick is made by the team that now owns the slot
+  if (canTradeDraftPicks(league)) {
+    const ownerTeamId = await getDraftPickOwner(db, league.id, league.seasonYear, currentRound ?? 1, team.id);
+    team = allTeams.find((t) => t.id === ownerTeamId) ?? team;
+  }
+
   return {
     teamId: team.id,
     pickNumber: currentPick,
@@ -136,10 +161,6 @@ export async function validateDraftPick(
     return { valid: false, error: "League not found" };
   }
 
-  const isChallenge = league.leagueType === "challenge";
-  const limits = isChallenge ? CHALLENGE_ROSTER_LIMITS : SEASON_ROSTER_LIMITS;
-  const totalSlots = isChallenge ? CHALLENGE_TOTAL_SLOTS : SEASON_TOTAL_SLOTS;
-
   // Check if it's the team's turn
   const isTurn = await isTeamsTurn(leagueId, teamId);
   if (!isTurn) {
@@ -163,6 +184,25 @@ export async function validateDraftPick(
     return { valid: false, error: "This player has already been drafted" };
   }
 
+  return checkRosterRoom(league, teamId, assetType);
+}
+
+/**
+ * Check whether a team's roster has room for another asset of the given type.
+ * Shared by snake picks and auction nominations/bids (where it isn't the team's "turn").
+ */
+export async function checkRosterRoom(
+  league: LeagueRow,
+  teamId: number,
+  assetType: "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand"
+): Promise<{ valid: boolean; error?: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const isChallenge = league.leagueType === "challenge";
+  const limits = isChallenge ? CHALLENGE_ROSTER_LIMITS : SEASON_ROSTER_LIMITS;
+  const totalSlots = isChallenge ? CHALLENGE_TOTAL_SLOTS : SEASON_TOTAL_SLOTS;
+
   // Check if team has room for this asset type
   const teamRoster = await db
     .select()
@@ -231,7 +271,8 @@ export async function advanceDraftPick(leagueId: number): Promise<boolean> {
   // Challenge leagues have 9 roster slots, season leagues have 10
   const rosterSlots = league.leagueType === "challenge" ? 9 : 10;
   const totalPicks = teamCount * rosterSlots;
-  const nextPickNumber = league.currentDraftPick + 1;
+  // Skip picks already filled before the draft (forfeited to keepers)
+  const nextPickNumber = await getNextOpenPickNumber(leagueId, (league.currentDraftPick ?? 0) + 1);
 
   let draftCompleted = false;
 
@@ -297,6 +338,27 @@ export async function advanceDraftPick(leagueId: number): Promise<boolean> {
   return draftCompleted;
 }
 
+/**
+ * First pick number at or after `fromPick` that hasn't been made yet.
+ * Keeper picks are inserted before the draft starts, so their slots are skipped.
+ */
+export async function getNextOpenPickNumber(leagueId: number, fromPick: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const madePicks = await db
+    .select({ pickNumber: draftPicks.pickNumber })
+    .from(draftPicks)
+    .where(and(eq(draftPicks.leagueId, leagueId), gte(draftPicks.pickNumber, fromPick)));
+
+  const madePickNumbers = new Set(madePicks.map((p) => p.pickNumber));
+  let pickNumber = fromPick;
+  while (madePickNumbers.has(pickNumber)) {
+    pickNumber++;
+  }
+  return pickNumber;
+}
+
 /**
  * Check if draft should be complete and mark it if so
  * This can be called independently to fix stuck drafts
@@ -429,6 +491,7 @@ export async function getDraftStatus(leagueId: number) {
   return {
     draftStarted: league.draftStarted === 1,
     draftCompleted: league.draftCompleted === 1,
+    draftPaused: league.draftPaused === 1,
     currentPick: league.currentDraftPick,
     currentRound: league.currentDraftRound,
     totalRounds: rosterSlots,
@@ -447,15 +510,12 @@ async function autoGenerateSeasonScheduleIfNeeded(
   if (!league) return;
   if (league.leagueType !== "season") return;
 
-  const playoffStartWeek = league.playoffStartWeek ?? 19;
-  const regularSeasonEndWeek = Math.max(1, playoffStartWeek - 1);
-
   try {
     const result = await generateSeasonMatchupsForLeague({
       leagueId: league.id,
       year: league.seasonYear,
       startWeek: 1,
-      endWeek: regularSeasonEndWeek,
+      endWeek: getRegularSeasonEndWeek(league),
       league,
     });
     console.log(
@@ -0,0 +1,262 @@
+import { and, eq, inArray, ne } from "drizzle-orm";
+import { draftPickOwnership, draftPicks, leagues, teams } from "../drizzle/schema";
+import type { Database, DatabaseExecutor } from "./assetNames";
+import { getPickNumberForRound } from "./keeperService";
+
+type LeagueRow = typeof leagues.$inferSelect;
+type OwnershipRow = typeof draftPickOwnership.$inferSelect;
+
+export const DRAFT_PICK_ASSET_TYPE = "draft_pick";
+
+const SEASON_DRAFT_ROUNDS = 10;
+
+export interface TradablePick {
+  id: number;
+  seasonYear: number;
+  round: number;
+  originalTeamId: number;
+  originalTeamName: string;
+  ownerTeamId: number;
+  label: string;
+}
+
+/**
+ * Index in draft order of the team whose slot an overall pick number is (inverse of getPickNumberForRound)
+ */
+export function getSlotTeamIndex(draftType: string, teamCount: number, pickNumber: number): number {
+  const round = Math.ceil(pickNumber / teamCount);
+  const position = (pickNumber - 1) % teamCount;
+  const isSnakeDraft = draftType === "snake" && teamCount > 2;
+  return isSnakeDraft && round % 2 === 0 ? teamCount - 1 - position : position;
+}
+
+/**
+ * Only season leagues with a round-based draft have picks to trade
+ */
+export function canTradeDraftPicks(league: Pick<LeagueRow, "leagueType" | "draftType">) {
+  return league.leagueType === "season" && league.draftType !== "auction";
+}
+
+/**
+ * Drafts whose picks are open for trading: this season's until it completes, and next season's
+ */
+export function getTradableSeasons(league: Pick<LeagueRow, "seasonYear" | "draftCompleted">): number[] {
+  return league.draftCompleted === 1 ? [league.seasonYear + 1] : [league.seasonYear, league.seasonYear + 1];
+}
+
+export function formatDraftPickLabel(seasonYear: number, round: number, originalTeamName: string | null, traded: boolean) {
+  const label = `${seasonYear} Round ${round} pick`;
+  return traded && originalTeamName ? `${label} (via ${originalTeamName})` : label;
+}
+
+/**
+ * Create an ownership row for every pick of the tradable drafts, each held by its original team
+ */
+export async function ensureDraftPickOwnership(db: DatabaseExecutor, league: LeagueRow) {
+  if (!canTradeDraftPicks(league)) return;
+
+  const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, league.id));
+  const rows: Array<typeof draftPickOwnership.$inferInsert> = [];
+  for (const seasonYear of getTradableSeasons(league)) {
+    for (let round = 1; round <= SEASON_DRAFT_ROUNDS; round++) {
+      for (const team of leagueTeams) {
+        rows.push({ leagueId: league.id, seasonYear, round, originalTeamId: team.id, ownerTeamId: team.id });
+      }
+    }
+  }
+
+  if (rows.length > 0) {
+    await db.insert(draftPickOwnership).values(rows).onConflictDoNothing();
+  }
+}
+
+/**
+ * Team that holds a pick; picks never traded stay with their original team
+ */
+export async function getDraftPickOwner(
+  db: Database,
+  leagueId: number,
+  seasonYear: number,
+  round: number,
+  originalTeamId: number
+): Promise<number> {
+  const [row] = await db
+    .select({ ownerTeamId: draftPickOwnership.ownerTeamId })
+    .from(draftPickOwnership)
+    .where(and(
+      eq(draftPickOwnership.leagueId, leagueId),
+      eq(draftPickOwnership.seasonYear, seasonYear),
+      eq(draftPickOwnership.round, round),
+      eq(draftPickOwnership.originalTeamId, originalTeamId)
+    ))
+    .limit(1);
+  return row?.ownerTeamId ?? originalTeamId;
+}
+
+/**
+ * Picks of a draft that changed hands
+ */
+export async function getTradedDraftPicks(db: Database, leagueId: number, seasonYear: number) {
+  return db
+    .select()
+    .from(draftPickOwnership)
+    .where(and(
+      eq(draftPickOwnership.leagueId, leagueId),
+      eq(draftPickOwnership.seasonYear, seasonYear),
+      ne(draftPickOwnership.ownerTeamId, draftPickOwnership.originalTeamId)
+    ));
+}
+
+/**
+ * Current-season picks that were already used, keyed by ownership row id
+ */
+async function getUsedPickIds(db: DatabaseExecutor, league: LeagueRow, rows: OwnershipRow[]): Promise<Set<number>> {
+  const used = new Set<number>();
+  const current = rows.filter((row) => row.seasonYear === league.seasonYear);
+  if (current.length === 0 || league.draftStarted !== 1) return used;
+
+  const orderedTeams = await db
+    .select({ id: teams.id })
+    .from(teams)
+    .where(eq(teams.leagueId, league.id))
+    .orderBy(teams.draftPosition);
+  const made = await db
+    .select({ pickNumber: draftPicks.pickNumber })
+    .from(draftPicks)
+    .where(eq(draftPicks.leagueId, league.id));
+  const madePickNumbers = new Set(made.map((pick) => pick.pickNumber));
+
+  for (const row of current) {
+    const teamIndex = orderedTeams.findIndex((team) => team.id === row.originalTeamId);
+    if (teamIndex === -1) continue;
+    const pickNumber = getPickNumberForRound(league.draftType, orderedTeams.length, teamIndex, row.round);
+    if (madePickNumbers.has(pickNumber)) used.add(row.id);
+  }
+  return used;
+}
+
+/**
+ * Every pick of the league that can still be traded, with the team holding it
+ */
+export async function getTradablePicks(db: DatabaseExecutor, league: LeagueRow): Promise<TradablePick[]> {
+  if (!canTradeDraftPicks(league)) return [];
+  await ensureDraftPickOwnership(db, league);
+
+  const [rows, leagueTeams] = await Promise.all([
+    db
+      .select()
+      .from(draftPickOwnership)
+      .where(and(
+        eq(draftPickOwnership.leagueId, league.id),
+        inArray(draftPickOwnership.seasonYear, getTradableSeasons(league))
+      ))
+      .orderBy(draftPickOwnership.seasonYear, draftPickOwnership.round),
+    db.select({ id: teams.id, name: teams.name }).from(teams).where(eq(teams.leagueId, league.id)),
+  ]);
+  const used = await getUsedPickIds(db, league, rows);
+  const teamName = (teamId: number) => leagueTeams.find((team) => team.id === teamId)?.name ?? `Team #${teamId}`;
+
+  return rows
+    .filter((row) => !used.has(row.id))
+    .map((row) => ({
+      id: row.id,
+      seasonYear: row.seasonYear,
+      round: row.round,
+      originalTeamId: row.originalTeamId,
+      originalTeamName: teamName(row.originalTeamId),
+      ownerTeamId: row.ownerTeamId,
+      label: formatDraftPickLabel(
+        row.seasonYear,
+        row.round,
+        teamName(row.originalTeamId),
+        row.ownerTeamId !== row.originalTeamId
+      ),
+    }));
+}
+
+/**
+ * Check that every traded pick is still held by the team sending it and has not been used,
+ * and that no team ends up with more picks in a draft than it has roster slots to fill.
+ * Returns the first problem found, or null.
+ */
+export async function validateDraftPickMoves(
+  db: DatabaseExecutor,
+  moves: Array<{ fromTeamId: number; toTeamId: number; assetId: number }>
+): Promise<string | null> {
+  if (moves.length === 0) return null;
+
+  const rows = await db
+    .select()
+    .from(draftPickOwnership)
+    .where(inArray(draftPickOwnership.id, moves.map((m) => m.assetId)));
+  if (rows.length < new Set(moves.map((m) => m.assetId)).size) {
+    return "A traded draft pick does not exist";
+  }
+
+  const leagueIds = Array.from(new Set(rows.map((row) => row.leagueId)));
+  const pickLeagues = leagueIds.length > 0
+    ? await db.select().from(leagues).where(inArray(leagues.id, leagueIds))
+    : [];
+
+  for (const league of pickLeagues) {
+    const tradable = await getTradablePicks(db, league);
+    const leagueMoves = moves.filter((move) => rows.some((r) => r.id === move.assetId && r.leagueId === league.id));
+
+    for (const move of leagueMoves) {
+      const pick = tradable.find((p) => p.id === move.assetId);
+      if (!pick) return `Draft pick #${move.assetId} has already been used or can no longer be traded`;
+      if (pick.ownerTeamId !== move.fromTeamId) return `The ${pick.label} is no longer held by the sending team`;
+      pick.ownerTeamId = move.toTeamId;
+    }
+
+    // Picks already made this season count against the roster as well
+    const made = await db
+      .select({ teamId: draftPicks.teamId })
+      .from(draftPicks)
+      .where(eq(draftPicks.leagueId, league.id));
+
+    const receivingTeamIds = Array.from(new Set(leagueMoves.map((move) => move.toTeamId)));
+    for (const teamId of receivingTeamIds) {
+      for (const seasonYear of getTradableSeasons(league)) {
+        const held = tradable.filter((p) => p.ownerTeamId === teamId && p.seasonYear === seasonYear).length;
+        const used = seasonYear === league.seasonYear ? made.filter((pick) => pick.teamId === teamId).length : 0;
+        if (held + used > SEASON_DRAFT_ROUNDS) {
+          return `A team can hold at most ${SEASON_DRAFT_ROUNDS} picks in the ${seasonYear} draft`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next season's picks follow the owners into the renewed league
+ */
+export async function carryOverDraftPicks(
+  db: Database,
+  previousLeague: LeagueRow,
+  newLeagueId: number,
+  teamIdMap: Map<number, number>
+) {
+  const seasonYear = previousLeague.seasonYear + 1;
+  const rows = await db
+    .select()
+    .from(draftPickOwnership)
+    .where(and(eq(draftPickOwnership.leagueId, previousLeague.id), eq(draftPickOwnership.seasonYear, seasonYear)));
+
+  const carried = rows
+    .filter((row) => teamIdMap.has(row.originalTeamId) && teamIdMap.has(row.ownerTeamId))
+    .map((row) => ({
+      leagueId: newLeagueId,
+      seasonYear,
+      round: row.round,
+      originalTeamId: teamIdMap.get(row.originalTeamId)!,
+      ownerTeamId: teamIdMap.get(row.ownerTeamId)!,
+    }));
+
+  if (carried.length > 0) {
+    await db.insert(draftPickOwnership).values(carried).onConflictDoNothing();
+  }
+  return carried.length;
+}
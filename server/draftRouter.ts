@@ -27,8 +27,20 @@ import {
   brandDailyChallengeStats,
 } from "../drizzle/dailyChallengeSchema";
 import { wsManager } from "./websocket";
-import { validateDraftPick, advanceDraftPick, calculateNextPick, getDraftStatus, checkAndCompleteDraft } from "./draftLogic";
+import { validateDraftPick, advanceDraftPick, calculateNextPick, getDraftStatus, checkAndCompleteDraft, getNextOpenPickNumber } from "./draftLogic";
+import { applyKeeperDraftPicks } from "./keeperService";
+import { canTradeDraftPicks, getSlotTeamIndex, getTradedDraftPicks } from "./draftPickService";
+import { getDraftGrades } from "./draftAnalyticsService";
 import { draftTimerManager } from "./draftTimer";
+import {
+  getCommissionerAuditLog,
+  logCommissionerAction,
+  pauseDraft,
+  resumeDraft,
+  setDraftPickTimeLimit,
+  undoDraftPicks,
+} from "./draftCommissionerService";
+import { auctionDraftManager, getAuctionBudgets } from "./auctionDraft";
 
 const DRAFT_TIMING_ENABLED = process.env.DRAFT_TIMING_LOGS === "1";
 
@@ -130,6 +142,223 @@ async function getDailyChallengePoints(
   return { todayMap, yesterdayMap };
 }
 
+/**
+ * League of a commissioner tool call; only the league's commissioner may use them
+ */
+async function getLeagueAsCommissioner(db: Database, leagueId: number, userId: number) {
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!league) throw new Error("League not found");
+  if (league.commissionerUserId !== userId) {
+    throw new Error("Only the commissioner can use the draft tools");
+  }
+  return league;
+}
+
+const DraftPickInputSchema = z.object({
+  leagueId: z.number(),
+  teamId: z.number(),
+  assetType: z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]),
+  assetId: z.number(),
+  draftRound: z.number().optional(),
+  draftPick: z.number().optional(),
+});
+
+/**
+ * Make the pick that is on the clock for a team. Shared by managers' own picks
+ * and commissioner picks on behalf of a team.
+ */
+async function submitDraftPick(
+  input: z.infer<typeof DraftPickInputSchema>,
+  { byCommissioner = false }: { byCommissioner?: boolean } = {}
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const timingStart = Date.now();
+  logDraftTiming("makeDraftPick:start", {
+    leagueId: input.leagueId,
+    teamId: input.teamId,
+    assetType: input.assetType,
+    assetId: input.assetId,
+  });
+
+  // Load league to ensure draft has not already completed and to get current pick/round
+  const [league] = await db
+    .select()
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+
+  if (!league) {
+    throw new Error("League not found");
+  }
+
+  if (league.draftCompleted === 1) {
+    logDraftTiming("makeDraftPick:league_already_complete", {
+      leagueId: input.leagueId,
+    });
+    throw new Error("Draft is complete");
+  }
+
+  if (league.draftType === "auction") {
+    throw new Error("Auction drafts use nominations and bids instead of direct picks");
+  }
+
+  if (league.draftPaused === 1 && !byCommissioner) {
+    throw new Error("The draft is paused by the commissioner");
+  }
+
+  const currentPickNumber = league.currentDraftPick;
+  const currentRound = league.currentDraftRound;
+
+  // ========== PARALLEL PHASE 1: Validation + Roster Count + Team Lookup ==========
+  const parallelStart = Date.now();
+  const [validation, currentRosterSize, teamResult] = await Promise.all([
+    validateDraftPick(input.leagueId, input.teamId, input.assetType, input.assetId),
+    db.select().from(rosters).where(eq(rosters.teamId, input.teamId)),
+    db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1),
+  ]);
+  logDraftTiming("makeDraftPick:parallelPhase1", {
+    leagueId: input.leagueId,
+    durationMs: Date.now() - parallelStart,
+    valid: validation.valid,
+  });
+
+  if (!validation.valid) {
+    throw new Error(validation.error || "Invalid draft pick");
+  }
+
+  const team = teamResult[0];
+  const draftRound = input.draftRound || Math.floor(currentRosterSize.length / 9) + 1;
+  const draftPick = input.draftPick || currentRosterSize.length + 1;
+
+  // ========== PARALLEL PHASE 2: Asset Lookup + DB Writes ==========
+  // Asset lookup runs in parallel with roster/draftPicks inserts
+  const writeStart = Date.now();
+
+  // Get asset name based on type (single query)
+  const assetLookupPromise = (async () => {
+    if (input.assetType === "manufacturer") {
+      const [mfg] = await db.select().from(manufacturers).where(eq(manufacturers.id, input.assetId)).limit(1);
+      return { name: mfg?.name || "Unknown", imageUrl: mfg?.logoUrl || null };
+    } else if (input.assetType === "cannabis_strain") {
+      const [strain] = await db.select().from(cannabisStrains).where(eq(cannabisStrains.id, input.assetId)).limit(1);
+      return { name: strain?.name || "Unknown", imageUrl: strain?.imageUrl || null };
+    } else if (input.assetType === "product") {
+      const [product] = await db.select().from(strains).where(eq(strains.id, input.assetId)).limit(1);
+      return { name: product?.name || "Unknown", imageUrl: product?.imageUrl || null };
+    } else if (input.assetType === "pharmacy") {
+      const [pharmacy] = await db.select().from(pharmacies).where(eq(pharmacies.id, input.assetId)).limit(1);
+      return { name: pharmacy?.name || "Unknown", imageUrl: pharmacy?.logoUrl || null };
+    } else if (input.assetType === "brand") {
+      const [brand] = await db.select().from(brands).where(eq(brands.id, input.assetId)).limit(1);
+      return { name: brand?.name || "Unknown", imageUrl: brand?.logoUrl || null };
+    }
+    return { name: "Unknown", imageUrl: null };
+  })();
+
+  // Run asset lookup, roster insert, and draft pick insert in parallel
+  const [assetInfo] = await Promise.all([
+    assetLookupPromise,
+    db.insert(rosters).values({
+      teamId: input.teamId,
+      assetType: input.assetType,
+      assetId: input.assetId,
+      acquiredWeek: 0,
+      acquiredVia: "draft",
+    }),
+    db.insert(draftPicks).values({
+      leagueId: input.leagueId,
+      teamId: input.teamId,
+      round: currentRound,
+      pickNumber: currentPickNumber,
+      assetType: input.assetType,
+      assetId: input.assetId,
+    }),
+  ]);
+
+  const assetName = assetInfo.name;
+  const assetImageUrl = assetInfo.imageUrl;
+
+  logDraftTiming("makeDraftPick:parallelPhase2", {
+    leagueId: input.leagueId,
+    durationMs: Date.now() - writeStart,
+  });
+
+  // Notify all clients in the draft room about the pick itself
+  wsManager.notifyPlayerPicked(input.leagueId, {
+    teamId: input.teamId,
+    teamName: team?.name || "Unknown Team",
+    assetType: input.assetType,
+    assetId: input.assetId,
+    assetName,
+    pickNumber: draftPick,
+    imageUrl: assetImageUrl,
+  });
+
+  // Remove the drafted player from all wishlists in the league (graceful - doesn't break if table doesn't exist)
+  try {
+    const { removeFromAllWishlists } = await import("./autoPick");
+    await removeFromAllWishlists(input.leagueId, input.assetType, input.assetId);
+
+    // Notify clients about wishlist update
+    wsManager.notifyWishlistPlayerDrafted(input.leagueId, {
+      assetType: input.assetType,
+      assetId: input.assetId,
+      assetName,
+      draftedByTeamId: input.teamId,
+      draftedByTeamName: team?.name || "Unknown Team",
+    });
+  } catch (wishlistError) {
+    // Log but don't fail the draft pick if wishlist cleanup fails
+    console.warn('[DraftRouter] Failed to clean up wishlists (table may not exist yet):', wishlistError);
+  }
+
+  // Advance to next pick (also handles final-draft completion bookkeeping)
+  const advanceStart = Date.now();
+  const draftCompletedNow = await advanceDraftPick(input.leagueId);
+  logDraftTiming("makeDraftPick:advanceDraftPick", {
+    leagueId: input.leagueId,
+    draftCompletedNow,
+    durationMs: Date.now() - advanceStart,
+  });
+
+  // Stop current timer for this pick
+  draftTimerManager.stopTimer(input.leagueId);
+
+  if (draftCompletedNow) {
+    // Ensure timer fully stopped and notify all clients
+    draftTimerManager.stopTimer(input.leagueId);
+    wsManager.notifyDraftComplete(input.leagueId);
+    console.log(`[DraftRouter] Draft complete for league ${input.leagueId}`);
+  } else {
+    // Calculate and notify next pick
+    const nextPickInfo = await calculateNextPick(input.leagueId).catch(() => null);
+    if (nextPickInfo) {
+      wsManager.notifyNextPick(input.leagueId, {
+        teamId: nextPickInfo.teamId,
+        teamName: nextPickInfo.teamName,
+        pickNumber: nextPickInfo.pickNumber,
+        round: nextPickInfo.round,
+      });
+
+      // Start timer for next pick
+      await draftTimerManager.startTimer(input.leagueId);
+    }
+  }
+
+  logDraftTiming("makeDraftPick:complete", {
+    leagueId: input.leagueId,
+    teamId: input.teamId,
+    assetType: input.assetType,
+    assetId: input.assetId,
+    draftCompletedNow,
+    totalDurationMs: Date.now() - timingStart,
+  });
+
+  return { success: true, assetName };
+}
+
 /**
  * Draft Router
  * 
@@ -137,6 +366,7 @@ async function getDailyChallengePoints(
  * - Get available players by category
  * - Make draft pick
  * - Get draft status
+ * - Commissioner tools: undo, pause/resume, picks on behalf of a team, pick clock
  */
 export const draftRouter = router({
   /**
@@ -648,196 +878,8 @@ export const draftRouter = router({
    * Make a draft pick
    */
   makeDraftPick: protectedProcedure
-    .input(
-      z.object({
-        leagueId: z.number(),
-        teamId: z.number(),
-        assetType: z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]),
-        assetId: z.number(),
-        draftRound: z.number().optional(),
-        draftPick: z.number().optional(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new Error("Database not available");
-
-      const timingStart = Date.now();
-      logDraftTiming("makeDraftPick:start", {
-        leagueId: input.leagueId,
-        teamId: input.teamId,
-        assetType: input.assetType,
-        assetId: input.assetId,
-      });
-
-      // Load league to ensure draft has not already completed and to get current pick/round
-      const [league] = await db
-        .select()
-        .from(leagues)
-        .where(eq(leagues.id, input.leagueId))
-        .limit(1);
-
-      if (!league) {
-        throw new Error("League not found");
-      }
-
-      if (league.draftCompleted === 1) {
-        logDraftTiming("makeDraftPick:league_already_complete", {
-          leagueId: input.leagueId,
-        });
-        throw new Error("Draft is complete");
-      }
-
-      const currentPickNumber = league.currentDraftPick;
-      const currentRound = league.currentDraftRound;
-
-      // ========== PARALLEL PHASE 1: Validation + Roster Count + Team Lookup ==========
-      const parallelStart = Date.now();
-      const [validation, currentRosterSize, teamResult] = await Promise.all([
-        validateDraftPick(input.leagueId, input.teamId, input.assetType, input.assetId),
-        db.select().from(rosters).where(eq(rosters.teamId, input.teamId)),
-        db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1),
-      ]);
-      logDraftTiming("makeDraftPick:parallelPhase1", {
-        leagueId: input.leagueId,
-        durationMs: Date.now() - parallelStart,
-        valid: validation.valid,
-      });
-
-      if (!validation.valid) {
-        throw new Error(validation.error || "Invalid draft pick");
-      }
-
-      const team = teamResult[0];
-      const draftRound = input.draftRound || Math.floor(currentRosterSize.length / 9) + 1;
-      const draftPick = input.draftPick || currentRosterSize.length + 1;
-
-      // ========== PARALLEL PHASE 2: Asset Lookup + DB Writes ==========
-      // Asset lookup runs in parallel with roster/draftPicks inserts
-      const writeStart = Date.now();
-
-      // Get asset name based on type (single query)
-      const assetLookupPromise = (async () => {
-        if (input.assetType === "manufacturer") {
-          const [mfg] = await db.select().from(manufacturers).where(eq(manufacturers.id, input.assetId)).limit(1);
-          return { name: mfg?.name || "Unknown", imageUrl: mfg?.logoUrl || null };
-        } else if (input.assetType === "cannabis_strain") {
-          const [strain] = await db.select().from(cannabisStrains).where(eq(cannabisStrains.id, input.assetId)).limit(1);
-          return { name: strain?.name || "Unknown", imageUrl: strain?.imageUrl || null };
-        } else if (input.assetType === "product") {
-          const [product] = await db.select().from(strains).where(eq(strains.id, input.assetId)).limit(1);
-          return { name: product?.name || "Unknown", imageUrl: product?.imageUrl || null };
-        } else if (input.assetType === "pharmacy") {
-          const [pharmacy] = await db.select().from(pharmacies).where(eq(pharmacies.id, input.assetId)).limit(1);
-          return { name: pharmacy?.name || "Unknown", imageUrl: pharmacy?.logoUrl || null };
-        } else if (input.assetType === "brand") {
-          const [brand] = await db.select().from(brands).where(eq(brands.id, input.assetId)).limit(1);
-          return { name: brand?.name || "Unknown", imageUrl: brand?.logoUrl || null };
-        }
-        return { name: "Unknown", imageUrl: null };
-      })();
-
-      // Run asset lookup, roster insert, and draft pick insert in parallel
-      const [assetInfo] = await Promise.all([
-        assetLookupPromise,
-        db.insert(rosters).values({
-          teamId: input.teamId,
-          assetType: input.assetType,
-          assetId: input.assetId,
-          acquiredWeek: 0,
-          acquiredVia: "draft",
-        }),
-        db.insert(draftPicks).values({
-          leagueId: input.leagueId,
-          teamId: input.teamId,
-          round: currentRound,
-          pickNumber: currentPickNumber,
-          assetType: input.assetType,
-          assetId: input.assetId,
-        }),
-      ]);
-
-      const assetName = assetInfo.name;
-      const assetImageUrl = assetInfo.imageUrl;
-
-      logDraftTiming("makeDraftPick:parallelPhase2", {
-        leagueId: input.leagueId,
-        durationMs: Date.now() - writeStart,
-      });
-
-      // Notify all clients in the draft room about the pick itself
-      wsManager.notifyPlayerPicked(input.leagueId, {
-        teamId: input.teamId,
-        teamName: team?.name || "Unknown Team",
-        assetType: input.assetType,
-        assetId: input.assetId,
-        assetName,
-        pickNumber: draftPick,
-        imageUrl: assetImageUrl,
-      });
-
-      // Remove the drafted player from all wishlists in the league (graceful - doesn't break if table doesn't exist)
-      try {
-        const { removeFromAllWishlists } = await import("./autoPick");
-        await removeFromAllWishlists(input.leagueId, input.assetType, input.assetId);
-
-        // Notify clients about wishlist update
-        wsManager.notifyWishlistPlayerDrafted(input.leagueId, {
-          assetType: input.assetType,
-          assetId: input.assetId,
-          assetName,
-          draftedByTeamId: input.teamId,
-          draftedByTeamName: team?.name || "Unknown Team",
-        });
-      } catch (wishlistError) {
-        // Log but don't fail the draft pick if wishlist cleanup fails
-        console.warn('[DraftRouter] Failed to clean up wishlists (table may not exist yet):', wishlistError);
-      }
-
-      // Advance to next pick (also handles final-draft completion bookkeeping)
-      const advanceStart = Date.now();
-      const draftCompletedNow = await advanceDraftPick(input.leagueId);
-      logDraftTiming("makeDraftPick:advanceDraftPick", {
-        leagueId: input.leagueId,
-        draftCompletedNow,
-        durationMs: Date.now() - advanceStart,
-      });
-
-      // Stop current timer for this pick
-      draftTimerManager.stopTimer(input.leagueId);
-
-      if (draftCompletedNow) {
-        // Ensure timer fully stopped and notify all clients
-        draftTimerManager.stopTimer(input.leagueId);
-        wsManager.notifyDraftComplete(input.leagueId);
-        console.log(`[DraftRouter] Draft complete for league ${input.leagueId}`);
-      } else {
-        // Calculate and notify next pick
-        const nextPickInfo = await calculateNextPick(input.leagueId).catch(() => null);
-        if (nextPickInfo) {
-          wsManager.notifyNextPick(input.leagueId, {
-            teamId: nextPickInfo.teamId,
-            teamName: nextPickInfo.teamName,
-            pickNumber: nextPickInfo.pickNumber,
-            round: nextPickInfo.round,
-          });
-
-          // Start timer for next pick
-          await draftTimerManager.startTimer(input.leagueId);
-        }
-      }
-
-      logDraftTiming("makeDraftPick:complete", {
-        leagueId: input.leagueId,
-        teamId: input.teamId,
-        assetType: input.assetType,
-        assetId: input.assetId,
-        draftCompletedNow,
-        totalDurationMs: Date.now() - timingStart,
-      });
-
-      return { success: true, assetName };
-    }),
+    .input(DraftPickInputSchema)
+    .mutation(async ({ input }) => submitDraftPick(input)),
 
   /**
    * Start the draft (Commissioner only)
@@ -903,6 +945,28 @@ export const draftRouter = router({
         })
         .where(eq(leagues.id, input.leagueId));
 
+      // Renewed keeper/dynasty leagues: kept assets use up their forfeited picks
+      const keeperPicks = await applyKeeperDraftPicks(input.leagueId);
+      if (keeperPicks > 0) {
+        const firstOpenPick = await getNextOpenPickNumber(input.leagueId, 1);
+        const totalPicks = leagueTeams.length * (league.leagueType === "challenge" ? 9 : 10);
+
+        if (firstOpenPick > totalPicks) {
+          // Every roster slot is already filled by kept assets
+          await checkAndCompleteDraft(input.leagueId);
+          wsManager.notifyDraftComplete(input.leagueId);
+          return { success: true, teamCount: leagueTeams.length };
+        }
+
+        await db
+          .update(leagues)
+          .set({
+            currentDraftPick: firstOpenPick,
+            currentDraftRound: Math.ceil(firstOpenPick / leagueTeams.length),
+          })
+          .where(eq(leagues.id, input.leagueId));
+      }
+
       // Notify all clients
       wsManager.broadcastToDraftRoom(input.leagueId, {
         type: "draft_started",
@@ -924,6 +988,207 @@ export const draftRouter = router({
       return { success: true, teamCount: leagueTeams.length };
     }),
 
+  /**
+   * Undo the last picks of the draft (Commissioner only)
+   */
+  undoPicks: protectedProcedure
+    .input(z.object({ leagueId: z.number(), count: z.number().int().min(1).max(50).default(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const league = await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      // Stops the pick clock once the undo is validated
+      const result = await undoDraftPicks(db, league, input.count);
+      await logCommissionerAction(db, league.id, ctx.user.id, "draft_undo", {
+        count: result.picks.length,
+        picks: result.picks,
+      });
+
+      wsManager.notifyPicksUndone(league.id, result);
+      const nextPick = await calculateNextPick(league.id);
+      wsManager.notifyNextPick(league.id, {
+        teamId: nextPick.teamId,
+        teamName: nextPick.teamName,
+        pickNumber: nextPick.pickNumber,
+        round: nextPick.round,
+      });
+      // startTimer stays idle while the draft is paused
+      await draftTimerManager.startTimer(league.id);
+
+      return { success: true, undone: result.picks.length, pickNumber: result.pickNumber };
+    }),
+
+  /**
+   * Pause the draft clock (Commissioner only)
+   */
+  pauseDraft: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const league = await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      const result = await pauseDraft(db, league);
+      await logCommissionerAction(db, league.id, ctx.user.id, "draft_pause", {
+        pickNumber: league.currentDraftPick,
+        remaining: result.remaining,
+      });
+      return { success: true, ...result };
+    }),
+
+  /**
+   * Resume a paused draft (Commissioner only)
+   */
+  resumeDraft: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const league = await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      const result = await resumeDraft(db, league);
+      await logCommissionerAction(db, league.id, ctx.user.id, "draft_resume", {
+        pickNumber: league.currentDraftPick,
+        remaining: result.remaining,
+      });
+      return { success: true, ...result };
+    }),
+
+  /**
+   * Make the current pick for the team on the clock (Commissioner only)
+   */
+  commissionerMakePick: protectedProcedure
+    .input(DraftPickInputSchema.omit({ teamId: true, draftRound: true, draftPick: true }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const league = await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      const onTheClock = await calculateNextPick(league.id);
+      const result = await submitDraftPick({ ...input, teamId: onTheClock.teamId }, { byCommissioner: true });
+      await logCommissionerAction(db, league.id, ctx.user.id, "draft_pick_on_behalf", {
+        pickNumber: onTheClock.pickNumber,
+        teamId: onTheClock.teamId,
+        assetType: input.assetType,
+        assetId: input.assetId,
+        assetName: result.assetName,
+      });
+      return { ...result, teamId: onTheClock.teamId, teamName: onTheClock.teamName };
+    }),
+
+  /**
+   * Change the pick clock mid-draft (Commissioner only)
+   */
+  setPickTimeLimit: protectedProcedure
+    .input(z.object({ leagueId: z.number(), seconds: z.number().int().min(10).max(24 * 60 * 60) }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const league = await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      const result = await setDraftPickTimeLimit(db, league, input.seconds);
+      await logCommissionerAction(db, league.id, ctx.user.id, "draft_time_limit", result);
+      return { success: true, pickTimeLimit: result.pickTimeLimit };
+    }),
+
+  /**
+   * Commissioner audit log of a league (Commissioner only)
+   */
+  getCommissionerLog: protectedProcedure
+    .input(z.object({ leagueId: z.number(), limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getLeagueAsCommissioner(db, input.leagueId, ctx.user.id);
+      return getCommissionerAuditLog(db, input.leagueId, input.limit);
+    }),
+
+  /**
+   * Nominate an asset for auction (auction drafts only)
+   */
+  nominateAsset: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        teamId: z.number(),
+        assetType: z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]),
+        assetId: z.number(),
+        openingBid: z.number().int().min(1).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [team] = await db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1);
+      if (!team || team.leagueId !== input.leagueId || team.userId !== ctx.user.id) {
+        throw new Error("You can only nominate for your own team");
+      }
+
+      await auctionDraftManager.nominate(
+        input.leagueId,
+        input.teamId,
+        input.assetType,
+        input.assetId,
+        input.openingBid
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Bid on the asset currently up for auction
+   */
+  placeBid: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        teamId: z.number(),
+        amount: z.number().int().min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [team] = await db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1);
+      if (!team || team.leagueId !== input.leagueId || team.userId !== ctx.user.id) {
+        throw new Error("You can only bid for your own team");
+      }
+
+      const result = await auctionDraftManager.placeBid(input.leagueId, input.teamId, input.amount);
+      return { success: true, ...result };
+    }),
+
+  /**
+   * Get the current auction lot and every team's budget
+   */
+  getAuctionState: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+
+      if (!league) throw new Error("League not found");
+      if (league.draftType !== "auction") throw new Error("League does not use an auction draft");
+
+      const budgets = await getAuctionBudgets(league);
+      return {
+        ...auctionDraftManager.getState(input.leagueId),
+        minBid: league.auctionMinBid,
+        bidTimeLimit: league.auctionBidTimeLimit,
+        budgets,
+      };
+    }),
+
   /**
    * Get current draft status
    */
@@ -992,7 +1257,8 @@ export const draftRouter = router({
         })
         .from(teams)
         .leftJoin(users, eq(teams.userId, users.id))
-        .where(eq(teams.leagueId, input.leagueId));
+        .where(eq(teams.leagueId, input.leagueId))
+        .orderBy(teams.draftPosition);
       const teamIds = leagueTeams.map((t) => t.teamId);
       const teamMap = new Map<number, { name: string; userName: string | null; userAvatarUrl: string | null }>();
       leagueTeams.forEach(t => teamMap.set(t.teamId, { name: t.teamName, userName: t.userName, userAvatarUrl: t.userAvatarUrl }));
@@ -1000,6 +1266,13 @@ export const draftRouter = router({
 
       const includeStats = input.includeStats ?? true;
 
+      const [league] = await db
+        .select({ leagueType: leagues.leagueType, draftType: leagues.draftType })
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+      if (!league) throw new Error("League not found");
+
       // Fetch all draft picks for this league (fall back gracefully if table missing)
       let picks: DraftPickRow[] = [];
       try {
@@ -1041,6 +1314,7 @@ export const draftRouter = router({
           pickNumber: index + 1,
           assetType: entry.assetType as "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand",
           assetId: entry.assetId,
+          price: null,
           pickTime: entry.createdAt,
         }));
 
@@ -1218,11 +1492,17 @@ export const draftRouter = router({
         }
 
         const teamData = teamMap.get(pick.teamId);
+        // Team whose slot this pick is; differs from teamId when the pick was traded
+        const originalTeamId = canTradeDraftPicks(league)
+          ? teamIds[getSlotTeamIndex(league.draftType, teamCount, pick.pickNumber)] ?? pick.teamId
+          : pick.teamId;
         return {
           pickNumber: pick.pickNumber,
           round: pick.round,
           teamId: pick.teamId,
           teamName: teamData?.name || "Unknown Team",
+          originalTeamId,
+          originalTeamName: teamMap.get(originalTeamId)?.name || "Unknown Team",
           userName: teamData?.userName || null,
           userAvatarUrl: teamData?.userAvatarUrl || null,
           assetType: pick.assetType,
@@ -1231,6 +1511,7 @@ export const draftRouter = router({
           imageUrl,
           lastWeekPoints,
           trendPercent,
+          price: pick.price ?? null,
           pickTime: pick.pickTime,
         };
       });
@@ -1238,6 +1519,48 @@ export const draftRouter = router({
       return enrichedPicks;
     }),
 
+  /**
+   * Picks of this season's draft that changed hands, for marking them in the draft board
+   */
+  getTradedPicks: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [league] = await db.select().from(leagues).where(eq(leagues.id, input.leagueId)).limit(1);
+      if (!league || !canTradeDraftPicks(league)) return [];
+
+      const [tradedPicks, leagueTeams] = await Promise.all([
+        getTradedDraftPicks(db, league.id, league.seasonYear),
+        db.select({ id: teams.id, name: teams.name }).from(teams).where(eq(teams.leagueId, league.id)),
+      ]);
+      const teamName = (teamId: number) => leagueTeams.find((t) => t.id === teamId)?.name || "Unknown Team";
+
+      return tradedPicks.map((pick) => ({
+        round: pick.round,
+        originalTeamId: pick.originalTeamId,
+        originalTeamName: teamName(pick.originalTeamId),
+        ownerTeamId: pick.ownerTeamId,
+        ownerTeamName: teamName(pick.ownerTeamId),
+      }));
+    }),
+
+  /**
+   * Post-draft grades: each team's picks against ADP and projected points
+   */
+  getDraftGrades: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [league] = await db.select().from(leagues).where(eq(leagues.id, input.leagueId)).limit(1);
+      if (!league) throw new Error("League not found");
+
+      return getDraftGrades(db, league);
+    }),
+
   /**
    * Get auto-pick status for a team
    */
@@ -4,6 +4,7 @@ import { leagues, teams } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
 import { calculateNextPick } from "./draftLogic";
 import { autoPickService, type AutoPickResult } from "./autoPick";
+import { auctionDraftManager } from "./auctionDraft";
 
 /**
  * Draft Timer Manager v2.0
@@ -79,6 +80,17 @@ class DraftTimerManager {
       return;
     }
 
+    if (league.draftPaused) {
+      logDraftTimer("Draft is paused, not starting timer", { leagueId });
+      return;
+    }
+
+    // Auction drafts run their own nomination/bid clocks
+    if (league.draftType === "auction") {
+      await auctionDraftManager.startNomination(leagueId);
+      return;
+    }
+
     let nextPick;
     try {
       nextPick = await calculateNextPick(leagueId);
@@ -345,22 +357,23 @@ class DraftTimerManager {
   }
 
   /**
-   * Pause timer (for commissioner actions)
+   * Pause timer (for commissioner actions). Returns the seconds that were left, or null without a timer.
    */
-  pauseTimer(leagueId: number): void {
+  pauseTimer(leagueId: number): number | null {
     const timer = this.timers.get(leagueId);
-    if (timer) {
-      clearInterval(timer.interval);
-      clearTimeout(timer.timeout);
+    if (!timer) return null;
 
-      const remaining = this.getRemainingTime(leagueId) || 0;
+    const remaining = this.getRemainingTime(leagueId) || 0;
+    clearInterval(timer.interval);
+    clearTimeout(timer.timeout);
+    this.timers.delete(leagueId);
 
-      wsManager.notifyTimerPause(leagueId, {
-        remaining,
-      });
+    wsManager.notifyTimerPause(leagueId, {
+      remaining,
+    });
 
-      logDraftTimer("Timer paused", { leagueId, remaining });
-    }
+    logDraftTimer("Timer paused", { leagueId, remaining });
+    return remaining;
   }
 
   /**
@@ -8,6 +8,7 @@ import * as postmark from 'postmark';
  * - Draft notifications
  * - Scoring updates
  * - Trade notifications
+ * - Stock market price alerts
  * - Weekly recaps
  */
 
@@ -707,6 +708,267 @@ export async function sendDailyChallengeReminder(params: {
   });
 }
 
+/**
+ * Send trade offer notification (new offers and counter-offers)
+ */
+export async function sendTradeOfferNotification(params: {
+  toEmail: string;
+  toName: string;
+  leagueName: string;
+  leagueId: number;
+  fromTeamName: string;
+  receiveAssets: string[];
+  sendAssets: string[];
+  isCounterOffer?: boolean;
+  message?: string | null;
+  expiresAt?: Date | null;
+}): Promise<boolean> {
+  const tradesUrl = `${APP_URL}/league/${params.leagueId}/trades`;
+  const headline = params.isCounterOffer ? 'Counter-Offer Received' : 'New Trade Offer';
+  const listItems = (assets: string[]) =>
+    assets.length > 0 ? assets.map((asset) => `<li>${asset}</li>`).join('') : '<li>Nothing</li>';
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${headline}</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .container {
+      background: #ffffff;
+      border-radius: 8px;
+      padding: 40px;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 30px;
+    }
+    .logo {
+      font-size: 32px;
+      font-weight: bold;
+      color: #10b981;
+      margin-bottom: 10px;
+    }
+    .title {
+      font-size: 24px;
+      font-weight: bold;
+      color: #1f2937;
+      margin-bottom: 20px;
+    }
+    .message {
+      font-size: 16px;
+      color: #4b5563;
+      margin-bottom: 30px;
+    }
+    .assets {
+      background: #f3f4f6;
+      border-radius: 6px;
+      padding: 16px 20px;
+      margin: 20px 0;
+    }
+    .button {
+      display: inline-block;
+      background: #10b981;
+      color: #ffffff;
+      text-decoration: none;
+      padding: 14px 32px;
+      border-radius: 6px;
+      font-weight: 600;
+      font-size: 16px;
+    }
+    .alert {
+      background: #fef3c7;
+      border-left: 4px solid #f59e0b;
+      padding: 16px;
+      margin: 20px 0;
+      border-radius: 4px;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 40px;
+      padding-top: 20px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 14px;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">🌿 Cannabis Fantasy League</div>
+    </div>
+    
+    <div class="title">🤝 ${headline}</div>
+    
+    <div class="message">
+      <p>Hi ${params.toName},</p>
+      <p><strong>${params.fromTeamName}</strong> sent you ${params.isCounterOffer ? 'a counter-offer' : 'a trade offer'} in <strong>${params.leagueName}</strong>.</p>
+      ${params.message ? `<p><em>"${params.message}"</em></p>` : ''}
+    </div>
+    
+    <div class="assets">
+      <strong>You receive:</strong>
+      <ul>${listItems(params.receiveAssets)}</ul>
+      <strong>You send:</strong>
+      <ul>${listItems(params.sendAssets)}</ul>
+    </div>
+    
+    ${params.expiresAt ? `
+    <div class="alert">
+      <strong>Offer expires:</strong> ${params.expiresAt.toLocaleString()}
+    </div>
+    ` : ''}
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${tradesUrl}" class="button">Review Trade</a>
+    </div>
+    
+    <div class="footer">
+      <p>${params.leagueName}</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  return sendEmail({
+    to: params.toEmail,
+    subject: `${headline} from ${params.fromTeamName} - ${params.leagueName}`,
+    html,
+  });
+}
+
+/**
+ * Send stock market price alert notification
+ */
+export async function sendPriceAlertNotification(params: {
+  toEmail: string;
+  toName: string;
+  assetName: string;
+  condition: string;
+  price: number;
+}): Promise<boolean> {
+  const marketUrl = `${APP_URL}/market`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Price Alert</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .container {
+      background: #ffffff;
+      border-radius: 8px;
+      padding: 40px;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 30px;
+    }
+    .logo {
+      font-size: 32px;
+      font-weight: bold;
+      color: #10b981;
+      margin-bottom: 10px;
+    }
+    .title {
+      font-size: 24px;
+      font-weight: bold;
+      color: #1f2937;
+      margin-bottom: 20px;
+    }
+    .message {
+      font-size: 16px;
+      color: #4b5563;
+      margin-bottom: 30px;
+    }
+    .price {
+      background: #f3f4f6;
+      border-radius: 6px;
+      padding: 16px 20px;
+      margin: 20px 0;
+      text-align: center;
+      font-size: 28px;
+      font-weight: bold;
+      color: #10b981;
+    }
+    .button {
+      display: inline-block;
+      background: #10b981;
+      color: #ffffff;
+      text-decoration: none;
+      padding: 14px 32px;
+      border-radius: 6px;
+      font-weight: 600;
+      font-size: 16px;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 40px;
+      padding-top: 20px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 14px;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">🌿 Cannabis Fantasy League</div>
+    </div>
+    
+    <div class="title">🔔 Price Alert: ${params.assetName}</div>
+    
+    <div class="message">
+      <p>Hi ${params.toName},</p>
+      <p>Your alert for <strong>${params.assetName}</strong> was triggered: ${params.condition}.</p>
+    </div>
+    
+    <div class="price">${params.price.toFixed(2)} pts</div>
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${marketUrl}" class="button">Open Market</a>
+    </div>
+    
+    <div class="footer">
+      <p>You receive this email because you enabled email delivery for this alert.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  return sendEmail({
+    to: params.toEmail,
+    subject: `🔔 Price Alert: ${params.assetName}`,
+    html,
+  });
+}
+
 export default {
   sendEmail,
   sendLeagueInvitation,
@@ -714,4 +976,6 @@ export default {
   sendWeeklyScoringNotification,
   sendWelcomeEmail,
   sendDailyChallengeReminder,
+  sendTradeOfferNotification,
+  sendPriceAlertNotification,
 };
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { router, protectedProcedure } from "./_core/trpc";
+import { getDb } from "./db";
+import { keepers, leagues, rosters, teams } from "../drizzle/schema";
+import { eq, and } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { calculateKeeperCost } from "./keeperService";
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+const assetTypeSchema = z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]);
+
+async function getLeagueAndTeam(db: Database, leagueId: number, userId: number) {
+  const [league] = await db
+    .select()
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+
+  if (!league) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+  }
+
+  const [team] = await db
+    .select()
+    .from(teams)
+    .where(and(eq(teams.leagueId, leagueId), eq(teams.userId, userId)))
+    .limit(1);
+
+  if (!team) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You are not a member of this league" });
+  }
+
+  return { league, team };
+}
+
+/**
+ * Keepers can only change while keeper mode is on and the league hasn't been renewed yet
+ */
+async function assertKeepersEditable(db: Database, league: typeof leagues.$inferSelect) {
+  if (league.keeperMode !== "keeper") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This league does not use keepers" });
+  }
+
+  const [renewed] = await db
+    .select({ id: leagues.id })
+    .from(leagues)
+    .where(eq(leagues.previousLeagueId, league.id))
+    .limit(1);
+
+  if (renewed) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "League has already been renewed; keepers are locked" });
+  }
+}
+
+export const keeperRouter = router({
+  /**
+   * Keeper cost of every asset on my roster and which ones are designated
+   */
+  getKeeperOptions: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const { league, team } = await getLeagueAndTeam(db, input.leagueId, ctx.user.id);
+
+      const [rosterEntries, designated] = await Promise.all([
+        db.select().from(rosters).where(eq(rosters.teamId, team.id)),
+        db
+          .select()
+          .from(keepers)
+          .where(and(eq(keepers.leagueId, league.id), eq(keepers.teamId, team.id))),
+      ]);
+
+      const options = await Promise.all(
+        rosterEntries.map(async (entry) => {
+          const cost = await calculateKeeperCost(league, team.id, entry.assetType, entry.assetId);
+          return {
+            assetType: entry.assetType,
+            assetId: entry.assetId,
+            ...cost,
+            isKeeper: designated.some(
+              (k) => k.assetType === entry.assetType && k.assetId === entry.assetId
+            ),
+          };
+        })
+      );
+
+      return {
+        keeperMode: league.keeperMode,
+        maxKeepers: league.maxKeepers,
+        keeperCount: designated.length,
+        options,
+      };
+    }),
+
+  /**
+   * Designate a rostered asset as a keeper for next season
+   */
+  designateKeeper: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        assetType: assetTypeSchema,
+        assetId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const { league, team } = await getLeagueAndTeam(db, input.leagueId, ctx.user.id);
+      await assertKeepersEditable(db, league);
+
+      const [onRoster] = await db
+        .select()
+        .from(rosters)
+        .where(
+          and(
+            eq(rosters.teamId, team.id),
+            eq(rosters.assetType, input.assetType),
+            eq(rosters.assetId, input.assetId)
+          )
+        )
+        .limit(1);
+
+      if (!onRoster) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Asset is not on your roster" });
+      }
+
+      const existing = await db
+        .select()
+        .from(keepers)
+        .where(and(eq(keepers.leagueId, league.id), eq(keepers.teamId, team.id)));
+
+      if (existing.some((k) => k.assetType === input.assetType && k.assetId === input.assetId)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Asset is already a keeper" });
+      }
+
+      if (existing.length >= league.maxKeepers) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can keep at most ${league.maxKeepers} assets`,
+        });
+      }
+
+      const cost = await calculateKeeperCost(league, team.id, input.assetType, input.assetId);
+
+      await db.insert(keepers).values({
+        leagueId: league.id,
+        teamId: team.id,
+        assetType: input.assetType,
+        assetId: input.assetId,
+        ...cost,
+      });
+
+      return { success: true, ...cost };
+    }),
+
+  /**
+   * Remove a keeper designation
+   */
+  removeKeeper: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        assetType: assetTypeSchema,
+        assetId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const { league, team } = await getLeagueAndTeam(db, input.leagueId, ctx.user.id);
+      await assertKeepersEditable(db, league);
+
+      await db
+        .delete(keepers)
+        .where(
+          and(
+            eq(keepers.leagueId, league.id),
+            eq(keepers.teamId, team.id),
+            eq(keepers.assetType, input.assetType),
+            eq(keepers.assetId, input.assetId)
+          )
+        );
+
+      return { success: true };
+    }),
+});
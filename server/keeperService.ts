@@ -0,0 +1,243 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb } from "./db";
+import { draftPicks, keepers, leagues, rosters, teams } from "../drizzle/schema";
+import { getTradedDraftPicks } from "./draftPickService";
+import type { Database } from "./assetNames";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+const SEASON_TOTAL_SLOTS = 10;
+
+export interface KeeperCost {
+  originalRound: number;
+  yearsKept: number;
+  roundCost: number;
+}
+
+/**
+ * Overall pick number a team holds in a given round
+ */
+export function getPickNumberForRound(
+  draftType: string,
+  teamCount: number,
+  teamIndex: number,
+  round: number
+): number {
+  const isSnakeDraft = draftType === "snake" && teamCount > 2;
+  const positionInRound = isSnakeDraft && round % 2 === 0
+    ? teamCount - 1 - teamIndex
+    : teamIndex;
+  return (round - 1) * teamCount + positionInRound + 1;
+}
+
+/**
+ * Calculate what keeping an asset costs in next season's draft.
+ *
+ * A keeper costs the pick in the round it was originally drafted in and moves
+ * one round earlier for every season the same owner already kept it.
+ * Undrafted assets (waiver/free agent adds) cost the last round.
+ */
+export async function calculateKeeperCost(
+  league: LeagueRow,
+  teamId: number,
+  assetType: string,
+  assetId: number
+): Promise<KeeperCost> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Asset kept by the same owner last season: carry the original round forward
+  if (league.previousLeagueId) {
+    const [team] = await db.select().from(teams).where(eq(teams.id, teamId)).limit(1);
+    const previousTeams = team
+      ? await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(and(eq(teams.leagueId, league.previousLeagueId), eq(teams.userId, team.userId)))
+      : [];
+
+    if (previousTeams.length > 0) {
+      const [previousKeeper] = await db
+        .select()
+        .from(keepers)
+        .where(
+          and(
+            eq(keepers.leagueId, league.previousLeagueId),
+            eq(keepers.teamId, previousTeams[0].id),
+            eq(keepers.assetType, assetType),
+            eq(keepers.assetId, assetId)
+          )
+        )
+        .limit(1);
+
+      if (previousKeeper) {
+        const yearsKept = previousKeeper.yearsKept + 1;
+        return {
+          originalRound: previousKeeper.originalRound,
+          yearsKept,
+          roundCost: Math.max(1, previousKeeper.originalRound - yearsKept),
+        };
+      }
+    }
+  }
+
+  const [pick] = await db
+    .select({ round: draftPicks.round })
+    .from(draftPicks)
+    .where(
+      and(
+        eq(draftPicks.leagueId, league.id),
+        eq(draftPicks.assetType, assetType),
+        eq(draftPicks.assetId, assetId)
+      )
+    )
+    .limit(1);
+
+  const originalRound = pick?.round ?? SEASON_TOTAL_SLOTS;
+  return { originalRound, yearsKept: 0, roundCost: originalRound };
+}
+
+/**
+ * Remove a team's keeper designation for an asset that left its roster (drop, trade, waiver swap)
+ */
+export async function clearKeeperDesignation(
+  db: Pick<Database, "delete">,
+  teamId: number,
+  assetType: string,
+  assetId: number
+): Promise<void> {
+  await db
+    .delete(keepers)
+    .where(
+      and(
+        eq(keepers.teamId, teamId),
+        eq(keepers.assetType, assetType),
+        eq(keepers.assetId, assetId)
+      )
+    );
+}
+
+/**
+ * Insert the draft picks forfeited by kept assets so the draft skips them.
+ *
+ * Called when a renewed league's draft starts (after the draft order is final).
+ * Keeper-mode assets take the pick in their round cost; if two keepers cost the
+ * same round the later one moves to the nearest free earlier round (then later).
+ * Dynasty rosters fill each team's picks from the last round backwards.
+ * Auction drafts have no rounds, so kept assets use up the final lots instead.
+ *
+ * @returns Number of forfeited picks inserted
+ */
+export async function applyKeeperDraftPicks(leagueId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [league] = await db
+    .select()
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+
+  if (!league || !league.previousLeagueId) return 0;
+
+  const leagueTeams = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.leagueId, leagueId))
+    .orderBy(teams.draftPosition);
+
+  if (leagueTeams.length === 0) return 0;
+
+  const keptEntries = await db
+    .select()
+    .from(rosters)
+    .where(
+      and(
+        inArray(rosters.teamId, leagueTeams.map((t) => t.id)),
+        eq(rosters.acquiredVia, "keeper")
+      )
+    );
+
+  if (keptEntries.length === 0) return 0;
+
+  // Round costs were designated on last season's teams; match them up by owner
+  const previousTeams = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.leagueId, league.previousLeagueId));
+  const previousTeamOwner = new Map(previousTeams.map((t) => [t.id, t.userId]));
+  const previousKeepers = await db
+    .select()
+    .from(keepers)
+    .where(eq(keepers.leagueId, league.previousLeagueId));
+  const costByOwnerAsset = new Map(
+    previousKeepers.map((k) => [
+      `${previousTeamOwner.get(k.teamId)}-${k.assetType}-${k.assetId}`,
+      k.roundCost,
+    ])
+  );
+
+  const teamCount = leagueTeams.length;
+  const rosterSlots = SEASON_TOTAL_SLOTS;
+  const forfeited: Array<typeof draftPicks.$inferInsert> = [];
+
+  if (league.draftType === "auction") {
+    let pickNumber = teamCount * rosterSlots;
+    for (const entry of keptEntries) {
+      forfeited.push({
+        leagueId,
+        teamId: entry.teamId,
+        round: Math.ceil(pickNumber / teamCount),
+        pickNumber,
+        assetType: entry.assetType,
+        assetId: entry.assetId,
+      });
+      pickNumber--;
+    }
+  } else {
+    // A keeper can't cost a pick its team already traded away
+    const tradedAway = await getTradedDraftPicks(db, leagueId, league.seasonYear);
+
+    leagueTeams.forEach((team, teamIndex) => {
+      const entries = keptEntries
+        .filter((entry) => entry.teamId === team.id)
+        .map((entry) => ({
+          entry,
+          cost: costByOwnerAsset.get(`${team.userId}-${entry.assetType}-${entry.assetId}`) ?? null,
+        }))
+        // Designated keepers first (cheapest round first), dynasty carry-overs last
+        .sort((a, b) => (a.cost ?? rosterSlots + 1) - (b.cost ?? rosterSlots + 1));
+
+      const usedRounds = new Set<number>(
+        tradedAway.filter((pick) => pick.originalTeamId === team.id).map((pick) => pick.round)
+      );
+      for (const { entry, cost } of entries) {
+        const candidates = cost !== null
+          ? [
+            ...Array.from({ length: cost }, (_, i) => cost - i),
+            ...Array.from({ length: rosterSlots - cost }, (_, i) => cost + 1 + i),
+          ]
+          : Array.from({ length: rosterSlots }, (_, i) => rosterSlots - i);
+        const round = candidates.find((r) => !usedRounds.has(r));
+        if (round === undefined) break;
+
+        usedRounds.add(round);
+        forfeited.push({
+          leagueId,
+          teamId: team.id,
+          round,
+          pickNumber: getPickNumberForRound(league.draftType, teamCount, teamIndex, round),
+          assetType: entry.assetType,
+          assetId: entry.assetId,
+        });
+      }
+    });
+  }
+
+  if (forfeited.length > 0) {
+    await db.insert(draftPicks).values(forfeited).onConflictDoNothing();
+  }
+
+  console.log(`[KeeperService] Applied ${forfeited.length} keeper picks for league ${leagueId}`);
+  return forfeited.length;
+}
@@ -1,13 +1,16 @@
 import { z } from "zod";
 import { router, protectedProcedure, publicProcedure } from "./_core/trpc";
 import { getDb } from "./db";
-import { leagues, teams, users } from "../drizzle/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { leagues, teams, users, rosters, keepers, divisions, faabTransactions } from "../drizzle/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 import { wsManager } from "./websocket";
 import { completeReferralIfEligible } from "./referralService";
 import halftimeService from "./halftimeService";
 import { autoDraftChallenge } from "./challengeAutoDraft";
+import { resolveScoringConfig } from "../shared/scoringConfig";
+import { resolveTiebreakers } from "../shared/tiebreakers";
+import { carryOverDraftPicks } from "./draftPickService";
 
 /**
  * Generate a random 6-character alphanumeric league code
@@ -21,6 +24,38 @@ function generateLeagueCode(): string {
   return code;
 }
 
+const entityPointsSchema = z.object({
+  manufacturer: z.number().int().min(0).max(100),
+  strain: z.number().int().min(0).max(100),
+  product: z.number().int().min(0).max(100),
+  pharmacy: z.number().int().min(0).max(100),
+});
+
+const rankTierBonusSchema = z.number().int().min(0).max(100);
+
+/**
+ * Custom scoring rules (see shared/scoringConfig.ts)
+ */
+const scoringConfigSchema = z.object({
+  orderPoints: entityPointsSchema,
+  trendPoints: entityPointsSchema,
+  trendMultiplierCap: z.number().min(1).max(10),
+  rankTierBonuses: z.tuple([rankTierBonusSchema, rankTierBonusSchema, rankTierBonusSchema, rankTierBonusSchema]),
+  captainMultiplier: z.number().min(1).max(3),
+  captainBonus: z.number().int().min(0).max(100),
+  synergyEnabled: z.boolean(),
+  fullSynergyPercent: z.number().int().min(0).max(100),
+  partialSynergyPercent: z.number().int().min(0).max(100),
+  teamBonusCap: z.number().int().min(0).max(200),
+});
+
+const tiebreakersSchema = z
+  .array(
+    z.enum(["head_to_head", "points_for", "points_against", "division_record", "median_wins", "coin_flip"])
+  )
+  .min(1)
+  .refine((order) => new Set(order).size === order.length, "Each tiebreaker can only be used once");
+
 /**
  * League Router
  * Handles all league management operations for Season Mode
@@ -131,9 +166,14 @@ export const leagueRouter = router({
         maxTeams: z.number().min(2).max(16).default(10),
         draftDate: z.string().optional().transform(val => val === "" ? undefined : val),
         scoringSystem: z.enum(["standard", "ppr", "custom"]).default("standard"),
+        scoringConfig: scoringConfigSchema.optional(),
         waiverType: z.enum(["faab", "rolling"]).default("faab"),
         faabBudget: z.number().min(0).max(1000).default(100),
         tradeDeadlineWeek: z.number().min(1).max(18).default(13),
+        draftType: z.enum(["snake", "linear", "auction"]).default("snake"),
+        auctionBudget: z.number().min(10).max(1000).default(200),
+        keeperMode: z.enum(["none", "keeper", "dynasty"]).default("none"),
+        maxKeepers: z.number().min(0).max(9).default(0),
         playoffTeams: z.number().min(2).max(8).default(6),
         seasonLength: z.number().min(4).max(52).default(18),
         isPublic: z.boolean().default(false),
@@ -194,6 +234,14 @@ export const leagueRouter = router({
             status: "draft",
             draftDate: input.draftDate ? new Date(input.draftDate) : null,
             scoringType: input.scoringSystem === "standard" ? "standard" : "custom",
+            scoringConfig: input.scoringSystem === "custom" ? input.scoringConfig ?? null : null,
+            // Challenges always use a snake draft
+            draftType: input.leagueType === 'challenge' ? "snake" : input.draftType,
+            auctionBudget: input.auctionBudget,
+            faabEnabled: input.waiverType === "faab",
+            faabBudget: input.faabBudget,
+            keeperMode: input.leagueType === 'challenge' ? "none" : input.keeperMode,
+            maxKeepers: input.keeperMode === "keeper" ? input.maxKeepers : 0,
             playoffTeams: input.playoffTeams,
             playoffStartWeek: playoffStartWeek,
             seasonYear: currentYear,
@@ -320,6 +368,8 @@ export const leagueRouter = router({
             userAvatarUrl: t.user.avatarUrl,
             fighterIllustration: t.team.fighterIllustration,
           })),
+          scoringRules: resolveScoringConfig(league),
+          tiebreakerOrder: resolveTiebreakers(league.tiebreakers),
           isCommissioner: league.commissionerUserId === ctx.user.id,
           isMember: !!userTeam,
           myTeam: userTeam?.team,
@@ -485,7 +535,7 @@ export const leagueRouter = router({
           leagueId: league.id,
           userId: ctx.user.id,
           name: teamName,
-          faabBudget: 100, // Default FAAB budget
+          faabBudget: league.faabBudget,
         }).returning();
 
         // Complete referral for this user when they join their first league
@@ -646,6 +696,25 @@ export const leagueRouter = router({
         description: z.string().max(500).optional(),
         draftDate: z.string().optional().transform(val => val === "" ? undefined : val),
         tradeDeadlineWeek: z.number().min(1).max(18).optional(),
+        keeperMode: z.enum(["none", "keeper", "dynasty"]).optional(),
+        maxKeepers: z.number().min(0).max(9).optional(),
+        scoringType: z.enum(["standard", "custom"]).optional(),
+        scoringConfig: scoringConfigSchema.optional(),
+        tiebreakers: tiebreakersSchema.optional(),
+        tradeReviewHours: z.number().int().min(0).max(72).optional(),
+        waiverType: z.enum(["rolling", "reverse_standings"]).optional(),
+        waiverPeriodDays: z.number().int().min(0).max(7).optional(),
+        waiverProcessDay: z.number().int().min(0).max(6).optional(),
+        waiverProcessHour: z.number().int().min(0).max(23).optional(),
+        faabEnabled: z.boolean().optional(),
+        faabBudget: z.number().int().min(0).max(1000).optional(),
+        faabMinBid: z.number().int().min(1).max(100).optional(),
+        faabAllowZeroBids: z.boolean().optional(),
+        faabTiebreaker: z.enum(["priority", "earliest"]).optional(),
+        playoffChampionshipWeeks: z.union([z.literal(1), z.literal(2)]).optional(),
+        playoffConsolation: z.enum(["none", "consolation", "toilet_bowl"]).optional(),
+        playMedian: z.boolean().optional(),
+        byeMedianGame: z.boolean().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -685,9 +754,48 @@ export const leagueRouter = router({
         if (input.description !== undefined) updateData.description = input.description;
         if (input.draftDate) updateData.draftDate = new Date(input.draftDate);
         if (input.tradeDeadlineWeek) updateData.tradeDeadlineWeek = input.tradeDeadlineWeek;
+        if (input.keeperMode) updateData.keeperMode = input.keeperMode;
+        if (input.maxKeepers !== undefined) updateData.maxKeepers = input.maxKeepers;
+        if (input.scoringType) updateData.scoringType = input.scoringType;
+        if (input.scoringConfig) updateData.scoringConfig = input.scoringConfig;
+        if (input.tiebreakers) updateData.tiebreakers = input.tiebreakers;
+        if (input.tradeReviewHours !== undefined) updateData.tradeReviewHours = input.tradeReviewHours;
+        if (input.waiverType) updateData.waiverType = input.waiverType;
+        if (input.waiverPeriodDays !== undefined) updateData.waiverPeriodDays = input.waiverPeriodDays;
+        if (input.waiverProcessDay !== undefined) updateData.waiverProcessDay = input.waiverProcessDay;
+        if (input.waiverProcessHour !== undefined) updateData.waiverProcessHour = input.waiverProcessHour;
+        if (input.faabEnabled !== undefined) updateData.faabEnabled = input.faabEnabled;
+        if (input.faabBudget !== undefined) updateData.faabBudget = input.faabBudget;
+        if (input.faabMinBid !== undefined) updateData.faabMinBid = input.faabMinBid;
+        if (input.faabAllowZeroBids !== undefined) updateData.faabAllowZeroBids = input.faabAllowZeroBids;
+        if (input.faabTiebreaker) updateData.faabTiebreaker = input.faabTiebreaker;
+        if (input.playoffChampionshipWeeks) updateData.playoffChampionshipWeeks = input.playoffChampionshipWeeks;
+        if (input.playoffConsolation) updateData.playoffConsolation = input.playoffConsolation;
+        if (input.playMedian !== undefined) updateData.playMedian = input.playMedian;
+        if (input.byeMedianGame !== undefined) updateData.byeMedianGame = input.byeMedianGame;
 
         await db.update(leagues).set(updateData).where(eq(leagues.id, input.leagueId));
 
+        // Before the season starts a new budget is handed to every team right away
+        if (
+          input.faabBudget !== undefined &&
+          input.faabBudget !== league.faabBudget &&
+          league.status === "draft"
+        ) {
+          const leagueTeams = await db.select().from(teams).where(eq(teams.leagueId, input.leagueId));
+          for (const team of leagueTeams) {
+            await db.update(teams).set({ faabBudget: input.faabBudget }).where(eq(teams.id, team.id));
+            await db.insert(faabTransactions).values({
+              leagueId: input.leagueId,
+              teamId: team.id,
+              amount: input.faabBudget - team.faabBudget,
+              balanceAfter: input.faabBudget,
+              kind: "budget_reset",
+              note: "Season budget changed by the commissioner",
+            });
+          }
+        }
+
         return {
           success: true,
         };
@@ -701,6 +809,224 @@ export const leagueRouter = router({
       }
     }),
 
+  /**
+   * Renew a season league for next year
+   * Copies settings and teams into a new league; keeper leagues carry over the
+   * designated keepers, dynasty leagues carry over every rostered asset.
+   */
+  renewLeague: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database not available",
+        });
+      }
+
+      try {
+        const [league] = await db
+          .select()
+          .from(leagues)
+          .where(eq(leagues.id, input.leagueId))
+          .limit(1);
+
+        if (!league) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "League not found",
+          });
+        }
+
+        if (league.commissionerUserId !== ctx.user.id) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only the commissioner can renew the league",
+          });
+        }
+
+        if (league.leagueType !== "season") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only season leagues can be renewed",
+          });
+        }
+
+        if (league.status !== "complete") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "The season must be complete before the league can be renewed",
+          });
+        }
+
+        const [alreadyRenewed] = await db
+          .select({ id: leagues.id })
+          .from(leagues)
+          .where(eq(leagues.previousLeagueId, league.id))
+          .limit(1);
+
+        if (alreadyRenewed) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "League has already been renewed",
+          });
+        }
+
+        // Generate unique league code
+        let leagueCode = generateLeagueCode();
+        let codeExists = true;
+
+        while (codeExists) {
+          const existing = await db.select().from(leagues).where(eq(leagues.leagueCode, leagueCode)).limit(1);
+          if (existing.length === 0) {
+            codeExists = false;
+          } else {
+            leagueCode = generateLeagueCode();
+          }
+        }
+
+        const [newLeague] = await db
+          .insert(leagues)
+          .values({
+            name: league.name,
+            leagueCode: leagueCode,
+            commissionerUserId: league.commissionerUserId,
+            teamCount: league.teamCount,
+            draftType: league.draftType,
+            scoringType: league.scoringType,
+            scoringConfig: league.scoringConfig,
+            tiebreakers: league.tiebreakers,
+            playoffTeams: league.playoffTeams,
+            playoffStartWeek: league.playoffStartWeek,
+            playoffChampionshipWeeks: league.playoffChampionshipWeeks,
+            playoffConsolation: league.playoffConsolation,
+            playMedian: league.playMedian,
+            byeMedianGame: league.byeMedianGame,
+            seasonYear: league.seasonYear + 1,
+            currentWeek: 1,
+            status: "draft",
+            leagueType: league.leagueType,
+            isPublic: league.isPublic,
+            draftPickTimeLimit: league.draftPickTimeLimit,
+            auctionBudget: league.auctionBudget,
+            auctionMinBid: league.auctionMinBid,
+            auctionBidTimeLimit: league.auctionBidTimeLimit,
+            keeperMode: league.keeperMode,
+            maxKeepers: league.maxKeepers,
+            tradeReviewHours: league.tradeReviewHours,
+            waiverType: league.waiverType,
+            waiverPeriodDays: league.waiverPeriodDays,
+            waiverProcessDay: league.waiverProcessDay,
+            waiverProcessHour: league.waiverProcessHour,
+            faabEnabled: league.faabEnabled,
+            faabBudget: league.faabBudget,
+            faabMinBid: league.faabMinBid,
+            faabAllowZeroBids: league.faabAllowZeroBids,
+            faabTiebreaker: league.faabTiebreaker,
+            previousLeagueId: league.id,
+          })
+          .returning({ id: leagues.id });
+
+        const oldTeams = await db
+          .select()
+          .from(teams)
+          .where(eq(teams.leagueId, league.id));
+
+        // Divisions carry over with the same names and members
+        const oldDivisions = await db
+          .select()
+          .from(divisions)
+          .where(eq(divisions.leagueId, league.id));
+        const divisionIdMap = new Map<number, number>();
+        for (const division of oldDivisions) {
+          const [newDivision] = await db
+            .insert(divisions)
+            .values({ leagueId: newLeague.id, name: division.name })
+            .returning({ id: divisions.id });
+          divisionIdMap.set(division.id, newDivision.id);
+        }
+
+        // Teams keep their owner, name and draft slot; records and budgets reset
+        const teamIdMap = new Map<number, number>();
+        for (const team of oldTeams) {
+          const [newTeam] = await db
+            .insert(teams)
+            .values({
+              leagueId: newLeague.id,
+              userId: team.userId,
+              name: team.name,
+              draftPosition: team.draftPosition,
+              divisionId: team.divisionId !== null ? divisionIdMap.get(team.divisionId) ?? null : null,
+              faabBudget: league.faabBudget,
+              illustration: team.illustration,
+              fighterIllustration: team.fighterIllustration,
+              battlefieldBackground: team.battlefieldBackground,
+              autoManageLineup: team.autoManageLineup,
+            })
+            .returning({ id: teams.id });
+          teamIdMap.set(team.id, newTeam.id);
+        }
+
+        let carriedOver: Array<{ teamId: number; assetType: string; assetId: number }> = [];
+        if (league.keeperMode === "dynasty" && oldTeams.length > 0) {
+          carriedOver = await db
+            .select({ teamId: rosters.teamId, assetType: rosters.assetType, assetId: rosters.assetId })
+            .from(rosters)
+            .where(inArray(rosters.teamId, oldTeams.map((t) => t.id)));
+        } else if (league.keeperMode === "keeper") {
+          // Only keepers still on the designating team's roster carry over
+          carriedOver = await db
+            .select({ teamId: keepers.teamId, assetType: keepers.assetType, assetId: keepers.assetId })
+            .from(keepers)
+            .innerJoin(
+              rosters,
+              and(
+                eq(rosters.teamId, keepers.teamId),
+                eq(rosters.assetType, keepers.assetType),
+                eq(rosters.assetId, keepers.assetId)
+              )
+            )
+            .where(eq(keepers.leagueId, league.id));
+        }
+
+        const keptRosters = carriedOver
+          .filter((entry) => teamIdMap.has(entry.teamId))
+          .map((entry) => ({
+            teamId: teamIdMap.get(entry.teamId)!,
+            assetType: entry.assetType,
+            assetId: entry.assetId,
+            acquiredWeek: 0,
+            acquiredVia: "keeper",
+          }));
+
+        if (keptRosters.length > 0) {
+          await db.insert(rosters).values(keptRosters);
+        }
+
+        // Picks traded for the new season stay with the teams that acquired them
+        const carriedPicks = await carryOverDraftPicks(db, league, newLeague.id, teamIdMap);
+
+        console.log(
+          `[LeagueRouter] Renewed league ${league.id} as ${newLeague.id} ` +
+          `(${league.keeperMode}, ${keptRosters.length} assets and ${carriedPicks} draft picks carried over)`
+        );
+
+        return {
+          success: true,
+          leagueId: newLeague.id,
+          keptAssets: keptRosters.length,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("[LeagueRouter] Error renewing league:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to renew league",
+        });
+      }
+    }),
+
   /**
    * Delete league (commissioner only, pre-draft only)
    */
@@ -0,0 +1,248 @@
+import { and, gte, inArray, lte } from "drizzle-orm";
+import {
+  brandDailyStats,
+  cannabisStrainDailyStats,
+  manufacturerDailyStats,
+  pharmacyDailyStats,
+  strainDailyStats,
+  weeklyLineups,
+} from "../drizzle/schema";
+import type { Database } from "./assetNames";
+import { getWeekDateRange } from "./utils/isoWeek";
+
+type LineupRow = typeof weeklyLineups.$inferSelect;
+
+export type LineupAssetType = "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand";
+
+export type LineupSlotKey =
+  | "mfg1" | "mfg2" | "cstr1" | "cstr2" | "prd1" | "prd2" | "phm1" | "phm2" | "brd1" | "flex" | "captain";
+
+export interface LineupAssignment {
+  mfg1Id: number | null;
+  mfg2Id: number | null;
+  cstr1Id: number | null;
+  cstr2Id: number | null;
+  prd1Id: number | null;
+  prd2Id: number | null;
+  phm1Id: number | null;
+  phm2Id: number | null;
+  brd1Id: number | null;
+  flexId: number | null;
+  flexType: LineupAssetType | null;
+  captainId: number | null;
+  captainType: LineupAssetType | null;
+}
+
+export interface SlotLock {
+  slot: LineupSlotKey;
+  assetType: LineupAssetType | null;
+  assetId: number | null;
+  locked: boolean;
+  /** First day of the week with synced stats for the slot's asset */
+  lockedAt: string | null;
+}
+
+/**
+ * Slots that only accept one asset type
+ */
+type FixedSlotColumn = "mfg1Id" | "mfg2Id" | "cstr1Id" | "cstr2Id" | "prd1Id" | "prd2Id" | "phm1Id" | "phm2Id" | "brd1Id";
+
+export const FIXED_SLOTS: Array<{ slot: LineupSlotKey; assetType: LineupAssetType; column: FixedSlotColumn }> = [
+  { slot: "mfg1", assetType: "manufacturer", column: "mfg1Id" },
+  { slot: "mfg2", assetType: "manufacturer", column: "mfg2Id" },
+  { slot: "cstr1", assetType: "cannabis_strain", column: "cstr1Id" },
+  { slot: "cstr2", assetType: "cannabis_strain", column: "cstr2Id" },
+  { slot: "prd1", assetType: "product", column: "prd1Id" },
+  { slot: "prd2", assetType: "product", column: "prd2Id" },
+  { slot: "phm1", assetType: "pharmacy", column: "phm1Id" },
+  { slot: "phm2", assetType: "pharmacy", column: "phm2Id" },
+  { slot: "brd1", assetType: "brand", column: "brd1Id" },
+];
+
+export const SLOT_LABELS: Record<LineupSlotKey, string> = {
+  mfg1: "MFG1",
+  mfg2: "MFG2",
+  cstr1: "CSTR1",
+  cstr2: "CSTR2",
+  prd1: "PRD1",
+  prd2: "PRD2",
+  phm1: "PHM1",
+  phm2: "PHM2",
+  brd1: "BRD1",
+  flex: "FLEX",
+  captain: "Captain",
+};
+
+/**
+ * Stat dates within [startDate, endDate] per asset type. Products score from the strain stats tables.
+ */
+const DAILY_STAT_DATES: Record<
+  LineupAssetType,
+  (db: Database, ids: number[], startDate: string, endDate: string) => Promise<Array<{ assetId: number; statDate: string }>>
+> = {
+  manufacturer: (db, ids, startDate, endDate) =>
+    db
+      .select({ assetId: manufacturerDailyStats.manufacturerId, statDate: manufacturerDailyStats.statDate })
+      .from(manufacturerDailyStats)
+      .where(and(
+        inArray(manufacturerDailyStats.manufacturerId, ids),
+        gte(manufacturerDailyStats.statDate, startDate),
+        lte(manufacturerDailyStats.statDate, endDate)
+      )),
+  cannabis_strain: (db, ids, startDate, endDate) =>
+    db
+      .select({ assetId: cannabisStrainDailyStats.cannabisStrainId, statDate: cannabisStrainDailyStats.statDate })
+      .from(cannabisStrainDailyStats)
+      .where(and(
+        inArray(cannabisStrainDailyStats.cannabisStrainId, ids),
+        gte(cannabisStrainDailyStats.statDate, startDate),
+        lte(cannabisStrainDailyStats.statDate, endDate)
+      )),
+  product: (db, ids, startDate, endDate) =>
+    db
+      .select({ assetId: strainDailyStats.strainId, statDate: strainDailyStats.statDate })
+      .from(strainDailyStats)
+      .where(and(
+        inArray(strainDailyStats.strainId, ids),
+        gte(strainDailyStats.statDate, startDate),
+        lte(strainDailyStats.statDate, endDate)
+      )),
+  pharmacy: (db, ids, startDate, endDate) =>
+    db
+      .select({ assetId: pharmacyDailyStats.pharmacyId, statDate: pharmacyDailyStats.statDate })
+      .from(pharmacyDailyStats)
+      .where(and(
+        inArray(pharmacyDailyStats.pharmacyId, ids),
+        gte(pharmacyDailyStats.statDate, startDate),
+        lte(pharmacyDailyStats.statDate, endDate)
+      )),
+  brand: (db, ids, startDate, endDate) =>
+    db
+      .select({ assetId: brandDailyStats.brandId, statDate: brandDailyStats.statDate })
+      .from(brandDailyStats)
+      .where(and(
+        inArray(brandDailyStats.brandId, ids),
+        gte(brandDailyStats.statDate, startDate),
+        lte(brandDailyStats.statDate, endDate)
+      )),
+};
+
+export function assetKey(assetType: string, assetId: number) {
+  return `${assetType}:${assetId}`;
+}
+
+/**
+ * Slot assignments of a stored lineup, or an empty lineup when none exists yet
+ */
+export function toAssignment(lineup: LineupRow | null | undefined): LineupAssignment {
+  return {
+    mfg1Id: lineup?.mfg1Id ?? null,
+    mfg2Id: lineup?.mfg2Id ?? null,
+    cstr1Id: lineup?.cstr1Id ?? null,
+    cstr2Id: lineup?.cstr2Id ?? null,
+    prd1Id: lineup?.prd1Id ?? null,
+    prd2Id: lineup?.prd2Id ?? null,
+    phm1Id: lineup?.phm1Id ?? null,
+    phm2Id: lineup?.phm2Id ?? null,
+    brd1Id: lineup?.brd1Id ?? null,
+    flexId: lineup?.flexId ?? null,
+    flexType: (lineup?.flexType as LineupAssetType | null) ?? null,
+    captainId: lineup?.captainId ?? null,
+    captainType: (lineup?.captainType as LineupAssetType | null) ?? null,
+  };
+}
+
+/**
+ * The asset occupying every slot of an assignment
+ */
+export function getSlotAssets(assignment: LineupAssignment): Array<{ slot: LineupSlotKey; assetType: LineupAssetType | null; assetId: number | null }> {
+  return [
+    ...FIXED_SLOTS.map(({ slot, assetType, column }) => ({
+      slot,
+      assetType,
+      assetId: assignment[column],
+    })),
+    { slot: "flex" as const, assetType: assignment.flexType, assetId: assignment.flexId },
+    { slot: "captain" as const, assetType: assignment.captainType, assetId: assignment.captainId },
+  ];
+}
+
+/**
+ * First day within the given week that each asset has synced daily stats for.
+ * Daily stats of each entity type land at different times, so every asset has its own cutoff.
+ */
+export async function getFirstScoredDays(
+  db: Database,
+  assets: Array<{ assetType: string | null; assetId: number | null }>,
+  year: number,
+  week: number
+): Promise<Map<string, string>> {
+  const { startDate, endDate } = getWeekDateRange(year, week);
+  const idsByType = new Map<LineupAssetType, number[]>();
+  for (const asset of assets) {
+    if (!asset.assetId || !asset.assetType || !(asset.assetType in DAILY_STAT_DATES)) continue;
+    const type = asset.assetType as LineupAssetType;
+    const ids = idsByType.get(type) ?? [];
+    if (!ids.includes(asset.assetId)) ids.push(asset.assetId);
+    idsByType.set(type, ids);
+  }
+
+  const firstDays = new Map<string, string>();
+  const types = Array.from(idsByType.keys());
+  for (let i = 0; i < types.length; i++) {
+    const rows = await DAILY_STAT_DATES[types[i]](db, idsByType.get(types[i])!, startDate, endDate);
+    for (const row of rows) {
+      const key = assetKey(types[i], row.assetId);
+      const current = firstDays.get(key);
+      if (!current || row.statDate < current) firstDays.set(key, row.statDate);
+    }
+  }
+  return firstDays;
+}
+
+/**
+ * Lock state of every slot. A slot locks once its asset's first scored day of the week has been synced.
+ */
+export async function getSlotLocks(
+  db: Database,
+  assignment: LineupAssignment,
+  year: number,
+  week: number
+): Promise<SlotLock[]> {
+  const slots = getSlotAssets(assignment);
+  const firstDays = await getFirstScoredDays(db, slots, year, week);
+
+  return slots.map(({ slot, assetType, assetId }) => {
+    const lockedAt = assetType && assetId ? firstDays.get(assetKey(assetType, assetId)) ?? null : null;
+    return { slot, assetType, assetId, locked: lockedAt !== null, lockedAt };
+  });
+}
+
+/**
+ * Slots whose assignment differs between the stored lineup and the requested one
+ * while either the outgoing or the incoming asset has already started scoring this week
+ */
+export async function findLockedSlotChanges(
+  db: Database,
+  current: LineupAssignment,
+  next: LineupAssignment,
+  year: number,
+  week: number
+): Promise<LineupSlotKey[]> {
+  const before = getSlotAssets(current);
+  const after = getSlotAssets(next);
+  const firstDays = await getFirstScoredDays(db, [...before, ...after], year, week);
+  const hasScored = (assetType: LineupAssetType | null, assetId: number | null) =>
+    !!assetType && !!assetId && firstDays.has(assetKey(assetType, assetId));
+
+  const violations: LineupSlotKey[] = [];
+  for (let i = 0; i < before.length; i++) {
+    const unchanged = before[i].assetId === after[i].assetId
+      && (before[i].assetId === null || before[i].assetType === after[i].assetType);
+    if (unchanged) continue;
+    if (hasScored(before[i].assetType, before[i].assetId) || hasScored(after[i].assetType, after[i].assetId)) {
+      violations.push(before[i].slot);
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,210 @@
+import { and, eq } from "drizzle-orm";
+import { getDb } from "./db";
+import { leagues, rosters, teams, weeklyLineups } from "../drizzle/schema";
+import type { Database } from "./assetNames";
+import { projectAssetPoints } from "./tradeAnalyzer";
+import {
+  FIXED_SLOTS,
+  assetKey,
+  getFirstScoredDays,
+  getSlotAssets,
+  toAssignment,
+  type LineupAssetType,
+  type LineupAssignment,
+  type LineupSlotKey,
+} from "./lineupLocks";
+import { getIsoYearWeek } from "./utils/isoWeek";
+import { wsManager } from "./websocket";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+interface Candidate {
+  assetType: LineupAssetType;
+  assetId: number;
+  projection: number;
+}
+
+export interface OptimizedLineup {
+  teamId: number;
+  year: number;
+  week: number;
+  lineup: LineupAssignment;
+  /** Slots whose asset changed compared to the saved lineup */
+  changedSlots: LineupSlotKey[];
+  /** Slots kept as-is because their asset already started scoring */
+  lockedSlots: LineupSlotKey[];
+  projectedPoints: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Pick the starting nine, FLEX and captain with the highest projected points.
+ *
+ * Slots that already locked keep their asset. Assets that already scored this
+ * week cannot move into an open slot, so they are left out as candidates.
+ */
+export async function buildOptimalLineup(
+  db: Database,
+  league: LeagueRow,
+  teamId: number,
+  year: number,
+  week: number
+): Promise<OptimizedLineup> {
+  const [roster, [existing]] = await Promise.all([
+    db.select().from(rosters).where(eq(rosters.teamId, teamId)),
+    db
+      .select()
+      .from(weeklyLineups)
+      .where(and(eq(weeklyLineups.teamId, teamId), eq(weeklyLineups.year, year), eq(weeklyLineups.week, week)))
+      .limit(1),
+  ]);
+
+  const current = toAssignment(existing);
+  const currentSlots = getSlotAssets(current);
+  const [projections, scoredDays] = await Promise.all([
+    projectAssetPoints(db, league, roster),
+    getFirstScoredDays(db, [...roster, ...currentSlots], year, week),
+  ]);
+  const projected = (assetType: string, assetId: number) =>
+    projections.get(assetKey(assetType, assetId))?.weeklyProjection ?? 0;
+
+  const lockedSlots = currentSlots
+    .filter((s) => s.assetType && s.assetId && scoredDays.has(assetKey(s.assetType, s.assetId)))
+    .map((s) => s.slot);
+  const isLocked = (slot: LineupSlotKey) => lockedSlots.includes(slot);
+
+  const next: LineupAssignment = { ...current };
+  const used = new Set<string>();
+  for (const s of currentSlots) {
+    if (s.slot !== "captain" && isLocked(s.slot)) used.add(assetKey(s.assetType!, s.assetId!));
+  }
+
+  const candidates: Candidate[] = roster
+    .filter((r) => !scoredDays.has(assetKey(r.assetType, r.assetId)))
+    .map((r) => ({
+      assetType: r.assetType as LineupAssetType,
+      assetId: r.assetId,
+      projection: projected(r.assetType, r.assetId),
+    }))
+    .sort((a, b) => b.projection - a.projection || a.assetId - b.assetId);
+  const takeBest = (assetType?: LineupAssetType) => {
+    const best = candidates.find(
+      (c) => (!assetType || c.assetType === assetType) && !used.has(assetKey(c.assetType, c.assetId))
+    );
+    if (best) used.add(assetKey(best.assetType, best.assetId));
+    return best ?? null;
+  };
+
+  // Positional slots first, so the flex only takes what they leave over
+  for (const { slot, assetType, column } of FIXED_SLOTS) {
+    if (isLocked(slot)) continue;
+    next[column] = takeBest(assetType)?.assetId ?? null;
+  }
+  if (!isLocked("flex")) {
+    const flex = takeBest();
+    next.flexId = flex?.assetId ?? null;
+    next.flexType = flex?.assetType ?? null;
+  }
+
+  const starters = getSlotAssets(next).filter(
+    (s): s is typeof s & { assetType: LineupAssetType; assetId: number } =>
+      s.slot !== "captain" && !!s.assetType && !!s.assetId
+  );
+  if (!isLocked("captain")) {
+    const captain = starters
+      .filter((s) => !scoredDays.has(assetKey(s.assetType, s.assetId)))
+      .sort((a, b) => projected(b.assetType, b.assetId) - projected(a.assetType, a.assetId))[0];
+    next.captainId = captain?.assetId ?? null;
+    next.captainType = captain?.assetType ?? null;
+  }
+
+  const nextSlots = getSlotAssets(next);
+  const changedSlots = currentSlots
+    .filter((s, i) => s.assetId !== nextSlots[i].assetId || s.assetType !== nextSlots[i].assetType)
+    .map((s) => s.slot);
+
+  return {
+    teamId,
+    year,
+    week,
+    lineup: next,
+    changedSlots,
+    lockedSlots,
+    projectedPoints: round1(starters.reduce((sum, s) => sum + projected(s.assetType, s.assetId), 0)),
+  };
+}
+
+/**
+ * Build and save the optimal lineup for one team and week
+ */
+export async function optimizeTeamLineup(
+  db: Database,
+  league: LeagueRow,
+  teamId: number,
+  year: number,
+  week: number
+): Promise<OptimizedLineup> {
+  const result = await buildOptimalLineup(db, league, teamId, year, week);
+
+  const [existing] = await db
+    .select({ id: weeklyLineups.id })
+    .from(weeklyLineups)
+    .where(and(eq(weeklyLineups.teamId, teamId), eq(weeklyLineups.year, year), eq(weeklyLineups.week, week)))
+    .limit(1);
+
+  if (existing) {
+    if (result.changedSlots.length > 0) {
+      await db
+        .update(weeklyLineups)
+        .set({ ...result.lineup, updatedAt: new Date().toISOString() })
+        .where(eq(weeklyLineups.id, existing.id));
+    }
+  } else {
+    await db.insert(weeklyLineups).values({ teamId, year, week, ...result.lineup, isLocked: 0 });
+  }
+
+  return result;
+}
+
+/**
+ * Optimize next week's lineup for every team that opted into auto-manage.
+ * Runs before the ISO week starts so absentee managers field their best projected lineup.
+ */
+export async function runAutoManagedLineups(now = new Date()) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // The upcoming week is the one containing the next day
+  const { year, week } = getIsoYearWeek(new Date(now.getTime() + 24 * 60 * 60 * 1000));
+
+  const managed = await db
+    .select({ team: teams, league: leagues })
+    .from(teams)
+    .innerJoin(leagues, eq(teams.leagueId, leagues.id))
+    .where(and(eq(teams.autoManageLineup, true), eq(leagues.leagueType, "season"), eq(leagues.status, "active")));
+
+  let optimized = 0;
+  for (const { team, league } of managed) {
+    try {
+      const result = await optimizeTeamLineup(db, league, team.id, year, week);
+      optimized++;
+      if (result.changedSlots.length > 0) {
+        wsManager.notifyUser(team.userId, {
+          type: "lineup_optimized",
+          leagueId: league.id,
+          leagueName: league.name,
+          teamId: team.id,
+          year,
+          week,
+          changedSlots: result.changedSlots,
+          projectedPoints: result.projectedPoints,
+        });
+      }
+    } catch (error) {
+      console.error(`[LineupOptimizer] Failed to optimize lineup for team ${team.id}:`, error);
+    }
+  }
+
+  return { year, week, teams: managed.length, optimized };
+}
@@ -0,0 +1,36 @@
+import { CronJob } from 'cron';
+import { runAutoManagedLineups } from './lineupOptimizer';
+
+/**
+ * Lineup Optimizer Scheduler
+ *
+ * Sets the best projected lineup for every auto-managed team on Sunday evening,
+ * before the next ISO week starts (Europe/Berlin).
+ */
+
+const DEFAULT_CRON = '0 0 20 * * 0';
+
+async function schedulerRun() {
+  const result = await runAutoManagedLineups();
+  console.log(
+    `[LineupOptimizerScheduler] Optimized ${result.optimized}/${result.teams} auto-managed lineups for ${result.year}-W${result.week}`
+  );
+}
+
+export function initLineupOptimizerScheduler() {
+  const cronExpression = process.env.LINEUP_OPTIMIZER_CRON || DEFAULT_CRON;
+
+  new CronJob(
+    cronExpression,
+    () => {
+      schedulerRun().catch(err => {
+        console.error('[LineupOptimizerScheduler] Error during scheduled run:', err);
+      });
+    },
+    null,
+    true,
+    'Europe/Berlin'
+  );
+
+  console.log(`[LineupOptimizerScheduler] Started (cron: ${cronExpression})`);
+}
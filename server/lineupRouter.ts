@@ -3,6 +3,10 @@ import { eq, and } from "drizzle-orm";
 import { protectedProcedure, router } from "./_core/trpc";
 import { getDb } from "./db";
 import { weeklyLineups, weeklyTeamScores, rosters, draftPicks, manufacturers, cannabisStrains, strains, pharmacies, brands, teams, leagues } from "../drizzle/schema";
+import { optimizeTeamLineup } from "./lineupOptimizer";
+import { SLOT_LABELS, findLockedSlotChanges, getSlotLocks, toAssignment, type LineupAssignment, type LineupSlotKey } from "./lineupLocks";
+
+const assetTypeEnum = z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]);
 
 /**
  * Lineup Router
@@ -10,7 +14,10 @@ import { weeklyLineups, weeklyTeamScores, rosters, draftPicks, manufacturers, ca
  * Handles weekly lineup management:
  * - Fetch current lineup
  * - Update lineup
- * - Lock/unlock lineup
+ * - Optimize lineup by projected points (manually or auto-managed)
+ *
+ * Each slot locks on its own once its asset's first scored day of the week
+ * has been synced; the remaining slots stay editable.
  */
 export const lineupRouter = router({
   /**
@@ -201,6 +208,9 @@ export const lineupRouter = router({
         }
       };
 
+      const slotLocks = await getSlotLocks(db, toAssignment(lineup), input.year, input.week);
+      const lockBySlot = new Map(slotLocks.map((lock) => [lock.slot, lock]));
+
       // Build lineup array with asset names and actual points
       const lineupData = await Promise.all([
         { position: "MFG1", assetType: "manufacturer" as const, assetId: lineup.mfg1Id, points: teamScores?.mfg1Points || 0 },
@@ -213,19 +223,27 @@ export const lineupRouter = router({
         { position: "PHM2", assetType: "pharmacy" as const, assetId: lineup.phm2Id, points: teamScores?.phm2Points || 0 },
         { position: "BRD1", assetType: "brand" as const, assetId: lineup.brd1Id, points: teamScores?.brd1Points || 0 },
         { position: "FLEX", assetType: lineup.flexType, assetId: lineup.flexId, points: teamScores?.flexPoints || 0 },
-      ].map(async (slot) => ({
-        ...slot,
-        assetName: await fetchAssetName(slot.assetType, slot.assetId),
-        locked: lineup.isLocked || false,
-      })));
+      ].map(async (slot) => {
+        const lock = lockBySlot.get(slot.position.toLowerCase() as LineupSlotKey);
+        return {
+          ...slot,
+          assetName: await fetchAssetName(slot.assetType, slot.assetId),
+          locked: lock?.locked ?? false,
+          lockedAt: lock?.lockedAt ?? null,
+        };
+      }));
+      const captainLock = lockBySlot.get("captain");
 
       const result = {
         teamId: input.teamId,
         year: input.year,
         week: input.week,
-        isLocked: lineup.isLocked || false,
+        // Fully locked once every filled slot has started scoring
+        isLocked: lineupData.some((slot) => slot.assetId) && lineupData.every((slot) => !slot.assetId || slot.locked),
         captainId: lineup.captainId,
         captainType: lineup.captainType as "manufacturer" | "cannabis_strain" | "product" | "pharmacy" | "brand" | null,
+        captainLocked: captainLock?.locked ?? false,
+        captainLockedAt: captainLock?.lockedAt ?? null,
         lineup: lineupData,
       };
       console.log('[getWeeklyLineup] Returning lineup:', JSON.stringify(result, null, 2));
@@ -250,12 +268,11 @@ export const lineupRouter = router({
           prd2Id: z.number().nullable(),
           phm1Id: z.number().nullable(),
           phm2Id: z.number().nullable(),
+          brd1Id: z.number().optional().nullable(),
           flexId: z.number().nullable(),
-          flexType: z
-            .enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"])
-            .nullable(),
+          flexType: assetTypeEnum.nullable(),
           captainId: z.number().optional().nullable(),
-          captainType: z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]).optional().nullable(),
+          captainType: assetTypeEnum.optional().nullable(),
         }),
       })
     )
@@ -277,29 +294,27 @@ export const lineupRouter = router({
         )
         .limit(1);
 
-      if (existing) {
-        // Check if locked
-        if (existing.isLocked) {
-          throw new Error("Lineup is locked and cannot be modified");
-        }
+      // Omitted brand/captain fields keep their stored value
+      const current = toAssignment(existing);
+      const next: LineupAssignment = {
+        ...input.lineup,
+        brd1Id: input.lineup.brd1Id === undefined ? current.brd1Id : input.lineup.brd1Id,
+        captainId: input.lineup.captainId === undefined ? current.captainId : input.lineup.captainId,
+        captainType: input.lineup.captainType === undefined ? current.captainType : input.lineup.captainType,
+      };
+
+      const lockedChanges = await findLockedSlotChanges(db, current, next, input.year, input.week);
+      if (lockedChanges.length > 0) {
+        throw new Error(
+          `Locked slots cannot be changed: ${lockedChanges.map((slot) => SLOT_LABELS[slot]).join(", ")}`
+        );
+      }
 
+      if (existing) {
         // Update existing lineup
         await db
           .update(weeklyLineups)
-          .set({
-            mfg1Id: input.lineup.mfg1Id,
-            mfg2Id: input.lineup.mfg2Id,
-            cstr1Id: input.lineup.cstr1Id,
-            cstr2Id: input.lineup.cstr2Id,
-            prd1Id: input.lineup.prd1Id,
-            prd2Id: input.lineup.prd2Id,
-            phm1Id: input.lineup.phm1Id,
-            phm2Id: input.lineup.phm2Id,
-            flexId: input.lineup.flexId,
-            flexType: input.lineup.flexType,
-            captainId: input.lineup.captainId,
-            captainType: input.lineup.captainType,
-          })
+          .set(next)
           .where(eq(weeklyLineups.id, existing.id));
         console.log('[updateLineup] Updated existing lineup:', existing.id);
       } else {
@@ -308,18 +323,7 @@ export const lineupRouter = router({
           teamId: input.teamId,
           year: input.year,
           week: input.week,
-          mfg1Id: input.lineup.mfg1Id,
-          mfg2Id: input.lineup.mfg2Id,
-          cstr1Id: input.lineup.cstr1Id,
-          cstr2Id: input.lineup.cstr2Id,
-          prd1Id: input.lineup.prd1Id,
-          prd2Id: input.lineup.prd2Id,
-          phm1Id: input.lineup.phm1Id,
-          phm2Id: input.lineup.phm2Id,
-          flexId: input.lineup.flexId,
-          flexType: input.lineup.flexType,
-          captainId: input.lineup.captainId,
-          captainType: input.lineup.captainType,
+          ...next,
           isLocked: 0,
         });
         console.log('[updateLineup] Created new lineup');
@@ -329,47 +333,6 @@ export const lineupRouter = router({
       return { success: true };
     }),
 
-  /**
-   * Lock/unlock lineup
-   */
-  toggleLock: protectedProcedure
-    .input(
-      z.object({
-        teamId: z.number(),
-        year: z.number(),
-        week: z.number(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new Error("Database not available");
-
-      const [lineup] = await db
-        .select()
-        .from(weeklyLineups)
-        .where(
-          and(
-            eq(weeklyLineups.teamId, input.teamId),
-            eq(weeklyLineups.year, input.year),
-            eq(weeklyLineups.week, input.week)
-          )
-        )
-        .limit(1);
-
-      if (!lineup) {
-        throw new Error("Lineup not found");
-      }
-
-      const newLockState = !lineup.isLocked;
-
-      await db
-        .update(weeklyLineups)
-        .set({ isLocked: newLockState ? 1 : 0 })
-        .where(eq(weeklyLineups.id, lineup.id));
-
-      return { success: true, isLocked: newLockState };
-    }),
-
   /**
    * Set captain for a lineup
    */
@@ -380,7 +343,7 @@ export const lineupRouter = router({
         year: z.number(),
         week: z.number(),
         captainId: z.number(),
-        captainType: z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]),
+        captainType: assetTypeEnum,
       })
     )
     .mutation(async ({ input }) => {
@@ -400,6 +363,18 @@ export const lineupRouter = router({
         )
         .limit(1);
 
+      const current = toAssignment(existing);
+      const lockedChanges = await findLockedSlotChanges(
+        db,
+        current,
+        { ...current, captainId: input.captainId, captainType: input.captainType },
+        input.year,
+        input.week
+      );
+      if (lockedChanges.length > 0) {
+        throw new Error("Captain is locked for this week");
+      }
+
       if (!existing) {
         // Create new lineup if it doesn't exist
         await db.insert(weeklyLineups).values({
@@ -411,9 +386,6 @@ export const lineupRouter = router({
           isLocked: 0,
         });
       } else {
-        if (existing.isLocked) {
-          throw new Error("Lineup is locked");
-        }
         // Update captain
         await db
           .update(weeklyLineups)
@@ -445,4 +417,58 @@ export const lineupRouter = router({
 
       return { success: true };
     }),
+
+  /**
+   * Set the starting lineup, FLEX and captain with the best projected points.
+   * Locked slots keep their asset.
+   */
+  optimizeLineup: protectedProcedure
+    .input(
+      z.object({
+        teamId: z.number(),
+        year: z.number(),
+        week: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [team] = await db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1);
+      if (!team || team.userId !== ctx.user.id) {
+        throw new Error("You can only optimize your own lineup");
+      }
+
+      const [league] = await db.select().from(leagues).where(eq(leagues.id, team.leagueId)).limit(1);
+      if (!league) throw new Error("League not found");
+
+      return optimizeTeamLineup(db, league, team.id, input.year, input.week);
+    }),
+
+  /**
+   * Opt a team in or out of weekly lineup optimization
+   */
+  setAutoManage: protectedProcedure
+    .input(
+      z.object({
+        teamId: z.number(),
+        enabled: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [team] = await db.select().from(teams).where(eq(teams.id, input.teamId)).limit(1);
+      if (!team || team.userId !== ctx.user.id) {
+        throw new Error("You can only change your own team");
+      }
+
+      await db
+        .update(teams)
+        .set({ autoManageLineup: input.enabled, updatedAt: new Date().toISOString() })
+        .where(eq(teams.id, team.id));
+
+      return { success: true, autoManageLineup: input.enabled };
+    }),
 });
@@ -1,14 +1,22 @@
 import { z } from "zod";
 import { router, protectedProcedure } from "./_core/trpc";
 import { getDb } from "./db";
-import { matchups, teams, weeklyTeamScores, leagues } from "../drizzle/schema";
+import { matchups, medianResults, teams, leagues } from "../drizzle/schema";
 import { eq, and, or, desc, asc } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 import { autoPopulateLeagueLineups } from "./lineupAutoPopulate";
-import { generateSeasonMatchupsForLeague } from "./matchupService";
+import {
+  buildSeasonSchedule,
+  finalizeWeekMatchups,
+  generateSeasonMatchupsForLeague,
+  getRegularSeasonEndWeek,
+  previewSeasonSchedule,
+  regenerateSeasonSchedule,
+} from "./matchupService";
+import { recordMedianResults, syncTeamRecords, type MedianResult } from "./medianService";
+import { advancePlayoffs } from "./playoffService";
 import { calculateSeasonTeamDailyScore, getScarcityMultipliers } from "./scoringEngine";
 import { getWeekDateRange } from "./utils/isoWeek";
-import { checkAchievements } from "./achievementService";
 
 /**
  * Matchup Router
@@ -78,60 +86,25 @@ export const matchupRouter = router({
         throw new TRPCError({ code: 'BAD_REQUEST', message: 'Need at least 2 teams for matchups' });
       }
 
-      // Generate matchups using round-robin algorithm
-      const teamCount = leagueTeams.length;
-      const matchupsToCreate = [];
-
-      if (teamCount % 2 === 0) {
-        // Even number of teams - standard round-robin
-        const matchupsPerWeek = teamCount / 2;
-        const rotation = (input.week - 1) % (teamCount - 1);
-
-        for (let i = 0; i < matchupsPerWeek; i++) {
-          const team1Index = (i + rotation) % teamCount;
-          const team2Index = (teamCount - 1 - i + rotation) % teamCount;
-
-          matchupsToCreate.push({
-            leagueId: input.leagueId,
-            year: input.year,
-            week: input.week,
-            team1Id: leagueTeams[team1Index].id,
-            team2Id: leagueTeams[team2Index].id,
-            team1Score: 0,
-            team2Score: 0,
-            winnerId: null,
-            status: 'scheduled' as const,
-          });
-        }
-      } else {
-        // Odd number of teams - one team gets a bye
-        const rotation = (input.week - 1) % teamCount;
-        const byeTeamIndex = rotation;
-
-        for (let i = 0; i < Math.floor(teamCount / 2); i++) {
-          let team1Index = (i + rotation + 1) % teamCount;
-          let team2Index = (teamCount - 1 - i + rotation) % teamCount;
-
-          // Skip the bye team
-          if (team1Index === byeTeamIndex) team1Index = (team1Index + 1) % teamCount;
-          if (team2Index === byeTeamIndex) team2Index = (team2Index - 1 + teamCount) % teamCount;
-
-          if (team1Index !== team2Index && team1Index !== byeTeamIndex && team2Index !== byeTeamIndex) {
-            matchupsToCreate.push({
-              leagueId: input.leagueId,
-              year: input.year,
-              week: input.week,
-              team1Id: leagueTeams[team1Index].id,
-              team2Id: leagueTeams[team2Index].id,
-              team1Score: 0,
-              team2Score: 0,
-              winnerId: null,
-              status: 'scheduled' as const,
-            });
-          }
-        }
+      // Same pairing as the full season generator would produce for this week
+      const lastRegularWeek = getRegularSeasonEndWeek(league[0]);
+      if (input.week > lastRegularWeek) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Week ${input.week} is reserved for the playoffs` });
       }
 
+      const schedule = buildSeasonSchedule(leagueTeams, input.week);
+      const matchupsToCreate = schedule[input.week - 1].pairings.map(([team1Id, team2Id]) => ({
+        leagueId: input.leagueId,
+        year: input.year,
+        week: input.week,
+        team1Id,
+        team2Id,
+        team1Score: 0,
+        team2Score: 0,
+        winnerId: null,
+        status: 'scheduled' as const,
+      }));
+
       // Insert matchups
       if (matchupsToCreate.length > 0) {
         await db.insert(matchups).values(matchupsToCreate);
@@ -212,6 +185,67 @@ export const matchupRouter = router({
       }
     }),
 
+  /**
+   * Preview the regular season schedule (commissioner only)
+   * A seed shuffles the team order; the same seed always yields the same schedule
+   */
+  previewSeasonSchedule: protectedProcedure
+    .input(z.object({
+      leagueId: z.number(),
+      seed: z.number().int().min(0).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+      }
+
+      const [league] = await db.select().from(leagues).where(eq(leagues.id, input.leagueId)).limit(1);
+      if (!league) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'League not found' });
+      }
+      if (league.commissionerUserId !== ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only commissioner can preview the schedule' });
+      }
+
+      return previewSeasonSchedule(input.leagueId, input.seed, league);
+    }),
+
+  /**
+   * Replace the regular season schedule before the season starts (commissioner only)
+   */
+  regenerateSeasonSchedule: protectedProcedure
+    .input(z.object({
+      leagueId: z.number(),
+      seed: z.number().int().min(0).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+      }
+
+      const [league] = await db.select().from(leagues).where(eq(leagues.id, input.leagueId)).limit(1);
+      if (!league) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'League not found' });
+      }
+      if (league.commissionerUserId !== ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only commissioner can regenerate the schedule' });
+      }
+      if (league.leagueType !== 'season') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only season leagues have a schedule' });
+      }
+
+      try {
+        return await regenerateSeasonSchedule(input.leagueId, input.seed, league);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Failed to regenerate schedule',
+        });
+      }
+    }),
+
   /**
    * Get matchups for a specific week
    */
@@ -262,6 +296,17 @@ export const matchupRouter = router({
           eq(matchups.week, input.week)
         ));
 
+      // Extra results against the league median, when the league plays it
+      const weekMedianResults = await db
+        .select()
+        .from(medianResults)
+        .where(and(
+          eq(medianResults.leagueId, input.leagueId),
+          eq(medianResults.year, input.year),
+          eq(medianResults.week, input.week)
+        ));
+      const medianByTeam = new Map(weekMedianResults.map((result) => [result.teamId, result]));
+
       // Get team details for each matchup
       const matchupsWithTeams = await Promise.all(
         weekMatchups.map(async (matchup) => {
@@ -277,6 +322,9 @@ export const matchupRouter = router({
             .where(eq(teams.id, matchup.team2Id))
             .limit(1);
 
+          const team1Median = medianByTeam.get(matchup.team1Id);
+          const team2Median = medianByTeam.get(matchup.team2Id);
+
           return {
             ...matchup,
             status:
@@ -287,6 +335,13 @@ export const matchupRouter = router({
                   : matchup.status,
             team1: team1[0],
             team2: team2[0],
+            median: team1Median || team2Median
+              ? {
+                  score: Number((team1Median ?? team2Median)!.medianScore),
+                  team1Result: (team1Median?.result ?? null) as MedianResult | null,
+                  team2Result: (team2Median?.result ?? null) as MedianResult | null,
+                }
+              : null,
           };
         })
       );
@@ -419,65 +474,25 @@ export const matchupRouter = router({
         throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
       }
 
-      // Get all matchups for this week
-      const weekMatchups = await db
-        .select()
-        .from(matchups)
-        .where(and(
-          eq(matchups.leagueId, input.leagueId),
-          eq(matchups.year, input.year),
-          eq(matchups.week, input.week)
-        ));
+      const updated = await finalizeWeekMatchups(db, input.leagueId, input.year, input.week);
 
-      let updated = 0;
+      // Median games and team records follow the final head-to-head scores
+      if (updated > 0) {
+        try {
+          const [league] = await db.select().from(leagues).where(eq(leagues.id, input.leagueId)).limit(1);
+          if (league) await recordMedianResults(db, league, input.year, input.week);
+          await syncTeamRecords(db, input.leagueId, input.year);
+        } catch (error) {
+          console.error('[MatchupRouter] Error updating team records:', error);
+        }
+      }
 
-      for (const matchup of weekMatchups) {
-        // Get scores for both teams
-        const team1Scores = await db
-          .select()
-          .from(weeklyTeamScores)
-          .where(and(
-            eq(weeklyTeamScores.teamId, matchup.team1Id),
-            eq(weeklyTeamScores.year, input.year),
-            eq(weeklyTeamScores.week, input.week)
-          ))
-          .limit(1);
-
-        const team2Scores = await db
-          .select()
-          .from(weeklyTeamScores)
-          .where(and(
-            eq(weeklyTeamScores.teamId, matchup.team2Id),
-            eq(weeklyTeamScores.year, input.year),
-            eq(weeklyTeamScores.week, input.week)
-          ))
-          .limit(1);
-
-        if (team1Scores.length > 0 && team2Scores.length > 0) {
-          const team1Score = team1Scores[0].totalPoints;
-          const team2Score = team2Scores[0].totalPoints;
-          const winnerId = team1Score > team2Score ? matchup.team1Id :
-            team2Score > team1Score ? matchup.team2Id : null;
-
-          await db
-            .update(matchups)
-            .set({
-              team1Score,
-              team2Score,
-              winnerId,
-              status: 'final',
-            })
-            .where(eq(matchups.id, matchup.id));
-
-          // Check achievements for both users
-          // We need to get the userIds for the teams
-          const [team1] = await db.select({ userId: teams.userId }).from(teams).where(eq(teams.id, matchup.team1Id)).limit(1);
-          const [team2] = await db.select({ userId: teams.userId }).from(teams).where(eq(teams.id, matchup.team2Id)).limit(1);
-
-          if (team1) await checkAchievements(team1.userId, input.leagueId);
-          if (team2) await checkAchievements(team2.userId, input.leagueId);
-
-          updated++;
+      // Final scores may complete the regular season or a playoff round
+      if (updated > 0) {
+        try {
+          await advancePlayoffs(input.leagueId);
+        } catch (error) {
+          console.error('[MatchupRouter] Error advancing playoffs:', error);
         }
       }
 
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { buildDivisionScheduleRounds, buildRoundRobinRounds, buildSeasonSchedule } from "./matchupService";
+
+function teamsWithoutDivisions(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ id: i + 1, divisionId: null }));
+}
+
+function pairKey(a: number, b: number) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function countMeetings(weeks: Array<{ pairings: Array<[number, number]> }>) {
+  const meetings = new Map<string, number>();
+  for (const { pairings } of weeks) {
+    for (const [home, away] of pairings) {
+      meetings.set(pairKey(home, away), (meetings.get(pairKey(home, away)) ?? 0) + 1);
+    }
+  }
+  return meetings;
+}
+
+describe("buildRoundRobinRounds", () => {
+  it("pairs every team with every other team exactly once", () => {
+    const rounds = buildRoundRobinRounds([1, 2, 3, 4, 5, 6]);
+    expect(rounds).toHaveLength(5);
+    rounds.forEach((round) => expect(new Set(round.flat()).size).toBe(6));
+
+    const meetings = countMeetings(rounds.map((pairings) => ({ pairings })));
+    expect(meetings.size).toBe(15);
+    expect(Array.from(meetings.values()).every((count) => count === 1)).toBe(true);
+  });
+
+  it("sits one team out each round for odd team counts", () => {
+    const rounds = buildRoundRobinRounds([1, 2, 3, 4, 5]);
+    expect(rounds).toHaveLength(5);
+    rounds.forEach((round) => expect(round).toHaveLength(2));
+
+    const sittingOut = rounds.map((round) => [1, 2, 3, 4, 5].find((id) => !round.flat().includes(id)));
+    expect(new Set(sittingOut).size).toBe(5);
+  });
+
+  it("returns nothing for fewer than two teams", () => {
+    expect(buildRoundRobinRounds([1])).toEqual([]);
+  });
+});
+
+describe("buildDivisionScheduleRounds", () => {
+  it("plays division rivals twice before the league-wide round robin", () => {
+    const rounds = buildDivisionScheduleRounds([[1, 2, 3, 4], [5, 6, 7, 8]]);
+    // 6 division rounds (double round robin of 4) + 7 league rounds
+    expect(rounds).toHaveLength(13);
+
+    const divisionBlock = countMeetings(rounds.slice(0, 6).map((pairings) => ({ pairings })));
+    expect(divisionBlock.get(pairKey(1, 2))).toBe(2);
+    expect(divisionBlock.get(pairKey(1, 5))).toBeUndefined();
+
+    const cycle = countMeetings(rounds.map((pairings) => ({ pairings })));
+    expect(cycle.get(pairKey(1, 2))).toBe(3);
+    expect(cycle.get(pairKey(1, 5))).toBe(1);
+  });
+
+  it("pairs teams idle in a division round across divisions", () => {
+    const rounds = buildDivisionScheduleRounds([[1, 2, 3], [4, 5, 6]]);
+    rounds.slice(0, 6).forEach((round) => expect(new Set(round.flat()).size).toBe(6));
+  });
+});
+
+describe("buildSeasonSchedule", () => {
+  it("covers every regular season week and keeps meeting counts within one", () => {
+    const schedule = buildSeasonSchedule(teamsWithoutDivisions(6), 13);
+    expect(schedule.map((w) => w.week)).toEqual(Array.from({ length: 13 }, (_, i) => i + 1));
+
+    const counts = Array.from(countMeetings(schedule).values());
+    expect(counts).toHaveLength(15);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it("gives odd team counts one bye per week, spread evenly", () => {
+    const schedule = buildSeasonSchedule(teamsWithoutDivisions(7), 14);
+    schedule.forEach((week) => {
+      expect(week.byeTeamIds).toHaveLength(1);
+      expect(week.pairings).toHaveLength(3);
+    });
+
+    const byes = new Map<number, number>();
+    schedule.forEach((week) => week.byeTeamIds.forEach((id) => byes.set(id, (byes.get(id) ?? 0) + 1)));
+    expect(Array.from(byes.values())).toEqual([2, 2, 2, 2, 2, 2, 2]);
+  });
+
+  it("balances home and away games and alternates the host of repeat meetings", () => {
+    const schedule = buildSeasonSchedule(teamsWithoutDivisions(4), 6);
+
+    const homeGames = new Map<number, number>();
+    schedule.forEach((week) => week.pairings.forEach(([home]) => homeGames.set(home, (homeGames.get(home) ?? 0) + 1)));
+    expect(Array.from(homeGames.values()).every((count) => count === 3)).toBe(true);
+
+    const hosts = new Map<string, number[]>();
+    schedule.forEach((week) =>
+      week.pairings.forEach(([home, away]) => hosts.set(pairKey(home, away), [...(hosts.get(pairKey(home, away)) ?? []), home]))
+    );
+    hosts.forEach(([first, second]) => expect(first).not.toBe(second));
+  });
+
+  it("generates the same schedule again from the same seed", () => {
+    const teams = teamsWithoutDivisions(8);
+    expect(buildSeasonSchedule(teams, 10, 42)).toEqual(buildSeasonSchedule(teams, 10, 42));
+    expect(buildSeasonSchedule(teams, 10, 42)).not.toEqual(buildSeasonSchedule(teams, 10, 7));
+  });
+
+  it("only weights divisions once every team has one", () => {
+    const partial = [
+      { id: 1, divisionId: 1 },
+      { id: 2, divisionId: 1 },
+      { id: 3, divisionId: 2 },
+      { id: 4, divisionId: null },
+    ];
+    const counts = Array.from(countMeetings(buildSeasonSchedule(partial, 3)).values());
+    expect(counts).toEqual([1, 1, 1, 1, 1, 1]);
+  });
+
+  it("returns no weeks for a single team", () => {
+    expect(buildSeasonSchedule(teamsWithoutDivisions(1), 10)).toEqual([]);
+  });
+});
@@ -1,7 +1,9 @@
-import { and, eq } from "drizzle-orm";
+import { and, eq, gt, isNull, ne, or } from "drizzle-orm";
 import { getDb } from "./db";
-import { leagues, matchups, teams } from "../drizzle/schema";
+import { leagues, matchups, teams, weeklyTeamScores } from "../drizzle/schema";
+import type { Database } from "./assetNames";
 import { autoPopulateLeagueLineups } from "./lineupAutoPopulate";
+import { checkAchievements } from "./achievementService";
 
 type LeagueRow = typeof leagues.$inferSelect;
 
@@ -11,6 +13,8 @@ export interface GenerateSeasonMatchupsParams {
   startWeek: number;
   endWeek: number;
   league?: LeagueRow;
+  /** Shuffles the team order; omitted keeps the order of team ids */
+  seed?: number;
 }
 
 export interface GenerateSeasonMatchupsResult {
@@ -20,6 +24,164 @@ export interface GenerateSeasonMatchupsResult {
   message: string;
 }
 
+type Pairing = [number, number];
+
+/**
+ * Circle-method round robin over the given team ids.
+ * Odd counts get a phantom slot, so one team sits out each round.
+ */
+export function buildRoundRobinRounds(teamIds: number[]): Pairing[][] {
+  if (teamIds.length < 2) return [];
+  const slots: Array<number | null> = [...teamIds];
+  if (slots.length % 2 === 1) slots.push(null);
+
+  const rounds: Pairing[][] = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairs: Pairing[] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const home = slots[i];
+      const away = slots[slots.length - 1 - i];
+      if (home !== null && away !== null) {
+        pairs.push(round % 2 === 0 ? [home, away] : [away, home]);
+      }
+    }
+    rounds.push(pairs);
+    // Keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return rounds;
+}
+
+/**
+ * Schedule cycle for a league with divisions: a double round robin inside every
+ * division followed by one full-league round robin. Teams idle in a division
+ * round (odd-sized or smaller divisions) are paired across divisions.
+ */
+export function buildDivisionScheduleRounds(divisionTeamIds: number[][]): Pairing[][] {
+  const allTeamIds = divisionTeamIds.flat();
+  const divisionRounds = divisionTeamIds.map((ids) => {
+    const single = buildRoundRobinRounds(ids);
+    const reversed = single.map((round) => round.map(([home, away]) => [away, home] as Pairing));
+    return [...single, ...reversed];
+  });
+  const blockLength = Math.max(0, ...divisionRounds.map((rounds) => rounds.length));
+
+  const rounds: Pairing[][] = [];
+  for (let r = 0; r < blockLength; r++) {
+    const pairs = divisionRounds.flatMap((division) => division[r] ?? []);
+    const busy = new Set(pairs.flat());
+    const idle = allTeamIds.filter((id) => !busy.has(id));
+    // Rotate idle teams so cross-division fill-ins vary from round to round
+    const offset = idle.length > 0 ? r % idle.length : 0;
+    const rotated = [...idle.slice(offset), ...idle.slice(0, offset)];
+    for (let i = 0; i + 1 < rotated.length; i += 2) {
+      pairs.push([rotated[i], rotated[i + 1]]);
+    }
+    rounds.push(pairs);
+  }
+
+  return [...rounds, ...buildRoundRobinRounds(allTeamIds)];
+}
+
+export interface ScheduledWeek {
+  week: number;
+  /** [home, away] team ids */
+  pairings: Pairing[];
+  /** Teams without an opponent this week (odd team counts); they may play the median instead */
+  byeTeamIds: number[];
+}
+
+/**
+ * Seeded Fisher-Yates shuffle, so a previewed schedule can be generated again exactly
+ */
+function shuffleWithSeed<T>(items: T[], seed: number): T[] {
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Pairings for weeks 1 through endWeek. The round robin cycle repeats once used up.
+ * Without divisions the number of meetings between any two teams differs by at most one.
+ * Divisions are weighted on purpose instead: a cycle plays division rivals at least
+ * three times and other teams once, plus fill-ins for idle division rounds.
+ * A first meeting is hosted by the team with fewer home games so far; repeat
+ * meetings alternate the host.
+ */
+export function buildSeasonSchedule(
+  leagueTeams: Array<{ id: number; divisionId: number | null }>,
+  endWeek: number,
+  seed?: number
+): ScheduledWeek[] {
+  const ordered = seed === undefined ? leagueTeams : shuffleWithSeed(leagueTeams, seed);
+  const teamIds = ordered.map((team) => team.id);
+
+  // Division leagues weight intra-division games; only used once every team is assigned
+  const divisionIds = Array.from(new Set(ordered.map((team) => team.divisionId)));
+  const rounds =
+    divisionIds.length >= 2 && !divisionIds.includes(null)
+      ? buildDivisionScheduleRounds(
+          divisionIds.map((divisionId) =>
+            ordered.filter((team) => team.divisionId === divisionId).map((team) => team.id)
+          )
+        )
+      : buildRoundRobinRounds(teamIds);
+  if (rounds.length === 0) return [];
+
+  const homeGames = new Map<number, number>();
+  const lastHost = new Map<string, number>();
+  const weeks: ScheduledWeek[] = [];
+
+  for (let week = 1; week <= endWeek; week++) {
+    const pairings = rounds[(week - 1) % rounds.length].map(([a, b]): Pairing => {
+      const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+      const previousHost = lastHost.get(key);
+      const swap =
+        previousHost !== undefined
+          ? previousHost === a
+          : (homeGames.get(b) ?? 0) < (homeGames.get(a) ?? 0);
+      const [home, away] = swap ? [b, a] : [a, b];
+
+      homeGames.set(home, (homeGames.get(home) ?? 0) + 1);
+      lastHost.set(key, home);
+      return [home, away];
+    });
+
+    const busy = new Set(pairings.flat());
+    weeks.push({ week, pairings, byeTeamIds: teamIds.filter((id) => !busy.has(id)) });
+  }
+
+  return weeks;
+}
+
+/**
+ * Last regular season week; the playoffs own every week from playoffStartWeek on
+ */
+export function getRegularSeasonEndWeek(league: Pick<LeagueRow, "playoffStartWeek">) {
+  return Math.max(1, (league.playoffStartWeek ?? 19) - 1);
+}
+
+async function loadLeague(db: Database, leagueId: number, league?: LeagueRow) {
+  if (league) return league;
+  const [row] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!row) {
+    throw new Error("League not found");
+  }
+  return row;
+}
+
 /**
  * Generates season-long matchups using the same round-robin logic as the TRPC mutation,
  * but available for internal server workflows (e.g., auto-generation after draft).
@@ -27,8 +189,8 @@ export interface GenerateSeasonMatchupsResult {
 export async function generateSeasonMatchupsForLeague(
   params: GenerateSeasonMatchupsParams
 ): Promise<GenerateSeasonMatchupsResult> {
-  const { leagueId, year, startWeek, endWeek } = params;
-  if (startWeek > endWeek) {
+  const { leagueId, year, startWeek } = params;
+  if (startWeek > params.endWeek) {
     throw new Error("startWeek cannot be greater than endWeek");
   }
 
@@ -37,18 +199,15 @@ export async function generateSeasonMatchupsForLeague(
     throw new Error("Database not available");
   }
 
-  let league = params.league;
-  if (!league) {
-    const result = await db
-      .select()
-      .from(leagues)
-      .where(eq(leagues.id, leagueId))
-      .limit(1);
-    league = result[0];
-  }
-
-  if (!league) {
-    throw new Error("League not found");
+  const league = await loadLeague(db, leagueId, params.league);
+  const endWeek = Math.min(params.endWeek, getRegularSeasonEndWeek(league));
+  if (startWeek > endWeek) {
+    return {
+      success: true,
+      totalMatchups: 0,
+      errors: [],
+      message: `Weeks ${startWeek}-${params.endWeek} are reserved for the playoffs`,
+    };
   }
 
   const leagueTeams = await db
@@ -57,8 +216,7 @@ export async function generateSeasonMatchupsForLeague(
     .where(eq(teams.leagueId, leagueId))
     .orderBy(teams.id);
 
-  const teamCount = leagueTeams.length;
-  if (teamCount < 2) {
+  if (leagueTeams.length < 2) {
     return {
       success: true,
       totalMatchups: 0,
@@ -67,6 +225,8 @@ export async function generateSeasonMatchupsForLeague(
     };
   }
 
+  const schedule = buildSeasonSchedule(leagueTeams, endWeek, params.seed);
+
   let totalMatchups = 0;
   const errors: Array<{ week: number; error: string }> = [];
 
@@ -87,58 +247,19 @@ export async function generateSeasonMatchupsForLeague(
         continue;
       }
 
-      const matchupsToCreate: Array<typeof matchups.$inferInsert> = [];
-
-      if (teamCount % 2 === 0) {
-        const matchupsPerWeek = teamCount / 2;
-        const rotation = (week - 1) % (teamCount - 1);
-
-        for (let i = 0; i < matchupsPerWeek; i++) {
-          const team1Index = (i + rotation) % teamCount;
-          const team2Index = (teamCount - 1 - i + rotation) % teamCount;
-
-          matchupsToCreate.push({
-            leagueId,
-            year,
-            week,
-            team1Id: leagueTeams[team1Index].id,
-            team2Id: leagueTeams[team2Index].id,
-            team1Score: 0,
-            team2Score: 0,
-            winnerId: null,
-            status: "scheduled",
-          });
-        }
-      } else {
-        const rotation = (week - 1) % teamCount;
-        const byeTeamIndex = rotation;
-
-        for (let i = 0; i < Math.floor(teamCount / 2); i++) {
-          let team1Index = (i + rotation + 1) % teamCount;
-          let team2Index = (teamCount - 1 - i + rotation) % teamCount;
-
-          if (team1Index === byeTeamIndex) team1Index = (team1Index + 1) % teamCount;
-          if (team2Index === byeTeamIndex) team2Index = (team2Index - 1 + teamCount) % teamCount;
-
-          if (
-            team1Index !== team2Index &&
-            team1Index !== byeTeamIndex &&
-            team2Index !== byeTeamIndex
-          ) {
-            matchupsToCreate.push({
-              leagueId,
-              year,
-              week,
-              team1Id: leagueTeams[team1Index].id,
-              team2Id: leagueTeams[team2Index].id,
-              team1Score: 0,
-              team2Score: 0,
-              winnerId: null,
-              status: "scheduled",
-            });
-          }
-        }
-      }
+      const matchupsToCreate: Array<typeof matchups.$inferInsert> = schedule[week - 1].pairings.map(
+        ([team1Id, team2Id]) => ({
+          leagueId,
+          year,
+          week,
+          team1Id,
+          team2Id,
+          team1Score: 0,
+          team2Score: 0,
+          winnerId: null,
+          status: "scheduled",
+        })
+      );
 
       if (matchupsToCreate.length > 0) {
         await db.insert(matchups).values(matchupsToCreate);
@@ -174,3 +295,179 @@ export async function generateSeasonMatchupsForLeague(
   };
 }
 
+export interface SeasonSchedulePreview {
+  seed: number | null;
+  endWeek: number;
+  weeks: Array<{
+    week: number;
+    matchups: Array<{ homeTeamId: number; homeTeamName: string; awayTeamId: number; awayTeamName: string }>;
+    byes: Array<{ teamId: number; teamName: string }>;
+  }>;
+  teams: Array<{ teamId: number; teamName: string; homeGames: number; awayGames: number; byes: number }>;
+  /** False once a regular season matchup has been played or scored */
+  canRegenerate: boolean;
+}
+
+/**
+ * Whether any regular season matchup of the year has started scoring
+ */
+export async function hasRegularSeasonStarted(db: Database, leagueId: number, year: number) {
+  const [started] = await db
+    .select({ id: matchups.id })
+    .from(matchups)
+    .where(
+      and(
+        eq(matchups.leagueId, leagueId),
+        eq(matchups.year, year),
+        isNull(matchups.playoffBracket),
+        or(ne(matchups.status, "scheduled"), gt(matchups.team1Score, 0), gt(matchups.team2Score, 0))
+      )
+    )
+    .limit(1);
+  return !!started;
+}
+
+/**
+ * The full regular season schedule the generator would create, without saving it
+ */
+export async function previewSeasonSchedule(
+  leagueId: number,
+  seed?: number,
+  league?: LeagueRow
+): Promise<SeasonSchedulePreview> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const leagueRow = await loadLeague(db, leagueId, league);
+  const endWeek = getRegularSeasonEndWeek(leagueRow);
+  const leagueTeams = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.leagueId, leagueId))
+    .orderBy(teams.id);
+  const teamNames = new Map(leagueTeams.map((team) => [team.id, team.name]));
+  const nameOf = (teamId: number) => teamNames.get(teamId) ?? `Team ${teamId}`;
+
+  const schedule = buildSeasonSchedule(leagueTeams, endWeek, seed);
+  const totals = leagueTeams.map((team) => ({
+    teamId: team.id,
+    teamName: team.name,
+    homeGames: 0,
+    awayGames: 0,
+    byes: 0,
+  }));
+  const totalsOf = (teamId: number) => totals.find((t) => t.teamId === teamId)!;
+  for (const { pairings, byeTeamIds } of schedule) {
+    for (const [home, away] of pairings) {
+      totalsOf(home).homeGames++;
+      totalsOf(away).awayGames++;
+    }
+    for (const teamId of byeTeamIds) totalsOf(teamId).byes++;
+  }
+
+  return {
+    seed: seed ?? null,
+    endWeek,
+    weeks: schedule.map(({ week, pairings, byeTeamIds }) => ({
+      week,
+      matchups: pairings.map(([home, away]) => ({
+        homeTeamId: home,
+        homeTeamName: nameOf(home),
+        awayTeamId: away,
+        awayTeamName: nameOf(away),
+      })),
+      byes: byeTeamIds.map((teamId) => ({ teamId, teamName: nameOf(teamId) })),
+    })),
+    teams: totals,
+    canRegenerate: !(await hasRegularSeasonStarted(db, leagueId, leagueRow.seasonYear)),
+  };
+}
+
+/**
+ * Replace the regular season schedule before the season starts.
+ * Playoff matchups are left alone; they are only created once the regular season ends.
+ */
+export async function regenerateSeasonSchedule(
+  leagueId: number,
+  seed?: number,
+  league?: LeagueRow
+): Promise<GenerateSeasonMatchupsResult> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const leagueRow = await loadLeague(db, leagueId, league);
+  if (await hasRegularSeasonStarted(db, leagueId, leagueRow.seasonYear)) {
+    throw new Error("The schedule cannot change after the season has started");
+  }
+
+  await db
+    .delete(matchups)
+    .where(
+      and(
+        eq(matchups.leagueId, leagueId),
+        eq(matchups.year, leagueRow.seasonYear),
+        isNull(matchups.playoffBracket)
+      )
+    );
+
+  return generateSeasonMatchupsForLeague({
+    leagueId,
+    year: leagueRow.seasonYear,
+    startWeek: 1,
+    endWeek: getRegularSeasonEndWeek(leagueRow),
+    league: leagueRow,
+    seed,
+  });
+}
+
+/**
+ * Copy the weekly team scores onto a week's matchups and mark them final.
+ * Matchups whose teams don't both have a score yet are left as they are.
+ *
+ * @returns Number of matchups made final
+ */
+export async function finalizeWeekMatchups(db: Database, leagueId: number, year: number, week: number) {
+  const weekMatchups = await db
+    .select()
+    .from(matchups)
+    .where(and(eq(matchups.leagueId, leagueId), eq(matchups.year, year), eq(matchups.week, week)));
+
+  let updated = 0;
+  for (const matchup of weekMatchups) {
+    const scores = await db
+      .select({ teamId: weeklyTeamScores.teamId, totalPoints: weeklyTeamScores.totalPoints })
+      .from(weeklyTeamScores)
+      .where(and(
+        or(eq(weeklyTeamScores.teamId, matchup.team1Id), eq(weeklyTeamScores.teamId, matchup.team2Id)),
+        eq(weeklyTeamScores.year, year),
+        eq(weeklyTeamScores.week, week)
+      ));
+    const team1Score = scores.find((s) => s.teamId === matchup.team1Id)?.totalPoints;
+    const team2Score = scores.find((s) => s.teamId === matchup.team2Id)?.totalPoints;
+    if (team1Score === undefined || team2Score === undefined) continue;
+
+    const winnerId = team1Score > team2Score ? matchup.team1Id :
+      team2Score > team1Score ? matchup.team2Id : null;
+
+    await db
+      .update(matchups)
+      .set({ team1Score, team2Score, winnerId, status: "final" })
+      .where(eq(matchups.id, matchup.id));
+
+    const owners = await db
+      .select({ userId: teams.userId })
+      .from(teams)
+      .where(or(eq(teams.id, matchup.team1Id), eq(teams.id, matchup.team2Id)));
+    for (const owner of owners) {
+      await checkAchievements(owner.userId, leagueId);
+    }
+
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,145 @@
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { leagues, matchups, medianResults, teams, weeklyTeamScores } from "../drizzle/schema";
+import type { Database } from "./assetNames";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+export type MedianResult = "win" | "loss" | "tie";
+
+export interface MedianRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/**
+ * Median of a list of scores; the mean of the two middle scores for even counts
+ */
+export function getMedianScore(scores: number[]): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Score every team of a regular season week against the league median, or only
+ * the teams on a bye when the league plays the median just in place of byes.
+ * Skipped until every team has a weekly score, so the median never moves afterwards.
+ */
+export async function recordMedianResults(db: Database, league: LeagueRow, year: number, week: number) {
+  if (!(league.playMedian || league.byeMedianGame) || week >= league.playoffStartWeek) return { recorded: 0 };
+
+  const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, league.id));
+  if (leagueTeams.length < 2) return { recorded: 0 };
+
+  const scores = await db
+    .select({ teamId: weeklyTeamScores.teamId, totalPoints: weeklyTeamScores.totalPoints })
+    .from(weeklyTeamScores)
+    .where(and(
+      inArray(weeklyTeamScores.teamId, leagueTeams.map((team) => team.id)),
+      eq(weeklyTeamScores.year, year),
+      eq(weeklyTeamScores.week, week)
+    ));
+  if (scores.length < leagueTeams.length) return { recorded: 0 };
+
+  let players = scores;
+  if (!league.playMedian) {
+    const weekMatchups = await db
+      .select({ team1Id: matchups.team1Id, team2Id: matchups.team2Id })
+      .from(matchups)
+      .where(and(
+        eq(matchups.leagueId, league.id),
+        eq(matchups.year, year),
+        eq(matchups.week, week),
+        isNull(matchups.playoffBracket)
+      ));
+    const playing = new Set(weekMatchups.flatMap((m) => [m.team1Id, m.team2Id]));
+    players = scores.filter((score) => !playing.has(score.teamId));
+    if (players.length === 0) return { recorded: 0 };
+  }
+
+  const medianScore = getMedianScore(scores.map((score) => score.totalPoints));
+  const rows = players.map((score) => ({
+    leagueId: league.id,
+    year,
+    week,
+    teamId: score.teamId,
+    teamScore: score.totalPoints,
+    medianScore: medianScore.toFixed(1),
+    result: (score.totalPoints > medianScore ? "win" : score.totalPoints < medianScore ? "loss" : "tie") as MedianResult,
+  }));
+
+  await db
+    .insert(medianResults)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [medianResults.leagueId, medianResults.year, medianResults.week, medianResults.teamId],
+      set: {
+        teamScore: sql`excluded."teamScore"`,
+        medianScore: sql`excluded."medianScore"`,
+        result: sql`excluded."result"`,
+      },
+    });
+
+  return { recorded: rows.length };
+}
+
+/**
+ * Median wins, losses and ties per team for a season
+ */
+export async function getMedianRecords(db: Database, leagueId: number, year: number): Promise<Map<number, MedianRecord>> {
+  const rows = await db
+    .select({ teamId: medianResults.teamId, result: medianResults.result })
+    .from(medianResults)
+    .where(and(eq(medianResults.leagueId, leagueId), eq(medianResults.year, year)));
+
+  const records = new Map<number, MedianRecord>();
+  for (const row of rows) {
+    const record = records.get(row.teamId) ?? { wins: 0, losses: 0, ties: 0 };
+    if (row.result === "win") record.wins++;
+    else if (row.result === "loss") record.losses++;
+    else record.ties++;
+    records.set(row.teamId, record);
+  }
+  return records;
+}
+
+/**
+ * Rebuild teams.wins/losses/ties and points from final regular season matchups plus median games.
+ * Points only count head-to-head games; the median game adds a result but no points.
+ */
+export async function syncTeamRecords(db: Database, leagueId: number, year: number) {
+  const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, leagueId));
+  if (leagueTeams.length === 0) return;
+
+  const teamIds = leagueTeams.map((team) => team.id);
+  const [finals, medianRecords] = await Promise.all([
+    db
+      .select()
+      .from(matchups)
+      .where(and(
+        eq(matchups.leagueId, leagueId),
+        eq(matchups.year, year),
+        eq(matchups.status, "final"),
+        isNull(matchups.playoffBracket)
+      )),
+    getMedianRecords(db, leagueId, year),
+  ]);
+
+  for (const teamId of teamIds) {
+    const median = medianRecords.get(teamId) ?? { wins: 0, losses: 0, ties: 0 };
+    const record = { wins: median.wins, losses: median.losses, ties: median.ties, pointsFor: 0, pointsAgainst: 0 };
+
+    for (const matchup of finals) {
+      if (matchup.team1Id !== teamId && matchup.team2Id !== teamId) continue;
+      const isTeam1 = matchup.team1Id === teamId;
+      record.pointsFor += isTeam1 ? matchup.team1Score : matchup.team2Score;
+      record.pointsAgainst += isTeam1 ? matchup.team2Score : matchup.team1Score;
+      if (matchup.winnerId === teamId) record.wins++;
+      else if (matchup.winnerId === null) record.ties++;
+      else record.losses++;
+    }
+
+    await db.update(teams).set(record).where(eq(teams.id, teamId));
+  }
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "./_core/trpc";
+import { getDb } from "./db";
+import {
+  endMockDraft,
+  getMockDraftReport,
+  getMockDraftState,
+  makeMockDraftPick,
+  startMockDraft,
+} from "./mockDraftService";
+
+const assetTypeSchema = z.enum(["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"]);
+const strategySchema = z.enum(["best_available", "position_need", "trend_chaser"]);
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+  }
+  return db;
+}
+
+/**
+ * Mock Draft Router
+ *
+ * Offline practice drafts against CPU teams. Nothing here writes to league tables.
+ */
+export const mockDraftRouter = router({
+  /**
+   * Start a new mock draft, replacing the user's previous one
+   */
+  start: protectedProcedure
+    .input(
+      z.object({
+        teamCount: z.number().int().min(4).max(16),
+        draftPosition: z.number().int().min(1).max(16),
+        draftType: z.enum(["snake", "linear"]),
+        pickSeconds: z.number().int().min(5).max(120),
+        strategies: z.array(strategySchema).max(15).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      return startMockDraft(db, ctx.user.id, input);
+    }),
+
+  /**
+   * Board, available players and clock of a mock draft
+   */
+  getState: protectedProcedure
+    .input(z.object({ mockId: z.string() }))
+    .query(({ ctx, input }) => getMockDraftState(ctx.user.id, input.mockId)),
+
+  /**
+   * Draft a player for the user; CPU teams pick until the user is on the clock again
+   */
+  makePick: protectedProcedure
+    .input(z.object({ mockId: z.string(), assetType: assetTypeSchema, assetId: z.number() }))
+    .mutation(({ ctx, input }) => makeMockDraftPick(ctx.user.id, input.mockId, input.assetType, input.assetId)),
+
+  /**
+   * Roster grades and ADP comparison once the mock is complete
+   */
+  getReport: protectedProcedure
+    .input(z.object({ mockId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = await requireDb();
+      return getMockDraftReport(db, ctx.user.id, input.mockId);
+    }),
+
+  /**
+   * Abandon a mock draft
+   */
+  end: protectedProcedure
+    .input(z.object({ mockId: z.string() }))
+    .mutation(({ ctx, input }) => {
+      endMockDraft(ctx.user.id, input.mockId);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,408 @@
+import { randomUUID } from "crypto";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+  assetProjections,
+  brands,
+  cannabisStrains,
+  manufacturers,
+  pharmacies,
+  strains,
+} from "../drizzle/schema";
+import type { Database } from "./assetNames";
+import {
+  AUTO_PICK_STRATEGIES,
+  autoPickService,
+  type AssetType,
+  type AutoPickStrategy,
+  type PoolPlayer,
+  type PositionCounts,
+} from "./autoPick";
+import { getSlotTeamIndex } from "./draftPickService";
+import { getAdpMap } from "./draftAnalyticsService";
+import { compareToAdp, getLetterGrade } from "./draftGrading";
+import { getLatestProjectionDate, PROJECTION_ASSET_TYPES } from "./projectionService";
+
+/**
+ * Mock Draft Service
+ *
+ * Practice drafts against CPU teams. Sessions live in memory only: nothing is written to
+ * leagues, teams, rosters or draftPicks. CPU teams draft instantly with an auto-pick
+ * strategy, and the user's clock is checked whenever the session is read, so an
+ * expired pick is made for the user on the next request.
+ */
+
+export type MockDraftType = "snake" | "linear";
+
+export interface MockDraftOptions {
+  teamCount: number;
+  /** 1-based draft slot of the user */
+  draftPosition: number;
+  draftType: MockDraftType;
+  pickSeconds: number;
+  /** Strategies for the CPU teams in slot order; missing entries rotate through all strategies */
+  strategies?: AutoPickStrategy[];
+}
+
+interface MockDraftTeam {
+  slot: number;
+  name: string;
+  isUser: boolean;
+  strategy: AutoPickStrategy | null;
+}
+
+interface MockDraftPick {
+  pickNumber: number;
+  round: number;
+  slot: number;
+  assetType: AssetType;
+  assetId: number;
+  name: string;
+  imageUrl: string | null;
+  points: number;
+  /** Made by the clock for the user */
+  autoPicked: boolean;
+}
+
+interface MockDraftSession {
+  id: string;
+  userId: number;
+  draftType: MockDraftType;
+  teams: MockDraftTeam[];
+  pickSeconds: number;
+  pool: PoolPlayer[];
+  picks: MockDraftPick[];
+  clockStartedAt: number;
+  createdAt: number;
+  random: () => number;
+}
+
+export const MOCK_DRAFT_ROUNDS = 10;
+const POOL_SIZE_PER_TYPE = 60;
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+const AVAILABLE_LIST_SIZE = 150;
+
+const CPU_TEAM_NAMES: Record<AutoPickStrategy, string> = {
+  best_available: "Best Available Bot",
+  position_need: "Roster Builder Bot",
+  trend_chaser: "Trend Chaser Bot",
+};
+
+const sessions = new Map<string, MockDraftSession>();
+
+function sweepExpiredSessions(now: number) {
+  Array.from(sessions.values()).forEach((session) => {
+    if (now - session.createdAt > SESSION_TTL_MS) sessions.delete(session.id);
+  });
+}
+
+function getSession(userId: number, mockId: string): MockDraftSession {
+  const session = sessions.get(mockId);
+  if (!session || session.userId !== userId) throw new Error("Mock draft not found or expired");
+  return session;
+}
+
+/**
+ * Draftable assets with their latest next-week projection, best first per asset type
+ */
+async function loadDraftPool(db: Database): Promise<PoolPlayer[]> {
+  const projectionDate = await getLatestProjectionDate(db);
+  if (!projectionDate) throw new Error("No projections available yet to run a mock draft");
+
+  const pool: PoolPlayer[] = [];
+  for (const assetType of PROJECTION_ASSET_TYPES) {
+    const projections = await db
+      .select({
+        assetId: assetProjections.assetId,
+        points: assetProjections.nextWeekPoints,
+        signals: assetProjections.signals,
+      })
+      .from(assetProjections)
+      .where(and(eq(assetProjections.projectionDate, projectionDate), eq(assetProjections.assetType, assetType)))
+      .orderBy(desc(assetProjections.nextWeekPoints))
+      .limit(POOL_SIZE_PER_TYPE);
+    if (projections.length === 0) continue;
+
+    const names = await loadAssetNames(db, assetType, projections.map((p) => p.assetId));
+    for (const projection of projections) {
+      const asset = names.get(projection.assetId);
+      if (!asset) continue;
+      pool.push({
+        id: projection.assetId,
+        name: asset.name,
+        imageUrl: asset.imageUrl,
+        assetType,
+        points: projection.points,
+        trend: (projection.signals as { trendMultiplier?: number }).trendMultiplier ?? 1,
+      });
+    }
+  }
+
+  if (pool.length === 0) throw new Error("No projections available yet to run a mock draft");
+  return pool;
+}
+
+async function loadAssetNames(db: Database, assetType: AssetType, ids: number[]) {
+  let rows: Array<{ id: number; name: string; imageUrl: string | null }> = [];
+  switch (assetType) {
+    case "manufacturer":
+      rows = await db
+        .select({ id: manufacturers.id, name: manufacturers.name, imageUrl: manufacturers.logoUrl })
+        .from(manufacturers)
+        .where(inArray(manufacturers.id, ids));
+      break;
+    case "cannabis_strain":
+      rows = await db
+        .select({ id: cannabisStrains.id, name: cannabisStrains.name, imageUrl: cannabisStrains.imageUrl })
+        .from(cannabisStrains)
+        .where(inArray(cannabisStrains.id, ids));
+      break;
+    case "product":
+      rows = await db
+        .select({ id: strains.id, name: strains.name, imageUrl: sql<string | null>`null` })
+        .from(strains)
+        .where(inArray(strains.id, ids));
+      break;
+    case "pharmacy":
+      rows = await db
+        .select({ id: pharmacies.id, name: pharmacies.name, imageUrl: pharmacies.logoUrl })
+        .from(pharmacies)
+        .where(inArray(pharmacies.id, ids));
+      break;
+    case "brand":
+      rows = await db
+        .select({ id: brands.id, name: brands.name, imageUrl: brands.logoUrl })
+        .from(brands)
+        .where(inArray(brands.id, ids));
+      break;
+  }
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+function getTotalPicks(session: MockDraftSession) {
+  return session.teams.length * MOCK_DRAFT_ROUNDS;
+}
+
+function getSlotOnTheClock(session: MockDraftSession) {
+  const pickNumber = session.picks.length + 1;
+  return getSlotTeamIndex(session.draftType, session.teams.length, pickNumber) + 1;
+}
+
+function getPositionCounts(session: MockDraftSession, slot: number): PositionCounts {
+  const counts: PositionCounts = { manufacturer: 0, cannabis_strain: 0, product: 0, pharmacy: 0, brand: 0 };
+  session.picks.filter((pick) => pick.slot === slot).forEach((pick) => counts[pick.assetType]++);
+  return counts;
+}
+
+function getAvailablePool(session: MockDraftSession) {
+  const drafted = new Set(session.picks.map((pick) => `${pick.assetType}-${pick.assetId}`));
+  return session.pool.filter((player) => !drafted.has(`${player.assetType}-${player.id}`));
+}
+
+function recordPick(session: MockDraftSession, slot: number, player: PoolPlayer, autoPicked: boolean) {
+  const pickNumber = session.picks.length + 1;
+  session.picks.push({
+    pickNumber,
+    round: Math.ceil(pickNumber / session.teams.length),
+    slot,
+    assetType: player.assetType,
+    assetId: player.id,
+    name: player.name,
+    imageUrl: player.imageUrl,
+    points: player.points ?? 0,
+    autoPicked,
+  });
+  session.clockStartedAt = Date.now();
+}
+
+/**
+ * Make every pick that isn't the user's to make: CPU picks, and user picks whose clock ran out
+ */
+function advanceSession(session: MockDraftSession) {
+  while (session.picks.length < getTotalPicks(session)) {
+    const slot = getSlotOnTheClock(session);
+    const team = session.teams[slot - 1];
+
+    if (team.isUser) {
+      const deadline = session.clockStartedAt + session.pickSeconds * 1000;
+      if (Date.now() < deadline) return;
+      const player = autoPickService.pickFromPool(getAvailablePool(session), getPositionCounts(session, slot), "position_need");
+      if (!player) return;
+      // The missed pick is made as of its deadline, so the next user pick gets its own full clock
+      recordPick(session, slot, player, true);
+      session.clockStartedAt = deadline;
+      continue;
+    }
+
+    const player = autoPickService.pickFromPool(
+      getAvailablePool(session),
+      getPositionCounts(session, slot),
+      team.strategy ?? "best_available",
+      session.random
+    );
+    if (!player) return;
+    recordPick(session, slot, player, false);
+  }
+}
+
+function toState(session: MockDraftSession) {
+  const completed = session.picks.length >= getTotalPicks(session);
+  const userTeam = session.teams.find((team) => team.isUser)!;
+  const onTheClockSlot = completed ? null : getSlotOnTheClock(session);
+  const isUserTurn = onTheClockSlot === userTeam.slot;
+  const counts = getPositionCounts(session, userTeam.slot);
+
+  return {
+    id: session.id,
+    draftType: session.draftType,
+    rounds: MOCK_DRAFT_ROUNDS,
+    pickSeconds: session.pickSeconds,
+    teams: session.teams,
+    picks: session.picks,
+    completed,
+    currentPickNumber: completed ? null : session.picks.length + 1,
+    onTheClockSlot,
+    isUserTurn,
+    secondsLeft: isUserTurn
+      ? Math.max(0, Math.ceil((session.clockStartedAt + session.pickSeconds * 1000 - Date.now()) / 1000))
+      : null,
+    userSlot: userTeam.slot,
+    userPositionCounts: counts,
+    available: getAvailablePool(session)
+      .sort((a, b) => (b.points ?? 0) - (a.points ?? 0))
+      .slice(0, AVAILABLE_LIST_SIZE),
+  };
+}
+
+export type MockDraftState = ReturnType<typeof toState>;
+
+/**
+ * Start a mock draft and run the CPU picks up to the user's first pick
+ */
+export async function startMockDraft(db: Database, userId: number, options: MockDraftOptions): Promise<MockDraftState> {
+  if (options.draftPosition < 1 || options.draftPosition > options.teamCount) {
+    throw new Error("Draft position must be within the number of teams");
+  }
+
+  const now = Date.now();
+  sweepExpiredSessions(now);
+  // One mock per user at a time
+  Array.from(sessions.values())
+    .filter((session) => session.userId === userId)
+    .forEach((session) => sessions.delete(session.id));
+
+  const pool = await loadDraftPool(db);
+  let cpuIndex = 0;
+  const teams: MockDraftTeam[] = Array.from({ length: options.teamCount }, (_, index) => {
+    const slot = index + 1;
+    if (slot === options.draftPosition) return { slot, name: "You", isUser: true, strategy: null };
+    const strategy = options.strategies?.[cpuIndex] ?? AUTO_PICK_STRATEGIES[cpuIndex % AUTO_PICK_STRATEGIES.length];
+    cpuIndex++;
+    return { slot, name: `${CPU_TEAM_NAMES[strategy]} ${slot}`, isUser: false, strategy };
+  });
+
+  const session: MockDraftSession = {
+    id: randomUUID(),
+    userId,
+    draftType: options.draftType,
+    teams,
+    pickSeconds: options.pickSeconds,
+    pool,
+    picks: [],
+    clockStartedAt: now,
+    createdAt: now,
+    random: Math.random,
+  };
+  sessions.set(session.id, session);
+
+  advanceSession(session);
+  return toState(session);
+}
+
+/**
+ * Current state of a mock draft, catching up on picks the clock made meanwhile
+ */
+export function getMockDraftState(userId: number, mockId: string): MockDraftState {
+  const session = getSession(userId, mockId);
+  advanceSession(session);
+  return toState(session);
+}
+
+/**
+ * Make the user's pick and let the CPU teams draft until the user is up again
+ */
+export function makeMockDraftPick(userId: number, mockId: string, assetType: AssetType, assetId: number): MockDraftState {
+  const session = getSession(userId, mockId);
+  advanceSession(session);
+
+  const state = toState(session);
+  if (!state.isUserTurn) throw new Error("It's not your turn to pick");
+
+  const player = getAvailablePool(session).find((p) => p.assetType === assetType && p.id === assetId);
+  if (!player) throw new Error("This player is not available");
+
+  const allowed = autoPickService.pickFromPool([player], state.userPositionCounts, "best_available");
+  if (!allowed) throw new Error(`Your roster has no open ${assetType.replace("_", " ")} slot`);
+
+  recordPick(session, state.userSlot, player, false);
+  advanceSession(session);
+  return toState(session);
+}
+
+/**
+ * Post-mock report: roster grades for every team and the user's picks against real-league ADP of the same format
+ */
+export async function getMockDraftReport(db: Database, userId: number, mockId: string) {
+  const session = getSession(userId, mockId);
+  advanceSession(session);
+  if (session.picks.length < getTotalPicks(session)) throw new Error("The mock draft isn't finished yet");
+
+  const adp = await getAdpMap(db, session.draftType);
+  const poolRank = new Map(
+    [...session.pool]
+      .sort((a, b) => (b.points ?? 0) - (a.points ?? 0))
+      .map((player, index) => [`${player.assetType}-${player.id}`, index + 1])
+  );
+
+  const teamTotals = session.teams.map((team) => ({
+    ...team,
+    totalPoints: session.picks.filter((pick) => pick.slot === team.slot).reduce((total, pick) => total + pick.points, 0),
+  }));
+  const averagePoints = teamTotals.reduce((total, team) => total + team.totalPoints, 0) / teamTotals.length;
+  const ranked = [...teamTotals].sort((a, b) => b.totalPoints - a.totalPoints);
+  const grade = (totalPoints: number) => getLetterGrade(averagePoints > 0 ? totalPoints / averagePoints : 1);
+
+  const userTeam = teamTotals.find((team) => team.isUser)!;
+  return {
+    grade: grade(userTeam.totalPoints),
+    totalPoints: userTeam.totalPoints,
+    averagePoints: Math.round(averagePoints),
+    rank: ranked.findIndex((team) => team.isUser) + 1,
+    teams: ranked.map((team) => ({
+      slot: team.slot,
+      name: team.name,
+      strategy: team.strategy,
+      isUser: team.isUser,
+      totalPoints: team.totalPoints,
+      grade: grade(team.totalPoints),
+    })),
+    picks: session.picks
+      .filter((pick) => pick.slot === userTeam.slot)
+      .map((pick) => {
+        const assetAdp = adp.get(`${pick.assetType}-${pick.assetId}`) ?? null;
+        return {
+          ...pick,
+          poolRank: poolRank.get(`${pick.assetType}-${pick.assetId}`) ?? null,
+          adp: assetAdp,
+          ...compareToAdp(pick.pickNumber, assetAdp),
+        };
+      }),
+  };
+}
+
+/**
+ * Drop a mock draft before it expires
+ */
+export function endMockDraft(userId: number, mockId: string) {
+  getSession(userId, mockId);
+  sessions.delete(mockId);
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { matchups, playoffSeeds } from "../drizzle/schema";
+import { getBracketPositions, resolveBracket, type PlayoffBracketKind } from "./playoffService";
+
+type MatchupRow = typeof matchups.$inferSelect;
+type SeedRow = typeof playoffSeeds.$inferSelect;
+
+const league = { playoffStartWeek: 15, playoffChampionshipWeeks: 1 };
+
+// Team ids are the seed times ten so the two are easy to tell apart
+function seeds(count: number, bracket: PlayoffBracketKind = "winners"): SeedRow[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    leagueId: 1,
+    year: 2025,
+    bracket,
+    seed: i + 1,
+    teamId: (i + 1) * 10,
+    createdAt: "",
+  }));
+}
+
+let nextMatchupId = 1;
+
+function played(
+  bracket: PlayoffBracketKind,
+  round: number,
+  slot: number,
+  team1Id: number,
+  team1Score: number,
+  team2Id: number,
+  team2Score: number,
+  options: { leg?: number; status?: string } = {}
+): MatchupRow {
+  return {
+    id: nextMatchupId++,
+    leagueId: 1,
+    year: 2025,
+    week: league.playoffStartWeek + round - 1 + (options.leg ?? 1) - 1,
+    team1Id,
+    team2Id,
+    team1Score,
+    team2Score,
+    winnerId: team1Score > team2Score ? team1Id : team2Score > team1Score ? team2Id : null,
+    status: options.status ?? "final",
+    playoffBracket: bracket,
+    playoffRound: round,
+    bracketSlot: slot,
+    playoffLeg: options.leg ?? 1,
+    createdAt: "",
+    updatedAt: "",
+  };
+}
+
+describe("getBracketPositions", () => {
+  it("keeps the top seeds apart until the late rounds", () => {
+    expect(getBracketPositions(2)).toEqual([1, 2]);
+    expect(getBracketPositions(4)).toEqual([1, 4, 2, 3]);
+    expect(getBracketPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe("resolveBracket", () => {
+  it("treats a bracket with fewer than two teams as complete", () => {
+    expect(resolveBracket(league, "winners", seeds(1), [])).toMatchObject({ toCreate: [], isComplete: true });
+  });
+
+  it("gives the top seeds first-round byes when the field is not a power of two", () => {
+    const state = resolveBracket(league, "winners", seeds(6), []);
+
+    expect(state.rounds.map((r) => r.roundName)).toEqual(["Quarterfinals", "Semifinals", "Championship"]);
+    const firstRound = state.rounds[0].slots;
+    expect(firstRound.filter((s) => s.isBye).map((s) => s.advancingTeamId)).toEqual([10, 20]);
+    expect(state.toCreate).toEqual([
+      { round: 1, slot: 1, leg: 1, week: 15, team1Id: 40, team2Id: 50 },
+      { round: 1, slot: 3, leg: 1, week: 15, team1Id: 30, team2Id: 60 },
+    ]);
+    expect(state.isComplete).toBe(false);
+  });
+
+  it("schedules the next round once the previous one is final, better seed first", () => {
+    const state = resolveBracket(league, "winners", seeds(6), [
+      played("winners", 1, 1, 40, 80, 50, 70),
+      played("winners", 1, 3, 30, 60, 60, 90),
+    ]);
+
+    expect(state.toCreate).toEqual([
+      { round: 2, slot: 0, leg: 1, week: 16, team1Id: 10, team2Id: 40 },
+      { round: 2, slot: 1, leg: 1, week: 16, team1Id: 20, team2Id: 60 },
+    ]);
+  });
+
+  it("waits while a round is still being played", () => {
+    const state = resolveBracket(league, "winners", seeds(4), [
+      played("winners", 1, 0, 10, 80, 40, 70),
+      played("winners", 1, 1, 20, 60, 30, 50, { status: "in_progress" }),
+    ]);
+
+    expect(state.toCreate).toEqual([]);
+    expect(state.rounds[0].slots[1].status).toBe("in_progress");
+  });
+
+  it("decides a two-week championship on combined points", () => {
+    const twoWeekLeague = { ...league, playoffChampionshipWeeks: 2 };
+    const opening = resolveBracket(twoWeekLeague, "winners", seeds(2), []);
+    expect(opening.toCreate.map((m) => [m.leg, m.week])).toEqual([[1, 15], [2, 16]]);
+
+    const state = resolveBracket(twoWeekLeague, "winners", seeds(2), [
+      played("winners", 1, 0, 10, 100, 20, 60, { leg: 1 }),
+      played("winners", 1, 0, 10, 50, 20, 100, { leg: 2 }),
+    ]);
+    const final = state.rounds[0].slots[0];
+    expect(final).toMatchObject({ team1Score: 150, team2Score: 160, winnerId: 20, status: "final" });
+    expect(state.isComplete).toBe(true);
+  });
+
+  it("gives a tied game to the better seed", () => {
+    const state = resolveBracket(league, "winners", seeds(2), [played("winners", 1, 0, 10, 70, 20, 70)]);
+    expect(state.rounds[0].slots[0].winnerId).toBe(10);
+  });
+
+  it("moves the loser on in the toilet bowl", () => {
+    const state = resolveBracket(league, "toilet_bowl", seeds(4, "toilet_bowl"), [
+      played("toilet_bowl", 1, 0, 10, 90, 40, 50),
+      played("toilet_bowl", 1, 1, 20, 40, 30, 60),
+    ]);
+
+    expect(state.rounds.map((r) => r.roundName)).toEqual(["Toilet Bowl Round 1", "Toilet Bowl Final"]);
+    expect(state.toCreate).toEqual([{ round: 2, slot: 0, leg: 1, week: 16, team1Id: 20, team2Id: 40 }]);
+  });
+});
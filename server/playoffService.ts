@@ -0,0 +1,363 @@
+import { and, asc, eq, isNotNull, isNull, lt } from "drizzle-orm";
+import { getDb } from "./db";
+import { leagues, matchups, playoffSeeds, teams } from "../drizzle/schema";
+import { type Database } from "./assetNames";
+import { standingsRouter } from "./standingsRouter";
+import { autoPopulateLeagueLineups } from "./lineupAutoPopulate";
+import { wsManager } from "./websocket";
+
+type LeagueRow = typeof leagues.$inferSelect;
+type MatchupRow = typeof matchups.$inferSelect;
+type SeedRow = typeof playoffSeeds.$inferSelect;
+
+export type PlayoffBracketKind = "winners" | "consolation" | "toilet_bowl";
+
+export const BRACKET_LABELS: Record<PlayoffBracketKind, string> = {
+  winners: "Playoffs",
+  consolation: "Consolation Bracket",
+  toilet_bowl: "Toilet Bowl",
+};
+
+interface BracketTeam {
+  teamId: number;
+  seed: number;
+}
+
+export interface BracketSlot {
+  slot: number;
+  team1?: BracketTeam;
+  team2?: BracketTeam;
+  isBye: boolean;
+  /** Combined over both legs of a two-week championship */
+  team1Score: number;
+  team2Score: number;
+  /** Team that won the game (ties go to the better seed) */
+  winnerId?: number;
+  /** Team that moves on: the winner, or the loser in the toilet bowl */
+  advancingTeamId?: number;
+  status: "pending" | "scheduled" | "in_progress" | "final";
+  legs: MatchupRow[];
+}
+
+export interface BracketRound {
+  round: number;
+  roundName: string;
+  weeks: number[];
+  slots: BracketSlot[];
+}
+
+interface MatchupToCreate {
+  round: number;
+  slot: number;
+  leg: number;
+  week: number;
+  team1Id: number;
+  team2Id: number;
+}
+
+/**
+ * First-round seed order for a power-of-two bracket, arranged so the top seeds
+ * can only meet as late as possible (8 teams: 1-8, 4-5, 2-7, 3-6)
+ */
+export function getBracketPositions(size: number): number[] {
+  let positions = [1, 2];
+  while (positions.length < size) {
+    const next = positions.length * 2;
+    positions = positions.flatMap((seed) => [seed, next + 1 - seed]);
+  }
+  return positions;
+}
+
+function getRoundName(bracket: PlayoffBracketKind, round: number, rounds: number) {
+  if (bracket === "consolation") {
+    return round === rounds ? "Consolation Final" : `Consolation Round ${round}`;
+  }
+  if (bracket === "toilet_bowl") {
+    return round === rounds ? "Toilet Bowl Final" : `Toilet Bowl Round ${round}`;
+  }
+  if (round === rounds) return "Championship";
+  if (round === rounds - 1) return "Semifinals";
+  if (round === rounds - 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
+
+function advancingTeam(slot?: BracketSlot): BracketTeam | undefined {
+  if (!slot?.advancingTeamId) return undefined;
+  return [slot.team1, slot.team2].find((t) => t?.teamId === slot.advancingTeamId);
+}
+
+/**
+ * Walk a bracket from its seeds and the matchups played so far. Top seeds get
+ * first-round byes when the bracket isn't a power of two. Returns the rounds for
+ * display and the matchups that can be scheduled now.
+ */
+export function resolveBracket(
+  league: Pick<LeagueRow, "playoffStartWeek" | "playoffChampionshipWeeks">,
+  bracket: PlayoffBracketKind,
+  seeds: SeedRow[],
+  bracketMatchups: MatchupRow[]
+) {
+  const rounds: BracketRound[] = [];
+  const toCreate: MatchupToCreate[] = [];
+  if (seeds.length < 2) return { rounds, toCreate, isComplete: true };
+
+  const roundCount = Math.ceil(Math.log2(seeds.length));
+  const positions = getBracketPositions(Math.pow(2, roundCount));
+  const seedTeams = new Map(seeds.map((s) => [s.seed, { teamId: s.teamId, seed: s.seed }]));
+
+  let previous: BracketSlot[] = [];
+  for (let round = 1; round <= roundCount; round++) {
+    const legCount = bracket === "winners" && round === roundCount ? league.playoffChampionshipWeeks : 1;
+    const firstWeek = league.playoffStartWeek + round - 1;
+    const weeks = Array.from({ length: legCount }, (_, leg) => firstWeek + leg);
+    const slotCount = Math.pow(2, roundCount - round);
+
+    const slots: BracketSlot[] = [];
+    for (let slot = 0; slot < slotCount; slot++) {
+      const team1 = round === 1
+        ? seedTeams.get(positions[slot * 2])
+        : advancingTeam(previous[slot * 2]);
+      const team2 = round === 1
+        ? seedTeams.get(positions[slot * 2 + 1])
+        : advancingTeam(previous[slot * 2 + 1]);
+
+      const entry: BracketSlot = {
+        slot,
+        team1,
+        team2,
+        isBye: false,
+        team1Score: 0,
+        team2Score: 0,
+        status: "pending",
+        legs: [],
+      };
+
+      if (round === 1 && (!team1 || !team2)) {
+        // Seeds past the field size don't exist: the other team moves on
+        entry.isBye = true;
+        entry.advancingTeamId = (team1 ?? team2)?.teamId;
+        entry.status = "final";
+      } else if (team1 && team2) {
+        // Better seed is listed first
+        const [home, away] = team1.seed <= team2.seed ? [team1, team2] : [team2, team1];
+        entry.team1 = home;
+        entry.team2 = away;
+        entry.legs = bracketMatchups
+          .filter((m) => m.playoffRound === round && m.bracketSlot === slot)
+          .sort((a, b) => (a.playoffLeg ?? 1) - (b.playoffLeg ?? 1));
+
+        for (let leg = 1; leg <= legCount; leg++) {
+          if (!entry.legs.some((m) => (m.playoffLeg ?? 1) === leg)) {
+            toCreate.push({ round, slot, leg, week: weeks[leg - 1], team1Id: home.teamId, team2Id: away.teamId });
+          }
+        }
+
+        for (const m of entry.legs) {
+          const homeIsTeam1 = m.team1Id === home.teamId;
+          entry.team1Score += homeIsTeam1 ? m.team1Score : m.team2Score;
+          entry.team2Score += homeIsTeam1 ? m.team2Score : m.team1Score;
+        }
+
+        if (entry.legs.length === legCount && entry.legs.every((m) => m.status === "final")) {
+          entry.status = "final";
+          const homeWins = entry.team1Score >= entry.team2Score;
+          entry.winnerId = homeWins ? home.teamId : away.teamId;
+          const loserId = homeWins ? away.teamId : home.teamId;
+          entry.advancingTeamId = bracket === "toilet_bowl" ? loserId : entry.winnerId;
+        } else {
+          entry.status = entry.legs.some((m) => m.status === "in_progress") ? "in_progress" : "scheduled";
+        }
+      }
+
+      slots.push(entry);
+    }
+
+    rounds.push({ round, roundName: getRoundName(bracket, round, roundCount), weeks, slots });
+    previous = slots;
+  }
+
+  const final = rounds[rounds.length - 1].slots[0];
+  return { rounds, toCreate, isComplete: final.status === "final" };
+}
+
+/**
+ * Fix the postseason seeds from the final regular season standings. Teams that
+ * miss the playoffs go into the consolation bracket (best record seeded first)
+ * or the toilet bowl (worst record seeded first, losers advance).
+ */
+async function seedPlayoffs(db: Database, league: LeagueRow, year: number) {
+  const seeding = await standingsRouter.createCaller({ user: { id: 0 } } as any)
+    .getPlayoffSeeding({ leagueId: league.id, year, playoffTeams: league.playoffTeams });
+
+  const rows: Array<typeof playoffSeeds.$inferInsert> = seeding
+    .filter((s) => s.isPlayoffTeam && s.playoffSeed !== undefined)
+    .map((s) => ({ leagueId: league.id, year, bracket: "winners", seed: s.playoffSeed!, teamId: s.teamId }));
+
+  const eliminated = seeding.filter((s) => !s.isPlayoffTeam).map((s) => s.teamId);
+  if (league.playoffConsolation === "consolation" || league.playoffConsolation === "toilet_bowl") {
+    const ordered = league.playoffConsolation === "toilet_bowl" ? [...eliminated].reverse() : eliminated;
+    ordered.forEach((teamId, index) => {
+      rows.push({ leagueId: league.id, year, bracket: league.playoffConsolation, seed: index + 1, teamId });
+    });
+  }
+
+  if (rows.length > 0) {
+    await db.insert(playoffSeeds).values(rows).onConflictDoNothing();
+  }
+  return db
+    .select()
+    .from(playoffSeeds)
+    .where(and(eq(playoffSeeds.leagueId, league.id), eq(playoffSeeds.year, year)));
+}
+
+async function loadPlayoffState(db: Database, leagueId: number, year: number) {
+  const [seeds, playoffMatchups] = await Promise.all([
+    db
+      .select()
+      .from(playoffSeeds)
+      .where(and(eq(playoffSeeds.leagueId, leagueId), eq(playoffSeeds.year, year)))
+      .orderBy(asc(playoffSeeds.seed)),
+    db
+      .select()
+      .from(matchups)
+      .where(and(eq(matchups.leagueId, leagueId), eq(matchups.year, year), isNotNull(matchups.playoffBracket))),
+  ]);
+  return { seeds, playoffMatchups };
+}
+
+function getBrackets(seeds: SeedRow[]): PlayoffBracketKind[] {
+  return (["winners", "consolation", "toilet_bowl"] as const).filter((bracket) =>
+    seeds.some((s) => s.bracket === bracket)
+  );
+}
+
+/**
+ * Every bracket of a league season, resolved for display
+ */
+export async function getPlayoffBrackets(leagueId: number, year: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!league) throw new Error("League not found");
+
+  const { seeds, playoffMatchups } = await loadPlayoffState(db, leagueId, year);
+  const leagueTeams = await db
+    .select({ id: teams.id, name: teams.name })
+    .from(teams)
+    .where(eq(teams.leagueId, leagueId));
+  const teamNames = new Map(leagueTeams.map((t) => [t.id, t.name]));
+
+  return getBrackets(seeds).map((bracket) => {
+    const state = resolveBracket(
+      league,
+      bracket,
+      seeds.filter((s) => s.bracket === bracket),
+      playoffMatchups.filter((m) => m.playoffBracket === bracket)
+    );
+    const final = state.rounds[state.rounds.length - 1]?.slots[0];
+    return {
+      bracket,
+      label: BRACKET_LABELS[bracket],
+      isComplete: state.isComplete,
+      // Champion of the bracket; for the toilet bowl the team left holding the last place
+      winnerTeamId: state.isComplete ? final?.advancingTeamId ?? null : null,
+      rounds: state.rounds.map((round) => ({
+        ...round,
+        slots: round.slots.map(({ legs, ...slot }) => ({
+          ...slot,
+          matchupIds: legs.map((m) => m.id),
+          team1Name: slot.team1 ? teamNames.get(slot.team1.teamId) ?? "Unknown Team" : null,
+          team2Name: slot.team2 ? teamNames.get(slot.team2.teamId) ?? "Unknown Team" : null,
+        })),
+      })),
+    };
+  });
+}
+
+/**
+ * Seed the postseason once every regular season matchup is final and schedule
+ * each round as soon as the round before it is decided. Leagues are marked
+ * complete when every bracket has finished.
+ */
+export async function advancePlayoffs(leagueId: number, options: { force?: boolean } = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!league) throw new Error("League not found");
+  if (league.leagueType !== "season") return { created: 0, isComplete: false };
+
+  const year = league.seasonYear;
+  let { seeds, playoffMatchups } = await loadPlayoffState(db, leagueId, year);
+
+  if (seeds.length === 0) {
+    const regularSeason = await db
+      .select({ status: matchups.status })
+      .from(matchups)
+      .where(and(
+        eq(matchups.leagueId, leagueId),
+        eq(matchups.year, year),
+        lt(matchups.week, league.playoffStartWeek),
+        isNull(matchups.playoffBracket)
+      ));
+    const seasonOver = regularSeason.length > 0 && regularSeason.every((m) => m.status === "final");
+    if (!seasonOver && !options.force) return { created: 0, isComplete: false };
+
+    seeds = await seedPlayoffs(db, league, year);
+    if (seeds.length === 0) return { created: 0, isComplete: false };
+  }
+
+  const newWeeks = new Set<number>();
+  let created = 0;
+  let isComplete = true;
+  for (const bracket of getBrackets(seeds)) {
+    const state = resolveBracket(
+      league,
+      bracket,
+      seeds.filter((s) => s.bracket === bracket),
+      playoffMatchups.filter((m) => m.playoffBracket === bracket)
+    );
+    if (!state.isComplete) isComplete = false;
+    if (state.toCreate.length === 0) continue;
+
+    // A concurrent run may have scheduled the same slots already; only count what we inserted
+    const inserted = await db.insert(matchups).values(
+      state.toCreate.map((m) => ({
+        leagueId,
+        year,
+        week: m.week,
+        team1Id: m.team1Id,
+        team2Id: m.team2Id,
+        team1Score: 0,
+        team2Score: 0,
+        winnerId: null,
+        status: "scheduled",
+        playoffBracket: bracket,
+        playoffRound: m.round,
+        bracketSlot: m.slot,
+        playoffLeg: m.leg,
+      }))
+    ).onConflictDoNothing().returning({ week: matchups.week });
+    created += inserted.length;
+    inserted.forEach((m) => newWeeks.add(m.week));
+  }
+
+  for (const week of Array.from(newWeeks)) {
+    try {
+      await autoPopulateLeagueLineups(leagueId, year, week);
+    } catch (error) {
+      console.error(`[PlayoffService] Week ${week}: Error auto-populating lineups:`, error);
+    }
+  }
+
+  if (created > 0) {
+    wsManager.broadcastToLeague(leagueId, { type: "playoffs_advanced", leagueId, matchupsCreated: created });
+  }
+
+  if (isComplete && league.status === "active") {
+    await db.update(leagues).set({ status: "complete" }).where(eq(leagues.id, leagueId));
+  }
+
+  return { created, isComplete };
+}
@@ -0,0 +1,171 @@
+/**
+ * Price Alert Evaluation
+ *
+ * Checks every untriggered price alert against the current score after each
+ * price update, marks the ones whose condition is met and delivers them over
+ * WebSocket and, when opted in, by email. Alerts fire once.
+ */
+
+import { getDb } from "./db";
+import { priceAlerts } from "../drizzle/stockMarketSchema";
+import { users } from "../drizzle/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { getCurrentPrice, getPriceHistory } from "./stockPricingEngine";
+import { wsManager } from "./websocket";
+import { sendPriceAlertNotification } from "./emailService";
+
+export const PRICE_ALERT_CONDITIONS = ['above', 'below', 'percent_change', 'new_high'] as const;
+export type PriceAlertCondition = (typeof PRICE_ALERT_CONDITIONS)[number];
+
+type PriceAlertRow = typeof priceAlerts.$inferSelect;
+
+const HIGH_LOOKBACK_DAYS = 364;
+
+/**
+ * Highest price of the 52 weeks before today, or null without history. Read
+ * from the score series getCurrentPrice quotes, not the stockPrices bars.
+ */
+async function getPrior52WeekHigh(assetType: string, assetId: number): Promise<number | null> {
+    const since = new Date();
+    since.setDate(since.getDate() - HIGH_LOOKBACK_DAYS);
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    const history = await getPriceHistory(
+        assetType,
+        assetId,
+        since.toISOString().split('T')[0],
+        yesterday.toISOString().split('T')[0],
+    );
+    return history.length > 0 ? Math.max(...history.map(day => day.price)) : null;
+}
+
+/**
+ * Whether an alert's condition holds at the given price
+ */
+export function isAlertConditionMet(
+    alert: Pick<PriceAlertRow, 'direction' | 'targetScore' | 'referencePrice'>,
+    price: number,
+    prior52WeekHigh: number | null,
+): boolean {
+    const target = Number(alert.targetScore);
+    switch (alert.direction as PriceAlertCondition) {
+        case 'above':
+            return price >= target;
+        case 'below':
+            return price <= target;
+        case 'percent_change': {
+            const reference = Number(alert.referencePrice);
+            if (!reference) return false;
+            return Math.abs((price - reference) / reference) * 100 >= target;
+        }
+        case 'new_high':
+            return prior52WeekHigh !== null && price > prior52WeekHigh;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Human-readable condition, used in notifications
+ */
+export function describeAlertCondition(alert: Pick<PriceAlertRow, 'direction' | 'targetScore' | 'referencePrice'>) {
+    const target = Number(alert.targetScore);
+    switch (alert.direction as PriceAlertCondition) {
+        case 'above':
+            return `score at or above ${target} pts`;
+        case 'below':
+            return `score at or below ${target} pts`;
+        case 'percent_change':
+            return `score moves ${target}% from ${Number(alert.referencePrice)} pts`;
+        case 'new_high':
+            return 'score at a new 52-week high';
+        default:
+            return alert.direction;
+    }
+}
+
+/**
+ * Evaluate all active alerts. Runs after every price update.
+ */
+export async function evaluatePriceAlerts() {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const activeAlerts = await db
+        .select()
+        .from(priceAlerts)
+        .where(eq(priceAlerts.isTriggered, false));
+    if (activeAlerts.length === 0) return { evaluated: 0, triggered: 0 };
+
+    // One price (and 52-week high) lookup per asset, however many alerts watch it
+    const assetKeys = Array.from(new Set(activeAlerts.map(a => `${a.assetType}-${a.assetId}`)));
+    const prices = new Map<string, { price: number; prior52WeekHigh: number | null }>();
+    for (const key of assetKeys) {
+        const alert = activeAlerts.find(a => `${a.assetType}-${a.assetId}` === key)!;
+        const watchesHigh = activeAlerts.some(a => `${a.assetType}-${a.assetId}` === key && a.direction === 'new_high');
+        prices.set(key, {
+            price: await getCurrentPrice(alert.assetType, alert.assetId),
+            prior52WeekHigh: watchesHigh ? await getPrior52WeekHigh(alert.assetType, alert.assetId) : null,
+        });
+    }
+
+    const now = new Date().toISOString();
+    const triggered: Array<PriceAlertRow & { price: number }> = [];
+    for (const alert of activeAlerts) {
+        const { price, prior52WeekHigh } = prices.get(`${alert.assetType}-${alert.assetId}`)!;
+        if (!isAlertConditionMet(alert, price, prior52WeekHigh)) continue;
+
+        // Guarded on isTriggered so overlapping runs deliver an alert only once
+        const [updated] = await db
+            .update(priceAlerts)
+            .set({ isTriggered: true, triggeredAt: now, triggeredPrice: String(price) })
+            .where(and(eq(priceAlerts.id, alert.id), eq(priceAlerts.isTriggered, false)))
+            .returning({ id: priceAlerts.id });
+        if (updated) triggered.push({ ...alert, price });
+    }
+
+    await deliverPriceAlerts(triggered, now);
+
+    console.log(`[PriceAlerts] Evaluated ${activeAlerts.length} alerts, triggered ${triggered.length}`);
+    return { evaluated: activeAlerts.length, triggered: triggered.length };
+}
+
+async function deliverPriceAlerts(triggered: Array<PriceAlertRow & { price: number }>, triggeredAt: string) {
+    const db = await getDb();
+    if (!db || triggered.length === 0) return;
+
+    const emailUserIds = Array.from(new Set(triggered.filter(a => a.notifyEmail).map(a => a.userId)));
+    const recipients = emailUserIds.length > 0
+        ? await db
+            .select({ id: users.id, name: users.name, email: users.email })
+            .from(users)
+            .where(inArray(users.id, emailUserIds))
+        : [];
+
+    for (const alert of triggered) {
+        const condition = describeAlertCondition(alert);
+        wsManager.notifyUser(alert.userId, {
+            type: 'price_alert',
+            alertId: alert.id,
+            assetType: alert.assetType,
+            assetId: alert.assetId,
+            assetName: alert.assetName,
+            direction: alert.direction,
+            condition,
+            price: alert.price,
+            triggeredAt,
+        });
+
+        const recipient = alert.notifyEmail ? recipients.find(u => u.id === alert.userId) : undefined;
+        if (recipient?.email) {
+            await sendPriceAlertNotification({
+                toEmail: recipient.email,
+                toName: recipient.name || 'Trader',
+                assetName: alert.assetName || `#${alert.assetId}`,
+                condition,
+                price: alert.price,
+            });
+        }
+    }
+}
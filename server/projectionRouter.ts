@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, protectedProcedure, router } from "./_core/trpc";
+import { getDb } from "./db";
+import {
+  PROJECTION_ASSET_TYPES,
+  generateProjections,
+  getProjectionBacktest,
+  getProjectionsForAssets,
+} from "./projectionService";
+
+const assetTypeSchema = z.enum(PROJECTION_ASSET_TYPES);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * Projection Router
+ *
+ * Next-day and next-week point projections per asset, and a backtest of
+ * stored projections against actual daily challenge scoring.
+ */
+export const projectionRouter = router({
+  /**
+   * Latest projections for a set of assets
+   */
+  getProjections: protectedProcedure
+    .input(
+      z.object({
+        assets: z.array(z.object({ assetType: assetTypeSchema, assetId: z.number() })).max(500),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      }
+
+      const { projectionDate, projections } = await getProjectionsForAssets(db, input.assets);
+      return {
+        projectionDate,
+        projections: projections.map((p) => ({
+          assetType: p.assetType,
+          assetId: p.assetId,
+          nextDayPoints: p.nextDayPoints,
+          nextWeekPoints: p.nextWeekPoints,
+          basedOnDate: p.basedOnDate,
+          signals: p.signals as Record<string, number>,
+        })),
+      };
+    }),
+
+  /**
+   * Projection accuracy against dailyScoringBreakdowns over a date range (defaults to the last 30 days)
+   */
+  getBacktest: protectedProcedure
+    .input(
+      z.object({
+        startDate: dateSchema.optional(),
+        endDate: dateSchema.optional(),
+        assetType: assetTypeSchema.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const endDate = input.endDate ?? new Date().toISOString().split("T")[0];
+      const startDate =
+        input.startDate ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+      if (startDate > endDate) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "startDate must be before endDate" });
+      }
+
+      return getProjectionBacktest({ startDate, endDate, assetType: input.assetType });
+    }),
+
+  /**
+   * Recompute projections from the stats up to a date (admin)
+   */
+  generate: adminProcedure
+    .input(z.object({ asOfDate: dateSchema }))
+    .mutation(async ({ input }) => {
+      return generateProjections(input.asOfDate);
+    }),
+});
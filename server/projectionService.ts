@@ -0,0 +1,362 @@
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { getDb } from "./db";
+import {
+  assetProjections,
+  brandDailyStats,
+  cannabisStrainDailyStats,
+  dailyScoringBreakdowns,
+  dailyTeamScores,
+  manufacturerDailyStats,
+  pharmacyDailyStats,
+  strainDailyStats,
+} from "../drizzle/schema";
+import { getAssetName, type Database } from "./assetNames";
+import {
+  calculateConsistencyScore,
+  calculateStreakMultiplier,
+  calculateTrendMultiplier,
+  calculateVelocityScore,
+} from "./trendScoringEngine";
+
+export const PROJECTION_ASSET_TYPES = ["manufacturer", "cannabis_strain", "product", "pharmacy", "brand"] as const;
+export type ProjectionAssetType = (typeof PROJECTION_ASSET_TYPES)[number];
+
+export interface ProjectionSignals {
+  sampleDays: number;
+  recentAverage: number;
+  longAverage: number;
+  trendMultiplier: number;
+  consistencyScore: number;
+  velocityScore: number;
+  streakDays: number;
+  /** Combined share the signals move the base projection by */
+  adjustment: number;
+}
+
+export interface ProjectedPoints {
+  nextDayPoints: number;
+  nextWeekPoints: number;
+  signals: ProjectionSignals;
+}
+
+const HISTORY_DAYS = 14;
+const RECENT_DAYS = 7;
+/** Share of the raw trend multiplier that carries into the projection */
+const TREND_WEIGHT = 0.1;
+/** Velocity scores run from -50 to 100, so this caps their effect at ±20% */
+const VELOCITY_SCALE = 500;
+const STREAK_WEIGHT = 0.1;
+const MAX_ADJUSTMENT = 0.25;
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Daily points per asset type between two stat dates. Products score from the strain stats tables.
+ */
+const DAILY_HISTORY: Record<
+  ProjectionAssetType,
+  (db: Database, since: string, until: string) => Promise<Array<{ assetId: number; statDate: string; points: number }>>
+> = {
+  manufacturer: (db, since, until) =>
+    db
+      .select({ assetId: manufacturerDailyStats.manufacturerId, statDate: manufacturerDailyStats.statDate, points: manufacturerDailyStats.totalPoints })
+      .from(manufacturerDailyStats)
+      .where(and(gte(manufacturerDailyStats.statDate, since), lte(manufacturerDailyStats.statDate, until))),
+  cannabis_strain: (db, since, until) =>
+    db
+      .select({ assetId: cannabisStrainDailyStats.cannabisStrainId, statDate: cannabisStrainDailyStats.statDate, points: cannabisStrainDailyStats.totalPoints })
+      .from(cannabisStrainDailyStats)
+      .where(and(gte(cannabisStrainDailyStats.statDate, since), lte(cannabisStrainDailyStats.statDate, until))),
+  product: (db, since, until) =>
+    db
+      .select({ assetId: strainDailyStats.strainId, statDate: strainDailyStats.statDate, points: strainDailyStats.totalPoints })
+      .from(strainDailyStats)
+      .where(and(gte(strainDailyStats.statDate, since), lte(strainDailyStats.statDate, until))),
+  pharmacy: (db, since, until) =>
+    db
+      .select({ assetId: pharmacyDailyStats.pharmacyId, statDate: pharmacyDailyStats.statDate, points: pharmacyDailyStats.totalPoints })
+      .from(pharmacyDailyStats)
+      .where(and(gte(pharmacyDailyStats.statDate, since), lte(pharmacyDailyStats.statDate, until))),
+  brand: (db, since, until) =>
+    db
+      .select({ assetId: brandDailyStats.brandId, statDate: brandDailyStats.statDate, points: brandDailyStats.totalPoints })
+      .from(brandDailyStats)
+      .where(and(gte(brandDailyStats.statDate, since), lte(brandDailyStats.statDate, until))),
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const mean = (values: number[]) => (values.length > 0 ? sum(values) / values.length : 0);
+
+function shiftDate(date: string, days: number) {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * Project the next day and the next seven days from daily points, most recent day first.
+ *
+ * Consistent assets are projected from their last week, volatile ones regress
+ * toward their two-week average. Trend, velocity and an above-average streak
+ * then move that base by at most MAX_ADJUSTMENT. Over the week the momentum
+ * fades back toward the two-week average.
+ */
+export function projectFromHistory(dailyPoints: number[]): ProjectedPoints {
+  const history = dailyPoints.slice(0, HISTORY_DAYS);
+  const recent = history.slice(0, RECENT_DAYS);
+  const recentAverage = mean(recent);
+  const longAverage = mean(history);
+
+  const consistencyScore = calculateConsistencyScore(recent);
+  const consistencyWeight = consistencyScore / 100;
+  const base = consistencyWeight * recentAverage + (1 - consistencyWeight) * longAverage;
+
+  const days1 = history[0] ?? 0;
+  const trendMultiplier = history.length > 1 ? calculateTrendMultiplier(days1, sum(history.slice(1, 8))) : 1;
+  const velocityScore = calculateVelocityScore(days1, sum(recent), sum(history));
+
+  let streakDays = 0;
+  while (streakDays < history.length && history[streakDays] > 0 && history[streakDays] >= longAverage) {
+    streakDays++;
+  }
+
+  const adjustment = Math.min(
+    Math.max(
+      (trendMultiplier - 1) * TREND_WEIGHT
+        + velocityScore / VELOCITY_SCALE
+        + (calculateStreakMultiplier(streakDays) - 1) * STREAK_WEIGHT,
+      -MAX_ADJUSTMENT
+    ),
+    MAX_ADJUSTMENT
+  );
+
+  const nextDay = Math.max(0, base * (1 + adjustment));
+  const laterDays = (nextDay + longAverage) / 2;
+
+  return {
+    nextDayPoints: Math.round(nextDay),
+    nextWeekPoints: Math.round(nextDay + laterDays * (RECENT_DAYS - 1)),
+    signals: {
+      sampleDays: history.length,
+      recentAverage: round1(recentAverage),
+      longAverage: round1(longAverage),
+      trendMultiplier: Math.round(trendMultiplier * 100) / 100,
+      consistencyScore,
+      velocityScore,
+      streakDays,
+      adjustment: Math.round(adjustment * 1000) / 1000,
+    },
+  };
+}
+
+/**
+ * Project every asset with stats in the two weeks up to `asOfDate` and store
+ * the result for the following day. Re-running a date overwrites its projections.
+ */
+export async function generateProjections(asOfDate: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const since = shiftDate(asOfDate, -(HISTORY_DAYS - 1));
+  const projectionDate = shiftDate(asOfDate, 1);
+  const now = new Date().toISOString();
+  const counts: Record<string, number> = {};
+
+  for (const assetType of PROJECTION_ASSET_TYPES) {
+    const rows = await DAILY_HISTORY[assetType](db, since, asOfDate);
+
+    const pointsByAsset = new Map<number, Array<{ statDate: string; points: number }>>();
+    for (const row of rows) {
+      const days = pointsByAsset.get(row.assetId) ?? [];
+      days.push({ statDate: row.statDate, points: row.points });
+      pointsByAsset.set(row.assetId, days);
+    }
+
+    const values = Array.from(pointsByAsset.keys()).map((assetId) => {
+      const days = pointsByAsset.get(assetId)!.sort((a, b) => b.statDate.localeCompare(a.statDate));
+      const projection = projectFromHistory(days.map((d) => d.points));
+      return {
+        assetType,
+        assetId,
+        projectionDate,
+        basedOnDate: days[0].statDate,
+        nextDayPoints: projection.nextDayPoints,
+        nextWeekPoints: projection.nextWeekPoints,
+        signals: projection.signals,
+        updatedAt: now,
+      };
+    });
+
+    for (let i = 0; i < values.length; i += UPSERT_BATCH_SIZE) {
+      const batch = values.slice(i, i + UPSERT_BATCH_SIZE);
+      await db
+        .insert(assetProjections)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: [assetProjections.assetType, assetProjections.assetId, assetProjections.projectionDate],
+          set: {
+            basedOnDate: sql`excluded."basedOnDate"`,
+            nextDayPoints: sql`excluded."nextDayPoints"`,
+            nextWeekPoints: sql`excluded."nextWeekPoints"`,
+            signals: sql`excluded."signals"`,
+            updatedAt: now,
+          },
+        });
+    }
+    counts[assetType] = values.length;
+  }
+
+  console.log(`[ProjectionService] Stored projections for ${projectionDate}:`, counts);
+  return { projectionDate, counts };
+}
+
+/**
+ * Most recent projection date, or null before the first run
+ */
+export async function getLatestProjectionDate(db: Database) {
+  const [latest] = await db
+    .select({ projectionDate: assetProjections.projectionDate })
+    .from(assetProjections)
+    .orderBy(desc(assetProjections.projectionDate))
+    .limit(1);
+  return latest?.projectionDate ?? null;
+}
+
+/**
+ * Latest projection for each of the given assets
+ */
+export async function getProjectionsForAssets(
+  db: Database,
+  assets: Array<{ assetType: string; assetId: number }>
+) {
+  const projectionDate = await getLatestProjectionDate(db);
+  if (!projectionDate || assets.length === 0) return { projectionDate, projections: [] };
+
+  const projections: Array<typeof assetProjections.$inferSelect> = [];
+  for (const assetType of PROJECTION_ASSET_TYPES) {
+    const ids = assets.filter((a) => a.assetType === assetType).map((a) => a.assetId);
+    if (ids.length === 0) continue;
+    projections.push(
+      ...(await db
+        .select()
+        .from(assetProjections)
+        .where(
+          and(
+            eq(assetProjections.projectionDate, projectionDate),
+            eq(assetProjections.assetType, assetType),
+            inArray(assetProjections.assetId, ids)
+          )
+        ))
+    );
+  }
+  return { projectionDate, projections };
+}
+
+interface ErrorStats {
+  samples: number;
+  meanAbsoluteError: number;
+  /** Average of projected minus actual; positive means projections run high */
+  bias: number;
+  rootMeanSquaredError: number;
+}
+
+function summarizeErrors(errors: number[]): ErrorStats {
+  return {
+    samples: errors.length,
+    meanAbsoluteError: round1(mean(errors.map(Math.abs))),
+    bias: round1(mean(errors)),
+    rootMeanSquaredError: round1(Math.sqrt(mean(errors.map((e) => e * e)))),
+  };
+}
+
+/**
+ * Compare stored next-day projections with the points assets actually scored
+ * in daily challenges (dailyScoringBreakdowns) over a date range.
+ */
+export async function getProjectionBacktest(options: {
+  startDate: string;
+  endDate: string;
+  assetType?: ProjectionAssetType;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [actualRows, projectionRows] = await Promise.all([
+    db
+      .select({
+        assetType: dailyScoringBreakdowns.assetType,
+        assetId: dailyScoringBreakdowns.assetId,
+        statDate: dailyTeamScores.statDate,
+        points: dailyScoringBreakdowns.totalPoints,
+      })
+      .from(dailyScoringBreakdowns)
+      .innerJoin(dailyTeamScores, eq(dailyScoringBreakdowns.dailyTeamScoreId, dailyTeamScores.id))
+      .where(
+        and(
+          gte(dailyTeamScores.statDate, options.startDate),
+          lte(dailyTeamScores.statDate, options.endDate),
+          options.assetType ? eq(dailyScoringBreakdowns.assetType, options.assetType) : undefined
+        )
+      ),
+    db
+      .select()
+      .from(assetProjections)
+      .where(
+        and(
+          gte(assetProjections.projectionDate, options.startDate),
+          lte(assetProjections.projectionDate, options.endDate),
+          options.assetType ? eq(assetProjections.assetType, options.assetType) : undefined
+        )
+      ),
+  ]);
+
+  // The same asset can be rostered in several challenges on one day
+  const actuals = new Map<string, number[]>();
+  for (const row of actualRows) {
+    const key = `${row.assetType}:${row.assetId}:${row.statDate}`;
+    const points = actuals.get(key) ?? [];
+    points.push(row.points);
+    actuals.set(key, points);
+  }
+
+  const compared = projectionRows
+    .filter((p) => actuals.has(`${p.assetType}:${p.assetId}:${p.projectionDate}`))
+    .map((p) => {
+      const actual = mean(actuals.get(`${p.assetType}:${p.assetId}:${p.projectionDate}`)!);
+      return {
+        assetType: p.assetType,
+        assetId: p.assetId,
+        date: p.projectionDate,
+        projected: p.nextDayPoints,
+        actual: round1(actual),
+        error: p.nextDayPoints - actual,
+      };
+    });
+
+  const byAssetType = PROJECTION_ASSET_TYPES
+    .map((assetType) => ({
+      assetType,
+      ...summarizeErrors(compared.filter((c) => c.assetType === assetType).map((c) => c.error)),
+    }))
+    .filter((summary) => summary.samples > 0);
+
+  const worstMisses = await Promise.all(
+    [...compared]
+      .sort((a, b) => Math.abs(b.error) - Math.abs(a.error))
+      .slice(0, 10)
+      .map(async (c) => ({
+        ...c,
+        error: round1(c.error),
+        assetName: await getAssetName(db, c.assetType, c.assetId),
+      }))
+  );
+
+  return {
+    startDate: options.startDate,
+    endDate: options.endDate,
+    projectionsStored: projectionRows.length,
+    overall: summarizeErrors(compared.map((c) => c.error)),
+    byAssetType,
+    worstMisses,
+  };
+}
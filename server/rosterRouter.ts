@@ -2,7 +2,38 @@ import { z } from "zod";
 import { eq, and } from "drizzle-orm";
 import { protectedProcedure, router } from "./_core/trpc";
 import { getDb } from "./db";
-import { rosters, manufacturers, cannabisStrains, strains, pharmacies, brands } from "../drizzle/schema";
+import { rosters, teams, leagues, manufacturers, cannabisStrains, strains, pharmacies, brands } from "../drizzle/schema";
+import { placeOnWaivers } from "./waiverService";
+import { clearKeeperDesignation } from "./keeperService";
+
+/**
+ * Per-position roster limits as reported by getRosterNeeds
+ */
+export function calculateRosterNeeds(entries: Array<{ assetType: string }>) {
+  // Count by asset type
+  const counts = {
+    manufacturer: 0,
+    cannabis_strain: 0,
+    product: 0,
+    pharmacy: 0,
+    brand: 0,
+  };
+
+  entries.forEach((entry) => {
+    if (entry.assetType in counts) {
+      counts[entry.assetType as keyof typeof counts]++;
+    }
+  });
+
+  return {
+    manufacturer: { current: counts.manufacturer, max: 2 },
+    cannabis_strain: { current: counts.cannabis_strain, max: 2 },
+    product: { current: counts.product, max: 2 },
+    pharmacy: { current: counts.pharmacy, max: 2 },
+    brand: { current: counts.brand, max: 1 },
+    flex: { current: 0, max: 1 }, // TODO: Calculate flex from lineup
+  };
+}
 
 /**
  * Roster Router
@@ -127,29 +158,7 @@ export const rosterRouter = router({
         .from(rosters)
         .where(eq(rosters.teamId, input.teamId));
 
-      // Count by asset type
-      const counts = {
-        manufacturer: 0,
-        cannabis_strain: 0,
-        product: 0,
-        pharmacy: 0,
-        brand: 0,
-      };
-
-      rosterEntries.forEach((entry) => {
-        if (entry.assetType in counts) {
-          counts[entry.assetType as keyof typeof counts]++;
-        }
-      });
-
-      return {
-        manufacturer: { current: counts.manufacturer, max: 2 },
-        cannabis_strain: { current: counts.cannabis_strain, max: 2 },
-        product: { current: counts.product, max: 2 },
-        pharmacy: { current: counts.pharmacy, max: 2 },
-        brand: { current: counts.brand, max: 1 },
-        flex: { current: 0, max: 1 }, // TODO: Calculate flex from lineup
-      };
+      return calculateRosterNeeds(rosterEntries);
     }),
 
   /**
@@ -196,7 +205,26 @@ export const rosterRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [entry] = await db
+        .select()
+        .from(rosters)
+        .where(eq(rosters.id, input.rosterId))
+        .limit(1);
+      if (!entry) return { success: true };
+
       await db.delete(rosters).where(eq(rosters.id, input.rosterId));
+      await clearKeeperDesignation(db, entry.teamId, entry.assetType, entry.assetId);
+
+      // Dropped assets go through waivers before anyone can add them
+      const [league] = await db
+        .select({ id: leagues.id, waiverPeriodDays: leagues.waiverPeriodDays })
+        .from(teams)
+        .innerJoin(leagues, eq(leagues.id, teams.leagueId))
+        .where(eq(teams.id, entry.teamId))
+        .limit(1);
+      if (league) {
+        await placeOnWaivers(db, league, entry.teamId, entry.assetType, entry.assetId);
+      }
 
       return { success: true };
     }),
@@ -20,6 +20,8 @@ import { debugRouter } from "./debugRouter";
 import { leaderboardRouter } from "./leaderboardRouter";
 import { waiverRouter } from "./waiverRouter";
 import { tradeRouter } from "./tradeRouter";
+import { keeperRouter } from "./keeperRouter";
+import { divisionRouter } from "./divisionRouter";
 import { recapRouter } from "./recapRouter";
 import { achievementRouter } from "./achievementRouter";
 import { chatRouter } from "./chatRouter";
@@ -27,8 +29,11 @@ import { favoriteRouter } from "./favoriteRouter";
 import { dailySummaryRouter } from "./dailySummaryRouter";
 import { publicModeRouter } from "./publicModeRouter";
 import { stockMarketRouter } from "./routes/stockMarketRouter";
+import { marketLeagueRouter } from "./routes/marketLeagueRouter";
 import { portfolioDuelsRouter } from "./portfolioDuelsRouter";
 import { tycoonRouter } from "./routers/tycoonRouter";
+import { projectionRouter } from "./projectionRouter";
+import { mockDraftRouter } from "./mockDraftRouter";
 
 
 export const appRouter = router({
@@ -64,6 +69,8 @@ export const appRouter = router({
   leaderboard: leaderboardRouter,
   waiver: waiverRouter,
   trade: tradeRouter,
+  keeper: keeperRouter,
+  division: divisionRouter,
   recap: recapRouter,
   achievement: achievementRouter,
 
@@ -72,7 +79,10 @@ export const appRouter = router({
   dailySummary: dailySummaryRouter,
   publicMode: publicModeRouter,
   stockMarket: stockMarketRouter,
+  marketLeague: marketLeagueRouter,
   duels: portfolioDuelsRouter,
+  projection: projectionRouter,
+  mockDraft: mockDraftRouter,
 
   // Dispensary Tycoon Game
   tycoon: tycoonRouter,
@@ -0,0 +1,226 @@
+/**
+ * Market League Router
+ *
+ * Private stock market competitions. Members join with an invite code and
+ * trade a league-scoped portfolio (see stockMarketRouter's marketLeagueId
+ * inputs) from the league's bankroll between its start and end date.
+ */
+
+import { z } from 'zod';
+import { router, protectedProcedure } from '../_core/trpc';
+import { getDb } from '../db';
+import { marketLeagues, marketLeagueMembers, userPortfolios } from '../../drizzle/stockMarketSchema';
+import { users } from '../../drizzle/schema';
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+const MARKET_ASSET_TYPES = ['product', 'strain', 'manufacturer', 'pharmacy'] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+function generateInviteCode(): string {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude similar-looking characters
+    let code = '';
+    for (let i = 0; i < 6; i++) {
+        code += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return code;
+}
+
+function getSeasonStatus(league: { startDate: string; endDate: string }) {
+    const today = new Date().toISOString().split('T')[0];
+    if (today < league.startDate) return 'upcoming' as const;
+    if (today > league.endDate) return 'ended' as const;
+    return 'active' as const;
+}
+
+export const marketLeagueRouter = router({
+    /**
+     * Create a market league. The creator joins it right away.
+     */
+    create: protectedProcedure
+        .input(z.object({
+            name: z.string().min(3).max(100),
+            startingBankroll: z.number().min(10).max(1000000).default(100),
+            startDate: isoDate,
+            endDate: isoDate,
+            allowedAssetTypes: z.array(z.enum(MARKET_ASSET_TYPES)).min(1),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+
+            const today = new Date().toISOString().split('T')[0];
+            if (input.endDate <= input.startDate) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'The season must end after it starts' });
+            }
+            if (input.endDate < today) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'The season cannot end in the past' });
+            }
+
+            // Ensure code is unique
+            let inviteCode = generateInviteCode();
+            let codeExists = true;
+            while (codeExists) {
+                const existing = await db
+                    .select({ id: marketLeagues.id })
+                    .from(marketLeagues)
+                    .where(eq(marketLeagues.inviteCode, inviteCode))
+                    .limit(1);
+                if (existing.length === 0) {
+                    codeExists = false;
+                } else {
+                    inviteCode = generateInviteCode();
+                }
+            }
+
+            const [league] = await db
+                .insert(marketLeagues)
+                .values({
+                    name: input.name,
+                    ownerId: ctx.user.id,
+                    inviteCode,
+                    startingBankroll: String(input.startingBankroll),
+                    startDate: input.startDate,
+                    endDate: input.endDate,
+                    allowedAssetTypes: Array.from(new Set(input.allowedAssetTypes)),
+                })
+                .returning();
+
+            await db.insert(marketLeagueMembers).values({ marketLeagueId: league.id, userId: ctx.user.id });
+            await db.insert(userPortfolios).values({
+                userId: ctx.user.id,
+                marketLeagueId: league.id,
+                cashBalance: league.startingBankroll,
+                totalValue: league.startingBankroll,
+            });
+
+            return {
+                success: true,
+                message: `Created ${league.name}. Invite code: ${league.inviteCode}`,
+                marketLeagueId: league.id,
+                inviteCode: league.inviteCode,
+            };
+        }),
+
+    /**
+     * Join a market league by invite code and receive its starting bankroll
+     */
+    join: protectedProcedure
+        .input(z.object({
+            inviteCode: z.string().min(1).max(10),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+
+            const [league] = await db
+                .select()
+                .from(marketLeagues)
+                .where(eq(marketLeagues.inviteCode, input.inviteCode.trim().toUpperCase()))
+                .limit(1);
+
+            if (!league) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'No market league with this invite code' });
+            }
+            if (getSeasonStatus(league) === 'ended') {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: `${league.name} has already ended` });
+            }
+
+            const [member] = await db
+                .insert(marketLeagueMembers)
+                .values({ marketLeagueId: league.id, userId: ctx.user.id })
+                .onConflictDoNothing()
+                .returning();
+
+            if (!member) {
+                return { success: true, message: `You are already in ${league.name}`, marketLeagueId: league.id };
+            }
+
+            await db
+                .insert(userPortfolios)
+                .values({
+                    userId: ctx.user.id,
+                    marketLeagueId: league.id,
+                    cashBalance: league.startingBankroll,
+                    totalValue: league.startingBankroll,
+                })
+                .onConflictDoNothing();
+
+            return { success: true, message: `Joined ${league.name}`, marketLeagueId: league.id };
+        }),
+
+    /**
+     * Market leagues the user belongs to
+     */
+    getMyLeagues: protectedProcedure.query(async ({ ctx }) => {
+        const db = await getDb();
+        if (!db) return [];
+
+        const memberships = await db
+            .select({ marketLeagueId: marketLeagueMembers.marketLeagueId })
+            .from(marketLeagueMembers)
+            .where(eq(marketLeagueMembers.userId, ctx.user.id));
+        if (memberships.length === 0) return [];
+
+        const leagueIds = memberships.map(m => m.marketLeagueId);
+        const leagues = await db
+            .select({
+                league: marketLeagues,
+                memberCount: sql<number>`(select count(*)::int from ${marketLeagueMembers} where ${marketLeagueMembers.marketLeagueId} = ${marketLeagues.id})`,
+            })
+            .from(marketLeagues)
+            .where(inArray(marketLeagues.id, leagueIds))
+            .orderBy(asc(marketLeagues.endDate));
+
+        return leagues.map(({ league, memberCount }) => ({
+            ...league,
+            startingBankroll: Number(league.startingBankroll),
+            memberCount,
+            isOwner: league.ownerId === ctx.user.id,
+            status: getSeasonStatus(league),
+        }));
+    }),
+
+    /**
+     * League details with its members (members only)
+     */
+    getLeague: protectedProcedure
+        .input(z.object({
+            marketLeagueId: z.number(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+
+            const [league] = await db
+                .select()
+                .from(marketLeagues)
+                .where(eq(marketLeagues.id, input.marketLeagueId))
+                .limit(1);
+            if (!league) throw new TRPCError({ code: 'NOT_FOUND', message: 'Market league not found' });
+
+            const members = await db
+                .select({
+                    userId: marketLeagueMembers.userId,
+                    name: users.name,
+                    joinedAt: marketLeagueMembers.joinedAt,
+                })
+                .from(marketLeagueMembers)
+                .leftJoin(users, eq(marketLeagueMembers.userId, users.id))
+                .where(eq(marketLeagueMembers.marketLeagueId, league.id))
+                .orderBy(asc(marketLeagueMembers.joinedAt));
+
+            if (!members.some(m => m.userId === ctx.user.id)) {
+                throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not a member of this market league' });
+            }
+
+            return {
+                ...league,
+                startingBankroll: Number(league.startingBankroll),
+                isOwner: league.ownerId === ctx.user.id,
+                status: getSeasonStatus(league),
+                members,
+            };
+        }),
+});
@@ -14,107 +14,240 @@ import {
     stockPrices,
     marketLeaderboard,
     stockWatchlist,
-    priceAlerts
+    priceAlerts,
+    stockOrders,
+    marketLeagues,
+    marketLeagueMembers
 } from '../../drizzle/stockMarketSchema';
 import { strains, cannabisStrains, manufacturers, pharmacies } from '../../drizzle/schema';
 import { strainDailyChallengeStats, pharmacyDailyChallengeStats } from '../../drizzle/dailyChallengeSchema';
-import { eq, and, desc, sql, gte, asc } from 'drizzle-orm';
-import { getCurrentPrice, calculateProductPrices, savePrices } from '../stockPricingEngine';
+import { eq, and, desc, sql, gte, asc, inArray } from 'drizzle-orm';
+import { getCurrentPrice, getLastPrice, getSplitFactor, getSplitFactors, calculateProductPrices, savePrices } from '../stockPricingEngine';
 import { TRPCError } from '@trpc/server';
+import { PRICE_ALERT_CONDITIONS, describeAlertCondition } from '../priceAlertService';
+import { SHORT_INITIAL_MARGIN, coverShortPosition, getMarketAssetName, getShortPositionStatus } from '../shortSellingService';
+import { ORDER_TYPES, TIME_IN_FORCE, getReservedCash, getReservedShares } from '../stockOrderService';
+import { getDelistedAssets, isAssetDelisted } from '../corporateActionService';
+import type { Database } from '../assetNames';
 
 const BASE_PRICE = 10.00;
+const GLOBAL_STARTING_BALANCE = 100;
+
+/**
+ * The market a portfolio lives in: 0 is the global market, anything else a
+ * market league with its own bankroll
+ */
+interface MarketScope {
+    marketLeagueId: number;
+    startingBankroll: number;
+    /** Last day of a league season that has ended, null while trading is open */
+    endedOn: string | null;
+}
+
+const portfolioOf = (userId: number, scope: MarketScope) =>
+    and(eq(userPortfolios.userId, userId), eq(userPortfolios.marketLeagueId, scope.marketLeagueId));
+
+/**
+ * Resolve the market of a request. League access needs membership, and
+ * trades must fall inside the league season and use an allowed asset type.
+ */
+async function resolveMarketScope(
+    db: Database,
+    userId: number | undefined,
+    marketLeagueId?: number,
+    trade?: { assetType: string },
+): Promise<MarketScope> {
+    if (!marketLeagueId) return { marketLeagueId: 0, startingBankroll: GLOBAL_STARTING_BALANCE, endedOn: null };
+
+    const [league] = await db
+        .select()
+        .from(marketLeagues)
+        .where(eq(marketLeagues.id, marketLeagueId))
+        .limit(1);
+    if (!league) throw new TRPCError({ code: 'NOT_FOUND', message: 'Market league not found' });
+
+    const [member] = userId ? await db
+        .select({ id: marketLeagueMembers.id })
+        .from(marketLeagueMembers)
+        .where(and(eq(marketLeagueMembers.marketLeagueId, league.id), eq(marketLeagueMembers.userId, userId)))
+        .limit(1) : [];
+    if (!member) throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not a member of this market league' });
+
+    const today = new Date().toISOString().split('T')[0];
+    if (trade) {
+        if (today < league.startDate || today > league.endDate) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `Trading in ${league.name} runs from ${league.startDate} to ${league.endDate}`
+            });
+        }
+        if (!league.allowedAssetTypes.includes(trade.assetType)) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: `${league.name} does not allow trading ${trade.assetType} assets` });
+        }
+    }
+
+    return {
+        marketLeagueId: league.id,
+        startingBankroll: Number(league.startingBankroll),
+        endedOn: today > league.endDate ? league.endDate : null,
+    };
+}
+
+/**
+ * Price holdings of a market are valued at: the current score, or the last
+ * price of the season's final day once a league has ended
+ */
+async function getMarketPrice(scope: MarketScope, assetType: string, assetId: number) {
+    if (scope.endedOn) {
+        const finalPrice = await getLastPrice(assetType, assetId, scope.endedOn);
+        if (finalPrice !== null) return finalPrice;
+    }
+    return getCurrentPrice(assetType, assetId);
+}
+
+/**
+ * Delisted assets can no longer be bought, shorted or ordered
+ */
+async function assertListed(db: Database, assetType: string, assetId: number) {
+    if (await isAssetDelisted(db, assetType, assetId)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This asset has been delisted and can no longer be traded' });
+    }
+}
+
+async function getOrCreatePortfolio(db: Database, userId: number, scope: MarketScope) {
+    const [portfolio] = await db
+        .select()
+        .from(userPortfolios)
+        .where(portfolioOf(userId, scope))
+        .limit(1);
+    if (portfolio) return portfolio;
+
+    const [created] = await db
+        .insert(userPortfolios)
+        .values({
+            userId,
+            marketLeagueId: scope.marketLeagueId,
+            cashBalance: String(scope.startingBankroll),
+            totalValue: String(scope.startingBankroll),
+        })
+        .returning();
+    return created;
+}
 
 export const stockMarketRouter = router({
     /**
      * Get or create user portfolio
      */
-    getPortfolio: protectedProcedure.query(async ({ ctx }) => {
-        const db = await getDb();
-        if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+    getPortfolio: protectedProcedure
+        .input(z.object({
+            marketLeagueId: z.number().optional(),
+        }).optional())
+        .query(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
 
-        // Get or create portfolio
-        let [portfolio] = await db
-            .select()
-            .from(userPortfolios)
-            .where(eq(userPortfolios.userId, ctx.user.id))
-            .limit(1);
-
-        if (!portfolio) {
-            // Create new portfolio with 100 pts starting balance
-            [portfolio] = await db
-                .insert(userPortfolios)
-                .values({
-                    userId: ctx.user.id,
-                    cashBalance: '100',
-                    totalValue: '100',
-                })
-                .returning();
-        }
+            // Get or create portfolio, starting with the market's bankroll
+            const scope = await resolveMarketScope(db, ctx.user.id, input?.marketLeagueId);
+            const portfolio = await getOrCreatePortfolio(db, ctx.user.id, scope);
 
-        // Get holdings
-        const holdings = await db
-            .select()
-            .from(stockHoldings)
-            .where(eq(stockHoldings.userId, ctx.user.id));
-
-        // Calculate current value of holdings
-        let holdingsValue = 0;
-        const holdingsWithPrices = await Promise.all(holdings.map(async (h) => {
-            const currentPrice = await getCurrentPrice(h.assetType, h.assetId);
-            const shares = Number(h.shares);
-            const avgPrice = Number(h.avgBuyPrice);
-            const currentValue = shares * currentPrice;
-            const profitLoss = currentValue - (shares * avgPrice);
-
-            holdingsValue += currentValue;
-
-            // Get asset name
-            let assetName = '';
-            if (h.assetType === 'product' || h.assetType === 'strain') {
-                const [strain] = await db
-                    .select({ name: cannabisStrains.name })
-                    .from(cannabisStrains)
-                    .where(eq(cannabisStrains.id, h.assetId))
-                    .limit(1);
-                assetName = strain?.name || `Asset #${h.assetId}`;
-            } else if (h.assetType === 'manufacturer') {
-                const [mfg] = await db
-                    .select({ name: manufacturers.name })
-                    .from(manufacturers)
-                    .where(eq(manufacturers.id, h.assetId))
-                    .limit(1);
-                assetName = mfg?.name || `Manufacturer #${h.assetId}`;
-            } else if (h.assetType === 'pharmacy') {
-                const [pharm] = await db
-                    .select({ name: pharmacies.name })
-                    .from(pharmacies)
-                    .where(eq(pharmacies.id, h.assetId))
-                    .limit(1);
-                assetName = pharm?.name || `Pharmacy #${h.assetId}`;
-            }
+            // Get holdings
+            const holdings = await db
+                .select()
+                .from(stockHoldings)
+                .where(and(
+                    eq(stockHoldings.userId, ctx.user.id),
+                    eq(stockHoldings.marketLeagueId, scope.marketLeagueId)
+                ));
 
-            return {
-                ...h,
-                shares,
-                avgBuyPrice: avgPrice,
-                currentPrice,
-                currentValue,
-                profitLoss,
-                profitLossPercent: avgPrice > 0 ? ((currentPrice - avgPrice) / avgPrice) * 100 : 0,
-                assetName,
-            };
-        }));
+            // Calculate current value of holdings. Shorts count with their equity:
+            // locked collateral minus what it would cost to buy the shares back.
+            let holdingsValue = 0;
+            let marginHeld = 0;
+            let shortExposure = 0;
+            const holdingsWithPrices = await Promise.all(holdings.map(async (h) => {
+                const currentPrice = await getMarketPrice(scope, h.assetType, h.assetId);
+                const shares = Number(h.shares);
+                const avgPrice = Number(h.avgBuyPrice);
+                const currentValue = shares * currentPrice;
+                const short = h.isShort ? getShortPositionStatus(shares, avgPrice, currentPrice) : null;
+                const profitLoss = short ? short.profitLoss : currentValue - (shares * avgPrice);
+
+                if (short) {
+                    holdingsValue += short.equity;
+                    marginHeld += short.marginHeld;
+                    shortExposure += currentValue;
+                } else {
+                    holdingsValue += currentValue;
+                }
 
-        const totalValue = Number(portfolio.cashBalance) + holdingsValue;
+                const assetName = await getMarketAssetName(db, h.assetType, h.assetId);
 
-        return {
-            cashBalance: Number(portfolio.cashBalance),
-            holdingsValue,
-            totalValue,
-            totalProfitLoss: totalValue - 100, // P/L from starting capital
-            holdings: holdingsWithPrices,
-        };
-    }),
+                return {
+                    ...h,
+                    shares,
+                    avgBuyPrice: avgPrice,
+                    currentPrice,
+                    currentValue,
+                    profitLoss,
+                    profitLossPercent: avgPrice > 0 ? (profitLoss / (shares * avgPrice)) * 100 : 0,
+                    assetName,
+                    margin: short && {
+                        marginHeld: short.marginHeld,
+                        equity: short.equity,
+                        maintenanceRequirement: short.maintenanceRequirement,
+                        buyInPrice: short.buyInPrice,
+                    },
+                };
+            }));
+
+            const totalValue = Number(portfolio.cashBalance) + holdingsValue;
+
+            // Dividends, splits and delistings that touched this portfolio
+            const corporateActions = await db
+                .select()
+                .from(tradeHistory)
+                .where(and(
+                    eq(tradeHistory.userId, ctx.user.id),
+                    eq(tradeHistory.marketLeagueId, scope.marketLeagueId),
+                    inArray(tradeHistory.action, ['dividend', 'split', 'delist'])
+                ))
+                .orderBy(desc(tradeHistory.executedAt))
+                .limit(10);
+
+            const [dividends] = await db
+                .select({ total: sql<string | null>`sum(${tradeHistory.profitLoss})` })
+                .from(tradeHistory)
+                .where(and(
+                    eq(tradeHistory.userId, ctx.user.id),
+                    eq(tradeHistory.marketLeagueId, scope.marketLeagueId),
+                    eq(tradeHistory.action, 'dividend')
+                ));
+
+            return {
+                cashBalance: Number(portfolio.cashBalance),
+                reservedCash: await getReservedCash(db, ctx.user.id, scope.marketLeagueId),
+                holdingsValue,
+                marginHeld,
+                shortExposure,
+                totalValue,
+                totalProfitLoss: totalValue - scope.startingBankroll, // P/L from starting capital
+                marketLeagueId: scope.marketLeagueId,
+                startingBankroll: scope.startingBankroll,
+                dividendIncome: Number(dividends?.total ?? 0),
+                holdings: holdingsWithPrices,
+                corporateActions: corporateActions.map(a => ({
+                    id: a.id,
+                    action: a.action,
+                    assetType: a.assetType,
+                    assetId: a.assetId,
+                    assetName: a.assetName,
+                    shares: Number(a.shares),
+                    pricePerShare: Number(a.pricePerShare),
+                    profitLoss: a.profitLoss === null ? null : Number(a.profitLoss),
+                    executedAt: a.executedAt,
+                })),
+            };
+        }),
 
     /**
      * Buy shares of an asset
@@ -124,35 +257,28 @@ export const stockMarketRouter = router({
             assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
             assetId: z.number(),
             shares: z.number().positive(),
+            marketLeagueId: z.number().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+            const scope = await resolveMarketScope(db, ctx.user.id, input.marketLeagueId, { assetType: input.assetType });
+            await assertListed(db, input.assetType, input.assetId);
 
             const currentPrice = await getCurrentPrice(input.assetType, input.assetId);
             const totalCost = input.shares * currentPrice;
 
             // Get portfolio
-            let [portfolio] = await db
-                .select()
-                .from(userPortfolios)
-                .where(eq(userPortfolios.userId, ctx.user.id))
-                .limit(1);
-
-            if (!portfolio) {
-                [portfolio] = await db
-                    .insert(userPortfolios)
-                    .values({ userId: ctx.user.id })
-                    .returning();
-            }
+            const portfolio = await getOrCreatePortfolio(db, ctx.user.id, scope);
 
             const cashBalance = Number(portfolio.cashBalance);
+            const availableCash = cashBalance - await getReservedCash(db, ctx.user.id, scope.marketLeagueId);
 
-            // Strict balance check - no negative balances allowed
-            if (totalCost > cashBalance) {
+            // Strict balance check - no negative balances allowed, open limit buys hold their cash back
+            if (totalCost > availableCash) {
                 throw new TRPCError({
                     code: 'BAD_REQUEST',
-                    message: `Insufficient balance. You have ${Math.round(cashBalance)} pts but need ${Math.round(totalCost)} pts.`
+                    message: `Insufficient balance. You have ${Math.round(availableCash)} pts available but need ${Math.round(totalCost)} pts.`
                 });
             }
 
@@ -165,7 +291,7 @@ export const stockMarketRouter = router({
                     cashBalance: String(newCashBalance),
                     updatedAt: new Date().toISOString(),
                 })
-                .where(eq(userPortfolios.userId, ctx.user.id));
+                .where(portfolioOf(ctx.user.id, scope));
 
             // Update or create holding
             const [existingHolding] = await db
@@ -173,6 +299,7 @@ export const stockMarketRouter = router({
                 .from(stockHoldings)
                 .where(and(
                     eq(stockHoldings.userId, ctx.user.id),
+                    eq(stockHoldings.marketLeagueId, scope.marketLeagueId),
                     eq(stockHoldings.assetType, input.assetType),
                     eq(stockHoldings.assetId, input.assetId),
                     eq(stockHoldings.isShort, false)
@@ -199,6 +326,7 @@ export const stockMarketRouter = router({
                     .insert(stockHoldings)
                     .values({
                         userId: ctx.user.id,
+                        marketLeagueId: scope.marketLeagueId,
                         assetType: input.assetType,
                         assetId: input.assetId,
                         shares: String(input.shares),
@@ -208,21 +336,14 @@ export const stockMarketRouter = router({
             }
 
             // Get asset name for trade history
-            let assetName = '';
-            if (input.assetType === 'product' || input.assetType === 'strain') {
-                const [strain] = await db
-                    .select({ name: cannabisStrains.name })
-                    .from(cannabisStrains)
-                    .where(eq(cannabisStrains.id, input.assetId))
-                    .limit(1);
-                assetName = strain?.name || '';
-            }
+            const assetName = await getMarketAssetName(db, input.assetType, input.assetId);
 
             // Record trade
             await db
                 .insert(tradeHistory)
                 .values({
                     userId: ctx.user.id,
+                    marketLeagueId: scope.marketLeagueId,
                     assetType: input.assetType,
                     assetId: input.assetId,
                     assetName,
@@ -248,10 +369,12 @@ export const stockMarketRouter = router({
             assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
             assetId: z.number(),
             shares: z.number().positive(),
+            marketLeagueId: z.number().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+            const scope = await resolveMarketScope(db, ctx.user.id, input.marketLeagueId, { assetType: input.assetType });
 
             // Get existing holding
             const [holding] = await db
@@ -259,6 +382,7 @@ export const stockMarketRouter = router({
                 .from(stockHoldings)
                 .where(and(
                     eq(stockHoldings.userId, ctx.user.id),
+                    eq(stockHoldings.marketLeagueId, scope.marketLeagueId),
                     eq(stockHoldings.assetType, input.assetType),
                     eq(stockHoldings.assetId, input.assetId),
                     eq(stockHoldings.isShort, false)
@@ -270,8 +394,14 @@ export const stockMarketRouter = router({
             }
 
             const ownedShares = Number(holding.shares);
-            if (input.shares > ownedShares) {
-                throw new TRPCError({ code: 'BAD_REQUEST', message: `You only own ${ownedShares} shares` });
+            const reservedShares = await getReservedShares(db, ctx.user.id, scope.marketLeagueId, input.assetType, input.assetId);
+            if (input.shares > ownedShares - reservedShares) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: reservedShares > 0
+                        ? `You own ${ownedShares} shares, ${reservedShares} of them held by open orders`
+                        : `You only own ${ownedShares} shares`
+                });
             }
 
             const currentPrice = await getCurrentPrice(input.assetType, input.assetId);
@@ -283,7 +413,7 @@ export const stockMarketRouter = router({
             const [portfolio] = await db
                 .select()
                 .from(userPortfolios)
-                .where(eq(userPortfolios.userId, ctx.user.id))
+                .where(portfolioOf(ctx.user.id, scope))
                 .limit(1);
 
             const newCashBalance = Number(portfolio.cashBalance) + totalValue;
@@ -298,7 +428,7 @@ export const stockMarketRouter = router({
                     lossCount: profitLoss < 0 ? sql`${userPortfolios.lossCount} + 1` : userPortfolios.lossCount,
                     updatedAt: new Date().toISOString(),
                 })
-                .where(eq(userPortfolios.userId, ctx.user.id));
+                .where(portfolioOf(ctx.user.id, scope));
 
             // Update holding
             const remainingShares = ownedShares - input.shares;
@@ -321,8 +451,10 @@ export const stockMarketRouter = router({
                 .insert(tradeHistory)
                 .values({
                     userId: ctx.user.id,
+                    marketLeagueId: scope.marketLeagueId,
                     assetType: input.assetType,
                     assetId: input.assetId,
+                    assetName: await getMarketAssetName(db, input.assetType, input.assetId),
                     action: 'sell',
                     shares: String(input.shares),
                     pricePerShare: String(currentPrice),
@@ -339,6 +471,312 @@ export const stockMarketRouter = router({
             };
         }),
 
+    /**
+     * Short shares of an asset. The proceeds plus an initial margin taken
+     * from cash are held as collateral until the short is covered.
+     */
+    short: protectedProcedure
+        .input(z.object({
+            assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
+            assetId: z.number(),
+            shares: z.number().positive(),
+            marketLeagueId: z.number().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+            const scope = await resolveMarketScope(db, ctx.user.id, input.marketLeagueId, { assetType: input.assetType });
+            await assertListed(db, input.assetType, input.assetId);
+
+            const currentPrice = await getCurrentPrice(input.assetType, input.assetId);
+            if (currentPrice <= 0) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This asset has no price to short at' });
+            }
+            const totalValue = input.shares * currentPrice;
+            const marginRequired = totalValue * SHORT_INITIAL_MARGIN;
+
+            const portfolio = await getOrCreatePortfolio(db, ctx.user.id, scope);
+
+            const cashBalance = Number(portfolio.cashBalance);
+            const availableCash = cashBalance - await getReservedCash(db, ctx.user.id, scope.marketLeagueId);
+            if (marginRequired > availableCash) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: `Insufficient margin. Shorting needs ${Math.round(marginRequired)} pts but you have ${Math.round(availableCash)} pts available.`
+                });
+            }
+
+            const newCashBalance = cashBalance - marginRequired;
+
+            await db
+                .update(userPortfolios)
+                .set({
+                    cashBalance: String(newCashBalance),
+                    updatedAt: new Date().toISOString(),
+                })
+                .where(portfolioOf(ctx.user.id, scope));
+
+            const [existingShort] = await db
+                .select()
+                .from(stockHoldings)
+                .where(and(
+                    eq(stockHoldings.userId, ctx.user.id),
+                    eq(stockHoldings.marketLeagueId, scope.marketLeagueId),
+                    eq(stockHoldings.assetType, input.assetType),
+                    eq(stockHoldings.assetId, input.assetId),
+                    eq(stockHoldings.isShort, true)
+                ))
+                .limit(1);
+
+            if (existingShort) {
+                // Average the entry price, which keeps the held collateral in step
+                const existingShares = Number(existingShort.shares);
+                const existingAvg = Number(existingShort.avgBuyPrice);
+                const newTotalShares = existingShares + input.shares;
+                const newAvgPrice = ((existingShares * existingAvg) + totalValue) / newTotalShares;
+
+                await db
+                    .update(stockHoldings)
+                    .set({
+                        shares: String(newTotalShares),
+                        avgBuyPrice: String(newAvgPrice),
+                        updatedAt: new Date().toISOString(),
+                    })
+                    .where(eq(stockHoldings.id, existingShort.id));
+            } else {
+                await db
+                    .insert(stockHoldings)
+                    .values({
+                        userId: ctx.user.id,
+                        marketLeagueId: scope.marketLeagueId,
+                        assetType: input.assetType,
+                        assetId: input.assetId,
+                        shares: String(input.shares),
+                        avgBuyPrice: String(currentPrice),
+                        isShort: true,
+                    });
+            }
+
+            const assetName = await getMarketAssetName(db, input.assetType, input.assetId);
+
+            await db
+                .insert(tradeHistory)
+                .values({
+                    userId: ctx.user.id,
+                    marketLeagueId: scope.marketLeagueId,
+                    assetType: input.assetType,
+                    assetId: input.assetId,
+                    assetName,
+                    action: 'short',
+                    shares: String(input.shares),
+                    pricePerShare: String(currentPrice),
+                    totalValue: String(totalValue),
+                });
+
+            return {
+                success: true,
+                message: `Shorted ${input.shares} shares at ${Math.round(currentPrice)} pts (${Math.round(marginRequired)} pts margin held)`,
+                marginRequired,
+                newCashBalance,
+            };
+        }),
+
+    /**
+     * Cover (buy back) shares of a short position
+     */
+    cover: protectedProcedure
+        .input(z.object({
+            assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
+            assetId: z.number(),
+            shares: z.number().positive(),
+            marketLeagueId: z.number().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+            const scope = await resolveMarketScope(db, ctx.user.id, input.marketLeagueId, { assetType: input.assetType });
+
+            const [holding] = await db
+                .select()
+                .from(stockHoldings)
+                .where(and(
+                    eq(stockHoldings.userId, ctx.user.id),
+                    eq(stockHoldings.marketLeagueId, scope.marketLeagueId),
+                    eq(stockHoldings.assetType, input.assetType),
+                    eq(stockHoldings.assetId, input.assetId),
+                    eq(stockHoldings.isShort, true)
+                ))
+                .limit(1);
+
+            if (!holding) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'You have no short position in this asset' });
+            }
+
+            const shortShares = Number(holding.shares);
+            if (input.shares > shortShares) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: `You are only short ${shortShares} shares` });
+            }
+
+            const currentPrice = await getCurrentPrice(input.assetType, input.assetId);
+
+            const assetName = await getMarketAssetName(db, input.assetType, input.assetId);
+
+            const result = await coverShortPosition(db, holding, input.shares, currentPrice, assetName);
+
+            return {
+                success: true,
+                message: `Covered ${input.shares} shares at ${Math.round(currentPrice)} pts (${result.profitLoss >= 0 ? '+' : ''}${Math.round(result.profitLoss)} pts)`,
+                ...result,
+            };
+        }),
+
+    /**
+     * Place a resting limit, stop-loss or take-profit order. Limit buys hold
+     * back their cash and sell-side orders hold back shares until they close.
+     */
+    placeOrder: protectedProcedure
+        .input(z.object({
+            assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
+            assetId: z.number(),
+            orderType: z.enum(ORDER_TYPES),
+            shares: z.number().positive(),
+            triggerPrice: z.number().positive(),
+            timeInForce: z.enum(TIME_IN_FORCE).default('gtc'),
+            marketLeagueId: z.number().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+            const scope = await resolveMarketScope(db, ctx.user.id, input.marketLeagueId, { assetType: input.assetType });
+            await assertListed(db, input.assetType, input.assetId);
+
+            const currentPrice = await getCurrentPrice(input.assetType, input.assetId);
+            if (input.orderType === 'stop_loss' && input.triggerPrice >= currentPrice) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: `Stop-loss must be below the current score of ${Math.round(currentPrice)} pts` });
+            }
+            if (input.orderType === 'take_profit' && input.triggerPrice <= currentPrice) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: `Take-profit must be above the current score of ${Math.round(currentPrice)} pts` });
+            }
+
+            let reservedCash = 0;
+            if (input.orderType === 'limit_buy') {
+                const portfolio = await getOrCreatePortfolio(db, ctx.user.id, scope);
+
+                reservedCash = input.shares * input.triggerPrice;
+                const availableCash = Number(portfolio.cashBalance) - await getReservedCash(db, ctx.user.id, scope.marketLeagueId);
+                if (reservedCash > availableCash) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: `Insufficient balance. You have ${Math.round(availableCash)} pts available but the order needs ${Math.round(reservedCash)} pts.`
+                    });
+                }
+            } else {
+                const [holding] = await db
+                    .select()
+                    .from(stockHoldings)
+                    .where(and(
+                        eq(stockHoldings.userId, ctx.user.id),
+                        eq(stockHoldings.marketLeagueId, scope.marketLeagueId),
+                        eq(stockHoldings.assetType, input.assetType),
+                        eq(stockHoldings.assetId, input.assetId),
+                        eq(stockHoldings.isShort, false)
+                    ))
+                    .limit(1);
+
+                if (!holding) {
+                    throw new TRPCError({ code: 'BAD_REQUEST', message: 'You do not own this asset' });
+                }
+
+                const availableShares = Number(holding.shares) - await getReservedShares(db, ctx.user.id, scope.marketLeagueId, input.assetType, input.assetId);
+                if (input.shares > availableShares) {
+                    throw new TRPCError({ code: 'BAD_REQUEST', message: `Only ${availableShares} shares are not held by other orders` });
+                }
+            }
+
+            const assetName = await getMarketAssetName(db, input.assetType, input.assetId);
+
+            const [order] = await db
+                .insert(stockOrders)
+                .values({
+                    userId: ctx.user.id,
+                    marketLeagueId: scope.marketLeagueId,
+                    assetType: input.assetType,
+                    assetId: input.assetId,
+                    assetName,
+                    orderType: input.orderType,
+                    shares: String(input.shares),
+                    triggerPrice: String(input.triggerPrice),
+                    timeInForce: input.timeInForce,
+                    reservedCash: String(reservedCash),
+                })
+                .returning();
+
+            return {
+                success: true,
+                message: `Order placed: ${input.orderType.replace('_', ' ')} ${input.shares} shares at ${input.triggerPrice} pts`,
+                orderId: order.id,
+            };
+        }),
+
+    /**
+     * Cancel an open order, releasing what it held back
+     */
+    cancelOrder: protectedProcedure
+        .input(z.object({
+            orderId: z.number(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+
+            const [order] = await db
+                .update(stockOrders)
+                .set({ status: 'cancelled', statusReason: 'Cancelled by user', closedAt: new Date().toISOString() })
+                .where(and(
+                    eq(stockOrders.id, input.orderId),
+                    eq(stockOrders.userId, ctx.user.id),
+                    eq(stockOrders.status, 'open')
+                ))
+                .returning();
+
+            if (!order) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Open order not found' });
+            }
+
+            return { success: true, message: 'Order cancelled' };
+        }),
+
+    /**
+     * Get user's orders, open ones first
+     */
+    getOrders: protectedProcedure
+        .input(z.object({
+            limit: z.number().default(50),
+            marketLeagueId: z.number().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const db = await getDb();
+            if (!db) return [];
+
+            const orders = await db
+                .select()
+                .from(stockOrders)
+                .where(and(
+                    eq(stockOrders.userId, ctx.user.id),
+                    eq(stockOrders.marketLeagueId, input.marketLeagueId ?? 0)
+                ))
+                .orderBy(sql`${stockOrders.status} = 'open' desc`, desc(stockOrders.createdAt))
+                .limit(input.limit);
+
+            return orders.map(o => ({
+                ...o,
+                shares: Number(o.shares),
+                triggerPrice: Number(o.triggerPrice),
+                reservedCash: Number(o.reservedCash),
+                filledPrice: o.filledPrice ? Number(o.filledPrice) : null,
+            }));
+        }),
+
     /**
      * Get all available stocks with current prices
      * Pulls directly from strainDailyChallengeStats and cannabisStrains
@@ -578,16 +1016,31 @@ export const stockMarketRouter = router({
                 }
             }
 
+            // Split assets quote their score divided by the split ratio, delisted assets are gone
+            const splitFactors = await getSplitFactors();
+            const delistedAssets = await getDelistedAssets(db);
+            const listedStocks = stocks
+                .filter(stock => !delistedAssets.has(`${stock.assetType}-${stock.assetId}`))
+                .map(stock => {
+                    const splitFactor = splitFactors.get(`${stock.assetType}-${stock.assetId}`);
+                    if (!splitFactor) return stock;
+                    return {
+                        ...stock,
+                        closePrice: Math.round((stock.closePrice / splitFactor) * 100) / 100,
+                        priceChange: Math.round((stock.priceChange / splitFactor) * 100) / 100,
+                    };
+                });
+
             // Sort based on input
             if (input.sortBy === 'price') {
-                stocks.sort((a, b) => b.closePrice - a.closePrice);
+                listedStocks.sort((a, b) => b.closePrice - a.closePrice);
             } else if (input.sortBy === 'change') {
-                stocks.sort((a, b) => b.priceChangePercent - a.priceChangePercent);
+                listedStocks.sort((a, b) => b.priceChangePercent - a.priceChangePercent);
             } else {
-                stocks.sort((a, b) => b.volume - a.volume);
+                listedStocks.sort((a, b) => b.volume - a.volume);
             }
 
-            return stocks.slice(0, input.limit);
+            return listedStocks.slice(0, input.limit);
         }),
 
     /**
@@ -597,11 +1050,14 @@ export const stockMarketRouter = router({
         .input(z.object({
             period: z.enum(['daily', 'weekly', 'alltime']).default('alltime'),
             limit: z.number().default(20),
+            marketLeagueId: z.number().optional(),
         }))
-        .query(async ({ input }) => {
+        .query(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) return [];
 
+            const scope = await resolveMarketScope(db, ctx.user?.id, input.marketLeagueId);
+
             // Get all portfolios with their holdings
             const portfolios = await db
                 .select({
@@ -611,6 +1067,7 @@ export const stockMarketRouter = router({
                     lossCount: userPortfolios.lossCount,
                 })
                 .from(userPortfolios)
+                .where(eq(userPortfolios.marketLeagueId, scope.marketLeagueId))
                 .limit(100); // Get more than limit to sort after
 
             // Calculate dynamic values for each portfolio
@@ -619,26 +1076,31 @@ export const stockMarketRouter = router({
                 const holdings = await db
                     .select()
                     .from(stockHoldings)
-                    .where(eq(stockHoldings.userId, p.userId));
+                    .where(and(
+                        eq(stockHoldings.userId, p.userId),
+                        eq(stockHoldings.marketLeagueId, scope.marketLeagueId)
+                    ));
 
                 // Calculate current holdings value using dynamic scores
                 let holdingsValue = 0;
                 let costBasis = 0;
                 for (const h of holdings) {
-                    const currentScore = await getCurrentPrice(h.assetType, h.assetId);
-                    holdingsValue += Number(h.shares) * currentScore;
+                    const currentScore = await getMarketPrice(scope, h.assetType, h.assetId);
+                    holdingsValue += h.isShort
+                        ? getShortPositionStatus(Number(h.shares), Number(h.avgBuyPrice), currentScore).equity
+                        : Number(h.shares) * currentScore;
                     costBasis += Number(h.shares) * Number(h.avgBuyPrice);
                 }
 
                 const cash = Number(p.cashBalance);
                 const totalValue = cash + holdingsValue;
-                const profitLoss = totalValue - 100; // Starting capital is 100
+                const profitLoss = totalValue - scope.startingBankroll;
 
                 return {
                     userId: p.userId,
                     totalValue,
                     profitLoss,
-                    profitLossPercent: (profitLoss / 100) * 100,
+                    profitLossPercent: (profitLoss / scope.startingBankroll) * 100,
                     winRate: p.winCount + p.lossCount > 0
                         ? (p.winCount / (p.winCount + p.lossCount)) * 100
                         : 0,
@@ -661,6 +1123,7 @@ export const stockMarketRouter = router({
     getTradeHistory: protectedProcedure
         .input(z.object({
             limit: z.number().default(50),
+            marketLeagueId: z.number().optional(),
         }))
         .query(async ({ ctx, input }) => {
             const db = await getDb();
@@ -669,7 +1132,10 @@ export const stockMarketRouter = router({
             const trades = await db
                 .select()
                 .from(tradeHistory)
-                .where(eq(tradeHistory.userId, ctx.user.id))
+                .where(and(
+                    eq(tradeHistory.userId, ctx.user.id),
+                    eq(tradeHistory.marketLeagueId, input.marketLeagueId ?? 0)
+                ))
                 .orderBy(desc(tradeHistory.executedAt))
                 .limit(input.limit);
 
@@ -696,14 +1162,16 @@ export const stockMarketRouter = router({
     }),
 
     /**
-     * ADMIN: Reset all portfolios to 100 pts and clear all holdings
+     * ADMIN: Reset all global market portfolios to 100 pts and clear their holdings.
+     * Market league portfolios keep running until their season ends.
      */
     resetAllPortfolios: protectedProcedure.mutation(async ({ ctx }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
 
-        // Delete all holdings
-        const deletedHoldings = await db.delete(stockHoldings).returning();
+        // Delete all holdings and resting orders
+        const deletedHoldings = await db.delete(stockHoldings).where(eq(stockHoldings.marketLeagueId, 0)).returning();
+        await db.delete(stockOrders).where(eq(stockOrders.marketLeagueId, 0));
 
         // Reset all portfolios to 100 pts
         const updatedPortfolios = await db
@@ -716,10 +1184,11 @@ export const stockMarketRouter = router({
                 lossCount: 0,
                 updatedAt: new Date().toISOString(),
             })
+            .where(eq(userPortfolios.marketLeagueId, 0))
             .returning();
 
         // Optionally clear trade history
-        await db.delete(tradeHistory);
+        await db.delete(tradeHistory).where(eq(tradeHistory.marketLeagueId, 0));
 
         return {
             success: true,
@@ -756,14 +1225,18 @@ export const stockMarketRouter = router({
                 ))
                 .orderBy(stockPrices.priceDate);
 
+            // Bars are stored unadjusted: divide them by the split ratio like getCurrentPrice
+            const splitFactor = await getSplitFactor(input.assetType, input.assetId);
+            const adjust = (value: string) => Math.round((Number(value) / splitFactor) * 100) / 100;
+
             return history.map(h => ({
                 date: h.priceDate,
-                open: Number(h.openPrice),
-                close: Number(h.closePrice),
-                high: Number(h.highPrice),
-                low: Number(h.lowPrice),
+                open: adjust(h.openPrice),
+                close: adjust(h.closePrice),
+                high: adjust(h.highPrice),
+                low: adjust(h.lowPrice),
                 volume: h.volume,
-                change: Number(h.priceChange),
+                change: adjust(h.priceChange),
                 changePercent: Number(h.priceChangePercent),
             }));
         }),
@@ -801,11 +1274,14 @@ export const stockMarketRouter = router({
     getWeeklyStandings: publicProcedure
         .input(z.object({
             limit: z.number().default(10),
+            marketLeagueId: z.number().optional(),
         }))
-        .query(async ({ input }) => {
+        .query(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) return { standings: [], prizes: [], endsAt: '', daysRemaining: 0 };
 
+            const scope = await resolveMarketScope(db, ctx.user?.id, input.marketLeagueId);
+
             // Get all portfolios with holdings
             const portfolios = await db
                 .select({
@@ -815,6 +1291,7 @@ export const stockMarketRouter = router({
                     lossCount: userPortfolios.lossCount,
                 })
                 .from(userPortfolios)
+                .where(eq(userPortfolios.marketLeagueId, scope.marketLeagueId))
                 .limit(50);
 
             // Calculate dynamic values for each portfolio
@@ -822,23 +1299,28 @@ export const stockMarketRouter = router({
                 const holdings = await db
                     .select()
                     .from(stockHoldings)
-                    .where(eq(stockHoldings.userId, p.userId));
+                    .where(and(
+                        eq(stockHoldings.userId, p.userId),
+                        eq(stockHoldings.marketLeagueId, scope.marketLeagueId)
+                    ));
 
                 let holdingsValue = 0;
                 for (const h of holdings) {
-                    const currentScore = await getCurrentPrice(h.assetType, h.assetId);
-                    holdingsValue += Number(h.shares) * currentScore;
+                    const currentScore = await getMarketPrice(scope, h.assetType, h.assetId);
+                    holdingsValue += h.isShort
+                        ? getShortPositionStatus(Number(h.shares), Number(h.avgBuyPrice), currentScore).equity
+                        : Number(h.shares) * currentScore;
                 }
 
                 const cash = Number(p.cashBalance);
                 const totalValue = cash + holdingsValue;
-                const profitLoss = totalValue - 100;
+                const profitLoss = totalValue - scope.startingBankroll;
 
                 return {
                     userId: p.userId,
                     totalValue,
                     profitLoss,
-                    profitLossPercent: (profitLoss / 100) * 100,
+                    profitLossPercent: (profitLoss / scope.startingBankroll) * 100,
                     trades: p.winCount + p.lossCount,
                     winRate: p.winCount + p.lossCount > 0
                         ? (p.winCount / (p.winCount + p.lossCount)) * 100
@@ -861,7 +1343,8 @@ export const stockMarketRouter = router({
 
             return {
                 standings,
-                prizes: [
+                // BudsRewards prizes are only paid out in the global market
+                prizes: scope.marketLeagueId ? [] : [
                     { place: 1, points: 1000, emoji: '🏆' },
                     { place: 2, points: 500, emoji: '🥈' },
                     { place: 3, points: 250, emoji: '🥉' },
@@ -1543,8 +2026,10 @@ export const stockMarketRouter = router({
             assetType: z.enum(['product', 'strain', 'manufacturer', 'pharmacy']),
             assetId: z.number(),
             assetName: z.string().optional(),
-            targetScore: z.number().positive(),
-            direction: z.enum(['above', 'below']),
+            // Score for above/below, percent for percent_change, ignored for new_high
+            targetScore: z.number().nonnegative(),
+            direction: z.enum(PRICE_ALERT_CONDITIONS),
+            notifyEmail: z.boolean().default(false),
         }))
         .mutation(async ({ ctx, input }) => {
             const db = await getDb();
@@ -1563,16 +2048,24 @@ export const stockMarketRouter = router({
                 throw new TRPCError({ code: 'BAD_REQUEST', message: 'Alert limit reached (max 10 active)' });
             }
 
-            await db.insert(priceAlerts).values({
+            if (input.direction !== 'new_high' && input.targetScore <= 0) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Target must be greater than 0' });
+            }
+
+            const referencePrice = await getCurrentPrice(input.assetType, input.assetId);
+            const alert = {
                 userId: ctx.user.id,
                 assetType: input.assetType,
                 assetId: input.assetId,
                 assetName: input.assetName,
                 targetScore: String(input.targetScore),
                 direction: input.direction,
-            });
+                referencePrice: String(referencePrice),
+                notifyEmail: input.notifyEmail,
+            };
+            await db.insert(priceAlerts).values(alert);
 
-            return { success: true, message: `Alert created: ${input.direction} ${input.targetScore} pts` };
+            return { success: true, message: `Alert created: ${describeAlertCondition(alert)}` };
         }),
 
     /**
@@ -1594,6 +2087,9 @@ export const stockMarketRouter = router({
             return {
                 ...alert,
                 targetScore: Number(alert.targetScore),
+                referencePrice: alert.referencePrice ? Number(alert.referencePrice) : null,
+                triggeredPrice: alert.triggeredPrice ? Number(alert.triggeredPrice) : null,
+                condition: describeAlertCondition(alert),
                 currentScore,
             };
         }));
@@ -61,6 +61,7 @@ import {
   calculateBrandScore as calculateDailyBrandScore,
 } from './dailyChallengeScoringEngine';
 import { getWeekDateRange } from './utils/isoWeek';
+import { DEFAULT_SCORING_CONFIG, LeagueScoringConfig, resolveScoringConfig } from '../shared/scoringConfig';
 import { checkAchievements } from './achievementService';
 
 export type BreakdownComponent = {
@@ -162,14 +163,15 @@ function describeRankTier(rank: number): string {
 
 function getTieredRankBonus(
   rank: number | null | undefined,
-  entityType: TieredRankEntity
+  entityType: TieredRankEntity,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): { points: number; condition: string } | null {
   const normalizedRank = Number(rank ?? 0);
   if (!normalizedRank || normalizedRank <= 0) {
     return null;
   }
 
-  const bonusPoints = calculateRankBonus(normalizedRank, entityType);
+  const bonusPoints = calculateRankBonus(normalizedRank, entityType, config.rankTierBonuses);
   if (!bonusPoints) {
     return null;
   }
@@ -435,7 +437,10 @@ function resolveTrendMultiplier(
   return numericValue;
 }
 
-export function buildManufacturerDailyBreakdown(statRecord: ManufacturerDailySource): BreakdownResult {
+export function buildManufacturerDailyBreakdown(
+  statRecord: ManufacturerDailySource,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): BreakdownResult {
   const orderCount = statRecord.orderCount ?? 0;
   const rank = statRecord.rank ?? 0;
 
@@ -459,7 +464,7 @@ export function buildManufacturerDailyBreakdown(statRecord: ManufacturerDailySou
     velocityScore: Number(statRecord.velocityScore ?? 0),
     streakDays: Number(statRecord.streakDays ?? 0),
     marketSharePercent: Number(statRecord.marketSharePercent ?? 0),
-  });
+  }, config);
 
   // Build the formatted breakdown for display
   return buildManufacturerTrendBreakdown(
@@ -467,11 +472,15 @@ export function buildManufacturerDailyBreakdown(statRecord: ManufacturerDailySou
     orderCount,
     rank,
     statRecord.previousRank ?? rank,
-    Number(statRecord.streakDays ?? 0)
+    Number(statRecord.streakDays ?? 0),
+    config
   );
 }
 
-export function buildStrainDailyBreakdown(statRecord: StrainDailySource): BreakdownResult {
+export function buildStrainDailyBreakdown(
+  statRecord: StrainDailySource,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): BreakdownResult {
   const orderCount = statRecord.orderCount ?? 0;
   const rank = statRecord.rank ?? 0;
 
@@ -494,7 +503,7 @@ export function buildStrainDailyBreakdown(statRecord: StrainDailySource): Breakd
     velocityScore: Number(statRecord.velocityScore ?? 0),
     streakDays: Number(statRecord.streakDays ?? 0),
     marketSharePercent: Number(statRecord.marketSharePercent ?? 0),
-  });
+  }, config);
 
   // Build the formatted breakdown for display
   return buildStrainTrendBreakdown(
@@ -502,11 +511,15 @@ export function buildStrainDailyBreakdown(statRecord: StrainDailySource): Breakd
     orderCount,
     rank,
     statRecord.previousRank ?? rank,
-    Number(statRecord.streakDays ?? 0)
+    Number(statRecord.streakDays ?? 0),
+    config
   );
 }
 
-export function buildProductDailyBreakdown(statRecord: ProductDailySource): BreakdownResult {
+export function buildProductDailyBreakdown(
+  statRecord: ProductDailySource,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): BreakdownResult {
   const orderCount = statRecord.orderCount ?? 0;
   const rank = statRecord.rank ?? 0;
 
@@ -528,14 +541,15 @@ export function buildProductDailyBreakdown(statRecord: ProductDailySource): Brea
     velocityScore: Number(statRecord.velocityScore ?? 0),
     streakDays: Number(statRecord.streakDays ?? 0),
     marketSharePercent: Number(statRecord.marketSharePercent ?? 0),
-  });
+  }, config);
 
   return buildProductTrendBreakdown(
     scoring,
     orderCount,
     rank,
     statRecord.previousRank ?? rank,
-    Number(statRecord.streakDays ?? 0)
+    Number(statRecord.streakDays ?? 0),
+    config
   );
 }
 
@@ -545,7 +559,8 @@ export function calculatePharmacyPoints(
     rankChange: number;
     streakDays: number;
     marketSharePercent: number;
-  }
+  },
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): { points: number; breakdown: any } {
   let dailyTotal = 0;
   const dailyBreakdowns: any[] = [];
@@ -567,7 +582,7 @@ export function calculatePharmacyPoints(
       velocityScore: Number(dayStat.velocityScore ?? 0),
       streakDays: Number(dayStat.streakDays ?? 0),
       marketSharePercent: Number(dayStat.marketSharePercent ?? 0),
-    });
+    }, config);
     dailyTotal += dayScore.totalPoints;
     dailyBreakdowns.push({ points: dayScore.totalPoints });
     latestTrendMultiplier = dayTrendMultiplier;
@@ -685,7 +700,10 @@ export function buildBrandDailyBreakdown(statRecord: BrandDailySource): Breakdow
   return finalizeDailyBreakdown(components, bonuses, []);
 }
 
-export function buildPharmacyDailyBreakdown(statRecord: PharmacyDailySource): BreakdownResult {
+export function buildPharmacyDailyBreakdown(
+  statRecord: PharmacyDailySource,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): BreakdownResult {
   const orderCount = statRecord.orderCount ?? 0;
   const rank = statRecord.rank ?? 0;
 
@@ -706,7 +724,7 @@ export function buildPharmacyDailyBreakdown(statRecord: PharmacyDailySource): Br
     velocityScore: Number(statRecord.velocityScore ?? 0),
     streakDays: Number(statRecord.streakDays ?? 0),
     marketSharePercent: Number(statRecord.marketSharePercent ?? 0),
-  });
+  }, config);
 
   // Build the formatted breakdown for display
   const breakdown: any = {
@@ -720,7 +738,7 @@ export function buildPharmacyDailyBreakdown(statRecord: PharmacyDailySource): Br
   breakdown.components.push({
     category: 'Order Volume',
     value: orderCount,
-    formula: `${orderCount} orders × 5`,
+    formula: `${orderCount} orders × ${config.orderPoints.pharmacy}`,
     points: scoring.orderCountPoints ?? 0,
   });
 
@@ -790,7 +808,8 @@ export function calculateManufacturerPoints(
     marketShareRank: number;
     marketSharePercent: number;
     streakDays: number;
-  }
+  },
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): { points: number; breakdown: any } {
   let dailyTotal = 0;
   const dailyBreakdowns: any[] = [];
@@ -813,7 +832,7 @@ export function calculateManufacturerPoints(
       velocityScore: Number(dayStat.velocityScore ?? 0),
       streakDays: Number(dayStat.streakDays ?? 0),
       marketSharePercent: Number(dayStat.marketSharePercent ?? 0),
-    });
+    }, config);
     dailyTotal += dayScore.totalPoints;
     dailyBreakdowns.push({ points: dayScore.totalPoints });
     latestTrendMultiplier = dayTrendMultiplier;
@@ -853,7 +872,7 @@ export function calculateManufacturerPoints(
   }
 
   // Market Dominance Badge (now tiered)
-  const marketShareRankBonus = getTieredRankBonus(weeklyContext.marketShareRank, 'manufacturer');
+  const marketShareRankBonus = getTieredRankBonus(weeklyContext.marketShareRank, 'manufacturer', config);
   if (marketShareRankBonus) {
     breakdown.bonuses.push({
       type: 'Market Share Tier Bonus',
@@ -907,7 +926,8 @@ export function calculateStrainPoints(
     isTrending: boolean;
     streakDays: number;
     marketSharePercent: number;
-  }
+  },
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): { points: number; breakdown: any } {
   let dailyTotal = 0;
   const dailyBreakdowns: any[] = [];
@@ -929,7 +949,7 @@ export function calculateStrainPoints(
       velocityScore: Number(dayStat.velocityScore ?? 0),
       streakDays: Number(dayStat.streakDays ?? 0),
       marketSharePercent: Number(dayStat.marketSharePercent ?? 0),
-    });
+    }, config);
     dailyTotal += dayScore.totalPoints;
     dailyBreakdowns.push({ points: dayScore.totalPoints });
     latestTrendMultiplier = dayTrendMultiplier;
@@ -1071,6 +1091,7 @@ type SynergyBonusResult = {
  * Calculate synergy bonuses for pharmacy + strain/product combinations
  * - Pharmacy + Strain: +25% bonus on both assets
  * - Pharmacy + Strain + Product (full synergy): +50% bonus on all three
+ * Percentages come from the league's scoring config.
  */
 async function calculateSynergyBonuses(
   breakdowns: Array<{
@@ -1082,7 +1103,8 @@ async function calculateSynergyBonuses(
     assetName?: string;
   }>,
   positionPoints: PositionPointsMap,
-  statDate: string
+  statDate: string,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): Promise<SynergyBonusResult> {
   const { checkPharmacySynergyRelationship } = await import('./lib/metabase-pharmacy-relationships');
 
@@ -1115,8 +1137,8 @@ async function calculateSynergyBonuses(
         );
 
         if (synergyCheck.hasFullSynergy) {
-          // Apply 50% bonus to all three assets
-          const fullSynergyMultiplier = 0.50;
+          // Apply full synergy bonus (default 50%) to all three assets
+          const fullSynergyMultiplier = config.fullSynergyPercent / 100;
           const assetsToBoost = [pharmacy, strain, product];
 
           for (const asset of assetsToBoost) {
@@ -1149,7 +1171,7 @@ async function calculateSynergyBonuses(
 
           synergyBonuses.push({
             type: 'Full Synergy Bonus',
-            condition: `+50% for ${pharmacy.assetName || 'Pharmacy'} + ${strain.assetName || 'Strain'} + ${product.assetName || 'Product'}`,
+            condition: `+${config.fullSynergyPercent}% for ${pharmacy.assetName || 'Pharmacy'} + ${strain.assetName || 'Strain'} + ${product.assetName || 'Product'}`,
             points: assetsToBoost.reduce((sum, a) => {
               const key = `${a.assetType}-${a.assetId}`;
               return sum + Math.round(a.points * fullSynergyMultiplier / (1 + fullSynergyMultiplier));
@@ -1176,8 +1198,8 @@ async function calculateSynergyBonuses(
       );
 
       if (synergyCheck.hasPharmacyStrain) {
-        // Apply 25% bonus to pharmacy and strain
-        const partialSynergyMultiplier = 0.25;
+        // Apply partial synergy bonus (default 25%) to pharmacy and strain
+        const partialSynergyMultiplier = config.partialSynergyPercent / 100;
         const assetsToBoost = [pharmacy, strain].filter(a => {
           const key = `${a.assetType}-${a.assetId}`;
           return !processedAssets.has(key);
@@ -1215,7 +1237,7 @@ async function calculateSynergyBonuses(
         if (assetsToBoost.length > 0) {
           synergyBonuses.push({
             type: 'Synergy Bonus',
-            condition: `+25% for ${pharmacy.assetName || 'Pharmacy'} + ${strain.assetName || 'Strain'}`,
+            condition: `+${config.partialSynergyPercent}% for ${pharmacy.assetName || 'Pharmacy'} + ${strain.assetName || 'Strain'}`,
             points: assetsToBoost.reduce((sum, a) => sum + Math.round(a.points * partialSynergyMultiplier / (1 + partialSynergyMultiplier)), 0),
           });
         }
@@ -1239,8 +1261,8 @@ async function calculateSynergyBonuses(
       );
 
       if (synergyCheck.hasPharmacyProduct) {
-        // Apply 25% bonus to pharmacy and product
-        const partialSynergyMultiplier = 0.25;
+        // Apply partial synergy bonus (default 25%) to pharmacy and product
+        const partialSynergyMultiplier = config.partialSynergyPercent / 100;
         const assetsToBoost = [pharmacy, product].filter(a => {
           const key = `${a.assetType}-${a.assetId}`;
           return !processedAssets.has(key);
@@ -1278,7 +1300,7 @@ async function calculateSynergyBonuses(
         if (assetsToBoost.length > 0) {
           synergyBonuses.push({
             type: 'Synergy Bonus',
-            condition: `+25% for ${pharmacy.assetName || 'Pharmacy'} + ${product.assetName || 'Product'}`,
+            condition: `+${config.partialSynergyPercent}% for ${pharmacy.assetName || 'Pharmacy'} + ${product.assetName || 'Product'}`,
             points: assetsToBoost.reduce((sum, a) => sum + Math.round(a.points * partialSynergyMultiplier / (1 + partialSynergyMultiplier)), 0),
           });
         }
@@ -1304,11 +1326,12 @@ export function calculateTeamBonuses(
     assetType: AssetType;
     metadata?: ScoreMetadata;
   }>,
-  scope: ScoreScope
+  scope: ScoreScope,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): { bonuses: TeamBonusEntry[]; totalBonus: number } {
   const appliedBonuses: TeamBonusEntry[] = [];
   const baseBonuses: TeamBonusEntry[] = [];
-  let remainingCap = 100;
+  let remainingCap = config.teamBonusCap;
 
   const allScores = Object.values(positionPoints);
   const median = computeMedian(allScores);
@@ -2293,6 +2316,24 @@ interface TeamScoreComputationOptions {
   scarcityMultipliers?: ScarcityMultipliers;
   skipPersistence?: boolean;
   powerHourMultiplier?: number; // 2x during 4:15-4:25 PM for 24h games
+  scoringConfig?: LeagueScoringConfig; // Resolved from the team's league when omitted
+}
+
+/**
+ * Scoring rules of the league a team plays in
+ */
+async function getTeamScoringConfig(
+  db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
+  teamId: number
+): Promise<LeagueScoringConfig> {
+  const [row] = await db
+    .select({ scoringType: leagues.scoringType, scoringConfig: leagues.scoringConfig })
+    .from(teams)
+    .innerJoin(leagues, eq(teams.leagueId, leagues.id))
+    .where(eq(teams.id, teamId))
+    .limit(1);
+
+  return resolveScoringConfig(row);
 }
 
 export async function calculateSeasonTeamDailyScore({
@@ -2338,6 +2379,8 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
   }
   const scarcityMultipliers =
     options.scarcityMultipliers ?? (await getScarcityMultipliers(db));
+  const scoringConfig =
+    options.scoringConfig ?? (await getTeamScoringConfig(db, options.teamId));
 
   const lineupContext =
     options.scope.type === 'daily'
@@ -2381,49 +2424,49 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
   const scope = options.scope;
 
   if (teamLineup.mfg1Id) {
-    const result = await scoreManufacturer(teamLineup.mfg1Id, scope, scarcityMultipliers);
+    const result = await scoreManufacturer(teamLineup.mfg1Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.mfg1 = result.points;
     breakdowns.push({ position: 'MFG1', assetType: 'manufacturer', assetId: teamLineup.mfg1Id, ...result });
   }
 
   if (teamLineup.mfg2Id) {
-    const result = await scoreManufacturer(teamLineup.mfg2Id, scope, scarcityMultipliers);
+    const result = await scoreManufacturer(teamLineup.mfg2Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.mfg2 = result.points;
     breakdowns.push({ position: 'MFG2', assetType: 'manufacturer', assetId: teamLineup.mfg2Id, ...result });
   }
 
   if (teamLineup.cstr1Id) {
-    const result = await scoreCannabisStrain(teamLineup.cstr1Id, scope, scarcityMultipliers);
+    const result = await scoreCannabisStrain(teamLineup.cstr1Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.cstr1 = result.points;
     breakdowns.push({ position: 'CSTR1', assetType: 'cannabis_strain', assetId: teamLineup.cstr1Id, ...result });
   }
 
   if (teamLineup.cstr2Id) {
-    const result = await scoreCannabisStrain(teamLineup.cstr2Id, scope, scarcityMultipliers);
+    const result = await scoreCannabisStrain(teamLineup.cstr2Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.cstr2 = result.points;
     breakdowns.push({ position: 'CSTR2', assetType: 'cannabis_strain', assetId: teamLineup.cstr2Id, ...result });
   }
 
   if (teamLineup.prd1Id) {
-    const result = await scoreProduct(teamLineup.prd1Id, scope, scarcityMultipliers);
+    const result = await scoreProduct(teamLineup.prd1Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.prd1 = result.points;
     breakdowns.push({ position: 'PRD1', assetType: 'product', assetId: teamLineup.prd1Id, ...result });
   }
 
   if (teamLineup.prd2Id) {
-    const result = await scoreProduct(teamLineup.prd2Id, scope, scarcityMultipliers);
+    const result = await scoreProduct(teamLineup.prd2Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.prd2 = result.points;
     breakdowns.push({ position: 'PRD2', assetType: 'product', assetId: teamLineup.prd2Id, ...result });
   }
 
   if (teamLineup.phm1Id) {
-    const result = await scorePharmacy(teamLineup.phm1Id, scope, scarcityMultipliers);
+    const result = await scorePharmacy(teamLineup.phm1Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.phm1 = result.points;
     breakdowns.push({ position: 'PHM1', assetType: 'pharmacy', assetId: teamLineup.phm1Id, ...result });
   }
 
   if (teamLineup.phm2Id) {
-    const result = await scorePharmacy(teamLineup.phm2Id, scope, scarcityMultipliers);
+    const result = await scorePharmacy(teamLineup.phm2Id, scope, scarcityMultipliers, scoringConfig);
     positionPoints.phm2 = result.points;
     breakdowns.push({ position: 'PHM2', assetType: 'pharmacy', assetId: teamLineup.phm2Id, ...result });
   }
@@ -2437,15 +2480,15 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
   if (teamLineup.flexId && teamLineup.flexType) {
     let result;
     if (teamLineup.flexType === 'manufacturer') {
-      result = await scoreManufacturer(teamLineup.flexId, scope, scarcityMultipliers);
+      result = await scoreManufacturer(teamLineup.flexId, scope, scarcityMultipliers, scoringConfig);
     } else if (teamLineup.flexType === 'brand') {
       result = await scoreBrand(teamLineup.flexId, scope, scarcityMultipliers);
     } else if (teamLineup.flexType === 'cannabis_strain') {
-      result = await scoreCannabisStrain(teamLineup.flexId, scope, scarcityMultipliers);
+      result = await scoreCannabisStrain(teamLineup.flexId, scope, scarcityMultipliers, scoringConfig);
     } else if (teamLineup.flexType === 'product') {
-      result = await scoreProduct(teamLineup.flexId, scope, scarcityMultipliers);
+      result = await scoreProduct(teamLineup.flexId, scope, scarcityMultipliers, scoringConfig);
     } else {
-      result = await scorePharmacy(teamLineup.flexId, scope, scarcityMultipliers);
+      result = await scorePharmacy(teamLineup.flexId, scope, scarcityMultipliers, scoringConfig);
     }
     positionPoints.flex = result.points;
     breakdowns.push({ position: 'FLEX', assetType: teamLineup.flexType, assetId: teamLineup.flexId, ...result });
@@ -2459,11 +2502,11 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
 
   // Only apply for Daily Challenge
   if (scope.type === 'daily') {
-    // 1. Apply "First Goal Bonus" - Captain gets +15 if they're the highest scorer on the team
+    // 1. Apply "First Goal Bonus" - Captain gets +15 (league setting) if they're the highest scorer on the team
     console.log(`[Captain] Team ${options.teamId} lineup captain info: captainId=${teamLineup.captainId}, captainType=${teamLineup.captainType}`);
 
     if (teamLineup.captainId && teamLineup.captainType) {
-      const FIRST_GOAL_BONUS = 15; // Bonus points for captain being top scorer
+      const FIRST_GOAL_BONUS = scoringConfig.captainBonus; // Bonus points for captain being top scorer
       const captainType = teamLineup.captainType;
       const captainId = teamLineup.captainId;
 
@@ -2483,7 +2526,38 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
 
         console.log(`[computeTeamScore] Captain ${captainItem.assetName}: ${captainScore} pts, Team high: ${highestScore} pts, Is top: ${isTopScorer}`);
 
-        if (isTopScorer) {
+        // Custom leagues can multiply the captain's points (1x by default)
+        if (scoringConfig.captainMultiplier > 1 && captainScore > 0) {
+          const multipliedPoints = Math.round(captainScore * scoringConfig.captainMultiplier);
+          const multiplierBonus = multipliedPoints - captainScore;
+          captainItem.points = multipliedPoints;
+          captainItem.captainMultiplier = scoringConfig.captainMultiplier;
+
+          if (captainItem.breakdown) {
+            captainItem.breakdown.bonuses = captainItem.breakdown.bonuses || [];
+            captainItem.breakdown.bonuses.push({
+              type: 'Captain Boost',
+              condition: `${scoringConfig.captainMultiplier}x captain multiplier`,
+              points: multiplierBonus,
+            });
+            captainItem.breakdown.total = multipliedPoints;
+          }
+
+          const posKey = captainItem.position.toLowerCase() as keyof PositionPointsMap;
+          if (positionPoints[posKey] !== undefined) {
+            positionPoints[posKey] = multipliedPoints;
+          }
+
+          teamBonuses.push({
+            type: 'captain_boost',
+            description: `Captain Boost (${scoringConfig.captainMultiplier}x) for ${captainItem.assetName || 'Captain'}`,
+            points: multiplierBonus,
+          });
+
+          totalBonus += multiplierBonus;
+        }
+
+        if (isTopScorer && FIRST_GOAL_BONUS > 0) {
           // Captain is the highest scorer - award the First Goal Bonus!
           const originalPoints = captainItem.points || 0;
           const boostedPoints = originalPoints + FIRST_GOAL_BONUS;
@@ -2583,11 +2657,14 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
 
     // 3. Apply Synergy Bonus (Pharmacy + Strain/Product combinations)
     // Check for pharmacy-strain/product relationships and apply percentage bonuses
-    const synergyResult = await calculateSynergyBonuses(
-      breakdowns,
-      positionPoints,
-      options.scope.statDate
-    );
+    const synergyResult = scoringConfig.synergyEnabled
+      ? await calculateSynergyBonuses(
+        breakdowns,
+        positionPoints,
+        options.scope.statDate,
+        scoringConfig
+      )
+      : { totalSynergyBonus: 0, synergyBonuses: [], positionUpdates: [] };
 
     if (synergyResult.totalSynergyBonus > 0) {
       totalBonus += synergyResult.totalSynergyBonus;
@@ -2612,7 +2689,8 @@ async function computeTeamScore(options: TeamScoreComputationOptions): Promise<T
     // For now, let's assume standard bonuses are additive.
     positionPoints,
     breakdowns,
-    scope
+    scope,
+    scoringConfig
   );
 
   totalBonus += standardTotal;
@@ -2814,7 +2892,8 @@ async function persistTeamScore(db: Awaited<ReturnType<typeof getDb>>, params: P
 async function scoreManufacturer(
   manufacturerId: number,
   scope: ScoreScope,
-  scarcityMultipliers: ScarcityMultipliers
+  scarcityMultipliers: ScarcityMultipliers,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): Promise<AssetScoreResult> {
   const db = await getDb();
   if (!db) {
@@ -2871,7 +2950,7 @@ async function scoreManufacturer(
       marketShareRank: weeklyStat.marketShareRank,
       marketSharePercent: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].marketSharePercent ?? 0) : 0,
       streakDays: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].streakDays ?? 0) : 0,
-    });
+    }, config);
 
     const currentRank = weeklyStat.marketShareRank ?? 0;
     const rankChange = weeklyStat.rankChange ?? 0;
@@ -2891,7 +2970,7 @@ async function scoreManufacturer(
   }
 
   const dailyStat = statRecord as ManufacturerDailyStat;
-  const breakdownResult = buildManufacturerDailyBreakdown(dailyStat);
+  const breakdownResult = buildManufacturerDailyBreakdown(dailyStat, config);
 
   const rank = dailyStat.rank ?? 0;
   const previousRank = dailyStat.previousRank ?? rank;
@@ -2923,7 +3002,8 @@ async function scoreManufacturer(
 async function scoreCannabisStrain(
   cannabisStrainId: number,
   scope: ScoreScope,
-  scarcityMultipliers: ScarcityMultipliers
+  scarcityMultipliers: ScarcityMultipliers,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): Promise<AssetScoreResult> {
   const db = await getDb();
   if (!db) {
@@ -3006,7 +3086,7 @@ async function scoreCannabisStrain(
   }
 
   const dailyStat = statRecord as StrainDailyStat;
-  const breakdownResult = buildStrainDailyBreakdown(dailyStat);
+  const breakdownResult = buildStrainDailyBreakdown(dailyStat, config);
 
   const rank = dailyStat.rank ?? 0;
   const previousRank = dailyStat.previousRank ?? rank;
@@ -3037,7 +3117,8 @@ async function scoreCannabisStrain(
 async function scoreProduct(
   productId: number,
   scope: ScoreScope,
-  scarcityMultipliers: ScarcityMultipliers
+  scarcityMultipliers: ScarcityMultipliers,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): Promise<AssetScoreResult> {
   const db = await getDb();
   if (!db) {
@@ -3088,7 +3169,7 @@ async function scoreProduct(
       isTrending: false, // Need to fetch this if available in weekly stats
       streakDays: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].streakDays ?? 0) : 0,
       marketSharePercent: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].marketSharePercent ?? 0) : 0,
-    });
+    }, config);
 
     const currentRank = dailyStats.length > 0 ? (dailyStats[dailyStats.length - 1].rank ?? 0) : 0;
     const previousRank = dailyStats.length > 0 ? (dailyStats[dailyStats.length - 1].previousRank ?? currentRank) : currentRank;
@@ -3120,7 +3201,7 @@ async function scoreProduct(
   }
 
   const dailyStat = statRecord as ProductDailyStat;
-  const breakdownResult = buildProductDailyBreakdown(dailyStat);
+  const breakdownResult = buildProductDailyBreakdown(dailyStat, config);
 
   const rank = dailyStat.rank ?? 0;
   const previousRank = dailyStat.previousRank ?? rank;
@@ -3151,7 +3232,8 @@ async function scoreProduct(
 async function scorePharmacy(
   pharmacyId: number,
   scope: ScoreScope,
-  scarcityMultipliers: ScarcityMultipliers
+  scarcityMultipliers: ScarcityMultipliers,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): Promise<AssetScoreResult> {
   const db = await getDb();
   if (!db) {
@@ -3215,7 +3297,7 @@ async function scorePharmacy(
       rankChange: derivedRankChange,
       streakDays: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].streakDays ?? 0) : 0,
       marketSharePercent: dailyStats.length > 0 ? Number(dailyStats[dailyStats.length - 1].marketSharePercent ?? 0) : 0,
-    });
+    }, config);
 
     const metadata: ScoreMetadata = {
       scopeType: 'weekly',
@@ -3235,7 +3317,7 @@ async function scorePharmacy(
   }
 
   const dailyStat = statRecord as PharmacyDailyStat;
-  const breakdownResult = buildPharmacyDailyBreakdown(dailyStat);
+  const breakdownResult = buildPharmacyDailyBreakdown(dailyStat, config);
 
   const rank = dailyStat.rank ?? 0;
   const previousRank = dailyStat.previousRank ?? rank;
@@ -108,6 +108,7 @@ import {
   type ChallengeStatBreakdown,
 } from './utils/challengeBreakdownHelpers';
 import { getWeekDateRange } from './utils/isoWeek';
+import { DEFAULT_SCORING_CONFIG, LeagueScoringConfig, resolveScoringConfig } from '../shared/scoringConfig';
 
 export const scoringRouter = router({
   /**
@@ -1048,6 +1049,13 @@ export const scoringRouter = router({
 
         const score = scores[0];
 
+        const [challenge] = await db
+          .select({ scoringType: leagues.scoringType, scoringConfig: leagues.scoringConfig })
+          .from(leagues)
+          .where(eq(leagues.id, input.challengeId))
+          .limit(1);
+        const scoringConfig = resolveScoringConfig(challenge);
+
         const rawBreakdowns = await db
           .select()
           .from(dailyScoringBreakdowns)
@@ -1205,7 +1213,7 @@ export const scoringRouter = router({
             ...bd,
             assetName: nameMap.get(bd.assetId) || null,
             imageUrl: imageMap.get(bd.assetId) || null,
-            breakdown: normalizeDailyBreakdownPayload(bd, statRecord),
+            breakdown: normalizeDailyBreakdownPayload(bd, statRecord, scoringConfig),
             source: 'stats' as const,
             hasStats: true,
           };
@@ -1218,6 +1226,7 @@ export const scoringRouter = router({
           lineupSlots,
           existingPositions: new Set(enrichedBreakdowns.map((bd) => bd.position)),
           positionPoints,
+          scoringConfig,
         });
         const completeBreakdowns = mergeLineupWithBreakdowns({
           lineupSlots,
@@ -1282,7 +1291,11 @@ type StatRecord = {
   veryBadCount?: number | null;
 };
 
-export function normalizeDailyBreakdownPayload(bd: DailyBreakdownRow, statRecord?: StatRecord): BreakdownDetail {
+export function normalizeDailyBreakdownPayload(
+  bd: DailyBreakdownRow,
+  statRecord?: StatRecord,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): BreakdownDetail {
   const current = (bd.breakdown ?? null) as BreakdownDetail | Record<string, any> | null;
   const raw = (current ?? {}) as Record<string, any>;
   const totalPoints = bd.totalPoints ?? 0;
@@ -1310,14 +1323,15 @@ export function normalizeDailyBreakdownPayload(bd: DailyBreakdownRow, statRecord
       streakDays,
       marketSharePercent: Number(data.marketSharePercent ?? 0),
       trendMultiplier: Number(data.trendMultiplier ?? 0) || undefined,
-    });
+    }, config);
 
     result = buildManufacturerTrendBreakdown(
       scoring,
       orderCount,
       rank,
       previousRank,
-      streakDays
+      streakDays,
+      config
     ).breakdown;
   } else if (bd.assetType === 'cannabis_strain' || bd.assetType === 'product') {
     const orderCount = Number(data.orderCount ?? 0);
@@ -1337,7 +1351,7 @@ export function normalizeDailyBreakdownPayload(bd: DailyBreakdownRow, statRecord
       streakDays,
       marketSharePercent: Number(data.marketSharePercent ?? 0),
       trendMultiplier: Number(data.trendMultiplier ?? 0) || undefined,
-    } as TrendScoringStats);
+    } as TrendScoringStats, config);
 
     const builder = bd.assetType === 'product' ? buildProductTrendBreakdown : buildStrainTrendBreakdown;
     result = builder(
@@ -1345,7 +1359,8 @@ export function normalizeDailyBreakdownPayload(bd: DailyBreakdownRow, statRecord
       orderCount,
       rank,
       previousRank,
-      streakDays
+      streakDays,
+      config
     ).breakdown;
   } else if (bd.assetType === 'pharmacy') {
     const orderCount = Number(data.orderCount ?? 0);
@@ -1364,14 +1379,15 @@ export function normalizeDailyBreakdownPayload(bd: DailyBreakdownRow, statRecord
       streakDays,
       marketSharePercent: Number(data.marketSharePercent ?? 0),
       trendMultiplier: Number(data.trendMultiplier ?? 0) || undefined,
-    } as TrendScoringStats);
+    } as TrendScoringStats, config);
 
     result = buildPharmacyTrendBreakdown(
       scoring,
       orderCount,
       rank,
       previousRank,
-      streakDays
+      streakDays,
+      config
     ).breakdown;
   } else if (bd.assetType === 'brand') {
     result = buildBrandDailyBreakdown({
@@ -1531,12 +1547,14 @@ async function buildMissingProductBreakdowns({
   lineupSlots,
   existingPositions,
   positionPoints,
+  scoringConfig,
 }: {
   db: DatabaseClient;
   statDate: string;
   lineupSlots: ChallengeSlotInfo[];
   existingPositions: Set<string>;
   positionPoints: ReturnType<typeof buildPositionPointMap>;
+  scoringConfig: LeagueScoringConfig;
 }): Promise<ChallengeStatBreakdown[]> {
   const productPositions = new Set(['PRD1', 'PRD2']);
   const missingSlots = lineupSlots.filter(
@@ -1570,7 +1588,7 @@ async function buildMissingProductBreakdowns({
 
     if (stat) {
       const productRecord = stat as ProductDailyStatRow;
-      const result = buildStrainDailyBreakdown(productRecord);
+      const result = buildStrainDailyBreakdown(productRecord, scoringConfig);
       return {
         position: slot.position,
         assetType: slot.assetType ?? 'product',
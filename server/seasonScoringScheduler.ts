@@ -1,9 +1,12 @@
 import { CronJob } from 'cron';
-import { and, eq } from 'drizzle-orm';
+import { and, eq, ne } from 'drizzle-orm';
 import { getDb } from './db';
-import { leagues } from '../drizzle/schema';
+import { leagues, matchups } from '../drizzle/schema';
 import { getDataSyncServiceV2 } from './services/dataSyncService';
 import { calculateWeeklyScores } from './scoringEngine';
+import { advancePlayoffs } from './playoffService';
+import { finalizeWeekMatchups } from './matchupService';
+import { recordMedianResults, syncTeamRecords } from './medianService';
 
 const DEFAULT_CRON = '0 0 3 * * *';
 
@@ -68,10 +71,15 @@ class SeasonScoringScheduler {
       console.error('[SeasonScoringScheduler] Failed to sync weekly stats:', error);
     }
 
-    await this.scoreActiveSeasonLeagues(year, week);
+    const previous = this.getIsoYearWeek(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000));
+    await this.scoreActiveSeasonLeagues(year, week, previous);
   }
 
-  private async scoreActiveSeasonLeagues(year: number, week: number) {
+  private async scoreActiveSeasonLeagues(
+    year: number,
+    week: number,
+    previous: { year: number; week: number }
+  ) {
     const db = await getDb();
     if (!db) {
       console.error('[SeasonScoringScheduler] Database not available');
@@ -100,9 +108,62 @@ class SeasonScoringScheduler {
       } catch (error) {
         console.error(`[SeasonScoringScheduler] Error scoring league ${league.id}:`, error);
       }
+
+      // Last week is over: score it once more with its final day and make its matchups final
+      try {
+        const finalized = await this.finalizeEndedWeek(league.id, previous.year, previous.week);
+        if (finalized > 0) {
+          console.log(`[SeasonScoringScheduler] Finalized ${finalized} matchups of ${previous.year}-W${previous.week} for league ${league.id}`);
+        }
+      } catch (error) {
+        console.error(`[SeasonScoringScheduler] Error finalizing week ${previous.week} for league ${league.id}:`, error);
+      }
+
+      // Seed the postseason / schedule the next playoff round once the week is final
+      try {
+        const playoffs = await advancePlayoffs(league.id);
+        if (playoffs.created > 0) {
+          console.log(`[SeasonScoringScheduler] Scheduled ${playoffs.created} playoff matchups for league ${league.id}`);
+        }
+      } catch (error) {
+        console.error(`[SeasonScoringScheduler] Error advancing playoffs for league ${league.id}:`, error);
+      }
     }
   }
 
+  /**
+   * Final scoring pass for a week that has ended. Runs once: weeks whose
+   * matchups are all final are skipped.
+   */
+  private async finalizeEndedWeek(leagueId: number, year: number, week: number): Promise<number> {
+    const db = await getDb();
+    if (!db) return 0;
+
+    const [open] = await db
+      .select({ id: matchups.id })
+      .from(matchups)
+      .where(
+        and(
+          eq(matchups.leagueId, leagueId),
+          eq(matchups.year, year),
+          eq(matchups.week, week),
+          ne(matchups.status, 'final')
+        )
+      )
+      .limit(1);
+    if (!open) return 0;
+
+    await calculateWeeklyScores(leagueId, year, week);
+    const finalized = await finalizeWeekMatchups(db, leagueId, year, week);
+
+    // Median games and team records follow the final head-to-head scores
+    const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+    if (league) await recordMedianResults(db, league, year, week);
+    await syncTeamRecords(db, leagueId, year);
+
+    return finalized;
+  }
+
   private getIsoYearWeek(date: Date): { year: number; week: number } {
     const tempDate = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
     const dayNum = tempDate.getUTCDay() || 7;
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { getShortPositionStatus } from "./shortSellingService";
+
+describe("getShortPositionStatus", () => {
+  it("holds the initial margin on top of the proceeds at entry", () => {
+    const status = getShortPositionStatus(10, 100, 100);
+    expect(status).toMatchObject({
+      marginHeld: 500,
+      currentValue: 1000,
+      profitLoss: 0,
+      equity: 500,
+      maintenanceRequirement: 300,
+      belowMaintenance: false,
+    });
+  });
+
+  it("gains when the score falls and loses when it rises", () => {
+    expect(getShortPositionStatus(10, 100, 80)).toMatchObject({ profitLoss: 200, equity: 700 });
+    expect(getShortPositionStatus(10, 100, 110)).toMatchObject({ profitLoss: -100, equity: 400 });
+  });
+
+  it("falls below maintenance once the score passes the buy-in price", () => {
+    const { buyInPrice } = getShortPositionStatus(10, 100, 100);
+    expect(buyInPrice).toBeCloseTo(1500 / 13);
+
+    expect(getShortPositionStatus(10, 100, buyInPrice - 0.01).belowMaintenance).toBe(false);
+    expect(getShortPositionStatus(10, 100, buyInPrice + 0.01).belowMaintenance).toBe(true);
+  });
+
+  it("does not depend on the position size for the buy-in price", () => {
+    expect(getShortPositionStatus(3, 40, 40).buyInPrice).toBeCloseTo(getShortPositionStatus(250, 40, 55).buyInPrice);
+  });
+});
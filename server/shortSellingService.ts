@@ -0,0 +1,184 @@
+/**
+ * Short Selling
+ *
+ * A short sells borrowed shares at the current score. The proceeds stay locked
+ * as collateral and the trader posts an initial margin on top, taken from
+ * cashBalance. Nothing else is stored: the collateral of a short holding is
+ * always shares × avgBuyPrice × (1 + SHORT_INITIAL_MARGIN), so averaging into
+ * a position keeps it consistent.
+ *
+ * Covering buys the shares back and releases the collateral minus the cost of
+ * the buy-back. Delisting covers at the asset's final price the same way.
+ *
+ * When a short's equity falls below the maintenance requirement after a price
+ * update, it is bought in at the current score.
+ */
+
+import { getDb } from "./db";
+import { marketLeagues, stockHoldings, tradeHistory, userPortfolios } from "../drizzle/stockMarketSchema";
+import { and, eq, lt, sql } from "drizzle-orm";
+import { getCurrentPrice } from "./stockPricingEngine";
+import { getAssetName, type Database } from "./assetNames";
+import { wsManager } from "./websocket";
+
+/** Margin posted from cash when opening a short, as a share of its value */
+export const SHORT_INITIAL_MARGIN = 0.5;
+/** Minimum equity of a short, as a share of its current value */
+export const SHORT_MAINTENANCE_MARGIN = 0.3;
+
+type HoldingRow = typeof stockHoldings.$inferSelect;
+
+/**
+ * Mark-to-market view of a short position at the given price
+ */
+export function getShortPositionStatus(shares: number, entryPrice: number, currentPrice: number) {
+    const marginHeld = shares * entryPrice * SHORT_INITIAL_MARGIN;
+    const collateral = shares * entryPrice + marginHeld;
+    const currentValue = shares * currentPrice;
+    const profitLoss = (entryPrice - currentPrice) * shares;
+    const equity = collateral - currentValue;
+    const maintenanceRequirement = currentValue * SHORT_MAINTENANCE_MARGIN;
+
+    return {
+        marginHeld,
+        currentValue,
+        profitLoss,
+        equity,
+        maintenanceRequirement,
+        // Score at which equity drops to the maintenance requirement
+        buyInPrice: collateral / (shares * (1 + SHORT_MAINTENANCE_MARGIN)),
+        belowMaintenance: equity < maintenanceRequirement,
+    };
+}
+
+/**
+ * Stock market names products after their cannabis strain, like getPortfolio
+ */
+export async function getMarketAssetName(db: Database, assetType: string, assetId: number) {
+    return (await getAssetName(db, assetType === 'product' ? 'strain' : assetType, assetId)) ?? `Asset #${assetId}`;
+}
+
+/**
+ * Buy back shares of a short holding at the given price and settle the cash.
+ * Losses beyond the posted margin are taken from the cash balance.
+ */
+export async function coverShortPosition(
+    db: Database,
+    holding: HoldingRow,
+    shares: number,
+    price: number,
+    assetName: string,
+    action: 'cover' | 'delist' = 'cover',
+) {
+    const totalShares = Number(holding.shares);
+    const entryPrice = Number(holding.avgBuyPrice);
+    const { marginHeld, profitLoss } = getShortPositionStatus(shares, entryPrice, price);
+    const released = marginHeld + profitLoss;
+    const totalCost = shares * price;
+
+    return db.transaction(async (tx) => {
+        const [portfolio] = await tx
+            .update(userPortfolios)
+            .set({
+                cashBalance: sql`${userPortfolios.cashBalance} + ${String(released)}`,
+                totalProfitLoss: sql`${userPortfolios.totalProfitLoss} + ${String(profitLoss)}`,
+                winCount: profitLoss > 0 ? sql`${userPortfolios.winCount} + 1` : userPortfolios.winCount,
+                lossCount: profitLoss < 0 ? sql`${userPortfolios.lossCount} + 1` : userPortfolios.lossCount,
+                updatedAt: new Date().toISOString(),
+            })
+            .where(and(
+                eq(userPortfolios.userId, holding.userId),
+                eq(userPortfolios.marketLeagueId, holding.marketLeagueId)
+            ))
+            .returning({ cashBalance: userPortfolios.cashBalance });
+
+        const remainingShares = totalShares - shares;
+        if (remainingShares <= 0) {
+            await tx.delete(stockHoldings).where(eq(stockHoldings.id, holding.id));
+        } else {
+            await tx
+                .update(stockHoldings)
+                .set({
+                    shares: String(remainingShares),
+                    updatedAt: new Date().toISOString(),
+                })
+                .where(eq(stockHoldings.id, holding.id));
+        }
+
+        await tx
+            .insert(tradeHistory)
+            .values({
+                userId: holding.userId,
+                marketLeagueId: holding.marketLeagueId,
+                assetType: holding.assetType,
+                assetId: holding.assetId,
+                assetName,
+                action,
+                shares: String(shares),
+                pricePerShare: String(price),
+                totalValue: String(totalCost),
+                profitLoss: String(profitLoss),
+            });
+
+        return {
+            totalCost,
+            profitLoss,
+            newCashBalance: Number(portfolio?.cashBalance ?? 0),
+        };
+    });
+}
+
+/**
+ * Force a buy-in of every short whose equity fell below maintenance.
+ * Runs after every price update. Shorts of market leagues whose season
+ * ended before priceDate are left as they closed.
+ */
+export async function enforceShortMaintenance(priceDate: string) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const endedLeagues = await db
+        .select({ id: marketLeagues.id })
+        .from(marketLeagues)
+        .where(lt(marketLeagues.endDate, priceDate));
+    const endedLeagueIds = new Set(endedLeagues.map(l => l.id));
+
+    const shorts = (await db
+        .select()
+        .from(stockHoldings)
+        .where(eq(stockHoldings.isShort, true)))
+        .filter(h => !endedLeagueIds.has(h.marketLeagueId));
+
+    let boughtIn = 0;
+    for (const holding of shorts) {
+        const shares = Number(holding.shares);
+        const price = await getCurrentPrice(holding.assetType, holding.assetId);
+        const status = getShortPositionStatus(shares, Number(holding.avgBuyPrice), price);
+        if (!status.belowMaintenance) continue;
+
+        // Re-read so a cover placed since the scan is not bought in twice
+        const [current] = await db
+            .select()
+            .from(stockHoldings)
+            .where(and(eq(stockHoldings.id, holding.id), eq(stockHoldings.isShort, true)))
+            .limit(1);
+        if (!current) continue;
+
+        const assetName = await getMarketAssetName(db, holding.assetType, holding.assetId);
+        const result = await coverShortPosition(db, current, Number(current.shares), price, assetName);
+        boughtIn++;
+
+        wsManager.notifyUser(holding.userId, {
+            type: 'short_buy_in',
+            assetType: holding.assetType,
+            assetId: holding.assetId,
+            assetName,
+            shares: Number(current.shares),
+            price,
+            profitLoss: result.profitLoss,
+        });
+    }
+
+    console.log(`[ShortSelling] Checked ${shorts.length} short positions, bought in ${boughtIn}`);
+    return { checked: shorts.length, boughtIn };
+}
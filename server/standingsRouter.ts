@@ -1,19 +1,27 @@
 import { z } from "zod";
 import { router, protectedProcedure } from "./_core/trpc";
 import { getDb } from "./db";
-import { matchups, teams, weeklyTeamScores } from "../drizzle/schema";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { divisions, leagues, matchups, teams, weeklyTeamScores } from "../drizzle/schema";
+import { eq, and, or, desc, isNull, sql } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { resolveTiebreakers } from "../shared/tiebreakers";
+import { getMedianRecords } from "./medianService";
+import {
+  sortStandingsWithTiebreakers,
+  summarizeHeadToHead,
+  type TiebreakerResult,
+} from "./standingsTiebreakers";
 
 /**
  * Standings Router
  * 
  * Handles:
  * - League standings calculation
- * - Win/loss/tie records
+ * - Win/loss/tie records (including games against the weekly league median)
  * - Points for/against
+ * - Division standings and leaders
  * - Playoff seeding
- * - Tiebreaker logic
+ * - Tiebreaker logic (league-configurable chain, see standingsTiebreakers.ts)
  */
 
 interface StandingsRecord {
@@ -22,11 +30,20 @@ interface StandingsRecord {
   wins: number;
   losses: number;
   ties: number;
+  /** Results against the weekly league median, already included in wins/losses/ties */
+  medianWins: number;
+  medianLosses: number;
+  medianTies: number;
   winPercentage: number;
   pointsFor: number;
   pointsAgainst: number;
   pointsDifferential: number;
   rank: number;
+  divisionId: number | null;
+  divisionName: string | null;
+  divisionRank: number | null;
+  isDivisionLeader: boolean;
+  tiebreaker: TiebreakerResult | null;
   playoffSeed?: number;
   isPlayoffTeam?: boolean;
 }
@@ -52,6 +69,29 @@ export const standingsRouter = router({
         .from(teams)
         .where(eq(teams.leagueId, input.leagueId));
 
+      const leagueDivisions = await db
+        .select()
+        .from(divisions)
+        .where(eq(divisions.leagueId, input.leagueId));
+      const divisionNames = new Map(leagueDivisions.map((division) => [division.id, division.name]));
+
+      const [league] = await db
+        .select({ tiebreakers: leagues.tiebreakers })
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+
+      const seasonMatchups = await db
+        .select()
+        .from(matchups)
+        .where(and(
+          eq(matchups.leagueId, input.leagueId),
+          eq(matchups.year, input.year),
+          eq(matchups.status, 'final'),
+          isNull(matchups.playoffBracket)
+        ));
+      const medianRecords = await getMedianRecords(db, input.leagueId, input.year);
+
       // Calculate standings for each team
       const standings: StandingsRecord[] = await Promise.all(
         leagueTeams.map(async (team) => {
@@ -65,12 +105,14 @@ export const standingsRouter = router({
                 eq(matchups.team2Id, team.id)
               ),
               eq(matchups.year, input.year),
-              eq(matchups.status, 'final')
+              eq(matchups.status, 'final'),
+              isNull(matchups.playoffBracket)
             ));
 
-          let wins = 0;
-          let losses = 0;
-          let ties = 0;
+          const median = medianRecords.get(team.id) ?? { wins: 0, losses: 0, ties: 0 };
+          let wins = median.wins;
+          let losses = median.losses;
+          let ties = median.ties;
           let pointsFor = 0;
           let pointsAgainst = 0;
 
@@ -101,32 +143,48 @@ export const standingsRouter = router({
             wins,
             losses,
             ties,
+            medianWins: median.wins,
+            medianLosses: median.losses,
+            medianTies: median.ties,
             winPercentage,
             pointsFor,
             pointsAgainst,
             pointsDifferential,
             rank: 0, // Will be calculated after sorting
+            divisionId: team.divisionId,
+            divisionName: team.divisionId !== null ? divisionNames.get(team.divisionId) ?? null : null,
+            divisionRank: null,
+            isDivisionLeader: false,
+            tiebreaker: null,
           };
         })
       );
 
-      // Sort by win percentage, then points for (tiebreaker)
-      standings.sort((a, b) => {
-        if (b.winPercentage !== a.winPercentage) {
-          return b.winPercentage - a.winPercentage;
-        }
-        if (b.pointsFor !== a.pointsFor) {
-          return b.pointsFor - a.pointsFor;
-        }
-        return b.pointsDifferential - a.pointsDifferential;
+      // Sort by win percentage, then the league's tiebreaker chain
+      const ranked = sortStandingsWithTiebreakers(standings, {
+        leagueId: input.leagueId,
+        year: input.year,
+        tiebreakers: resolveTiebreakers(league?.tiebreakers),
+        matchups: seasonMatchups,
+        medianRecords,
       });
 
       // Assign ranks
-      standings.forEach((standing, index) => {
+      ranked.forEach((standing, index) => {
         standing.rank = index + 1;
       });
 
-      return standings;
+      // Division ranks follow the league order within each division
+      const divisionCounts = new Map<number, number>();
+      for (const standing of ranked) {
+        if (standing.divisionId === null || !divisionNames.has(standing.divisionId)) continue;
+        const divisionRank = (divisionCounts.get(standing.divisionId) ?? 0) + 1;
+        divisionCounts.set(standing.divisionId, divisionRank);
+        standing.divisionRank = divisionRank;
+        standing.isDivisionLeader = divisionRank === 1;
+      }
+
+      return ranked;
     }),
 
   /**
@@ -145,15 +203,31 @@ export const standingsRouter = router({
       }
 
       // Get regular season standings
-      const standings = await standingsRouter.createCaller({ user: { id: 0 } } as any)
+      const standings: StandingsRecord[] = await standingsRouter.createCaller({ user: { id: 0 } } as any)
         .getLeagueStandings({ leagueId: input.leagueId, year: input.year });
 
-      // Mark playoff teams
-      const playoffStandings = standings.map((standing, index) => ({
-        ...standing,
-        playoffSeed: index < input.playoffTeams ? index + 1 : undefined,
-        isPlayoffTeam: index < input.playoffTeams,
-      }));
+      // Division leaders are guaranteed a seat, remaining seats go by record
+      const qualified = new Set(
+        standings
+          .filter((standing) => standing.isDivisionLeader)
+          .slice(0, input.playoffTeams)
+          .map((standing) => standing.teamId)
+      );
+      for (const standing of standings) {
+        if (qualified.size >= input.playoffTeams) break;
+        qualified.add(standing.teamId);
+      }
+
+      // Qualifiers are seeded by their league rank
+      let nextSeed = 1;
+      const playoffStandings = standings.map((standing) => {
+        const isPlayoffTeam = qualified.has(standing.teamId);
+        return {
+          ...standing,
+          playoffSeed: isPlayoffTeam ? nextSeed++ : undefined,
+          isPlayoffTeam,
+        };
+      });
 
       return playoffStandings;
     }),
@@ -193,12 +267,15 @@ export const standingsRouter = router({
             eq(matchups.team2Id, input.teamId)
           ),
           eq(matchups.year, input.year),
-          eq(matchups.status, 'final')
+          eq(matchups.status, 'final'),
+          isNull(matchups.playoffBracket)
         ));
 
-      let wins = 0;
-      let losses = 0;
-      let ties = 0;
+      const median = (await getMedianRecords(db, team[0].leagueId, input.year)).get(input.teamId)
+        ?? { wins: 0, losses: 0, ties: 0 };
+      let wins = median.wins;
+      let losses = median.losses;
+      let ties = median.ties;
       let pointsFor = 0;
       let pointsAgainst = 0;
       let currentStreak = 0;
@@ -239,8 +316,9 @@ export const standingsRouter = router({
       const totalGames = wins + losses + ties;
       const winPercentage = totalGames > 0 ? (wins + ties * 0.5) / totalGames : 0;
       const pointsDifferential = pointsFor - pointsAgainst;
-      const avgPointsFor = totalGames > 0 ? pointsFor / totalGames : 0;
-      const avgPointsAgainst = totalGames > 0 ? pointsAgainst / totalGames : 0;
+      // Median games carry no points, so averages are per head-to-head game
+      const avgPointsFor = teamMatchups.length > 0 ? pointsFor / teamMatchups.length : 0;
+      const avgPointsAgainst = teamMatchups.length > 0 ? pointsAgainst / teamMatchups.length : 0;
 
       return {
         teamId: input.teamId,
@@ -248,6 +326,9 @@ export const standingsRouter = router({
         wins,
         losses,
         ties,
+        medianWins: median.wins,
+        medianLosses: median.losses,
+        medianTies: median.ties,
         winPercentage,
         pointsFor,
         pointsAgainst,
@@ -290,42 +371,11 @@ export const standingsRouter = router({
             )
           ),
           eq(matchups.year, input.year),
-          eq(matchups.status, 'final')
+          eq(matchups.status, 'final'),
+          isNull(matchups.playoffBracket)
         ));
 
-      let team1Wins = 0;
-      let team2Wins = 0;
-      let ties = 0;
-      let team1PointsFor = 0;
-      let team2PointsFor = 0;
-
-      for (const matchup of h2hMatchups) {
-        const isTeam1First = matchup.team1Id === input.team1Id;
-        const team1Score = isTeam1First ? matchup.team1Score : matchup.team2Score;
-        const team2Score = isTeam1First ? matchup.team2Score : matchup.team1Score;
-
-        team1PointsFor += team1Score;
-        team2PointsFor += team2Score;
-
-        if (matchup.winnerId === input.team1Id) {
-          team1Wins++;
-        } else if (matchup.winnerId === input.team2Id) {
-          team2Wins++;
-        } else {
-          ties++;
-        }
-      }
-
-      return {
-        team1Id: input.team1Id,
-        team2Id: input.team2Id,
-        team1Wins,
-        team2Wins,
-        ties,
-        team1PointsFor,
-        team2PointsFor,
-        totalGames: h2hMatchups.length,
-      };
+      return summarizeHeadToHead(h2hMatchups, input.team1Id, input.team2Id);
     }),
 
   /**
@@ -343,7 +393,7 @@ export const standingsRouter = router({
       }
 
       // Get base standings
-      const standings = await standingsRouter.createCaller({ user: { id: 0 } } as any)
+      const standings: StandingsRecord[] = await standingsRouter.createCaller({ user: { id: 0 } } as any)
         .getLeagueStandings({ leagueId: input.leagueId, year: input.year });
 
       // Add power ranking metrics
@@ -359,7 +409,8 @@ export const standingsRouter = router({
                 eq(matchups.team2Id, standing.teamId)
               ),
               eq(matchups.year, input.year),
-              eq(matchups.status, 'final')
+              eq(matchups.status, 'final'),
+              isNull(matchups.playoffBracket)
             ))
             .orderBy(desc(matchups.week))
             .limit(3);
@@ -383,7 +434,8 @@ export const standingsRouter = router({
                 eq(matchups.team2Id, standing.teamId)
               ),
               eq(matchups.year, input.year),
-              eq(matchups.status, 'final')
+              eq(matchups.status, 'final'),
+              isNull(matchups.playoffBracket)
             ));
 
           let totalOpponentWinPct = 0;
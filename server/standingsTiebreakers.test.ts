@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { matchups } from "../drizzle/schema";
+import { sortStandingsWithTiebreakers, summarizeHeadToHead, type TiebreakerStanding } from "./standingsTiebreakers";
+import { DEFAULT_TIEBREAKERS, resolveTiebreakers, type StandingsTiebreaker } from "../shared/tiebreakers";
+import type { MedianRecord } from "./medianService";
+
+type MatchupRow = typeof matchups.$inferSelect;
+
+let nextMatchupId = 1;
+
+function game(week: number, team1Id: number, team1Score: number, team2Id: number, team2Score: number): MatchupRow {
+  return {
+    id: nextMatchupId++,
+    leagueId: 1,
+    year: 2025,
+    week,
+    team1Id,
+    team2Id,
+    team1Score,
+    team2Score,
+    winnerId: team1Score > team2Score ? team1Id : team2Score > team1Score ? team2Id : null,
+    status: "final",
+    playoffBracket: null,
+    playoffRound: null,
+    bracketSlot: null,
+    playoffLeg: null,
+    createdAt: "",
+    updatedAt: "",
+  };
+}
+
+function standing(teamId: number, overrides: Partial<TiebreakerStanding> = {}): TiebreakerStanding {
+  return {
+    teamId,
+    teamName: `Team ${teamId}`,
+    winPercentage: 0.5,
+    pointsFor: 100,
+    pointsAgainst: 100,
+    divisionId: null,
+    ...overrides,
+  };
+}
+
+function order(
+  standings: TiebreakerStanding[],
+  tiebreakers: StandingsTiebreaker[],
+  games: MatchupRow[] = [],
+  medianRecords = new Map<number, MedianRecord>()
+) {
+  return sortStandingsWithTiebreakers(standings, { leagueId: 1, year: 2025, tiebreakers, matchups: games, medianRecords });
+}
+
+describe("resolveTiebreakers", () => {
+  it("falls back to the default chain", () => {
+    expect(resolveTiebreakers(null)).toEqual(DEFAULT_TIEBREAKERS);
+    expect(resolveTiebreakers([])).toEqual(DEFAULT_TIEBREAKERS);
+  });
+
+  it("drops unknown and duplicate entries and appends the coin flip", () => {
+    expect(resolveTiebreakers(["head_to_head", "bogus", "head_to_head", "points_for"])).toEqual([
+      "head_to_head",
+      "points_for",
+      "coin_flip",
+    ]);
+  });
+});
+
+describe("summarizeHeadToHead", () => {
+  it("counts wins, ties and points from either side of the matchup", () => {
+    const games = [game(1, 1, 90, 2, 80), game(2, 2, 70, 1, 70), game(3, 3, 50, 1, 60)];
+    expect(summarizeHeadToHead(games, 1, 2)).toMatchObject({
+      team1Wins: 1,
+      team2Wins: 0,
+      ties: 1,
+      team1PointsFor: 160,
+      team2PointsFor: 150,
+      totalGames: 2,
+    });
+  });
+});
+
+describe("sortStandingsWithTiebreakers", () => {
+  it("orders by win percentage and leaves untied teams without a tiebreaker", () => {
+    const result = order(
+      [standing(1, { winPercentage: 0.25 }), standing(2, { winPercentage: 0.75 })],
+      ["points_for", "coin_flip"]
+    );
+    expect(result.map((s) => s.teamId)).toEqual([2, 1]);
+    expect(result.every((s) => s.tiebreaker === null)).toBe(true);
+  });
+
+  it("breaks a tie on head-to-head when every tied team met the others", () => {
+    const games = [game(1, 1, 50, 2, 60), game(2, 2, 70, 3, 60), game(3, 3, 70, 1, 70)];
+    const result = order(
+      [standing(1, { pointsFor: 300 }), standing(2), standing(3)],
+      ["head_to_head", "points_for", "coin_flip"],
+      games
+    );
+    expect(result.map((s) => s.teamId)).toEqual([2, 1, 3]);
+    expect(result[0].tiebreaker).toMatchObject({ rule: "head_to_head", detail: "2-0-0" });
+    // Teams 1 and 3 tied their game and go on to points for
+    expect(result[1].tiebreaker).toMatchObject({ rule: "points_for", tiedWith: ["Team 3"] });
+  });
+
+  it("skips head-to-head when the tied teams did not all meet", () => {
+    const games = [game(1, 1, 80, 2, 60)];
+    const result = order(
+      [standing(1, { pointsFor: 90 }), standing(2), standing(3, { pointsFor: 120 })],
+      ["head_to_head", "points_for", "coin_flip"],
+      games
+    );
+    expect(result.map((s) => s.teamId)).toEqual([3, 2, 1]);
+    expect(result[0].tiebreaker?.rule).toBe("points_for");
+  });
+
+  it("skips head-to-head when the tied teams met unevenly", () => {
+    const games = [
+      game(1, 1, 80, 2, 60),
+      game(2, 1, 80, 2, 60),
+      game(3, 2, 80, 3, 60),
+      game(4, 3, 80, 1, 60),
+    ];
+    const result = order(
+      [standing(1), standing(2, { pointsFor: 150 }), standing(3)],
+      ["head_to_head", "points_for", "coin_flip"],
+      games
+    );
+    expect(result[0].teamId).toBe(2);
+    expect(result[0].tiebreaker?.rule).toBe("points_for");
+  });
+
+  it("ranks fewer points against higher", () => {
+    const result = order(
+      [standing(1, { pointsAgainst: 120 }), standing(2, { pointsAgainst: 90 })],
+      ["points_against", "coin_flip"]
+    );
+    expect(result.map((s) => s.teamId)).toEqual([2, 1]);
+  });
+
+  it("skips the division record when teams have no division", () => {
+    const result = order(
+      [standing(1), standing(2, { pointsFor: 110 })],
+      ["division_record", "points_for", "coin_flip"]
+    );
+    expect(result.map((s) => s.teamId)).toEqual([2, 1]);
+    expect(result[0].tiebreaker?.rule).toBe("points_for");
+  });
+
+  it("compares records against division rivals", () => {
+    const games = [game(1, 1, 80, 3, 60), game(2, 2, 60, 4, 80), game(3, 1, 60, 2, 80)];
+    const result = order(
+      [
+        standing(1, { divisionId: 10 }),
+        standing(2, { divisionId: 20 }),
+        standing(3, { divisionId: 10, winPercentage: 0 }),
+        standing(4, { divisionId: 20, winPercentage: 0 }),
+      ],
+      ["division_record", "coin_flip"],
+      games
+    );
+    expect(result.slice(0, 2).map((s) => s.teamId)).toEqual([1, 2]);
+    expect(result[0].tiebreaker).toMatchObject({ rule: "division_record", detail: "1-0-0" });
+  });
+
+  it("compares recorded wins against the median", () => {
+    const medianRecords = new Map<number, MedianRecord>([
+      [1, { wins: 3, losses: 5, ties: 0 }],
+      [2, { wins: 6, losses: 2, ties: 0 }],
+    ]);
+    const result = order([standing(1), standing(2)], ["median_wins", "coin_flip"], [], medianRecords);
+    expect(result.map((s) => s.teamId)).toEqual([2, 1]);
+    expect(result[0].tiebreaker).toMatchObject({ rule: "median_wins", detail: "6-2-0" });
+  });
+
+  it("skips median wins when the league has no median games", () => {
+    const result = order([standing(1), standing(2, { pointsFor: 110 })], ["median_wins", "points_for", "coin_flip"]);
+    expect(result[0].tiebreaker?.rule).toBe("points_for");
+  });
+
+  it("settles a complete tie with the same coin flip every time", () => {
+    const standings = [standing(1), standing(2), standing(3)];
+    const first = order(standings, ["coin_flip"]).map((s) => s.teamId);
+    const second = order([...standings].reverse(), ["coin_flip"]).map((s) => s.teamId);
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(3);
+  });
+});
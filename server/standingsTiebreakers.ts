@@ -0,0 +1,256 @@
+import { matchups } from "../drizzle/schema";
+import { TIEBREAKER_LABELS, type StandingsTiebreaker } from "../shared/tiebreakers";
+import type { MedianRecord } from "./medianService";
+
+type MatchupRow = typeof matchups.$inferSelect;
+
+export interface TiebreakerStanding {
+  teamId: number;
+  teamName: string;
+  winPercentage: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  divisionId: number | null;
+}
+
+/**
+ * Which tiebreaker fixed a team's place among the teams it was tied with
+ */
+export interface TiebreakerResult {
+  rule: StandingsTiebreaker;
+  label: string;
+  tiedWith: string[];
+  detail: string;
+}
+
+export interface TiebreakerContext {
+  leagueId: number;
+  year: number;
+  tiebreakers: StandingsTiebreaker[];
+  /** Final matchups of the season */
+  matchups: MatchupRow[];
+  /** Recorded games against the league median (getMedianRecords), empty when the league doesn't play it */
+  medianRecords: Map<number, MedianRecord>;
+}
+
+/**
+ * Head-to-head record between two teams from a list of final matchups
+ */
+export function summarizeHeadToHead(games: MatchupRow[], team1Id: number, team2Id: number) {
+  const h2hMatchups = games.filter(
+    (m) =>
+      (m.team1Id === team1Id && m.team2Id === team2Id) ||
+      (m.team1Id === team2Id && m.team2Id === team1Id)
+  );
+
+  let team1Wins = 0;
+  let team2Wins = 0;
+  let ties = 0;
+  let team1PointsFor = 0;
+  let team2PointsFor = 0;
+
+  for (const matchup of h2hMatchups) {
+    const isTeam1First = matchup.team1Id === team1Id;
+    team1PointsFor += isTeam1First ? matchup.team1Score : matchup.team2Score;
+    team2PointsFor += isTeam1First ? matchup.team2Score : matchup.team1Score;
+
+    if (matchup.winnerId === team1Id) {
+      team1Wins++;
+    } else if (matchup.winnerId === team2Id) {
+      team2Wins++;
+    } else {
+      ties++;
+    }
+  }
+
+  return {
+    team1Id,
+    team2Id,
+    team1Wins,
+    team2Wins,
+    ties,
+    team1PointsFor,
+    team2PointsFor,
+    totalGames: h2hMatchups.length,
+  };
+}
+
+/**
+ * Seeded coin flip: the same league, season and team always land the same way
+ */
+function coinFlipValue(leagueId: number, year: number, teamId: number): number {
+  const seed = `${leagueId}:${year}:${teamId}`;
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function formatRecord(wins: number, losses: number, ties: number) {
+  return `${wins}-${losses}-${ties}`;
+}
+
+type RuleValues = Map<number, { value: number; detail: string }>;
+
+/**
+ * Sort standings by win percentage and break ties with the league's tiebreaker chain.
+ * Each tied team gets the tiebreaker that decided its place attached.
+ */
+export function sortStandingsWithTiebreakers<T extends TiebreakerStanding>(
+  standings: T[],
+  context: TiebreakerContext
+): Array<T & { tiebreaker: TiebreakerResult | null }> {
+  const { leagueId, year, tiebreakers, matchups: games, medianRecords } = context;
+  const divisionByTeam = new Map(standings.map((s) => [s.teamId, s.divisionId]));
+  const decided = new Map<number, TiebreakerResult>();
+
+  // Record of each team in games against the given opponents
+  const recordAgainst = (teamId: number, opponents: (opponentId: number) => boolean) => {
+    let wins = 0;
+    let losses = 0;
+    let ties = 0;
+    for (const m of games) {
+      if (m.team1Id !== teamId && m.team2Id !== teamId) continue;
+      const opponentId = m.team1Id === teamId ? m.team2Id : m.team1Id;
+      if (!opponents(opponentId)) continue;
+      if (m.winnerId === teamId) wins++;
+      else if (m.winnerId === null) ties++;
+      else losses++;
+    }
+    const total = wins + losses + ties;
+    return { wins, losses, ties, total, pct: total > 0 ? (wins + ties * 0.5) / total : 0 };
+  };
+
+  /**
+   * Values for one rule (higher is better), or null when the rule can't separate this group
+   */
+  const valuesFor = (rule: StandingsTiebreaker, group: T[]): RuleValues | null => {
+    const values: RuleValues = new Map();
+
+    switch (rule) {
+      case "head_to_head": {
+        // Only meaningful when every pair of tied teams met, and met equally often
+        let gamesPerPair: number | null = null;
+        for (const s of group) {
+          let wins = 0;
+          let losses = 0;
+          let ties = 0;
+          for (const other of group) {
+            if (other.teamId === s.teamId) continue;
+            const h2h = summarizeHeadToHead(games, s.teamId, other.teamId);
+            gamesPerPair ??= h2h.totalGames;
+            if (h2h.totalGames === 0 || h2h.totalGames !== gamesPerPair) return null;
+            wins += h2h.team1Wins;
+            losses += h2h.team2Wins;
+            ties += h2h.ties;
+          }
+          const total = wins + losses + ties;
+          values.set(s.teamId, {
+            value: (wins + ties * 0.5) / total,
+            detail: formatRecord(wins, losses, ties),
+          });
+        }
+        return values;
+      }
+      case "points_for":
+        for (const s of group) {
+          values.set(s.teamId, { value: s.pointsFor, detail: s.pointsFor.toFixed(1) });
+        }
+        return values;
+      case "points_against":
+        // Fewer points allowed is better
+        for (const s of group) {
+          values.set(s.teamId, { value: -s.pointsAgainst, detail: s.pointsAgainst.toFixed(1) });
+        }
+        return values;
+      case "division_record":
+        for (const s of group) {
+          if (s.divisionId === null) return null;
+          const record = recordAgainst(
+            s.teamId,
+            (id) => id !== s.teamId && divisionByTeam.get(id) === s.divisionId
+          );
+          values.set(s.teamId, {
+            value: record.pct,
+            detail: formatRecord(record.wins, record.losses, record.ties),
+          });
+        }
+        return values;
+      case "median_wins":
+        // Only leagues that play the median have median games to compare
+        if (medianRecords.size === 0) return null;
+        for (const s of group) {
+          const record = medianRecords.get(s.teamId) ?? { wins: 0, losses: 0, ties: 0 };
+          values.set(s.teamId, {
+            value: record.wins,
+            detail: formatRecord(record.wins, record.losses, record.ties),
+          });
+        }
+        return values;
+      case "coin_flip":
+        for (const s of group) {
+          values.set(s.teamId, { value: coinFlipValue(leagueId, year, s.teamId), detail: "" });
+        }
+        return values;
+    }
+  };
+
+  const resolve = (group: T[], ruleIndex: number): T[] => {
+    if (group.length < 2 || ruleIndex >= tiebreakers.length) {
+      return group;
+    }
+
+    const rule = tiebreakers[ruleIndex];
+    const values = valuesFor(rule, group);
+    if (!values) {
+      return resolve(group, ruleIndex + 1);
+    }
+
+    const sorted = [...group].sort((a, b) => values.get(b.teamId)!.value - values.get(a.teamId)!.value);
+    const subgroups: T[][] = [];
+    for (const standing of sorted) {
+      const last = subgroups[subgroups.length - 1];
+      if (last && values.get(last[0].teamId)!.value === values.get(standing.teamId)!.value) {
+        last.push(standing);
+      } else {
+        subgroups.push([standing]);
+      }
+    }
+
+    if (subgroups.length > 1) {
+      for (const standing of group) {
+        decided.set(standing.teamId, {
+          rule,
+          label: TIEBREAKER_LABELS[rule],
+          tiedWith: group.filter((s) => s.teamId !== standing.teamId).map((s) => s.teamName),
+          detail: values.get(standing.teamId)!.detail,
+        });
+      }
+    }
+
+    // Teams still level move on to the next tiebreaker
+    return subgroups.flatMap((subgroup) => resolve(subgroup, ruleIndex + 1));
+  };
+
+  const byWinPercentage = [...standings].sort((a, b) => b.winPercentage - a.winPercentage);
+  const ordered: T[] = [];
+  let start = 0;
+  while (start < byWinPercentage.length) {
+    let end = start + 1;
+    while (
+      end < byWinPercentage.length &&
+      byWinPercentage[end].winPercentage === byWinPercentage[start].winPercentage
+    ) {
+      end++;
+    }
+    ordered.push(...resolve(byWinPercentage.slice(start, end), 0));
+    start = end;
+  }
+
+  return ordered.map((standing) => ({
+    ...standing,
+    tiebreaker: decided.get(standing.teamId) ?? null,
+  }));
+}
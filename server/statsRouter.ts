@@ -1,4 +1,4 @@
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, router } from "./_core/trpc";
 import { getDb } from "./db";
 import {
   manufacturers,
@@ -17,6 +17,7 @@ import {
 } from "../drizzle/dailyChallengeSchema";
 import { count, eq, desc } from "drizzle-orm";
 import { z } from "zod";
+import { DRAFT_FORMATS, computeAssetDraftStats, getAssetDraftStats } from "./draftAnalyticsService";
 
 export const statsRouter = router({
   /**
@@ -329,4 +330,37 @@ export const statsRouter = router({
         return [];
       }
     }),
+
+  /**
+   * ADP, pick range and draft percentage per asset for a draft format.
+   * Without assets, returns the format's most drafted assets in ADP order.
+   */
+  getAdp: publicProcedure
+    .input(z.object({
+      draftFormat: z.enum(DRAFT_FORMATS),
+      assets: z.array(z.object({
+        assetType: z.enum(['manufacturer', 'cannabis_strain', 'product', 'pharmacy', 'brand']),
+        assetId: z.number(),
+      })).max(500).optional(),
+      limit: z.number().min(1).max(500).default(200),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      try {
+        const stats = await getAssetDraftStats(db, input.draftFormat, input.assets);
+        return input.assets ? stats : stats.slice(0, input.limit);
+      } catch (error) {
+        console.error("[Stats] Error fetching ADP:", error);
+        return [];
+      }
+    }),
+
+  /**
+   * Recompute ADP now instead of waiting for the nightly run
+   */
+  recomputeAdp: adminProcedure.mutation(async () => {
+    return computeAssetDraftStats();
+  }),
 });
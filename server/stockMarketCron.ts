@@ -9,6 +9,10 @@ import { stockPrices, userPortfolios, marketLeaderboard, marketAchievements } fr
 import { cannabisStrains, manufacturers } from "../drizzle/schema";
 import { strainDailyChallengeStats, manufacturerDailyChallengeStats } from "../drizzle/dailyChallengeSchema";
 import { eq, desc, sql, and, gte, lt } from "drizzle-orm";
+import { processCorporateActions } from "./corporateActionService";
+import { matchOpenOrders } from "./stockOrderService";
+import { evaluatePriceAlerts } from "./priceAlertService";
+import { enforceShortMaintenance } from "./shortSellingService";
 
 const BASE_PRICE = 10.00;
 
@@ -178,11 +182,45 @@ export async function updateDailyPrices() {
     }
 
     console.log(`[StockMarket] ✅ Updated ${prices.length} prices`);
+
+    await runPostPriceUpdateJobs(today);
+
     return prices.length;
 }
 
 /**
- * Update daily leaderboard
+ * Jobs that run after every price update, in order: corporate actions before
+ * orders see the new prices, then order matching, price alerts and short
+ * maintenance. A failing job is logged and does not stop the others.
+ */
+async function runPostPriceUpdateJobs(priceDate: string) {
+    try {
+        await processCorporateActions(priceDate);
+    } catch (error) {
+        console.error('[StockMarket] Corporate actions failed:', error);
+    }
+
+    try {
+        await matchOpenOrders(priceDate);
+    } catch (error) {
+        console.error('[StockMarket] Order matching failed:', error);
+    }
+
+    try {
+        await evaluatePriceAlerts();
+    } catch (error) {
+        console.error('[StockMarket] Price alert evaluation failed:', error);
+    }
+
+    try {
+        await enforceShortMaintenance(priceDate);
+    } catch (error) {
+        console.error('[StockMarket] Short maintenance check failed:', error);
+    }
+}
+
+/**
+ * Update daily leaderboard (global market only, market leagues rank live)
  */
 export async function updateDailyLeaderboard() {
     const db = await getDb();
@@ -191,10 +229,11 @@ export async function updateDailyLeaderboard() {
     const today = new Date().toISOString().split('T')[0];
     console.log(`[StockMarket] Updating leaderboard for ${today}...`);
 
-    // Get all portfolios
+    // Get all global market portfolios
     const portfolios = await db
         .select()
         .from(userPortfolios)
+        .where(eq(userPortfolios.marketLeagueId, 0))
         .orderBy(desc(userPortfolios.totalValue));
 
     let rank = 1;
@@ -255,6 +294,7 @@ export async function runWeeklyCompetition() {
             totalProfitLoss: userPortfolios.totalProfitLoss,
         })
         .from(userPortfolios)
+        .where(eq(userPortfolios.marketLeagueId, 0))
         .orderBy(desc(userPortfolios.totalProfitLoss))
         .limit(10);
 
@@ -297,7 +337,7 @@ export async function runWeeklyCompetition() {
         console.log(`[StockMarket] 🏆 User ${performer.userId} won ${reward.name} (+${reward.points} points)`);
     }
 
-    // Reset all portfolios for new week
+    // Reset all global market portfolios for new week, market leagues run their own season
     await db
         .update(userPortfolios)
         .set({
@@ -307,7 +347,8 @@ export async function runWeeklyCompetition() {
             winCount: 0,
             lossCount: 0,
             updatedAt: new Date().toISOString(),
-        });
+        })
+        .where(eq(userPortfolios.marketLeagueId, 0));
 
     console.log(`[StockMarket] ✅ Weekly competition complete, portfolios reset`);
     return topPerformers.slice(0, 3);
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { stockOrders } from "../drizzle/stockMarketSchema";
+import { getFillPrice, planOrderMatches, type OrderType } from "./stockOrderService";
+
+type OrderRow = typeof stockOrders.$inferSelect;
+
+function order(id: number, orderType: OrderType, triggerPrice: number, overrides: Partial<OrderRow> = {}): OrderRow {
+  return {
+    id,
+    userId: 1,
+    marketLeagueId: 0,
+    assetType: "strain",
+    assetId: 7,
+    assetName: "Lemon Haze",
+    orderType,
+    shares: "2",
+    triggerPrice: String(triggerPrice),
+    timeInForce: "gtc",
+    reservedCash: "0",
+    status: "open",
+    statusReason: null,
+    filledPrice: null,
+    createdAt: "2025-01-10T10:00:00.000Z",
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+describe("getFillPrice", () => {
+  it("fills a limit buy at the score once it is at or below the limit", () => {
+    expect(getFillPrice(order(1, "limit_buy", 400), 420)).toBeNull();
+    expect(getFillPrice(order(1, "limit_buy", 400), 400)).toBe(400);
+    expect(getFillPrice(order(1, "limit_buy", 400), 380)).toBe(380);
+  });
+
+  it("fills limit sells and take-profits once the score reaches the limit", () => {
+    expect(getFillPrice(order(1, "limit_sell", 500), 480)).toBeNull();
+    expect(getFillPrice(order(1, "take_profit", 500), 480)).toBeNull();
+    expect(getFillPrice(order(1, "take_profit", 500), 530)).toBe(530);
+  });
+
+  it("triggers a stop-loss at or below the stop and sells at the score", () => {
+    expect(getFillPrice(order(1, "stop_loss", 450), 500)).toBeNull();
+    expect(getFillPrice(order(1, "stop_loss", 450), 450)).toBe(450);
+    expect(getFillPrice(order(1, "stop_loss", 450), 430)).toBe(430);
+  });
+});
+
+describe("planOrderMatches", () => {
+  it("matches each order against the score of its own asset", () => {
+    const stop = order(1, "stop_loss", 450);
+    const takeProfit = order(2, "take_profit", 550);
+    const otherAsset = order(3, "limit_buy", 30, { assetType: "manufacturer", assetId: 2 });
+    const prices = new Map([
+      ["strain-7", 500],
+      ["manufacturer-2", 25],
+    ]);
+
+    const { fills, expiries } = planOrderMatches([stop, takeProfit, otherAsset], prices);
+    expect(fills).toEqual([{ order: otherAsset, fillPrice: 25 }]);
+    expect(expiries).toEqual([]);
+  });
+
+  it("expires day orders that did not fill and keeps GTC orders open", () => {
+    const day = order(1, "limit_buy", 400, { timeInForce: "day" });
+    const gtc = order(2, "limit_buy", 400);
+
+    const { fills, expiries } = planOrderMatches([day, gtc], new Map([["strain-7", 500]]));
+    expect(fills).toEqual([]);
+    expect(expiries).toEqual([day]);
+  });
+
+  it("does not fill orders on assets without a price", () => {
+    const day = order(1, "stop_loss", 450, { timeInForce: "day" });
+    expect(planOrderMatches([day], new Map())).toEqual({ fills: [], expiries: [day] });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Stock Order Book
+ *
+ * Resting limit buy/sell, stop-loss and take-profit orders. Orders are matched
+ * after each price update against the current score, the same price instant
+ * trades execute at. A triggered order fills at that score:
+ * - limit_buy once the score is at or below its limit
+ * - limit_sell / take_profit once the score is at or above their limit
+ * - stop_loss once the score is at or below the stop
+ *
+ * Nothing moves while an order rests. Open limit buys hold back their cash and
+ * open sell-side orders hold back shares of the long holding, so instant trades
+ * can only use what is not reserved. GTC orders rest until filled or cancelled;
+ * day orders expire after the first price update that does not fill them.
+ * Orders of a market league are cancelled once its season has ended.
+ */
+
+import { getDb } from "./db";
+import { marketLeagues, stockHoldings, stockOrders, tradeHistory, userPortfolios } from "../drizzle/stockMarketSchema";
+import { and, eq, lt, ne, sql } from "drizzle-orm";
+import type { Database } from "./assetNames";
+import { getCurrentPrice } from "./stockPricingEngine";
+import { wsManager } from "./websocket";
+
+export const ORDER_TYPES = ['limit_buy', 'limit_sell', 'stop_loss', 'take_profit'] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+export const TIME_IN_FORCE = ['gtc', 'day'] as const;
+
+type OrderRow = typeof stockOrders.$inferSelect;
+
+/**
+ * Cash held back by a user's open limit buys in one market
+ */
+export async function getReservedCash(db: Database, userId: number, marketLeagueId: number) {
+    const [row] = await db
+        .select({ total: sql<string | null>`sum(${stockOrders.reservedCash})` })
+        .from(stockOrders)
+        .where(and(
+            eq(stockOrders.userId, userId),
+            eq(stockOrders.marketLeagueId, marketLeagueId),
+            eq(stockOrders.status, 'open'),
+            eq(stockOrders.orderType, 'limit_buy'),
+        ));
+    return Number(row?.total ?? 0);
+}
+
+/**
+ * Shares of a long holding held back by open sell-side orders
+ */
+export async function getReservedShares(db: Database, userId: number, marketLeagueId: number, assetType: string, assetId: number) {
+    const [row] = await db
+        .select({ total: sql<string | null>`sum(${stockOrders.shares})` })
+        .from(stockOrders)
+        .where(and(
+            eq(stockOrders.userId, userId),
+            eq(stockOrders.marketLeagueId, marketLeagueId),
+            eq(stockOrders.assetType, assetType),
+            eq(stockOrders.assetId, assetId),
+            eq(stockOrders.status, 'open'),
+            ne(stockOrders.orderType, 'limit_buy'),
+        ));
+    return Number(row?.total ?? 0);
+}
+
+/**
+ * Price an order fills at against the current score, or null when it does not trigger
+ */
+export function getFillPrice(order: Pick<OrderRow, 'orderType' | 'triggerPrice'>, price: number): number | null {
+    const trigger = Number(order.triggerPrice);
+    switch (order.orderType as OrderType) {
+        case 'limit_buy':
+        case 'stop_loss':
+            return price <= trigger ? price : null;
+        case 'limit_sell':
+        case 'take_profit':
+            return price >= trigger ? price : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Split open orders into the ones that fill at the given prices (keyed by
+ * "assetType-assetId") and the day orders that expire unfilled
+ */
+export function planOrderMatches(orders: OrderRow[], prices: Map<string, number>) {
+    const fills: Array<{ order: OrderRow; fillPrice: number }> = [];
+    const expiries: OrderRow[] = [];
+    for (const order of orders) {
+        const price = prices.get(`${order.assetType}-${order.assetId}`);
+        const fillPrice = price !== undefined ? getFillPrice(order, price) : null;
+
+        if (fillPrice !== null) fills.push({ order, fillPrice });
+        else if (order.timeInForce === 'day') expiries.push(order);
+    }
+    return { fills, expiries };
+}
+
+/**
+ * Execute a triggered order. Returns the final status, which is 'cancelled'
+ * when the cash or shares it relied on are gone.
+ */
+async function fillOrder(db: Database, order: OrderRow, fillPrice: number) {
+    const shares = Number(order.shares);
+    const now = new Date().toISOString();
+
+    return db.transaction(async (tx) => {
+        // Claim the order first so overlapping runs fill it only once
+        const [claimed] = await tx
+            .update(stockOrders)
+            .set({ status: 'filled', filledPrice: String(fillPrice), closedAt: now })
+            .where(and(eq(stockOrders.id, order.id), eq(stockOrders.status, 'open')))
+            .returning({ id: stockOrders.id });
+        if (!claimed) return null;
+
+        const cancel = async (reason: string) => {
+            await tx
+                .update(stockOrders)
+                .set({ status: 'cancelled', statusReason: reason, filledPrice: null })
+                .where(eq(stockOrders.id, order.id));
+            return 'cancelled' as const;
+        };
+
+        const portfolioScope = and(
+            eq(userPortfolios.userId, order.userId),
+            eq(userPortfolios.marketLeagueId, order.marketLeagueId)
+        );
+        const [portfolio] = await tx
+            .select()
+            .from(userPortfolios)
+            .where(portfolioScope)
+            .limit(1);
+        if (!portfolio) return cancel('Portfolio no longer exists');
+
+        const [holding] = await tx
+            .select()
+            .from(stockHoldings)
+            .where(and(
+                eq(stockHoldings.userId, order.userId),
+                eq(stockHoldings.marketLeagueId, order.marketLeagueId),
+                eq(stockHoldings.assetType, order.assetType),
+                eq(stockHoldings.assetId, order.assetId),
+                eq(stockHoldings.isShort, false)
+            ))
+            .limit(1);
+
+        const totalValue = shares * fillPrice;
+
+        if (order.orderType === 'limit_buy') {
+            if (totalValue > Number(portfolio.cashBalance)) return cancel('Insufficient balance at fill');
+
+            await tx
+                .update(userPortfolios)
+                .set({
+                    cashBalance: String(Number(portfolio.cashBalance) - totalValue),
+                    updatedAt: now,
+                })
+                .where(portfolioScope);
+
+            if (holding) {
+                const existingShares = Number(holding.shares);
+                const newTotalShares = existingShares + shares;
+                const newAvgPrice = ((existingShares * Number(holding.avgBuyPrice)) + totalValue) / newTotalShares;
+                await tx
+                    .update(stockHoldings)
+                    .set({ shares: String(newTotalShares), avgBuyPrice: String(newAvgPrice), updatedAt: now })
+                    .where(eq(stockHoldings.id, holding.id));
+            } else {
+                await tx
+                    .insert(stockHoldings)
+                    .values({
+                        userId: order.userId,
+                        marketLeagueId: order.marketLeagueId,
+                        assetType: order.assetType,
+                        assetId: order.assetId,
+                        shares: String(shares),
+                        avgBuyPrice: String(fillPrice),
+                        isShort: false,
+                    });
+            }
+
+            await tx
+                .insert(tradeHistory)
+                .values({
+                    userId: order.userId,
+                    marketLeagueId: order.marketLeagueId,
+                    assetType: order.assetType,
+                    assetId: order.assetId,
+                    assetName: order.assetName,
+                    action: 'buy',
+                    shares: String(shares),
+                    pricePerShare: String(fillPrice),
+                    totalValue: String(totalValue),
+                });
+            return 'filled' as const;
+        }
+
+        if (!holding || Number(holding.shares) < shares) return cancel('Not enough shares at fill');
+
+        const profitLoss = (fillPrice - Number(holding.avgBuyPrice)) * shares;
+        await tx
+            .update(userPortfolios)
+            .set({
+                cashBalance: String(Number(portfolio.cashBalance) + totalValue),
+                totalProfitLoss: String(Number(portfolio.totalProfitLoss) + profitLoss),
+                winCount: profitLoss > 0 ? sql`${userPortfolios.winCount} + 1` : userPortfolios.winCount,
+                lossCount: profitLoss < 0 ? sql`${userPortfolios.lossCount} + 1` : userPortfolios.lossCount,
+                updatedAt: now,
+            })
+            .where(portfolioScope);
+
+        const remainingShares = Number(holding.shares) - shares;
+        if (remainingShares <= 0) {
+            await tx.delete(stockHoldings).where(eq(stockHoldings.id, holding.id));
+        } else {
+            await tx
+                .update(stockHoldings)
+                .set({ shares: String(remainingShares), updatedAt: now })
+                .where(eq(stockHoldings.id, holding.id));
+        }
+
+        await tx
+            .insert(tradeHistory)
+            .values({
+                userId: order.userId,
+                marketLeagueId: order.marketLeagueId,
+                assetType: order.assetType,
+                assetId: order.assetId,
+                assetName: order.assetName,
+                action: 'sell',
+                shares: String(shares),
+                pricePerShare: String(fillPrice),
+                totalValue: String(totalValue),
+                profitLoss: String(profitLoss),
+            });
+        return 'filled' as const;
+    });
+}
+
+/**
+ * Match all open orders against the current scores. Runs after every price
+ * update; priceDate decides which market league seasons have ended.
+ */
+export async function matchOpenOrders(priceDate: string) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Leagues whose season is over stop filling orders
+    const endedLeagues = await db
+        .select({ id: marketLeagues.id })
+        .from(marketLeagues)
+        .where(lt(marketLeagues.endDate, priceDate));
+    for (const league of endedLeagues) {
+        await db
+            .update(stockOrders)
+            .set({ status: 'cancelled', statusReason: 'Market league season ended', closedAt: new Date().toISOString() })
+            .where(and(eq(stockOrders.marketLeagueId, league.id), eq(stockOrders.status, 'open')));
+    }
+
+    const openOrders = await db
+        .select()
+        .from(stockOrders)
+        .where(eq(stockOrders.status, 'open'));
+    if (openOrders.length === 0) return { matched: 0, filled: 0, expired: 0 };
+
+    // One price lookup per asset, however many orders rest on it
+    const prices = new Map<string, number>();
+    for (const order of openOrders) {
+        const key = `${order.assetType}-${order.assetId}`;
+        if (!prices.has(key)) prices.set(key, await getCurrentPrice(order.assetType, order.assetId));
+    }
+    const { fills, expiries } = planOrderMatches(openOrders, prices);
+
+    let filled = 0;
+    for (const { order, fillPrice } of fills) {
+        const status = await fillOrder(db, order, fillPrice);
+        if (!status) continue;
+        if (status === 'filled') filled++;
+
+        wsManager.notifyUser(order.userId, {
+            type: 'order_update',
+            orderId: order.id,
+            orderType: order.orderType,
+            assetName: order.assetName,
+            shares: Number(order.shares),
+            status,
+            price: fillPrice,
+        });
+    }
+
+    let expired = 0;
+    for (const order of expiries) {
+        await db
+            .update(stockOrders)
+            .set({ status: 'expired', closedAt: new Date().toISOString() })
+            .where(and(eq(stockOrders.id, order.id), eq(stockOrders.status, 'open')));
+        expired++;
+    }
+
+    console.log(`[StockOrders] Matched ${openOrders.length} open orders for ${priceDate}: ${filled} filled, ${expired} expired`);
+    return { matched: openOrders.length, filled, expired };
+}
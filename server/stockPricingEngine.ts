@@ -10,8 +10,8 @@
 import { getDb } from "./db";
 import { strains, cannabisStrains, manufacturers } from "../drizzle/schema";
 import { strainDailyChallengeStats, manufacturerDailyChallengeStats } from "../drizzle/dailyChallengeSchema";
-import { stockPrices } from "../drizzle/stockMarketSchema";
-import { eq, desc, sql, and, gte, avg } from "drizzle-orm";
+import { stockCorporateActions, stockPrices } from "../drizzle/stockMarketSchema";
+import { eq, desc, sql, and, gte, lte, asc, avg } from "drizzle-orm";
 
 const BASE_PRICE = 10.00; // All stocks start at €10
 const VOLATILITY_RANGE = 0.2; // ±20% random volatility
@@ -276,10 +276,185 @@ export async function savePrices(prices: StockPrice[], date: string): Promise<vo
 }
 
 /**
- * Get current dynamic score for an asset (replaces old static price)
- * Computes score from strainDailyChallengeStats using popularity/momentum formula
+ * Cumulative split ratio of every asset that has split, keyed by "assetType-assetId"
+ */
+export async function getSplitFactors(): Promise<Map<string, number>> {
+    const db = await getDb();
+    if (!db) return new Map();
+
+    const splits = await db
+        .select({
+            assetType: stockCorporateActions.assetType,
+            assetId: stockCorporateActions.assetId,
+            ratio: stockCorporateActions.amount,
+        })
+        .from(stockCorporateActions)
+        .where(eq(stockCorporateActions.actionType, 'split'));
+
+    const factors = new Map<string, number>();
+    for (const split of splits) {
+        const key = `${split.assetType}-${split.assetId}`;
+        factors.set(key, (factors.get(key) ?? 1) * Number(split.ratio));
+    }
+    return factors;
+}
+
+/**
+ * Cumulative split ratio of one asset (1 when it never split)
+ */
+export async function getSplitFactor(assetType: string, assetId: number): Promise<number> {
+    const db = await getDb();
+    if (!db) return 1;
+
+    const splits = await db
+        .select({ ratio: stockCorporateActions.amount })
+        .from(stockCorporateActions)
+        .where(and(
+            eq(stockCorporateActions.assetType, assetType),
+            eq(stockCorporateActions.assetId, assetId),
+            eq(stockCorporateActions.actionType, 'split')
+        ));
+    return splits.reduce((factor, split) => factor * Number(split.ratio), 1);
+}
+
+/**
+ * Get current dynamic score for an asset (replaces old static price),
+ * divided by the ratio of every split the asset went through
  */
 export async function getCurrentPrice(assetType: string, assetId: number): Promise<number> {
+    const score = await getUnadjustedScore(assetType, assetId);
+    const splitFactor = await getSplitFactor(assetType, assetId);
+    return splitFactor === 1 ? score : Math.round((score / splitFactor) * 100) / 100;
+}
+
+/**
+ * Daily prices of an asset from `from` through `to`, oldest first: the same
+ * scores getCurrentPrice quotes, divided by the ratio of every split
+ */
+export async function getPriceHistory(
+    assetType: string,
+    assetId: number,
+    from: string,
+    to: string
+): Promise<Array<{ date: string; price: number }>> {
+    const db = await getDb();
+    if (!db) return [];
+
+    let scores: Array<{ date: string; score: number }>;
+    if (assetType === 'strain' || assetType === 'product') {
+        const stats = await db
+            .select({
+                statDate: strainDailyChallengeStats.statDate,
+                orderCount: strainDailyChallengeStats.orderCount,
+                rank: strainDailyChallengeStats.rank,
+                trendMultiplier: strainDailyChallengeStats.trendMultiplier,
+                consistencyScore: strainDailyChallengeStats.consistencyScore,
+                streakDays: strainDailyChallengeStats.streakDays,
+            })
+            .from(strainDailyChallengeStats)
+            .where(and(
+                eq(strainDailyChallengeStats.strainId, assetId),
+                gte(strainDailyChallengeStats.statDate, from),
+                lte(strainDailyChallengeStats.statDate, to)
+            ))
+            .orderBy(asc(strainDailyChallengeStats.statDate));
+
+        // Ranking bonus is relative to the number of strains ranked that day
+        const counts = await db
+            .select({
+                statDate: strainDailyChallengeStats.statDate,
+                count: sql<number>`count(distinct ${strainDailyChallengeStats.strainId})`,
+            })
+            .from(strainDailyChallengeStats)
+            .where(and(
+                gte(strainDailyChallengeStats.statDate, from),
+                lte(strainDailyChallengeStats.statDate, to)
+            ))
+            .groupBy(strainDailyChallengeStats.statDate);
+        const totals = new Map(counts.map(c => [c.statDate, Number(c.count) || 50]));
+
+        scores = stats.map(stat => ({
+            date: stat.statDate,
+            score: calculateDynamicScore(stat, totals.get(stat.statDate) ?? 50),
+        }));
+    } else {
+        // Manufacturers are quoted at their daily close
+        const bars = await db
+            .select({ priceDate: stockPrices.priceDate, closePrice: stockPrices.closePrice })
+            .from(stockPrices)
+            .where(and(
+                eq(stockPrices.assetType, assetType),
+                eq(stockPrices.assetId, assetId),
+                gte(stockPrices.priceDate, from),
+                lte(stockPrices.priceDate, to)
+            ))
+            .orderBy(asc(stockPrices.priceDate));
+        scores = bars.map(bar => ({ date: bar.priceDate, score: Number(bar.closePrice) }));
+    }
+
+    const splitFactor = await getSplitFactor(assetType, assetId);
+    return scores.map(({ date, score }) => ({
+        date,
+        price: splitFactor === 1 ? score : Math.round((score / splitFactor) * 100) / 100,
+    }));
+}
+
+/**
+ * Last price of an asset on or before a date, or null when it was never quoted
+ * by then. Same scale as getCurrentPrice.
+ */
+export async function getLastPrice(assetType: string, assetId: number, date: string): Promise<number | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    let score: number | null = null;
+    if (assetType === 'strain' || assetType === 'product') {
+        const [stat] = await db
+            .select({
+                statDate: strainDailyChallengeStats.statDate,
+                orderCount: strainDailyChallengeStats.orderCount,
+                rank: strainDailyChallengeStats.rank,
+                trendMultiplier: strainDailyChallengeStats.trendMultiplier,
+                consistencyScore: strainDailyChallengeStats.consistencyScore,
+                streakDays: strainDailyChallengeStats.streakDays,
+            })
+            .from(strainDailyChallengeStats)
+            .where(and(
+                eq(strainDailyChallengeStats.strainId, assetId),
+                lte(strainDailyChallengeStats.statDate, date)
+            ))
+            .orderBy(desc(strainDailyChallengeStats.statDate))
+            .limit(1);
+        if (stat) {
+            const [countResult] = await db
+                .select({ count: sql<number>`count(distinct ${strainDailyChallengeStats.strainId})` })
+                .from(strainDailyChallengeStats)
+                .where(eq(strainDailyChallengeStats.statDate, stat.statDate));
+            score = calculateDynamicScore(stat, Number(countResult?.count) || 50);
+        }
+    } else {
+        const [bar] = await db
+            .select({ closePrice: stockPrices.closePrice })
+            .from(stockPrices)
+            .where(and(
+                eq(stockPrices.assetType, assetType),
+                eq(stockPrices.assetId, assetId),
+                lte(stockPrices.priceDate, date)
+            ))
+            .orderBy(desc(stockPrices.priceDate))
+            .limit(1);
+        if (bar) score = Number(bar.closePrice);
+    }
+    if (score === null) return null;
+
+    const splitFactor = await getSplitFactor(assetType, assetId);
+    return splitFactor === 1 ? score : Math.round((score / splitFactor) * 100) / 100;
+}
+
+/**
+ * Computes score from strainDailyChallengeStats using popularity/momentum formula
+ */
+async function getUnadjustedScore(assetType: string, assetId: number): Promise<number> {
     const db = await getDb();
     if (!db) return BASE_PRICE;
 
@@ -361,7 +536,7 @@ function calculateDynamicScore(stats: {
     orderCount: number | null;
     rank: number | null;
     trendMultiplier: string | null;
-    consistencyScore: string | null;
+    consistencyScore: string | number | null;
     streakDays: number | null;
 }, totalStrains: number): number {
     // Order-based score (primary factor)
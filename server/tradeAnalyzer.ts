@@ -0,0 +1,412 @@
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+import {
+  brandDailyStats,
+  brandWeeklyStats,
+  cannabisStrainDailyStats,
+  cannabisStrainWeeklyStats,
+  leagues,
+  manufacturerDailyStats,
+  manufacturerWeeklyStats,
+  matchups,
+  pharmacyDailyStats,
+  pharmacyWeeklyStats,
+  rosters,
+  strainDailyStats,
+  strainWeeklyStats,
+  teams,
+  weeklyLineups,
+} from "../drizzle/schema";
+import { calculateTrendMultiplier } from "./trendScoringEngine";
+import { ASSET_TYPE_LABELS, getAssetName, type Database } from "./assetNames";
+
+type LeagueRow = typeof leagues.$inferSelect;
+
+export interface AnalyzedMove {
+  fromTeamId: number;
+  toTeamId: number;
+  assetType: string;
+  assetId: number;
+}
+
+interface DailyPoints {
+  assetId: number;
+  statDate: string;
+  points: number;
+}
+
+interface WeeklyPoints {
+  assetId: number;
+  week: number;
+  points: number;
+}
+
+const DAILY_HISTORY_DAYS = 14;
+const WEEKLY_HISTORY_WEEKS = 4;
+/** Share of the raw trend multiplier that carries into the projection */
+const TREND_WEIGHT = 0.1;
+const MAX_TREND_ADJUSTMENT = 0.2;
+/** A team gaining this share of all value moved makes a trade lopsided */
+const LOPSIDED_SHARE = 0.35;
+
+/**
+ * Recent daily points per asset type. Products score from the strain stats tables.
+ */
+const DAILY_POINTS: Record<string, (db: Database, ids: number[], since: string) => Promise<DailyPoints[]>> = {
+  manufacturer: (db, ids, since) =>
+    db
+      .select({ assetId: manufacturerDailyStats.manufacturerId, statDate: manufacturerDailyStats.statDate, points: manufacturerDailyStats.totalPoints })
+      .from(manufacturerDailyStats)
+      .where(and(inArray(manufacturerDailyStats.manufacturerId, ids), gte(manufacturerDailyStats.statDate, since))),
+  cannabis_strain: (db, ids, since) =>
+    db
+      .select({ assetId: cannabisStrainDailyStats.cannabisStrainId, statDate: cannabisStrainDailyStats.statDate, points: cannabisStrainDailyStats.totalPoints })
+      .from(cannabisStrainDailyStats)
+      .where(and(inArray(cannabisStrainDailyStats.cannabisStrainId, ids), gte(cannabisStrainDailyStats.statDate, since))),
+  product: (db, ids, since) =>
+    db
+      .select({ assetId: strainDailyStats.strainId, statDate: strainDailyStats.statDate, points: strainDailyStats.totalPoints })
+      .from(strainDailyStats)
+      .where(and(inArray(strainDailyStats.strainId, ids), gte(strainDailyStats.statDate, since))),
+  pharmacy: (db, ids, since) =>
+    db
+      .select({ assetId: pharmacyDailyStats.pharmacyId, statDate: pharmacyDailyStats.statDate, points: pharmacyDailyStats.totalPoints })
+      .from(pharmacyDailyStats)
+      .where(and(inArray(pharmacyDailyStats.pharmacyId, ids), gte(pharmacyDailyStats.statDate, since))),
+  brand: (db, ids, since) =>
+    db
+      .select({ assetId: brandDailyStats.brandId, statDate: brandDailyStats.statDate, points: brandDailyStats.totalPoints })
+      .from(brandDailyStats)
+      .where(and(inArray(brandDailyStats.brandId, ids), gte(brandDailyStats.statDate, since))),
+};
+
+/**
+ * Weekly points per asset type for the weeks [fromWeek, toWeek) of one season
+ */
+const WEEKLY_POINTS: Record<
+  string,
+  (db: Database, ids: number[], year: number, fromWeek: number, toWeek: number) => Promise<WeeklyPoints[]>
+> = {
+  manufacturer: (db, ids, year, fromWeek, toWeek) =>
+    db
+      .select({ assetId: manufacturerWeeklyStats.manufacturerId, week: manufacturerWeeklyStats.week, points: manufacturerWeeklyStats.totalPoints })
+      .from(manufacturerWeeklyStats)
+      .where(
+        and(
+          inArray(manufacturerWeeklyStats.manufacturerId, ids),
+          eq(manufacturerWeeklyStats.year, year),
+          gte(manufacturerWeeklyStats.week, fromWeek),
+          lt(manufacturerWeeklyStats.week, toWeek)
+        )
+      ),
+  cannabis_strain: (db, ids, year, fromWeek, toWeek) =>
+    db
+      .select({ assetId: cannabisStrainWeeklyStats.cannabisStrainId, week: cannabisStrainWeeklyStats.week, points: cannabisStrainWeeklyStats.totalPoints })
+      .from(cannabisStrainWeeklyStats)
+      .where(
+        and(
+          inArray(cannabisStrainWeeklyStats.cannabisStrainId, ids),
+          eq(cannabisStrainWeeklyStats.year, year),
+          gte(cannabisStrainWeeklyStats.week, fromWeek),
+          lt(cannabisStrainWeeklyStats.week, toWeek)
+        )
+      ),
+  product: (db, ids, year, fromWeek, toWeek) =>
+    db
+      .select({ assetId: strainWeeklyStats.strainId, week: strainWeeklyStats.week, points: strainWeeklyStats.totalPoints })
+      .from(strainWeeklyStats)
+      .where(
+        and(
+          inArray(strainWeeklyStats.strainId, ids),
+          eq(strainWeeklyStats.year, year),
+          gte(strainWeeklyStats.week, fromWeek),
+          lt(strainWeeklyStats.week, toWeek)
+        )
+      ),
+  pharmacy: (db, ids, year, fromWeek, toWeek) =>
+    db
+      .select({ assetId: pharmacyWeeklyStats.pharmacyId, week: pharmacyWeeklyStats.week, points: pharmacyWeeklyStats.totalPoints })
+      .from(pharmacyWeeklyStats)
+      .where(
+        and(
+          inArray(pharmacyWeeklyStats.pharmacyId, ids),
+          eq(pharmacyWeeklyStats.year, year),
+          gte(pharmacyWeeklyStats.week, fromWeek),
+          lt(pharmacyWeeklyStats.week, toWeek)
+        )
+      ),
+  brand: (db, ids, year, fromWeek, toWeek) =>
+    db
+      .select({ assetId: brandWeeklyStats.brandId, week: brandWeeklyStats.week, points: brandWeeklyStats.totalPoints })
+      .from(brandWeeklyStats)
+      .where(
+        and(
+          inArray(brandWeeklyStats.brandId, ids),
+          eq(brandWeeklyStats.year, year),
+          gte(brandWeeklyStats.week, fromWeek),
+          lt(brandWeeklyStats.week, toWeek)
+        )
+      ),
+};
+
+/**
+ * Lineup slots per asset type (the flex slot takes any type)
+ */
+const LINEUP_SLOTS: Record<string, Array<keyof typeof weeklyLineups.$inferSelect>> = {
+  manufacturer: ["mfg1Id", "mfg2Id"],
+  cannabis_strain: ["cstr1Id", "cstr2Id"],
+  product: ["prd1Id", "prd2Id"],
+  pharmacy: ["phm1Id", "phm2Id"],
+  brand: ["brd1Id"],
+};
+
+export interface AssetProjection {
+  assetType: string;
+  assetId: number;
+  /** Average weekly points over the last weeks with stats */
+  recentWeeklyAverage: number | null;
+  /** Last seven days of daily points, scaled to a week */
+  recentDailyPace: number | null;
+  trendMultiplier: number;
+  weeklyProjection: number;
+}
+
+const assetKey = (assetType: string, assetId: number) => `${assetType}:${assetId}`;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Project weekly points for every asset from recent weekly and daily stats.
+ * The latest day against the trailing week (calculateTrendMultiplier) nudges
+ * the projection up or down by at most MAX_TREND_ADJUSTMENT.
+ */
+export async function projectAssetPoints(
+  db: Database,
+  league: LeagueRow,
+  assets: Array<{ assetType: string; assetId: number }>
+): Promise<Map<string, AssetProjection>> {
+  const since = new Date(Date.now() - DAILY_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const fromWeek = Math.max(1, league.currentWeek - WEEKLY_HISTORY_WEEKS);
+  const projections = new Map<string, AssetProjection>();
+
+  const idsByType = new Map<string, number[]>();
+  for (const asset of assets) {
+    const ids = idsByType.get(asset.assetType) ?? [];
+    if (!ids.includes(asset.assetId)) ids.push(asset.assetId);
+    idsByType.set(asset.assetType, ids);
+  }
+
+  for (const [assetType, ids] of Array.from(idsByType.entries())) {
+    const loadDaily = DAILY_POINTS[assetType];
+    const loadWeekly = WEEKLY_POINTS[assetType];
+    if (!loadDaily || !loadWeekly) continue;
+
+    const [daily, weekly] = await Promise.all([
+      loadDaily(db, ids, since),
+      loadWeekly(db, ids, league.seasonYear, fromWeek, league.currentWeek),
+    ]);
+
+    for (const assetId of ids) {
+      const days = daily
+        .filter((d) => d.assetId === assetId)
+        .sort((a, b) => b.statDate.localeCompare(a.statDate));
+      const weeks = weekly.filter((w) => w.assetId === assetId);
+
+      const lastSevenDays = days.slice(0, 7);
+      const recentDailyPace =
+        lastSevenDays.length > 0
+          ? (lastSevenDays.reduce((sum, d) => sum + d.points, 0) / lastSevenDays.length) * 7
+          : null;
+      const recentWeeklyAverage =
+        weeks.length > 0 ? weeks.reduce((sum, w) => sum + w.points, 0) / weeks.length : null;
+
+      const base =
+        recentWeeklyAverage !== null && recentDailyPace !== null
+          ? (recentWeeklyAverage + recentDailyPace) / 2
+          : recentWeeklyAverage ?? recentDailyPace ?? 0;
+
+      const trendMultiplier =
+        days.length > 1
+          ? calculateTrendMultiplier(days[0].points, days.slice(1, 8).reduce((sum, d) => sum + d.points, 0))
+          : 1;
+      const adjustment = Math.min(
+        Math.max((trendMultiplier - 1) * TREND_WEIGHT, -MAX_TREND_ADJUSTMENT),
+        MAX_TREND_ADJUSTMENT
+      );
+
+      projections.set(assetKey(assetType, assetId), {
+        assetType,
+        assetId,
+        recentWeeklyAverage: recentWeeklyAverage === null ? null : round1(recentWeeklyAverage),
+        recentDailyPace: recentDailyPace === null ? null : round1(recentDailyPace),
+        trendMultiplier: Math.round(trendMultiplier * 100) / 100,
+        weeklyProjection: round1(Math.max(0, base * (1 + adjustment))),
+      });
+    }
+  }
+
+  return projections;
+}
+
+/**
+ * Regular-season weeks each team still has to play. Falls back to the weeks
+ * left before the playoffs when no schedule has been generated yet.
+ */
+async function getRemainingWeeks(db: Database, league: LeagueRow, teamIds: number[]) {
+  const upcoming = await db
+    .select({ week: matchups.week, team1Id: matchups.team1Id, team2Id: matchups.team2Id })
+    .from(matchups)
+    .where(
+      and(
+        eq(matchups.leagueId, league.id),
+        eq(matchups.year, league.seasonYear),
+        gte(matchups.week, league.currentWeek),
+        lt(matchups.week, league.playoffStartWeek)
+      )
+    );
+
+  const fallback = Math.max(0, league.playoffStartWeek - league.currentWeek);
+  return new Map(
+    teamIds.map((teamId) => {
+      if (upcoming.length === 0) return [teamId, fallback];
+      const weeks = new Set(upcoming.filter((m) => m.team1Id === teamId || m.team2Id === teamId).map((m) => m.week));
+      return [teamId, weeks.size];
+    })
+  );
+}
+
+/**
+ * Best projected starting lineup from a roster: positional slots first, then the flex
+ */
+function projectBestLineup(roster: Array<{ assetType: string; assetId: number }>, projections: Map<string, AssetProjection>) {
+  const projected = (a: { assetType: string; assetId: number }) =>
+    projections.get(assetKey(a.assetType, a.assetId))?.weeklyProjection ?? 0;
+  const starters: Array<{ assetType: string; assetId: number }> = [];
+  const bench: Array<{ assetType: string; assetId: number }> = [];
+
+  for (const [assetType, slots] of Object.entries(LINEUP_SLOTS)) {
+    const ofType = roster.filter((a) => a.assetType === assetType).sort((a, b) => projected(b) - projected(a));
+    starters.push(...ofType.slice(0, slots.length));
+    bench.push(...ofType.slice(slots.length));
+  }
+  const flex = bench.sort((a, b) => projected(b) - projected(a))[0];
+  if (flex) starters.push(flex);
+
+  return {
+    starters,
+    points: round1(starters.reduce((sum, a) => sum + projected(a), 0)),
+  };
+}
+
+/**
+ * Project rest-of-season value for each side of a trade, the effect on every
+ * team's starting lineup and whether one team comes out far ahead.
+ */
+export async function analyzeTradeMoves(db: Database, league: LeagueRow, moves: AnalyzedMove[]) {
+  const teamIds = Array.from(new Set(moves.flatMap((m) => [m.fromTeamId, m.toTeamId])));
+
+  const [tradeTeams, roster, lineups, remainingWeeks] = await Promise.all([
+    db.select({ id: teams.id, name: teams.name }).from(teams).where(inArray(teams.id, teamIds)),
+    db.select().from(rosters).where(inArray(rosters.teamId, teamIds)),
+    db
+      .select()
+      .from(weeklyLineups)
+      .where(
+        and(
+          inArray(weeklyLineups.teamId, teamIds),
+          eq(weeklyLineups.year, league.seasonYear),
+          eq(weeklyLineups.week, league.currentWeek)
+        )
+      ),
+    getRemainingWeeks(db, league, teamIds),
+  ]);
+
+  const projections = await projectAssetPoints(db, league, [...roster, ...moves]);
+  const weeklyProjection = (assetType: string, assetId: number) =>
+    projections.get(assetKey(assetType, assetId))?.weeklyProjection ?? 0;
+
+  const describe = async (move: AnalyzedMove) => {
+    const weeks = remainingWeeks.get(move.toTeamId) ?? 0;
+    const projection = projections.get(assetKey(move.assetType, move.assetId));
+    return {
+      ...move,
+      assetName: await getAssetName(db, move.assetType, move.assetId),
+      assetLabel: ASSET_TYPE_LABELS[move.assetType] || move.assetType,
+      recentWeeklyAverage: projection?.recentWeeklyAverage ?? null,
+      recentDailyPace: projection?.recentDailyPace ?? null,
+      trendMultiplier: projection?.trendMultiplier ?? 1,
+      weeklyProjection: weeklyProjection(move.assetType, move.assetId),
+      // Valued over the schedule of the team that receives the asset
+      restOfSeasonPoints: round1(weeklyProjection(move.assetType, move.assetId) * weeks),
+    };
+  };
+  const described = await Promise.all(moves.map(describe));
+
+  const teamAnalyses = await Promise.all(
+    teamIds.map(async (teamId) => {
+      const sends = described.filter((m) => m.fromTeamId === teamId);
+      const receives = described.filter((m) => m.toTeamId === teamId);
+      const weeks = remainingWeeks.get(teamId) ?? 0;
+      // What the team gives up is valued over its own remaining schedule
+      const valueSent = round1(sends.reduce((sum, m) => sum + m.weeklyProjection * weeks, 0));
+      const valueReceived = round1(receives.reduce((sum, m) => sum + m.restOfSeasonPoints, 0));
+
+      const before = roster.filter((e) => e.teamId === teamId);
+      const after = [
+        ...before.filter((e) => !sends.some((m) => m.assetType === e.assetType && m.assetId === e.assetId)),
+        ...receives,
+      ];
+      const lineupBefore = projectBestLineup(before, projections);
+      const lineupAfter = projectBestLineup(after, projections);
+
+      // Starters in this week's saved lineup that leave in the trade
+      const lineup = lineups.find((l) => l.teamId === teamId);
+      const startingKeys = new Set<string>();
+      if (lineup) {
+        for (const [assetType, slots] of Object.entries(LINEUP_SLOTS)) {
+          for (const slot of slots) {
+            const assetId = lineup[slot];
+            if (typeof assetId === "number") startingKeys.add(assetKey(assetType, assetId));
+          }
+        }
+        if (lineup.flexId && lineup.flexType) startingKeys.add(assetKey(lineup.flexType, lineup.flexId));
+      }
+      const afterStarterKeys = new Set(lineupAfter.starters.map((a) => assetKey(a.assetType, a.assetId)));
+
+      return {
+        teamId,
+        teamName: tradeTeams.find((t) => t.id === teamId)?.name || "Unknown Team",
+        remainingWeeks: weeks,
+        sends,
+        receives,
+        valueSent,
+        valueReceived,
+        netValue: round1(valueReceived - valueSent),
+        lineup: {
+          projectedBefore: lineupBefore.points,
+          projectedAfter: lineupAfter.points,
+          weeklyChange: round1(lineupAfter.points - lineupBefore.points),
+          startersLost: sends
+            .filter((m) => startingKeys.has(assetKey(m.assetType, m.assetId)))
+            .map((m) => m.assetName),
+          newStarters: receives
+            .filter((m) => afterStarterKeys.has(assetKey(m.assetType, m.assetId)))
+            .map((m) => m.assetName),
+        },
+      };
+    })
+  );
+
+  const totalValue = described.reduce((sum, m) => sum + m.restOfSeasonPoints, 0);
+  const favored = [...teamAnalyses].sort((a, b) => b.netValue - a.netValue)[0];
+  const imbalance = totalValue > 0 && favored ? Math.max(0, favored.netValue) / totalValue : 0;
+
+  return {
+    currentWeek: league.currentWeek,
+    teams: teamAnalyses,
+    totalValue: round1(totalValue),
+    imbalance: Math.round(imbalance * 100) / 100,
+    isLopsided: imbalance >= LOPSIDED_SHARE,
+    favoredTeamId: imbalance >= LOPSIDED_SHARE ? favored.teamId : null,
+  };
+}
+
+export type TradeAnalysis = Awaited<ReturnType<typeof analyzeTradeMoves>>;
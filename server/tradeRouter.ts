@@ -1,78 +1,269 @@
 import { z } from "zod";
 import { router, protectedProcedure } from "./_core/trpc";
 import { getDb } from "./db";
-import { trades, teams, rosters } from "../drizzle/schema";
-import { eq, and, or } from "drizzle-orm";
+import {
+  trades,
+  teams,
+  leagues,
+  rosters,
+  tradeAssets,
+  tradeBlockEntries,
+  tradeParticipants,
+  tradeVetoVotes,
+} from "../drizzle/schema";
+import { eq, and, or, desc, inArray } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import {
+  completeTradeAcceptance,
+  getTradeDetails,
+  getVetoThreshold,
+  normalizeTradeAssetType,
+  notifyTradeOffer,
+  validateTradeMoves,
+} from "./tradeService";
+import { ASSET_TYPE_LABELS, getAssetName, type Database, type DatabaseExecutor } from "./assetNames";
+import { analyzeTradeMoves } from "./tradeAnalyzer";
+import { DRAFT_PICK_ASSET_TYPE, getTradablePicks } from "./draftPickService";
 
 const AssetSchema = z.object({
-  type: z.enum(["manufacturer", "strain", "product", "pharmacy", "brand"]),
+  // Accept both "strain" and "cannabis_strain" for compatibility
+  type: z.enum(["manufacturer", "strain", "cannabis_strain", "product", "pharmacy", "brand"]),
   id: z.number(),
 });
 
+// Draft picks can be traded but not put on the trade block
+const TradeAssetSchema = AssetSchema.extend({
+  type: z.enum([...AssetSchema.shape.type.options, DRAFT_PICK_ASSET_TYPE]),
+  fromTeamId: z.number(),
+  toTeamId: z.number(),
+});
+
+const MAX_TRADE_TEAMS = 4;
+const MAX_OFFER_HOURS = 7 * 24;
+
+const OfferSchema = z.object({
+  teamIds: z.array(z.number()).min(1).max(MAX_TRADE_TEAMS - 1),
+  assets: z.array(TradeAssetSchema).min(1),
+  /** Hours until the offer expires when nobody answers it */
+  expiresInHours: z.number().int().min(1).max(MAX_OFFER_HOURS).optional(),
+  message: z.string().trim().max(500).optional(),
+});
+
+type TeamRow = typeof teams.$inferSelect;
+
+/**
+ * Validate an offer from my team and store it with its participants and assets.
+ * Callers notify the teams once the offer is committed.
+ */
+async function createTradeOffer(
+  db: DatabaseExecutor,
+  myTeam: TeamRow,
+  offer: z.infer<typeof OfferSchema>,
+  parentTradeId: number | null = null
+) {
+  // 1. Verify Partners
+  const partnerIds = Array.from(new Set(offer.teamIds)).filter((id) => id !== myTeam.id);
+  if (partnerIds.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Select at least one other team" });
+  }
+  const partners = await db
+    .select({ id: teams.id })
+    .from(teams)
+    .where(and(eq(teams.leagueId, myTeam.leagueId), inArray(teams.id, partnerIds)));
+  if (partners.length !== partnerIds.length) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "All trade partners must be in this league" });
+  }
+
+  // 2. Verify Assets: every move is between participants and every team is involved
+  const participantIds = [myTeam.id, ...partnerIds];
+  const moves = offer.assets.map((asset) => ({
+    fromTeamId: asset.fromTeamId,
+    toTeamId: asset.toTeamId,
+    assetType: normalizeTradeAssetType(asset.type),
+    assetId: asset.id,
+  }));
+
+  for (const move of moves) {
+    if (!participantIds.includes(move.fromTeamId) || !participantIds.includes(move.toTeamId)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Assets can only move between teams in the trade" });
+    }
+    if (move.fromTeamId === move.toTeamId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "An asset cannot be traded to its own team" });
+    }
+  }
+
+  const assetKeys = moves.map((m) => `${m.assetType}:${m.assetId}`);
+  if (new Set(assetKeys).size !== assetKeys.length) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Each asset can only be traded once" });
+  }
+
+  for (const teamId of participantIds) {
+    if (!moves.some((m) => m.fromTeamId === teamId || m.toTeamId === teamId)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Every team in the trade must send or receive an asset" });
+    }
+  }
+
+  // 3. Verify Ownership and Roster Limits
+  const error = await validateTradeMoves(db, moves);
+  if (error) throw new TRPCError({ code: "BAD_REQUEST", message: error });
+
+  // 4. Create Trade (team1/team2 keep the first two teams for older clients)
+  const toAssetList = (list: typeof moves) => list.map((m) => ({ type: m.assetType, id: m.assetId }));
+  const [trade] = await db
+    .insert(trades)
+    .values({
+      leagueId: myTeam.leagueId,
+      team1Id: myTeam.id,
+      team2Id: partnerIds[0],
+      team1Assets: toAssetList(moves.filter((m) => m.fromTeamId === myTeam.id)),
+      team2Assets: toAssetList(moves.filter((m) => m.toTeamId === myTeam.id)),
+      proposedBy: myTeam.id,
+      status: "proposed",
+      parentTradeId,
+      expiresAt: offer.expiresInHours
+        ? new Date(Date.now() + offer.expiresInHours * 60 * 60 * 1000).toISOString()
+        : null,
+      message: offer.message || null,
+    })
+    .returning({ id: trades.id });
+
+  await db.insert(tradeParticipants).values(
+    participantIds.map((teamId) => ({
+      tradeId: trade.id,
+      teamId,
+      status: teamId === myTeam.id ? "proposer" : "pending",
+    }))
+  );
+  await db.insert(tradeAssets).values(moves.map((m) => ({ tradeId: trade.id, ...m })));
+
+  return trade;
+}
+
+/**
+ * Load an open trade, marking it expired when its deadline has already passed
+ */
+async function getOpenTrade(db: Database, tradeId: number) {
+  const [trade] = await db
+    .select()
+    .from(trades)
+    .where(eq(trades.id, tradeId))
+    .limit(1);
+  if (!trade) throw new TRPCError({ code: "NOT_FOUND", message: "Trade not found" });
+  if (trade.status !== "proposed") throw new TRPCError({ code: "BAD_REQUEST", message: "Trade is not active" });
+
+  if (trade.expiresAt && new Date(trade.expiresAt).getTime() <= Date.now()) {
+    await db
+      .update(trades)
+      .set({ status: "expired", updatedAt: new Date().toISOString() })
+      .where(eq(trades.id, trade.id));
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This trade offer has expired" });
+  }
+
+  return trade;
+}
+
+/**
+ * League of a trade, as long as the user manages a team in it or is its commissioner
+ */
+async function getLeagueForMember(db: Database, leagueId: number, userId: number) {
+  const [league] = await db
+    .select()
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+  if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+
+  if (league.commissionerUserId !== userId) {
+    const [myTeam] = await db
+      .select({ id: teams.id })
+      .from(teams)
+      .where(and(eq(teams.leagueId, leagueId), eq(teams.userId, userId)))
+      .limit(1);
+    if (!myTeam) throw new TRPCError({ code: "FORBIDDEN", message: "You are not part of this league" });
+  }
+
+  return league;
+}
+
 export const tradeRouter = router({
   /**
-   * Propose a trade
+   * Propose a trade between my team and one or more other teams.
+   * Every asset names the team sending and the team receiving it.
    */
   proposeTrade: protectedProcedure
-    .input(
-      z.object({
-        leagueId: z.number(),
-        targetTeamId: z.number(),
-        myAssets: z.array(AssetSchema),
-        targetAssets: z.array(AssetSchema),
-      })
-    )
+    .input(OfferSchema.extend({ leagueId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      // 1. Get My Team
-      const myTeam = await db.query.teams.findFirst({
-        where: and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)),
-      });
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
       if (!myTeam) throw new TRPCError({ code: "NOT_FOUND", message: "Your team not found" });
 
-      // 2. Verify Ownership (My Assets)
-      for (const asset of input.myAssets) {
-        const owned = await db.query.rosters.findFirst({
-          where: and(
-            eq(rosters.teamId, myTeam.id),
-            eq(rosters.assetType, asset.type),
-            eq(rosters.assetId, asset.id)
-          ),
-        });
-        if (!owned) throw new TRPCError({ code: "BAD_REQUEST", message: `You do not own asset ${asset.type}:${asset.id}` });
-      }
+      const trade = await createTradeOffer(db, myTeam, input);
+      notifyTradeOffer(db, trade.id).catch((err) => {
+        console.error(`[TradeRouter] Failed to notify teams about trade ${trade.id}:`, err);
+      });
+      return { success: true, tradeId: trade.id };
+    }),
 
-      // 3. Verify Ownership (Target Assets)
-      for (const asset of input.targetAssets) {
-        const owned = await db.query.rosters.findFirst({
-          where: and(
-            eq(rosters.teamId, input.targetTeamId),
-            eq(rosters.assetType, asset.type),
-            eq(rosters.assetId, asset.id)
-          ),
-        });
-        if (!owned) throw new TRPCError({ code: "BAD_REQUEST", message: `Target team does not own asset ${asset.type}:${asset.id}` });
+  /**
+   * Answer an offer with a counter-offer. The original trade is closed as
+   * countered and the new one links back to it.
+   */
+  counterTrade: protectedProcedure
+    .input(OfferSchema.extend({ tradeId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const original = await getOpenTrade(db, input.tradeId);
+
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, original.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      const [me] = myTeam
+        ? await db
+            .select()
+            .from(tradeParticipants)
+            .where(and(eq(tradeParticipants.tradeId, original.id), eq(tradeParticipants.teamId, myTeam.id)))
+            .limit(1)
+        : [];
+      if (!myTeam || !me || me.status !== "pending") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only teams receiving this offer can counter it" });
       }
 
-      // 4. Create Trade
-      await db.insert(trades).values({
-        leagueId: input.leagueId,
-        team1Id: myTeam.id,
-        team2Id: input.targetTeamId,
-        team1Assets: input.myAssets,
-        team2Assets: input.targetAssets,
-        proposedBy: myTeam.id,
-        status: "proposed",
+      const trade = await db.transaction(async (tx) => {
+        const now = new Date().toISOString();
+        // Conditional so a final acceptance that got there first can't be overwritten
+        const [closed] = await tx
+          .update(trades)
+          .set({ status: "countered", updatedAt: now })
+          .where(and(eq(trades.id, original.id), eq(trades.status, "proposed")))
+          .returning({ id: trades.id });
+        if (!closed) throw new TRPCError({ code: "BAD_REQUEST", message: "Trade is not active" });
+
+        await tx
+          .update(tradeParticipants)
+          .set({ status: "countered", respondedAt: now })
+          .where(eq(tradeParticipants.id, me.id));
+        return createTradeOffer(tx, myTeam, input, original.id);
       });
 
-      return { success: true };
+      notifyTradeOffer(db, trade.id).catch((err) => {
+        console.error(`[TradeRouter] Failed to notify teams about trade ${trade.id}:`, err);
+      });
+      return { success: true, tradeId: trade.id };
     }),
 
   /**
-   * Accept a trade
+   * Accept a trade. Once every team accepted, the trade enters the league's
+   * review period (or executes immediately when there is none).
    */
   acceptTrade: protectedProcedure
     .input(z.object({ tradeId: z.number() }))
@@ -80,84 +271,211 @@ export const tradeRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      const trade = await db.query.trades.findFirst({
-        where: eq(trades.id, input.tradeId),
-      });
+      const trade = await getOpenTrade(db, input.tradeId);
+
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, trade.leagueId))
+        .limit(1);
+      if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+
+      // Verify User is a pending participant
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, trade.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      const participants = await db
+        .select()
+        .from(tradeParticipants)
+        .where(eq(tradeParticipants.tradeId, trade.id));
+      const me = participants.find((p) => p.teamId === myTeam?.id);
+      if (!me || me.status !== "pending") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only teams receiving this offer can accept it" });
+      }
+
+      // Conditional so a double-submit can't accept twice
+      const [accepted] = await db
+        .update(tradeParticipants)
+        .set({ status: "accepted", respondedAt: new Date().toISOString() })
+        .where(and(eq(tradeParticipants.id, me.id), eq(tradeParticipants.status, "pending")))
+        .returning({ id: tradeParticipants.id });
+      if (!accepted) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You already answered this offer" });
+      }
+
+      // Re-read after our update so parallel final acceptances can't both miss each other
+      const stillPending = await db
+        .select({ id: tradeParticipants.id })
+        .from(tradeParticipants)
+        .where(and(eq(tradeParticipants.tradeId, trade.id), eq(tradeParticipants.status, "pending")))
+        .limit(1);
+      if (stillPending.length > 0) {
+        return { success: true, status: "proposed" as const };
+      }
+
+      const result = await completeTradeAcceptance(db, trade, league);
+      if (result.status === "failed") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: result.error || "Trade failed" });
+      }
+      return { success: true, ...result };
+    }),
+
+  /**
+   * Reject a trade (or withdraw it, for the proposer)
+   */
+  rejectTrade: protectedProcedure
+    .input(z.object({ tradeId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [trade] = await db
+        .select()
+        .from(trades)
+        .where(eq(trades.id, input.tradeId))
+        .limit(1);
       if (!trade) throw new TRPCError({ code: "NOT_FOUND", message: "Trade not found" });
       if (trade.status !== "proposed") throw new TRPCError({ code: "BAD_REQUEST", message: "Trade is not active" });
 
-      // Verify User is Target (Team 2)
-      const team2 = await db.query.teams.findFirst({ where: eq(teams.id, trade.team2Id) });
-      if (!team2 || team2.userId !== ctx.user.id) {
-        throw new TRPCError({ code: "FORBIDDEN", message: "Only the target team can accept this trade" });
+      // Verify User is involved
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, trade.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      const [me] = myTeam
+        ? await db
+            .select()
+            .from(tradeParticipants)
+            .where(and(eq(tradeParticipants.tradeId, trade.id), eq(tradeParticipants.teamId, myTeam.id)))
+            .limit(1)
+        : [];
+
+      if (!me) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You are not involved in this trade" });
       }
 
-      // Transaction: Swap Assets
       await db.transaction(async (tx) => {
-        // Parse Assets (stored as JSON)
-        const team1Assets = trade.team1Assets as { type: string; id: number }[];
-        const team2Assets = trade.team2Assets as { type: string; id: number }[];
-
-        // 1. Move Team 1 Assets to Team 2
-        for (const asset of team1Assets) {
-          // Verify ownership again
-          const owned = await tx.query.rosters.findFirst({
-            where: and(eq(rosters.teamId, trade.team1Id), eq(rosters.assetType, asset.type), eq(rosters.assetId, asset.id)),
-          });
-          if (!owned) throw new Error(`Trade failed: Team 1 no longer owns ${asset.type}:${asset.id}`);
-
-          await tx.update(rosters)
-            .set({ teamId: trade.team2Id, acquiredVia: "trade" })
-            .where(and(eq(rosters.teamId, trade.team1Id), eq(rosters.assetType, asset.type), eq(rosters.assetId, asset.id)));
+        const now = new Date().toISOString();
+        // Conditional so a final acceptance that got there first can't be overwritten
+        const [rejected] = await tx
+          .update(trades)
+          .set({ status: "rejected", updatedAt: now })
+          .where(and(eq(trades.id, trade.id), eq(trades.status, "proposed")))
+          .returning({ id: trades.id });
+        if (!rejected) throw new TRPCError({ code: "BAD_REQUEST", message: "Trade is not active" });
+
+        if (me.status !== "proposer") {
+          await tx
+            .update(tradeParticipants)
+            .set({ status: "rejected", respondedAt: now })
+            .where(eq(tradeParticipants.id, me.id));
         }
+      });
+      return { success: true };
+    }),
 
-        // 2. Move Team 2 Assets to Team 1
-        for (const asset of team2Assets) {
-          const owned = await tx.query.rosters.findFirst({
-            where: and(eq(rosters.teamId, trade.team2Id), eq(rosters.assetType, asset.type), eq(rosters.assetId, asset.id)),
-          });
-          if (!owned) throw new Error(`Trade failed: Team 2 no longer owns ${asset.type}:${asset.id}`);
+  /**
+   * Vote to veto a trade during its review period (managers not involved in the trade)
+   */
+  voteVeto: protectedProcedure
+    .input(z.object({ tradeId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-          await tx.update(rosters)
-            .set({ teamId: trade.team1Id, acquiredVia: "trade" })
-            .where(and(eq(rosters.teamId, trade.team2Id), eq(rosters.assetType, asset.type), eq(rosters.assetId, asset.id)));
-        }
+      const [trade] = await db
+        .select()
+        .from(trades)
+        .where(eq(trades.id, input.tradeId))
+        .limit(1);
+      if (!trade) throw new TRPCError({ code: "NOT_FOUND", message: "Trade not found" });
+      if (trade.status !== "in_review") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Trade is not under review" });
+      }
 
-        // 3. Update Trade Status
-        await tx.update(trades).set({ status: "accepted", processedWeek: 0 }).where(eq(trades.id, trade.id)); // processedWeek: 0 placeholder or actual current week?
-      });
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, trade.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      if (!myTeam) throw new TRPCError({ code: "FORBIDDEN", message: "You are not part of this league" });
 
-      return { success: true };
+      const participants = await db
+        .select()
+        .from(tradeParticipants)
+        .where(eq(tradeParticipants.tradeId, trade.id));
+      if (participants.some((p) => p.teamId === myTeam.id)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Teams in the trade cannot vote on it" });
+      }
+
+      const [existing] = await db
+        .select()
+        .from(tradeVetoVotes)
+        .where(and(eq(tradeVetoVotes.tradeId, trade.id), eq(tradeVetoVotes.teamId, myTeam.id)))
+        .limit(1);
+      if (existing) throw new TRPCError({ code: "BAD_REQUEST", message: "You already voted to veto this trade" });
+
+      await db.insert(tradeVetoVotes).values({ tradeId: trade.id, teamId: myTeam.id });
+
+      const [votes, leagueTeams] = await Promise.all([
+        db.select({ id: tradeVetoVotes.id }).from(tradeVetoVotes).where(eq(tradeVetoVotes.tradeId, trade.id)),
+        db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, trade.leagueId)),
+      ]);
+      const threshold = getVetoThreshold(leagueTeams.length, participants.length);
+
+      if (votes.length >= threshold) {
+        await db
+          .update(trades)
+          .set({ status: "vetoed", updatedAt: new Date().toISOString() })
+          .where(eq(trades.id, trade.id));
+        return { success: true, vetoed: true, votes: votes.length, threshold };
+      }
+
+      return { success: true, vetoed: false, votes: votes.length, threshold };
     }),
 
   /**
-   * Reject a trade
+   * Veto a pending or in-review trade (Commissioner Only)
    */
-  rejectTrade: protectedProcedure
+  commissionerVeto: protectedProcedure
     .input(z.object({ tradeId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      const trade = await db.query.trades.findFirst({
-        where: eq(trades.id, input.tradeId),
-      });
+      const [trade] = await db
+        .select()
+        .from(trades)
+        .where(eq(trades.id, input.tradeId))
+        .limit(1);
       if (!trade) throw new TRPCError({ code: "NOT_FOUND", message: "Trade not found" });
 
-      // Verify User is involved
-      const team1 = await db.query.teams.findFirst({ where: eq(teams.id, trade.team1Id) });
-      const team2 = await db.query.teams.findFirst({ where: eq(teams.id, trade.team2Id) });
-      
-      if ((team1?.userId !== ctx.user.id) && (team2?.userId !== ctx.user.id)) {
-        throw new TRPCError({ code: "FORBIDDEN", message: "You are not involved in this trade" });
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, trade.leagueId))
+        .limit(1);
+      if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+      if (league.commissionerUserId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only commissioner can veto trades" });
       }
 
-      await db.update(trades).set({ status: "rejected" }).where(eq(trades.id, trade.id));
+      if (trade.status !== "proposed" && trade.status !== "in_review") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Trade can no longer be vetoed" });
+      }
+
+      await db
+        .update(trades)
+        .set({ status: "vetoed", updatedAt: new Date().toISOString() })
+        .where(eq(trades.id, trade.id));
       return { success: true };
     }),
 
   /**
-   * Get trades for a league
+   * Get trades for a league: my trades plus every trade currently under review
    */
   getTrades: protectedProcedure
     .input(z.object({ leagueId: z.number() }))
@@ -165,14 +483,238 @@ export const tradeRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      const myTeam = await db.query.teams.findFirst({
-        where: and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)),
-      });
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
 
       if (!myTeam) return [];
 
-      return await db.select().from(trades).where(
-        or(eq(trades.team1Id, myTeam.id), eq(trades.team2Id, myTeam.id))
-      ).orderBy(desc(trades.createdAt));
+      const myTradeIds = await db
+        .select({ tradeId: tradeParticipants.tradeId })
+        .from(tradeParticipants)
+        .where(eq(tradeParticipants.teamId, myTeam.id));
+
+      const visibility = [eq(trades.status, "in_review")];
+      if (myTradeIds.length > 0) {
+        visibility.push(inArray(trades.id, myTradeIds.map((t) => t.tradeId)));
+      }
+
+      const [leagueTrades, leagueTeams] = await Promise.all([
+        db
+          .select()
+          .from(trades)
+          .where(and(eq(trades.leagueId, input.leagueId), or(...visibility)))
+          .orderBy(desc(trades.createdAt)),
+        db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, input.leagueId)),
+      ]);
+
+      return getTradeDetails(db, leagueTrades, leagueTeams.length);
+    }),
+
+  /**
+   * Draft picks of a league that can still be traded, this season's and next season's
+   */
+  getDraftPicks: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const league = await getLeagueForMember(db, input.leagueId, ctx.user.id);
+      return getTradablePicks(db, league);
+    }),
+
+  /**
+   * Projected rest-of-season value and lineup impact of a trade for every team in it
+   */
+  analyzeTrade: protectedProcedure
+    .input(z.object({ tradeId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [trade] = await db
+        .select()
+        .from(trades)
+        .where(eq(trades.id, input.tradeId))
+        .limit(1);
+      if (!trade) throw new TRPCError({ code: "NOT_FOUND", message: "Trade not found" });
+
+      const league = await getLeagueForMember(db, trade.leagueId, ctx.user.id);
+      const moves = await db.select().from(tradeAssets).where(eq(tradeAssets.tradeId, trade.id));
+      return analyzeTradeMoves(db, league, moves);
+    }),
+
+  /**
+   * Analyze a trade that is still being built
+   */
+  previewTradeAnalysis: protectedProcedure
+    .input(z.object({ leagueId: z.number(), assets: z.array(TradeAssetSchema).min(1) }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const league = await getLeagueForMember(db, input.leagueId, ctx.user.id);
+      const moves = input.assets.map((asset) => ({
+        fromTeamId: asset.fromTeamId,
+        toTeamId: asset.toTeamId,
+        assetType: normalizeTradeAssetType(asset.type),
+        assetId: asset.id,
+      }));
+      return analyzeTradeMoves(db, league, moves);
+    }),
+
+  /**
+   * Trade block of a league: assets teams are shopping and assets they want
+   */
+  getTradeBlock: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [myTeam] = await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      if (!myTeam) throw new TRPCError({ code: "FORBIDDEN", message: "You are not part of this league" });
+
+      const [entries, leagueTeams] = await Promise.all([
+        db
+          .select()
+          .from(tradeBlockEntries)
+          .where(eq(tradeBlockEntries.leagueId, input.leagueId))
+          .orderBy(desc(tradeBlockEntries.createdAt)),
+        db.select({ id: teams.id, name: teams.name }).from(teams).where(eq(teams.leagueId, input.leagueId)),
+      ]);
+
+      const assetIds = entries.map((e) => e.assetId);
+      const owners =
+        assetIds.length > 0
+          ? await db
+              .select({ teamId: rosters.teamId, assetType: rosters.assetType, assetId: rosters.assetId })
+              .from(rosters)
+              .where(
+                and(
+                  inArray(rosters.teamId, leagueTeams.map((t) => t.id)),
+                  inArray(rosters.assetId, assetIds)
+                )
+              )
+          : [];
+      const teamName = (teamId: number | undefined) =>
+        leagueTeams.find((t) => t.id === teamId)?.name || "Unknown Team";
+
+      return Promise.all(
+        entries.map(async (entry) => {
+          const owner = owners.find((o) => o.assetType === entry.assetType && o.assetId === entry.assetId);
+          return {
+            ...entry,
+            teamName: teamName(entry.teamId),
+            assetName: await getAssetName(db, entry.assetType, entry.assetId),
+            assetLabel: ASSET_TYPE_LABELS[entry.assetType] || entry.assetType,
+            ownerTeamId: owner?.teamId ?? null,
+            ownerTeamName: owner ? teamName(owner.teamId) : null,
+          };
+        })
+      );
+    }),
+
+  /**
+   * Put one of my assets on the block, or list another team's asset I want
+   */
+  addToTradeBlock: protectedProcedure
+    .input(
+      AssetSchema.extend({
+        leagueId: z.number(),
+        kind: z.enum(["shopping", "wanted"]),
+        note: z.string().trim().max(200).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [myTeam] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      if (!myTeam) throw new TRPCError({ code: "NOT_FOUND", message: "Your team not found" });
+
+      const assetType = normalizeTradeAssetType(input.type);
+      const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, input.leagueId));
+      const [owner] = await db
+        .select({ teamId: rosters.teamId })
+        .from(rosters)
+        .where(
+          and(
+            inArray(rosters.teamId, leagueTeams.map((t) => t.id)),
+            eq(rosters.assetType, assetType),
+            eq(rosters.assetId, input.id)
+          )
+        )
+        .limit(1);
+
+      if (input.kind === "shopping" && owner?.teamId !== myTeam.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You can only shop assets on your roster" });
+      }
+      if (input.kind === "wanted" && (!owner || owner.teamId === myTeam.id)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Wanted assets must be on another team's roster" });
+      }
+
+      const [entry] = await db
+        .insert(tradeBlockEntries)
+        .values({
+          leagueId: input.leagueId,
+          teamId: myTeam.id,
+          kind: input.kind,
+          assetType,
+          assetId: input.id,
+          note: input.note || null,
+        })
+        .onConflictDoUpdate({
+          target: [
+            tradeBlockEntries.teamId,
+            tradeBlockEntries.kind,
+            tradeBlockEntries.assetType,
+            tradeBlockEntries.assetId,
+          ],
+          set: { note: input.note || null },
+        })
+        .returning({ id: tradeBlockEntries.id });
+
+      return { success: true, entryId: entry.id };
+    }),
+
+  /**
+   * Take one of my entries off the trade block
+   */
+  removeFromTradeBlock: protectedProcedure
+    .input(z.object({ entryId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [entry] = await db
+        .select()
+        .from(tradeBlockEntries)
+        .where(eq(tradeBlockEntries.id, input.entryId))
+        .limit(1);
+      if (!entry) throw new TRPCError({ code: "NOT_FOUND", message: "Trade block entry not found" });
+
+      const [team] = await db
+        .select({ userId: teams.userId })
+        .from(teams)
+        .where(eq(teams.id, entry.teamId))
+        .limit(1);
+      if (team?.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only edit your own trade block" });
+      }
+
+      await db.delete(tradeBlockEntries).where(eq(tradeBlockEntries.id, entry.id));
+      return { success: true };
     }),
 });
@@ -0,0 +1,39 @@
+import { expireStaleTrades, processDueTradeReviews } from './tradeService';
+
+/**
+ * Trade Scheduler (interval-based, no cron)
+ *
+ * Executes accepted trades once their review period has passed without a veto
+ * and expires offers that were not answered before their deadline.
+ */
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+async function schedulerLoop() {
+  const { expired } = await expireStaleTrades();
+  if (expired > 0) {
+    console.log(`[TradeScheduler] Expired ${expired} unanswered trade offers`);
+  }
+
+  const result = await processDueTradeReviews();
+  if (result.processed > 0) {
+    console.log(`[TradeScheduler] Executed ${result.executed}/${result.processed} trades after review`);
+  }
+}
+
+export function initTradeScheduler() {
+  console.log('[TradeScheduler] Initializing (interval-based, no cron)...');
+
+  // Run immediately on startup to catch reviews that ended while the server was down
+  schedulerLoop().catch(err => {
+    console.error('[TradeScheduler] Error in initial run:', err);
+  });
+
+  setInterval(() => {
+    schedulerLoop().catch(err => {
+      console.error('[TradeScheduler] Error in scheduler loop:', err);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('[TradeScheduler] Scheduled to check every 15 minutes');
+}
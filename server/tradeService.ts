@@ -0,0 +1,391 @@
+import { and, eq, inArray, isNotNull, lte, or } from "drizzle-orm";
+import { getDb } from "./db";
+import {
+  draftPickOwnership,
+  leagues,
+  rosters,
+  teams,
+  tradeAssets,
+  tradeBlockEntries,
+  tradeParticipants,
+  tradeVetoVotes,
+  trades,
+  users,
+} from "../drizzle/schema";
+import { calculateRosterNeeds } from "./rosterRouter";
+import { ASSET_TYPE_LABELS, getAssetName, type Database, type DatabaseExecutor } from "./assetNames";
+import { analyzeTradeMoves } from "./tradeAnalyzer";
+import { wsManager } from "./websocket";
+import { sendTradeOfferNotification } from "./emailService";
+import { DRAFT_PICK_ASSET_TYPE, validateDraftPickMoves } from "./draftPickService";
+import { clearKeeperDesignation } from "./keeperService";
+
+type TradeRow = typeof trades.$inferSelect;
+type LeagueRow = typeof leagues.$inferSelect;
+
+export interface TradeMove {
+  fromTeamId: number;
+  toTeamId: number;
+  assetType: string;
+  assetId: number;
+}
+
+/**
+ * Trades used to send "strain" while rosters store "cannabis_strain"
+ */
+export function normalizeTradeAssetType(assetType: string) {
+  return assetType === "strain" ? "cannabis_strain" : assetType;
+}
+
+/**
+ * Veto votes needed to stop a trade: half of the managers not involved, rounded up
+ */
+export function getVetoThreshold(leagueTeamCount: number, participantCount: number) {
+  return Math.max(1, Math.ceil((leagueTeamCount - participantCount) / 2));
+}
+
+/**
+ * Check that every team still owns what it sends and that no roster ends up
+ * over its position limits (getRosterNeeds) after the trade.
+ * Draft picks don't take a roster slot and are checked by validateDraftPickMoves.
+ * Returns the first problem found, or null when the trade can go through.
+ */
+export async function validateTradeMoves(db: DatabaseExecutor, tradeMoves: TradeMove[]): Promise<string | null> {
+  const pickError = await validateDraftPickMoves(
+    db,
+    tradeMoves.filter((m) => m.assetType === DRAFT_PICK_ASSET_TYPE)
+  );
+  if (pickError) return pickError;
+
+  const moves = tradeMoves.filter((m) => m.assetType !== DRAFT_PICK_ASSET_TYPE);
+  const teamIds = Array.from(new Set(moves.flatMap((m) => [m.fromTeamId, m.toTeamId])));
+  if (teamIds.length === 0) return null;
+
+  const [entries, tradeTeams] = await Promise.all([
+    db.select().from(rosters).where(inArray(rosters.teamId, teamIds)),
+    db.select({ id: teams.id, name: teams.name }).from(teams).where(inArray(teams.id, teamIds)),
+  ]);
+  const teamName = (teamId: number) => tradeTeams.find((t) => t.id === teamId)?.name || `Team #${teamId}`;
+
+  const isMoved = (teamId: number, assetType: string, assetId: number) =>
+    moves.some((m) => m.fromTeamId === teamId && m.assetType === assetType && m.assetId === assetId);
+
+  for (const move of moves) {
+    const owned = entries.some(
+      (e) => e.teamId === move.fromTeamId && e.assetType === move.assetType && e.assetId === move.assetId
+    );
+    if (!owned) {
+      return `${teamName(move.fromTeamId)} no longer owns ${move.assetType}:${move.assetId}`;
+    }
+  }
+
+  for (const teamId of teamIds) {
+    const after = [
+      ...entries.filter((e) => e.teamId === teamId && !isMoved(teamId, e.assetType, e.assetId)),
+      ...moves.filter((m) => m.toTeamId === teamId),
+    ];
+    const { flex, ...positions } = calculateRosterNeeds(after);
+    const overflow = Object.values(positions).reduce(
+      (sum, position) => sum + Math.max(0, position.current - position.max),
+      0
+    );
+    if (overflow > flex.max) {
+      return `${teamName(teamId)} would exceed the roster limits`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Move every asset of an accepted trade. Trades that no longer validate are marked failed.
+ * The trade is claimed inside the transaction, so a repeated or concurrent call can't
+ * run it twice or overwrite an executed trade.
+ */
+export async function executeTrade(tradeId: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [trade] = await db.select().from(trades).where(eq(trades.id, tradeId)).limit(1);
+  if (!trade) throw new Error("Trade not found");
+
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, trade.leagueId)).limit(1);
+  if (!league) throw new Error("League not found");
+
+  const moves = await db.select().from(tradeAssets).where(eq(tradeAssets.tradeId, trade.id));
+  const now = new Date().toISOString();
+
+  const result = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(trades)
+      .set({ status: "accepted", processedWeek: league.currentWeek, executedAt: now, updatedAt: now })
+      .where(and(eq(trades.id, trade.id), inArray(trades.status, ["proposed", "in_review"])))
+      .returning({ id: trades.id });
+    if (!claimed) {
+      return { success: false, error: "Trade is no longer open" };
+    }
+
+    const error = await validateTradeMoves(tx, moves);
+    if (error) {
+      await tx
+        .update(trades)
+        .set({ status: "failed", failureReason: error, processedWeek: null, executedAt: null, updatedAt: now })
+        .where(eq(trades.id, trade.id));
+      return { success: false, error };
+    }
+
+    for (const move of moves) {
+      if (move.assetType === DRAFT_PICK_ASSET_TYPE) {
+        await tx
+          .update(draftPickOwnership)
+          .set({ ownerTeamId: move.toTeamId, updatedAt: now })
+          .where(and(eq(draftPickOwnership.id, move.assetId), eq(draftPickOwnership.ownerTeamId, move.fromTeamId)));
+        continue;
+      }
+      await tx
+        .update(rosters)
+        .set({ teamId: move.toTeamId, acquiredVia: "trade", acquiredWeek: league.currentWeek })
+        .where(
+          and(
+            eq(rosters.teamId, move.fromTeamId),
+            eq(rosters.assetType, move.assetType),
+            eq(rosters.assetId, move.assetId)
+          )
+        );
+      // A keeper designation belongs to the team that made it
+      await clearKeeperDesignation(tx, move.fromTeamId, move.assetType, move.assetId);
+    }
+
+    // Traded assets are no longer on the sender's block or on the receiver's wish list
+    for (const move of moves) {
+      await tx
+        .delete(tradeBlockEntries)
+        .where(
+          and(
+            eq(tradeBlockEntries.assetType, move.assetType),
+            eq(tradeBlockEntries.assetId, move.assetId),
+            or(
+              and(eq(tradeBlockEntries.teamId, move.fromTeamId), eq(tradeBlockEntries.kind, "shopping")),
+              and(eq(tradeBlockEntries.teamId, move.toTeamId), eq(tradeBlockEntries.kind, "wanted"))
+            )
+          )
+        );
+    }
+
+    return { success: true };
+  });
+  if (!result.success) return result;
+
+  console.log(`[TradeService] Executed trade ${trade.id} in league ${league.id} (${moves.length} assets)`);
+  return { success: true };
+}
+
+/**
+ * Called once every party accepted: open the review window, or execute right away
+ * when the league has no review period.
+ */
+export async function completeTradeAcceptance(db: Database, trade: TradeRow, league: LeagueRow) {
+  flagLopsidedTrade(db, trade, league).catch((err) => {
+    console.error(`[TradeService] Failed to analyze trade ${trade.id}:`, err);
+  });
+
+  if (league.tradeReviewHours > 0) {
+    const reviewEndsAt = new Date(Date.now() + league.tradeReviewHours * 60 * 60 * 1000).toISOString();
+    // Only the first completion starts the review window
+    const [started] = await db
+      .update(trades)
+      .set({ status: "in_review", reviewEndsAt, updatedAt: new Date().toISOString() })
+      .where(and(eq(trades.id, trade.id), eq(trades.status, "proposed")))
+      .returning({ reviewEndsAt: trades.reviewEndsAt });
+    return { status: "in_review" as const, reviewEndsAt: started?.reviewEndsAt ?? trade.reviewEndsAt };
+  }
+
+  const result = await executeTrade(trade.id);
+  return { status: result.success ? ("accepted" as const) : ("failed" as const), error: result.error };
+}
+
+/**
+ * Let the commissioner know when an agreed trade heavily favors one team
+ */
+async function flagLopsidedTrade(db: Database, trade: TradeRow, league: LeagueRow) {
+  const moves = await db.select().from(tradeAssets).where(eq(tradeAssets.tradeId, trade.id));
+  const analysis = await analyzeTradeMoves(db, league, moves);
+  if (!analysis.isLopsided) return;
+
+  const favored = analysis.teams.find((t) => t.teamId === analysis.favoredTeamId);
+  console.log(`[TradeService] Trade ${trade.id} in league ${league.id} is lopsided (${analysis.imbalance})`);
+  wsManager.notifyUser(league.commissionerUserId, {
+    type: "trade_lopsided",
+    tradeId: trade.id,
+    leagueId: league.id,
+    leagueName: league.name,
+    favoredTeamName: favored?.teamName,
+    netValue: favored?.netValue,
+  });
+}
+
+/**
+ * Execute every trade whose review window has closed without a veto
+ */
+export async function processDueTradeReviews() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const due = await db
+    .select({ id: trades.id })
+    .from(trades)
+    .where(and(eq(trades.status, "in_review"), lte(trades.reviewEndsAt, new Date().toISOString())));
+
+  let executed = 0;
+  for (const trade of due) {
+    try {
+      const result = await executeTrade(trade.id);
+      if (result.success) executed++;
+      else console.warn(`[TradeService] Trade ${trade.id} failed: ${result.error}`);
+    } catch (error) {
+      console.error(`[TradeService] Error executing trade ${trade.id}:`, error);
+    }
+  }
+
+  return { processed: due.length, executed };
+}
+
+/**
+ * Expire open offers whose proposer-set deadline has passed and let the proposer know
+ */
+export async function expireStaleTrades() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date().toISOString();
+  const stale = await db
+    .select({ id: trades.id, leagueId: trades.leagueId, proposedBy: trades.proposedBy })
+    .from(trades)
+    .where(and(eq(trades.status, "proposed"), isNotNull(trades.expiresAt), lte(trades.expiresAt, now)));
+  if (stale.length === 0) return { expired: 0 };
+
+  await db
+    .update(trades)
+    .set({ status: "expired", updatedAt: now })
+    .where(inArray(trades.id, stale.map((t) => t.id)));
+
+  const proposers = await db
+    .select({ teamId: teams.id, userId: teams.userId })
+    .from(teams)
+    .where(inArray(teams.id, stale.map((t) => t.proposedBy)));
+  for (const trade of stale) {
+    const proposer = proposers.find((p) => p.teamId === trade.proposedBy);
+    if (proposer) {
+      wsManager.notifyUser(proposer.userId, { type: "trade_expired", tradeId: trade.id, leagueId: trade.leagueId });
+    }
+  }
+
+  return { expired: stale.length };
+}
+
+/**
+ * Tell every team that still has to answer a trade about it: a WebSocket
+ * notification for open sessions plus an email.
+ */
+export async function notifyTradeOffer(db: Database, tradeId: number) {
+  const [trade] = await db.select().from(trades).where(eq(trades.id, tradeId)).limit(1);
+  if (!trade) return;
+
+  const [league] = await db
+    .select({ id: leagues.id, name: leagues.name })
+    .from(leagues)
+    .where(eq(leagues.id, trade.leagueId))
+    .limit(1);
+  if (!league) return;
+
+  const [details] = await getTradeDetails(db, [trade], 0);
+  const proposer = details.participants.find((p) => p.status === "proposer");
+  const recipientIds = details.participants.filter((p) => p.status === "pending").map((p) => p.teamId);
+  if (!proposer || recipientIds.length === 0) return;
+
+  const recipients = await db
+    .select({ teamId: teams.id, userId: teams.userId, name: users.name, email: users.email })
+    .from(teams)
+    .innerJoin(users, eq(users.id, teams.userId))
+    .where(inArray(teams.id, recipientIds));
+
+  const isCounterOffer = trade.parentTradeId !== null;
+  for (const recipient of recipients) {
+    wsManager.notifyUser(recipient.userId, {
+      type: isCounterOffer ? "trade_counter_offer" : "trade_offer",
+      tradeId: trade.id,
+      leagueId: league.id,
+      leagueName: league.name,
+      fromTeamName: proposer.teamName,
+      expiresAt: trade.expiresAt,
+    });
+
+    if (recipient.email) {
+      await sendTradeOfferNotification({
+        toEmail: recipient.email,
+        toName: recipient.name || "Manager",
+        leagueName: league.name,
+        leagueId: league.id,
+        fromTeamName: proposer.teamName,
+        receiveAssets: details.assets
+          .filter((a) => a.toTeamId === recipient.teamId)
+          .map((a) => `${a.assetName} (${a.assetLabel})`),
+        sendAssets: details.assets
+          .filter((a) => a.fromTeamId === recipient.teamId)
+          .map((a) => `${a.assetName} (${a.assetLabel})`),
+        isCounterOffer,
+        message: trade.message,
+        expiresAt: trade.expiresAt ? new Date(trade.expiresAt) : null,
+      });
+    }
+  }
+}
+
+/**
+ * Attach participants, named assets and veto progress to trade rows of one league
+ */
+export async function getTradeDetails(db: Database, tradeRows: TradeRow[], leagueTeamCount: number) {
+  if (tradeRows.length === 0) return [];
+
+  const tradeIds = tradeRows.map((t) => t.id);
+  const [participants, assets, votes] = await Promise.all([
+    db.select().from(tradeParticipants).where(inArray(tradeParticipants.tradeId, tradeIds)),
+    db.select().from(tradeAssets).where(inArray(tradeAssets.tradeId, tradeIds)),
+    db.select().from(tradeVetoVotes).where(inArray(tradeVetoVotes.tradeId, tradeIds)),
+  ]);
+
+  const teamIds = Array.from(new Set(participants.map((p) => p.teamId)));
+  const tradeTeams =
+    teamIds.length > 0
+      ? await db.select({ id: teams.id, name: teams.name }).from(teams).where(inArray(teams.id, teamIds))
+      : [];
+  const teamName = (teamId: number) => tradeTeams.find((t) => t.id === teamId)?.name || "Unknown Team";
+
+  const namedAssets = await Promise.all(
+    assets.map(async (asset) => ({
+      ...asset,
+      assetName: await getAssetName(db, asset.assetType, asset.assetId),
+      assetLabel: ASSET_TYPE_LABELS[asset.assetType] || asset.assetType,
+      fromTeamName: teamName(asset.fromTeamId),
+      toTeamName: teamName(asset.toTeamId),
+    }))
+  );
+
+  return tradeRows.map((trade) => {
+    const tradeParticipantRows = participants.filter((p) => p.tradeId === trade.id);
+    const tradeVotes = votes.filter((v) => v.tradeId === trade.id);
+    return {
+      ...trade,
+      participants: tradeParticipantRows.map((p) => ({
+        teamId: p.teamId,
+        teamName: teamName(p.teamId),
+        status: p.status,
+        respondedAt: p.respondedAt,
+      })),
+      assets: namedAssets.filter((a) => a.tradeId === trade.id),
+      vetoVotes: tradeVotes.length,
+      vetoVoterTeamIds: tradeVotes.map((v) => v.teamId),
+      vetoThreshold: getVetoThreshold(leagueTeamCount, tradeParticipantRows.length),
+    };
+  });
+}
@@ -6,6 +6,7 @@
  */
 
 import { TrendScoringBreakdown, getStreakTierName, calculateStreakMultiplier } from './trendScoringEngine';
+import { DEFAULT_SCORING_CONFIG, LeagueScoringConfig } from '../shared/scoringConfig';
 
 export type BreakdownComponent = {
   category: string;
@@ -50,19 +51,20 @@ export function buildManufacturerTrendBreakdown(
   orderCount: number,
   rank: number,
   previousRank: number,
-  streakDays: number
+  streakDays: number,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): BreakdownResult {
   const components: BreakdownComponent[] = [
     {
       category: 'Order Activity',
       value: `${orderCount} orders`,
-      formula: `${orderCount} × 5`,
+      formula: `${orderCount} × ${config.orderPoints.manufacturer}`,
       points: scoring.orderCountPoints,
     },
     {
       category: 'Trend Bonus',
       value: `${scoring.trendMultiplier.toFixed(2)}x`,
-      formula: `${scoring.trendMultiplier.toFixed(2)} × 25`,
+      formula: `${scoring.trendMultiplier.toFixed(2)} × ${config.trendPoints.manufacturer}`,
       points: scoring.trendMomentumPoints,
     },
   ];
@@ -176,19 +178,20 @@ export function buildStrainTrendBreakdown(
   orderCount: number,
   rank: number,
   previousRank: number,
-  streakDays: number
+  streakDays: number,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): BreakdownResult {
   const components: BreakdownComponent[] = [
     {
       category: 'Order Activity',
       value: `${orderCount} orders`,
-      formula: `${orderCount} × 5`,
+      formula: `${orderCount} × ${config.orderPoints.strain}`,
       points: scoring.orderCountPoints,
     },
     {
       category: 'Trend Bonus',
       value: `${scoring.trendMultiplier.toFixed(2)}x`,
-      formula: `${scoring.trendMultiplier.toFixed(2)} × 22`,
+      formula: `${scoring.trendMultiplier.toFixed(2)} × ${config.trendPoints.strain}`,
       points: scoring.trendMomentumPoints,
     },
   ];
@@ -331,19 +334,20 @@ export function buildProductTrendBreakdown(
   orderCount: number,
   rank: number,
   previousRank: number,
-  streakDays: number
+  streakDays: number,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): BreakdownResult {
   const components: BreakdownComponent[] = [
     {
       category: 'Order Activity',
       value: `${orderCount} orders`,
-      formula: `${orderCount} × 7`,
+      formula: `${orderCount} × ${config.orderPoints.product}`,
       points: scoring.orderCountPoints,
     },
     {
       category: 'Trend Bonus',
       value: `${scoring.trendMultiplier.toFixed(2)}x`,
-      formula: `${scoring.trendMultiplier.toFixed(2)} × 20`,
+      formula: `${scoring.trendMultiplier.toFixed(2)} × ${config.trendPoints.product}`,
       points: scoring.trendMomentumPoints,
     },
   ];
@@ -451,19 +455,20 @@ export function buildPharmacyTrendBreakdown(
   orderCount: number,
   rank: number,
   previousRank: number,
-  streakDays: number
+  streakDays: number,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
 ): BreakdownResult {
   const components: BreakdownComponent[] = [
     {
       category: 'Order Activity',
       value: `${orderCount} orders`,
-      formula: `${orderCount} × 5`,
+      formula: `${orderCount} × ${config.orderPoints.pharmacy}`,
       points: scoring.orderCountPoints,
     },
     {
       category: 'Trend Bonus',
       value: `${scoring.trendMultiplier.toFixed(2)}x`,
-      formula: `${scoring.trendMultiplier.toFixed(2)} × 25`,
+      formula: `${scoring.trendMultiplier.toFixed(2)} × ${config.trendPoints.pharmacy}`,
       points: scoring.trendMomentumPoints,
     },
   ];
@@ -5,6 +5,8 @@
  * Includes: Trend Bonus, Consistency Score, Velocity Score, Streak Bonus, and Market Share Trend.
  */
 
+import { DEFAULT_SCORING_CONFIG, LeagueScoringConfig } from '../shared/scoringConfig';
+
 export interface TrendScoringStats {
   orderCount: number;
   /**
@@ -175,14 +177,18 @@ export function calculateMarketShareBonus(marketSharePercent: number): number {
  * Calculate rank bonus based on current position (tiered)
  * REBALANCED: Unified across all positions for equal draftability
  */
-export function calculateRankBonus(rank: number, entityType: 'manufacturer' | 'strain' | 'product' | 'pharmacy'): number {
+export function calculateRankBonus(
+  rank: number,
+  entityType: 'manufacturer' | 'strain' | 'product' | 'pharmacy',
+  tierBonuses: LeagueScoringConfig['rankTierBonuses'] = DEFAULT_SCORING_CONFIG.rankTierBonuses
+): number {
   if (rank === 0) return 0; // Unranked
 
-  // Unified bonus system across all positions
-  if (rank === 1) return 30;        // Rank #1
-  if (rank >= 2 && rank <= 3) return 20;  // Rank #2-3
-  if (rank >= 4 && rank <= 5) return 15;  // Rank #4-5
-  if (rank >= 6 && rank <= 10) return 10; // Rank #6-10
+  // Unified bonus system across all positions (default +30 / +20 / +15 / +10)
+  if (rank === 1) return tierBonuses[0];        // Rank #1
+  if (rank >= 2 && rank <= 3) return tierBonuses[1];  // Rank #2-3
+  if (rank >= 4 && rank <= 5) return tierBonuses[2];  // Rank #4-5
+  if (rank >= 6 && rank <= 10) return tierBonuses[3]; // Rank #6-10
   return 0;
 }
 
@@ -208,19 +214,22 @@ export function calculateMomentumBonus(previousRank: number, currentRank: number
  * Calculate manufacturer score with new trend-based system
  * REBALANCED: Reduced multipliers, capped bonuses, target 50-120 pts
  */
-export function calculateManufacturerTrendScore(stats: TrendScoringStats): TrendScoringBreakdown {
+export function calculateManufacturerTrendScore(
+  stats: TrendScoringStats,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): TrendScoringBreakdown {
   // Base points from order count (reduced from 10 to 5)
-  const orderCountPoints = stats.orderCount * 5;
+  const orderCountPoints = stats.orderCount * config.orderPoints.manufacturer;
 
   // Trend momentum points (reduced from 100 to 25)
   const trendMultiplier =
     typeof stats.trendMultiplier === 'number' && stats.trendMultiplier > 0
-      ? Math.min(stats.trendMultiplier, 5.0) // Cap at 5x
-      : calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0);
-  const trendMomentumPoints = Math.floor(trendMultiplier * 25);
+      ? Math.min(stats.trendMultiplier, config.trendMultiplierCap) // Default cap 5x
+      : Math.min(calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0), config.trendMultiplierCap);
+  const trendMomentumPoints = Math.floor(trendMultiplier * config.trendPoints.manufacturer);
 
   // Rank-based bonuses (now unified)
-  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'manufacturer');
+  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'manufacturer', config.rankTierBonuses);
   const momentumBonusPoints = calculateMomentumBonus(stats.previousRank, stats.currentRank, 'manufacturer');
 
   // Advanced feature bonuses (all capped)
@@ -270,19 +279,22 @@ export function calculateManufacturerTrendScore(stats: TrendScoringStats): Trend
  * Calculate strain score with new trend-based system
  * REBALANCED: Similar to manufacturers, target 50-100 pts
  */
-export function calculateStrainTrendScore(stats: TrendScoringStats): TrendScoringBreakdown {
+export function calculateStrainTrendScore(
+  stats: TrendScoringStats,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): TrendScoringBreakdown {
   // Base points from order count (normalized to 7)
-  const orderCountPoints = Math.floor(stats.orderCount * 7);
+  const orderCountPoints = Math.floor(stats.orderCount * config.orderPoints.strain);
 
   // Trend momentum points (normalized to 22)
   const trendMultiplier =
     typeof stats.trendMultiplier === 'number' && stats.trendMultiplier > 0
-      ? Math.min(stats.trendMultiplier, 5.0) // Cap at 5x
-      : calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0);
-  const trendMomentumPoints = Math.floor(trendMultiplier * 22);
+      ? Math.min(stats.trendMultiplier, config.trendMultiplierCap) // Default cap 5x
+      : Math.min(calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0), config.trendMultiplierCap);
+  const trendMomentumPoints = Math.floor(trendMultiplier * config.trendPoints.strain);
 
   // Rank-based bonuses (now unified)
-  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'strain');
+  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'strain', config.rankTierBonuses);
   const momentumBonusPoints = calculateMomentumBonus(stats.previousRank, stats.currentRank, 'strain');
 
   // Advanced feature bonuses (capped)
@@ -332,19 +344,22 @@ export function calculateStrainTrendScore(stats: TrendScoringStats): TrendScorin
  * Calculate product score with new trend-based system
  * REBALANCED: Normalized multipliers, removed 3x advantage, target 40-80 pts
  */
-export function calculateProductTrendScore(stats: TrendScoringStats): TrendScoringBreakdown {
+export function calculateProductTrendScore(
+  stats: TrendScoringStats,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): TrendScoringBreakdown {
   // Base points from order count (normalized to 7, removed 3x multiplier)
-  const orderCountPoints = stats.orderCount * 7;
+  const orderCountPoints = stats.orderCount * config.orderPoints.product;
 
   // Trend momentum points (normalized to 20, removed 3x multiplier)
   const trendMultiplier =
     typeof stats.trendMultiplier === 'number' && stats.trendMultiplier > 0
-      ? Math.min(stats.trendMultiplier, 5.0) // Cap at 5x
-      : calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0);
-  const trendMomentumPoints = Math.floor(trendMultiplier * 20);
+      ? Math.min(stats.trendMultiplier, config.trendMultiplierCap) // Default cap 5x
+      : Math.min(calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0), config.trendMultiplierCap);
+  const trendMomentumPoints = Math.floor(trendMultiplier * config.trendPoints.product);
 
   // Rank-based bonuses (now unified)
-  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'product');
+  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'product', config.rankTierBonuses);
   const momentumBonusPoints = calculateMomentumBonus(stats.previousRank, stats.currentRank, 'product');
 
   // Advanced feature bonuses (capped)
@@ -394,19 +409,22 @@ export function calculateProductTrendScore(stats: TrendScoringStats): TrendScori
  * Calculate pharmacy score with new trend-based system
  * REBALANCED: Similar to manufacturers, target 50-120 pts
  */
-export function calculatePharmacyTrendScore(stats: TrendScoringStats): TrendScoringBreakdown {
+export function calculatePharmacyTrendScore(
+  stats: TrendScoringStats,
+  config: LeagueScoringConfig = DEFAULT_SCORING_CONFIG
+): TrendScoringBreakdown {
   // Base points from order count (reduced from 10 to 5)
-  const orderCountPoints = stats.orderCount * 5;
+  const orderCountPoints = stats.orderCount * config.orderPoints.pharmacy;
 
   // Trend momentum points (reduced from 100 to 25)
   const trendMultiplier =
     typeof stats.trendMultiplier === 'number' && stats.trendMultiplier > 0
-      ? Math.min(stats.trendMultiplier, 5.0) // Cap at 5x
-      : calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0);
-  const trendMomentumPoints = Math.floor(trendMultiplier * 25);
+      ? Math.min(stats.trendMultiplier, config.trendMultiplierCap) // Default cap 5x
+      : Math.min(calculateTrendMultiplier(stats.days1 ?? 0, stats.days7 ?? 0), config.trendMultiplierCap);
+  const trendMomentumPoints = Math.floor(trendMultiplier * config.trendPoints.pharmacy);
 
   // Rank-based bonuses (now unified)
-  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'pharmacy');
+  const rankBonusPoints = calculateRankBonus(stats.currentRank, 'pharmacy', config.rankTierBonuses);
   const momentumBonusPoints = calculateMomentumBonus(stats.previousRank, stats.currentRank, 'pharmacy');
 
   // Advanced feature bonuses (capped)
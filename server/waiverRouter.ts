@@ -1,80 +1,15 @@
 import { z } from "zod";
 import { router, protectedProcedure } from "./_core/trpc";
 import { getDb } from "./db";
-import {
-  waiverClaims,
-  teams,
-  leagues,
-  rosters,
-  manufacturers,
-  cannabisStrains,
-  strains,
-  pharmacies,
-  brands,
-} from "../drizzle/schema";
-import { eq, and, desc, inArray, ne } from "drizzle-orm";
+import { faabTransactions, waiverClaims, waiverHolds, teams, leagues, rosters, trades } from "../drizzle/schema";
+import { eq, and, asc, desc, inArray, ne } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { ASSET_TYPE_LABELS, getAssetName, type Database } from "./assetNames";
+import { getTradeDetails } from "./tradeService";
+import { exceedsRosterLimits, getNextScheduledWaiverRun, placeOnWaivers, processLeagueWaivers } from "./waiverService";
+import { clearKeeperDesignation } from "./keeperService";
 
-type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
-
-const ASSET_TYPE_LABELS: Record<string, string> = {
-  manufacturer: "Manufacturer",
-  strain: "Strain",
-  cannabis_strain: "Strain",
-  product: "Product",
-  pharmacy: "Dispensary",
-  brand: "Brand",
-};
-
-async function getAssetName(db: Database, assetType: string, assetId: number) {
-  switch (assetType) {
-    case "manufacturer": {
-      const [row] = await db
-        .select({ name: manufacturers.name })
-        .from(manufacturers)
-        .where(eq(manufacturers.id, assetId))
-        .limit(1);
-      return row?.name || `Manufacturer #${assetId}`;
-    }
-    case "cannabis_strain":
-    case "strain": {
-      const [row] = await db
-        .select({ name: cannabisStrains.name })
-        .from(cannabisStrains)
-        .where(eq(cannabisStrains.id, assetId))
-        .limit(1);
-      return row?.name || `Strain #${assetId}`;
-    }
-    case "product": {
-      const [row] = await db
-        .select({ name: strains.name })
-        .from(strains)
-        .where(eq(strains.id, assetId))
-        .limit(1);
-      return row?.name || `Product #${assetId}`;
-    }
-    case "pharmacy": {
-      const [row] = await db
-        .select({ name: pharmacies.name })
-        .from(pharmacies)
-        .where(eq(pharmacies.id, assetId))
-        .limit(1);
-      return row?.name || `Dispensary #${assetId}`;
-    }
-    case "brand": {
-      const [row] = await db
-        .select({ name: brands.name })
-        .from(brands)
-        .where(eq(brands.id, assetId))
-        .limit(1);
-      return row?.name || `Brand #${assetId}`;
-    }
-    case "none":
-      return null;
-    default:
-      return `Asset #${assetId}`;
-  }
-}
+const AssetTypeSchema = z.enum(["manufacturer", "strain", "cannabis_strain", "product", "pharmacy", "brand"]);
 
 async function enrichClaims(db: Database, claims: typeof waiverClaims.$inferSelect[]) {
   return Promise.all(
@@ -87,6 +22,7 @@ async function enrichClaims(db: Database, claims: typeof waiverClaims.$inferSele
 
       return {
         ...claim,
+        kind: "waiver" as const,
         teamName: team?.name || "Unknown Team",
         addAssetName: await getAssetName(db, claim.addAssetType, claim.addAssetId),
         dropAssetName:
@@ -103,6 +39,60 @@ async function enrichClaims(db: Database, claims: typeof waiverClaims.$inferSele
   );
 }
 
+const MAX_CLAIM_GROUPS = 5;
+
+/**
+ * Check a bid against the league's FAAB rules and the team's remaining budget
+ */
+function validateBid(
+  league: Pick<typeof leagues.$inferSelect, "faabMinBid" | "faabAllowZeroBids">,
+  team: Pick<typeof teams.$inferSelect, "faabBudget">,
+  bidAmount: number
+) {
+  if (bidAmount === 0 && !league.faabAllowZeroBids) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `$0 bids are not allowed. Minimum bid is $${league.faabMinBid}.` });
+  }
+  if (bidAmount > 0 && bidAmount < league.faabMinBid) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Minimum bid is $${league.faabMinBid}.` });
+  }
+  if (bidAmount > team.faabBudget) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Insufficient FAAB. You have ${team.faabBudget}.` });
+  }
+}
+
+/**
+ * Pending claim owned by the current user, with its team and league
+ */
+async function getOwnPendingClaim(db: Database, userId: number, claimId: number) {
+  const [claim] = await db
+    .select()
+    .from(waiverClaims)
+    .where(eq(waiverClaims.id, claimId))
+    .limit(1);
+  if (!claim) throw new TRPCError({ code: "NOT_FOUND", message: "Claim not found" });
+
+  const [team] = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.id, claim.teamId))
+    .limit(1);
+  if (!team || team.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You can only change your own claims" });
+  }
+  if (claim.status !== "pending") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This claim has already been processed" });
+  }
+
+  const [league] = await db
+    .select()
+    .from(leagues)
+    .where(eq(leagues.id, claim.leagueId))
+    .limit(1);
+  if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+
+  return { claim, team, league };
+}
+
 export const waiverRouter = router({
   /**
    * Create a waiver claim (bid on a player)
@@ -112,12 +102,14 @@ export const waiverRouter = router({
         z.object({
           leagueId: z.number(),
           // Accept both "strain" and "cannabis_strain" for compatibility
-          addAssetType: z.enum(["manufacturer", "strain", "cannabis_strain", "product", "pharmacy", "brand"]),
+          addAssetType: AssetTypeSchema,
           addAssetId: z.number(),
           // Allow "none" for cases where we don't drop anyone (e.g. open roster spot)
           dropAssetType: z.enum(["manufacturer", "strain", "cannabis_strain", "product", "pharmacy", "brand", "none"]),
           dropAssetId: z.number(),
-          bidAmount: z.number().min(0),
+          bidAmount: z.number().int().min(0),
+          // Claims sharing a group are tried in rank order until one succeeds
+          claimGroup: z.number().int().min(1).max(MAX_CLAIM_GROUPS).nullable().optional(),
         })
     )
     .mutation(async ({ ctx, input }) => {
@@ -138,9 +130,8 @@ export const waiverRouter = router({
       if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
 
       // 2. Validate FAAB
-      if (input.bidAmount > team.faabBudget) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: `Insufficient FAAB. You have ${team.faabBudget}.` });
-      }
+      const bidAmount = league.faabEnabled ? input.bidAmount : 0;
+      validateBid(league, team, bidAmount);
 
       // 3. Validate "Drop" Asset (Must own it), ONLY if not "none"
       if (input.dropAssetType !== "none") {
@@ -174,7 +165,13 @@ export const waiverRouter = router({
         throw new TRPCError({ code: "BAD_REQUEST", message: "This asset is already owned by another team." });
       }
 
-      // 5. Create Claim
+      // 5. Create Claim, ranked after the team's other pending claims
+      const pendingClaims = await db
+        .select({ claimRank: waiverClaims.claimRank })
+        .from(waiverClaims)
+        .where(and(eq(waiverClaims.teamId, team.id), eq(waiverClaims.status, "pending")));
+      const claimRank = pendingClaims.reduce((max, c) => Math.max(max, c.claimRank), 0) + 1;
+
       await db.insert(waiverClaims).values({
         leagueId: input.leagueId,
         teamId: team.id,
@@ -184,8 +181,10 @@ export const waiverRouter = router({
         addAssetId: input.addAssetId,
         dropAssetType: input.dropAssetType,
         dropAssetId: input.dropAssetId,
-        bidAmount: input.bidAmount,
+        bidAmount,
         priority: team.waiverPriority,
+        claimRank,
+        claimGroup: input.claimGroup ?? null,
         status: "pending",
       });
 
@@ -213,13 +212,13 @@ export const waiverRouter = router({
         .where(
           and(eq(waiverClaims.teamId, team.id), eq(waiverClaims.status, "pending"))
         )
-        .orderBy(desc(waiverClaims.createdAt));
+        .orderBy(asc(waiverClaims.claimRank), asc(waiverClaims.createdAt));
 
       return enrichClaims(db, claims);
     }),
 
   /**
-   * Get processed waiver log for a league
+   * Get processed waiver and trade log for a league
    */
   getTransactionLog: protectedProcedure
     .input(z.object({ leagueId: z.number() }))
@@ -244,7 +243,152 @@ export const waiverRouter = router({
         )
         .orderBy(desc(waiverClaims.processedAt), desc(waiverClaims.createdAt));
 
-      return enrichClaims(db, claims);
+      const [executedTrades, leagueTeams] = await Promise.all([
+        db
+          .select()
+          .from(trades)
+          .where(and(eq(trades.leagueId, input.leagueId), eq(trades.status, "accepted"))),
+        db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, input.leagueId)),
+      ]);
+
+      const tradeEntries = (await getTradeDetails(db, executedTrades, leagueTeams.length)).map((trade) => ({
+        kind: "trade" as const,
+        id: trade.id,
+        processedAt: trade.executedAt ?? trade.updatedAt,
+        teamName: trade.participants.map((p) => p.teamName).join(" / "),
+        status: "success",
+        moves: trade.assets.map((asset) => ({
+          assetName: asset.assetName,
+          assetLabel: asset.assetLabel,
+          fromTeamName: asset.fromTeamName,
+          toTeamName: asset.toTeamName,
+        })),
+      }));
+
+      const waiverEntries = await enrichClaims(db, claims);
+
+      // Newest first across both kinds
+      return [...waiverEntries, ...tradeEntries].sort(
+        (a, b) => new Date(b.processedAt ?? 0).getTime() - new Date(a.processedAt ?? 0).getTime()
+      );
+    }),
+
+  /**
+   * Change the bid or conditional group of a pending claim
+   */
+  updateClaim: protectedProcedure
+    .input(
+      z.object({
+        claimId: z.number(),
+        bidAmount: z.number().int().min(0).optional(),
+        claimGroup: z.number().int().min(1).max(MAX_CLAIM_GROUPS).nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const { claim, team, league } = await getOwnPendingClaim(db, ctx.user.id, input.claimId);
+
+      const updateData: Partial<typeof waiverClaims.$inferInsert> = {};
+      if (input.bidAmount !== undefined && league.faabEnabled) {
+        validateBid(league, team, input.bidAmount);
+        updateData.bidAmount = input.bidAmount;
+      }
+      if (input.claimGroup !== undefined) updateData.claimGroup = input.claimGroup;
+      if (Object.keys(updateData).length === 0) return { success: true };
+
+      await db.update(waiverClaims).set(updateData).where(eq(waiverClaims.id, claim.id));
+      return { success: true };
+    }),
+
+  /**
+   * Rank the pending claims of my team (first = most wanted)
+   */
+  reorderClaims: protectedProcedure
+    .input(z.object({ leagueId: z.number(), claimIds: z.array(z.number()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [team] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      if (!team) throw new TRPCError({ code: "NOT_FOUND", message: "Team not found in this league" });
+
+      const pendingClaims = await db
+        .select({ id: waiverClaims.id })
+        .from(waiverClaims)
+        .where(and(eq(waiverClaims.teamId, team.id), eq(waiverClaims.status, "pending")));
+      const pendingIds = pendingClaims.map((c) => c.id);
+      if (
+        input.claimIds.length !== pendingIds.length ||
+        input.claimIds.some((id) => !pendingIds.includes(id))
+      ) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Rank every pending claim exactly once" });
+      }
+
+      for (let index = 0; index < input.claimIds.length; index++) {
+        await db
+          .update(waiverClaims)
+          .set({ claimRank: index + 1 })
+          .where(eq(waiverClaims.id, input.claimIds[index]));
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * FAAB budget history of every team in a league
+   */
+  getFaabLedger: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+      if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+
+      const leagueTeams = await db
+        .select()
+        .from(teams)
+        .where(eq(teams.leagueId, input.leagueId))
+        .orderBy(asc(teams.id));
+      if (!leagueTeams.some((t) => t.userId === ctx.user.id)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You are not part of this league" });
+      }
+
+      const entries = await db
+        .select()
+        .from(faabTransactions)
+        .where(eq(faabTransactions.leagueId, input.leagueId))
+        .orderBy(desc(faabTransactions.createdAt), desc(faabTransactions.id));
+
+      return {
+        faabEnabled: league.faabEnabled,
+        startingBudget: league.faabBudget,
+        teams: leagueTeams.map((team) => {
+          const teamEntries = entries.filter((e) => e.teamId === team.id);
+          return {
+            teamId: team.id,
+            teamName: team.name,
+            userId: team.userId,
+            faabBudget: team.faabBudget,
+            spent: -teamEntries
+              .filter((e) => e.kind === "waiver_claim")
+              .reduce((sum, e) => sum + e.amount, 0),
+            claimsWon: teamEntries.filter((e) => e.kind === "waiver_claim").length,
+            entries: teamEntries,
+          };
+        }),
+      };
     }),
 
   /**
@@ -276,110 +420,191 @@ export const waiverRouter = router({
     }),
 
   /**
-   * Process Waivers (Commissioner Only)
+   * Waiver schedule of a league and the assets currently on waivers
    */
-  processWaivers: protectedProcedure
+  getWaiverStatus: protectedProcedure
     .input(z.object({ leagueId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
+      if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+
+      const holds = await db
+        .select()
+        .from(waiverHolds)
+        .where(eq(waiverHolds.leagueId, input.leagueId))
+        .orderBy(asc(waiverHolds.clearsAt));
+
+      const nextRun = getNextScheduledWaiverRun(league);
+      const nextRunAt = nextRun.toISOString();
+      return {
+        waiverType: league.waiverType,
+        waiverPeriodDays: league.waiverPeriodDays,
+        faabEnabled: league.faabEnabled,
+        faabMinBid: league.faabMinBid,
+        faabAllowZeroBids: league.faabAllowZeroBids,
+        faabTiebreaker: league.faabTiebreaker,
+        lastRunAt: league.lastWaiverRunAt,
+        nextRunAt,
+        onWaivers: await Promise.all(
+          holds.map(async (hold) => ({
+            ...hold,
+            assetName: await getAssetName(db, hold.assetType, hold.assetId),
+            assetLabel: ASSET_TYPE_LABELS[hold.assetType] || hold.assetType,
+            // Held assets clear with the first waiver run after their period ends
+            clearsWithRunAt: new Date(hold.clearsAt) > nextRun
+              ? getNextScheduledWaiverRun(league, new Date(hold.clearsAt)).toISOString()
+              : nextRunAt,
+          }))
+        ),
+      };
+    }),
+
+  /**
+   * Add a free agent immediately (first come, first served).
+   * Assets still on waivers can only be claimed.
+   */
+  addFreeAgent: protectedProcedure
+    .input(
+      z.object({
+        leagueId: z.number(),
+        addAssetType: AssetTypeSchema,
+        addAssetId: z.number(),
+        dropAssetType: z.enum(["manufacturer", "strain", "cannabis_strain", "product", "pharmacy", "brand", "none"]),
+        dropAssetId: z.number(),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      const league = await db.query.leagues.findFirst({
-        where: eq(leagues.id, input.leagueId),
-      });
+      const [team] = await db
+        .select()
+        .from(teams)
+        .where(and(eq(teams.leagueId, input.leagueId), eq(teams.userId, ctx.user.id)))
+        .limit(1);
+      if (!team) throw new TRPCError({ code: "NOT_FOUND", message: "Team not found in this league" });
 
+      const [league] = await db
+        .select()
+        .from(leagues)
+        .where(eq(leagues.id, input.leagueId))
+        .limit(1);
       if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
-      if (league.commissionerUserId !== ctx.user.id) {
-        throw new TRPCError({ code: "FORBIDDEN", message: "Only commissioner can process waivers" });
+
+      const [hold] = await db
+        .select()
+        .from(waiverHolds)
+        .where(
+          and(
+            eq(waiverHolds.leagueId, input.leagueId),
+            eq(waiverHolds.assetType, input.addAssetType),
+            eq(waiverHolds.assetId, input.addAssetId)
+          )
+        )
+        .limit(1);
+      if (hold) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This asset is on waivers. Submit a claim instead." });
       }
 
-      // 1. Get all pending claims
-      // Sort: Highest bid first (DESC), then Priority (ASC - assuming 1 is best)
-      const sortedClaims = await db.select().from(waiverClaims).where(and(
-        eq(waiverClaims.leagueId, input.leagueId),
-        eq(waiverClaims.status, "pending")
-      )).orderBy(desc(waiverClaims.bidAmount), waiverClaims.priority); 
+      const leagueTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.leagueId, input.leagueId));
+      const [existingOwner] = await db
+        .select({ id: rosters.id })
+        .from(rosters)
+        .where(
+          and(
+            inArray(rosters.teamId, leagueTeams.map((t) => t.id)),
+            eq(rosters.assetType, input.addAssetType),
+            eq(rosters.assetId, input.addAssetId)
+          )
+        )
+        .limit(1);
+      if (existingOwner) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This asset is already owned by another team." });
+      }
 
-      const processedLog = [];
-      const assetsTaken = new Set<string>(); // "type:id"
-      const assetsDropped = new Set<string>(); // "teamId:type:id"
+      const myRoster = await db.select().from(rosters).where(eq(rosters.teamId, team.id));
+      const dropEntry =
+        input.dropAssetType === "none"
+          ? null
+          : myRoster.find((r) => r.assetType === input.dropAssetType && r.assetId === input.dropAssetId);
+      if (input.dropAssetType !== "none" && !dropEntry) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You do not own the asset you are trying to drop." });
+      }
 
-      const now = new Date().toISOString();
+      if (exceedsRosterLimits([
+        ...myRoster.filter((r) => r.id !== dropEntry?.id),
+        { assetType: input.addAssetType },
+      ])) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Your roster is full. Choose an asset to drop." });
+      }
 
-      for (const claim of sortedClaims) {
-        const addKey = `${claim.addAssetType}:${claim.addAssetId}`;
-        const dropKey = `${claim.teamId}:${claim.dropAssetType}:${claim.dropAssetId}`;
-
-        // Check if add asset is already taken in this batch
-        if (assetsTaken.has(addKey)) {
-          await db
-            .update(waiverClaims)
-            .set({ status: "failed", processedAt: now })
-            .where(eq(waiverClaims.id, claim.id));
-          processedLog.push(`Claim ${claim.id} failed: Player already taken.`);
-          continue;
+      const now = new Date().toISOString();
+      await db.transaction(async (tx) => {
+        if (dropEntry) {
+          await tx.delete(rosters).where(eq(rosters.id, dropEntry.id));
+          await clearKeeperDesignation(tx, team.id, dropEntry.assetType, dropEntry.assetId);
         }
 
-        // Check if drop asset is still available (only if not "none")
-        if (claim.dropAssetType !== "none" && assetsDropped.has(dropKey)) {
-           await db
-             .update(waiverClaims)
-             .set({ status: "failed", processedAt: now })
-             .where(eq(waiverClaims.id, claim.id));
-           processedLog.push(`Claim ${claim.id} failed: Drop player already moved.`);
-           continue;
-        }
+        await tx.insert(rosters).values({
+          teamId: team.id,
+          assetType: input.addAssetType,
+          assetId: input.addAssetId,
+          acquiredWeek: league.currentWeek,
+          acquiredVia: "free_agent",
+        });
 
-        // EXECUTE TRANSACTION
-        try {
-          await db.transaction(async (tx) => {
-            // 1. Remove dropped asset (if not none)
-            if (claim.dropAssetType !== "none") {
-              await tx.delete(rosters).where(and(
-                eq(rosters.teamId, claim.teamId),
-                eq(rosters.assetType, claim.dropAssetType),
-                eq(rosters.assetId, claim.dropAssetId)
-              ));
-            }
-
-            // 2. Add new asset
-            await tx.insert(rosters).values({
-              teamId: claim.teamId,
-              assetType: claim.addAssetType,
-              assetId: claim.addAssetId,
-              acquiredWeek: league.currentWeek,
-              acquiredVia: "waiver",
-            });
-
-            // 3. Deduct FAAB
-            const team = await tx.query.teams.findFirst({ where: eq(teams.id, claim.teamId) });
-            if (team) {
-               await tx.update(teams).set({ faabBudget: team.faabBudget - claim.bidAmount }).where(eq(teams.id, team.id));
-            }
-
-            // 4. Mark claim success
-            await tx
-              .update(waiverClaims)
-              .set({ status: "success", processedAt: new Date().toISOString() })
-              .where(eq(waiverClaims.id, claim.id));
-          });
-
-          assetsTaken.add(addKey);
-          if (claim.dropAssetType !== "none") {
-            assetsDropped.add(dropKey);
-          }
-          processedLog.push(`Claim ${claim.id} success: Team ${claim.teamId} got ${addKey} for $${claim.bidAmount}`);
-
-        } catch (e) {
-          console.error(e);
-          await db
-            .update(waiverClaims)
-            .set({ status: "error", processedAt: new Date().toISOString() })
-            .where(eq(waiverClaims.id, claim.id));
-          processedLog.push(`Claim ${claim.id} error: Database transaction failed.`);
-        }
+        // Logged with the waiver claims so it shows up in the transaction log
+        await tx.insert(waiverClaims).values({
+          leagueId: input.leagueId,
+          teamId: team.id,
+          year: league.seasonYear,
+          week: league.currentWeek,
+          addAssetType: input.addAssetType,
+          addAssetId: input.addAssetId,
+          dropAssetType: input.dropAssetType,
+          dropAssetId: input.dropAssetId,
+          bidAmount: 0,
+          priority: team.waiverPriority,
+          claimType: "free_agent",
+          status: "success",
+          processedAt: now,
+        });
+      });
+
+      if (dropEntry) {
+        await placeOnWaivers(db, league, team.id, dropEntry.assetType, dropEntry.assetId);
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Process Waivers right away (Commissioner Only).
+   * Leagues also run them automatically on their waiver day.
+   */
+  processWaivers: protectedProcedure
+    .input(z.object({ leagueId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const league = await db.query.leagues.findFirst({
+        where: eq(leagues.id, input.leagueId),
+      });
+
+      if (!league) throw new TRPCError({ code: "NOT_FOUND", message: "League not found" });
+      if (league.commissionerUserId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only commissioner can process waivers" });
       }
 
-      return { success: true, log: processedLog };
+      const result = await processLeagueWaivers(input.leagueId);
+      return { success: true, ...result };
     }),
 });
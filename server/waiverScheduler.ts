@@ -0,0 +1,33 @@
+import { processDueWaivers } from './waiverService';
+
+/**
+ * Waiver Scheduler (interval-based, no cron)
+ *
+ * Runs waivers for each league on its configured day and hour (Europe/Berlin).
+ * Leagues whose run was missed while the server was down are caught up on the next check.
+ */
+
+const CHECK_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+async function schedulerLoop() {
+  const result = await processDueWaivers();
+  if (result.processed > 0) {
+    console.log(`[WaiverScheduler] Processed waivers for ${result.processed} leagues`);
+  }
+}
+
+export function initWaiverScheduler() {
+  console.log('[WaiverScheduler] Initializing (interval-based, no cron)...');
+
+  schedulerLoop().catch(err => {
+    console.error('[WaiverScheduler] Error in initial run:', err);
+  });
+
+  setInterval(() => {
+    schedulerLoop().catch(err => {
+      console.error('[WaiverScheduler] Error in scheduler loop:', err);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('[WaiverScheduler] Scheduled to check every 10 minutes');
+}
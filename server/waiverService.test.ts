@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { leagues, waiverClaims } from "../drizzle/schema";
+import {
+  compareClaims,
+  exceedsRosterLimits,
+  getLastScheduledWaiverRun,
+  getNextScheduledWaiverRun,
+  isClaimEligible,
+} from "./waiverService";
+
+type LeagueRow = typeof leagues.$inferSelect;
+type ClaimRow = typeof waiverClaims.$inferSelect;
+
+function claim(id: number, overrides: Partial<ClaimRow> = {}): ClaimRow {
+  return {
+    id,
+    leagueId: 1,
+    teamId: 1,
+    year: 2025,
+    week: 3,
+    addAssetType: "product",
+    addAssetId: 100 + id,
+    dropAssetType: "none",
+    dropAssetId: 0,
+    bidAmount: 0,
+    priority: 1,
+    claimType: "waiver",
+    claimRank: 1,
+    claimGroup: null,
+    status: "pending",
+    statusReason: null,
+    processedAt: null,
+    createdAt: "2025-01-10T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function league(overrides: Partial<LeagueRow> = {}): LeagueRow {
+  return { faabEnabled: true, faabTiebreaker: "priority", ...overrides } as LeagueRow;
+}
+
+function sortClaims(claims: ClaimRow[], leagueRow: LeagueRow, order: number[]) {
+  return [...claims].sort(compareClaims(leagueRow, order)).map((c) => c.id);
+}
+
+describe("compareClaims", () => {
+  it("awards the highest bid first in FAAB leagues", () => {
+    const claims = [claim(1, { teamId: 1, bidAmount: 5 }), claim(2, { teamId: 2, bidAmount: 12 })];
+    expect(sortClaims(claims, league(), [1, 2])).toEqual([2, 1]);
+  });
+
+  it("breaks equal bids on waiver priority", () => {
+    const claims = [
+      claim(1, { teamId: 1, bidAmount: 10, createdAt: "2025-01-09T10:00:00.000Z" }),
+      claim(2, { teamId: 2, bidAmount: 10 }),
+    ];
+    expect(sortClaims(claims, league(), [2, 1])).toEqual([2, 1]);
+  });
+
+  it("breaks equal bids on submission time when the league uses the earliest tiebreaker", () => {
+    const claims = [
+      claim(1, { teamId: 1, bidAmount: 10, createdAt: "2025-01-09T10:00:00.000Z" }),
+      claim(2, { teamId: 2, bidAmount: 10 }),
+    ];
+    expect(sortClaims(claims, league({ faabTiebreaker: "earliest" }), [2, 1])).toEqual([1, 2]);
+  });
+
+  it("ignores bids without FAAB", () => {
+    const claims = [claim(1, { teamId: 1, bidAmount: 50 }), claim(2, { teamId: 2, bidAmount: 0 })];
+    expect(sortClaims(claims, league({ faabEnabled: false }), [2, 1])).toEqual([2, 1]);
+  });
+
+  it("orders a team's own claims by its ranking", () => {
+    const claims = [claim(1, { claimRank: 2 }), claim(2, { claimRank: 1 })];
+    expect(sortClaims(claims, league({ faabEnabled: false }), [1])).toEqual([2, 1]);
+  });
+});
+
+describe("isClaimEligible", () => {
+  it("always runs claims outside a group", () => {
+    const standalone = claim(1, { claimRank: 3 });
+    expect(isClaimEligible(standalone, [claim(2, { claimRank: 1 }), standalone])).toBe(true);
+  });
+
+  it("waits for the earlier claims of its group", () => {
+    const first = claim(1, { claimGroup: 7, claimRank: 1 });
+    const second = claim(2, { claimGroup: 7, claimRank: 2 });
+    expect(isClaimEligible(second, [first, second])).toBe(false);
+    expect(isClaimEligible(first, [first, second])).toBe(true);
+    expect(isClaimEligible(second, [second])).toBe(true);
+  });
+
+  it("is not held up by another team's group", () => {
+    const mine = claim(1, { teamId: 1, claimGroup: 7, claimRank: 2 });
+    const theirs = claim(2, { teamId: 2, claimGroup: 7, claimRank: 1 });
+    expect(isClaimEligible(mine, [mine, theirs])).toBe(true);
+  });
+});
+
+describe("exceedsRosterLimits", () => {
+  const fullRoster = [
+    { assetType: "manufacturer" },
+    { assetType: "manufacturer" },
+    { assetType: "cannabis_strain" },
+    { assetType: "cannabis_strain" },
+    { assetType: "product" },
+    { assetType: "product" },
+    { assetType: "pharmacy" },
+    { assetType: "pharmacy" },
+    { assetType: "brand" },
+  ];
+
+  it("lets one extra asset fill the flex slot", () => {
+    expect(exceedsRosterLimits([...fullRoster, { assetType: "product" }])).toBe(false);
+  });
+
+  it("rejects a roster past the flex slot", () => {
+    expect(exceedsRosterLimits([...fullRoster, { assetType: "product" }, { assetType: "brand" }])).toBe(true);
+  });
+});
+
+describe("waiver schedule", () => {
+  // Wednesdays 10:00 Berlin time (09:00 UTC in winter)
+  const schedule = { waiverProcessDay: 3, waiverProcessHour: 10 };
+
+  it("finds the run earlier the same day", () => {
+    const now = new Date("2025-01-15T12:30:00.000Z");
+    expect(getLastScheduledWaiverRun(schedule, now).toISOString()).toBe("2025-01-15T09:00:00.000Z");
+    expect(getNextScheduledWaiverRun(schedule, now).toISOString()).toBe("2025-01-22T09:00:00.000Z");
+  });
+
+  it("goes back a week before the run hour", () => {
+    const now = new Date("2025-01-15T08:00:00.000Z");
+    expect(getLastScheduledWaiverRun(schedule, now).toISOString()).toBe("2025-01-08T09:00:00.000Z");
+  });
+});
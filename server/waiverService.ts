@@ -0,0 +1,395 @@
+import { and, eq, inArray, lte } from "drizzle-orm";
+import { getDb } from "./db";
+import { faabTransactions, leagues, rosters, teams, waiverClaims, waiverHolds } from "../drizzle/schema";
+import { getAssetName, type Database } from "./assetNames";
+import { wsManager } from "./websocket";
+import { clearKeeperDesignation } from "./keeperService";
+import { calculateRosterNeeds } from "./rosterRouter";
+
+type LeagueRow = typeof leagues.$inferSelect;
+type TeamRow = typeof teams.$inferSelect;
+
+const WAIVER_TIMEZONE = "Europe/Berlin";
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Weekday, hour and minute of a moment in the waiver timezone
+ */
+function getLocalTime(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: WAIVER_TIMEZONE,
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+    hour: parseInt(part("hour")),
+    minute: parseInt(part("minute")),
+  };
+}
+
+/**
+ * Most recent scheduled waiver run at or before `now`
+ */
+export function getLastScheduledWaiverRun(
+  league: Pick<LeagueRow, "waiverProcessDay" | "waiverProcessHour">,
+  now = new Date()
+) {
+  const local = getLocalTime(now);
+  let daysBack = (local.weekday - league.waiverProcessDay + 7) % 7;
+  if (daysBack === 0 && local.hour < league.waiverProcessHour) {
+    daysBack = 7;
+  }
+  const hoursBack = daysBack * 24 + local.hour - league.waiverProcessHour;
+  const scheduled = new Date(now.getTime() - hoursBack * 60 * 60 * 1000 - local.minute * 60 * 1000);
+  scheduled.setSeconds(0, 0);
+  return scheduled;
+}
+
+/**
+ * Next scheduled waiver run after `now`
+ */
+export function getNextScheduledWaiverRun(
+  league: Pick<LeagueRow, "waiverProcessDay" | "waiverProcessHour">,
+  now = new Date()
+) {
+  return new Date(getLastScheduledWaiverRun(league, now).getTime() + 7 * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Put a dropped asset on waivers for the league's waiver period
+ */
+export async function placeOnWaivers(
+  db: Database,
+  league: Pick<LeagueRow, "id" | "waiverPeriodDays">,
+  teamId: number,
+  assetType: string,
+  assetId: number
+) {
+  if (league.waiverPeriodDays <= 0) return;
+
+  const clearsAt = new Date(Date.now() + league.waiverPeriodDays * 24 * 60 * 60 * 1000).toISOString();
+  await db
+    .insert(waiverHolds)
+    .values({ leagueId: league.id, assetType, assetId, droppedByTeamId: teamId, clearsAt })
+    .onConflictDoUpdate({
+      target: [waiverHolds.leagueId, waiverHolds.assetType, waiverHolds.assetId],
+      set: { droppedByTeamId: teamId, clearsAt },
+    });
+}
+
+/**
+ * Claim order at the start of a run. Rolling leagues keep the stored priority,
+ * reverse-standings leagues put the worst record first.
+ */
+function getStartingOrder(league: LeagueRow, leagueTeams: TeamRow[]): number[] {
+  if (league.waiverType === "reverse_standings") {
+    const winPercentage = (t: TeamRow) => {
+      const games = t.wins + t.losses + t.ties;
+      return games > 0 ? (t.wins + t.ties * 0.5) / games : 0;
+    };
+    return [...leagueTeams]
+      .sort((a, b) => winPercentage(a) - winPercentage(b) || a.pointsFor - b.pointsFor || a.id - b.id)
+      .map((t) => t.id);
+  }
+
+  return [...leagueTeams].sort((a, b) => a.waiverPriority - b.waiverPriority || a.id - b.id).map((t) => t.id);
+}
+
+type ClaimRow = typeof waiverClaims.$inferSelect;
+type ClaimResult = { claim: ClaimRow; status: string; reason?: string };
+
+/**
+ * A claim in a conditional group waits until every earlier claim of its group
+ * has failed
+ */
+export function isClaimEligible(claim: ClaimRow, remaining: ClaimRow[]) {
+  if (claim.claimGroup === null) return true;
+  return !remaining.some(
+    (other) =>
+      other.id !== claim.id &&
+      other.teamId === claim.teamId &&
+      other.claimGroup === claim.claimGroup &&
+      other.claimRank < claim.claimRank
+  );
+}
+
+/**
+ * Order in which eligible claims are awarded: highest bid first (FAAB leagues),
+ * ties go to the better waiver priority or the earlier submission depending on
+ * the league's tiebreaker, and a team's own ranking decides between its claims.
+ */
+export function compareClaims(league: LeagueRow, order: number[]) {
+  const byPriority = (a: ClaimRow, b: ClaimRow) => order.indexOf(a.teamId) - order.indexOf(b.teamId);
+  const bySubmission = (a: ClaimRow, b: ClaimRow) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  return (a: ClaimRow, b: ClaimRow) =>
+    (league.faabEnabled ? b.bidAmount - a.bidAmount : 0) ||
+    (league.faabTiebreaker === "earliest"
+      ? bySubmission(a, b) || byPriority(a, b)
+      : byPriority(a, b) || bySubmission(a, b)) ||
+    a.claimRank - b.claimRank ||
+    a.id - b.id;
+}
+
+/**
+ * Whether a roster breaks its position limits once the flex slot is used up
+ */
+export function exceedsRosterLimits(entries: Array<{ assetType: string }>) {
+  const { flex, ...positions } = calculateRosterNeeds(entries);
+  const overflow = Object.values(positions).reduce((sum, p) => sum + Math.max(0, p.current - p.max), 0);
+  return overflow > flex.max;
+}
+
+/**
+ * Process every pending claim of a league. Claims are handled one at a time,
+ * see compareClaims for the order. A team that wins a claim drops to the back
+ * of the order, so priority rolls after each successful claim.
+ */
+export async function processLeagueWaivers(leagueId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!league) throw new Error("League not found");
+
+  const leagueTeams = await db.select().from(teams).where(eq(teams.leagueId, leagueId));
+  const teamIds = leagueTeams.map((t) => t.id);
+  const order = getStartingOrder(league, leagueTeams);
+  const budgets = new Map(leagueTeams.map((t) => [t.id, t.faabBudget]));
+
+  const [pending, leagueRosters] = await Promise.all([
+    db
+      .select()
+      .from(waiverClaims)
+      .where(and(eq(waiverClaims.leagueId, leagueId), eq(waiverClaims.status, "pending"))),
+    teamIds.length > 0 ? db.select().from(rosters).where(inArray(rosters.teamId, teamIds)) : Promise.resolve([]),
+  ]);
+
+  // "type:id" -> owning team
+  const owners = new Map(leagueRosters.map((r) => [`${r.assetType}:${r.assetId}`, r.teamId]));
+  // "type:id" -> claim that won the asset in this run
+  const winners = new Map<string, ClaimRow>();
+  const results: ClaimResult[] = [];
+  const log: string[] = [];
+
+  const finishClaim = async (claim: ClaimRow, status: string, reason: string) => {
+    await db
+      .update(waiverClaims)
+      .set({ status, statusReason: reason, processedAt: new Date().toISOString() })
+      .where(eq(waiverClaims.id, claim.id));
+    results.push({ claim, status, reason });
+    log.push(`Claim ${claim.id} ${status}: ${reason}`);
+  };
+
+  let remaining = [...pending];
+  while (remaining.length > 0) {
+    const eligible = remaining.filter((c) => isClaimEligible(c, remaining));
+    eligible.sort(compareClaims(league, order));
+    const claim = eligible[0];
+    remaining = remaining.filter((c) => c.id !== claim.id);
+
+    const addKey = `${claim.addAssetType}:${claim.addAssetId}`;
+    const dropKey = `${claim.dropAssetType}:${claim.dropAssetId}`;
+    const bid = league.faabEnabled ? claim.bidAmount : 0;
+    const budget = budgets.get(claim.teamId) ?? 0;
+
+    let reason: string | null = null;
+    const winner = winners.get(addKey);
+    if (winner) {
+      if (league.faabEnabled && winner.bidAmount > claim.bidAmount) {
+        reason = `Outbid ($${winner.bidAmount}).`;
+      } else if (league.faabEnabled) {
+        reason = league.faabTiebreaker === "earliest"
+          ? "Lost the tiebreak: an equal bid was submitted earlier."
+          : "Lost the tiebreak on waiver priority.";
+      } else {
+        reason = "A team with better waiver priority claimed it.";
+      }
+    } else if (owners.has(addKey)) {
+      reason = "Player already taken.";
+    } else if (claim.dropAssetType !== "none" && owners.get(dropKey) !== claim.teamId) {
+      reason = "Drop player already moved.";
+    } else if (bid > budget) {
+      reason = "Not enough FAAB left.";
+    } else {
+      // Roster as it stands after the claims already won in this run
+      const rosterAfter = Array.from(owners)
+        .filter(([key, teamId]) => teamId === claim.teamId && key !== dropKey)
+        .map(([key]) => ({ assetType: key.split(":")[0] }));
+      if (exceedsRosterLimits([...rosterAfter, { assetType: claim.addAssetType }])) {
+        reason = "Roster is full. Choose an asset to drop.";
+      }
+    }
+
+    if (reason) {
+      await finishClaim(claim, "failed", reason);
+      continue;
+    }
+
+    const assetName = await getAssetName(db, claim.addAssetType, claim.addAssetId);
+    const now = new Date().toISOString();
+    try {
+      await db.transaction(async (tx) => {
+        if (claim.dropAssetType !== "none") {
+          await tx.delete(rosters).where(and(
+            eq(rosters.teamId, claim.teamId),
+            eq(rosters.assetType, claim.dropAssetType),
+            eq(rosters.assetId, claim.dropAssetId)
+          ));
+          await clearKeeperDesignation(tx, claim.teamId, claim.dropAssetType, claim.dropAssetId);
+        }
+
+        await tx.insert(rosters).values({
+          teamId: claim.teamId,
+          assetType: claim.addAssetType,
+          assetId: claim.addAssetId,
+          acquiredWeek: league.currentWeek,
+          acquiredVia: "waiver",
+        });
+
+        await tx
+          .update(teams)
+          .set({ faabBudget: budget - bid })
+          .where(eq(teams.id, claim.teamId));
+
+        if (league.faabEnabled) {
+          await tx.insert(faabTransactions).values({
+            leagueId,
+            teamId: claim.teamId,
+            amount: -bid,
+            balanceAfter: budget - bid,
+            kind: "waiver_claim",
+            waiverClaimId: claim.id,
+            note: `Won ${assetName}`,
+          });
+        }
+
+        await tx
+          .delete(waiverHolds)
+          .where(and(
+            eq(waiverHolds.leagueId, leagueId),
+            eq(waiverHolds.assetType, claim.addAssetType),
+            eq(waiverHolds.assetId, claim.addAssetId)
+          ));
+
+        await tx
+          .update(waiverClaims)
+          .set({ status: "success", statusReason: null, processedAt: now })
+          .where(eq(waiverClaims.id, claim.id));
+      });
+    } catch (e) {
+      console.error(`[WaiverService] Error processing claim ${claim.id}:`, e);
+      await finishClaim(claim, "error", "Database transaction failed.");
+      continue;
+    }
+
+    owners.set(addKey, claim.teamId);
+    winners.set(addKey, claim);
+    budgets.set(claim.teamId, budget - bid);
+    if (claim.dropAssetType !== "none") {
+      owners.delete(dropKey);
+      await placeOnWaivers(db, league, claim.teamId, claim.dropAssetType, claim.dropAssetId);
+    }
+
+    // Winning a claim costs the team its place in line
+    order.splice(order.indexOf(claim.teamId), 1);
+    order.push(claim.teamId);
+
+    results.push({ claim, status: "success" });
+    log.push(`Claim ${claim.id} success: Team ${claim.teamId} got ${addKey} for $${bid}`);
+
+    // The rest of the group was only wanted in case this claim failed
+    if (claim.claimGroup !== null) {
+      const skipped = remaining.filter((c) => c.teamId === claim.teamId && c.claimGroup === claim.claimGroup);
+      remaining = remaining.filter((c) => !skipped.includes(c));
+      for (const other of skipped) {
+        await finishClaim(other, "skipped", `An earlier claim of its group (${assetName}) succeeded.`);
+      }
+    }
+  }
+
+  const finishedAt = new Date().toISOString();
+  for (let index = 0; index < order.length; index++) {
+    await db.update(teams).set({ waiverPriority: index + 1 }).where(eq(teams.id, order[index]));
+  }
+  // Assets whose waiver period has passed become free agents after the run
+  await db.delete(waiverHolds).where(and(eq(waiverHolds.leagueId, leagueId), lte(waiverHolds.clearsAt, finishedAt)));
+  await db.update(leagues).set({ lastWaiverRunAt: finishedAt }).where(eq(leagues.id, leagueId));
+
+  await notifyWaiverResults(db, league, leagueTeams, order, results);
+
+  return {
+    processed: results.length,
+    successful: results.filter((r) => r.status === "success").length,
+    log,
+  };
+}
+
+/**
+ * Push each team the outcome of its own claims
+ */
+async function notifyWaiverResults(
+  db: Database,
+  league: LeagueRow,
+  leagueTeams: TeamRow[],
+  order: number[],
+  results: ClaimResult[]
+) {
+  for (const team of leagueTeams) {
+    const teamResults = results.filter((r) => r.claim.teamId === team.id);
+    if (teamResults.length === 0) continue;
+
+    wsManager.notifyUser(team.userId, {
+      type: "waiver_results",
+      leagueId: league.id,
+      leagueName: league.name,
+      waiverPriority: order.indexOf(team.id) + 1,
+      results: await Promise.all(
+        teamResults.map(async (r) => ({
+          claimId: r.claim.id,
+          status: r.status,
+          reason: r.reason ?? null,
+          bidAmount: r.claim.bidAmount,
+          assetName: await getAssetName(db, r.claim.addAssetType, r.claim.addAssetId),
+        }))
+      ),
+    });
+  }
+}
+
+/**
+ * Run waivers for every season league whose scheduled run has come up since its last run
+ */
+export async function processDueWaivers() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const activeLeagues = await db
+    .select()
+    .from(leagues)
+    .where(and(eq(leagues.leagueType, "season"), eq(leagues.status, "active")));
+
+  const now = new Date();
+  let processed = 0;
+  for (const league of activeLeagues) {
+    const scheduled = getLastScheduledWaiverRun(league, now);
+    if (league.lastWaiverRunAt && new Date(league.lastWaiverRunAt) >= scheduled) continue;
+
+    try {
+      const result = await processLeagueWaivers(league.id);
+      processed++;
+      console.log(
+        `[WaiverService] League ${league.id}: ${result.successful}/${result.processed} claims successful`
+      );
+    } catch (error) {
+      console.error(`[WaiverService] Error processing waivers for league ${league.id}:`, error);
+    }
+  }
+
+  return { processed };
+}
@@ -217,6 +217,16 @@ class WebSocketManager {
     }
   }
 
+  /**
+   * User IDs currently connected to a draft room (used to detect offline teams)
+   */
+  getDraftRoomUserIds(leagueId: number): Set<number> {
+    const room = this.draftRooms.get(leagueId);
+    const userIds = new Set<number>();
+    room?.clients.forEach((client) => userIds.add(client.userId));
+    return userIds;
+  }
+
   // League Channel Management
   joinLeagueChannel(client: Client, leagueId: number) {
     if (!this.leagueChannels.has(leagueId)) {
@@ -288,6 +298,7 @@ class WebSocketManager {
     assetName: string;
     pickNumber: number;
     imageUrl?: string | null;
+    price?: number | null;
   }) {
     logDraftTiming("ws:player_picked", {
       leagueId,
@@ -418,6 +429,77 @@ class WebSocketManager {
     });
   }
 
+  // Commissioner Draft Events
+  notifyDraftPaused(leagueId: number, data: { remaining: number | null }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'draft_paused',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
+  notifyDraftResumed(leagueId: number, data: { remaining: number }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'draft_resumed',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
+  notifyPicksUndone(leagueId: number, data: {
+    pickNumber: number;
+    round: number;
+    picks: Array<{ pickNumber: number; teamId: number; assetType: string; assetId: number }>;
+  }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'picks_undone',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
+  notifyPickTimeLimitChanged(leagueId: number, data: { pickTimeLimit: number }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'pick_time_limit_changed',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Auction Draft Events
+  notifyAuctionNomination(leagueId: number, data: {
+    lotNumber: number;
+    nominatingTeamId: number;
+    nominatingTeamName: string;
+    assetType: string;
+    assetId: number;
+    assetName: string;
+    imageUrl?: string | null;
+    openingBid: number;
+    timeLimit: number;
+  }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'auction_nomination',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
+  notifyAuctionBid(leagueId: number, data: {
+    lotNumber: number;
+    teamId: number;
+    teamName: string;
+    amount: number;
+    isAutoBid: boolean;
+    timeLimit: number;
+  }) {
+    this.broadcastToDraftRoom(leagueId, {
+      type: 'auction_bid',
+      ...data,
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Notify when wishlist player is drafted (for auto-pick from queue feature)
    */
@@ -0,0 +1,95 @@
+export type TrendScoredEntity = "manufacturer" | "strain" | "product" | "pharmacy";
+
+/**
+ * Per-league scoring rules.
+ * Stored on leagues.scoringConfig and only used when leagues.scoringType = 'custom';
+ * every other league scores with DEFAULT_SCORING_CONFIG.
+ */
+export interface LeagueScoringConfig {
+  /** Points per order, by position */
+  orderPoints: Record<TrendScoredEntity, number>;
+  /** Points per 1.0x of trend multiplier, by position */
+  trendPoints: Record<TrendScoredEntity, number>;
+  /** Highest trend multiplier that still earns points */
+  trendMultiplierCap: number;
+  /** Rank bonus for #1, #2-3, #4-5 and #6-10 */
+  rankTierBonuses: [number, number, number, number];
+  /** Multiplier applied to the captain's points */
+  captainMultiplier: number;
+  /** Flat bonus when the captain is the team's top scorer */
+  captainBonus: number;
+  synergyEnabled: boolean;
+  /** Pharmacy + strain + product combo, percent of each asset's points */
+  fullSynergyPercent: number;
+  /** Pharmacy + strain or pharmacy + product combo, percent of each asset's points */
+  partialSynergyPercent: number;
+  /** Maximum team bonus points per scoring period (0 turns team bonuses off) */
+  teamBonusCap: number;
+}
+
+export const DEFAULT_SCORING_CONFIG: LeagueScoringConfig = {
+  orderPoints: { manufacturer: 5, strain: 7, product: 7, pharmacy: 5 },
+  trendPoints: { manufacturer: 25, strain: 22, product: 20, pharmacy: 25 },
+  trendMultiplierCap: 5,
+  rankTierBonuses: [30, 20, 15, 10],
+  captainMultiplier: 1,
+  captainBonus: 15,
+  synergyEnabled: true,
+  fullSynergyPercent: 50,
+  partialSynergyPercent: 25,
+  teamBonusCap: 100,
+};
+
+const numberOr = (value: unknown, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Fill a (possibly partial) stored config with the defaults
+ */
+export function normalizeScoringConfig(raw: unknown): LeagueScoringConfig {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<LeagueScoringConfig>;
+  const defaults = DEFAULT_SCORING_CONFIG;
+
+  const byEntity = (
+    value: Partial<Record<TrendScoredEntity, number>> | undefined,
+    fallback: Record<TrendScoredEntity, number>
+  ): Record<TrendScoredEntity, number> => ({
+    manufacturer: numberOr(value?.manufacturer, fallback.manufacturer),
+    strain: numberOr(value?.strain, fallback.strain),
+    product: numberOr(value?.product, fallback.product),
+    pharmacy: numberOr(value?.pharmacy, fallback.pharmacy),
+  });
+
+  const tiers = Array.isArray(stored.rankTierBonuses) ? stored.rankTierBonuses : [];
+
+  return {
+    orderPoints: byEntity(stored.orderPoints, defaults.orderPoints),
+    trendPoints: byEntity(stored.trendPoints, defaults.trendPoints),
+    trendMultiplierCap: numberOr(stored.trendMultiplierCap, defaults.trendMultiplierCap),
+    rankTierBonuses: [
+      numberOr(tiers[0], defaults.rankTierBonuses[0]),
+      numberOr(tiers[1], defaults.rankTierBonuses[1]),
+      numberOr(tiers[2], defaults.rankTierBonuses[2]),
+      numberOr(tiers[3], defaults.rankTierBonuses[3]),
+    ],
+    captainMultiplier: numberOr(stored.captainMultiplier, defaults.captainMultiplier),
+    captainBonus: numberOr(stored.captainBonus, defaults.captainBonus),
+    synergyEnabled:
+      typeof stored.synergyEnabled === "boolean" ? stored.synergyEnabled : defaults.synergyEnabled,
+    fullSynergyPercent: numberOr(stored.fullSynergyPercent, defaults.fullSynergyPercent),
+    partialSynergyPercent: numberOr(stored.partialSynergyPercent, defaults.partialSynergyPercent),
+    teamBonusCap: numberOr(stored.teamBonusCap, defaults.teamBonusCap),
+  };
+}
+
+/**
+ * Scoring rules a league actually plays with
+ */
+export function resolveScoringConfig(
+  league: { scoringType: string; scoringConfig?: unknown } | null | undefined
+): LeagueScoringConfig {
+  if (!league || league.scoringType !== "custom") {
+    return DEFAULT_SCORING_CONFIG;
+  }
+  return normalizeScoringConfig(league.scoringConfig);
+}
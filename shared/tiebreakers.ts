@@ -0,0 +1,41 @@
+export type StandingsTiebreaker =
+  | "head_to_head"
+  | "points_for"
+  | "points_against"
+  | "division_record"
+  | "median_wins"
+  | "coin_flip";
+
+export const TIEBREAKER_LABELS: Record<StandingsTiebreaker, string> = {
+  head_to_head: "Direkter Vergleich",
+  points_for: "Punkte für",
+  points_against: "Punkte gegen",
+  division_record: "Divisionsbilanz",
+  median_wins: "Siege gegen den Median",
+  coin_flip: "Münzwurf",
+};
+
+/**
+ * Ordered tiebreakers applied after win percentage.
+ * Stored on leagues.tiebreakers; matches the historic points-for / differential order.
+ */
+export const DEFAULT_TIEBREAKERS: StandingsTiebreaker[] = ["points_for", "points_against", "coin_flip"];
+
+const ALL_TIEBREAKERS = Object.keys(TIEBREAKER_LABELS) as StandingsTiebreaker[];
+
+/**
+ * Tiebreaker order a league actually uses. Unknown and duplicate entries are dropped
+ * and the coin flip is always appended so every tie gets decided.
+ */
+export function resolveTiebreakers(raw: unknown): StandingsTiebreaker[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return DEFAULT_TIEBREAKERS;
+  }
+
+  const order = raw.filter(
+    (value, index): value is StandingsTiebreaker =>
+      ALL_TIEBREAKERS.includes(value as StandingsTiebreaker) && raw.indexOf(value) === index
+  );
+
+  return order.includes("coin_flip") ? order : [...order, "coin_flip"];
+}